@@ -85,13 +85,16 @@ export function StatusTag({ four_eyes_status }: Pick<DeploymentTagProps, 'four_e
     case 'repository_mismatch':
     case 'unauthorized_repository':
     case 'unauthorized_branch':
+    case 'unauthorized_workflow':
       return (
         <Tag data-color="danger" variant="outline" size="small" icon={<XMarkIcon aria-hidden />}>
           {four_eyes_status === 'unauthorized_repository'
             ? 'Ikke godkjent repo'
             : four_eyes_status === 'unauthorized_branch'
               ? 'Ikke på godkjent branch'
-              : 'Feil'}
+              : four_eyes_status === 'unauthorized_workflow'
+                ? 'Ikke godkjent workflow'
+                : 'Feil'}
         </Tag>
       )
     default:
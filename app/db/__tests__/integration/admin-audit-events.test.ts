@@ -0,0 +1,131 @@
+/**
+ * Integration tests: admin changes record an audit event with the state
+ * before and after, in the same transaction as the change.
+ */
+import { Pool } from 'pg'
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest'
+import { addAppToGroup, createApplicationGroup, deleteGroup } from '../../application-groups.server'
+import { createComment, deleteComment } from '../../comments.server'
+import { updateDevTeam } from '../../dev-teams.server'
+import { setSectionTeams } from '../../sections.server'
+import { deleteUserMapping, upsertUserMapping } from '../../user-mappings.server'
+import { seedApp, seedDeployment, seedDevTeam, seedSection, truncateAllTables } from './helpers'
+
+const actor = { navIdent: 'A123456', name: 'Admin Adminsen' }
+
+let pool: Pool
+
+beforeAll(() => {
+  pool = new Pool({ connectionString: process.env.DATABASE_URL })
+})
+afterAll(async () => {
+  await pool.end()
+})
+
+beforeEach(async () => {
+  await truncateAllTables(pool)
+})
+
+async function getEvents(action: string) {
+  const { rows } = await pool.query(
+    'SELECT actor_nav_ident, entity_id, monitored_app_id, before_state, after_state FROM audit_events WHERE action = $1 ORDER BY id',
+    [action],
+  )
+  return rows
+}
+
+describe('admin audit events', () => {
+  it('records the section teams before and after, and nothing when unchanged', async () => {
+    const sectionId = await seedSection(pool, 'sec', 'Sec')
+
+    await setSectionTeams(sectionId, ['team-b', 'team-a'], actor.navIdent, actor)
+    await setSectionTeams(sectionId, ['team-a'], actor.navIdent, actor)
+    await setSectionTeams(sectionId, ['team-a'], actor.navIdent, actor)
+
+    const events = await getEvents('section.teams_update')
+    expect(events).toHaveLength(2)
+    expect(events[0].before_state).toEqual({ team_slugs: [] })
+    expect(events[0].after_state).toEqual({ team_slugs: ['team-a', 'team-b'] })
+    expect(events[1].before_state).toEqual({ team_slugs: ['team-a', 'team-b'] })
+    expect(events[1].after_state).toEqual({ team_slugs: ['team-a'] })
+    expect(events[1].actor_nav_ident).toBe(actor.navIdent)
+  })
+
+  it('records only the changed dev team fields', async () => {
+    const devTeamId = await seedDevTeam(pool, 'dev', 'Old name')
+
+    await updateDevTeam(devTeamId, { name: 'New name', is_active: true }, actor)
+
+    const [event] = await getEvents('dev_team.update')
+    expect(event.entity_id).toBe(String(devTeamId))
+    expect(event.before_state).toEqual({ name: 'Old name' })
+    expect(event.after_state).toEqual({ name: 'New name' })
+  })
+
+  it('records the apps of a deleted application group', async () => {
+    const appId = await seedApp(pool, { teamSlug: 'team', appName: 'app', environment: 'prod' })
+    const group = await createApplicationGroup('app', actor)
+    await addAppToGroup(group.id, appId, actor)
+
+    await deleteGroup(group.id, actor.navIdent, actor)
+
+    const [added] = await getEvents('application_group.add_app')
+    expect(added.monitored_app_id).toBe(appId)
+    expect(added.after_state).toEqual({ application_group_id: group.id })
+    const [deleted] = await getEvents('application_group.delete')
+    expect(deleted.before_state).toEqual({ name: 'app', monitored_app_ids: [appId] })
+  })
+
+  it('records user mapping changes and deletion', async () => {
+    await upsertUserMapping({ githubUsername: 'octocat', displayName: 'Octo Cat' }, actor)
+    await upsertUserMapping({ githubUsername: 'octocat', navIdent: 'O123456' }, actor)
+    await deleteUserMapping('octocat', actor.navIdent, actor)
+
+    const updates = await getEvents('user_mapping.update')
+    expect(updates).toHaveLength(2)
+    expect(updates[1].before_state).toEqual({ nav_ident: null })
+    expect(updates[1].after_state).toEqual({ nav_ident: 'O123456' })
+    const [deleted] = await getEvents('user_mapping.delete')
+    expect(deleted.before_state).toMatchObject({ display_name: 'Octo Cat', nav_ident: 'O123456' })
+  })
+
+  it('rolls the comment back when its audit event cannot be stored', async () => {
+    const appId = await seedApp(pool, { teamSlug: 'team', appName: 'app', environment: 'prod' })
+    const deploymentId = await seedDeployment(pool, { monitoredAppId: appId, teamSlug: 'team', environment: 'prod' })
+
+    await expect(
+      createComment({ deployment_id: deploymentId, comment_text: 'hei' }, (comment) => ({
+        actor,
+        action: 'comment.create',
+        entityType: 'comment',
+        entityId: comment.id,
+        // Not an integer, so the insert fails
+        monitoredAppId: 'not-a-number' as unknown as number,
+        after: { comment_text: comment.comment_text },
+      })),
+    ).rejects.toThrow()
+
+    const { rows } = await pool.query('SELECT id FROM deployment_comments WHERE deployment_id = $1', [deploymentId])
+    expect(rows).toHaveLength(0)
+  })
+
+  it('records a deleted comment in the same transaction', async () => {
+    const appId = await seedApp(pool, { teamSlug: 'team', appName: 'app', environment: 'prod' })
+    const deploymentId = await seedDeployment(pool, { monitoredAppId: appId, teamSlug: 'team', environment: 'prod' })
+    const comment = await createComment({ deployment_id: deploymentId, comment_text: 'hei' })
+
+    const deleted = await deleteComment(comment.id, actor.navIdent, (row) => ({
+      actor,
+      action: 'comment.delete',
+      entityType: 'comment',
+      entityId: row.id,
+      monitoredAppId: appId,
+      before: { comment_text: row.comment_text },
+    }))
+
+    expect(deleted).toBe(true)
+    const [event] = await getEvents('comment.delete')
+    expect(event.before_state).toEqual({ comment_text: 'hei' })
+    expect(await deleteComment(comment.id, actor.navIdent)).toBe(false)
+  })
+})
@@ -0,0 +1,85 @@
+import { Pool } from 'pg'
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest'
+import { createComment, createCommentFromSlack, setCommentSlackMessageTs } from '../../comments.server'
+import { truncateAllTables } from './helpers'
+
+let pool: Pool
+
+beforeAll(() => {
+  pool = new Pool({ connectionString: process.env.DATABASE_URL })
+})
+afterAll(async () => {
+  await pool.end()
+})
+
+async function seedDeployment(pool: Pool, suffix: string): Promise<number> {
+  const app = await pool.query<{ id: number }>(
+    `INSERT INTO monitored_applications (team_slug, app_name, environment_name, is_active)
+     VALUES ('t', $1, 'dev', true) RETURNING id`,
+    [`a-${suffix}`],
+  )
+  const dep = await pool.query<{ id: number }>(
+    `INSERT INTO deployments (
+       monitored_app_id, nais_deployment_id, team_slug, app_name, environment_name,
+       commit_sha, created_at, four_eyes_status, deployer_username
+     ) VALUES ($1, $2, 't', $3, 'dev', $4, NOW(), 'pending', 'deployer')
+     RETURNING id`,
+    [app.rows[0].id, `nd-${suffix}-${Date.now()}`, `a-${suffix}`, `sha-${suffix}`],
+  )
+  return dep.rows[0].id
+}
+
+describe('deployment_comments Slack thread sync', () => {
+  beforeEach(async () => {
+    await truncateAllTables(pool)
+  })
+
+  it('imports a thread reply once even if the event is delivered again', async () => {
+    const depId = await seedDeployment(pool, 's1')
+    const reply = {
+      deployment_id: depId,
+      comment_text: 'Sjekket med teamet, ok',
+      slack_link: 'https://nav-it.slack.com/archives/C1/p1700000000000100',
+      slack_message_ts: '1700000000.000100',
+      slack_user_id: 'U123',
+      registered_by: 'A123456',
+    }
+
+    const first = await createCommentFromSlack(reply)
+    const second = await createCommentFromSlack(reply)
+
+    expect(first?.slack_user_id).toBe('U123')
+    expect(first?.registered_by).toBe('A123456')
+    expect(second).toBeNull()
+    const { rows } = await pool.query('SELECT id FROM deployment_comments WHERE deployment_id = $1', [depId])
+    expect(rows).toHaveLength(1)
+  })
+
+  it('allows the same message ts on different deployments', async () => {
+    const dep1 = await seedDeployment(pool, 's2')
+    const dep2 = await seedDeployment(pool, 's3')
+    const reply = {
+      comment_text: 'Svar',
+      slack_link: null,
+      slack_message_ts: '1700000000.000200',
+      slack_user_id: 'U123',
+      registered_by: null,
+    }
+
+    expect(await createCommentFromSlack({ ...reply, deployment_id: dep1 })).not.toBeNull()
+    expect(await createCommentFromSlack({ ...reply, deployment_id: dep2 })).not.toBeNull()
+  })
+
+  it('links a web comment to its message in the thread', async () => {
+    const depId = await seedDeployment(pool, 's4')
+    const comment = await createComment({ deployment_id: depId, comment_text: 'Fra web', registered_by: 'B123456' })
+
+    await setCommentSlackMessageTs(comment.id, '1700000000.000300')
+
+    const { rows } = await pool.query('SELECT slack_message_ts, slack_user_id FROM deployment_comments WHERE id = $1', [
+      comment.id,
+    ])
+    expect(rows[0].slack_message_ts).toBe('1700000000.000300')
+    expect(rows[0].slack_user_id).toBeNull()
+  })
+})
@@ -0,0 +1,103 @@
+import { Pool } from 'pg'
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest'
+import { updateDeploymentFourEyes } from '../../deployments.server'
+import { createDeviation } from '../../deviations.server'
+import {
+  claimDueEventDeliveries,
+  createEventSubscriber,
+  fanOutOutboxEvents,
+  markEventDeliveryFailed,
+} from '../../event-outbox.server'
+import { seedApp, seedDeployment, truncateAllTables } from './helpers'
+
+let pool: Pool
+
+beforeAll(() => {
+  pool = new Pool({ connectionString: process.env.DATABASE_URL })
+})
+afterAll(async () => {
+  await pool.end()
+})
+
+const actor = { navIdent: 'A123456', name: 'Test Admin' }
+
+async function seed(): Promise<number> {
+  const appId = await seedApp(pool, { teamSlug: 't', appName: 'test-app', environment: 'dev' })
+  return seedDeployment(pool, { monitoredAppId: appId, teamSlug: 't', environment: 'dev' })
+}
+
+async function setStatus(deploymentId: number, status: string): Promise<void> {
+  await updateDeploymentFourEyes(
+    deploymentId,
+    { fourEyesStatus: status, githubPrNumber: null, githubPrUrl: null },
+    { changeSource: 'verification' },
+  )
+}
+
+describe('event outbox', () => {
+  beforeEach(async () => {
+    await truncateAllTables(pool)
+  })
+
+  it('enqueues an event for each status transition and deviation', async () => {
+    const depId = await seed()
+
+    await setStatus(depId, 'unverified_commits')
+    await setStatus(depId, 'unverified_commits')
+    await createDeviation({ deployment_id: depId, reason: 'Manglet review', registered_by: 'A123456' })
+
+    const { rows } = await pool.query('SELECT event_type, payload FROM event_outbox ORDER BY id')
+    expect(rows.map((r) => r.event_type)).toEqual(['deployment.status_changed', 'deviation.registered'])
+    expect(rows[0].payload).toMatchObject({ fromStatus: 'pending', toStatus: 'unverified_commits' })
+    expect(rows[1].payload.deviation).toMatchObject({ reason: 'Manglet review' })
+  })
+
+  it('fans out to matching active subscribers once', async () => {
+    const depId = await seed()
+    await createEventSubscriber(
+      {
+        name: 'KISS',
+        url: 'https://kiss.example/events',
+        secret: 'a-long-enough-secret',
+        eventTypes: ['deployment.status_changed'],
+        statuses: ['manually_approved'],
+      },
+      actor,
+    )
+
+    await setStatus(depId, 'unverified_commits')
+    await setStatus(depId, 'manually_approved')
+
+    expect(await fanOutOutboxEvents()).toBe(2)
+    expect(await fanOutOutboxEvents()).toBe(0)
+
+    const { rows } = await pool.query(
+      `SELECT o.payload->>'toStatus' AS to_status FROM event_deliveries ed JOIN event_outbox o ON ed.outbox_id = o.id`,
+    )
+    expect(rows).toEqual([{ to_status: 'manually_approved' }])
+  })
+
+  it('does not claim a delivery twice while it is locked, and gives up without a next attempt', async () => {
+    const depId = await seed()
+    await createEventSubscriber(
+      {
+        name: 'DVH',
+        url: 'https://dvh.example/events',
+        secret: 'a-long-enough-secret',
+        eventTypes: ['deployment.status_changed'],
+        statuses: [],
+      },
+      actor,
+    )
+    await setStatus(depId, 'unverified_commits')
+    await fanOutOutboxEvents()
+
+    const [claimed] = await claimDueEventDeliveries(10, 300)
+    expect(claimed).toMatchObject({ attempts: 0, url: 'https://dvh.example/events' })
+    expect(await claimDueEventDeliveries(10, 300)).toHaveLength(0)
+
+    await markEventDeliveryFailed(claimed.id, { responseStatus: 500, error: 'HTTP 500', nextAttemptAt: null })
+    const { rows } = await pool.query('SELECT status, attempts, locked_until FROM event_deliveries')
+    expect(rows[0]).toEqual({ status: 'failed', attempts: 1, locked_until: null })
+  })
+})
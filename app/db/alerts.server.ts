@@ -1,18 +1,32 @@
+import {
+  REPOSITORY_ALERT_DEFAULT_SEVERITY,
+  type RepositoryAlertSeverity,
+  type RepositoryAlertType,
+} from '~/lib/repository-alerts'
 import { pool } from './connection.server'
 
 interface RepositoryAlert {
   id: number
   monitored_app_id: number
-  deployment_id: number
+  // NULL for alerts about the repository itself rather than a deployment
+  deployment_id: number | null
   alert_type: string
+  severity: RepositoryAlertSeverity
   expected_github_owner: string
   expected_github_repo_name: string
   detected_github_owner: string
   detected_github_repo_name: string
+  assigned_to_nav_ident: string | null
+  assigned_to_name: string | null
+  assigned_at: Date | null
+  notified_at: Date | null
   resolved: boolean
   resolved_at: Date | null
   resolved_by: string | null
   resolution_note: string | null
+  resolution_type: 'manual' | 'auto' | null
+  // Extra context for alerts about more than the repository (e.g. image digest and commits)
+  details: Record<string, unknown> | null
   created_at: Date
 }
 
@@ -20,63 +34,108 @@ interface RepositoryAlertWithContext extends RepositoryAlert {
   team_slug: string
   environment_name: string
   app_name: string
-  deployment_nais_id: string
-  deployment_created_at: Date
-  deployer_username: string
-  commit_sha: string
+  deployment_nais_id: string | null
+  deployment_created_at: Date | null
+  deployer_username: string | null
+  commit_sha: string | null
 }
 
+/**
+ * Create an alert. Deployment alerts are linked through deploymentNaisId;
+ * alerts about the repository itself pass monitoredApplicationId only.
+ *
+ * Returns null when an identical alert already exists.
+ */
 export async function createRepositoryAlert(data: {
   monitoredApplicationId: number
-  deploymentNaisId: string
+  deploymentNaisId?: string
   detectedGithubOwner: string
   detectedGithubRepoName: string
   expectedGithubOwner?: string
   expectedGithubRepoName?: string
-  alertType?: string
-}): Promise<RepositoryAlert> {
-  // First, find the deployment ID from nais_deployment_id
-  const depResult = await pool.query('SELECT id, monitored_app_id FROM deployments WHERE nais_deployment_id = $1', [
-    data.deploymentNaisId,
-  ])
-
-  if (depResult.rows.length === 0) {
-    throw new Error(`Deployment not found with nais_deployment_id: ${data.deploymentNaisId}`)
-  }
+  alertType?: RepositoryAlertType
+  severity?: RepositoryAlertSeverity
+  details?: Record<string, unknown>
+}): Promise<RepositoryAlert | null> {
+  let monitoredAppId = data.monitoredApplicationId
+  let deploymentId: number | null = null
+
+  if (data.deploymentNaisId) {
+    const depResult = await pool.query('SELECT id, monitored_app_id FROM deployments WHERE nais_deployment_id = $1', [
+      data.deploymentNaisId,
+    ])
 
-  const deployment = depResult.rows[0]
+    if (depResult.rows.length === 0) {
+      throw new Error(`Deployment not found with nais_deployment_id: ${data.deploymentNaisId}`)
+    }
+
+    deploymentId = depResult.rows[0].id
+    monitoredAppId = depResult.rows[0].monitored_app_id
+  }
 
   // Use provided expected repo or default to detected (for pending/historical alerts)
   const expectedOwner = data.expectedGithubOwner || data.detectedGithubOwner
   const expectedRepoName = data.expectedGithubRepoName || data.detectedGithubRepoName
   const alertType = data.alertType || 'repository_mismatch'
+  const severity = data.severity || REPOSITORY_ALERT_DEFAULT_SEVERITY[alertType]
 
   const result = await pool.query(
-    `INSERT INTO repository_alerts 
-      (monitored_app_id, deployment_id, alert_type, expected_github_owner, expected_github_repo_name, detected_github_owner, detected_github_repo_name)
-    VALUES ($1, $2, $3, $4, $5, $6, $7)
+    `INSERT INTO repository_alerts
+      (monitored_app_id, deployment_id, alert_type, severity, expected_github_owner, expected_github_repo_name, detected_github_owner, detected_github_repo_name, details)
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
     ON CONFLICT DO NOTHING
     RETURNING *`,
     [
-      deployment.monitored_app_id,
-      deployment.id,
+      monitoredAppId,
+      deploymentId,
       alertType,
+      severity,
       expectedOwner,
       expectedRepoName,
       data.detectedGithubOwner,
       data.detectedGithubRepoName,
+      data.details ?? null,
     ],
   )
-  return result.rows[0]
+  return result.rows[0] ?? null
 }
 
-export async function resolveRepositoryAlert(id: number, resolutionNote: string): Promise<RepositoryAlert> {
+/**
+ * Whether the app has an open alert of a type. With deploymentId, alerts for
+ * that deployment count even when resolved, so they are not raised again.
+ */
+export async function hasRepositoryAlert(
+  monitoredAppId: number,
+  alertType: RepositoryAlertType,
+  options: { deploymentId?: number } = {},
+): Promise<boolean> {
+  const result = options.deploymentId
+    ? await pool.query(
+        `SELECT 1 FROM repository_alerts
+         WHERE monitored_app_id = $1 AND alert_type = $2 AND deployment_id = $3
+         LIMIT 1`,
+        [monitoredAppId, alertType, options.deploymentId],
+      )
+    : await pool.query(
+        `SELECT 1 FROM repository_alerts
+         WHERE monitored_app_id = $1 AND alert_type = $2 AND resolved_at IS NULL
+         LIMIT 1`,
+        [monitoredAppId, alertType],
+      )
+  return result.rows.length > 0
+}
+
+export async function resolveRepositoryAlert(
+  id: number,
+  resolutionNote: string,
+  resolvedBy: string,
+): Promise<RepositoryAlert> {
   const result = await pool.query(
-    `UPDATE repository_alerts 
-    SET resolved = true, resolved_at = CURRENT_TIMESTAMP, resolved_by = 'web-user', resolution_note = $2
+    `UPDATE repository_alerts
+    SET resolved = true, resolved_at = CURRENT_TIMESTAMP, resolved_by = $3, resolution_note = $2, resolution_type = 'manual'
     WHERE id = $1
     RETURNING *`,
-    [id, resolutionNote],
+    [id, resolutionNote, resolvedBy],
   )
 
   if (result.rows.length === 0) {
@@ -86,6 +145,41 @@ export async function resolveRepositoryAlert(id: number, resolutionNote: string)
   return result.rows[0]
 }
 
+/**
+ * Resolve an alert whose underlying condition has disappeared.
+ * Alerts resolved in the meantime are left untouched.
+ */
+export async function autoResolveRepositoryAlert(id: number, resolutionNote: string): Promise<boolean> {
+  const result = await pool.query(
+    `UPDATE repository_alerts
+    SET resolved = true, resolved_at = CURRENT_TIMESTAMP, resolved_by = 'system', resolution_note = $2, resolution_type = 'auto'
+    WHERE id = $1 AND resolved_at IS NULL`,
+    [id, resolutionNote],
+  )
+  return (result.rowCount ?? 0) > 0
+}
+
+/**
+ * Assign an alert to a person, or clear the assignee with null.
+ */
+export async function assignRepositoryAlert(
+  id: number,
+  assignee: { navIdent: string; name?: string | null } | null,
+): Promise<RepositoryAlert | null> {
+  const result = await pool.query(
+    `UPDATE repository_alerts
+    SET assigned_to_nav_ident = $2, assigned_to_name = $3, assigned_at = CASE WHEN $2::text IS NULL THEN NULL ELSE CURRENT_TIMESTAMP END
+    WHERE id = $1
+    RETURNING *`,
+    [id, assignee?.navIdent ?? null, assignee?.name || null],
+  )
+  return result.rows[0] ?? null
+}
+
+export async function markRepositoryAlertNotified(id: number): Promise<void> {
+  await pool.query('UPDATE repository_alerts SET notified_at = CURRENT_TIMESTAMP WHERE id = $1', [id])
+}
+
 export async function getAlertCountsByApp(): Promise<Map<number, number>> {
   const result = await pool.query(`
     SELECT monitored_app_id, COUNT(*) as count
@@ -100,23 +194,73 @@ export async function getAlertCountsByApp(): Promise<Map<number, number>> {
   return map
 }
 
+const ALERT_WITH_CONTEXT_SELECT = `
+  SELECT
+    ra.*,
+    ma.team_slug,
+    ma.environment_name,
+    ma.app_name,
+    d.nais_deployment_id as deployment_nais_id,
+    d.created_at as deployment_created_at,
+    d.deployer_username,
+    d.commit_sha
+  FROM repository_alerts ra
+  JOIN monitored_applications ma ON ra.monitored_app_id = ma.id
+  LEFT JOIN deployments d ON ra.deployment_id = d.id`
+
 export async function getUnresolvedAlertsByApp(monitoredAppId: number): Promise<RepositoryAlertWithContext[]> {
   const result = await pool.query(
-    `SELECT 
-      ra.*,
-      ma.team_slug,
-      ma.environment_name,
-      ma.app_name,
-      d.nais_deployment_id as deployment_nais_id,
-      d.created_at as deployment_created_at,
-      d.deployer_username,
-      d.commit_sha
-    FROM repository_alerts ra
-    JOIN monitored_applications ma ON ra.monitored_app_id = ma.id
-    JOIN deployments d ON ra.deployment_id = d.id
+    `${ALERT_WITH_CONTEXT_SELECT}
     WHERE ra.resolved_at IS NULL AND ra.monitored_app_id = $1
     ORDER BY ra.created_at DESC`,
     [monitoredAppId],
   )
   return result.rows
 }
+
+export async function getRepositoryAlertById(id: number): Promise<RepositoryAlertWithContext | null> {
+  const result = await pool.query(`${ALERT_WITH_CONTEXT_SELECT} WHERE ra.id = $1`, [id])
+  return result.rows[0] ?? null
+}
+
+/**
+ * Alerts across all applications for the admin inbox, most severe first.
+ * Resolved alerts are limited to the most recent ones.
+ */
+export async function getRepositoryAlerts(filters: {
+  resolved: boolean
+  alertType?: RepositoryAlertType
+  severity?: RepositoryAlertSeverity
+  teamSlug?: string
+  assignedTo?: string
+}): Promise<RepositoryAlertWithContext[]> {
+  const conditions = [filters.resolved ? 'ra.resolved_at IS NOT NULL' : 'ra.resolved_at IS NULL']
+  const params: unknown[] = []
+
+  if (filters.alertType) {
+    params.push(filters.alertType)
+    conditions.push(`ra.alert_type = $${params.length}`)
+  }
+  if (filters.severity) {
+    params.push(filters.severity)
+    conditions.push(`ra.severity = $${params.length}`)
+  }
+  if (filters.teamSlug) {
+    params.push(filters.teamSlug)
+    conditions.push(`ma.team_slug = $${params.length}`)
+  }
+  if (filters.assignedTo) {
+    params.push(filters.assignedTo)
+    conditions.push(`ra.assigned_to_nav_ident = $${params.length}`)
+  }
+
+  const result = await pool.query(
+    `${ALERT_WITH_CONTEXT_SELECT}
+    WHERE ${conditions.join(' AND ')}
+    ORDER BY
+      ${filters.resolved ? 'ra.resolved_at DESC' : "CASE ra.severity WHEN 'critical' THEN 1 WHEN 'high' THEN 2 WHEN 'medium' THEN 3 ELSE 4 END, ra.created_at ASC"}
+    LIMIT 500`,
+    params,
+  )
+  return result.rows
+}
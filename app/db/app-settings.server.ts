@@ -1,5 +1,13 @@
 import { logger } from '~/lib/logger.server'
-import type { ImplicitApprovalMode } from '~/lib/verification/types'
+import type { NotificationChannelType } from '~/lib/notifications/events'
+import type { ReportPeriodType } from '~/lib/report-periods'
+import type {
+  ApprovalPolicySettings as ApprovalPolicy,
+  CodeownersPolicySettings as CodeownersPolicy,
+  DeployWorkflowPolicySettings as DeployWorkflowPolicy,
+  ImplicitApprovalMode,
+} from '~/lib/verification/types'
+import { recordAuditEvent } from './audit-events.server'
 import { pool } from './connection.server'
 
 // ============================================================================
@@ -36,11 +44,73 @@ export const DEFAULT_IMPLICIT_APPROVAL_SETTINGS: ImplicitApprovalSettings = {
   mode: 'off',
 }
 
+// Approval policy settings structure
+export interface ApprovalPolicySettings extends ApprovalPolicy {
+  [key: string]: unknown // Allow index signature for Record<string, unknown> compatibility
+}
+
+export const DEFAULT_APPROVAL_POLICY_SETTINGS: ApprovalPolicySettings = {
+  minApprovals: 1,
+  requiredTeams: [],
+}
+
+// Deploy workflow policy structure (empty lists = no restriction)
+export interface DeployWorkflowPolicySettings extends DeployWorkflowPolicy {
+  [key: string]: unknown // Allow index signature for Record<string, unknown> compatibility
+}
+
+export const DEFAULT_DEPLOY_WORKFLOW_POLICY_SETTINGS: DeployWorkflowPolicySettings = {
+  allowedWorkflows: [],
+  allowedEvents: [],
+  requireBaseBranch: false,
+}
+
+// CODEOWNERS policy structure (empty appPaths = the whole repository)
+export interface CodeownersPolicySettings extends CodeownersPolicy {
+  [key: string]: unknown // Allow index signature for Record<string, unknown> compatibility
+}
+
+export const DEFAULT_CODEOWNERS_POLICY_SETTINGS: CodeownersPolicySettings = {
+  enabled: false,
+  appPaths: [],
+}
+
+// Scheduled audit report settings structure
+export interface ScheduledReportSettings {
+  enabled: boolean
+  periodTypes: ReportPeriodType[]
+  // Slack channel for "report blocked" messages; falls back to the app's Slack channel.
+  // Apps using Teams or a webhook get the message through that channel instead.
+  slackChannelId: string | null
+  [key: string]: unknown // Allow index signature for Record<string, unknown> compatibility
+}
+
+export const DEFAULT_SCHEDULED_REPORT_SETTINGS: ScheduledReportSettings = {
+  enabled: false,
+  periodTypes: ['yearly'],
+  slackChannelId: null,
+}
+
 // Setting keys
 const SETTING_KEYS = {
   IMPLICIT_APPROVAL: 'implicit_approval',
+  APPROVAL_POLICY: 'approval_policy',
+  DEPLOY_WORKFLOW_POLICY: 'deploy_workflow_policy',
+  CODEOWNERS_POLICY: 'codeowners_policy',
+  SCHEDULED_REPORTS: 'scheduled_reports',
 } as const
 
+export interface AppWithScheduledReports {
+  id: number
+  team_slug: string
+  environment_name: string
+  app_name: string
+  audit_start_year: number | null
+  notification_channel: NotificationChannelType
+  slack_channel_id: string | null
+  settings: ScheduledReportSettings
+}
+
 // Re-export for convenience
 export type { ImplicitApprovalMode }
 
@@ -75,6 +145,58 @@ export async function getImplicitApprovalSettings(monitoredAppId: number): Promi
   return getAppSetting(monitoredAppId, SETTING_KEYS.IMPLICIT_APPROVAL, DEFAULT_IMPLICIT_APPROVAL_SETTINGS)
 }
 
+/**
+ * Get approval policy settings for an application
+ */
+export async function getApprovalPolicySettings(monitoredAppId: number): Promise<ApprovalPolicySettings> {
+  return getAppSetting(monitoredAppId, SETTING_KEYS.APPROVAL_POLICY, DEFAULT_APPROVAL_POLICY_SETTINGS)
+}
+
+/**
+ * Get deploy workflow policy for an application
+ */
+export async function getDeployWorkflowPolicySettings(monitoredAppId: number): Promise<DeployWorkflowPolicySettings> {
+  return getAppSetting(monitoredAppId, SETTING_KEYS.DEPLOY_WORKFLOW_POLICY, DEFAULT_DEPLOY_WORKFLOW_POLICY_SETTINGS)
+}
+
+/**
+ * Get CODEOWNERS policy for an application
+ */
+export async function getCodeownersPolicySettings(monitoredAppId: number): Promise<CodeownersPolicySettings> {
+  return getAppSetting(monitoredAppId, SETTING_KEYS.CODEOWNERS_POLICY, DEFAULT_CODEOWNERS_POLICY_SETTINGS)
+}
+
+/**
+ * Get scheduled audit report settings for an application
+ */
+export async function getScheduledReportSettings(monitoredAppId: number): Promise<ScheduledReportSettings> {
+  return getAppSetting(monitoredAppId, SETTING_KEYS.SCHEDULED_REPORTS, DEFAULT_SCHEDULED_REPORT_SETTINGS)
+}
+
+/**
+ * Get active production apps that have opted in to scheduled audit reports
+ */
+export async function getAppsWithScheduledReports(): Promise<AppWithScheduledReports[]> {
+  const result = await pool.query<
+    Omit<AppWithScheduledReports, 'settings'> & { setting_value: Record<string, unknown> }
+  >(
+    `SELECT ma.id, ma.team_slug, ma.environment_name, ma.app_name, ma.audit_start_year, ma.notification_channel,
+            ma.slack_channel_id, s.setting_value
+     FROM app_settings s
+     JOIN monitored_applications ma ON ma.id = s.monitored_app_id
+     WHERE s.setting_key = $1
+       AND (s.setting_value->>'enabled')::boolean = true
+       AND ma.is_active = true
+       AND ma.environment_name LIKE 'prod-%'
+     ORDER BY ma.id`,
+    [SETTING_KEYS.SCHEDULED_REPORTS],
+  )
+  return result.rows.map(({ setting_value, ...app }) => ({
+    ...app,
+    settings: { ...DEFAULT_SCHEDULED_REPORT_SETTINGS, ...setting_value } as ScheduledReportSettings,
+  }))
+}
+
 /**
  * Update a setting for an application with audit logging
  */
@@ -121,6 +243,16 @@ async function updateAppSetting<T extends Record<string, unknown>>(params: {
     ],
   )
 
+  await recordAuditEvent({
+    actor: { navIdent: changedByNavIdent, name: changedByName },
+    action: 'app.settings_update',
+    entityType: 'app',
+    entityId: monitoredAppId,
+    monitoredAppId,
+    before: { [settingKey]: oldValue },
+    after: { [settingKey]: newValue },
+  })
+
   logger.info(
     `📝 Setting '${settingKey}' updated for app ${monitoredAppId} by ${changedByNavIdent}: ${JSON.stringify(oldValue)} → ${JSON.stringify(newValue)}`,
   )
@@ -148,6 +280,86 @@ export async function updateImplicitApprovalSettings(params: {
   })
 }
 
+/**
+ * Update approval policy settings with audit logging
+ */
+export async function updateApprovalPolicySettings(params: {
+  monitoredAppId: number
+  settings: ApprovalPolicySettings
+  changedByNavIdent: string
+  changedByName?: string
+  changeReason?: string
+}): Promise<AppSetting> {
+  return updateAppSetting({
+    monitoredAppId: params.monitoredAppId,
+    settingKey: SETTING_KEYS.APPROVAL_POLICY,
+    newValue: params.settings,
+    changedByNavIdent: params.changedByNavIdent,
+    changedByName: params.changedByName,
+    changeReason: params.changeReason,
+  })
+}
+
+/**
+ * Update deploy workflow policy with audit logging
+ */
+export async function updateDeployWorkflowPolicySettings(params: {
+  monitoredAppId: number
+  settings: DeployWorkflowPolicySettings
+  changedByNavIdent: string
+  changedByName?: string
+  changeReason?: string
+}): Promise<AppSetting> {
+  return updateAppSetting({
+    monitoredAppId: params.monitoredAppId,
+    settingKey: SETTING_KEYS.DEPLOY_WORKFLOW_POLICY,
+    newValue: params.settings,
+    changedByNavIdent: params.changedByNavIdent,
+    changedByName: params.changedByName,
+    changeReason: params.changeReason,
+  })
+}
+
+/**
+ * Update CODEOWNERS policy with audit logging
+ */
+export async function updateCodeownersPolicySettings(params: {
+  monitoredAppId: number
+  settings: CodeownersPolicySettings
+  changedByNavIdent: string
+  changedByName?: string
+  changeReason?: string
+}): Promise<AppSetting> {
+  return updateAppSetting({
+    monitoredAppId: params.monitoredAppId,
+    settingKey: SETTING_KEYS.CODEOWNERS_POLICY,
+    newValue: params.settings,
+    changedByNavIdent: params.changedByNavIdent,
+    changedByName: params.changedByName,
+    changeReason: params.changeReason,
+  })
+}
+
+/**
+ * Update scheduled audit report settings with audit logging
+ */
+export async function updateScheduledReportSettings(params: {
+  monitoredAppId: number
+  settings: ScheduledReportSettings
+  changedByNavIdent: string
+  changedByName?: string
+  changeReason?: string
+}): Promise<AppSetting> {
+  return updateAppSetting({
+    monitoredAppId: params.monitoredAppId,
+    settingKey: SETTING_KEYS.SCHEDULED_REPORTS,
+    newValue: params.settings,
+    changedByNavIdent: params.changedByNavIdent,
+    changedByName: params.changedByName,
+    changeReason: params.changeReason,
+  })
+}
+
 // ============================================================================
 // Audit Log Queries
 // ============================================================================
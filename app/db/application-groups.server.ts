@@ -7,7 +7,9 @@
  * When a deployment is verified in one cluster, the verification status
  * can be propagated to sibling deployments with the same commit SHA.
  */
-import { pool } from './connection.server'
+import { type AuditActor, recordAuditEvent } from './audit-events.server'
+import { pool, withTransaction } from './connection.server'
+import { logStatusTransition } from './deployments/status-history.server'
 
 // ─── Types ───────────────────────────────────────────────────────────────────
 
@@ -44,22 +46,79 @@ const PENDING_STATUSES = ['pending', 'error']
 
 // ─── CRUD ────────────────────────────────────────────────────────────────────
 
-export async function createApplicationGroup(name: string): Promise<ApplicationGroup> {
-  const { rows } = await pool.query<ApplicationGroup>('INSERT INTO application_groups (name) VALUES ($1) RETURNING *', [
-    name,
-  ])
-  return rows[0]
+export async function createApplicationGroup(name: string, actor?: AuditActor): Promise<ApplicationGroup> {
+  return withTransaction(async (client) => {
+    const { rows } = await client.query<ApplicationGroup>(
+      'INSERT INTO application_groups (name) VALUES ($1) RETURNING *',
+      [name],
+    )
+    if (actor) {
+      await recordAuditEvent(
+        {
+          actor,
+          action: 'application_group.create',
+          entityType: 'application_group',
+          entityId: rows[0].id,
+          after: { name: rows[0].name },
+        },
+        client,
+      )
+    }
+    return rows[0]
+  })
 }
 
-export async function addAppToGroup(groupId: number, monitoredAppId: number): Promise<void> {
-  await pool.query('UPDATE monitored_applications SET application_group_id = $1 WHERE id = $2', [
-    groupId,
-    monitoredAppId,
-  ])
+export async function addAppToGroup(groupId: number, monitoredAppId: number, actor?: AuditActor): Promise<void> {
+  await withTransaction(async (client) => {
+    const previous = await client.query<{ application_group_id: number | null }>(
+      'SELECT application_group_id FROM monitored_applications WHERE id = $1 FOR UPDATE',
+      [monitoredAppId],
+    )
+    await client.query('UPDATE monitored_applications SET application_group_id = $1 WHERE id = $2', [
+      groupId,
+      monitoredAppId,
+    ])
+    const previousGroupId = previous.rows[0]?.application_group_id ?? null
+    if (actor && previous.rows[0] && previousGroupId !== groupId) {
+      await recordAuditEvent(
+        {
+          actor,
+          action: 'application_group.add_app',
+          entityType: 'application_group',
+          entityId: groupId,
+          monitoredAppId,
+          before: { application_group_id: previousGroupId },
+          after: { application_group_id: groupId },
+        },
+        client,
+      )
+    }
+  })
 }
 
-export async function removeAppFromGroup(monitoredAppId: number): Promise<void> {
-  await pool.query('UPDATE monitored_applications SET application_group_id = NULL WHERE id = $1', [monitoredAppId])
+export async function removeAppFromGroup(monitoredAppId: number, actor?: AuditActor): Promise<void> {
+  await withTransaction(async (client) => {
+    const previous = await client.query<{ application_group_id: number | null }>(
+      'SELECT application_group_id FROM monitored_applications WHERE id = $1 FOR UPDATE',
+      [monitoredAppId],
+    )
+    await client.query('UPDATE monitored_applications SET application_group_id = NULL WHERE id = $1', [monitoredAppId])
+    const previousGroupId = previous.rows[0]?.application_group_id ?? null
+    if (actor && previousGroupId !== null) {
+      await recordAuditEvent(
+        {
+          actor,
+          action: 'application_group.remove_app',
+          entityType: 'application_group',
+          entityId: previousGroupId,
+          monitoredAppId,
+          before: { application_group_id: previousGroupId },
+          after: { application_group_id: null },
+        },
+        client,
+      )
+    }
+  })
 }
 
 export async function getGroupWithApps(groupId: number): Promise<ApplicationGroupWithApps | null> {
@@ -181,20 +240,34 @@ export async function getGroupContext(monitoredAppId: number): Promise<GroupCont
  * applications so they appear "ungrouped" in current-state UI listings.
  * Both updates run in a single transaction.
  */
-export async function deleteGroup(groupId: number, deletedBy: string): Promise<void> {
+export async function deleteGroup(groupId: number, deletedBy: string, actor?: AuditActor): Promise<void> {
   const client = await pool.connect()
   try {
     await client.query('BEGIN')
-    await client.query(
+    const group = await client.query<ApplicationGroup>(
       `UPDATE application_groups
        SET deleted_at = NOW(), deleted_by = $2
-       WHERE id = $1 AND deleted_at IS NULL`,
+       WHERE id = $1 AND deleted_at IS NULL
+       RETURNING *`,
       [groupId, deletedBy],
     )
-    await client.query(
-      'UPDATE monitored_applications SET application_group_id = NULL WHERE application_group_id = $1',
+    const apps = await client.query<{ id: number }>(
+      'UPDATE monitored_applications SET application_group_id = NULL WHERE application_group_id = $1 RETURNING id',
       [groupId],
     )
+    if (actor && group.rows[0]) {
+      await recordAuditEvent(
+        {
+          actor,
+          action: 'application_group.delete',
+          entityType: 'application_group',
+          entityId: groupId,
+          before: { name: group.rows[0].name, monitored_app_ids: apps.rows.map((app) => app.id).sort((a, b) => a - b) },
+          after: { deleted_by: deletedBy },
+        },
+        client,
+      )
+    }
     await client.query('COMMIT')
   } catch (err) {
     await client.query('ROLLBACK').catch(() => {})
@@ -245,26 +318,58 @@ export async function propagateVerificationToSiblings(
   if (!PROPAGATABLE_STATUSES.has(status)) return 0
 
   // All propagatable statuses imply four-eyes compliance.
-  // The single UPDATE statement is atomic in PostgreSQL — concurrent
-  // propagation attempts targeting the same row are serialized by
-  // row-level locking, and the WHERE clause ensures only pending/error
-  // deployments are updated.
-  const result = await pool.query(
-    `UPDATE deployments
-     SET four_eyes_status = $1
-     WHERE commit_sha = $2
-       AND four_eyes_status = ANY($3::text[])
-       AND id != $4
-       AND monitored_app_id IN (
-         SELECT ma.id FROM monitored_applications ma
-         WHERE ma.application_group_id = (
-           SELECT application_group_id FROM monitored_applications WHERE id = $5
-         )
-         AND ma.application_group_id IS NOT NULL
-         AND ma.id != $5
-       )`,
-    [status, commitSha, PENDING_STATUSES, deploymentId, monitoredAppId],
-  )
+  // Sibling rows are locked before the update, so concurrent propagation
+  // attempts targeting the same row are serialized, and the WHERE clause
+  // ensures only pending/error deployments are updated. Each change is
+  // recorded in the status history and event stream in the same transaction.
+  const client = await pool.connect()
+  try {
+    await client.query('BEGIN')
 
-  return result.rowCount ?? 0
+    const result = await client.query<{ id: number; from_status: string }>(
+      `WITH siblings AS (
+         SELECT id, four_eyes_status
+         FROM deployments
+         WHERE commit_sha = $2
+           AND four_eyes_status = ANY($3::text[])
+           AND id != $4
+           AND monitored_app_id IN (
+             SELECT ma.id FROM monitored_applications ma
+             WHERE ma.application_group_id = (
+               SELECT application_group_id FROM monitored_applications WHERE id = $5
+             )
+             AND ma.application_group_id IS NOT NULL
+             AND ma.id != $5
+           )
+         FOR UPDATE
+       )
+       UPDATE deployments d
+       SET four_eyes_status = $1
+       FROM siblings
+       WHERE d.id = siblings.id
+       RETURNING d.id, siblings.four_eyes_status AS from_status`,
+      [status, commitSha, PENDING_STATUSES, deploymentId, monitoredAppId],
+    )
+
+    for (const sibling of result.rows) {
+      await logStatusTransition(
+        sibling.id,
+        {
+          fromStatus: sibling.from_status,
+          toStatus: status,
+          changeSource: 'group_propagation',
+          details: { source_deployment_id: deploymentId },
+        },
+        client,
+      )
+    }
+
+    await client.query('COMMIT')
+    return result.rows.length
+  } catch (error) {
+    await client.query('ROLLBACK')
+    throw error
+  } finally {
+    client.release()
+  }
 }
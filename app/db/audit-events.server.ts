@@ -0,0 +1,154 @@
+import type { AuditAction, AuditEntityType, AuditEventFilters } from '~/lib/audit-events'
+import { getUserIdentity } from '~/lib/auth.server'
+import { logger } from '~/lib/logger.server'
+import { getTraceId } from '~/lib/tracing.server'
+import { type DbClient, pool } from './connection.server'
+
+export interface AuditEvent {
+  id: number
+  created_at: Date
+  actor_nav_ident: string
+  actor_name: string | null
+  action: AuditAction
+  entity_type: AuditEntityType
+  entity_id: string
+  monitored_app_id: number | null
+  before_state: Record<string, unknown> | null
+  after_state: Record<string, unknown> | null
+  trace_id: string | null
+}
+
+export interface AuditActor {
+  navIdent: string
+  name?: string | null
+}
+
+export interface RecordAuditEventInput {
+  actor: AuditActor
+  action: AuditAction
+  entityType: AuditEntityType
+  entityId: number | string
+  monitoredAppId?: number | null
+  before?: Record<string, unknown> | null
+  after?: Record<string, unknown> | null
+}
+
+/**
+ * Get the actor for an audit event from the logged-in user.
+ */
+export async function getAuditActor(request: Request): Promise<AuditActor> {
+  const identity = await getUserIdentity(request)
+  return { navIdent: identity?.navIdent ?? 'unknown', name: identity?.name }
+}
+
+async function insertAuditEvent(db: DbClient, input: RecordAuditEventInput): Promise<void> {
+  await db.query(
+    `INSERT INTO audit_events
+       (actor_nav_ident, actor_name, action, entity_type, entity_id, monitored_app_id, before_state, after_state, trace_id)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+    [
+      input.actor.navIdent,
+      input.actor.name || null,
+      input.action,
+      input.entityType,
+      String(input.entityId),
+      input.monitoredAppId ?? null,
+      input.before ? JSON.stringify(input.before) : null,
+      input.after ? JSON.stringify(input.after) : null,
+      getTraceId() ?? null,
+    ],
+  )
+}
+
+/**
+ * Append an event to the audit trail.
+ *
+ * Pass the client of the transaction that stores the change, so the event is
+ * committed together with it and a failure rolls the change back. Without a
+ * transaction the event is written after the change has been stored; a
+ * failure is then logged with the full event rather than thrown, so the user
+ * is not told that an action failed when it succeeded, and the event can be
+ * restored from the log.
+ */
+export async function recordAuditEvent(input: RecordAuditEventInput, db?: DbClient): Promise<void> {
+  if (db) {
+    await insertAuditEvent(db, input)
+    return
+  }
+
+  try {
+    await insertAuditEvent(pool, input)
+  } catch (error) {
+    logger.error(
+      `Failed to record audit event ${input.action} for ${input.entityType} ${input.entityId}: ${JSON.stringify({ ...input, traceId: getTraceId() ?? null })}`,
+      error,
+    )
+  }
+}
+
+function buildAuditEventWhere(filters: AuditEventFilters): { where: string; params: unknown[] } {
+  const conditions: string[] = []
+  const params: unknown[] = []
+
+  if (filters.actor) {
+    params.push(`%${filters.actor}%`)
+    conditions.push(`(ae.actor_nav_ident ILIKE $${params.length} OR ae.actor_name ILIKE $${params.length})`)
+  }
+  if (filters.action) {
+    params.push(filters.action)
+    conditions.push(`ae.action = $${params.length}`)
+  }
+  if (filters.entityType) {
+    params.push(filters.entityType)
+    conditions.push(`ae.entity_type = $${params.length}`)
+  }
+  if (filters.entityId) {
+    params.push(filters.entityId)
+    conditions.push(`ae.entity_id = $${params.length}`)
+  }
+  if (filters.monitoredAppId) {
+    params.push(filters.monitoredAppId)
+    conditions.push(`ae.monitored_app_id = $${params.length}`)
+  }
+  if (filters.from) {
+    params.push(filters.from)
+    conditions.push(`ae.created_at >= $${params.length}`)
+  }
+  if (filters.to) {
+    params.push(filters.to)
+    conditions.push(`ae.created_at < $${params.length}`)
+  }
+
+  return { where: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '', params }
+}
+
+export interface AuditEventWithApp extends AuditEvent {
+  team_slug: string | null
+  environment_name: string | null
+  app_name: string | null
+}
+
+/**
+ * Get audit events, newest first, with the total count for pagination.
+ */
+export async function getAuditEvents(
+  filters: AuditEventFilters,
+  options: { limit: number; offset?: number },
+): Promise<{ events: AuditEventWithApp[]; total: number }> {
+  const { where, params } = buildAuditEventWhere(filters)
+
+  const [eventsResult, countResult] = await Promise.all([
+    pool.query<AuditEventWithApp>(
+      `SELECT ae.*, ma.team_slug, ma.environment_name, ma.app_name
+       FROM audit_events ae
+       LEFT JOIN monitored_applications ma ON ma.id = ae.monitored_app_id
+       ${where}
+       ORDER BY ae.created_at DESC, ae.id DESC
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, options.limit, options.offset ?? 0],
+    ),
+    pool.query<{ total: string }>(`SELECT COUNT(*)::text AS total FROM audit_events ae ${where}`, params),
+  ])
+
+  return { events: eventsResult.rows, total: parseInt(countResult.rows[0].total, 10) }
+}
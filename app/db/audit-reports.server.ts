@@ -1,7 +1,9 @@
 import { createHash } from 'node:crypto'
+import { calculateChainHash, calculateContentHash, signReportHash } from '~/lib/audit-report-signing.server'
 import type { ReportPeriodType } from '~/lib/report-periods'
 import { generateReportId } from '~/lib/report-periods'
 import { AUDIT_START_YEAR_FILTER } from './audit-start-year'
+import { getBranchProtectionSnapshotsForPeriod } from './branch-protection.server'
 import { pool } from './connection.server'
 import { getDeviationsForPeriod } from './deviations.server'
 
@@ -55,6 +57,12 @@ interface AuditReport {
   unique_reviewers: number
   report_data: AuditReportData
   content_hash: string
+  previous_report_id: number | null
+  previous_hash: string | null
+  chain_hash: string | null
+  signature: string | null
+  signing_key_fingerprint: string | null
+  pdf_hash: string | null
   pdf_data: Buffer | null
   generated_at: Date
   generated_by: string | null
@@ -68,6 +76,27 @@ export interface AuditReportData {
   legacy_count: number
   deviations: DeviationEntry[]
   unverified_commit_deployments: UnverifiedCommitDeploymentEntry[]
+  // Missing in reports generated before branch protection was snapshotted
+  controls_in_effect?: ControlInEffectEntry[]
+}
+
+/**
+ * Branch protection settings in effect on a repository during part of the report period
+ */
+export interface ControlInEffectEntry {
+  repository: string
+  branch: string
+  from: string
+  // When the settings were last confirmed, for superseded settings capped at last_checked_at. null while still in effect.
+  to: string | null
+  // Last snapshot that saw the settings; missing in reports generated before it was recorded
+  last_checked_at?: string
+  required_approving_review_count: number
+  dismiss_stale_reviews: boolean
+  require_code_owner_reviews: boolean
+  enforce_admins: boolean
+  allow_force_pushes: boolean
+  sources: string[]
 }
 
 export interface DeviationEntry {
@@ -279,6 +308,7 @@ export async function getAuditReportData(
     registered_by: string
   }>
   deviations: Awaited<ReturnType<typeof getDeviationsForPeriod>>
+  branch_protection_snapshots: Awaited<ReturnType<typeof getBranchProtectionSnapshotsForPeriod>>
   reviewer_counts: Map<string, number>
   user_mappings: Map<string, { display_name: string | null; nav_ident: string | null; github_username: string }>
   canonical_map: Map<string, string>
@@ -450,6 +480,7 @@ export async function getAuditReportData(
   }
 
   const deviations = await getDeviationsForPeriod(monitoredAppId, startDate, endDate)
+  const branch_protection_snapshots = await getBranchProtectionSnapshotsForPeriod(monitoredAppId, startDate, endDate)
 
   return {
     app,
@@ -461,6 +492,7 @@ export async function getAuditReportData(
     user_mappings,
     canonical_map,
     deviations,
+    branch_protection_snapshots,
   }
 }
 
@@ -476,6 +508,7 @@ export function buildReportData(rawData: Awaited<ReturnType<typeof getAuditRepor
     user_mappings,
     canonical_map,
     deviations: rawDeviations,
+    branch_protection_snapshots,
   } = rawData
   const manualApprovalMap = new Map(manual_approvals.map((a) => [a.deployment_id, a]))
   const legacyInfoMap = new Map(legacy_infos.map((l) => [l.deployment_id, l]))
@@ -666,6 +699,21 @@ export function buildReportData(rawData: Awaited<ReturnType<typeof getAuditRepor
       }
     })
 
+  const controlsInEffect: ControlInEffectEntry[] = branch_protection_snapshots.map((s) => ({
+    repository: `${s.github_owner}/${s.github_repo_name}`,
+    branch: s.branch,
+    from: s.captured_at.toISOString(),
+    // The settings may have changed any time between the last check and the next snapshot
+    to: s.valid_until ? new Date(Math.min(s.valid_until.getTime(), s.last_checked_at.getTime())).toISOString() : null,
+    last_checked_at: s.last_checked_at.toISOString(),
+    required_approving_review_count: s.required_approving_review_count,
+    dismiss_stale_reviews: s.dismiss_stale_reviews,
+    require_code_owner_reviews: s.require_code_owner_reviews,
+    enforce_admins: s.enforce_admins,
+    allow_force_pushes: s.allow_force_pushes,
+    sources: s.sources,
+  }))
+
   return {
     deployments: deploymentEntries,
     manual_approvals: manualApprovalEntries,
@@ -674,19 +722,28 @@ export function buildReportData(rawData: Awaited<ReturnType<typeof getAuditRepor
     legacy_count: legacyCount,
     deviations: deviationEntries,
     unverified_commit_deployments: unverifiedCommitDeployments,
+    controls_in_effect: controlsInEffect,
   }
 }
 
 /**
- * Calculate SHA256 hash of report data for integrity verification
+ * Advisory-lock namespace (first key for pg_advisory_xact_lock(int4, int4)).
+ * Serializes report saves per app so two reports cannot link to the same
+ * previous report.
  */
-function calculateReportHash(reportData: AuditReportData): string {
-  const json = JSON.stringify(reportData)
-  return createHash('sha256').update(json).digest('hex')
-}
+const AUDIT_REPORT_CHAIN_LOCK_NAMESPACE = 1773400001
+
+/** Regenerating a report a later report links to would break the later report's chain */
+export const REPORT_LINKED_ERROR =
+  'Rapporten for denne perioden er lenket fra en senere rapport og kan ikke genereres på nytt.'
 
 /**
- * Save an audit report to the database
+ * Save an audit report to the database.
+ *
+ * The report is linked to the most recently generated other report for the
+ * same app (hash chain) and the chain hash is signed if a signing key is
+ * configured. Regenerating a period replaces the row and appends a new link,
+ * which is refused once a later report links to it.
  */
 export async function saveAuditReport(params: {
   monitoredAppId: number
@@ -717,62 +774,112 @@ export async function saveAuditReport(params: {
     generatedBy,
   } = params
 
-  const contentHash = calculateReportHash(reportData)
+  const contentHash = calculateContentHash(reportData)
   const reportId = generateReportId(periodType, periodLabel, appName, environmentName, contentHash)
 
   const prApprovedCount = reportData.deployments.filter((d) => d.method === 'pr').length
   const manuallyApprovedCount = reportData.deployments.filter((d) => d.method === 'manual').length
 
-  const result = await pool.query<AuditReport>(
-    `INSERT INTO audit_reports (
-      report_id, monitored_app_id, app_name, team_slug, environment_name, repository,
-      year, period_type, period_label, period_start, period_end,
-      total_deployments, pr_approved_count, manually_approved_count,
-      unique_deployers, unique_reviewers,
-      report_data, content_hash, generated_by
-    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19)
-    ON CONFLICT (monitored_app_id, period_type, period_start) DO UPDATE SET
-      report_id = EXCLUDED.report_id,
-      app_name = EXCLUDED.app_name,
-      team_slug = EXCLUDED.team_slug,
-      environment_name = EXCLUDED.environment_name,
-      repository = EXCLUDED.repository,
-      period_label = EXCLUDED.period_label,
-      period_end = EXCLUDED.period_end,
-      total_deployments = EXCLUDED.total_deployments,
-      pr_approved_count = EXCLUDED.pr_approved_count,
-      manually_approved_count = EXCLUDED.manually_approved_count,
-      unique_deployers = EXCLUDED.unique_deployers,
-      unique_reviewers = EXCLUDED.unique_reviewers,
-      report_data = EXCLUDED.report_data,
-      content_hash = EXCLUDED.content_hash,
-      generated_at = NOW(),
-      generated_by = EXCLUDED.generated_by
-    RETURNING *`,
-    [
-      reportId,
-      monitoredAppId,
-      appName,
-      teamSlug,
-      environmentName,
-      repository,
-      year,
-      periodType,
-      periodLabel,
-      periodStart,
-      periodEnd,
-      reportData.deployments.length,
-      prApprovedCount,
-      manuallyApprovedCount,
-      reportData.contributors.length,
-      reportData.reviewers.length,
-      JSON.stringify(reportData),
-      contentHash,
-      generatedBy || null,
-    ],
-  )
+  const client = await pool.connect()
+  try {
+    await client.query('BEGIN')
+    await client.query('SELECT pg_advisory_xact_lock($1, $2)', [AUDIT_REPORT_CHAIN_LOCK_NAMESPACE, monitoredAppId])
+
+    const linked = await client.query(
+      `SELECT 1
+       FROM audit_reports existing
+       JOIN audit_reports later ON later.previous_report_id = existing.id
+       WHERE existing.monitored_app_id = $1 AND existing.period_type = $2 AND existing.period_start = $3
+       LIMIT 1`,
+      [monitoredAppId, periodType, periodStart],
+    )
+    if (linked.rows.length > 0) {
+      throw new Error(REPORT_LINKED_ERROR)
+    }
+
+    // Reports generated before signing was introduced have no chain hash; link to their content hash.
+    const previous = await client.query<{ id: number; hash: string }>(
+      `SELECT id, COALESCE(chain_hash, content_hash) AS hash
+       FROM audit_reports
+       WHERE monitored_app_id = $1 AND NOT (period_type = $2 AND period_start = $3)
+       ORDER BY generated_at DESC, id DESC
+       LIMIT 1`,
+      [monitoredAppId, periodType, periodStart],
+    )
+    const previousReport = previous.rows[0] ?? null
+    const chainHash = calculateChainHash(previousReport?.hash ?? null, contentHash)
+    const signed = signReportHash(chainHash)
+
+    const result = await client.query<AuditReport>(
+      `INSERT INTO audit_reports (
+        report_id, monitored_app_id, app_name, team_slug, environment_name, repository,
+        year, period_type, period_label, period_start, period_end,
+        total_deployments, pr_approved_count, manually_approved_count,
+        unique_deployers, unique_reviewers,
+        report_data, content_hash, generated_by,
+        previous_report_id, previous_hash, chain_hash, signature, signing_key_fingerprint
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23, $24)
+      ON CONFLICT (monitored_app_id, period_type, period_start) DO UPDATE SET
+        report_id = EXCLUDED.report_id,
+        app_name = EXCLUDED.app_name,
+        team_slug = EXCLUDED.team_slug,
+        environment_name = EXCLUDED.environment_name,
+        repository = EXCLUDED.repository,
+        period_label = EXCLUDED.period_label,
+        period_end = EXCLUDED.period_end,
+        total_deployments = EXCLUDED.total_deployments,
+        pr_approved_count = EXCLUDED.pr_approved_count,
+        manually_approved_count = EXCLUDED.manually_approved_count,
+        unique_deployers = EXCLUDED.unique_deployers,
+        unique_reviewers = EXCLUDED.unique_reviewers,
+        report_data = EXCLUDED.report_data,
+        content_hash = EXCLUDED.content_hash,
+        generated_at = NOW(),
+        generated_by = EXCLUDED.generated_by,
+        previous_report_id = EXCLUDED.previous_report_id,
+        previous_hash = EXCLUDED.previous_hash,
+        chain_hash = EXCLUDED.chain_hash,
+        signature = EXCLUDED.signature,
+        signing_key_fingerprint = EXCLUDED.signing_key_fingerprint,
+        pdf_data = NULL,
+        pdf_hash = NULL
+      RETURNING *`,
+      [
+        reportId,
+        monitoredAppId,
+        appName,
+        teamSlug,
+        environmentName,
+        repository,
+        year,
+        periodType,
+        periodLabel,
+        periodStart,
+        periodEnd,
+        reportData.deployments.length,
+        prApprovedCount,
+        manuallyApprovedCount,
+        reportData.contributors.length,
+        reportData.reviewers.length,
+        JSON.stringify(reportData),
+        contentHash,
+        generatedBy || null,
+        previousReport?.id ?? null,
+        previousReport?.hash ?? null,
+        chainHash,
+        signed?.signature ?? null,
+        signed?.fingerprint ?? null,
+      ],
+    )
 
-  return result.rows[0]
+    await client.query('COMMIT')
+    return result.rows[0]
+  } catch (error) {
+    await client.query('ROLLBACK')
+    throw error
+  } finally {
+    client.release()
+  }
 }
 
 /**
@@ -783,6 +890,39 @@ export async function getAuditReportById(id: number): Promise<AuditReport | null
   return result.rows[0] || null
 }
 
+/**
+ * Check whether a report already exists for an app and period
+ */
+export async function hasAuditReportForPeriod(
+  monitoredAppId: number,
+  periodType: ReportPeriodType,
+  periodStart: Date,
+): Promise<boolean> {
+  const result = await pool.query(
+    'SELECT 1 FROM audit_reports WHERE monitored_app_id = $1 AND period_type = $2 AND period_start = $3',
+    [monitoredAppId, periodType, periodStart],
+  )
+  return (result.rowCount ?? 0) > 0
+}
+
+/**
+ * Get the report for an app and period, if one has been generated
+ */
+export async function getAuditReportForPeriod(
+  monitoredAppId: number,
+  periodType: ReportPeriodType,
+  periodStart: Date,
+): Promise<AuditReportSummary | null> {
+  const result = await pool.query<AuditReportSummary>(
+    `SELECT id, report_id, app_name, team_slug, environment_name, year, period_type, period_label,
+            total_deployments, pr_approved_count, manually_approved_count, generated_at
+     FROM audit_reports
+     WHERE monitored_app_id = $1 AND period_type = $2 AND period_start = $3`,
+    [monitoredAppId, periodType, periodStart],
+  )
+  return result.rows[0] || null
+}
+
 /**
  * Get all audit reports (summary)
  */
@@ -815,5 +955,36 @@ export async function getAuditReportsForApp(monitoredAppId: number): Promise<Aud
  * Update PDF data for an audit report
  */
 export async function updateAuditReportPdf(reportId: number, pdfData: Buffer): Promise<void> {
-  await pool.query('UPDATE audit_reports SET pdf_data = $1 WHERE id = $2', [pdfData, reportId])
+  const pdfHash = createHash('sha256').update(pdfData).digest('hex')
+  await pool.query('UPDATE audit_reports SET pdf_data = $1, pdf_hash = $2 WHERE id = $3', [pdfData, pdfHash, reportId])
+}
+
+/**
+ * Get the audit report whose stored PDF has the given SHA256 hash
+ */
+export async function getAuditReportByPdfHash(pdfHash: string): Promise<AuditReport | null> {
+  const result = await pool.query<AuditReport>(
+    'SELECT * FROM audit_reports WHERE pdf_hash = $1 ORDER BY generated_at DESC LIMIT 1',
+    [pdfHash],
+  )
+  return result.rows[0] || null
+}
+
+/**
+ * Get an audit report by its document ID (report_id)
+ */
+export async function getAuditReportByReportId(reportId: string): Promise<AuditReport | null> {
+  const result = await pool.query<AuditReport>('SELECT * FROM audit_reports WHERE report_id = $1', [reportId])
+  return result.rows[0] || null
+}
+
+/**
+ * Get the current chain hash of a report (content hash for reports generated before signing)
+ */
+export async function getAuditReportChainHash(id: number): Promise<string | null> {
+  const result = await pool.query<{ hash: string }>(
+    'SELECT COALESCE(chain_hash, content_hash) AS hash FROM audit_reports WHERE id = $1',
+    [id],
+  )
+  return result.rows[0]?.hash ?? null
 }
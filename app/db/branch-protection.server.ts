@@ -0,0 +1,145 @@
+import {
+  type BranchProtectionSettings,
+  type BranchProtectionSource,
+  isSameBranchProtection,
+} from '~/lib/branch-protection'
+import { pool } from './connection.server'
+
+export interface BranchProtectionSnapshot {
+  id: number
+  monitored_app_id: number
+  application_repository_id: number
+  github_owner: string
+  github_repo_name: string
+  branch: string
+  required_approving_review_count: number
+  dismiss_stale_reviews: boolean
+  require_code_owner_reviews: boolean
+  enforce_admins: boolean
+  allow_force_pushes: boolean
+  sources: string[]
+  captured_at: Date
+  last_checked_at: Date
+}
+
+export interface BranchProtectionSnapshotInPeriod extends BranchProtectionSnapshot {
+  // captured_at of the next snapshot for the same repository, null while still in effect
+  valid_until: Date | null
+}
+
+export function snapshotToSettings(snapshot: BranchProtectionSnapshot): BranchProtectionSettings {
+  return {
+    requiredApprovingReviewCount: snapshot.required_approving_review_count,
+    dismissStaleReviews: snapshot.dismiss_stale_reviews,
+    requireCodeOwnerReviews: snapshot.require_code_owner_reviews,
+    enforceAdmins: snapshot.enforce_admins,
+    allowForcePushes: snapshot.allow_force_pushes,
+    sources: snapshot.sources as BranchProtectionSource[],
+  }
+}
+
+export async function getLatestBranchProtectionSnapshot(
+  applicationRepositoryId: number,
+): Promise<BranchProtectionSnapshot | null> {
+  const result = await pool.query(
+    `SELECT * FROM branch_protection_snapshots
+     WHERE application_repository_id = $1
+     ORDER BY captured_at DESC, id DESC
+     LIMIT 1`,
+    [applicationRepositoryId],
+  )
+  return result.rows[0] ?? null
+}
+
+/**
+ * Latest snapshot before the given one in which the branch was protected,
+ * i.e. the settings to compare with after protection was removed and restored.
+ */
+export async function getLatestProtectedBranchProtectionSnapshot(
+  applicationRepositoryId: number,
+  beforeSnapshotId: number,
+): Promise<BranchProtectionSnapshot | null> {
+  const result = await pool.query(
+    `SELECT * FROM branch_protection_snapshots
+     WHERE application_repository_id = $1 AND id < $2 AND cardinality(sources) > 0
+     ORDER BY captured_at DESC, id DESC
+     LIMIT 1`,
+    [applicationRepositoryId, beforeSnapshotId],
+  )
+  return result.rows[0] ?? null
+}
+
+/**
+ * Record the settings in effect on a repository branch.
+ *
+ * Stores a new snapshot when the branch or settings differ from the latest
+ * one, otherwise only bumps last_checked_at on the latest snapshot.
+ * Returns the previous snapshot when a new one was stored.
+ */
+export async function recordBranchProtectionSnapshot(data: {
+  monitoredAppId: number
+  applicationRepositoryId: number
+  owner: string
+  repo: string
+  branch: string
+  settings: BranchProtectionSettings
+}): Promise<{ snapshot: BranchProtectionSnapshot; previous: BranchProtectionSnapshot | null; changed: boolean }> {
+  const latest = await getLatestBranchProtectionSnapshot(data.applicationRepositoryId)
+
+  if (latest && latest.branch === data.branch && isSameBranchProtection(snapshotToSettings(latest), data.settings)) {
+    const result = await pool.query(
+      `UPDATE branch_protection_snapshots SET last_checked_at = NOW() WHERE id = $1 RETURNING *`,
+      [latest.id],
+    )
+    return { snapshot: result.rows[0], previous: null, changed: false }
+  }
+
+  const { settings } = data
+  const result = await pool.query(
+    `INSERT INTO branch_protection_snapshots
+      (monitored_app_id, application_repository_id, github_owner, github_repo_name, branch,
+       required_approving_review_count, dismiss_stale_reviews, require_code_owner_reviews, enforce_admins,
+       allow_force_pushes, sources)
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+    RETURNING *`,
+    [
+      data.monitoredAppId,
+      data.applicationRepositoryId,
+      data.owner,
+      data.repo,
+      data.branch,
+      settings.requiredApprovingReviewCount,
+      settings.dismissStaleReviews,
+      settings.requireCodeOwnerReviews,
+      settings.enforceAdmins,
+      settings.allowForcePushes,
+      settings.sources,
+    ],
+  )
+  return { snapshot: result.rows[0], previous: latest, changed: true }
+}
+
+/**
+ * Snapshots in effect at any time during a period, i.e. captured before the
+ * period ended and not replaced before it started. Ordered per repository.
+ */
+export async function getBranchProtectionSnapshotsForPeriod(
+  monitoredAppId: number,
+  periodStart: Date,
+  periodEnd: Date,
+): Promise<BranchProtectionSnapshotInPeriod[]> {
+  const result = await pool.query(
+    `SELECT * FROM (
+       SELECT bps.*,
+              LEAD(bps.captured_at) OVER (
+                PARTITION BY bps.application_repository_id ORDER BY bps.captured_at, bps.id
+              ) AS valid_until
+       FROM branch_protection_snapshots bps
+       WHERE bps.monitored_app_id = $1
+     ) s
+     WHERE s.captured_at <= $3 AND (s.valid_until IS NULL OR s.valid_until > $2)
+     ORDER BY s.github_owner, s.github_repo_name, s.captured_at`,
+    [monitoredAppId, periodStart, periodEnd],
+  )
+  return result.rows
+}
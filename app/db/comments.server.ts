@@ -1,4 +1,5 @@
-import { query } from './connection.server'
+import { type RecordAuditEventInput, recordAuditEvent } from './audit-events.server'
+import { query, withTransaction } from './connection.server'
 
 interface DeploymentComment {
   id: number
@@ -12,6 +13,8 @@ interface DeploymentComment {
   created_at: Date
   deleted_at: Date | null
   deleted_by: string | null
+  slack_message_ts: string | null
+  slack_user_id: string | null
 }
 
 interface CreateCommentParams {
@@ -23,6 +26,9 @@ interface CreateCommentParams {
   registered_by?: string
 }
 
+/** Builds the audit event for a change from the stored comment, so it is committed with the change */
+type CommentAuditEvent = (comment: DeploymentComment) => RecordAuditEventInput
+
 export async function getCommentsByDeploymentId(deployment_id: number): Promise<DeploymentComment[]> {
   const result = await query<DeploymentComment>(
     'SELECT * FROM deployment_comments WHERE deployment_id = $1 AND deleted_at IS NULL ORDER BY created_at DESC',
@@ -31,25 +37,76 @@ export async function getCommentsByDeploymentId(deployment_id: number): Promise<
   return result.rows
 }
 
-export async function createComment(params: CreateCommentParams): Promise<DeploymentComment> {
+export async function createComment(
+  params: CreateCommentParams,
+  auditEvent?: CommentAuditEvent,
+): Promise<DeploymentComment> {
   const commentType = params.comment_type || 'comment'
   const approvedAt = commentType === 'manual_approval' ? new Date() : null
 
-  const result = await query<DeploymentComment>(
-    `INSERT INTO deployment_comments (deployment_id, comment_text, slack_link, comment_type, approved_by, approved_at, registered_by)
+  return withTransaction(async (client) => {
+    const result = await client.query<DeploymentComment>(
+      `INSERT INTO deployment_comments (deployment_id, comment_text, slack_link, comment_type, approved_by, approved_at, registered_by)
      VALUES ($1, $2, $3, $4, $5, $6, $7)
      RETURNING *`,
-    [
-      params.deployment_id,
-      params.comment_text,
-      params.slack_link || null,
-      commentType,
-      params.approved_by || null,
-      approvedAt,
-      params.registered_by || null,
-    ],
-  )
-  return result.rows[0]
+      [
+        params.deployment_id,
+        params.comment_text,
+        params.slack_link || null,
+        commentType,
+        params.approved_by || null,
+        approvedAt,
+        params.registered_by || null,
+      ],
+    )
+    if (auditEvent) await recordAuditEvent(auditEvent(result.rows[0]), client)
+    return result.rows[0]
+  })
+}
+
+/**
+ * Import a reply from the Slack thread of a deployment notification as a comment.
+ * Returns null if the reply was already imported.
+ */
+export async function createCommentFromSlack(
+  params: {
+    deployment_id: number
+    comment_text: string
+    slack_link: string | null
+    slack_message_ts: string
+    slack_user_id: string
+    registered_by: string | null
+  },
+  auditEvent?: CommentAuditEvent,
+): Promise<DeploymentComment | null> {
+  return withTransaction(async (client) => {
+    const result = await client.query<DeploymentComment>(
+      `INSERT INTO deployment_comments
+       (deployment_id, comment_text, slack_link, comment_type, registered_by, slack_message_ts, slack_user_id)
+     VALUES ($1, $2, $3, 'comment', $4, $5, $6)
+     ON CONFLICT (deployment_id, slack_message_ts) WHERE slack_message_ts IS NOT NULL DO NOTHING
+     RETURNING *`,
+      [
+        params.deployment_id,
+        params.comment_text,
+        params.slack_link,
+        params.registered_by,
+        params.slack_message_ts,
+        params.slack_user_id,
+      ],
+    )
+    const comment = result.rows[0]
+    if (!comment) return null
+    if (auditEvent) await recordAuditEvent(auditEvent(comment), client)
+    return comment
+  })
+}
+
+/**
+ * Link a web comment to the message it was posted as in the Slack thread
+ */
+export async function setCommentSlackMessageTs(id: number, slackMessageTs: string): Promise<void> {
+  await query('UPDATE deployment_comments SET slack_message_ts = $1 WHERE id = $2', [slackMessageTs, id])
 }
 
 export async function getManualApproval(deployment_id: number): Promise<DeploymentComment | null> {
@@ -74,14 +131,25 @@ export async function getLegacyInfo(deployment_id: number): Promise<DeploymentCo
   return result.rows[0] || null
 }
 
-export async function deleteComment(id: number, deletedBy: string): Promise<boolean> {
-  const result = await query(
-    `UPDATE deployment_comments
-     SET deleted_at = NOW(), deleted_by = $2
-     WHERE id = $1 AND deleted_at IS NULL`,
-    [id, deletedBy],
-  )
-  return (result.rowCount ?? 0) > 0
+export async function getCommentById(id: number): Promise<DeploymentComment | null> {
+  const result = await query<DeploymentComment>('SELECT * FROM deployment_comments WHERE id = $1', [id])
+  return result.rows[0] ?? null
+}
+
+export async function deleteComment(id: number, deletedBy: string, auditEvent?: CommentAuditEvent): Promise<boolean> {
+  return withTransaction(async (client) => {
+    const result = await client.query<DeploymentComment>(
+      `UPDATE deployment_comments
+       SET deleted_at = NOW(), deleted_by = $2
+       WHERE id = $1 AND deleted_at IS NULL
+       RETURNING *`,
+      [id, deletedBy],
+    )
+    const comment = result.rows[0]
+    if (!comment) return false
+    if (auditEvent) await recordAuditEvent(auditEvent(comment), client)
+    return true
+  })
 }
 
 export async function deleteLegacyInfo(deployment_id: number, deletedBy: string): Promise<boolean> {
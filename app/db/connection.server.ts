@@ -6,6 +6,9 @@ import { withDbSpan } from '~/lib/tracing.server'
 
 let poolInstance: Pool | null = null
 
+/** The pool or a client checked out for a transaction */
+export type DbClient = Pick<PoolClient, 'query'>
+
 // ─── Retry helper for transient PostgreSQL connection errors ─────────────────
 // PG error 53300 ("too_many_connections") is transient — connections free up
 // within milliseconds as other requests finish. Retrying with backoff avoids
@@ -223,6 +226,24 @@ export async function query<T extends Record<string, any> = any>(
   )
 }
 
+/**
+ * Run fn in a transaction on a client from the pool, rolling back if it throws.
+ */
+export async function withTransaction<T>(fn: (client: PoolClient) => Promise<T>): Promise<T> {
+  const client = await pool.connect()
+  try {
+    await client.query('BEGIN')
+    const result = await fn(client)
+    await client.query('COMMIT')
+    return result
+  } catch (error) {
+    await client.query('ROLLBACK')
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
 export async function closePool(): Promise<void> {
   if (poolInstance) {
     await poolInstance.end()
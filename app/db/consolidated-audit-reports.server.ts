@@ -0,0 +1,312 @@
+import { createHash } from 'node:crypto'
+import { calculateChainHash, calculateContentHash, signReportHash } from '~/lib/audit-report-signing.server'
+import type { ConsolidatedReportData, ConsolidatedScopeType } from '~/lib/consolidated-report'
+import type { ReportPeriodType } from '~/lib/report-periods'
+import { generateReportId } from '~/lib/report-periods'
+import { REPORT_LINKED_ERROR } from './audit-reports.server'
+import { pool } from './connection.server'
+import {
+  getDevTeamApplications,
+  getDevTeamBySlug,
+  getDevTeamsBySection,
+  getGroupAppIdsForDevTeams,
+} from './dev-teams.server'
+import { getSectionWithTeams } from './sections.server'
+
+/**
+ * Advisory-lock namespaces (first key for pg_advisory_xact_lock(int4, int4)),
+ * one per scope type since section and dev team ids overlap. Serializes
+ * consolidated report saves per scope so two reports cannot link to the same
+ * previous report.
+ */
+const CONSOLIDATED_REPORT_CHAIN_LOCK_NAMESPACES: Record<ConsolidatedScopeType, number> = {
+  section: 1773500001,
+  dev_team: 1773500002,
+}
+
+export interface ConsolidatedAuditReport {
+  id: number
+  report_id: string
+  scope_type: ConsolidatedScopeType
+  scope_id: number
+  scope_slug: string
+  scope_name: string
+  year: number
+  period_type: ReportPeriodType
+  period_label: string
+  period_start: Date
+  period_end: Date
+  app_count: number
+  total_deployments: number
+  pending_count: number
+  four_eyes_coverage: string
+  report_data: ConsolidatedReportData
+  content_hash: string
+  previous_report_id: number | null
+  previous_hash: string | null
+  chain_hash: string | null
+  signature: string | null
+  signing_key_fingerprint: string | null
+  pdf_data: Buffer | null
+  pdf_hash: string | null
+  generated_at: Date
+  generated_by: string | null
+}
+
+export type ConsolidatedAuditReportSummary = Pick<
+  ConsolidatedAuditReport,
+  | 'id'
+  | 'report_id'
+  | 'scope_type'
+  | 'scope_slug'
+  | 'scope_name'
+  | 'year'
+  | 'period_type'
+  | 'period_label'
+  | 'app_count'
+  | 'total_deployments'
+  | 'pending_count'
+  | 'four_eyes_coverage'
+  | 'generated_at'
+>
+
+export interface ConsolidatedScope {
+  scopeType: ConsolidatedScopeType
+  scopeId: number
+  slug: string
+  name: string
+  apps: Array<{ monitored_app_id: number; team_slug: string; environment_name: string; app_name: string }>
+}
+
+/**
+ * Resolve a section or dev team to the production apps it covers.
+ *
+ * A dev team covers the apps of its Nais teams plus directly linked and
+ * application-group apps. A section covers its own Nais teams plus every
+ * active dev team in the section.
+ */
+export async function getConsolidatedScope(
+  scopeType: ConsolidatedScopeType,
+  slug: string,
+): Promise<ConsolidatedScope | null> {
+  let scopeId: number
+  let name: string
+  let naisTeamSlugs: string[]
+  let devTeamIds: number[]
+
+  if (scopeType === 'section') {
+    const section = await getSectionWithTeams(slug)
+    if (!section) return null
+    const devTeams = await getDevTeamsBySection(section.id)
+    scopeId = section.id
+    name = section.name
+    naisTeamSlugs = [...section.team_slugs, ...devTeams.flatMap((t) => t.nais_team_slugs)]
+    devTeamIds = devTeams.map((t) => t.id)
+  } else {
+    const devTeam = await getDevTeamBySlug(slug)
+    if (!devTeam) return null
+    scopeId = devTeam.id
+    name = devTeam.name
+    naisTeamSlugs = devTeam.nais_team_slugs
+    devTeamIds = [devTeam.id]
+  }
+
+  const [directApps, groupAppIds] = await Promise.all([
+    Promise.all(devTeamIds.map((id) => getDevTeamApplications(id))),
+    getGroupAppIdsForDevTeams(devTeamIds),
+  ])
+  const appIds = [...new Set([...directApps.flat().map((a) => a.monitored_app_id), ...groupAppIds])]
+
+  const result = await pool.query<ConsolidatedScope['apps'][number]>(
+    `SELECT id AS monitored_app_id, team_slug, environment_name, app_name
+     FROM monitored_applications
+     WHERE is_active = true
+       AND environment_name IN ('prod-fss', 'prod-gcp')
+       AND (team_slug = ANY($1) OR id = ANY($2::int[]))
+     ORDER BY app_name, environment_name`,
+    [[...new Set(naisTeamSlugs)], appIds],
+  )
+
+  return { scopeType, scopeId, slug, name, apps: result.rows }
+}
+
+/**
+ * Save a consolidated audit report, linked into the hash chain of its scope
+ * and signed like app-level audit reports. Like app-level reports, a period
+ * cannot be regenerated once a later report links to it.
+ */
+export async function saveConsolidatedAuditReport(params: {
+  scope: Pick<ConsolidatedScope, 'scopeType' | 'scopeId' | 'slug' | 'name'>
+  year: number
+  periodType: ReportPeriodType
+  periodLabel: string
+  periodStart: Date
+  periodEnd: Date
+  reportData: ConsolidatedReportData
+  generatedBy?: string
+}): Promise<ConsolidatedAuditReport> {
+  const { scope, year, periodType, periodLabel, periodStart, periodEnd, reportData, generatedBy } = params
+
+  const contentHash = calculateContentHash(reportData)
+  const reportId = generateReportId(
+    periodType,
+    periodLabel,
+    scope.slug,
+    scope.scopeType === 'section' ? 'seksjon' : 'team',
+    contentHash,
+  )
+
+  const client = await pool.connect()
+  try {
+    await client.query('BEGIN')
+    await client.query('SELECT pg_advisory_xact_lock($1, $2)', [
+      CONSOLIDATED_REPORT_CHAIN_LOCK_NAMESPACES[scope.scopeType],
+      scope.scopeId,
+    ])
+
+    const linked = await client.query(
+      `SELECT 1
+       FROM consolidated_audit_reports existing
+       JOIN consolidated_audit_reports later ON later.previous_report_id = existing.id
+       WHERE existing.scope_type = $1 AND existing.scope_id = $2
+         AND existing.period_type = $3 AND existing.period_start = $4
+       LIMIT 1`,
+      [scope.scopeType, scope.scopeId, periodType, periodStart],
+    )
+    if (linked.rows.length > 0) {
+      throw new Error(REPORT_LINKED_ERROR)
+    }
+
+    const previous = await client.query<{ id: number; chain_hash: string }>(
+      `SELECT id, chain_hash
+       FROM consolidated_audit_reports
+       WHERE scope_type = $1 AND scope_id = $2 AND NOT (period_type = $3 AND period_start = $4)
+       ORDER BY generated_at DESC, id DESC
+       LIMIT 1`,
+      [scope.scopeType, scope.scopeId, periodType, periodStart],
+    )
+    const previousReport = previous.rows[0] ?? null
+    const chainHash = calculateChainHash(previousReport?.chain_hash ?? null, contentHash)
+    const signed = signReportHash(chainHash)
+
+    const result = await client.query<ConsolidatedAuditReport>(
+      `INSERT INTO consolidated_audit_reports (
+        report_id, scope_type, scope_id, scope_slug, scope_name,
+        year, period_type, period_label, period_start, period_end,
+        app_count, total_deployments, pending_count, four_eyes_coverage,
+        report_data, content_hash, generated_by,
+        previous_report_id, previous_hash, chain_hash, signature, signing_key_fingerprint
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22)
+      ON CONFLICT (scope_type, scope_id, period_type, period_start) DO UPDATE SET
+        report_id = EXCLUDED.report_id,
+        scope_slug = EXCLUDED.scope_slug,
+        scope_name = EXCLUDED.scope_name,
+        period_label = EXCLUDED.period_label,
+        period_end = EXCLUDED.period_end,
+        app_count = EXCLUDED.app_count,
+        total_deployments = EXCLUDED.total_deployments,
+        pending_count = EXCLUDED.pending_count,
+        four_eyes_coverage = EXCLUDED.four_eyes_coverage,
+        report_data = EXCLUDED.report_data,
+        content_hash = EXCLUDED.content_hash,
+        generated_at = NOW(),
+        generated_by = EXCLUDED.generated_by,
+        previous_report_id = EXCLUDED.previous_report_id,
+        previous_hash = EXCLUDED.previous_hash,
+        chain_hash = EXCLUDED.chain_hash,
+        signature = EXCLUDED.signature,
+        signing_key_fingerprint = EXCLUDED.signing_key_fingerprint,
+        pdf_data = NULL,
+        pdf_hash = NULL
+      RETURNING *`,
+      [
+        reportId,
+        scope.scopeType,
+        scope.scopeId,
+        scope.slug,
+        scope.name,
+        year,
+        periodType,
+        periodLabel,
+        periodStart,
+        periodEnd,
+        reportData.totals.app_count,
+        reportData.totals.total_deployments,
+        reportData.totals.pending_count,
+        reportData.totals.four_eyes_coverage,
+        JSON.stringify(reportData),
+        contentHash,
+        generatedBy || null,
+        previousReport?.id ?? null,
+        previousReport?.chain_hash ?? null,
+        chainHash,
+        signed?.signature ?? null,
+        signed?.fingerprint ?? null,
+      ],
+    )
+
+    await client.query('COMMIT')
+    return result.rows[0]
+  } catch (error) {
+    await client.query('ROLLBACK')
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+/**
+ * Update PDF data for a consolidated audit report
+ */
+export async function updateConsolidatedAuditReportPdf(id: number, pdfData: Buffer): Promise<void> {
+  const pdfHash = createHash('sha256').update(pdfData).digest('hex')
+  await pool.query('UPDATE consolidated_audit_reports SET pdf_data = $1, pdf_hash = $2 WHERE id = $3', [
+    pdfData,
+    pdfHash,
+    id,
+  ])
+}
+
+export async function getConsolidatedAuditReportById(id: number): Promise<ConsolidatedAuditReport | null> {
+  const result = await pool.query<ConsolidatedAuditReport>('SELECT * FROM consolidated_audit_reports WHERE id = $1', [
+    id,
+  ])
+  return result.rows[0] || null
+}
+
+export async function getConsolidatedAuditReportByReportId(reportId: string): Promise<ConsolidatedAuditReport | null> {
+  const result = await pool.query<ConsolidatedAuditReport>(
+    'SELECT * FROM consolidated_audit_reports WHERE report_id = $1',
+    [reportId],
+  )
+  return result.rows[0] || null
+}
+
+export async function getConsolidatedAuditReportByPdfHash(pdfHash: string): Promise<ConsolidatedAuditReport | null> {
+  const result = await pool.query<ConsolidatedAuditReport>(
+    'SELECT * FROM consolidated_audit_reports WHERE pdf_hash = $1 ORDER BY generated_at DESC LIMIT 1',
+    [pdfHash],
+  )
+  return result.rows[0] || null
+}
+
+export async function getConsolidatedAuditReportChainHash(id: number): Promise<string | null> {
+  const result = await pool.query<{ chain_hash: string }>(
+    'SELECT chain_hash FROM consolidated_audit_reports WHERE id = $1',
+    [id],
+  )
+  return result.rows[0]?.chain_hash ?? null
+}
+
+/**
+ * Get all consolidated audit reports (summary)
+ */
+export async function getAllConsolidatedAuditReports(): Promise<ConsolidatedAuditReportSummary[]> {
+  const result = await pool.query<ConsolidatedAuditReportSummary>(
+    `SELECT id, report_id, scope_type, scope_slug, scope_name, year, period_type, period_label,
+            app_count, total_deployments, pending_count, four_eyes_coverage, generated_at
+     FROM consolidated_audit_reports
+     ORDER BY generated_at DESC`,
+  )
+  return result.rows
+}
@@ -1,6 +1,7 @@
 import { APPROVED_STATUSES } from '~/lib/four-eyes-status'
+import { type RecordAuditEventInput, recordAuditEvent } from './audit-events.server'
 import { AUDIT_START_YEAR_FILTER } from './audit-start-year'
-import { pool } from './connection.server'
+import { pool, withTransaction } from './connection.server'
 import { lowerUsernames, userDeploymentMatchAnySql, userDeploymentMatchSql } from './user-deployment-match'
 
 export interface DeploymentGoalLink {
@@ -25,6 +26,9 @@ export interface DeploymentGoalLinkWithDetails extends DeploymentGoalLink {
   key_result_is_active: boolean | null
 }
 
+/** Builds the audit event for a change from the stored link, so it is committed with the change */
+type GoalLinkAuditEvent = (link: DeploymentGoalLink) => RecordAuditEventInput
+
 export async function getLinksForDeployment(deploymentId: number): Promise<DeploymentGoalLinkWithDetails[]> {
   const result = await pool.query(
     `SELECT dgl.*,
@@ -82,16 +86,19 @@ export async function getLinkedObjectivesForApps(appIds: number[]): Promise<Goal
   return result.rows
 }
 
-export async function addDeploymentGoalLink(data: {
-  deployment_id: number
-  objective_id?: number
-  key_result_id?: number
-  external_url?: string
-  external_url_title?: string
-  comment?: string
-  link_method: DeploymentGoalLink['link_method']
-  linked_by?: string
-}): Promise<DeploymentGoalLink> {
+export async function addDeploymentGoalLink(
+  data: {
+    deployment_id: number
+    objective_id?: number
+    key_result_id?: number
+    external_url?: string
+    external_url_title?: string
+    comment?: string
+    link_method: DeploymentGoalLink['link_method']
+    linked_by?: string
+  },
+  auditEvent?: GoalLinkAuditEvent,
+): Promise<DeploymentGoalLink> {
   if (!data.objective_id && !data.key_result_id) {
     throw new Error('Må angi objective_id eller key_result_id.')
   }
@@ -157,6 +164,7 @@ export async function addDeploymentGoalLink(data: {
       await client.query('ROLLBACK')
       throw new Error('Koblingen finnes allerede.')
     }
+    if (auditEvent) await recordAuditEvent(auditEvent(result.rows[0]), client)
     await client.query('COMMIT')
     return result.rows[0]
   } catch (e) {
@@ -167,30 +175,34 @@ export async function addDeploymentGoalLink(data: {
   }
 }
 
-export async function removeDeploymentGoalLink(id: number): Promise<void> {
-  // First check if the link exists and its current state
-  const link = await pool.query(
-    `SELECT dgl.id, dgl.is_active,
-       COALESCE(bo.is_active, bo_via_kr.is_active, true) AS objective_is_active,
-       COALESCE(bkr.is_active, true) AS kr_is_active
-     FROM deployment_goal_links dgl
-     LEFT JOIN board_objectives bo ON bo.id = dgl.objective_id
-     LEFT JOIN board_key_results bkr ON bkr.id = dgl.key_result_id
-     LEFT JOIN board_objectives bo_via_kr ON bo_via_kr.id = bkr.objective_id
-     WHERE dgl.id = $1`,
-    [id],
-  )
+export async function removeDeploymentGoalLink(id: number, auditEvent?: GoalLinkAuditEvent): Promise<void> {
+  await withTransaction(async (client) => {
+    // First check if the link exists and its current state
+    const link = await client.query(
+      `SELECT dgl.*,
+         COALESCE(bo.is_active, bo_via_kr.is_active, true) AS objective_is_active,
+         COALESCE(bkr.is_active, true) AS kr_is_active
+       FROM deployment_goal_links dgl
+       LEFT JOIN board_objectives bo ON bo.id = dgl.objective_id
+       LEFT JOIN board_key_results bkr ON bkr.id = dgl.key_result_id
+       LEFT JOIN board_objectives bo_via_kr ON bo_via_kr.id = bkr.objective_id
+       WHERE dgl.id = $1
+       FOR UPDATE OF dgl`,
+      [id],
+    )
 
-  if (link.rowCount === 0) return
-  const row = link.rows[0]
+    if (link.rowCount === 0) return
+    const { objective_is_active, kr_is_active, ...row } = link.rows[0]
 
-  if (!row.is_active) return // Already deactivated — idempotent
+    if (!row.is_active) return // Already deactivated — idempotent
 
-  if (!row.objective_is_active || !row.kr_is_active) {
-    throw new Error('Kan ikke fjerne kobling til et deaktivert mål eller nøkkelresultat.')
-  }
+    if (!objective_is_active || !kr_is_active) {
+      throw new Error('Kan ikke fjerne kobling til et deaktivert mål eller nøkkelresultat.')
+    }
 
-  await pool.query('UPDATE deployment_goal_links SET is_active = false WHERE id = $1', [id])
+    await client.query('UPDATE deployment_goal_links SET is_active = false WHERE id = $1', [id])
+    if (auditEvent) await recordAuditEvent(auditEvent(row), client)
+  })
 }
 
 /**
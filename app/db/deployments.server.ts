@@ -3,7 +3,12 @@ import {
   notApprovedWhereClause,
   PENDING_STATUSES,
   PENDING_STATUSES_SQL,
+  PROTECTED_STATUSES_SQL,
 } from '~/lib/four-eyes-status'
+import type { ImageAttestationStatus } from '~/lib/image-attestation'
+import type { NotificationChannelType } from '~/lib/notifications/events'
+import type { WorkflowRunInfo } from '~/lib/verification/types'
+import { type RecordAuditEventInput, recordAuditEvent } from './audit-events.server'
 import { AUDIT_START_YEAR_FILTER } from './audit-start-year'
 import { pool } from './connection.server'
 import { logStatusTransition } from './deployments/status-history.server'
@@ -33,6 +38,22 @@ export interface Deployment {
   deployer_username: string | null
   commit_sha: string | null
   trigger_url: string | null
+  // GitHub Actions run behind trigger_url (resolved during verification)
+  workflow_run_id: string | null // BIGINT, returned as string by pg
+  workflow_path: string | null
+  workflow_event: string | null
+  workflow_head_branch: string | null
+  workflow_actor: string | null
+  workflow_repository: string | null
+  workflow_head_sha: string | null
+  workflow_run_resolved_at: Date | null
+  // Container image running after the deployment and its build provenance check
+  image_ref: string | null
+  image_digest: string | null
+  image_attestation_status: ImageAttestationStatus | null
+  image_attested_repository: string | null
+  image_attested_commit_sha: string | null
+  image_attestation_checked_at: Date | null
   detected_github_owner: string
   detected_github_repo_name: string
   four_eyes_status: string
@@ -112,6 +133,13 @@ export interface GitHubPRData {
     state: string // 'APPROVED', 'CHANGES_REQUESTED', 'COMMENTED'
     submitted_at: string
   }>
+  // Full review history in submission order (reviewers above holds one entry per user)
+  review_history?: Array<{
+    id: number
+    username: string
+    state: string // 'APPROVED', 'CHANGES_REQUESTED', 'COMMENTED', 'DISMISSED'
+    submitted_at: string
+  }>
   checks_passed: boolean | null
   checks: Array<{
     id?: number
@@ -557,56 +585,80 @@ export async function updateDeploymentFourEyes(
     changeSource: string
     changedBy?: string
     details?: Record<string, unknown>
+    /** Audit event for a user's change, committed with it */
+    auditEvent?: RecordAuditEventInput
   },
 ): Promise<Deployment> {
-  // Get current status before update for history logging
-  const current = await pool.query(`SELECT four_eyes_status FROM deployments WHERE id = $1`, [deploymentId])
+  // The status change, its history row, its outbox event and its audit event are committed together
+  const client = await pool.connect()
+  try {
+    await client.query('BEGIN')
 
-  const result = await pool.query(
-    `UPDATE deployments 
-     SET four_eyes_status = $1,
-         github_pr_number = $2,
-         github_pr_url = $3,
-         github_pr_data = $4,
-         branch_name = $5,
-         parent_commits = $6,
-         unverified_commits = $7,
-         title = $8
-     WHERE id = $9
-     RETURNING *`,
-    [
-      data.fourEyesStatus,
-      data.githubPrNumber,
-      data.githubPrUrl,
-      data.githubPrData ? JSON.stringify(data.githubPrData) : null,
-      data.branchName || null,
-      data.parentCommits ? JSON.stringify(data.parentCommits) : null,
-      data.unverifiedCommits ? JSON.stringify(data.unverifiedCommits) : null,
-      data.title || null,
+    // Get current status before update for history logging
+    const current = await client.query(`SELECT four_eyes_status FROM deployments WHERE id = $1 FOR UPDATE`, [
       deploymentId,
-    ],
-  )
+    ])
+
+    const result = await client.query(
+      `UPDATE deployments 
+       SET four_eyes_status = $1,
+           github_pr_number = $2,
+           github_pr_url = $3,
+           github_pr_data = $4,
+           branch_name = $5,
+           parent_commits = $6,
+           unverified_commits = $7,
+           title = $8
+       WHERE id = $9
+       RETURNING *`,
+      [
+        data.fourEyesStatus,
+        data.githubPrNumber,
+        data.githubPrUrl,
+        data.githubPrData ? JSON.stringify(data.githubPrData) : null,
+        data.branchName || null,
+        data.parentCommits ? JSON.stringify(data.parentCommits) : null,
+        data.unverifiedCommits ? JSON.stringify(data.unverifiedCommits) : null,
+        data.title || null,
+        deploymentId,
+      ],
+    )
 
-  if (result.rows.length === 0) {
-    throw new Error('Deployment not found')
-  }
+    if (result.rows.length === 0) {
+      throw new Error('Deployment not found')
+    }
 
-  // Log status transition if status actually changed
-  if (current.rows.length > 0) {
-    const prev = current.rows[0]
-    if (prev.four_eyes_status !== data.fourEyesStatus) {
-      const source = statusChangeOptions?.changeSource || 'unknown'
-      await logStatusTransition(deploymentId, {
-        fromStatus: prev.four_eyes_status,
-        toStatus: data.fourEyesStatus,
-        changeSource: source,
-        changedBy: statusChangeOptions?.changedBy,
-        details: statusChangeOptions?.details,
-      })
+    // Log status transition if status actually changed
+    if (current.rows.length > 0) {
+      const prev = current.rows[0]
+      if (prev.four_eyes_status !== data.fourEyesStatus) {
+        const source = statusChangeOptions?.changeSource || 'unknown'
+        await logStatusTransition(
+          deploymentId,
+          {
+            fromStatus: prev.four_eyes_status,
+            toStatus: data.fourEyesStatus,
+            changeSource: source,
+            changedBy: statusChangeOptions?.changedBy,
+            details: statusChangeOptions?.details,
+          },
+          client,
+        )
+      }
     }
-  }
 
-  return result.rows[0]
+    if (statusChangeOptions?.auditEvent) {
+      await recordAuditEvent(statusChangeOptions.auditEvent, client)
+    }
+
+    await client.query('COMMIT')
+    return result.rows[0]
+  } catch (error) {
+    await client.query('ROLLBACK')
+    throw error
+  } finally {
+    client.release()
+  }
 }
 
 /**
@@ -885,6 +937,151 @@ export async function getPreviousDeploymentForDiff(
   return result.rows[0] || null
 }
 
+/**
+ * Get the stored workflow run for a deployment.
+ * resolved is false until the trigger URL has been looked up; a resolved
+ * deployment with run null has no GitHub Actions run (other trigger URL, or
+ * the run no longer exists on GitHub). Runs stored before the run's
+ * repository and commit were recorded count as unresolved, so they are
+ * looked up again.
+ */
+export async function getDeploymentWorkflowRun(
+  deploymentId: number,
+): Promise<{ triggerUrl: string | null; resolved: boolean; run: WorkflowRunInfo | null } | null> {
+  const result = await pool.query(
+    `SELECT trigger_url, workflow_run_id, workflow_path, workflow_event, workflow_head_branch, workflow_actor,
+            workflow_repository, workflow_head_sha, workflow_run_resolved_at
+     FROM deployments WHERE id = $1`,
+    [deploymentId],
+  )
+  const row = result.rows[0]
+  if (!row) return null
+
+  const hasRun = row.workflow_run_id !== null && row.workflow_path !== null
+  const hasSource = row.workflow_repository !== null && row.workflow_head_sha !== null
+  return {
+    triggerUrl: row.trigger_url,
+    resolved: row.workflow_run_resolved_at !== null && (!hasRun || hasSource),
+    run:
+      hasRun && hasSource
+        ? {
+            runId: Number(row.workflow_run_id),
+            path: row.workflow_path,
+            event: row.workflow_event,
+            headBranch: row.workflow_head_branch,
+            actor: row.workflow_actor,
+            repository: row.workflow_repository,
+            headSha: row.workflow_head_sha,
+          }
+        : null,
+  }
+}
+
+/**
+ * Store the resolved workflow run for a deployment (null = no GitHub Actions run)
+ */
+export async function saveDeploymentWorkflowRun(deploymentId: number, run: WorkflowRunInfo | null): Promise<void> {
+  await pool.query(
+    `UPDATE deployments
+     SET workflow_run_id = $2, workflow_path = $3, workflow_event = $4, workflow_head_branch = $5,
+         workflow_actor = $6, workflow_repository = $7, workflow_head_sha = $8, workflow_run_resolved_at = NOW()
+     WHERE id = $1`,
+    [
+      deploymentId,
+      run?.runId ?? null,
+      run?.path ?? null,
+      run?.event ?? null,
+      run?.headBranch ?? null,
+      run?.actor ?? null,
+      run?.repository ?? null,
+      run?.headSha ?? null,
+    ],
+  )
+}
+
+/**
+ * Get the app's two latest deployments with a known deploy workflow, newest first
+ */
+export async function getRecentDeploymentWorkflows(
+  monitoredAppId: number,
+): Promise<Array<Pick<Deployment, 'id' | 'nais_deployment_id' | 'workflow_path'> & { workflow_path: string }>> {
+  const result = await pool.query(
+    `SELECT id, nais_deployment_id, workflow_path
+     FROM deployments
+     WHERE monitored_app_id = $1 AND workflow_path IS NOT NULL
+     ORDER BY created_at DESC
+     LIMIT 2`,
+    [monitoredAppId],
+  )
+  return result.rows
+}
+
+/**
+ * Get the app's latest deployment with the image fields, for the image attestation check
+ */
+export async function getLatestDeploymentImageForApp(
+  monitoredAppId: number,
+): Promise<Pick<
+  Deployment,
+  'id' | 'nais_deployment_id' | 'commit_sha' | 'image_ref' | 'image_attestation_status'
+> | null> {
+  const result = await pool.query(
+    `SELECT id, nais_deployment_id, commit_sha, image_ref, image_attestation_status
+     FROM deployments
+     WHERE monitored_app_id = $1
+     ORDER BY created_at DESC
+     LIMIT 1`,
+    [monitoredAppId],
+  )
+  return result.rows[0] || null
+}
+
+/**
+ * Store the image a deployment runs and the result of its attestation check.
+ * status null means the check failed and will be retried on the next sync.
+ */
+export async function saveDeploymentImageAttestation(
+  deploymentId: number,
+  data: {
+    imageRef: string
+    imageDigest: string | null
+    status: ImageAttestationStatus | null
+    attestedRepository: string | null
+    attestedCommitSha: string | null
+  },
+): Promise<void> {
+  await pool.query(
+    `UPDATE deployments
+     SET image_ref = $2, image_digest = $3, image_attestation_status = $4, image_attested_repository = $5,
+         image_attested_commit_sha = $6, image_attestation_checked_at = CASE WHEN $4::text IS NULL THEN NULL ELSE NOW() END
+     WHERE id = $1`,
+    [deploymentId, data.imageRef, data.imageDigest, data.status, data.attestedRepository, data.attestedCommitSha],
+  )
+}
+
+/**
+ * Find deployments whose verification depends on a given PR: either the PR is
+ * the deployed PR, or one of the deployment's unverified commits belongs to it.
+ * Protected statuses (manual approval, baseline, legacy) are excluded since
+ * re-verification never changes them.
+ */
+export async function getDeploymentIdsAffectedByPr(owner: string, repo: string, prNumber: number): Promise<number[]> {
+  const result = await pool.query<{ id: number }>(
+    `SELECT d.id
+     FROM deployments d
+     WHERE d.detected_github_owner = $1
+       AND d.detected_github_repo_name = $2
+       AND d.four_eyes_status NOT IN (${PROTECTED_STATUSES_SQL})
+       AND (
+         d.github_pr_number = $3
+         OR d.unverified_commits @> jsonb_build_array(jsonb_build_object('pr_number', $3::int))
+       )
+     ORDER BY d.created_at ASC`,
+    [owner, repo, prNumber],
+  )
+  return result.rows.map((r) => r.id)
+}
+
 export interface AppDeploymentStats {
   total: number
   with_four_eyes: number
@@ -1141,9 +1338,14 @@ export interface SearchResult {
 }
 
 /**
- * Search deployments by ID, commit SHA, or deployer username
+ * Search deployments by ID, commit SHA, or deployer username.
+ * When visibleAppIds is given, deployments, apps and teams are limited to those apps.
  */
-export async function searchDeployments(query: string, limit = 10): Promise<SearchResult[]> {
+export async function searchDeployments(
+  query: string,
+  limit = 10,
+  visibleAppIds: number[] | null = null,
+): Promise<SearchResult[]> {
   const results: SearchResult[] = []
   const trimmedQuery = query.trim()
 
@@ -1157,9 +1359,10 @@ export async function searchDeployments(query: string, limit = 10): Promise<Sear
        FROM deployments d
        JOIN monitored_applications ma ON d.monitored_app_id = ma.id
        WHERE d.nais_deployment_id ILIKE $1
+         AND ($3::int[] IS NULL OR ma.id = ANY($3::int[]))
        ORDER BY d.created_at DESC
        LIMIT $2`,
-      [`${trimmedQuery}%`, limit],
+      [`${trimmedQuery}%`, limit, visibleAppIds],
     )
     for (const row of naisResult.rows) {
       results.push({
@@ -1181,8 +1384,9 @@ export async function searchDeployments(query: string, limit = 10): Promise<Sear
               ma.team_slug, ma.environment_name, ma.app_name
        FROM deployments d
        JOIN monitored_applications ma ON d.monitored_app_id = ma.id
-       WHERE d.id = $1`,
-      [deploymentId],
+       WHERE d.id = $1
+         AND ($2::int[] IS NULL OR ma.id = ANY($2::int[]))`,
+      [deploymentId, visibleAppIds],
     )
     if (result.rows.length > 0) {
       const row = result.rows[0]
@@ -1207,9 +1411,10 @@ export async function searchDeployments(query: string, limit = 10): Promise<Sear
        FROM deployments d
        JOIN monitored_applications ma ON d.monitored_app_id = ma.id
        WHERE d.commit_sha ILIKE $1
+         AND ($3::int[] IS NULL OR ma.id = ANY($3::int[]))
        ORDER BY d.created_at DESC
        LIMIT $2`,
-      [`${trimmedQuery}%`, limit],
+      [`${trimmedQuery}%`, limit, visibleAppIds],
     )
     for (const row of shaResult.rows) {
       results.push({
@@ -1235,32 +1440,35 @@ export async function searchDeployments(query: string, limit = 10): Promise<Sear
               COUNT(*) as deployment_count
        FROM deployments d
        LEFT JOIN user_mappings um ON d.deployer_username = um.github_username AND um.deleted_at IS NULL
-       WHERE d.deployer_username ILIKE $1
+       WHERE (d.deployer_username ILIKE $1
           OR um.display_name ILIKE $1
           OR um.nav_email ILIKE $1
           OR um.nav_ident ILIKE $1
-          OR um.slack_member_id ILIKE $1
+          OR um.slack_member_id ILIKE $1)
+         AND ($3::int[] IS NULL OR d.monitored_app_id = ANY($3::int[]))
        GROUP BY d.deployer_username, um.display_name, um.nav_email, um.nav_ident, um.slack_member_id
        ORDER BY deployment_count DESC
        LIMIT $2`,
-      [`%${trimmedQuery}%`, limit],
+      [`%${trimmedQuery}%`, limit, visibleAppIds],
     ),
     pool.query(
       `SELECT DISTINCT ma.team_slug, COUNT(DISTINCT ma.app_name) AS app_count
        FROM monitored_applications ma
        WHERE ma.is_active = true AND ma.team_slug ILIKE $1
+         AND ($3::int[] IS NULL OR ma.id = ANY($3::int[]))
        GROUP BY ma.team_slug
        ORDER BY ma.team_slug
        LIMIT $2`,
-      [`%${trimmedQuery}%`, limit],
+      [`%${trimmedQuery}%`, limit, visibleAppIds],
     ),
     pool.query(
       `SELECT DISTINCT ma.app_name, ma.team_slug, ma.environment_name
        FROM monitored_applications ma
        WHERE ma.is_active = true AND ma.app_name ILIKE $1
+         AND ($3::int[] IS NULL OR ma.id = ANY($3::int[]))
        ORDER BY ma.app_name, ma.environment_name
        LIMIT $2`,
-      [`%${trimmedQuery}%`, limit],
+      [`%${trimmedQuery}%`, limit, visibleAppIds],
     ),
     pool.query(
       `SELECT ag.id, ag.name, COUNT(ma.id)::int AS app_count,
@@ -1401,15 +1609,24 @@ export interface AppReminderConfig {
   team_slug: string
   environment_name: string
   app_name: string
-  slack_channel_id: string
+  notification_channel: NotificationChannelType
+  slack_channel_id: string | null
   reminder_time: string
   reminder_days: string[]
   reminder_last_sent_at: Date | null
 }
 
 // Re-exports from submodules
-export { getAppChangeOriginCoverage, getLastDeploymentSummary } from './deployments/api.server'
-export { getPersonalDeploymentsMissingGoalLinks } from './deployments/home.server'
+export {
+  type ApiDeploymentRow,
+  type ApiDeviationRow,
+  getAppChangeOriginCoverage,
+  getDeploymentsPage,
+  getDeviationsPage,
+  getLastDeploymentSummary,
+  getMonitoredAppsPage,
+} from './deployments/api.server'
+export { getPersonalDeploymentsMissingGoalLinks, getPersonalUnapprovedDeployments } from './deployments/home.server'
 export {
   claimDeploymentForDeployNotify,
   claimDeploymentForSlackNotification,
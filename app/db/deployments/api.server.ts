@@ -103,3 +103,174 @@ export async function getLastDeploymentSummary(monitoredAppId: number): Promise<
     hasChangeOrigin: row.has_change_origin,
   }
 }
+
+// =============================================================================
+// Paginated listings (keyset pagination, fetches limit + 1 rows)
+// =============================================================================
+
+interface KeysetPage {
+  cursor: { createdAt?: string; id: number } | null
+  limit: number
+}
+
+/**
+ * Format a timestamp column for the page cursor. Keeps microsecond precision
+ * (a JS Date only has milliseconds), so the cursor matches the row exactly.
+ */
+function cursorCreatedAtSql(column: string): string {
+  return `to_char(${column} AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US"Z"')`
+}
+
+interface ApiMonitoredAppRow {
+  id: number
+  team_slug: string
+  environment_name: string
+  app_name: string
+  is_active: boolean
+  default_branch: string
+  audit_start_year: number | null
+}
+
+/**
+ * List monitored applications ordered by id.
+ */
+export async function getMonitoredAppsPage(
+  page: KeysetPage,
+  filters: { team?: string; environment?: string; includeInactive?: boolean } = {},
+): Promise<ApiMonitoredAppRow[]> {
+  const conditions: string[] = []
+  const params: (string | number)[] = []
+
+  if (!filters.includeInactive) conditions.push('is_active = true')
+  if (filters.team) {
+    params.push(filters.team)
+    conditions.push(`team_slug = $${params.length}`)
+  }
+  if (filters.environment) {
+    params.push(filters.environment)
+    conditions.push(`environment_name = $${params.length}`)
+  }
+  if (page.cursor) {
+    params.push(page.cursor.id)
+    conditions.push(`id > $${params.length}`)
+  }
+  params.push(page.limit + 1)
+
+  const result = await pool.query<ApiMonitoredAppRow>(
+    `SELECT id, team_slug, environment_name, app_name, is_active, default_branch, audit_start_year
+     FROM monitored_applications
+     ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+     ORDER BY id ASC
+     LIMIT $${params.length}`,
+    params,
+  )
+  return result.rows
+}
+
+export interface ApiDeploymentRow {
+  id: number
+  created_at: Date
+  cursor_created_at: string
+  deployer_username: string | null
+  commit_sha: string | null
+  title: string | null
+  four_eyes_status: string
+  github_pr_number: number | null
+  github_pr_url: string | null
+}
+
+/**
+ * List deployments for an app, newest first.
+ */
+export async function getDeploymentsPage(
+  monitoredAppId: number,
+  page: KeysetPage,
+  filters: { fourEyesStatus?: string; from?: Date; to?: Date } = {},
+): Promise<ApiDeploymentRow[]> {
+  const conditions = ['d.monitored_app_id = $1']
+  const params: (string | number | Date)[] = [monitoredAppId]
+
+  if (filters.fourEyesStatus) {
+    params.push(filters.fourEyesStatus)
+    conditions.push(`d.four_eyes_status = $${params.length}`)
+  }
+  if (filters.from) {
+    params.push(filters.from)
+    conditions.push(`d.created_at >= $${params.length}`)
+  }
+  if (filters.to) {
+    params.push(filters.to)
+    conditions.push(`d.created_at <= $${params.length}`)
+  }
+  if (page.cursor?.createdAt) {
+    params.push(page.cursor.createdAt, page.cursor.id)
+    conditions.push(`(d.created_at, d.id) < ($${params.length - 1}::timestamptz, $${params.length})`)
+  }
+  params.push(page.limit + 1)
+
+  const result = await pool.query<ApiDeploymentRow>(
+    `SELECT d.id, d.created_at, ${cursorCreatedAtSql('d.created_at')} AS cursor_created_at,
+            d.deployer_username, d.commit_sha,
+            COALESCE(d.title, d.github_pr_data->>'title', d.unverified_commits->0->>'message') AS title,
+            d.four_eyes_status, d.github_pr_number, d.github_pr_url
+     FROM deployments d
+     WHERE ${conditions.join(' AND ')}
+     ORDER BY d.created_at DESC, d.id DESC
+     LIMIT $${params.length}`,
+    params,
+  )
+  return result.rows
+}
+
+export interface ApiDeviationRow {
+  id: number
+  deployment_id: number
+  created_at: Date
+  cursor_created_at: string
+  reason: string
+  breach_type: string | null
+  intent: string | null
+  severity: string | null
+  status: string
+  follow_up_role: string | null
+  assigned_to_nav_ident: string | null
+  assigned_to_name: string | null
+  due_at: Date | null
+  resolved_at: Date | null
+  resolution_note: string | null
+}
+
+/**
+ * List deviations for an app, newest first.
+ */
+export async function getDeviationsPage(
+  monitoredAppId: number,
+  page: KeysetPage,
+  filters: { status?: string } = {},
+): Promise<ApiDeviationRow[]> {
+  const conditions = ['d.monitored_app_id = $1']
+  const params: (string | number)[] = [monitoredAppId]
+
+  if (filters.status) {
+    params.push(filters.status)
+    conditions.push(`dd.status = $${params.length}`)
+  }
+  if (page.cursor?.createdAt) {
+    params.push(page.cursor.createdAt, page.cursor.id)
+    conditions.push(`(dd.created_at, dd.id) < ($${params.length - 1}::timestamptz, $${params.length})`)
+  }
+  params.push(page.limit + 1)
+
+  const result = await pool.query<ApiDeviationRow>(
+    `SELECT dd.id, dd.deployment_id, dd.created_at, ${cursorCreatedAtSql('dd.created_at')} AS cursor_created_at,
+            dd.reason, dd.breach_type, dd.intent, dd.severity, dd.status, dd.follow_up_role,
+            dd.assigned_to_nav_ident, dd.assigned_to_name, dd.due_at, dd.resolved_at, dd.resolution_note
+     FROM deployment_deviations dd
+     JOIN deployments d ON dd.deployment_id = d.id
+     WHERE ${conditions.join(' AND ')}
+     ORDER BY dd.created_at DESC, dd.id DESC
+     LIMIT $${params.length}`,
+    params,
+  )
+  return result.rows
+}
@@ -1,4 +1,4 @@
-import { APPROVED_STATUSES, PENDING_STATUSES } from '~/lib/four-eyes-status'
+import { APPROVED_STATUSES, NOT_APPROVED_STATUSES, PENDING_STATUSES } from '~/lib/four-eyes-status'
 import { isGitHubBot, NON_BRACKET_BOT_USERNAMES } from '~/lib/github-bots'
 import { pool } from '../connection.server'
 import type { AppWithIssues, DeploymentWithApp } from '../deployments.server'
@@ -245,3 +245,30 @@ export async function getPersonalDeploymentsMissingGoalLinks(githubUsername: str
   )
   return result.rows[0]?.count ?? 0
 }
+
+/**
+ * Get deployments where the given GitHub user is the deployer or the PR
+ * creator and that still lack approval, newest first.
+ *
+ * Used by the `/nda pending` Slack command. Same matching and audit-year
+ * filtering as {@link getPersonalDeploymentsMissingGoalLinks}.
+ */
+export async function getPersonalUnapprovedDeployments(
+  githubUsername: string,
+  limit = 10,
+): Promise<{ deployments: DeploymentWithApp[]; total: number }> {
+  const result = await pool.query(
+    `SELECT d.*, ma.team_slug, ma.environment_name, ma.app_name,
+            COUNT(*) OVER()::integer AS total_count
+     FROM deployments d
+     JOIN monitored_applications ma ON d.monitored_app_id = ma.id
+     WHERE ma.is_active = true
+       AND (ma.audit_start_year IS NULL OR d.created_at >= make_date(ma.audit_start_year, 1, 1))
+       AND ${userDeploymentMatchSql(1)}
+       AND d.four_eyes_status = ANY($2)
+     ORDER BY d.created_at DESC
+     LIMIT $3`,
+    [githubUsername, [...NOT_APPROVED_STATUSES, ...PENDING_STATUSES], limit],
+  )
+  return { deployments: result.rows, total: result.rows[0]?.total_count ?? 0 }
+}
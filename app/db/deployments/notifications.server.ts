@@ -108,17 +108,21 @@ export async function getDeploymentsNeedingDeployNotify(limit = 50): Promise<Dep
 }
 
 /**
- * Get all apps with reminders enabled and Slack configured
+ * Get all apps with reminders enabled and their notification channel configured
  */
 export async function getAppsWithRemindersEnabled(): Promise<AppReminderConfig[]> {
   const result = await pool.query<AppReminderConfig>(
-    `SELECT id, team_slug, environment_name, app_name, slack_channel_id,
-            reminder_time, reminder_days, reminder_last_sent_at
-     FROM monitored_applications
-     WHERE reminder_enabled = true
-       AND slack_notifications_enabled = true
-       AND slack_channel_id IS NOT NULL
-       AND is_active = true`,
+    `SELECT ma.id, ma.team_slug, ma.environment_name, ma.app_name, ma.notification_channel, ma.slack_channel_id,
+            ma.reminder_time, ma.reminder_days, ma.reminder_last_sent_at
+     FROM monitored_applications ma
+     LEFT JOIN app_notification_endpoints e ON e.monitored_app_id = ma.id
+     WHERE ma.reminder_enabled = true
+       AND ma.is_active = true
+       AND (
+         (ma.notification_channel = 'slack' AND ma.slack_notifications_enabled = true AND ma.slack_channel_id IS NOT NULL)
+         OR (ma.notification_channel = 'teams' AND e.teams_webhook_url IS NOT NULL)
+         OR (ma.notification_channel = 'webhook' AND e.webhook_url IS NOT NULL AND e.webhook_secret IS NOT NULL)
+       )`,
   )
   return result.rows
 }
@@ -1,6 +1,12 @@
-import { pool } from '../connection.server'
+import { type DbClient, pool } from '../connection.server'
 import type { StatusTransition } from '../deployments.server'
+import { enqueueStatusChangedEvent } from '../event-outbox.server'
 
+/**
+ * Record a status transition and enqueue it on the event stream.
+ * Pass the client of the transaction that changes the status, so the
+ * history row and the event are committed together with the change.
+ */
 export async function logStatusTransition(
   deploymentId: number,
   data: {
@@ -10,8 +16,9 @@ export async function logStatusTransition(
     changedBy?: string
     details?: Record<string, unknown>
   },
+  db: DbClient = pool,
 ): Promise<void> {
-  await pool.query(
+  await db.query(
     `INSERT INTO deployment_status_history 
        (deployment_id, from_status, to_status, 
         changed_by, change_source, details)
@@ -25,6 +32,7 @@ export async function logStatusTransition(
       data.details ? JSON.stringify(data.details) : null,
     ],
   )
+  await enqueueStatusChangedEvent(db, deploymentId, data)
 }
 
 export async function getStatusHistory(deploymentId: number): Promise<StatusTransition[]> {
@@ -1,4 +1,6 @@
-import { pool } from './connection.server'
+import { diffAuditState } from '~/lib/audit-events'
+import { type AuditActor, recordAuditEvent } from './audit-events.server'
+import { pool, withTransaction } from './connection.server'
 
 /**
  * Advisory-lock namespace (first key for pg_advisory_xact_lock(int4, int4)).
@@ -130,16 +132,39 @@ export async function getDevTeamsForApps(
   return result.rows
 }
 
-export async function createDevTeam(sectionId: number, slug: string, name: string): Promise<DevTeam> {
-  const result = await pool.query('INSERT INTO dev_teams (section_id, slug, name) VALUES ($1, $2, $3) RETURNING *', [
-    sectionId,
-    slug,
-    name,
-  ])
-  return result.rows[0]
+export async function createDevTeam(
+  sectionId: number,
+  slug: string,
+  name: string,
+  actor?: AuditActor,
+): Promise<DevTeam> {
+  return withTransaction(async (client) => {
+    const result = await client.query<DevTeam>(
+      'INSERT INTO dev_teams (section_id, slug, name) VALUES ($1, $2, $3) RETURNING *',
+      [sectionId, slug, name],
+    )
+    const devTeam = result.rows[0]
+    if (actor) {
+      await recordAuditEvent(
+        {
+          actor,
+          action: 'dev_team.create',
+          entityType: 'dev_team',
+          entityId: devTeam.id,
+          after: { section_id: sectionId, slug: devTeam.slug, name: devTeam.name },
+        },
+        client,
+      )
+    }
+    return devTeam
+  })
 }
 
-export async function updateDevTeam(id: number, data: { name?: string; is_active?: boolean }): Promise<DevTeam | null> {
+export async function updateDevTeam(
+  id: number,
+  data: { name?: string; is_active?: boolean },
+  actor?: AuditActor,
+): Promise<DevTeam | null> {
   const sets: string[] = []
   const values: unknown[] = []
   let idx = 1
@@ -156,8 +181,26 @@ export async function updateDevTeam(id: number, data: { name?: string; is_active
   if (sets.length === 0) return getDevTeamById(id)
 
   values.push(id)
-  const result = await pool.query(`UPDATE dev_teams SET ${sets.join(', ')} WHERE id = $${idx} RETURNING *`, values)
-  return result.rows[0] ?? null
+  return withTransaction(async (client) => {
+    const previous = await client.query<DevTeam>('SELECT * FROM dev_teams WHERE id = $1 FOR UPDATE', [id])
+    const result = await client.query<DevTeam>(
+      `UPDATE dev_teams SET ${sets.join(', ')} WHERE id = $${idx} RETURNING *`,
+      values,
+    )
+    const devTeam = result.rows[0]
+    if (actor && devTeam && previous.rows[0]) {
+      const fields = Object.keys(data) as (keyof typeof data)[]
+      const pick = (row: DevTeam) => Object.fromEntries(fields.map((field) => [field, row[field]]))
+      const diff = diffAuditState(pick(previous.rows[0]), pick(devTeam))
+      if (diff.after) {
+        await recordAuditEvent(
+          { actor, action: 'dev_team.update', entityType: 'dev_team', entityId: id, ...diff },
+          client,
+        )
+      }
+    }
+    return devTeam ?? null
+  })
 }
 
 /**
@@ -173,6 +216,7 @@ export async function setDevTeamNaisTeams(
   devTeamId: number,
   naisTeamSlugs: string[],
   deletedBy: string,
+  actor?: AuditActor,
 ): Promise<void> {
   const client = await pool.connect()
   try {
@@ -184,6 +228,11 @@ export async function setDevTeamNaisTeams(
     // inserting their own → union of both sets active).
     await client.query('SELECT pg_advisory_xact_lock($1, $2)', [DEV_TEAM_NAIS_TEAMS_LOCK_NAMESPACE, devTeamId])
 
+    const previous = await client.query<{ nais_team_slug: string }>(
+      'SELECT nais_team_slug FROM dev_team_nais_teams WHERE dev_team_id = $1 AND deleted_at IS NULL',
+      [devTeamId],
+    )
+
     // Soft-delete active links no longer present in the new set.
     await client.query(
       `UPDATE dev_team_nais_teams
@@ -208,6 +257,22 @@ export async function setDevTeamNaisTeams(
       )
     }
 
+    const before = previous.rows.map((row) => row.nais_team_slug).sort()
+    const after = [...new Set(naisTeamSlugs)].sort()
+    if (actor && before.join() !== after.join()) {
+      await recordAuditEvent(
+        {
+          actor,
+          action: 'dev_team.nais_teams_update',
+          entityType: 'dev_team',
+          entityId: devTeamId,
+          before: { nais_team_slugs: before },
+          after: { nais_team_slugs: after },
+        },
+        client,
+      )
+    }
+
     await client.query('COMMIT')
   } catch (e) {
     await client.query('ROLLBACK')
@@ -243,6 +308,7 @@ export async function setDevTeamApplications(
   devTeamId: number,
   monitoredAppIds: number[],
   deletedBy: string,
+  actor?: AuditActor,
 ): Promise<void> {
   const client = await pool.connect()
   try {
@@ -254,6 +320,11 @@ export async function setDevTeamApplications(
     // inserting their own → union of both sets active).
     await client.query('SELECT pg_advisory_xact_lock($1, $2)', [DEV_TEAM_APPLICATIONS_LOCK_NAMESPACE, devTeamId])
 
+    const previous = await client.query<{ monitored_app_id: number }>(
+      'SELECT monitored_app_id FROM dev_team_applications WHERE dev_team_id = $1 AND deleted_at IS NULL',
+      [devTeamId],
+    )
+
     // Soft-delete active links no longer present in the new set.
     await client.query(
       `UPDATE dev_team_applications
@@ -278,6 +349,22 @@ export async function setDevTeamApplications(
       )
     }
 
+    const before = previous.rows.map((row) => row.monitored_app_id).sort((a, b) => a - b)
+    const after = [...new Set(monitoredAppIds)].sort((a, b) => a - b)
+    if (actor && before.join() !== after.join()) {
+      await recordAuditEvent(
+        {
+          actor,
+          action: 'dev_team.applications_update',
+          entityType: 'dev_team',
+          entityId: devTeamId,
+          before: { monitored_app_ids: before },
+          after: { monitored_app_ids: after },
+        },
+        client,
+      )
+    }
+
     await client.query('COMMIT')
   } catch (e) {
     await client.query('ROLLBACK')
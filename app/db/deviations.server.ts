@@ -1,8 +1,17 @@
-import type { DeviationFollowUpRole, DeviationIntent, DeviationSeverity } from '~/lib/deviation-constants'
+import {
+  type DeviationFollowUpRole,
+  type DeviationIntent,
+  type DeviationSeverity,
+  type DeviationStatus,
+  getDeviationDueDate,
+  isValidDeviationTransition,
+} from '~/lib/deviation-constants'
+import { type RecordAuditEventInput, recordAuditEvent } from './audit-events.server'
 import { AUDIT_START_YEAR_FILTER } from './audit-start-year'
-import { query } from './connection.server'
+import { pool, query } from './connection.server'
+import { enqueueDeviationRegisteredEvent } from './event-outbox.server'
 
-interface DeploymentDeviation {
+export interface DeploymentDeviation {
   id: number
   deployment_id: number
   reason: string
@@ -16,10 +25,29 @@ interface DeploymentDeviation {
   resolved_by: string | null
   resolved_by_name: string | null
   resolution_note: string | null
+  status: DeviationStatus
+  assigned_to_nav_ident: string | null
+  assigned_to_name: string | null
+  due_at: Date | null
+  escalated_at: Date | null
   created_at: Date
 }
 
-interface DeploymentDeviationWithContext extends DeploymentDeviation {
+export interface DeviationTransition {
+  id: number
+  deviation_id: number
+  from_status: DeviationStatus | null
+  to_status: DeviationStatus
+  assigned_to_nav_ident: string | null
+  assigned_to_name: string | null
+  note: string | null
+  changed_by: string
+  changed_by_name: string | null
+  created_at: Date
+}
+
+export interface DeploymentDeviationWithContext extends DeploymentDeviation {
+  monitored_app_id?: number
   app_name?: string
   environment_name?: string
   team_slug?: string
@@ -39,23 +67,53 @@ interface CreateDeviationParams {
   registered_by_name?: string
 }
 
-export async function createDeviation(params: CreateDeviationParams): Promise<DeploymentDeviation> {
-  const result = await query<DeploymentDeviation>(
-    `INSERT INTO deployment_deviations (deployment_id, reason, breach_type, intent, severity, follow_up_role, registered_by, registered_by_name)
-     VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
-     RETURNING *`,
-    [
-      params.deployment_id,
-      params.reason,
-      params.breach_type || null,
-      params.intent || null,
-      params.severity || null,
-      params.follow_up_role || null,
-      params.registered_by,
-      params.registered_by_name || null,
-    ],
-  )
-  return result.rows[0]
+/** Builds the audit event for a change from the stored deviation, so it is committed with the change */
+type DeviationAuditEvent = (deviation: DeploymentDeviation) => RecordAuditEventInput
+
+export async function createDeviation(
+  params: CreateDeviationParams,
+  auditEvent?: DeviationAuditEvent,
+): Promise<DeploymentDeviation> {
+  const client = await pool.connect()
+  try {
+    await client.query('BEGIN')
+
+    const result = await client.query<DeploymentDeviation>(
+      `INSERT INTO deployment_deviations
+         (deployment_id, reason, breach_type, intent, severity, follow_up_role, registered_by, registered_by_name, status, due_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, 'registered', $9)
+       RETURNING *`,
+      [
+        params.deployment_id,
+        params.reason,
+        params.breach_type || null,
+        params.intent || null,
+        params.severity || null,
+        params.follow_up_role || null,
+        params.registered_by,
+        params.registered_by_name || null,
+        getDeviationDueDate(params.severity ?? null, new Date()),
+      ],
+    )
+    const deviation = result.rows[0]
+
+    await client.query(
+      `INSERT INTO deployment_deviation_transitions (deviation_id, from_status, to_status, changed_by, changed_by_name)
+       VALUES ($1, NULL, 'registered', $2, $3)`,
+      [deviation.id, params.registered_by, params.registered_by_name || null],
+    )
+
+    await enqueueDeviationRegisteredEvent(client, deviation)
+    if (auditEvent) await recordAuditEvent(auditEvent(deviation), client)
+
+    await client.query('COMMIT')
+    return deviation
+  } catch (error) {
+    await client.query('ROLLBACK')
+    throw error
+  } finally {
+    client.release()
+  }
 }
 
 export async function getDeviationsByDeploymentId(deploymentId: number): Promise<DeploymentDeviation[]> {
@@ -121,20 +179,216 @@ export async function getDeviationsForPeriod(
   return result.rows
 }
 
-async function _resolveDeviation(params: {
+export async function getDeviationById(id: number): Promise<DeploymentDeviationWithContext | null> {
+  const result = await query<DeploymentDeviationWithContext>(
+    `SELECT dd.*, d.commit_sha, d.title, d.created_at AS deploy_started_at,
+            d.monitored_app_id, ma.app_name, ma.environment_name, ma.team_slug
+     FROM deployment_deviations dd
+     JOIN deployments d ON dd.deployment_id = d.id
+     JOIN monitored_applications ma ON d.monitored_app_id = ma.id
+     WHERE dd.id = $1`,
+    [id],
+  )
+  return result.rows[0] || null
+}
+
+/**
+ * Get all deviations that are not closed, across apps.
+ * Sorted by severity (critical first), then oldest first.
+ */
+export async function getOpenDeviations(options?: {
+  status?: DeviationStatus
+}): Promise<DeploymentDeviationWithContext[]> {
+  const params: string[] = []
+  let statusFilter = "dd.status <> 'closed'"
+  if (options?.status) {
+    params.push(options.status)
+    statusFilter = 'dd.status = $1'
+  }
+
+  const result = await query<DeploymentDeviationWithContext>(
+    `SELECT dd.*, d.commit_sha, d.title, d.created_at AS deploy_started_at,
+            ma.app_name, ma.environment_name, ma.team_slug
+     FROM deployment_deviations dd
+     JOIN deployments d ON dd.deployment_id = d.id
+     JOIN monitored_applications ma ON d.monitored_app_id = ma.id
+     WHERE ${statusFilter}
+       AND ${AUDIT_START_YEAR_FILTER}
+     ORDER BY CASE dd.severity
+                WHEN 'critical' THEN 0
+                WHEN 'high' THEN 1
+                WHEN 'medium' THEN 2
+                WHEN 'low' THEN 3
+                ELSE 2
+              END,
+              dd.created_at ASC`,
+    params,
+  )
+  return result.rows
+}
+
+export async function getDeviationTransitions(deviationId: number): Promise<DeviationTransition[]> {
+  const result = await query<DeviationTransition>(
+    'SELECT * FROM deployment_deviation_transitions WHERE deviation_id = $1 ORDER BY created_at ASC, id ASC',
+    [deviationId],
+  )
+  return result.rows
+}
+
+/**
+ * Move a deviation to a new status and record the transition.
+ *
+ * Closing sets the resolution fields (a note is required by the caller);
+ * reopening clears them and starts a new due date and escalation.
+ * Returns null if the deviation does not exist or the transition is not
+ * allowed from its current status.
+ */
+export async function transitionDeviation(params: {
   id: number
-  resolved_by: string
-  resolved_by_name?: string
-  resolution_note: string
+  to_status: DeviationStatus
+  changed_by: string
+  changed_by_name?: string
+  note?: string
+  auditEvent?: DeviationAuditEvent
 }): Promise<DeploymentDeviation | null> {
-  const result = await query<DeploymentDeviation>(
-    `UPDATE deployment_deviations
-     SET resolved_at = CURRENT_TIMESTAMP, resolved_by = $2, resolved_by_name = $3, resolution_note = $4
-     WHERE id = $1
-     RETURNING *`,
-    [params.id, params.resolved_by, params.resolved_by_name || null, params.resolution_note],
+  const client = await pool.connect()
+  try {
+    await client.query('BEGIN')
+
+    const current = await client.query<DeploymentDeviation>(
+      'SELECT * FROM deployment_deviations WHERE id = $1 FOR UPDATE',
+      [params.id],
+    )
+    const deviation = current.rows[0]
+    if (!deviation || !isValidDeviationTransition(deviation.status, params.to_status)) {
+      await client.query('ROLLBACK')
+      return null
+    }
+
+    let result: { rows: DeploymentDeviation[] }
+    if (params.to_status === 'closed') {
+      result = await client.query<DeploymentDeviation>(
+        `UPDATE deployment_deviations
+         SET status = 'closed', resolved_at = CURRENT_TIMESTAMP, resolved_by = $2, resolved_by_name = $3, resolution_note = $4
+         WHERE id = $1
+         RETURNING *`,
+        [params.id, params.changed_by, params.changed_by_name || null, params.note || null],
+      )
+    } else if (deviation.status === 'closed') {
+      result = await client.query<DeploymentDeviation>(
+        `UPDATE deployment_deviations
+         SET status = $2, resolved_at = NULL, resolved_by = NULL, resolved_by_name = NULL, resolution_note = NULL,
+             due_at = $3, escalated_at = NULL
+         WHERE id = $1
+         RETURNING *`,
+        [params.id, params.to_status, getDeviationDueDate(deviation.severity, new Date())],
+      )
+    } else {
+      result = await client.query<DeploymentDeviation>(
+        'UPDATE deployment_deviations SET status = $2 WHERE id = $1 RETURNING *',
+        [params.id, params.to_status],
+      )
+    }
+
+    await client.query(
+      `INSERT INTO deployment_deviation_transitions
+         (deviation_id, from_status, to_status, note, changed_by, changed_by_name)
+       VALUES ($1, $2, $3, $4, $5, $6)`,
+      [
+        params.id,
+        deviation.status,
+        params.to_status,
+        params.note || null,
+        params.changed_by,
+        params.changed_by_name || null,
+      ],
+    )
+    if (params.auditEvent) await recordAuditEvent(params.auditEvent(result.rows[0]), client)
+
+    await client.query('COMMIT')
+    return result.rows[0]
+  } catch (error) {
+    await client.query('ROLLBACK')
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+/**
+ * Assign a deviation to the named person holding the follow-up role, and record it in the history.
+ */
+export async function assignDeviation(params: {
+  id: number
+  follow_up_role: DeviationFollowUpRole
+  assigned_to_nav_ident: string
+  assigned_to_name?: string
+  changed_by: string
+  changed_by_name?: string
+  auditEvent?: DeviationAuditEvent
+}): Promise<DeploymentDeviation | null> {
+  const client = await pool.connect()
+  try {
+    await client.query('BEGIN')
+
+    const result = await client.query<DeploymentDeviation>(
+      `UPDATE deployment_deviations
+       SET follow_up_role = $2, assigned_to_nav_ident = $3, assigned_to_name = $4
+       WHERE id = $1
+       RETURNING *`,
+      [params.id, params.follow_up_role, params.assigned_to_nav_ident, params.assigned_to_name || null],
+    )
+    const deviation = result.rows[0]
+    if (!deviation) {
+      await client.query('ROLLBACK')
+      return null
+    }
+
+    await client.query(
+      `INSERT INTO deployment_deviation_transitions
+         (deviation_id, from_status, to_status, assigned_to_nav_ident, assigned_to_name, changed_by, changed_by_name)
+       VALUES ($1, $2, $2, $3, $4, $5, $6)`,
+      [
+        params.id,
+        deviation.status,
+        params.assigned_to_nav_ident,
+        params.assigned_to_name || null,
+        params.changed_by,
+        params.changed_by_name || null,
+      ],
+    )
+    if (params.auditEvent) await recordAuditEvent(params.auditEvent(deviation), client)
+
+    await client.query('COMMIT')
+    return deviation
+  } catch (error) {
+    await client.query('ROLLBACK')
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+/**
+ * Atomically claim escalation of overdue deviations (prevents duplicate escalations across pods).
+ * Each deviation is escalated once per due date.
+ */
+export async function claimOverdueDeviationsForEscalation(): Promise<DeploymentDeviationWithContext[]> {
+  const result = await query<DeploymentDeviationWithContext>(
+    `WITH claimed AS (
+       UPDATE deployment_deviations
+       SET escalated_at = NOW()
+       WHERE status <> 'closed' AND due_at < NOW() AND escalated_at IS NULL
+       RETURNING *
+     )
+     SELECT dd.*, d.commit_sha, d.title, d.created_at AS deploy_started_at,
+            d.monitored_app_id, ma.app_name, ma.environment_name, ma.team_slug
+     FROM claimed dd
+     JOIN deployments d ON dd.deployment_id = d.id
+     JOIN monitored_applications ma ON d.monitored_app_id = ma.id
+     ORDER BY dd.due_at ASC`,
   )
-  return result.rows[0] || null
+  return result.rows
 }
 
 async function _getDeviationCountByAppId(monitoredAppId: number): Promise<{ open: number; total: number }> {
@@ -0,0 +1,394 @@
+/**
+ * Outbox, subscribers and deliveries of the event stream (see lib/event-stream.ts).
+ *
+ * Events are enqueued with the client of the transaction that makes the change,
+ * so an event exists if and only if the change was committed.
+ */
+
+import {
+  buildDeviationRegisteredEventData,
+  buildStatusChangedEventData,
+  type StreamEventContext,
+  type StreamEventType,
+  subscriberWantsEvent,
+} from '~/lib/event-stream'
+import { type AuditActor, recordAuditEvent } from './audit-events.server'
+import { type DbClient, pool } from './connection.server'
+
+export interface EventSubscriber {
+  id: number
+  name: string
+  url: string
+  event_types: StreamEventType[]
+  statuses: string[]
+  is_active: boolean
+  created_at: Date
+  created_by: string
+  updated_at: Date
+}
+
+export type EventDeliveryStatus = 'pending' | 'delivered' | 'failed'
+
+/**
+ * A delivery claimed by the dispatcher, with what it needs to post the event
+ */
+export interface ClaimedEventDelivery {
+  id: number
+  attempts: number
+  outbox_id: number
+  event_type: StreamEventType
+  payload: Record<string, unknown>
+  event_created_at: Date
+  url: string
+  secret: string
+}
+
+export interface EventDeliveryProblem {
+  id: number
+  outbox_id: number
+  event_type: StreamEventType
+  status: EventDeliveryStatus
+  attempts: number
+  next_attempt_at: Date
+  last_attempt_at: Date | null
+  response_status: number | null
+  last_error: string | null
+  payload: Record<string, unknown>
+  subscriber_id: number
+  subscriber_name: string
+}
+
+function getBaseUrl(): string {
+  return process.env.BASE_URL || 'https://nda.ansatt.nav.no'
+}
+
+// ============================================================================
+// Outbox
+// ============================================================================
+
+async function getEventContext(db: DbClient, deploymentId: number): Promise<StreamEventContext & { appId: number }> {
+  const result = await db.query(
+    `SELECT d.id, d.commit_sha, ma.id AS app_id, ma.team_slug, ma.environment_name, ma.app_name
+     FROM deployments d
+     JOIN monitored_applications ma ON d.monitored_app_id = ma.id
+     WHERE d.id = $1`,
+    [deploymentId],
+  )
+  const row = result.rows[0]
+  if (!row) {
+    throw new Error(`Deployment ${deploymentId} not found`)
+  }
+  return {
+    deploymentId: row.id,
+    commitSha: row.commit_sha,
+    appId: row.app_id,
+    teamSlug: row.team_slug,
+    environmentName: row.environment_name,
+    appName: row.app_name,
+  }
+}
+
+async function insertOutboxEvent(
+  db: DbClient,
+  eventType: StreamEventType,
+  context: StreamEventContext & { appId: number },
+  payload: object,
+): Promise<void> {
+  await db.query(
+    `INSERT INTO event_outbox (event_type, deployment_id, monitored_app_id, payload)
+     VALUES ($1, $2, $3, $4)`,
+    [eventType, context.deploymentId, context.appId, JSON.stringify(payload)],
+  )
+}
+
+/**
+ * Enqueue a status change. Call with the client of the transaction that changes the status.
+ */
+export async function enqueueStatusChangedEvent(
+  db: DbClient,
+  deploymentId: number,
+  transition: { fromStatus: string | null; toStatus: string; changeSource: string; changedBy?: string },
+): Promise<void> {
+  const context = await getEventContext(db, deploymentId)
+  await insertOutboxEvent(
+    db,
+    'deployment.status_changed',
+    context,
+    buildStatusChangedEventData(context, transition, getBaseUrl()),
+  )
+}
+
+/**
+ * Enqueue a registered deviation. Call with the client of the transaction that creates it.
+ */
+export async function enqueueDeviationRegisteredEvent(
+  db: DbClient,
+  deviation: Parameters<typeof buildDeviationRegisteredEventData>[1] & { deployment_id: number },
+): Promise<void> {
+  const context = await getEventContext(db, deviation.deployment_id)
+  await insertOutboxEvent(
+    db,
+    'deviation.registered',
+    context,
+    buildDeviationRegisteredEventData(context, deviation, getBaseUrl()),
+  )
+}
+
+/**
+ * Create deliveries for events not yet fanned out, for the active subscribers
+ * that want them. Events are locked while fanned out, so pods do not race.
+ *
+ * @returns number of events fanned out
+ */
+export async function fanOutOutboxEvents(limit = 100): Promise<number> {
+  const client = await pool.connect()
+  try {
+    await client.query('BEGIN')
+
+    const events = await client.query<{ id: number; event_type: string; payload: { toStatus?: string } }>(
+      `SELECT id, event_type, payload FROM event_outbox
+       WHERE fanned_out_at IS NULL
+       ORDER BY id
+       LIMIT $1
+       FOR UPDATE SKIP LOCKED`,
+      [limit],
+    )
+    if (events.rows.length === 0) {
+      await client.query('COMMIT')
+      return 0
+    }
+
+    const subscribers = await client.query<{ id: number; event_types: string[]; statuses: string[] }>(
+      'SELECT id, event_types, statuses FROM event_subscribers WHERE is_active = true',
+    )
+
+    for (const event of events.rows) {
+      const subscriberIds = subscribers.rows.filter((s) => subscriberWantsEvent(s, event)).map((s) => s.id)
+      if (subscriberIds.length > 0) {
+        await client.query(
+          `INSERT INTO event_deliveries (outbox_id, subscriber_id)
+           SELECT $1, unnest($2::int[])
+           ON CONFLICT (outbox_id, subscriber_id) DO NOTHING`,
+          [event.id, subscriberIds],
+        )
+      }
+    }
+
+    await client.query('UPDATE event_outbox SET fanned_out_at = NOW() WHERE id = ANY($1::bigint[])', [
+      events.rows.map((e) => e.id),
+    ])
+
+    await client.query('COMMIT')
+    return events.rows.length
+  } catch (error) {
+    await client.query('ROLLBACK')
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+// ============================================================================
+// Deliveries
+// ============================================================================
+
+/**
+ * Claim deliveries that are due. A claim expires after `lockSeconds`, so a
+ * delivery claimed by a pod that stops is picked up again (at-least-once).
+ */
+export async function claimDueEventDeliveries(limit: number, lockSeconds: number): Promise<ClaimedEventDelivery[]> {
+  const result = await pool.query<ClaimedEventDelivery>(
+    `WITH due AS (
+       SELECT ed.id
+       FROM event_deliveries ed
+       JOIN event_subscribers s ON ed.subscriber_id = s.id
+       WHERE ed.status = 'pending'
+         AND ed.next_attempt_at <= NOW()
+         AND (ed.locked_until IS NULL OR ed.locked_until < NOW())
+         AND s.is_active = true
+       ORDER BY ed.next_attempt_at
+       LIMIT $1
+       FOR UPDATE OF ed SKIP LOCKED
+     ),
+     claimed AS (
+       UPDATE event_deliveries ed
+       SET locked_until = NOW() + make_interval(secs => $2)
+       FROM due
+       WHERE ed.id = due.id
+       RETURNING ed.id, ed.attempts, ed.outbox_id, ed.subscriber_id
+     )
+     SELECT c.id, c.attempts, c.outbox_id, o.event_type, o.payload, o.created_at AS event_created_at, s.url, s.secret
+     FROM claimed c
+     JOIN event_outbox o ON c.outbox_id = o.id
+     JOIN event_subscribers s ON c.subscriber_id = s.id
+     ORDER BY c.outbox_id`,
+    [limit, lockSeconds],
+  )
+  return result.rows
+}
+
+export async function markEventDeliveryDelivered(id: number, responseStatus: number): Promise<void> {
+  await pool.query(
+    `UPDATE event_deliveries
+     SET status = 'delivered', attempts = attempts + 1, response_status = $2, last_error = NULL,
+         last_attempt_at = NOW(), delivered_at = NOW(), locked_until = NULL
+     WHERE id = $1`,
+    [id, responseStatus],
+  )
+}
+
+/**
+ * Record a failed attempt. Without a next attempt the delivery is given up.
+ */
+export async function markEventDeliveryFailed(
+  id: number,
+  data: { responseStatus: number | null; error: string; nextAttemptAt: Date | null },
+): Promise<void> {
+  await pool.query(
+    `UPDATE event_deliveries
+     SET status = CASE WHEN $4::timestamptz IS NULL THEN 'failed' ELSE 'pending' END,
+         attempts = attempts + 1, response_status = $2, last_error = $3,
+         last_attempt_at = NOW(), next_attempt_at = COALESCE($4::timestamptz, next_attempt_at), locked_until = NULL
+     WHERE id = $1`,
+    [id, data.responseStatus, data.error, data.nextAttemptAt],
+  )
+}
+
+/**
+ * Deliveries that have given up or are retrying after a failed attempt, newest first
+ */
+export async function getEventDeliveryProblems(limit = 200): Promise<EventDeliveryProblem[]> {
+  const result = await pool.query<EventDeliveryProblem>(
+    `SELECT ed.id, ed.outbox_id, o.event_type, ed.status, ed.attempts, ed.next_attempt_at, ed.last_attempt_at,
+            ed.response_status, ed.last_error, o.payload, s.id AS subscriber_id, s.name AS subscriber_name
+     FROM event_deliveries ed
+     JOIN event_outbox o ON ed.outbox_id = o.id
+     JOIN event_subscribers s ON ed.subscriber_id = s.id
+     WHERE ed.status = 'failed' OR (ed.status = 'pending' AND ed.last_error IS NOT NULL)
+     ORDER BY ed.last_attempt_at DESC NULLS LAST
+     LIMIT $1`,
+    [limit],
+  )
+  return result.rows
+}
+
+export async function getEventDeliveryCounts(): Promise<Record<EventDeliveryStatus, number> & { unpublished: number }> {
+  const result = await pool.query<{ pending: string; delivered: string; failed: string; unpublished: string }>(
+    `SELECT
+       (SELECT COUNT(*) FROM event_deliveries WHERE status = 'pending')::text AS pending,
+       (SELECT COUNT(*) FROM event_deliveries WHERE status = 'delivered')::text AS delivered,
+       (SELECT COUNT(*) FROM event_deliveries WHERE status = 'failed')::text AS failed,
+       (SELECT COUNT(*) FROM event_outbox WHERE fanned_out_at IS NULL)::text AS unpublished`,
+  )
+  const row = result.rows[0]
+  return {
+    pending: Number.parseInt(row.pending, 10),
+    delivered: Number.parseInt(row.delivered, 10),
+    failed: Number.parseInt(row.failed, 10),
+    unpublished: Number.parseInt(row.unpublished, 10),
+  }
+}
+
+/**
+ * Schedule a delivery that has given up for one more attempt
+ */
+export async function retryEventDelivery(id: number, actor: AuditActor): Promise<boolean> {
+  const result = await pool.query(
+    `UPDATE event_deliveries
+     SET status = 'pending', next_attempt_at = NOW(), locked_until = NULL
+     WHERE id = $1 AND status = 'failed'
+     RETURNING subscriber_id, attempts`,
+    [id],
+  )
+  if (result.rowCount === 0) return false
+
+  await recordAuditEvent({
+    actor,
+    action: 'event_delivery.retry',
+    entityType: 'event_subscriber',
+    entityId: result.rows[0].subscriber_id,
+    before: { delivery_id: id, status: 'failed', attempts: result.rows[0].attempts },
+    after: { delivery_id: id, status: 'pending' },
+  })
+  return true
+}
+
+// ============================================================================
+// Subscribers
+// ============================================================================
+
+/**
+ * All subscribers, without their secrets
+ */
+export async function getEventSubscribers(): Promise<EventSubscriber[]> {
+  const result = await pool.query<EventSubscriber>(
+    `SELECT id, name, url, event_types, statuses, is_active, created_at, created_by, updated_at
+     FROM event_subscribers
+     ORDER BY name`,
+  )
+  return result.rows
+}
+
+export async function createEventSubscriber(
+  data: { name: string; url: string; secret: string; eventTypes: StreamEventType[]; statuses: string[] },
+  actor: AuditActor,
+): Promise<EventSubscriber> {
+  const result = await pool.query<EventSubscriber>(
+    `INSERT INTO event_subscribers (name, url, secret, event_types, statuses, created_by)
+     VALUES ($1, $2, $3, $4, $5, $6)
+     RETURNING id, name, url, event_types, statuses, is_active, created_at, created_by, updated_at`,
+    [data.name, data.url, data.secret, data.eventTypes, data.statuses, actor.navIdent],
+  )
+  const subscriber = result.rows[0]
+
+  await recordAuditEvent({
+    actor,
+    action: 'event_subscriber.create',
+    entityType: 'event_subscriber',
+    entityId: subscriber.id,
+    after: {
+      name: subscriber.name,
+      url: subscriber.url,
+      event_types: subscriber.event_types,
+      statuses: subscriber.statuses,
+    },
+  })
+  return subscriber
+}
+
+export async function setEventSubscriberActive(id: number, isActive: boolean, actor: AuditActor): Promise<void> {
+  const result = await pool.query(
+    `UPDATE event_subscribers SET is_active = $2, updated_at = NOW()
+     WHERE id = $1 AND is_active <> $2`,
+    [id, isActive],
+  )
+  if (result.rowCount === 0) return
+
+  await recordAuditEvent({
+    actor,
+    action: 'event_subscriber.update',
+    entityType: 'event_subscriber',
+    entityId: id,
+    before: { is_active: !isActive },
+    after: { is_active: isActive },
+  })
+}
+
+/**
+ * Delete a subscriber together with its delivery history
+ */
+export async function deleteEventSubscriber(id: number, actor: AuditActor): Promise<void> {
+  const result = await pool.query<{ name: string; url: string }>(
+    'DELETE FROM event_subscribers WHERE id = $1 RETURNING name, url',
+    [id],
+  )
+  if (result.rowCount === 0) return
+
+  await recordAuditEvent({
+    actor,
+    action: 'event_subscriber.delete',
+    entityType: 'event_subscriber',
+    entityId: id,
+    before: { name: result.rows[0].name, url: result.rows[0].url },
+  })
+}
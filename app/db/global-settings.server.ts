@@ -1,4 +1,5 @@
-import { pool } from './connection.server'
+import { type AuditActor, recordAuditEvent } from './audit-events.server'
+import { pool, withTransaction } from './connection.server'
 
 interface GlobalSetting {
   id: number
@@ -31,25 +32,46 @@ async function getGlobalSetting<T extends Record<string, unknown>>(settingKey: s
 async function updateGlobalSetting<T extends Record<string, unknown>>(params: {
   settingKey: string
   newValue: T
+  actor?: AuditActor
 }): Promise<GlobalSetting> {
-  const result = await pool.query<GlobalSetting>(
-    `INSERT INTO global_settings (setting_key, setting_value, updated_at)
-     VALUES ($1, $2, CURRENT_TIMESTAMP)
-     ON CONFLICT (setting_key)
-     DO UPDATE SET setting_value = $2, updated_at = CURRENT_TIMESTAMP
-     RETURNING *`,
-    [params.settingKey, JSON.stringify(params.newValue)],
-  )
-  return result.rows[0]
+  return withTransaction(async (client) => {
+    const previous = await client.query<GlobalSetting>(
+      'SELECT * FROM global_settings WHERE setting_key = $1 FOR UPDATE',
+      [params.settingKey],
+    )
+    const result = await client.query<GlobalSetting>(
+      `INSERT INTO global_settings (setting_key, setting_value, updated_at)
+       VALUES ($1, $2, CURRENT_TIMESTAMP)
+       ON CONFLICT (setting_key)
+       DO UPDATE SET setting_value = $2, updated_at = CURRENT_TIMESTAMP
+       RETURNING *`,
+      [params.settingKey, JSON.stringify(params.newValue)],
+    )
+    if (params.actor) {
+      await recordAuditEvent(
+        {
+          actor: params.actor,
+          action: 'global_setting.update',
+          entityType: 'global_setting',
+          entityId: params.settingKey,
+          before: { [params.settingKey]: previous.rows[0]?.setting_value ?? null },
+          after: { [params.settingKey]: params.newValue },
+        },
+        client,
+      )
+    }
+    return result.rows[0]
+  })
 }
 
 export async function getDeviationSlackChannel(): Promise<DeviationSlackChannelSettings> {
   return getGlobalSetting(GLOBAL_SETTING_KEYS.DEVIATION_SLACK_CHANNEL, DEFAULT_DEVIATION_SLACK_CHANNEL)
 }
 
-export async function updateDeviationSlackChannel(channelId: string): Promise<GlobalSetting> {
+export async function updateDeviationSlackChannel(channelId: string, actor?: AuditActor): Promise<GlobalSetting> {
   return updateGlobalSetting({
     settingKey: GLOBAL_SETTING_KEYS.DEVIATION_SLACK_CHANNEL,
     newValue: { channel_id: channelId },
+    actor,
   })
 }
@@ -0,0 +1,11 @@
+-- Tamper-evident audit reports: hash chain per app and Ed25519 signature.
+-- Non-destructive: existing reports keep NULL values and are reported as unsigned.
+ALTER TABLE audit_reports
+  ADD COLUMN IF NOT EXISTS previous_report_id INTEGER REFERENCES audit_reports(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS previous_hash TEXT,
+  ADD COLUMN IF NOT EXISTS chain_hash TEXT,
+  ADD COLUMN IF NOT EXISTS signature TEXT,
+  ADD COLUMN IF NOT EXISTS signing_key_fingerprint TEXT,
+  ADD COLUMN IF NOT EXISTS pdf_hash TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_audit_reports_pdf_hash ON audit_reports(pdf_hash);
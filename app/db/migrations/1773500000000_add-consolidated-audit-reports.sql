@@ -0,0 +1,50 @@
+-- Consolidated audit reports covering all production apps of a section or dev team.
+-- scope_id references sections(id) or dev_teams(id) depending on scope_type.
+CREATE TABLE IF NOT EXISTS consolidated_audit_reports (
+  id SERIAL PRIMARY KEY,
+  report_id TEXT UNIQUE NOT NULL,
+
+  -- Scope
+  scope_type TEXT NOT NULL CHECK (scope_type IN ('section', 'dev_team')),
+  scope_id INTEGER NOT NULL,
+  scope_slug TEXT NOT NULL,
+  scope_name TEXT NOT NULL,
+
+  -- Period
+  year INTEGER NOT NULL,
+  period_type TEXT NOT NULL CHECK (period_type IN ('yearly', 'tertiary', 'quarterly', 'monthly')),
+  period_label TEXT NOT NULL,
+  period_start DATE NOT NULL,
+  period_end DATE NOT NULL,
+
+  -- Summary statistics
+  app_count INTEGER NOT NULL,
+  total_deployments INTEGER NOT NULL,
+  pending_count INTEGER NOT NULL,
+  four_eyes_coverage NUMERIC(5, 4) NOT NULL,
+
+  -- Report content: per-app summaries, combined deviations and totals
+  report_data JSONB NOT NULL,
+  content_hash TEXT NOT NULL,
+
+  -- Hash chain per scope and signature (see audit_reports)
+  previous_report_id INTEGER REFERENCES consolidated_audit_reports(id) ON DELETE SET NULL,
+  previous_hash TEXT,
+  chain_hash TEXT,
+  signature TEXT,
+  signing_key_fingerprint TEXT,
+
+  pdf_data BYTEA,
+  pdf_hash TEXT,
+
+  generated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  generated_by TEXT,
+
+  CONSTRAINT consolidated_audit_reports_scope_period_unique UNIQUE (scope_type, scope_id, period_type, period_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_consolidated_audit_reports_pdf_hash ON consolidated_audit_reports(pdf_hash);
+
+-- Report jobs for consolidated reports have no monitored app; scope_label names the download
+ALTER TABLE report_jobs
+  ADD COLUMN IF NOT EXISTS scope_label TEXT;
@@ -0,0 +1,18 @@
+-- Scheduled audit report generation: one row per app and completed period.
+-- The row is claimed atomically by the scheduler so only one pod generates the
+-- report or posts the Slack message about deployments blocking readiness.
+CREATE TABLE IF NOT EXISTS scheduled_report_runs (
+  id SERIAL PRIMARY KEY,
+  monitored_app_id INTEGER NOT NULL REFERENCES monitored_applications(id) ON DELETE CASCADE,
+  period_type TEXT NOT NULL CHECK (period_type IN ('yearly', 'tertiary', 'quarterly', 'monthly')),
+  period_start DATE NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('running', 'generated', 'blocked', 'no_deployments', 'failed')),
+  pending_count INTEGER,
+  audit_report_id INTEGER REFERENCES audit_reports(id) ON DELETE SET NULL,
+  error_message TEXT,
+  blocked_notified_at TIMESTAMPTZ,
+  last_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT scheduled_report_runs_app_period_unique UNIQUE (monitored_app_id, period_type, period_start)
+);
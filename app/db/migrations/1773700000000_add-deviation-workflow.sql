@@ -0,0 +1,52 @@
+-- Deviation lifecycle: status, assignee, due date (from severity) and escalation
+ALTER TABLE deployment_deviations
+  ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'registered'
+    CHECK (status IN ('registered', 'under_investigation', 'action_required', 'closed')),
+  ADD COLUMN IF NOT EXISTS assigned_to_nav_ident TEXT,
+  ADD COLUMN IF NOT EXISTS assigned_to_name TEXT,
+  ADD COLUMN IF NOT EXISTS due_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS escalated_at TIMESTAMPTZ;
+
+-- Existing deviations: resolved ones are closed, open ones get a due date from severity.
+-- Open deviations count from now rather than from registration, so the first
+-- escalation run does not escalate the whole backlog at once.
+UPDATE deployment_deviations SET status = 'closed' WHERE resolved_at IS NOT NULL;
+
+UPDATE deployment_deviations
+SET due_at = CASE WHEN status = 'closed' THEN created_at ELSE NOW() END + CASE severity
+    WHEN 'critical' THEN INTERVAL '2 days'
+    WHEN 'high' THEN INTERVAL '7 days'
+    WHEN 'low' THEN INTERVAL '90 days'
+    ELSE INTERVAL '30 days'
+  END
+WHERE due_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_deployment_deviations_open_due
+  ON deployment_deviations(due_at) WHERE status <> 'closed';
+
+-- History of status transitions and assignments
+CREATE TABLE IF NOT EXISTS deployment_deviation_transitions (
+  id SERIAL PRIMARY KEY,
+  deviation_id INTEGER NOT NULL REFERENCES deployment_deviations(id) ON DELETE CASCADE,
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  assigned_to_nav_ident TEXT,
+  assigned_to_name TEXT,
+  note TEXT,
+  changed_by TEXT NOT NULL,
+  changed_by_name TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_deployment_deviation_transitions_deviation
+  ON deployment_deviation_transitions(deviation_id, created_at);
+
+-- Existing deviations start their history at registration
+INSERT INTO deployment_deviation_transitions (deviation_id, from_status, to_status, changed_by, changed_by_name, created_at)
+SELECT id, NULL, 'registered', registered_by, registered_by_name, created_at
+FROM deployment_deviations;
+
+INSERT INTO deployment_deviation_transitions (deviation_id, from_status, to_status, note, changed_by, changed_by_name, created_at)
+SELECT id, 'registered', 'closed', resolution_note, COALESCE(resolved_by, registered_by), resolved_by_name, resolved_at
+FROM deployment_deviations
+WHERE resolved_at IS NOT NULL;
@@ -0,0 +1,32 @@
+-- Append-only audit trail of user actions: who changed what, when, and from what to what
+CREATE TABLE IF NOT EXISTS audit_events (
+  id BIGSERIAL PRIMARY KEY,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  actor_nav_ident TEXT NOT NULL,
+  actor_name TEXT,
+  action TEXT NOT NULL,
+  entity_type TEXT NOT NULL,
+  entity_id TEXT NOT NULL,
+  -- No foreign key: events must outlive the rows they describe
+  monitored_app_id INTEGER,
+  before_state JSONB,
+  after_state JSONB,
+  trace_id TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_events_created_at ON audit_events(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_events_entity ON audit_events(entity_type, entity_id);
+CREATE INDEX IF NOT EXISTS idx_audit_events_actor ON audit_events(actor_nav_ident);
+CREATE INDEX IF NOT EXISTS idx_audit_events_app ON audit_events(monitored_app_id) WHERE monitored_app_id IS NOT NULL;
+
+-- Audit events are evidence: reject updates and deletes
+CREATE OR REPLACE FUNCTION reject_audit_event_change() RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION 'audit_events is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS audit_events_append_only ON audit_events;
+CREATE TRIGGER audit_events_append_only
+  BEFORE UPDATE OR DELETE ON audit_events
+  FOR EACH ROW EXECUTE FUNCTION reject_audit_event_change();
@@ -0,0 +1,15 @@
+-- Migration: Sync deployment comments with the Slack thread of the deployment notification
+-- Replies in the thread are imported as comments, and comments added on the web are
+-- posted into the thread. slack_message_ts links a comment to its message in the
+-- thread, so a reply is imported only once even if Slack delivers the event again.
+
+ALTER TABLE deployment_comments
+  ADD COLUMN IF NOT EXISTS slack_message_ts TEXT NULL,
+  ADD COLUMN IF NOT EXISTS slack_user_id TEXT NULL;
+
+COMMENT ON COLUMN deployment_comments.slack_message_ts IS 'Timestamp of the message in the Slack thread of the deployment notification: the imported reply, or the message posted for a web comment.';
+COMMENT ON COLUMN deployment_comments.slack_user_id IS 'Slack member ID of the author, for comments imported from Slack. registered_by holds the NAV-ident when the user is mapped.';
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_deployment_comments_slack_message
+  ON deployment_comments(deployment_id, slack_message_ts)
+  WHERE slack_message_ts IS NOT NULL;
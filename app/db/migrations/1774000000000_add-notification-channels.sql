@@ -0,0 +1,51 @@
+-- Migration: Per-app notification channel (Slack, Microsoft Teams or generic webhook)
+-- Slack remains the default. Teams and webhook endpoints hold credentials (the Teams
+-- URL embeds its token), so they live in their own table instead of on
+-- monitored_applications, which is returned by most loaders. Teams and webhook
+-- deliveries are recorded in notification_deliveries, like Slack messages are in
+-- slack_notifications.
+
+ALTER TABLE monitored_applications
+  ADD COLUMN IF NOT EXISTS notification_channel TEXT NOT NULL DEFAULT 'slack'
+    CHECK (notification_channel IN ('slack', 'teams', 'webhook'));
+
+COMMENT ON COLUMN monitored_applications.notification_channel IS 'Channel for deployment, reminder, deviation and report notifications: slack, teams or webhook';
+
+CREATE TABLE IF NOT EXISTS app_notification_endpoints (
+  monitored_app_id INTEGER PRIMARY KEY REFERENCES monitored_applications(id) ON DELETE CASCADE,
+  teams_webhook_url TEXT,
+  webhook_url TEXT,
+  webhook_secret TEXT,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_by TEXT
+);
+
+COMMENT ON COLUMN app_notification_endpoints.teams_webhook_url IS 'Microsoft Teams incoming webhook URL (Adaptive Cards)';
+COMMENT ON COLUMN app_notification_endpoints.webhook_url IS 'URL receiving signed JSON notifications';
+COMMENT ON COLUMN app_notification_endpoints.webhook_secret IS 'Shared secret for the HMAC-SHA256 signature of webhook notifications';
+
+CREATE TABLE IF NOT EXISTS notification_deliveries (
+  id SERIAL PRIMARY KEY,
+  monitored_app_id INTEGER NOT NULL REFERENCES monitored_applications(id) ON DELETE CASCADE,
+  deployment_id INTEGER REFERENCES deployments(id) ON DELETE SET NULL,
+  channel TEXT NOT NULL CHECK (channel IN ('teams', 'webhook')),
+  event_type TEXT NOT NULL,
+
+  -- Only the host is stored, since Teams webhook URLs carry their credentials in the path
+  target_host TEXT NOT NULL,
+  payload JSONB NOT NULL,
+
+  status TEXT NOT NULL CHECK (status IN ('sent', 'failed')),
+  response_status INTEGER,
+  error TEXT,
+
+  sent_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  sent_by TEXT -- NAV-ident who triggered sending, null for scheduled notifications
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_app
+ON notification_deliveries(monitored_app_id, sent_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_deployment
+ON notification_deliveries(deployment_id, event_type)
+WHERE deployment_id IS NOT NULL;
@@ -0,0 +1,64 @@
+-- Migration: Outbox of verification events for downstream consumers
+-- Status transitions and registered deviations are written to event_outbox in the
+-- same transaction as the change. A dispatcher fans each event out to the matching
+-- subscribers and delivers it at least once, retrying with backoff.
+
+CREATE TABLE IF NOT EXISTS event_subscribers (
+  id SERIAL PRIMARY KEY,
+  name TEXT NOT NULL,
+  url TEXT NOT NULL,
+  secret TEXT NOT NULL,
+  event_types TEXT[] NOT NULL,
+  statuses TEXT[] NOT NULL DEFAULT '{}',
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_by TEXT NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON COLUMN event_subscribers.secret IS 'Shared secret for the HMAC-SHA256 signature of delivered events';
+COMMENT ON COLUMN event_subscribers.statuses IS 'Only deliver status changes to these statuses. Empty means all statuses';
+
+CREATE TABLE IF NOT EXISTS event_outbox (
+  id BIGSERIAL PRIMARY KEY,
+  event_type TEXT NOT NULL CHECK (event_type IN ('deployment.status_changed', 'deviation.registered')),
+  deployment_id INTEGER REFERENCES deployments(id) ON DELETE SET NULL,
+  monitored_app_id INTEGER,
+  payload JSONB NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  -- Set when deliveries have been created for the subscribers at that time
+  fanned_out_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_outbox_pending_fan_out
+ON event_outbox(id)
+WHERE fanned_out_at IS NULL;
+
+CREATE TABLE IF NOT EXISTS event_deliveries (
+  id BIGSERIAL PRIMARY KEY,
+  outbox_id BIGINT NOT NULL REFERENCES event_outbox(id) ON DELETE CASCADE,
+  subscriber_id INTEGER NOT NULL REFERENCES event_subscribers(id) ON DELETE CASCADE,
+
+  -- pending: waiting for the next attempt, delivered: 2xx response, failed: gave up after the last attempt
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'delivered', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  -- Claimed by a dispatcher until this time, so pods do not deliver the same event concurrently
+  locked_until TIMESTAMPTZ,
+
+  response_status INTEGER,
+  last_error TEXT,
+  last_attempt_at TIMESTAMPTZ,
+  delivered_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  UNIQUE (outbox_id, subscriber_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_deliveries_due
+ON event_deliveries(next_attempt_at)
+WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_event_deliveries_problems
+ON event_deliveries(subscriber_id, last_attempt_at DESC)
+WHERE last_error IS NOT NULL;
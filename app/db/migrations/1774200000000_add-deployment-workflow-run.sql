@@ -0,0 +1,16 @@
+-- Migration: Record the GitHub Actions workflow run that triggered each deployment
+-- Resolved from trigger_url during verification. Apps can restrict which workflow
+-- files and events may deploy (app_settings key 'deploy_workflow_policy'), and
+-- deployments from other workflows get the status unauthorized_workflow.
+
+ALTER TABLE deployments
+  ADD COLUMN IF NOT EXISTS workflow_run_id BIGINT NULL,
+  ADD COLUMN IF NOT EXISTS workflow_path TEXT NULL,
+  ADD COLUMN IF NOT EXISTS workflow_event TEXT NULL,
+  ADD COLUMN IF NOT EXISTS workflow_head_branch TEXT NULL,
+  ADD COLUMN IF NOT EXISTS workflow_actor TEXT NULL,
+  ADD COLUMN IF NOT EXISTS workflow_run_resolved_at TIMESTAMPTZ NULL;
+
+COMMENT ON COLUMN deployments.workflow_path IS 'Workflow file of the triggering run, e.g. .github/workflows/deploy.yml';
+COMMENT ON COLUMN deployments.workflow_event IS 'Event that started the run, e.g. push or workflow_dispatch';
+COMMENT ON COLUMN deployments.workflow_run_resolved_at IS 'When the trigger URL was resolved. Set with empty workflow columns when the URL is not a GitHub Actions run or the run no longer exists.';
@@ -0,0 +1,20 @@
+-- Migration: Record the deployed container image and its build provenance check
+-- The Nais sync reads the image an application runs and attributes it to the
+-- app's latest deployment. The image digest is checked against GitHub build
+-- provenance attestations, and mismatches become repository alerts.
+
+ALTER TABLE deployments
+  ADD COLUMN IF NOT EXISTS image_ref TEXT NULL,
+  ADD COLUMN IF NOT EXISTS image_digest TEXT NULL,
+  ADD COLUMN IF NOT EXISTS image_attestation_status VARCHAR(50) NULL,
+  ADD COLUMN IF NOT EXISTS image_attested_repository TEXT NULL,
+  ADD COLUMN IF NOT EXISTS image_attested_commit_sha TEXT NULL,
+  ADD COLUMN IF NOT EXISTS image_attestation_checked_at TIMESTAMPTZ NULL;
+
+COMMENT ON COLUMN deployments.image_ref IS 'Container image running after the deployment, as reported by Nais (name:tag or name@digest)';
+COMMENT ON COLUMN deployments.image_attestation_status IS 'verified, missing_attestation, commit_mismatch, repository_mismatch or digest_unavailable. NULL = not checked yet';
+COMMENT ON COLUMN deployments.image_attested_commit_sha IS 'Source commit from the build provenance attestation';
+
+-- Details for alerts that are not about the repository alone (e.g. image digest and commits)
+ALTER TABLE repository_alerts
+  ADD COLUMN IF NOT EXISTS details JSONB NULL;
@@ -0,0 +1,34 @@
+-- Migration: Repository alert lifecycle
+-- Alerts get a severity and an assignee, record when the app was notified, and
+-- record whether they were resolved by a user or automatically by the periodic
+-- sync once the underlying condition disappeared. Alerts about the state of
+-- the repository (rename, archive, branch protection) are not tied to a
+-- deployment, so deployment_id may be NULL.
+
+ALTER TABLE repository_alerts
+  ADD COLUMN IF NOT EXISTS severity VARCHAR(20) NOT NULL DEFAULT 'medium',
+  ADD COLUMN IF NOT EXISTS assigned_to_nav_ident VARCHAR(20) NULL,
+  ADD COLUMN IF NOT EXISTS assigned_to_name TEXT NULL,
+  ADD COLUMN IF NOT EXISTS assigned_at TIMESTAMPTZ NULL,
+  ADD COLUMN IF NOT EXISTS notified_at TIMESTAMPTZ NULL,
+  ADD COLUMN IF NOT EXISTS resolution_type VARCHAR(20) NULL;
+
+COMMENT ON COLUMN repository_alerts.severity IS 'low, medium, high or critical. Defaults by alert type';
+COMMENT ON COLUMN repository_alerts.notified_at IS 'When the alert was delivered to the app''s notification channel';
+COMMENT ON COLUMN repository_alerts.resolution_type IS 'manual (resolved by a user) or auto (condition disappeared during sync)';
+
+ALTER TABLE repository_alerts
+  ALTER COLUMN deployment_id DROP NOT NULL;
+
+UPDATE repository_alerts SET severity = 'high'
+WHERE alert_type IN ('repository_mismatch', 'image_missing_attestation');
+
+UPDATE repository_alerts SET severity = 'critical'
+WHERE alert_type IN ('image_commit_mismatch', 'image_repository_mismatch');
+
+UPDATE repository_alerts SET resolution_type = 'manual'
+WHERE resolved_at IS NOT NULL AND resolution_type IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_repository_alerts_open
+  ON repository_alerts(monitored_app_id, alert_type)
+  WHERE resolved_at IS NULL;
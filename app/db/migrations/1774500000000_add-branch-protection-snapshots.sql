@@ -0,0 +1,37 @@
+-- Migration: Branch protection snapshots
+-- The branch_protection_snapshot job records the branch protection and ruleset
+-- settings in effect on the default branch of each active repository. A new row
+-- is stored only when the settings change, so each row covers the period from
+-- captured_at until the next row for the same repository. last_checked_at is
+-- bumped on every run that finds the settings unchanged.
+
+CREATE TABLE IF NOT EXISTS branch_protection_snapshots (
+  id SERIAL PRIMARY KEY,
+  monitored_app_id INTEGER NOT NULL REFERENCES monitored_applications(id) ON DELETE CASCADE,
+  application_repository_id INTEGER NOT NULL REFERENCES application_repositories(id) ON DELETE CASCADE,
+  github_owner VARCHAR(255) NOT NULL,
+  github_repo_name VARCHAR(255) NOT NULL,
+  branch VARCHAR(255) NOT NULL,
+
+  required_approving_review_count INTEGER NOT NULL DEFAULT 0,
+  dismiss_stale_reviews BOOLEAN NOT NULL DEFAULT FALSE,
+  require_code_owner_reviews BOOLEAN NOT NULL DEFAULT FALSE,
+  enforce_admins BOOLEAN NOT NULL DEFAULT FALSE,
+  allow_force_pushes BOOLEAN NOT NULL DEFAULT TRUE,
+  sources TEXT[] NOT NULL DEFAULT '{}',
+
+  captured_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_checked_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON COLUMN branch_protection_snapshots.required_approving_review_count IS '0 when pull requests or approvals are not required';
+COMMENT ON COLUMN branch_protection_snapshots.enforce_admins IS 'Classic enforce_admins, or a ruleset without bypass actors';
+COMMENT ON COLUMN branch_protection_snapshots.sources IS 'Where the settings come from: classic and/or ruleset. Empty when the branch is unprotected';
+COMMENT ON COLUMN branch_protection_snapshots.captured_at IS 'When these settings were first seen';
+COMMENT ON COLUMN branch_protection_snapshots.last_checked_at IS 'When these settings were last confirmed unchanged';
+
+CREATE INDEX IF NOT EXISTS idx_branch_protection_snapshots_repo
+ON branch_protection_snapshots(application_repository_id, captured_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_branch_protection_snapshots_app
+ON branch_protection_snapshots(monitored_app_id, captured_at);
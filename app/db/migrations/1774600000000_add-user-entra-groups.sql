@@ -0,0 +1,13 @@
+-- Migration: Entra ID groups per user
+-- Stores the Entra ID groups from each user's latest web login, so actions
+-- taken outside the web app (Slack buttons, slash commands and modals) can be
+-- checked against the same section roles as the web app.
+
+CREATE TABLE IF NOT EXISTS user_entra_groups (
+  nav_ident TEXT PRIMARY KEY,
+  entra_groups TEXT[] NOT NULL DEFAULT '{}',
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON COLUMN user_entra_groups.nav_ident IS 'Upper-case NAV-ident';
+COMMENT ON COLUMN user_entra_groups.updated_at IS 'When the groups were last seen in a token';
@@ -0,0 +1,11 @@
+-- Migration: Record the repository and commit of each deployment's workflow run
+-- The deploy workflow policy only trusts a run that belongs to the deployed
+-- repository and ran for the deployed commit. Runs resolved before these
+-- columns existed are looked up again on the next verification.
+
+ALTER TABLE deployments
+  ADD COLUMN IF NOT EXISTS workflow_repository TEXT NULL,
+  ADD COLUMN IF NOT EXISTS workflow_head_sha TEXT NULL;
+
+COMMENT ON COLUMN deployments.workflow_repository IS 'Repository of the triggering run, as owner/repo';
+COMMENT ON COLUMN deployments.workflow_head_sha IS 'Commit the triggering run was started for';
@@ -1,4 +1,7 @@
-import { pool } from './connection.server'
+import { diffAuditState } from '~/lib/audit-events'
+import type { NotificationChannelType } from '~/lib/notifications/events'
+import { type AuditActor, recordAuditEvent } from './audit-events.server'
+import { pool, withTransaction } from './connection.server'
 
 interface MonitoredApplication {
   id: number
@@ -20,6 +23,7 @@ interface MonitoredApplication {
   slack_deploy_channel_id: string | null
   slack_deploy_notify_enabled: boolean
   slack_deploy_notify_enabled_at: Date | null
+  notification_channel: NotificationChannelType
   application_group_id: number | null
   created_at: Date
   updated_at: Date
@@ -68,6 +72,14 @@ export async function getApplicationsByTeamAndEnv(
   return result.rows
 }
 
+export async function getApplicationsByName(appName: string): Promise<MonitoredApplication[]> {
+  const result = await pool.query(
+    'SELECT * FROM monitored_applications WHERE app_name = $1 AND is_active = true ORDER BY team_slug, environment_name',
+    [appName],
+  )
+  return result.rows
+}
+
 export async function getMonitoredApplicationById(id: number): Promise<MonitoredApplication | null> {
   const result = await pool.query('SELECT * FROM monitored_applications WHERE id = $1', [id])
   return result.rows[0] || null
@@ -137,10 +149,15 @@ export async function updateMonitoredApplication(
     slack_notifications_enabled?: boolean
     slack_deploy_channel_id?: string | null
     slack_deploy_notify_enabled?: boolean
+    notification_channel?: NotificationChannelType
     reminder_enabled?: boolean
     reminder_time?: string
     reminder_days?: string[]
   },
+  options?: {
+    /** Record the changed fields in the audit trail as changed by this user */
+    auditActor?: AuditActor
+  },
 ): Promise<MonitoredApplication> {
   const updates: string[] = []
   const values: any[] = []
@@ -201,6 +218,11 @@ export async function updateMonitoredApplication(
     }
   }
 
+  if (data.notification_channel !== undefined) {
+    updates.push(`notification_channel = $${paramCount++}`)
+    values.push(data.notification_channel)
+  }
+
   if (data.reminder_enabled !== undefined) {
     updates.push(`reminder_enabled = $${paramCount++}`)
     values.push(data.reminder_enabled)
@@ -221,16 +243,45 @@ export async function updateMonitoredApplication(
   }
 
   values.push(id)
-  const result = await pool.query(
-    `UPDATE monitored_applications SET ${updates.join(', ')}, updated_at = CURRENT_TIMESTAMP WHERE id = $${paramCount} RETURNING *`,
-    values,
-  )
+  return withTransaction(async (client) => {
+    const previous = options?.auditActor
+      ? (
+          await client.query<MonitoredApplication>('SELECT * FROM monitored_applications WHERE id = $1 FOR UPDATE', [
+            id,
+          ])
+        ).rows[0]
+      : undefined
 
-  if (result.rows.length === 0) {
-    throw new Error('Application not found')
-  }
+    const result = await client.query<MonitoredApplication>(
+      `UPDATE monitored_applications SET ${updates.join(', ')}, updated_at = CURRENT_TIMESTAMP WHERE id = $${paramCount} RETURNING *`,
+      values,
+    )
 
-  return result.rows[0]
+    if (result.rows.length === 0) {
+      throw new Error('Application not found')
+    }
+
+    if (options?.auditActor && previous) {
+      const fields = Object.keys(data) as (keyof typeof data)[]
+      const pick = (app: MonitoredApplication) => Object.fromEntries(fields.map((field) => [field, app[field]]))
+      const diff = diffAuditState(pick(previous), pick(result.rows[0]))
+      if (diff.after) {
+        await recordAuditEvent(
+          {
+            actor: options.auditActor,
+            action: 'app.settings_update',
+            entityType: 'app',
+            entityId: id,
+            monitoredAppId: id,
+            ...diff,
+          },
+          client,
+        )
+      }
+    }
+
+    return result.rows[0]
+  })
 }
 
 /**
@@ -244,6 +295,7 @@ export async function updateMonitoredApplication(
 export async function updateMonitoredApplicationIdentity(
   id: number,
   identity: { team_slug: string; environment_name: string; app_name: string },
+  actor?: AuditActor,
 ): Promise<MonitoredApplication> {
   const conflict = await pool.query(
     'SELECT id FROM monitored_applications WHERE team_slug = $1 AND environment_name = $2 AND app_name = $3 AND id <> $4',
@@ -255,15 +307,39 @@ export async function updateMonitoredApplicationIdentity(
     )
   }
 
-  const result = await pool.query(
-    `UPDATE monitored_applications
-     SET team_slug = $1, environment_name = $2, app_name = $3, updated_at = CURRENT_TIMESTAMP
-     WHERE id = $4
-     RETURNING *`,
-    [identity.team_slug, identity.environment_name, identity.app_name, id],
-  )
-  if (result.rows.length === 0) {
-    throw new Error('Application not found')
-  }
-  return result.rows[0]
+  return withTransaction(async (client) => {
+    const previous = await client.query<MonitoredApplication>(
+      'SELECT * FROM monitored_applications WHERE id = $1 FOR UPDATE',
+      [id],
+    )
+    const result = await client.query<MonitoredApplication>(
+      `UPDATE monitored_applications
+       SET team_slug = $1, environment_name = $2, app_name = $3, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $4
+       RETURNING *`,
+      [identity.team_slug, identity.environment_name, identity.app_name, id],
+    )
+    if (result.rows.length === 0 || !previous.rows[0]) {
+      throw new Error('Application not found')
+    }
+    if (actor) {
+      const pick = ({ team_slug, environment_name, app_name }: MonitoredApplication) => ({
+        team_slug,
+        environment_name,
+        app_name,
+      })
+      await recordAuditEvent(
+        {
+          actor,
+          action: 'app.identity_update',
+          entityType: 'app',
+          entityId: id,
+          monitoredAppId: id,
+          ...diffAuditState(pick(previous.rows[0]), pick(result.rows[0])),
+        },
+        client,
+      )
+    }
+    return result.rows[0]
+  })
 }
@@ -0,0 +1,194 @@
+/**
+ * Teams and webhook notification endpoints, and their delivery history.
+ * Slack messages are recorded in slack_notifications instead.
+ */
+
+import { diffAuditState } from '~/lib/audit-events'
+import type { NotificationEndpoints, NotificationEventType } from '~/lib/notifications/events'
+import { type AuditActor, recordAuditEvent } from './audit-events.server'
+import { pool } from './connection.server'
+
+export interface NotificationDelivery {
+  id: number
+  monitored_app_id: number
+  deployment_id: number | null
+  channel: 'teams' | 'webhook'
+  event_type: NotificationEventType
+  target_host: string
+  payload: Record<string, unknown>
+  status: 'sent' | 'failed'
+  response_status: number | null
+  error: string | null
+  sent_at: Date
+  sent_by: string | null
+}
+
+// ============================================================================
+// Endpoints
+// ============================================================================
+
+export async function getNotificationEndpoints(monitoredAppId: number): Promise<NotificationEndpoints | null> {
+  const result = await pool.query<NotificationEndpoints>(
+    `SELECT teams_webhook_url, webhook_url, webhook_secret
+     FROM app_notification_endpoints
+     WHERE monitored_app_id = $1`,
+    [monitoredAppId],
+  )
+  return result.rows[0] || null
+}
+
+/**
+ * Show a URL without its credentials: the host and the last characters,
+ * enough to tell two URLs apart in the audit trail.
+ */
+function maskEndpointUrl(url: string | null): string | null {
+  if (!url) return null
+  try {
+    return `${new URL(url).host}/…${url.slice(-4)}`
+  } catch {
+    return `…${url.slice(-4)}`
+  }
+}
+
+export type NotificationEndpointsSummary = {
+  teams_webhook_url: string | null
+  webhook_url: string | null
+  webhook_secret_set: boolean
+}
+
+function describeEndpoints(endpoints: NotificationEndpoints | null): NotificationEndpointsSummary {
+  return {
+    teams_webhook_url: maskEndpointUrl(endpoints?.teams_webhook_url ?? null),
+    webhook_url: maskEndpointUrl(endpoints?.webhook_url ?? null),
+    webhook_secret_set: !!endpoints?.webhook_secret,
+  }
+}
+
+/**
+ * The endpoints with URLs masked and without the secret, safe to send to the browser
+ */
+export async function getNotificationEndpointsSummary(monitoredAppId: number): Promise<NotificationEndpointsSummary> {
+  return describeEndpoints(await getNotificationEndpoints(monitoredAppId))
+}
+
+/**
+ * Update the Teams and webhook endpoints of an app. Fields left undefined keep
+ * their current value. Recorded in the audit trail without the credentials.
+ */
+export async function updateNotificationEndpoints(
+  monitoredAppId: number,
+  data: Partial<NotificationEndpoints>,
+  actor: AuditActor,
+): Promise<NotificationEndpoints> {
+  const previous = await getNotificationEndpoints(monitoredAppId)
+  const next: NotificationEndpoints = {
+    teams_webhook_url:
+      data.teams_webhook_url !== undefined ? data.teams_webhook_url : (previous?.teams_webhook_url ?? null),
+    webhook_url: data.webhook_url !== undefined ? data.webhook_url : (previous?.webhook_url ?? null),
+    webhook_secret: data.webhook_secret !== undefined ? data.webhook_secret : (previous?.webhook_secret ?? null),
+  }
+
+  await pool.query(
+    `INSERT INTO app_notification_endpoints
+     (monitored_app_id, teams_webhook_url, webhook_url, webhook_secret, updated_by)
+     VALUES ($1, $2, $3, $4, $5)
+     ON CONFLICT (monitored_app_id) DO UPDATE SET
+       teams_webhook_url = EXCLUDED.teams_webhook_url,
+       webhook_url = EXCLUDED.webhook_url,
+       webhook_secret = EXCLUDED.webhook_secret,
+       updated_by = EXCLUDED.updated_by,
+       updated_at = NOW()`,
+    [monitoredAppId, next.teams_webhook_url, next.webhook_url, next.webhook_secret, actor.navIdent],
+  )
+
+  const diff = diffAuditState(describeEndpoints(previous), describeEndpoints(next))
+  const secretChanged = (previous?.webhook_secret ?? null) !== next.webhook_secret
+  if (diff.after || secretChanged) {
+    await recordAuditEvent({
+      actor,
+      action: 'app.settings_update',
+      entityType: 'app',
+      entityId: monitoredAppId,
+      monitoredAppId,
+      before: diff.before,
+      after: { ...diff.after, ...(secretChanged ? { webhook_secret_changed: true } : {}) },
+    })
+  }
+
+  return next
+}
+
+// ============================================================================
+// Delivery history
+// ============================================================================
+
+/**
+ * Record a delivery attempt
+ */
+export async function createNotificationDelivery(data: {
+  monitoredAppId: number
+  deploymentId: number | null
+  channel: NotificationDelivery['channel']
+  eventType: NotificationEventType
+  targetHost: string
+  payload: object
+  status: NotificationDelivery['status']
+  responseStatus?: number | null
+  error?: string | null
+  sentBy?: string | null
+}): Promise<NotificationDelivery> {
+  const result = await pool.query(
+    `INSERT INTO notification_deliveries
+     (monitored_app_id, deployment_id, channel, event_type, target_host, payload, status, response_status, error, sent_by)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+     RETURNING *`,
+    [
+      data.monitoredAppId,
+      data.deploymentId,
+      data.channel,
+      data.eventType,
+      data.targetHost,
+      JSON.stringify(data.payload),
+      data.status,
+      data.responseStatus ?? null,
+      data.error ?? null,
+      data.sentBy ?? null,
+    ],
+  )
+  return result.rows[0]
+}
+
+/**
+ * Get the delivery history for an app, newest first
+ */
+export async function getNotificationDeliveriesByApp(
+  monitoredAppId: number,
+  limit = 100,
+): Promise<(NotificationDelivery & { deployment_commit_sha: string | null })[]> {
+  const result = await pool.query(
+    `SELECT nd.*, d.commit_sha AS deployment_commit_sha
+     FROM notification_deliveries nd
+     LEFT JOIN deployments d ON nd.deployment_id = d.id
+     WHERE nd.monitored_app_id = $1
+     ORDER BY nd.sent_at DESC
+     LIMIT $2`,
+    [monitoredAppId, limit],
+  )
+  return result.rows
+}
+
+/**
+ * Whether an event about a deployment has already been delivered
+ */
+export async function hasDeliveredNotification(
+  deploymentId: number,
+  eventType: NotificationEventType,
+): Promise<boolean> {
+  const result = await pool.query(
+    `SELECT 1 FROM notification_deliveries
+     WHERE deployment_id = $1 AND event_type = $2 AND status = 'sent'
+     LIMIT 1`,
+    [deploymentId, eventType],
+  )
+  return result.rows.length > 0
+}
@@ -18,6 +18,27 @@ export async function createReportJob(
   return result.rows[0].job_id
 }
 
+/**
+ * Create a job for a consolidated (section or dev team) report.
+ * `scopeLabel` names the downloaded file since there is no monitored app.
+ */
+export async function createConsolidatedReportJob(
+  scopeLabel: string,
+  year: number,
+  periodType: ReportPeriodType,
+  periodLabel: string,
+  periodStart: Date,
+  periodEnd: Date,
+): Promise<string> {
+  const result = await pool.query(
+    `INSERT INTO report_jobs (scope_label, year, period_type, period_label, period_start, period_end, status)
+     VALUES ($1, $2, $3, $4, $5, $6, 'pending')
+     RETURNING job_id`,
+    [scopeLabel, year, periodType, periodLabel, periodStart, periodEnd],
+  )
+  return result.rows[0].job_id
+}
+
 export async function getReportJobStatus(
   jobId: string,
 ): Promise<{ status: string; error: string | null; created_at: Date; completed_at: Date | null } | null> {
@@ -34,9 +55,9 @@ export async function getReportJobWithPdf(
   jobId: string,
 ): Promise<{ status: string; pdf_data: Buffer | null; app_name: string; year: number } | null> {
   const result = await pool.query(
-    `SELECT rj.pdf_data, rj.status, ma.app_name, rj.year
+    `SELECT rj.pdf_data, rj.status, COALESCE(ma.app_name, rj.scope_label) AS app_name, rj.year
      FROM report_jobs rj
-     JOIN monitored_applications ma ON rj.monitored_app_id = ma.id
+     LEFT JOIN monitored_applications ma ON rj.monitored_app_id = ma.id
      WHERE rj.job_id = $1`,
     [jobId],
   )
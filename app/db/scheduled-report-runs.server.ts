@@ -0,0 +1,105 @@
+import type { ReportPeriodType } from '~/lib/report-periods'
+import { pool } from './connection.server'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ScheduledReportRunStatus = 'running' | 'generated' | 'blocked' | 'no_deployments' | 'failed'
+
+export interface ScheduledReportRun {
+  id: number
+  monitored_app_id: number
+  period_type: ReportPeriodType
+  period_start: Date
+  status: ScheduledReportRunStatus
+  pending_count: number | null
+  audit_report_id: number | null
+  error_message: string | null
+  blocked_notified_at: Date | null
+  last_attempt_at: Date
+  created_at: Date
+}
+
+// A run still marked 'running' after this long is assumed to belong to a crashed pod
+const STALE_RUN_MINUTES = 30
+
+// ============================================================================
+// Runs
+// ============================================================================
+
+/**
+ * Atomically claim a scheduled report run for an app and period.
+ *
+ * Returns the run if this caller should attempt generation: either the period
+ * has never been attempted, or the last attempt was blocked, empty or failed
+ * at least `retryIntervalMinutes` ago (deployments may since have been
+ * approved or synced). Returns null if another pod holds the run or the report
+ * was already generated.
+ */
+export async function claimScheduledReportRun(
+  monitoredAppId: number,
+  periodType: ReportPeriodType,
+  periodStart: Date,
+  retryIntervalMinutes: number,
+): Promise<ScheduledReportRun | null> {
+  const result = await pool.query<ScheduledReportRun>(
+    `INSERT INTO scheduled_report_runs (monitored_app_id, period_type, period_start, status)
+     VALUES ($1, $2, $3, 'running')
+     ON CONFLICT (monitored_app_id, period_type, period_start) DO UPDATE
+       SET status = 'running', error_message = NULL, last_attempt_at = NOW()
+       WHERE (scheduled_report_runs.status IN ('blocked', 'no_deployments', 'failed')
+              AND scheduled_report_runs.last_attempt_at < NOW() - INTERVAL '1 minute' * $4)
+          OR (scheduled_report_runs.status = 'running'
+              AND scheduled_report_runs.last_attempt_at < NOW() - INTERVAL '1 minute' * $5)
+     RETURNING *`,
+    [monitoredAppId, periodType, periodStart, retryIntervalMinutes, STALE_RUN_MINUTES],
+  )
+  return result.rows[0] || null
+}
+
+/**
+ * Record the outcome of a claimed run
+ */
+export async function finishScheduledReportRun(
+  runId: number,
+  outcome:
+    | { status: 'generated'; auditReportId: number }
+    | { status: 'blocked'; pendingCount: number }
+    | { status: 'no_deployments' }
+    | { status: 'failed'; errorMessage: string },
+): Promise<void> {
+  await pool.query(
+    `UPDATE scheduled_report_runs
+     SET status = $2, audit_report_id = $3, pending_count = $4, error_message = $5
+     WHERE id = $1`,
+    [
+      runId,
+      outcome.status,
+      outcome.status === 'generated' ? outcome.auditReportId : null,
+      outcome.status === 'blocked' ? outcome.pendingCount : null,
+      outcome.status === 'failed' ? outcome.errorMessage : null,
+    ],
+  )
+}
+
+/**
+ * Mark that the Slack message about a blocked report has been sent
+ */
+export async function markScheduledReportBlockedNotified(runId: number): Promise<void> {
+  await pool.query('UPDATE scheduled_report_runs SET blocked_notified_at = NOW() WHERE id = $1', [runId])
+}
+
+/**
+ * Get the latest scheduled runs for an app (for the admin page)
+ */
+export async function getScheduledReportRunsForApp(monitoredAppId: number, limit = 10): Promise<ScheduledReportRun[]> {
+  const result = await pool.query<ScheduledReportRun>(
+    `SELECT * FROM scheduled_report_runs
+     WHERE monitored_app_id = $1
+     ORDER BY period_start DESC, period_type
+     LIMIT $2`,
+    [monitoredAppId, limit],
+  )
+  return result.rows
+}
@@ -1,4 +1,6 @@
-import { pool } from './connection.server'
+import { diffAuditState } from '~/lib/audit-events'
+import { type AuditActor, recordAuditEvent } from './audit-events.server'
+import { pool, withTransaction } from './connection.server'
 
 /**
  * Advisory-lock namespace (first key for pg_advisory_xact_lock(int4, int4)).
@@ -114,17 +116,39 @@ export async function createSection(
   name: string,
   entraGroupAdmin?: string,
   entraGroupUser?: string,
+  actor?: AuditActor,
 ): Promise<Section> {
-  const result = await pool.query(
-    'INSERT INTO sections (slug, name, entra_group_admin, entra_group_user) VALUES ($1, $2, $3, $4) RETURNING *',
-    [slug, name, entraGroupAdmin ?? null, entraGroupUser ?? null],
-  )
-  return result.rows[0]
+  return withTransaction(async (client) => {
+    const result = await client.query<Section>(
+      'INSERT INTO sections (slug, name, entra_group_admin, entra_group_user) VALUES ($1, $2, $3, $4) RETURNING *',
+      [slug, name, entraGroupAdmin ?? null, entraGroupUser ?? null],
+    )
+    const section = result.rows[0]
+    if (actor) {
+      await recordAuditEvent(
+        {
+          actor,
+          action: 'section.create',
+          entityType: 'section',
+          entityId: section.id,
+          after: {
+            slug: section.slug,
+            name: section.name,
+            entra_group_admin: section.entra_group_admin,
+            entra_group_user: section.entra_group_user,
+          },
+        },
+        client,
+      )
+    }
+    return section
+  })
 }
 
 export async function updateSection(
   id: number,
   data: { name?: string; entra_group_admin?: string | null; entra_group_user?: string | null; is_active?: boolean },
+  actor?: AuditActor,
 ): Promise<Section | null> {
   const sets: string[] = []
   const values: unknown[] = []
@@ -150,8 +174,26 @@ export async function updateSection(
   if (sets.length === 0) return getSectionById(id)
 
   values.push(id)
-  const result = await pool.query(`UPDATE sections SET ${sets.join(', ')} WHERE id = $${idx} RETURNING *`, values)
-  return result.rows[0] ?? null
+  return withTransaction(async (client) => {
+    const previous = await client.query<Section>('SELECT * FROM sections WHERE id = $1 FOR UPDATE', [id])
+    const result = await client.query<Section>(
+      `UPDATE sections SET ${sets.join(', ')} WHERE id = $${idx} RETURNING *`,
+      values,
+    )
+    const section = result.rows[0]
+    if (actor && section && previous.rows[0]) {
+      const fields = Object.keys(data) as (keyof typeof data)[]
+      const pick = (row: Section) => Object.fromEntries(fields.map((field) => [field, row[field]]))
+      const diff = diffAuditState(pick(previous.rows[0]), pick(section))
+      if (diff.after) {
+        await recordAuditEvent(
+          { actor, action: 'section.update', entityType: 'section', entityId: id, ...diff },
+          client,
+        )
+      }
+    }
+    return section ?? null
+  })
 }
 
 /**
@@ -163,7 +205,12 @@ export async function updateSection(
  * untouched to avoid unnecessary row-version churn and preserve the
  * existing row.
  */
-export async function setSectionTeams(sectionId: number, teamSlugs: string[], deletedBy: string): Promise<void> {
+export async function setSectionTeams(
+  sectionId: number,
+  teamSlugs: string[],
+  deletedBy: string,
+  actor?: AuditActor,
+): Promise<void> {
   const client = await pool.connect()
   try {
     await client.query('BEGIN')
@@ -174,6 +221,11 @@ export async function setSectionTeams(sectionId: number, teamSlugs: string[], de
     // inserting their own → union of both sets active).
     await client.query('SELECT pg_advisory_xact_lock($1, $2)', [SECTION_TEAMS_LOCK_NAMESPACE, sectionId])
 
+    const previous = await client.query<{ team_slug: string }>(
+      'SELECT team_slug FROM section_teams WHERE section_id = $1 AND deleted_at IS NULL',
+      [sectionId],
+    )
+
     // Soft-delete active links no longer present in the new set.
     await client.query(
       `UPDATE section_teams
@@ -198,6 +250,22 @@ export async function setSectionTeams(sectionId: number, teamSlugs: string[], de
       )
     }
 
+    const before = previous.rows.map((row) => row.team_slug).sort()
+    const after = [...new Set(teamSlugs)].sort()
+    if (actor && before.join() !== after.join()) {
+      await recordAuditEvent(
+        {
+          actor,
+          action: 'section.teams_update',
+          entityType: 'section',
+          entityId: sectionId,
+          before: { team_slugs: before },
+          after: { team_slugs: after },
+        },
+        client,
+      )
+    }
+
     await client.query('COMMIT')
   } catch (e) {
     await client.query('ROLLBACK')
@@ -206,3 +274,65 @@ export async function setSectionTeams(sectionId: number, teamSlugs: string[], de
     client.release()
   }
 }
+
+/**
+ * Owning sections per monitored app. An app belongs to a section through its
+ * Nais team (section_teams), or through a dev team in the section that owns
+ * the app's Nais team, the app itself or the app's application group.
+ */
+const APP_OWNING_SECTIONS_SQL = `
+  SELECT ma.id AS monitored_app_id, st.section_id
+  FROM monitored_applications ma
+  JOIN section_teams st ON st.team_slug = ma.team_slug AND st.deleted_at IS NULL
+  UNION
+  SELECT ma.id, dt.section_id
+  FROM monitored_applications ma
+  JOIN dev_team_nais_teams dnt ON dnt.nais_team_slug = ma.team_slug AND dnt.deleted_at IS NULL
+  JOIN dev_teams dt ON dt.id = dnt.dev_team_id AND dt.is_active = true
+  UNION
+  SELECT dta.monitored_app_id, dt.section_id
+  FROM dev_team_applications dta
+  JOIN dev_teams dt ON dt.id = dta.dev_team_id AND dt.is_active = true
+  WHERE dta.deleted_at IS NULL
+  UNION
+  SELECT ma.id, dt.section_id
+  FROM monitored_applications ma
+  JOIN application_groups ag ON ag.id = ma.application_group_id AND ag.deleted_at IS NULL
+  JOIN dev_team_application_groups dtag ON dtag.application_group_id = ag.id AND dtag.deleted_at IS NULL
+  JOIN dev_teams dt ON dt.id = dtag.dev_team_id AND dt.is_active = true`
+
+/**
+ * Get the IDs of the active sections that own a monitored app.
+ */
+export async function getOwningSectionIdsForApp(monitoredAppId: number): Promise<number[]> {
+  const result = await pool.query<{ section_id: number }>(
+    `SELECT DISTINCT o.section_id
+     FROM (${APP_OWNING_SECTIONS_SQL}) o
+     JOIN sections s ON s.id = o.section_id AND s.is_active = true
+     WHERE o.monitored_app_id = $1
+     ORDER BY o.section_id`,
+    [monitoredAppId],
+  )
+  return result.rows.map((r) => r.section_id)
+}
+
+/**
+ * Get the IDs of monitored apps owned by any of the given sections,
+ * plus apps not owned by any active section.
+ */
+export async function getAppIdsVisibleToSections(sectionIds: number[]): Promise<number[]> {
+  const result = await pool.query<{ id: number }>(
+    `WITH owners AS (
+       SELECT o.monitored_app_id, o.section_id
+       FROM (${APP_OWNING_SECTIONS_SQL}) o
+       JOIN sections s ON s.id = o.section_id AND s.is_active = true
+     )
+     SELECT ma.id
+     FROM monitored_applications ma
+     WHERE EXISTS (SELECT 1 FROM owners WHERE owners.monitored_app_id = ma.id AND owners.section_id = ANY($1::int[]))
+        OR NOT EXISTS (SELECT 1 FROM owners WHERE owners.monitored_app_id = ma.id)
+     ORDER BY ma.id`,
+    [sectionIds],
+  )
+  return result.rows.map((r) => r.id)
+}
@@ -42,7 +42,8 @@ interface SlackInteraction {
  * Create a new Slack notification record
  */
 export async function createSlackNotification(data: {
-  deploymentId: number
+  /** Null for messages about several deployments, such as reminders */
+  deploymentId: number | null
   channelId: string
   messageTs: string
   messageBlocks: Record<string, unknown>[]
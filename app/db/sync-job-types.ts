@@ -5,6 +5,7 @@ export const SYNC_JOB_TYPES = [
   'reverify_app',
   'reverify_all',
   'cache_check_logs',
+  'branch_protection_snapshot',
 ] as const
 export type SyncJobType = (typeof SYNC_JOB_TYPES)[number]
 
@@ -15,6 +16,7 @@ export const SYNC_JOB_TYPE_LABELS: Record<SyncJobType, string> = {
   reverify_app: 'Reverifisering',
   reverify_all: 'Reverifisering (alle apper)',
   cache_check_logs: 'Cache sjekk-logger',
+  branch_protection_snapshot: 'Branch-beskyttelse',
 }
 
 export const SYNC_JOB_STATUSES = ['pending', 'running', 'completed', 'failed', 'cancelled'] as const
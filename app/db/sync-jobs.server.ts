@@ -1,5 +1,6 @@
 import { logger } from '~/lib/logger.server'
-import { pool } from './connection.server'
+import { type AuditActor, recordAuditEvent } from './audit-events.server'
+import { pool, withTransaction } from './connection.server'
 
 export {
   SYNC_JOB_STATUS_LABELS,
@@ -35,16 +36,34 @@ const APP_VERSION = typeof __BUILD_VERSION__ !== 'undefined' ? __BUILD_VERSION__
 /**
  * Release expired locks - should be called periodically
  */
-export async function releaseExpiredLocks(): Promise<number> {
-  const result = await pool.query(
-    `UPDATE sync_jobs 
-     SET status = 'failed', 
-         error = 'Lock timeout - automatically released',
-         completed_at = NOW()
-     WHERE status = 'running' AND lock_expires_at < NOW()
-     RETURNING id`,
-  )
-  return result.rowCount || 0
+export async function releaseExpiredLocks(actor?: AuditActor): Promise<number> {
+  return withTransaction(async (client) => {
+    const result = await client.query<Pick<SyncJob, 'id' | 'monitored_app_id' | 'locked_by' | 'error'>>(
+      `UPDATE sync_jobs 
+       SET status = 'failed', 
+           error = 'Lock timeout - automatically released',
+           completed_at = NOW()
+       WHERE status = 'running' AND lock_expires_at < NOW()
+       RETURNING id, monitored_app_id, locked_by, error`,
+    )
+    if (actor) {
+      for (const job of result.rows) {
+        await recordAuditEvent(
+          {
+            actor,
+            action: 'sync_job.release_expired',
+            entityType: 'sync_job',
+            entityId: job.id,
+            monitoredAppId: job.monitored_app_id,
+            before: { status: 'running', locked_by: job.locked_by },
+            after: { status: 'failed', error: job.error },
+          },
+          client,
+        )
+      }
+    }
+    return result.rowCount || 0
+  })
 }
 
 /**
@@ -119,20 +138,38 @@ export async function releaseSyncLock(
 /**
  * Clean up old sync jobs (keep last N per app)
  */
-export async function cleanupOldSyncJobs(keepPerApp: number = 50): Promise<number> {
-  const result = await pool.query(
-    `DELETE FROM sync_jobs 
-     WHERE id NOT IN (
-       SELECT id FROM (
-         SELECT id, ROW_NUMBER() OVER (PARTITION BY monitored_app_id ORDER BY created_at DESC) as rn
-         FROM sync_jobs
-       ) ranked
-       WHERE rn <= $1
-     )
-     RETURNING id`,
-    [keepPerApp],
-  )
-  return result.rowCount || 0
+export async function cleanupOldSyncJobs(keepPerApp: number = 50, actor?: AuditActor): Promise<number> {
+  return withTransaction(async (client) => {
+    const result = await client.query(
+      `DELETE FROM sync_jobs 
+       WHERE id NOT IN (
+         SELECT id FROM (
+           SELECT id, ROW_NUMBER() OVER (PARTITION BY monitored_app_id ORDER BY created_at DESC) as rn
+           FROM sync_jobs
+         ) ranked
+         WHERE rn <= $1
+       )
+       RETURNING id`,
+      [keepPerApp],
+    )
+    const deleted = result.rowCount || 0
+    if (actor && deleted > 0) {
+      // One event for the whole cleanup: the deleted rows are old job logs, not configuration
+      const remaining = await client.query<{ count: number }>('SELECT COUNT(*)::int AS count FROM sync_jobs')
+      await recordAuditEvent(
+        {
+          actor,
+          action: 'sync_job.cleanup',
+          entityType: 'sync_job',
+          entityId: 'all',
+          before: { job_count: remaining.rows[0].count + deleted },
+          after: { job_count: remaining.rows[0].count, keep_per_app: keepPerApp },
+        },
+        client,
+      )
+    }
+    return deleted
+  })
 }
 
 interface SyncJobWithApp extends SyncJob {
@@ -1,3 +1,4 @@
+import { type AuditActor, recordAuditEvent } from './audit-events.server'
 import { pool } from './connection.server'
 import type { DevTeamWithNaisTeams } from './dev-teams.server'
 
@@ -41,17 +42,33 @@ export async function getAllUserDevTeamMappings(): Promise<Map<string, number[]>
 /**
  * Set the dev teams for a user (replaces all existing).
  */
-export async function setUserDevTeams(navIdent: string, devTeamIds: number[]): Promise<void> {
+export async function setUserDevTeams(navIdent: string, devTeamIds: number[], actor?: AuditActor): Promise<void> {
   const client = await pool.connect()
   try {
     await client.query('BEGIN')
-    await client.query('DELETE FROM user_dev_team_preference WHERE nav_ident = $1', [navIdent])
+    const previous = await client.query<{ dev_team_id: number }>(
+      'DELETE FROM user_dev_team_preference WHERE nav_ident = $1 RETURNING dev_team_id',
+      [navIdent],
+    )
     for (const id of devTeamIds) {
       await client.query(
         'INSERT INTO user_dev_team_preference (nav_ident, dev_team_id, updated_at) VALUES ($1, $2, NOW())',
         [navIdent, id],
       )
     }
+    if (actor) {
+      await recordAuditEvent(
+        {
+          actor,
+          action: 'user_dev_teams.update',
+          entityType: 'user_dev_teams',
+          entityId: navIdent,
+          before: { dev_team_ids: previous.rows.map((row) => row.dev_team_id).sort((a, b) => a - b) },
+          after: { dev_team_ids: [...devTeamIds].sort((a, b) => a - b) },
+        },
+        client,
+      )
+    }
     await client.query('COMMIT')
   } catch (e) {
     await client.query('ROLLBACK')
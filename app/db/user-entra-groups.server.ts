@@ -0,0 +1,34 @@
+import { pool } from './connection.server'
+
+// Groups last stored per NAV-ident in this process, to skip writes on every request
+const storedGroups = new Map<string, string>()
+
+/**
+ * Store the Entra ID groups from a user's token. Writes only when the groups
+ * changed since they were last stored by this process.
+ */
+export async function saveUserEntraGroups(navIdent: string, entraGroups: string[]): Promise<void> {
+  const key = navIdent.toUpperCase()
+  const groups = [...entraGroups].sort()
+  const groupsKey = groups.join(',')
+  if (storedGroups.get(key) === groupsKey) return
+
+  await pool.query(
+    `INSERT INTO user_entra_groups (nav_ident, entra_groups, updated_at)
+     VALUES ($1, $2, NOW())
+     ON CONFLICT (nav_ident) DO UPDATE SET entra_groups = EXCLUDED.entra_groups, updated_at = NOW()`,
+    [key, groups],
+  )
+  storedGroups.set(key, groupsKey)
+}
+
+/**
+ * Get the Entra ID groups from a user's latest web login, or null if the user has never logged in.
+ */
+export async function getUserEntraGroups(navIdent: string): Promise<string[] | null> {
+  const result = await pool.query<{ entra_groups: string[] }>(
+    'SELECT entra_groups FROM user_entra_groups WHERE nav_ident = UPPER($1)',
+    [navIdent],
+  )
+  return result.rows[0]?.entra_groups ?? null
+}
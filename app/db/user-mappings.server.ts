@@ -1,6 +1,8 @@
+import { diffAuditState } from '~/lib/audit-events'
 import { isGitHubBot } from '~/lib/github-bots'
+import { type AuditActor, recordAuditEvent } from './audit-events.server'
 import { AUDIT_START_YEAR_FILTER } from './audit-start-year'
-import { pool } from './connection.server'
+import { pool, withTransaction } from './connection.server'
 
 export interface UserMapping {
   github_username: string
@@ -17,6 +19,17 @@ export interface UserMapping {
 // In-memory cache for user mappings
 const userMappingCache = new Map<string, UserMapping | null>()
 
+/** The fields shown in audit events; a soft-deleted mapping has no current state */
+function describeUserMapping(mapping: UserMapping | undefined): Record<string, unknown> {
+  if (!mapping || mapping.deleted_at) return {}
+  return {
+    display_name: mapping.display_name,
+    nav_email: mapping.nav_email,
+    nav_ident: mapping.nav_ident,
+    slack_member_id: mapping.slack_member_id,
+  }
+}
+
 /**
  * Clear the in-memory user mapping cache. Intended for tests; safe to call
  * in production but will cause a brief spike of DB hits as caches refill.
@@ -111,6 +124,24 @@ export async function getUserMappings(identifiers: string[]): Promise<Map<string
   return mappings
 }
 
+/**
+ * Resolve Nav email addresses to GitHub usernames (lowercased email → username).
+ * Used to map `Co-authored-by:` trailers to GitHub users.
+ *
+ * Includes soft-deleted mappings, since co-authorship is a historical fact.
+ */
+export async function getGitHubUsernamesByEmails(emails: string[]): Promise<Record<string, string>> {
+  if (emails.length === 0) return {}
+
+  const result = await pool.query<{ nav_email: string; github_username: string }>(
+    `SELECT LOWER(nav_email) AS nav_email, github_username FROM user_mappings
+     WHERE LOWER(nav_email) = ANY($1)`,
+    [emails.map((e) => e.toLowerCase())],
+  )
+
+  return Object.fromEntries(result.rows.map((row) => [row.nav_email, row.github_username]))
+}
+
 /**
  * Normalize a string value - trim whitespace, return null if empty
  */
@@ -132,20 +163,28 @@ function normalizeEmail(value: string | null | undefined): string | null {
 /**
  * Create or update a user mapping
  */
-export async function upsertUserMapping(params: {
-  githubUsername: string
-  displayName?: string | null
-  navEmail?: string | null
-  navIdent?: string | null
-  slackMemberId?: string | null
-}): Promise<UserMapping> {
+export async function upsertUserMapping(
+  params: {
+    githubUsername: string
+    displayName?: string | null
+    navEmail?: string | null
+    navIdent?: string | null
+    slackMemberId?: string | null
+  },
+  actor?: AuditActor,
+): Promise<UserMapping> {
   const githubUsername = normalize(params.githubUsername)
   if (!githubUsername) {
     throw new Error('GitHub username is required')
   }
 
-  const result = await pool.query(
-    `INSERT INTO user_mappings (github_username, display_name, nav_email, nav_ident, slack_member_id, updated_at)
+  const mapping = await withTransaction(async (client) => {
+    const previous = await client.query<UserMapping>(
+      'SELECT * FROM user_mappings WHERE github_username = $1 FOR UPDATE',
+      [githubUsername],
+    )
+    const result = await client.query<UserMapping>(
+      `INSERT INTO user_mappings (github_username, display_name, nav_email, nav_ident, slack_member_id, updated_at)
      VALUES ($1, $2, $3, $4, $5, NOW())
      ON CONFLICT (github_username) DO UPDATE SET
        display_name = COALESCE(EXCLUDED.display_name, user_mappings.display_name),
@@ -156,16 +195,27 @@ export async function upsertUserMapping(params: {
        deleted_at = NULL,
        deleted_by = NULL
      RETURNING *`,
-    [
-      githubUsername,
-      normalize(params.displayName),
-      normalizeEmail(params.navEmail),
-      normalize(params.navIdent),
-      normalize(params.slackMemberId),
-    ],
-  )
+      [
+        githubUsername,
+        normalize(params.displayName),
+        normalizeEmail(params.navEmail),
+        normalize(params.navIdent),
+        normalize(params.slackMemberId),
+      ],
+    )
+
+    if (actor) {
+      const diff = diffAuditState(describeUserMapping(previous.rows[0]), describeUserMapping(result.rows[0]))
+      if (diff.after) {
+        await recordAuditEvent(
+          { actor, action: 'user_mapping.update', entityType: 'user_mapping', entityId: githubUsername, ...diff },
+          client,
+        )
+      }
+    }
+    return result.rows[0]
+  })
 
-  const mapping = result.rows[0]
   userMappingCache.set(githubUsername.toLowerCase(), mapping)
   if (mapping.nav_ident) {
     userMappingCache.set(mapping.nav_ident.toLowerCase(), mapping)
@@ -181,14 +231,36 @@ export async function upsertUserMapping(params: {
  * suggestions treat the row as gone. `upsertUserMapping` will undelete on
  * conflict.
  */
-export async function deleteUserMapping(githubUsername: string, deletedBy: string | null = null): Promise<void> {
-  // Fetch from DB to reliably get nav_ident for cache cleanup
-  const result = await pool.query('SELECT nav_ident FROM user_mappings WHERE github_username = $1', [githubUsername])
-  const existing = result.rows[0]
-  await pool.query(
-    'UPDATE user_mappings SET deleted_at = NOW(), deleted_by = $2, updated_at = NOW() WHERE github_username = $1 AND deleted_at IS NULL',
-    [githubUsername, deletedBy],
-  )
+export async function deleteUserMapping(
+  githubUsername: string,
+  deletedBy: string | null = null,
+  actor?: AuditActor,
+): Promise<void> {
+  const existing = await withTransaction(async (client) => {
+    // Fetch from DB to reliably get nav_ident for cache cleanup
+    const result = await client.query<UserMapping>(
+      'SELECT * FROM user_mappings WHERE github_username = $1 FOR UPDATE',
+      [githubUsername],
+    )
+    const updated = await client.query(
+      'UPDATE user_mappings SET deleted_at = NOW(), deleted_by = $2, updated_at = NOW() WHERE github_username = $1 AND deleted_at IS NULL',
+      [githubUsername, deletedBy],
+    )
+    if (actor && updated.rowCount) {
+      await recordAuditEvent(
+        {
+          actor,
+          action: 'user_mapping.delete',
+          entityType: 'user_mapping',
+          entityId: githubUsername,
+          before: describeUserMapping(result.rows[0]),
+          after: { deleted_by: deletedBy },
+        },
+        client,
+      )
+    }
+    return result.rows[0]
+  })
   // Drop cached entries so the next cached "current state" lookup by GitHub
   // username or nav-ident re-queries and respects the deleted_at filter.
   // Display-name lookups will repopulate the cache from the soft-deleted row.
@@ -50,6 +50,47 @@ export async function getDeploymentsForDiffComputation(
   return result.rows
 }
 
+/**
+ * Get deployments created within [from, to) for policy simulation, newest first.
+ * Uses the same filters as getDeploymentsForDiffComputation.
+ */
+export async function getDeploymentsForPolicySimulation(
+  monitoredAppId: number,
+  from: Date,
+  to: Date,
+  limit = 500,
+): Promise<Array<VerificationDiffDeployment & { title: string | null }>> {
+  const result = await pool.query(
+    `SELECT
+        d.id,
+        d.commit_sha,
+        d.four_eyes_status,
+        d.github_pr_number,
+        d.environment_name,
+        d.created_at,
+        d.title,
+        d.detected_github_owner,
+        d.detected_github_repo_name,
+        ma.default_branch,
+        ma.audit_start_year
+      FROM deployments d
+      JOIN monitored_applications ma ON d.monitored_app_id = ma.id
+      WHERE d.monitored_app_id = $1
+        AND d.created_at >= $2
+        AND d.created_at < $3
+        AND d.commit_sha IS NOT NULL
+        AND d.detected_github_owner IS NOT NULL
+        AND d.detected_github_repo_name IS NOT NULL
+        AND d.commit_sha !~ '^refs/'
+        AND LENGTH(d.commit_sha) >= 7
+        AND ${AUDIT_START_YEAR_FILTER}
+      ORDER BY d.created_at DESC
+      LIMIT $4`,
+    [monitoredAppId, from, to, limit],
+  )
+  return result.rows
+}
+
 /**
  * Get the previous deployment for a given deployment in the same app/env.
  *
@@ -3,8 +3,11 @@
  * This is imported from root.tsx and runs once when the server starts
  */
 
+import { startDeviationEscalationScheduler } from './lib/deviation-escalation.server'
+import { startEventDispatcher } from './lib/event-dispatcher.server'
 import { logger } from './lib/logger.server'
 import { startReminderScheduler } from './lib/reminder-scheduler.server'
+import { startReportScheduler } from './lib/report-scheduler.server'
 import { registerShutdownHandlers } from './lib/shutdown.server'
 import { isSlackConfigured, startSlackConnection } from './lib/slack/client.server'
 import { startPeriodicSync } from './lib/sync'
@@ -24,6 +27,10 @@ export function initializeServer(): void {
   if (enablePeriodicSync) {
     logger.info('🚀 Initializing server-side services...')
     startPeriodicSync()
+    // Scheduled audit reports depend on synced and verified deployments
+    startReportScheduler()
+    // Deliver status changes and deviations to event stream subscribers
+    startEventDispatcher()
   } else {
     logger.info('⏸️ Periodic sync disabled (set ENABLE_PERIODIC_SYNC=true to enable)')
   }
@@ -34,8 +41,9 @@ export function initializeServer(): void {
     startSlackConnection().catch((err) => {
       logger.error('Failed to start Slack connection:', err)
     })
-    // Start reminder scheduler alongside Slack
+    // Start reminder and deviation escalation schedulers alongside Slack
     startReminderScheduler()
+    startDeviationEscalationScheduler()
   } else {
     logger.info('💬 Slack not configured (set SLACK_BOT_TOKEN and SLACK_APP_TOKEN to enable)')
   }
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest'
+import { type AccessScope, canAdministerApp, canViewApp } from '../access-policy.server'
+
+/**
+ * Tests for section-scoped access to monitored applications.
+ *
+ * WHY: Manual approvals and deviations are audit evidence. A user who can
+ * approve deployments for another section's apps undermines the separation
+ * between sections, while a rule that is too strict locks users out of apps
+ * nobody has claimed yet.
+ */
+
+const viewer: AccessScope = { role: 'user', sections: [{ id: 1, role: 'user' }] }
+const sectionAdmin: AccessScope = { role: 'admin', sections: [{ id: 1, role: 'admin' }] }
+const multiSection: AccessScope = {
+  role: 'admin',
+  sections: [
+    { id: 1, role: 'user' },
+    { id: 2, role: 'admin' },
+  ],
+}
+const unrestrictedAdmin: AccessScope = { role: 'admin', sections: [] }
+
+describe('canViewApp', () => {
+  it('allows apps owned by one of the user sections', () => {
+    expect(canViewApp(viewer, [1])).toBe(true)
+    expect(canViewApp(viewer, [3, 1])).toBe(true)
+  })
+
+  it('denies apps owned only by other sections', () => {
+    expect(canViewApp(viewer, [2])).toBe(false)
+  })
+
+  it('allows apps without an owning section', () => {
+    expect(canViewApp(viewer, [])).toBe(true)
+  })
+
+  it('does not restrict users without sections', () => {
+    expect(canViewApp(unrestrictedAdmin, [2])).toBe(true)
+  })
+})
+
+describe('canAdministerApp', () => {
+  it('requires admin role in an owning section', () => {
+    expect(canAdministerApp(sectionAdmin, [1])).toBe(true)
+    expect(canAdministerApp(viewer, [1])).toBe(false)
+  })
+
+  it('does not let admin rights in one section apply to another', () => {
+    expect(canAdministerApp(sectionAdmin, [2])).toBe(false)
+    expect(canAdministerApp(multiSection, [1])).toBe(false)
+    expect(canAdministerApp(multiSection, [2])).toBe(true)
+  })
+
+  it('falls back to the global role for apps without an owning section', () => {
+    expect(canAdministerApp(sectionAdmin, [])).toBe(true)
+    expect(canAdministerApp(viewer, [])).toBe(false)
+  })
+
+  it('uses the global role for users without sections', () => {
+    expect(canAdministerApp(unrestrictedAdmin, [2])).toBe(true)
+    expect(canAdministerApp({ role: 'user', sections: [] }, [2])).toBe(false)
+  })
+})
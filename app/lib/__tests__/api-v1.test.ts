@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest'
+import { getApprovers } from '../api/mappers'
+import { OPENAPI_DOCUMENT } from '../api/openapi'
+import { decodeCursor, encodeCursor, MAX_PAGE_LIMIT, parsePageParams, toPage } from '../api/pagination.server'
+
+/**
+ * Tests for the public /api/v1/ helpers.
+ *
+ * WHY: External consumers (KISS, dashboards) page through deployments with
+ * the cursor we hand out. A cursor that skips or repeats rows, or a limit
+ * that is not enforced, breaks their integration silently.
+ */
+
+describe('cursor encoding', () => {
+  it('round-trips a keyset cursor', () => {
+    const cursor = { createdAt: '2026-03-01T12:00:00.123456Z', id: 42 }
+    expect(decodeCursor(encodeCursor(cursor))).toEqual(cursor)
+  })
+
+  it('rejects malformed cursors', () => {
+    expect(decodeCursor('not-a-cursor')).toBeNull()
+    expect(decodeCursor(Buffer.from(JSON.stringify({ id: 'x' })).toString('base64url'))).toBeNull()
+    expect(
+      decodeCursor(Buffer.from(JSON.stringify({ id: 1, createdAt: 'yesterday' })).toString('base64url')),
+    ).toBeNull()
+  })
+})
+
+describe('parsePageParams', () => {
+  it('uses the default limit without a cursor', () => {
+    expect(parsePageParams(new URL('http://localhost/api/v1/apps'))).toEqual({ cursor: null, limit: 50 })
+  })
+
+  it('throws a 400 response for an invalid limit or cursor', () => {
+    for (const query of [`limit=${MAX_PAGE_LIMIT + 1}`, 'limit=0', 'limit=abc', 'cursor=%%%']) {
+      try {
+        parsePageParams(new URL(`http://localhost/api/v1/apps?${query}`))
+        expect.unreachable(`expected ${query} to be rejected`)
+      } catch (error) {
+        expect((error as Response).status).toBe(400)
+      }
+    }
+  })
+
+  it('throws a 400 response for a cursor without createdAt when the endpoint orders by it', () => {
+    const url = new URL(`http://localhost/api/v1/apps?cursor=${encodeCursor({ id: 1 })}`)
+    expect(parsePageParams(url).cursor).toEqual({ id: 1 })
+    try {
+      parsePageParams(url, { orderedByCreatedAt: true })
+      expect.unreachable('expected the cursor to be rejected')
+    } catch (error) {
+      expect((error as Response).status).toBe(400)
+    }
+  })
+})
+
+describe('toPage', () => {
+  const rows = [{ id: 3 }, { id: 2 }, { id: 1 }]
+
+  it('returns a cursor for the last item when more rows exist', () => {
+    const page = toPage(rows, 2, (row) => ({ id: row.id }))
+    expect(page.items).toEqual([{ id: 3 }, { id: 2 }])
+    expect(decodeCursor(page.nextCursor as string)).toEqual({ id: 2 })
+  })
+
+  it('returns no cursor on the last page', () => {
+    expect(toPage(rows, 3, (row) => ({ id: row.id })).nextCursor).toBeNull()
+  })
+})
+
+describe('getApprovers', () => {
+  it('only includes reviewers who approved', () => {
+    const approvers = getApprovers({
+      reviewers: [
+        { username: 'alice', avatar_url: '', state: 'APPROVED', submitted_at: '2026-03-01T10:00:00Z' },
+        { username: 'bob', avatar_url: '', state: 'COMMENTED', submitted_at: '2026-03-01T11:00:00Z' },
+      ],
+    })
+    expect(approvers).toEqual([{ username: 'alice', approvedAt: '2026-03-01T10:00:00Z' }])
+  })
+
+  it('returns no approvers without PR data', () => {
+    expect(getApprovers(null)).toEqual([])
+  })
+})
+
+describe('OpenAPI document', () => {
+  it('documents every /api/v1/ data endpoint', () => {
+    expect(Object.keys(OPENAPI_DOCUMENT.paths).sort()).toEqual([
+      '/apps',
+      '/apps/{team}/{env}/{app}/deployments',
+      '/apps/{team}/{env}/{app}/deployments/{id}',
+      '/apps/{team}/{env}/{app}/deviations',
+      '/apps/{team}/{env}/{app}/verification-summary',
+    ])
+  })
+})
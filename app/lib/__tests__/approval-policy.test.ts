@@ -0,0 +1,216 @@
+import { describe, expect, it } from 'vitest'
+import type { PrCommit, PrReview, ResolvedApprovalPolicy, VerificationInput } from '../verification/types'
+import { satisfiesApprovalPolicy, verifyDeployment, verifyFourEyesFromPrData } from '../verification/verify'
+
+/**
+ * Tests for per-app approval policies (minimum approvers, required teams).
+ */
+
+function makePrCommit(overrides: Partial<PrCommit> = {}): PrCommit {
+  return {
+    sha: 'commit-1',
+    message: 'Fix beregning',
+    authorUsername: 'developer-a',
+    authorDate: '2026-03-01T10:00:00Z',
+    committerDate: '2026-03-01T10:00:00Z',
+    isMergeCommit: false,
+    parentShas: [],
+    ...overrides,
+  }
+}
+
+function makePrReview(overrides: Partial<PrReview> = {}): PrReview {
+  return {
+    id: 1,
+    username: 'reviewer-b',
+    state: 'APPROVED',
+    submittedAt: '2026-03-01T12:00:00Z',
+    body: null,
+    ...overrides,
+  }
+}
+
+function makePolicy(overrides: Partial<ResolvedApprovalPolicy> = {}): ResolvedApprovalPolicy {
+  return { minApprovals: 1, requiredTeams: [], teamMembers: {}, ...overrides }
+}
+
+describe('satisfiesApprovalPolicy', () => {
+  it('accepts any approval without a policy', () => {
+    expect(satisfiesApprovalPolicy(['reviewer-b'], ['developer-a'], undefined)).toBe(true)
+  })
+
+  it('accepts any approval with the default policy', () => {
+    expect(satisfiesApprovalPolicy(['developer-a'], ['developer-a'], makePolicy())).toBe(true)
+  })
+
+  it('requires the minimum number of distinct approvers', () => {
+    const policy = makePolicy({ minApprovals: 2 })
+    expect(satisfiesApprovalPolicy(['reviewer-b'], ['developer-a'], policy)).toBe(false)
+    expect(satisfiesApprovalPolicy(['reviewer-b', 'Reviewer-B'], ['developer-a'], policy)).toBe(false)
+    expect(satisfiesApprovalPolicy(['reviewer-b', 'reviewer-c'], ['developer-a'], policy)).toBe(true)
+  })
+
+  it('does not count approvals from commit authors', () => {
+    const policy = makePolicy({ minApprovals: 2 })
+    expect(satisfiesApprovalPolicy(['reviewer-b', 'developer-a'], ['developer-a'], policy)).toBe(false)
+  })
+
+  it('requires an approver from each required team', () => {
+    const policy = makePolicy({
+      requiredTeams: ['team-betaling', 'team-sikkerhet'],
+      teamMembers: { 'team-betaling': ['reviewer-b'], 'team-sikkerhet': ['Reviewer-C'] },
+    })
+    expect(satisfiesApprovalPolicy(['reviewer-b'], ['developer-a'], policy)).toBe(false)
+    expect(satisfiesApprovalPolicy(['reviewer-b', 'reviewer-c'], ['developer-a'], policy)).toBe(true)
+  })
+
+  it('fails closed when team members are unknown', () => {
+    const policy = makePolicy({ requiredTeams: ['team-betaling'] })
+    expect(satisfiesApprovalPolicy(['reviewer-b'], ['developer-a'], policy)).toBe(false)
+  })
+})
+
+describe('verifyFourEyesFromPrData with approval policy', () => {
+  it('returns insufficient_approvals when too few approvers after last commit', () => {
+    const result = verifyFourEyesFromPrData({
+      reviewers: [makePrReview()],
+      commits: [makePrCommit()],
+      baseBranch: 'main',
+      approvalPolicy: makePolicy({ minApprovals: 2 }),
+    })
+
+    expect(result).toEqual({ hasFourEyes: false, reason: 'insufficient_approvals' })
+  })
+
+  it('approves when the policy is satisfied', () => {
+    const result = verifyFourEyesFromPrData({
+      reviewers: [makePrReview(), makePrReview({ id: 2, username: 'reviewer-c' })],
+      commits: [makePrCommit()],
+      baseBranch: 'main',
+      approvalPolicy: makePolicy({ minApprovals: 2 }),
+    })
+
+    expect(result.hasFourEyes).toBe(true)
+  })
+
+  it('applies the policy to the merged-by fallback', () => {
+    const result = verifyFourEyesFromPrData({
+      reviewers: [makePrReview({ submittedAt: '2026-03-01T09:00:00Z' })],
+      commits: [makePrCommit()],
+      baseBranch: 'main',
+      mergedBy: 'reviewer-c',
+      approvalPolicy: makePolicy({ requiredTeams: ['team-betaling'], teamMembers: { 'team-betaling': ['someone'] } }),
+    })
+
+    expect(result).toEqual({ hasFourEyes: false, reason: 'insufficient_approvals' })
+  })
+})
+
+describe('verifyDeployment with approval policy', () => {
+  const commit = makePrCommit({ sha: 'deploy-sha' })
+
+  const input: VerificationInput = {
+    deploymentId: 1,
+    commitSha: 'deploy-sha',
+    repository: 'navikt/betaling',
+    environmentName: 'prod-gcp',
+    baseBranch: 'main',
+    repositoryStatus: 'active',
+    commitOnBaseBranch: true,
+    auditStartYear: 2026,
+    implicitApprovalSettings: { mode: 'off' },
+    previousDeployment: { id: 0, commitSha: 'previous-sha', createdAt: '2026-02-28T10:00:00Z' },
+    deployedPr: {
+      number: 7,
+      url: 'https://github.com/navikt/betaling/pull/7',
+      metadata: {
+        number: 7,
+        title: 'Fix beregning',
+        body: null,
+        state: 'closed',
+        merged: true,
+        draft: false,
+        createdAt: '2026-03-01T09:00:00Z',
+        updatedAt: '2026-03-01T13:00:00Z',
+        mergedAt: '2026-03-01T13:00:00Z',
+        closedAt: '2026-03-01T13:00:00Z',
+        baseBranch: 'main',
+        baseSha: 'previous-sha',
+        headBranch: 'fix',
+        headSha: 'deploy-sha',
+        mergeCommitSha: 'deploy-sha',
+        author: { username: 'developer-a' },
+        mergedBy: { username: 'developer-a' },
+        labels: [],
+        commitsCount: 1,
+        changedFiles: 1,
+        additions: 1,
+        deletions: 1,
+      },
+      reviews: [makePrReview()],
+      commits: [commit],
+    },
+    commitsBetween: [
+      {
+        sha: commit.sha,
+        message: commit.message,
+        authorUsername: commit.authorUsername,
+        authorDate: commit.authorDate,
+        isMergeCommit: false,
+        parentShas: [],
+        htmlUrl: 'https://github.com/navikt/betaling/commit/deploy-sha',
+        pr: null,
+      },
+    ],
+    dataFreshness: { deployedPrFetchedAt: null, commitsFetchedAt: null, schemaVersion: 3 },
+  }
+
+  it('approves a single approval without a policy', () => {
+    expect(verifyDeployment(input).status).toBe('approved')
+  })
+
+  it('flags commits with insufficient_approvals when the policy is not met', () => {
+    const result = verifyDeployment({ ...input, approvalPolicy: makePolicy({ minApprovals: 2 }) })
+
+    expect(result.status).toBe('unverified_commits')
+    expect(result.unverifiedCommits).toHaveLength(1)
+    expect(result.unverifiedCommits[0].reason).toBe('insufficient_approvals')
+  })
+
+  describe('with implicit approval', () => {
+    const implicitInput: VerificationInput = {
+      ...input,
+      implicitApprovalSettings: { mode: 'all' },
+      deployedPr: input.deployedPr && {
+        ...input.deployedPr,
+        metadata: { ...input.deployedPr.metadata, mergedBy: { username: 'merger-c' } },
+        reviews: [],
+      },
+    }
+
+    it('counts the merger as an approver without a stricter policy', () => {
+      expect(verifyDeployment(implicitInput).status).toBe('implicitly_approved')
+    })
+
+    it('does not bypass the minimum number of approvers', () => {
+      const result = verifyDeployment({ ...implicitInput, approvalPolicy: makePolicy({ minApprovals: 2 }) })
+
+      expect(result.status).toBe('unverified_commits')
+    })
+
+    it('requires required teams among the merger and reviewers', () => {
+      const approvalPolicy = makePolicy({
+        requiredTeams: ['team-betaling'],
+        teamMembers: { 'team-betaling': ['merger-c'] },
+      })
+
+      expect(verifyDeployment({ ...implicitInput, approvalPolicy }).status).toBe('implicitly_approved')
+      expect(
+        verifyDeployment({
+          ...implicitInput,
+          approvalPolicy: { ...approvalPolicy, teamMembers: { 'team-betaling': ['someone-else'] } },
+        }).status,
+      ).toBe('unverified_commits')
+    })
+  })
+})
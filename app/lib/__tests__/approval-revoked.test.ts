@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest'
+import type { PrCommit, PrReview } from '../verification/types'
+import { getFinalReviewStates, verifyFourEyesFromPrData } from '../verification/verify'
+
+/**
+ * Tests for final review state resolution and dismissed/stale approvals.
+ *
+ * The reviews snapshot holds the full review history. Only each reviewer's
+ * last verdict (APPROVED, CHANGES_REQUESTED, DISMISSED) counts — an approval
+ * that was later dismissed or followed by a change request is withdrawn.
+ */
+
+const commit: PrCommit = {
+  sha: 'commit-1',
+  message: 'Fix beregning',
+  authorUsername: 'developer-a',
+  authorDate: '2026-03-01T10:00:00Z',
+  committerDate: '2026-03-01T10:00:00Z',
+  isMergeCommit: false,
+  parentShas: [],
+}
+
+function makeReview(id: number, username: string, state: PrReview['state'], submittedAt: string): PrReview {
+  return { id, username, state, submittedAt, body: null }
+}
+
+describe('getFinalReviewStates', () => {
+  it('keeps an approval when the reviewer later only comments', () => {
+    const result = getFinalReviewStates([
+      makeReview(1, 'reviewer-b', 'APPROVED', '2026-03-01T12:00:00Z'),
+      makeReview(2, 'reviewer-b', 'COMMENTED', '2026-03-01T13:00:00Z'),
+    ])
+
+    expect(result).toEqual([makeReview(1, 'reviewer-b', 'APPROVED', '2026-03-01T12:00:00Z')])
+  })
+
+  it('uses a later change request over an earlier approval', () => {
+    const result = getFinalReviewStates([
+      makeReview(1, 'reviewer-b', 'APPROVED', '2026-03-01T12:00:00Z'),
+      makeReview(2, 'reviewer-b', 'CHANGES_REQUESTED', '2026-03-01T13:00:00Z'),
+    ])
+
+    expect(result.map((r) => r.state)).toEqual(['CHANGES_REQUESTED'])
+  })
+
+  it('uses a later approval over an earlier change request', () => {
+    const result = getFinalReviewStates([
+      makeReview(2, 'reviewer-b', 'APPROVED', '2026-03-01T14:00:00Z'),
+      makeReview(1, 'reviewer-b', 'CHANGES_REQUESTED', '2026-03-01T13:00:00Z'),
+    ])
+
+    expect(result.map((r) => r.state)).toEqual(['APPROVED'])
+  })
+
+  it('returns one review per reviewer', () => {
+    const result = getFinalReviewStates([
+      makeReview(1, 'reviewer-b', 'COMMENTED', '2026-03-01T11:00:00Z'),
+      makeReview(2, 'reviewer-c', 'APPROVED', '2026-03-01T12:00:00Z'),
+      makeReview(3, 'Reviewer-B', 'COMMENTED', '2026-03-01T13:00:00Z'),
+    ])
+
+    expect(result.map((r) => r.id)).toEqual([3, 2])
+  })
+})
+
+describe('verifyFourEyesFromPrData with withdrawn approvals', () => {
+  it('returns approval_revoked when the only approval was dismissed', () => {
+    const result = verifyFourEyesFromPrData({
+      reviewers: [makeReview(1, 'reviewer-b', 'DISMISSED', '2026-03-01T12:00:00Z')],
+      commits: [commit],
+      baseBranch: 'main',
+    })
+
+    expect(result).toEqual({ hasFourEyes: false, reason: 'approval_revoked' })
+  })
+
+  it('returns approval_revoked when every approver later requested changes', () => {
+    const result = verifyFourEyesFromPrData({
+      reviewers: [
+        makeReview(1, 'reviewer-b', 'APPROVED', '2026-03-01T12:00:00Z'),
+        makeReview(2, 'reviewer-c', 'DISMISSED', '2026-03-01T12:30:00Z'),
+        makeReview(3, 'reviewer-b', 'CHANGES_REQUESTED', '2026-03-01T13:00:00Z'),
+      ],
+      commits: [commit],
+      baseBranch: 'main',
+      mergedBy: 'reviewer-b',
+    })
+
+    expect(result).toEqual({ hasFourEyes: false, reason: 'approval_revoked' })
+  })
+
+  it('approves when another approver still stands', () => {
+    const result = verifyFourEyesFromPrData({
+      reviewers: [
+        makeReview(1, 'reviewer-b', 'APPROVED', '2026-03-01T12:00:00Z'),
+        makeReview(2, 'reviewer-c', 'APPROVED', '2026-03-01T12:30:00Z'),
+        makeReview(3, 'reviewer-b', 'CHANGES_REQUESTED', '2026-03-01T13:00:00Z'),
+      ],
+      commits: [commit],
+      baseBranch: 'main',
+    })
+
+    expect(result.hasFourEyes).toBe(true)
+    expect(result.reason).toContain('reviewer-c')
+  })
+
+  it('keeps no_approved_reviews when nobody ever approved', () => {
+    const result = verifyFourEyesFromPrData({
+      reviewers: [makeReview(1, 'reviewer-b', 'CHANGES_REQUESTED', '2026-03-01T12:00:00Z')],
+      commits: [commit],
+      baseBranch: 'main',
+    })
+
+    expect(result).toEqual({ hasFourEyes: false, reason: 'no_approved_reviews' })
+  })
+})
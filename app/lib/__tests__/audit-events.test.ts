@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest'
+import {
+  AUDIT_EVENT_CSV_COLUMNS,
+  diffAuditState,
+  isAuditAction,
+  parseAuditEventFilters,
+  toAuditEventCsvRow,
+} from '../audit-events'
+
+/**
+ * Tests for the audit trail helpers.
+ *
+ * WHY: Auditors ask "who changed this and when". Events that include
+ * unchanged fields hide the actual change, and filters that silently drop or
+ * shift the period return the wrong set of events in the CSV export.
+ */
+
+describe('diffAuditState', () => {
+  it('keeps only the fields that changed', () => {
+    expect(
+      diffAuditState(
+        { default_branch: 'main', reminder_days: ['mon'], audit_start_year: 2025 },
+        { default_branch: 'master', reminder_days: ['mon'], audit_start_year: 2025 },
+      ),
+    ).toEqual({ before: { default_branch: 'main' }, after: { default_branch: 'master' } })
+  })
+
+  it('treats missing and null values as equal', () => {
+    expect(diffAuditState({ slack_channel_id: null }, {})).toEqual({ before: null, after: null })
+  })
+})
+
+describe('parseAuditEventFilters', () => {
+  it('parses known filters and makes the end date inclusive', () => {
+    const filters = parseAuditEventFilters(
+      new URLSearchParams('actor=A123456&action=deployment.manual_approval&from=2026-03-01&to=2026-03-31'),
+    )
+    expect(filters).toEqual({
+      actor: 'A123456',
+      action: 'deployment.manual_approval',
+      from: new Date('2026-03-01T00:00:00Z'),
+      to: new Date('2026-04-01T00:00:00Z'),
+    })
+  })
+
+  it('ignores unknown actions, entity types and malformed dates', () => {
+    expect(
+      parseAuditEventFilters(new URLSearchParams('action=toString&entity_type=user&from=01.03.2026&app_id=abc')),
+    ).toEqual({})
+    expect(isAuditAction('constructor')).toBe(false)
+  })
+})
+
+describe('toAuditEventCsvRow', () => {
+  it('serializes state as JSON in column order', () => {
+    const row = toAuditEventCsvRow({
+      id: '7',
+      created_at: new Date('2026-03-02T10:00:00Z'),
+      actor_nav_ident: 'A123456',
+      actor_name: 'Ola Nordmann',
+      action: 'deployment.manual_approval',
+      entity_type: 'deployment',
+      entity_id: '42',
+      monitored_app_id: 3,
+      before_state: { four_eyes_status: 'direct_push' },
+      after_state: null,
+      trace_id: null,
+    })
+    expect(row).toHaveLength(AUDIT_EVENT_CSV_COLUMNS.length)
+    expect(row).toEqual([
+      7,
+      '2026-03-02T10:00:00.000Z',
+      'A123456',
+      'Ola Nordmann',
+      'deployment.manual_approval',
+      'deployment',
+      '42',
+      3,
+      '{"four_eyes_status":"direct_push"}',
+      null,
+      null,
+    ])
+  })
+})
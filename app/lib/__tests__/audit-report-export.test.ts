@@ -0,0 +1,211 @@
+import { inflateRawSync } from 'node:zlib'
+import { describe, expect, it } from 'vitest'
+import type { AuditReportData } from '~/db/audit-reports.server'
+import {
+  type AuditReportExportMetadata,
+  buildAuditReportCsvZip,
+  buildAuditReportJsonExport,
+  buildAuditReportXlsx,
+  getAuditReportExportTables,
+  toCsv,
+} from '../audit-report-export.server'
+import { calculateContentHash } from '../audit-report-signing.server'
+import { columnName } from '../xlsx.server'
+import { crc32 } from '../zip.server'
+
+/**
+ * Tests for JSON/CSV/XLSX exports of audit reports, and the ZIP/XLSX writers behind them.
+ */
+
+const reportData: AuditReportData = {
+  deployments: [
+    {
+      id: 1,
+      nais_deployment_id: 'nais-1',
+      title: 'Fiks "beregning", del 2',
+      date: '2026-03-01T10:00:00Z',
+      commit_sha: 'abc123',
+      method: 'pr',
+      deployer: 'developer-a',
+      approver: 'reviewer-b',
+      pr_number: 42,
+    },
+  ],
+  manual_approvals: [],
+  contributors: [
+    { github_username: 'developer-a', display_name: 'Ærlig Utvikler', nav_ident: null, deployment_count: 1 },
+  ],
+  reviewers: [{ github_username: 'reviewer-b', display_name: null, review_count: 1 }],
+  legacy_count: 0,
+  deviations: [],
+  unverified_commit_deployments: [
+    {
+      deployment_id: 1,
+      date: '2026-03-01T10:00:00Z',
+      commit_sha: 'abc123',
+      title: 'Fiks',
+      deployer: 'developer-a',
+      four_eyes_status: 'approved',
+      commits: [
+        {
+          sha: 'c1',
+          message: 'first',
+          author: 'x',
+          date: '2026-02-28',
+          html_url: 'https://github.com/x',
+          pr_number: null,
+          reason: 'no_pr',
+        },
+        {
+          sha: 'c2',
+          message: 'second\nline',
+          author: 'y',
+          date: '2026-02-28',
+          html_url: 'https://github.com/y',
+          pr_number: 7,
+          reason: 'no_pr',
+        },
+      ],
+    },
+  ],
+}
+
+const metadata: AuditReportExportMetadata = {
+  report_id: 'AUDIT-2026-pensjon-app-prod-gcp-abc',
+  app_name: 'pensjon-app',
+  team_slug: 'pensjon',
+  environment_name: 'prod-gcp',
+  repository: 'navikt/pensjon-app',
+  period_type: 'yearly',
+  period_label: '2026',
+  period_start: '2026-01-01',
+  period_end: '2026-12-31',
+  generated_at: '2027-01-02T08:00:00.000Z',
+  generated_by: 'A123456',
+  content_hash: calculateContentHash(reportData),
+  chain_hash: null,
+  signature: null,
+  signing_key_fingerprint: null,
+}
+
+/** Read entry names and uncompressed contents from a ZIP archive via its central directory */
+function readZip(buffer: Buffer): Map<string, string> {
+  const eocd = buffer.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]))
+  const count = buffer.readUInt16LE(eocd + 10)
+  let pos = buffer.readUInt32LE(eocd + 16)
+  const files = new Map<string, string>()
+
+  for (let i = 0; i < count; i++) {
+    expect(buffer.readUInt32LE(pos)).toBe(0x02014b50)
+    const compressedSize = buffer.readUInt32LE(pos + 20)
+    const nameLength = buffer.readUInt16LE(pos + 28)
+    const localOffset = buffer.readUInt32LE(pos + 42)
+    const name = buffer.subarray(pos + 46, pos + 46 + nameLength).toString('utf-8')
+
+    const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28)
+    const content = inflateRawSync(buffer.subarray(dataStart, dataStart + compressedSize))
+    expect(crc32(content)).toBe(buffer.readUInt32LE(pos + 16))
+    files.set(name, content.toString('utf-8'))
+
+    pos += 46 + nameLength
+  }
+  return files
+}
+
+describe('crc32', () => {
+  it('matches the standard check value', () => {
+    expect(crc32(Buffer.from('123456789'))).toBe(0xcbf43926)
+  })
+})
+
+describe('toCsv', () => {
+  it('quotes fields containing commas, quotes and newlines, and leaves nulls empty', () => {
+    const csv = toCsv({
+      name: 't',
+      columns: ['a', 'b', 'c'],
+      rows: [
+        ['x, y', 'say "hi"', null],
+        [1, 'two\nlines', ''],
+      ],
+    })
+
+    expect(csv).toBe('a,b,c\r\n"x, y","say ""hi""",\r\n1,"two\nlines",\r\n')
+  })
+
+  it('prefixes text that a spreadsheet would evaluate as a formula', () => {
+    const csv = toCsv({
+      name: 't',
+      columns: ['a', 'b', 'c', 'd', 'e', 'f'],
+      rows: [['=HYPERLINK("x")', '+1', '-1', '@SUM(A1)', '\tx', -1]],
+    })
+
+    expect(csv).toBe(`a,b,c,d,e,f\r\n"'=HYPERLINK(""x"")",'+1,'-1,'@SUM(A1),'\tx,-1\r\n`)
+  })
+})
+
+describe('getAuditReportExportTables', () => {
+  const tables = getAuditReportExportTables(metadata, reportData)
+
+  it('creates one table per section with the metadata first', () => {
+    expect(tables.map((t) => t.name)).toEqual([
+      'report',
+      'deployments',
+      'manual_approvals',
+      'contributors',
+      'reviewers',
+      'deviations',
+      'unverified_commits',
+    ])
+  })
+
+  it('includes the content hash in the report table', () => {
+    expect(tables[0].rows).toContainEqual(['content_hash', metadata.content_hash])
+  })
+
+  it('flattens unverified commits to one row per commit', () => {
+    const unverified = tables.find((t) => t.name === 'unverified_commits')
+    expect(unverified?.rows).toHaveLength(2)
+    expect(unverified?.rows[1][unverified.columns.indexOf('sha')]).toBe('c2')
+    expect(unverified?.rows[1][unverified.columns.indexOf('deployment_commit_sha')]).toBe('abc123')
+  })
+
+  it('leaves missing optional fields empty', () => {
+    const deployments = tables.find((t) => t.name === 'deployments')
+    expect(deployments?.rows[0][deployments.columns.indexOf('pr_url')]).toBeNull()
+  })
+})
+
+describe('buildAuditReportJsonExport', () => {
+  it('keeps report data intact so the content hash can be recomputed', () => {
+    const json = JSON.parse(JSON.stringify(buildAuditReportJsonExport(metadata, reportData)))
+
+    expect(json.schema_version).toBe(1)
+    expect(json.$schema).toBe('/schemas/audit-report-export.v1.json')
+    expect(calculateContentHash(json.data)).toBe(json.report.content_hash)
+  })
+})
+
+describe('buildAuditReportCsvZip', () => {
+  it('writes one CSV file per section', () => {
+    const files = readZip(buildAuditReportCsvZip(metadata, reportData))
+
+    expect([...files.keys()]).toContain('deployments.csv')
+    expect(files.get('report.csv')).toContain(`content_hash,${metadata.content_hash}\r\n`)
+    expect(files.get('contributors.csv')).toContain('developer-a,Ærlig Utvikler,,1')
+  })
+})
+
+describe('buildAuditReportXlsx', () => {
+  it('writes a workbook with one sheet per section', () => {
+    const files = readZip(buildAuditReportXlsx(metadata, reportData))
+
+    expect(files.get('xl/workbook.xml')).toContain('<sheet name="unverified_commits" sheetId="7" r:id="rId7"/>')
+    expect(files.has('xl/worksheets/sheet7.xml')).toBe(true)
+    expect(files.get('xl/worksheets/sheet2.xml')).toContain('Fiks &quot;beregning&quot;, del 2')
+    expect(files.get('xl/worksheets/sheet2.xml')).toContain('<c r="A2"><v>1</v></c>')
+  })
+
+  it('names columns like a spreadsheet', () => {
+    expect([0, 25, 26, 701, 702].map(columnName)).toEqual(['A', 'Z', 'AA', 'ZZ', 'AAA'])
+  })
+})
@@ -0,0 +1,92 @@
+import { createPublicKey, generateKeyPairSync, sign } from 'node:crypto'
+import { describe, expect, it } from 'vitest'
+import {
+  calculateChainHash,
+  calculateContentHash,
+  canonicalJson,
+  checkReportIntegrity,
+  GENESIS_HASH,
+  getPublicKeyFingerprint,
+  type ReportIntegrityInput,
+} from '../audit-report-signing.server'
+
+/**
+ * Tests for the audit report hash chain and signature checks.
+ */
+
+const { privateKey } = generateKeyPairSync('ed25519')
+const publicKey = createPublicKey(privateKey)
+const signingKey = { publicKey, fingerprint: getPublicKeyFingerprint(publicKey) }
+
+const reportData = { deployments: [{ id: 1, commit_sha: 'abc' }], legacy_count: 0 }
+const previousHash = calculateChainHash(null, calculateContentHash({ deployments: [] }))
+
+function makeSignedInput(overrides: Partial<ReportIntegrityInput> = {}): ReportIntegrityInput {
+  const contentHash = calculateContentHash(reportData)
+  const chainHash = calculateChainHash(previousHash, contentHash)
+  return {
+    reportData,
+    contentHash,
+    previousHash,
+    chainHash,
+    signature: sign(null, Buffer.from(chainHash), privateKey).toString('base64'),
+    signingKeyFingerprint: signingKey.fingerprint,
+    previousReportChainHash: previousHash,
+    ...overrides,
+  }
+}
+
+describe('canonicalJson', () => {
+  it('sorts object keys recursively so JSONB round-trips hash the same', () => {
+    expect(canonicalJson({ b: 1, a: { d: [{ z: 1, y: 2 }], c: null } })).toBe(
+      '{"a":{"c":null,"d":[{"y":2,"z":1}]},"b":1}',
+    )
+    expect(calculateContentHash({ b: 1, a: 2 })).toBe(calculateContentHash({ a: 2, b: 1 }))
+  })
+})
+
+describe('calculateChainHash', () => {
+  it('links to the genesis hash for the first report', () => {
+    expect(calculateChainHash(null, 'content')).toBe(calculateChainHash(GENESIS_HASH, 'content'))
+  })
+
+  it('changes when the previous hash changes', () => {
+    expect(calculateChainHash('a'.repeat(64), 'content')).not.toBe(calculateChainHash('b'.repeat(64), 'content'))
+  })
+})
+
+describe('checkReportIntegrity', () => {
+  it('accepts an untampered, signed report', () => {
+    expect(checkReportIntegrity(makeSignedInput(), signingKey)).toEqual({ authentic: true, problems: [] })
+  })
+
+  it('detects modified report data', () => {
+    const result = checkReportIntegrity(makeSignedInput({ reportData: { ...reportData, legacy_count: 1 } }), signingKey)
+    expect(result.problems).toEqual(['content_hash_mismatch'])
+  })
+
+  it('detects a changed previous report', () => {
+    const result = checkReportIntegrity(makeSignedInput({ previousReportChainHash: 'f'.repeat(64) }), signingKey)
+    expect(result.problems).toEqual(['previous_report_changed'])
+  })
+
+  it('detects a rewritten chain hash with a forged signature', () => {
+    const result = checkReportIntegrity(
+      makeSignedInput({ chainHash: 'e'.repeat(64), signature: Buffer.from('forged').toString('base64') }),
+      signingKey,
+    )
+    expect(result.problems).toEqual(['chain_hash_mismatch', 'invalid_signature'])
+  })
+
+  it('reports unsigned reports and unknown keys', () => {
+    expect(checkReportIntegrity(makeSignedInput({ signature: null }), signingKey).problems).toEqual([
+      'missing_signature',
+    ])
+    expect(checkReportIntegrity(makeSignedInput(), null).problems).toEqual(['unknown_signing_key'])
+  })
+
+  it('reports legacy reports without a chain hash only as unsigned', () => {
+    const legacy = makeSignedInput({ contentHash: 'f'.repeat(64), chainHash: null, signature: null })
+    expect(checkReportIntegrity(legacy, signingKey)).toEqual({ authentic: false, problems: ['missing_signature'] })
+  })
+})
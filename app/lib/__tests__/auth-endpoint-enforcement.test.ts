@@ -4,6 +4,7 @@
  * Verifies that every route in routes.ts is covered by the auth middleware:
  * - Health checks (/api/isalive, /api/isready) are explicitly public
  * - M2M routes (/api/v1/*) have self-managed auth (skipped by middleware)
+ * - The GitHub webhook (/api/github/webhook) is authenticated by HMAC signature (skipped by middleware)
  * - All other routes require a valid JWT (middleware blocks without token)
  */
 
@@ -57,12 +58,21 @@ const ALL_ROUTES: { path: string; description: string }[] = [
   { path: '/api/reports/generate', description: 'API: reports generate' },
   { path: '/api/reports/download', description: 'API: reports download' },
   { path: '/api/reports/status', description: 'API: reports status' },
+  { path: '/api/reports/verify', description: 'API: reports verify' },
   { path: '/api/search', description: 'API: search' },
   { path: '/api/checks/logs', description: 'API: check logs' },
   { path: '/api/checks/annotations', description: 'API: check annotations' },
 
-  // M2M route (self-authenticated)
+  // M2M routes (self-authenticated)
   { path: '/api/v1/apps/team/prod/myapp/verification-summary', description: 'M2M: verification summary' },
+  { path: '/api/v1/apps', description: 'M2M: apps' },
+  { path: '/api/v1/apps/team/prod/myapp/deployments', description: 'M2M: deployments' },
+  { path: '/api/v1/apps/team/prod/myapp/deployments/1', description: 'M2M: deployment detail' },
+  { path: '/api/v1/apps/team/prod/myapp/deviations', description: 'M2M: deviations' },
+  { path: '/api/v1/openapi.json', description: 'M2M: OpenAPI document (public)' },
+
+  // GitHub webhook (self-authenticated via HMAC signature)
+  { path: '/api/github/webhook', description: 'GitHub webhook' },
 
   // Browser routes inside layout
   { path: '/', description: 'Home' },
@@ -78,10 +88,15 @@ const ALL_ROUTES: { path: string; description: string }[] = [
   { path: '/team/my-team/env/prod/app/my-app/admin/verification-diff', description: 'Verification diff' },
   { path: '/team/my-team/env/prod/app/my-app/admin/verification-diff/123', description: 'Verification diff detail' },
   { path: '/team/my-team/env/prod/app/my-app/admin/status-history', description: 'Status history' },
+  { path: '/team/my-team/env/prod/app/my-app/admin/policy-simulation', description: 'Policy simulation' },
   { path: '/team/my-team/env/prod/app/my-app/admin/sync-job/456', description: 'Sync job detail' },
   { path: '/team/my-team/env/prod/app/my-app/deployments', description: 'App deployments' },
   { path: '/team/my-team/env/prod/app/my-app/deployments/789', description: 'Deployment detail' },
   { path: '/team/my-team/env/prod/app/my-app/deployments/789/debug-verify', description: 'Debug verify' },
+  {
+    path: '/team/my-team/env/prod/app/my-app/deployments/789/debug-verify/fixture',
+    description: 'Debug verify fixture export',
+  },
   { path: '/team/my-team/env/prod/app/my-app/admin/deviations', description: 'Deviations' },
   { path: '/deployments/verify', description: 'Verify deployments' },
   { path: '/deployments/42', description: 'Deployment by ID' },
@@ -95,7 +110,16 @@ const ALL_ROUTES: { path: string; description: string }[] = [
   { path: '/admin/audit-reports', description: 'Admin audit reports' },
   { path: '/admin/audit-reports/1/pdf', description: 'Audit report PDF' },
   { path: '/admin/audit-reports/1/view', description: 'Audit report view' },
+  { path: '/admin/audit-reports/1/export/json', description: 'Audit report export' },
+  { path: '/admin/audit-reports/consolidated/1/pdf', description: 'Consolidated audit report PDF' },
+  { path: '/admin/audit-reports/consolidated/1/view', description: 'Consolidated audit report view' },
+  { path: '/admin/audit-log', description: 'Admin audit log' },
+  { path: '/admin/audit-log/export', description: 'Admin audit log export' },
+  { path: '/admin/deviations', description: 'Admin deviations' },
+  { path: '/admin/deviations/1', description: 'Admin deviation detail' },
+  { path: '/admin/alerts', description: 'Admin repository alerts' },
   { path: '/admin/global-settings', description: 'Global settings' },
+  { path: '/admin/event-stream', description: 'Event stream subscribers and delivery failures' },
   { path: '/admin/application-groups', description: 'Application groups' },
   { path: '/admin/verification-diffs', description: 'Verification diffs' },
   { path: '/admin/env', description: 'Admin environment' },
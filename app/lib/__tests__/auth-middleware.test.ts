@@ -98,6 +98,17 @@ describe('createAuthMiddleware', () => {
       expect(next).toHaveBeenCalledOnce()
       expect(mockJwtVerify).not.toHaveBeenCalled()
     })
+
+    it('passes the GitHub webhook through (validated by HMAC signature)', async () => {
+      const req = mockReq({ path: '/api/github/webhook' })
+      const res = mockRes()
+      const next = vi.fn()
+
+      await middleware(req, res, next)
+
+      expect(next).toHaveBeenCalledOnce()
+      expect(mockJwtVerify).not.toHaveBeenCalled()
+    })
   })
 
   describe('development mode bypass', () => {
@@ -369,5 +380,9 @@ describe('createAuthMiddleware', () => {
     it('SELF_AUTHENTICATED_PREFIXES includes M2M routes', () => {
       expect(SELF_AUTHENTICATED_PREFIXES).toContain('/api/v1/')
     })
+
+    it('SELF_AUTHENTICATED_PREFIXES includes the GitHub webhook', () => {
+      expect(SELF_AUTHENTICATED_PREFIXES).toContain('/api/github/webhook')
+    })
   })
 })
@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest'
+import {
+  type BranchProtectionSettings,
+  describeBranchProtectionWeakening,
+  findBranchProtectionWeakenings,
+  isSameBranchProtection,
+  resolveBranchProtection,
+} from '../branch-protection'
+
+/**
+ * Tests for branch protection snapshots.
+ *
+ * WHY: The audit report states which controls were in effect, and weakened
+ * settings raise an alert. Reading a ruleset-protected branch as unprotected,
+ * or missing that a setting was relaxed, would misstate the controls to the
+ * auditor.
+ */
+
+const strict: BranchProtectionSettings = {
+  requiredApprovingReviewCount: 1,
+  dismissStaleReviews: true,
+  requireCodeOwnerReviews: true,
+  enforceAdmins: true,
+  allowForcePushes: false,
+  sources: ['classic'],
+}
+
+describe('resolveBranchProtection', () => {
+  it('reads classic branch protection', () => {
+    expect(
+      resolveBranchProtection(
+        {
+          required_pull_request_reviews: {
+            required_approving_review_count: 1,
+            dismiss_stale_reviews: true,
+            require_code_owner_reviews: true,
+          },
+          enforce_admins: { enabled: true },
+          allow_force_pushes: { enabled: false },
+        },
+        [],
+      ),
+    ).toEqual(strict)
+  })
+
+  it('treats a branch without classic protection or rules as unprotected', () => {
+    expect(resolveBranchProtection(null, [])).toEqual({
+      requiredApprovingReviewCount: 0,
+      dismissStaleReviews: false,
+      requireCodeOwnerReviews: false,
+      enforceAdmins: false,
+      allowForcePushes: true,
+      sources: [],
+    })
+  })
+
+  it('reads rulesets and only enforces admins for rulesets without bypass actors', () => {
+    const rules = [
+      {
+        type: 'pull_request',
+        parameters: { required_approving_review_count: 2, dismiss_stale_reviews_on_push: true },
+        ruleset_id: 7,
+      },
+      { type: 'non_fast_forward', ruleset_id: 7 },
+      { type: 'deletion', ruleset_id: 8 },
+    ]
+
+    const bypassable = resolveBranchProtection(null, rules)
+    expect(bypassable).toEqual({
+      requiredApprovingReviewCount: 2,
+      dismissStaleReviews: true,
+      requireCodeOwnerReviews: false,
+      enforceAdmins: false,
+      allowForcePushes: false,
+      sources: ['ruleset'],
+    })
+    expect(resolveBranchProtection(null, rules, [7]).enforceAdmins).toBe(true)
+    expect(resolveBranchProtection(null, rules, [8]).enforceAdmins).toBe(false)
+  })
+
+  it('uses the strictest value when both classic protection and rulesets apply', () => {
+    const settings = resolveBranchProtection(
+      { required_pull_request_reviews: { required_approving_review_count: 1 }, allow_force_pushes: { enabled: true } },
+      [{ type: 'pull_request', parameters: { required_approving_review_count: 2 } }, { type: 'non_fast_forward' }],
+    )
+    expect(settings.requiredApprovingReviewCount).toBe(2)
+    expect(settings.allowForcePushes).toBe(false)
+    expect(settings.sources).toEqual(['classic', 'ruleset'])
+  })
+})
+
+describe('findBranchProtectionWeakenings', () => {
+  it('finds every relaxed setting', () => {
+    const weakenings = findBranchProtectionWeakenings(strict, {
+      requiredApprovingReviewCount: 0,
+      dismissStaleReviews: false,
+      requireCodeOwnerReviews: false,
+      enforceAdmins: false,
+      allowForcePushes: true,
+      sources: [],
+    })
+    expect(weakenings.map((w) => w.setting)).toEqual([
+      'requiredApprovingReviewCount',
+      'dismissStaleReviews',
+      'requireCodeOwnerReviews',
+      'enforceAdmins',
+      'allowForcePushes',
+    ])
+    expect(describeBranchProtectionWeakening(weakenings[0])).toBe('Påkrevde godkjenninger: 1 → 0')
+    expect(describeBranchProtectionWeakening(weakenings[4])).toBe('Force push tillatt: Nei → Ja')
+  })
+
+  it('ignores stricter settings and a move from classic protection to rulesets', () => {
+    expect(
+      findBranchProtectionWeakenings(strict, { ...strict, requiredApprovingReviewCount: 2, sources: ['ruleset'] }),
+    ).toEqual([])
+  })
+})
+
+describe('isSameBranchProtection', () => {
+  it('compares settings and sources regardless of source order', () => {
+    expect(isSameBranchProtection(strict, { ...strict })).toBe(true)
+    expect(
+      isSameBranchProtection(
+        { ...strict, sources: ['classic', 'ruleset'] },
+        { ...strict, sources: ['ruleset', 'classic'] },
+      ),
+    ).toBe(true)
+    expect(isSameBranchProtection(strict, { ...strict, sources: ['ruleset'] })).toBe(false)
+    expect(isSameBranchProtection(strict, { ...strict, enforceAdmins: false })).toBe(false)
+  })
+})
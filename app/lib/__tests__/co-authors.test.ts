@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest'
+import {
+  collectCoAuthorEmails,
+  getCoAuthorUsernames,
+  parseCoAuthors,
+  usernameFromNoreplyEmail,
+} from '../verification/co-authors'
+import type { PrCommit, PrReview } from '../verification/types'
+import { checkImplicitApproval, verifyFourEyesFromPrData } from '../verification/verify'
+
+/**
+ * Tests for Co-authored-by trailer parsing and co-author aware four-eyes checks.
+ */
+
+const MESSAGE_WITH_CO_AUTHORS = `Fix beregning av pensjon
+
+Lang beskrivelse.
+
+Co-authored-by: Reviewer B <reviewer.b@nav.no>
+co-authored-by: Dev C <98765+developer-c@users.noreply.github.com>`
+
+function makeCommit(overrides: Partial<PrCommit> = {}): PrCommit {
+  return {
+    sha: 'commit-1',
+    message: MESSAGE_WITH_CO_AUTHORS,
+    authorUsername: 'developer-a',
+    authorDate: '2026-03-01T10:00:00Z',
+    committerDate: '2026-03-01T10:00:00Z',
+    isMergeCommit: false,
+    parentShas: [],
+    ...overrides,
+  }
+}
+
+function makeApproval(username: string, submittedAt = '2026-03-01T12:00:00Z'): PrReview {
+  return { id: 1, username, state: 'APPROVED', submittedAt, body: null }
+}
+
+const EMAIL_MAPPINGS = { 'reviewer.b@nav.no': 'reviewer-b' }
+
+describe('parseCoAuthors', () => {
+  it('parses all Co-authored-by trailers case-insensitively', () => {
+    expect(parseCoAuthors(MESSAGE_WITH_CO_AUTHORS)).toEqual([
+      { name: 'Reviewer B', email: 'reviewer.b@nav.no' },
+      { name: 'Dev C', email: '98765+developer-c@users.noreply.github.com' },
+    ])
+  })
+
+  it('returns an empty list without trailers', () => {
+    expect(parseCoAuthors('Fix bug')).toEqual([])
+  })
+})
+
+describe('usernameFromNoreplyEmail', () => {
+  it('extracts usernames from noreply addresses', () => {
+    expect(usernameFromNoreplyEmail('98765+developer-c@users.noreply.github.com')).toBe('developer-c')
+    expect(usernameFromNoreplyEmail('developer-c@users.noreply.github.com')).toBe('developer-c')
+    expect(usernameFromNoreplyEmail('reviewer.b@nav.no')).toBeNull()
+  })
+})
+
+describe('collectCoAuthorEmails', () => {
+  it('only collects emails that need a user mapping lookup', () => {
+    expect(collectCoAuthorEmails([MESSAGE_WITH_CO_AUTHORS, MESSAGE_WITH_CO_AUTHORS])).toEqual(['reviewer.b@nav.no'])
+  })
+})
+
+describe('getCoAuthorUsernames', () => {
+  it('resolves noreply and mapped emails to usernames', () => {
+    expect(getCoAuthorUsernames([makeCommit()], EMAIL_MAPPINGS)).toEqual(new Set(['reviewer-b', 'developer-c']))
+  })
+
+  it('skips emails without a mapping', () => {
+    expect(getCoAuthorUsernames([makeCommit()])).toEqual(new Set(['developer-c']))
+  })
+})
+
+describe('verifyFourEyesFromPrData with co-authors', () => {
+  it('returns approval_by_co_author when the only approver is a co-author', () => {
+    const result = verifyFourEyesFromPrData({
+      reviewers: [makeApproval('reviewer-b')],
+      commits: [makeCommit()],
+      baseBranch: 'main',
+      coAuthorMappings: EMAIL_MAPPINGS,
+    })
+
+    expect(result).toEqual({ hasFourEyes: false, reason: 'approval_by_co_author' })
+  })
+
+  it('approves when another approver is not a co-author', () => {
+    const result = verifyFourEyesFromPrData({
+      reviewers: [makeApproval('reviewer-b'), { ...makeApproval('reviewer-d'), id: 2 }],
+      commits: [makeCommit()],
+      baseBranch: 'main',
+      coAuthorMappings: EMAIL_MAPPINGS,
+    })
+
+    expect(result.hasFourEyes).toBe(true)
+    expect(result.reason).toContain('reviewer-d')
+  })
+
+  it('does not accept a co-author as independent merger', () => {
+    const result = verifyFourEyesFromPrData({
+      reviewers: [makeApproval('reviewer-d', '2026-03-01T09:00:00Z')],
+      commits: [makeCommit()],
+      baseBranch: 'main',
+      mergedBy: 'developer-c',
+      coAuthorMappings: EMAIL_MAPPINGS,
+    })
+
+    expect(result).toEqual({ hasFourEyes: false, reason: 'approval_before_last_commit' })
+  })
+})
+
+describe('checkImplicitApproval with co-authors', () => {
+  it('does not qualify when the merger is a co-author', () => {
+    const result = checkImplicitApproval({
+      settings: { mode: 'all' },
+      prCreator: 'developer-a',
+      lastCommitAuthor: 'developer-a',
+      mergedBy: 'reviewer-b',
+      allCommitAuthors: ['developer-a'],
+      coAuthors: ['reviewer-b'],
+    })
+
+    expect(result.qualifies).toBe(false)
+  })
+})
@@ -0,0 +1,355 @@
+import { describe, expect, it } from 'vitest'
+import {
+  checkCodeownerApproval,
+  codeownersPatternToRegExp,
+  findCodeowners,
+  getCodeownerTeams,
+  getRequiredCodeowners,
+  isAppPath,
+  parseCodeowners,
+} from '../verification/codeowners'
+import type { PrCommit, PrReview, ResolvedCodeownersPolicy, VerificationInput } from '../verification/types'
+import { verifyDeployment } from '../verification/verify'
+
+/**
+ * Tests for the per-app CODEOWNERS policy: pattern matching, owner lookup and
+ * how missing code owner approvals affect verifyDeployment.
+ */
+
+const CODEOWNERS = `# Eiere per app
+*                       @navikt/plattform
+/apps/betaling/         @navikt/team-betaling
+/apps/utbetaling/       @navikt/team-utbetaling @ola
+/apps/betaling/docs/                             # ingen eier
+*.md                    docs@nav.no
+`
+
+function matches(pattern: string, file: string): boolean {
+  return codeownersPatternToRegExp(pattern).test(file)
+}
+
+describe('parseCodeowners', () => {
+  it('skips comments and blank lines and keeps rule order', () => {
+    const rules = parseCodeowners(CODEOWNERS)
+
+    expect(rules).toHaveLength(5)
+    expect(rules[0]).toEqual({ pattern: '*', owners: ['@navikt/plattform'] })
+    expect(rules[2]).toEqual({ pattern: '/apps/utbetaling/', owners: ['@navikt/team-utbetaling', '@ola'] })
+    expect(rules[3]).toEqual({ pattern: '/apps/betaling/docs/', owners: [] })
+  })
+
+  it('unescapes # in patterns', () => {
+    expect(parseCodeowners('/apps/\\#tmp @ola')).toEqual([{ pattern: '/apps/#tmp', owners: ['@ola'] }])
+  })
+})
+
+describe('codeownersPatternToRegExp', () => {
+  it('matches patterns without a slash at any depth', () => {
+    expect(matches('*.js', 'index.js')).toBe(true)
+    expect(matches('*.js', 'apps/betaling/src/index.js')).toBe(true)
+    expect(matches('*.js', 'index.ts')).toBe(false)
+    expect(matches('build', 'apps/betaling/build/out.js')).toBe(true)
+  })
+
+  it('anchors patterns with a leading or inner slash to the repository root', () => {
+    expect(matches('/apps/betaling', 'apps/betaling/src/index.ts')).toBe(true)
+    expect(matches('apps/betaling', 'apps/betaling/src/index.ts')).toBe(true)
+    expect(matches('apps/betaling', 'libs/apps/betaling/index.ts')).toBe(false)
+    expect(matches('/apps/betaling', 'apps/betaling-api/index.ts')).toBe(false)
+  })
+
+  it('matches only directory contents with a trailing slash', () => {
+    expect(matches('docs/', 'docs/readme.md')).toBe(true)
+    expect(matches('docs/', 'apps/betaling/docs/readme.md')).toBe(true)
+    expect(matches('docs/', 'docs')).toBe(false)
+  })
+
+  it('matches only direct children with dir/*', () => {
+    expect(matches('docs/*', 'docs/readme.md')).toBe(true)
+    expect(matches('docs/*', 'docs/guides/readme.md')).toBe(false)
+  })
+
+  it('supports ** across directories and ? for one character', () => {
+    expect(matches('apps/**/test', 'apps/test/x.ts')).toBe(true)
+    expect(matches('apps/**/test', 'apps/betaling/src/test/x.ts')).toBe(true)
+    expect(matches('**/logs', 'deep/nested/logs/app.log')).toBe(true)
+    expect(matches('apps/**', 'apps/betaling/index.ts')).toBe(true)
+    expect(matches('v?.json', 'config/v1.json')).toBe(true)
+    expect(matches('v?.json', 'config/v10.json')).toBe(false)
+  })
+
+  it('treats dots literally', () => {
+    expect(matches('*.md', 'readme.md')).toBe(true)
+    expect(matches('*.md', 'readmexmd')).toBe(false)
+  })
+})
+
+describe('findCodeowners', () => {
+  const rules = parseCodeowners(CODEOWNERS)
+
+  it('uses the last matching rule', () => {
+    expect(findCodeowners(rules, 'apps/betaling/src/index.ts')).toEqual(['@navikt/team-betaling'])
+    expect(findCodeowners(rules, 'apps/betaling/readme.md')).toEqual(['docs@nav.no'])
+    expect(findCodeowners(rules, 'package.json')).toEqual(['@navikt/plattform'])
+  })
+
+  it('returns an empty list for paths explicitly left without owners', () => {
+    expect(findCodeowners(rules, 'apps/betaling/docs/arkitektur.png')).toEqual([])
+  })
+
+  it('returns null when no rule matches', () => {
+    expect(findCodeowners(parseCodeowners('/apps/ @ola'), 'package.json')).toBeNull()
+  })
+})
+
+describe('isAppPath', () => {
+  it('matches files under the app paths, ignoring surrounding slashes', () => {
+    expect(isAppPath('apps/betaling/index.ts', ['/apps/betaling/'])).toBe(true)
+    expect(isAppPath('apps/betaling-api/index.ts', ['apps/betaling'])).toBe(false)
+  })
+
+  it('matches every file without app paths', () => {
+    expect(isAppPath('package.json', [])).toBe(true)
+  })
+})
+
+describe('getRequiredCodeowners', () => {
+  const rules = parseCodeowners(CODEOWNERS)
+
+  it('only includes owned files under the app paths', () => {
+    const required = getRequiredCodeowners(
+      rules,
+      ['apps/betaling/src/index.ts', 'apps/betaling/docs/arkitektur.png', 'apps/utbetaling/index.ts'],
+      ['apps/betaling'],
+    )
+
+    expect(required).toEqual([{ file: 'apps/betaling/src/index.ts', owners: ['@navikt/team-betaling'] }])
+  })
+
+  it('collects team owners in lowercase', () => {
+    const required = [{ file: 'a', owners: ['@navikt/Team-Betaling', '@ola', 'docs@nav.no'] }]
+    expect(getCodeownerTeams(required)).toEqual(['navikt/team-betaling'])
+  })
+})
+
+describe('checkCodeownerApproval', () => {
+  const teamMembers = { 'navikt/team-betaling': ['Kari'], 'navikt/team-utbetaling': ['per'] }
+
+  it('approves when an approver is a member of the owning team', () => {
+    const result = checkCodeownerApproval({
+      codeowners: CODEOWNERS,
+      files: ['apps/betaling/src/index.ts', 'apps/utbetaling/index.ts'],
+      approvers: ['kari'],
+      appPaths: ['apps/betaling'],
+      teamMembers,
+    })
+
+    expect(result.approved).toBe(true)
+  })
+
+  it('fails when no approver owns a changed file', () => {
+    const result = checkCodeownerApproval({
+      codeowners: CODEOWNERS,
+      files: ['apps/betaling/src/index.ts'],
+      approvers: ['per'],
+      appPaths: ['apps/betaling'],
+      teamMembers,
+    })
+
+    expect(result.approved).toBe(false)
+    expect(result.reason).toContain('@navikt/team-betaling')
+  })
+
+  it('requires an owner for every owned file', () => {
+    const result = checkCodeownerApproval({
+      codeowners: CODEOWNERS,
+      files: ['apps/betaling/src/index.ts', 'apps/utbetaling/index.ts'],
+      approvers: ['kari'],
+      appPaths: [],
+      teamMembers,
+    })
+
+    expect(result.approved).toBe(false)
+  })
+
+  it('accepts users listed as owners and never matches email owners', () => {
+    const base = { codeowners: CODEOWNERS, appPaths: [], teamMembers }
+
+    expect(checkCodeownerApproval({ ...base, files: ['apps/utbetaling/index.ts'], approvers: ['Ola'] }).approved).toBe(
+      true,
+    )
+    expect(checkCodeownerApproval({ ...base, files: ['readme.md'], approvers: ['docs'] }).approved).toBe(false)
+  })
+
+  it('approves when no changed file under the app paths has owners', () => {
+    const result = checkCodeownerApproval({
+      codeowners: CODEOWNERS,
+      files: ['apps/betaling/docs/arkitektur.png'],
+      approvers: [],
+      appPaths: ['apps/betaling'],
+      teamMembers,
+    })
+
+    expect(result.approved).toBe(true)
+  })
+})
+
+describe('verifyDeployment with CODEOWNERS policy', () => {
+  const commit: PrCommit = {
+    sha: 'deploy-sha',
+    message: 'Fix beregning',
+    authorUsername: 'developer-a',
+    authorDate: '2026-03-01T10:00:00Z',
+    committerDate: '2026-03-01T10:00:00Z',
+    isMergeCommit: false,
+    parentShas: [],
+  }
+  const review: PrReview = {
+    id: 1,
+    username: 'reviewer-b',
+    state: 'APPROVED',
+    submittedAt: '2026-03-01T12:00:00Z',
+    body: null,
+  }
+  const policy: ResolvedCodeownersPolicy = {
+    enabled: true,
+    appPaths: ['apps/betaling'],
+    teamMembers: { 'navikt/team-betaling': ['kari'] },
+  }
+
+  const input: VerificationInput = {
+    deploymentId: 1,
+    commitSha: 'deploy-sha',
+    repository: 'navikt/monorepo',
+    environmentName: 'prod-gcp',
+    baseBranch: 'main',
+    repositoryStatus: 'active',
+    commitOnBaseBranch: true,
+    auditStartYear: 2026,
+    implicitApprovalSettings: { mode: 'off' },
+    codeownersPolicy: policy,
+    previousDeployment: { id: 0, commitSha: 'previous-sha', createdAt: '2026-02-28T10:00:00Z' },
+    deployedPr: {
+      number: 7,
+      url: 'https://github.com/navikt/monorepo/pull/7',
+      metadata: {
+        number: 7,
+        title: 'Fix beregning',
+        body: null,
+        state: 'closed',
+        merged: true,
+        draft: false,
+        createdAt: '2026-03-01T09:00:00Z',
+        updatedAt: '2026-03-01T13:00:00Z',
+        mergedAt: '2026-03-01T13:00:00Z',
+        closedAt: '2026-03-01T13:00:00Z',
+        baseBranch: 'main',
+        baseSha: 'previous-sha',
+        headBranch: 'fix',
+        headSha: 'deploy-sha',
+        mergeCommitSha: 'deploy-sha',
+        author: { username: 'developer-a' },
+        mergedBy: { username: 'reviewer-b' },
+        labels: [],
+        commitsCount: 1,
+        changedFiles: 1,
+        additions: 1,
+        deletions: 1,
+      },
+      reviews: [review],
+      commits: [commit],
+      files: ['apps/betaling/src/index.ts'],
+      codeowners: { path: '.github/CODEOWNERS', content: CODEOWNERS },
+    },
+    commitsBetween: [
+      {
+        sha: commit.sha,
+        message: commit.message,
+        authorUsername: commit.authorUsername,
+        authorDate: commit.authorDate,
+        isMergeCommit: false,
+        parentShas: [],
+        htmlUrl: 'https://github.com/navikt/monorepo/commit/deploy-sha',
+        pr: null,
+      },
+    ],
+    dataFreshness: { deployedPrFetchedAt: null, commitsFetchedAt: null, schemaVersion: 3 },
+  }
+  const deployedPr = input.deployedPr as NonNullable<VerificationInput['deployedPr']>
+
+  it('flags commits with codeowner_approval_missing when no approver owns the app path', () => {
+    const result = verifyDeployment(input)
+
+    expect(result.status).toBe('unverified_commits')
+    expect(result.unverifiedCommits).toHaveLength(1)
+    expect(result.unverifiedCommits[0].reason).toBe('codeowner_approval_missing')
+  })
+
+  it('approves when a member of the owning team approved', () => {
+    const result = verifyDeployment({
+      ...input,
+      deployedPr: { ...deployedPr, reviews: [review, { ...review, id: 2, username: 'kari' }] },
+    })
+
+    expect(result.status).toBe('approved')
+  })
+
+  it('does not count a code owner who authored a commit', () => {
+    const result = verifyDeployment({
+      ...input,
+      deployedPr: {
+        ...deployedPr,
+        reviews: [review, { ...review, id: 2, username: 'kari' }],
+        commits: [commit, { ...commit, sha: 'second-sha', authorUsername: 'kari' }],
+      },
+    })
+
+    expect(result.status).toBe('unverified_commits')
+  })
+
+  it('is not overridden by implicit approval', () => {
+    const result = verifyDeployment({ ...input, implicitApprovalSettings: { mode: 'all' } })
+
+    expect(result.status).toBe('unverified_commits')
+    expect(result.unverifiedCommits[0].reason).toBe('codeowner_approval_missing')
+  })
+
+  it('checks the PRs of commits between deployments', () => {
+    const result = verifyDeployment({
+      ...input,
+      deployedPr: null,
+      commitsBetween: input.commitsBetween.map((c) => ({
+        ...c,
+        pr: {
+          number: 7,
+          title: 'Fix beregning',
+          url: deployedPr.url,
+          reviews: [review],
+          commits: [commit],
+          baseBranch: 'main',
+          files: ['apps/betaling/src/index.ts'],
+          codeowners: { path: 'CODEOWNERS', content: CODEOWNERS },
+        },
+      })),
+    })
+
+    expect(result.unverifiedCommits[0]?.reason).toBe('codeowner_approval_missing')
+  })
+
+  it('fails closed with a retryable error when changed files or CODEOWNERS are unknown', () => {
+    expect(verifyDeployment({ ...input, deployedPr: { ...deployedPr, files: undefined } }).status).toBe('error')
+    expect(verifyDeployment({ ...input, deployedPr: { ...deployedPr, codeowners: undefined } }).status).toBe('error')
+  })
+
+  it('approves repositories without CODEOWNERS and apps without the policy', () => {
+    expect(verifyDeployment({ ...input, deployedPr: { ...deployedPr, codeowners: null } }).status).toBe('approved')
+    expect(verifyDeployment({ ...input, codeownersPolicy: { ...policy, enabled: false } }).status).toBe('approved')
+    expect(verifyDeployment({ ...input, codeownersPolicy: undefined }).status).toBe('approved')
+  })
+
+  it('keeps the four-eyes reason when the PR is not approved at all', () => {
+    const result = verifyDeployment({ ...input, deployedPr: { ...deployedPr, reviews: [] } })
+
+    expect(result.unverifiedCommits[0].reason).toBe('no_approved_reviews')
+  })
+})
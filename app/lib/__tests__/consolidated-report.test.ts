@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest'
+import type { AuditDeploymentEntry, AuditReportData, DeviationEntry } from '~/db/audit-reports.server'
+import { buildConsolidatedReportData, type ConsolidatedAppInput } from '../consolidated-report'
+
+/**
+ * Tests for aggregating per-app audit report data into a consolidated report.
+ */
+
+function makeDeployment(id: number, method: AuditDeploymentEntry['method']): AuditDeploymentEntry {
+  return {
+    id,
+    nais_deployment_id: `nais-${id}`,
+    title: `Deployment ${id}`,
+    date: '2026-03-01T10:00:00Z',
+    commit_sha: `sha-${id}`,
+    method,
+    deployer: 'developer-a',
+    approver: 'reviewer-b',
+  }
+}
+
+function makeDeviation(deploymentId: number, date: string): DeviationEntry {
+  return {
+    deployment_id: deploymentId,
+    date,
+    commit_sha: `sha-${deploymentId}`,
+    reason: 'Deployet uten godkjenning',
+    breach_type: null,
+    intent: null,
+    severity: 'medium',
+    follow_up_role: null,
+    registered_by: 'A123456',
+    registered_by_name: null,
+    resolved_at: null,
+    resolution_note: null,
+  }
+}
+
+function makeReportData(overrides: Partial<AuditReportData> = {}): AuditReportData {
+  return {
+    deployments: [],
+    manual_approvals: [],
+    contributors: [],
+    reviewers: [],
+    legacy_count: 0,
+    deviations: [],
+    unverified_commit_deployments: [],
+    ...overrides,
+  }
+}
+
+function makeApp(overrides: Partial<ConsolidatedAppInput> = {}): ConsolidatedAppInput {
+  return {
+    monitoredAppId: 1,
+    appName: 'pensjon-app',
+    teamSlug: 'pensjon',
+    environmentName: 'prod-gcp',
+    repository: 'navikt/pensjon-app',
+    pendingCount: 0,
+    reportData: makeReportData(),
+    ...overrides,
+  }
+}
+
+describe('buildConsolidatedReportData', () => {
+  it('summarizes each app and subtracts pending deployments from the PR count', () => {
+    const result = buildConsolidatedReportData([
+      makeApp({
+        pendingCount: 1,
+        reportData: makeReportData({
+          deployments: [makeDeployment(1, 'pr'), makeDeployment(2, 'pr'), makeDeployment(3, 'manual')],
+        }),
+      }),
+    ])
+
+    expect(result.apps[0]).toMatchObject({
+      total_deployments: 3,
+      pr_approved_count: 1,
+      manually_approved_count: 1,
+      pending_count: 1,
+    })
+    expect(result.apps[0].four_eyes_coverage).toBeCloseTo(2 / 3)
+  })
+
+  it('combines deviations across apps sorted by date', () => {
+    const result = buildConsolidatedReportData([
+      makeApp({ reportData: makeReportData({ deviations: [makeDeviation(1, '2026-03-05T10:00:00Z')] }) }),
+      makeApp({
+        monitoredAppId: 2,
+        appName: 'pensjon-api',
+        environmentName: 'prod-fss',
+        reportData: makeReportData({ deviations: [makeDeviation(7, '2026-02-01T10:00:00Z')] }),
+      }),
+    ])
+
+    expect(result.deviations.map((d) => [d.app_name, d.environment_name, d.deployment_id])).toEqual([
+      ['pensjon-api', 'prod-fss', 7],
+      ['pensjon-app', 'prod-gcp', 1],
+    ])
+    expect(result.totals.deviation_count).toBe(2)
+  })
+
+  it('computes overall coverage from all deployments, not the average of apps', () => {
+    const result = buildConsolidatedReportData([
+      makeApp({
+        pendingCount: 1,
+        reportData: makeReportData({ deployments: [makeDeployment(1, 'pr')] }),
+      }),
+      makeApp({
+        monitoredAppId: 2,
+        reportData: makeReportData({ deployments: [2, 3, 4].map((id) => makeDeployment(id, 'pr')) }),
+      }),
+    ])
+
+    expect(result.totals).toMatchObject({ app_count: 2, total_deployments: 4, pending_count: 1 })
+    expect(result.totals.four_eyes_coverage).toBe(0.75)
+  })
+
+  it('treats apps without deployments as fully covered', () => {
+    const result = buildConsolidatedReportData([makeApp()])
+
+    expect(result.apps[0].four_eyes_coverage).toBe(1)
+    expect(result.totals.four_eyes_coverage).toBe(1)
+  })
+})
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest'
+import {
+  getDeviationDueDate,
+  isDeviationOverdue,
+  isValidDeviationTransition,
+  validateDeviationInput,
+} from '../deviation-constants'
+
+/**
+ * Tests for the deviation lifecycle rules.
+ *
+ * WHY: The transition rules decide which follow-up steps are recorded in the
+ * history, and the due date decides when a deviation is escalated. A wrong
+ * rule either hides an unresolved deviation or escalates one too early.
+ */
+
+describe('isValidDeviationTransition', () => {
+  it('allows moving a registered deviation to any other status', () => {
+    expect(isValidDeviationTransition('registered', 'under_investigation')).toBe(true)
+    expect(isValidDeviationTransition('registered', 'action_required')).toBe(true)
+    expect(isValidDeviationTransition('registered', 'closed')).toBe(true)
+  })
+
+  it('never moves back to registered', () => {
+    expect(isValidDeviationTransition('under_investigation', 'registered')).toBe(false)
+    expect(isValidDeviationTransition('closed', 'registered')).toBe(false)
+  })
+
+  it('rejects transitions to the current status', () => {
+    expect(isValidDeviationTransition('action_required', 'action_required')).toBe(false)
+  })
+
+  it('only reopens closed deviations for investigation', () => {
+    expect(isValidDeviationTransition('closed', 'under_investigation')).toBe(true)
+    expect(isValidDeviationTransition('closed', 'action_required')).toBe(false)
+  })
+})
+
+describe('getDeviationDueDate', () => {
+  const from = new Date('2026-03-01T12:00:00Z')
+
+  it('derives the due date from severity', () => {
+    expect(getDeviationDueDate('critical', from).toISOString()).toBe('2026-03-03T12:00:00.000Z')
+    expect(getDeviationDueDate('high', from).toISOString()).toBe('2026-03-08T12:00:00.000Z')
+    expect(getDeviationDueDate('low', from).toISOString()).toBe('2026-05-30T12:00:00.000Z')
+  })
+
+  it('treats deviations without severity as medium', () => {
+    expect(getDeviationDueDate(null, from)).toEqual(getDeviationDueDate('medium', from))
+  })
+})
+
+describe('isDeviationOverdue', () => {
+  const now = new Date('2026-03-10T12:00:00Z')
+
+  it('is overdue when an open deviation has passed its due date', () => {
+    expect(isDeviationOverdue({ status: 'action_required', due_at: '2026-03-09T12:00:00Z' }, now)).toBe(true)
+  })
+
+  it('is not overdue before the due date', () => {
+    expect(isDeviationOverdue({ status: 'registered', due_at: '2026-03-11T12:00:00Z' }, now)).toBe(false)
+  })
+
+  it('is never overdue when closed or without a due date', () => {
+    expect(isDeviationOverdue({ status: 'closed', due_at: '2026-03-01T12:00:00Z' }, now)).toBe(false)
+    expect(isDeviationOverdue({ status: 'registered', due_at: null }, now)).toBe(false)
+  })
+})
+
+describe('validateDeviationInput', () => {
+  it('trims fields and leaves out empty optional ones', () => {
+    expect(
+      validateDeviationInput({
+        reason: '  Deployet uten godkjenning ',
+        breachType: ' ',
+        intent: 'accidental',
+        severity: 'high',
+        followUpRole: '',
+      }),
+    ).toEqual({ ok: true, input: { reason: 'Deployet uten godkjenning', intent: 'accidental', severity: 'high' } })
+  })
+
+  it('requires a description', () => {
+    expect(validateDeviationInput({ reason: '   ' })).toEqual({
+      ok: false,
+      errors: { reason: 'Beskrivelse av avvik er påkrevd' },
+    })
+  })
+
+  it('rejects unknown select values, including prototype keys', () => {
+    const result = validateDeviationInput({
+      reason: 'Avvik',
+      intent: 'toString',
+      severity: 'extreme',
+      followUpRole: 'ceo',
+    })
+    expect(result.ok).toBe(false)
+    expect(result.ok ? null : Object.keys(result.errors)).toEqual(['intent', 'severity', 'followUpRole'])
+  })
+})
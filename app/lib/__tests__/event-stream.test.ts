@@ -0,0 +1,155 @@
+import { describe, expect, it } from 'vitest'
+import {
+  buildDeviationRegisteredEventData,
+  buildStatusChangedEventData,
+  buildStreamEventBody,
+  getRetryDelayMs,
+  isStreamEventType,
+  MAX_DELIVERY_ATTEMPTS,
+  subscriberWantsEvent,
+} from '../event-stream'
+
+/**
+ * Tests for the event stream delivered to downstream consumers.
+ *
+ * WHY: Other systems (KISS, the data warehouse) act on these events without
+ * looking at NDA. The payload shape is a contract with them, the status filter
+ * decides what they are told, and the backoff decides how long a delivery is
+ * retried before it shows up as failed on the admin page.
+ */
+
+const context = {
+  deploymentId: 42,
+  commitSha: 'abc1234567890',
+  teamSlug: 'pensjondeployer',
+  environmentName: 'prod-fss',
+  appName: 'pensjon-pen',
+}
+
+const BASE_URL = 'https://nda.example'
+
+describe('event payloads', () => {
+  it('describes a status change with deployment, app and transition', () => {
+    const data = buildStatusChangedEventData(
+      context,
+      { fromStatus: 'pending', toStatus: 'unverified_commits', changeSource: 'verification' },
+      BASE_URL,
+    )
+
+    expect(data).toEqual({
+      deployment: {
+        id: 42,
+        commitSha: 'abc1234567890',
+        url: 'https://nda.example/team/pensjondeployer/env/prod-fss/app/pensjon-pen/deployments/42',
+      },
+      app: { team: 'pensjondeployer', environment: 'prod-fss', name: 'pensjon-pen' },
+      fromStatus: 'pending',
+      toStatus: 'unverified_commits',
+      changeSource: 'verification',
+      changedBy: null,
+    })
+  })
+
+  it('describes a registered deviation', () => {
+    const data = buildDeviationRegisteredEventData(
+      context,
+      {
+        id: 7,
+        reason: 'Manglet review',
+        breach_type: 'Manglende fireøyne',
+        intent: 'accidental',
+        severity: 'high',
+        follow_up_role: null,
+        due_at: new Date('2026-02-01T00:00:00Z'),
+        registered_by: 'A123456',
+      },
+      BASE_URL,
+    )
+
+    expect(data.deployment.id).toBe(42)
+    expect(data.deviation).toEqual({
+      id: 7,
+      reason: 'Manglet review',
+      breachType: 'Manglende fireøyne',
+      intent: 'accidental',
+      severity: 'high',
+      followUpRole: null,
+      dueAt: '2026-02-01T00:00:00.000Z',
+      registeredBy: 'A123456',
+    })
+  })
+
+  it('wraps the stored payload with id, type and time of the change', () => {
+    const body = buildStreamEventBody({
+      id: 1001,
+      event_type: 'deployment.status_changed',
+      created_at: '2026-01-01T10:00:00Z',
+      payload: { toStatus: 'manually_approved' },
+    })
+
+    expect(body).toEqual({
+      id: 1001,
+      type: 'deployment.status_changed',
+      occurredAt: '2026-01-01T10:00:00.000Z',
+      data: { toStatus: 'manually_approved' },
+    })
+  })
+
+  it('recognizes event types', () => {
+    expect(isStreamEventType('deployment.status_changed')).toBe(true)
+    expect(isStreamEventType('deviation.registered')).toBe(true)
+    expect(isStreamEventType('deployment')).toBe(false)
+  })
+})
+
+describe('subscriberWantsEvent', () => {
+  const statusChange = (toStatus: string) => ({ event_type: 'deployment.status_changed', payload: { toStatus } })
+  const deviation = { event_type: 'deviation.registered', payload: {} }
+
+  it('delivers only the selected event types', () => {
+    const subscriber = { event_types: ['deviation.registered'], statuses: [] }
+
+    expect(subscriberWantsEvent(subscriber, deviation)).toBe(true)
+    expect(subscriberWantsEvent(subscriber, statusChange('unverified_commits'))).toBe(false)
+  })
+
+  it('delivers all status changes when no statuses are selected', () => {
+    const subscriber = { event_types: ['deployment.status_changed'], statuses: [] }
+
+    expect(subscriberWantsEvent(subscriber, statusChange('approved'))).toBe(true)
+  })
+
+  it('filters status changes on the new status', () => {
+    const subscriber = {
+      event_types: ['deployment.status_changed', 'deviation.registered'],
+      statuses: ['unverified_commits', 'manually_approved'],
+    }
+
+    expect(subscriberWantsEvent(subscriber, statusChange('unverified_commits'))).toBe(true)
+    expect(subscriberWantsEvent(subscriber, statusChange('manually_approved'))).toBe(true)
+    expect(subscriberWantsEvent(subscriber, statusChange('approved'))).toBe(false)
+    // The status filter does not apply to deviations
+    expect(subscriberWantsEvent(subscriber, deviation)).toBe(true)
+  })
+})
+
+describe('getRetryDelayMs', () => {
+  it('doubles the delay from one minute', () => {
+    expect(getRetryDelayMs(1)).toBe(60_000)
+    expect(getRetryDelayMs(2)).toBe(120_000)
+    expect(getRetryDelayMs(5)).toBe(16 * 60_000)
+  })
+
+  it('caps the delay at six hours', () => {
+    expect(getRetryDelayMs(20)).toBe(6 * 60 * 60_000)
+  })
+
+  it('keeps retrying for most of a day before giving up', () => {
+    let total = 0
+    for (let attempt = 1; attempt < MAX_DELIVERY_ATTEMPTS; attempt++) {
+      total += getRetryDelayMs(attempt)
+    }
+    expect(total).toBeGreaterThan(12 * 60 * 60_000)
+    expect(total).toBeLessThan(36 * 60 * 60_000)
+  })
+})
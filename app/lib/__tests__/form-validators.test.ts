@@ -2,9 +2,14 @@ import { describe, expect, it } from 'vitest'
 import {
   getFormString,
   isValidEmail,
+  isValidGitHubTeamSlug,
   isValidGitHubUsername,
   isValidNavIdent,
+  isValidRepositoryPath,
   isValidSlackChannel,
+  isValidWebhookUrl,
+  isValidWorkflowEvent,
+  isValidWorkflowFile,
 } from '../form-validators'
 
 describe('form-validators', () => {
@@ -80,6 +85,95 @@ describe('form-validators', () => {
       expect(isValidGitHubUsername('a'.repeat(40))).toBe(false)
     })
   })
+
+  describe('isValidGitHubTeamSlug', () => {
+    it('accepts valid team slugs', () => {
+      expect(isValidGitHubTeamSlug('team-pensjon')).toBe(true)
+      expect(isValidGitHubTeamSlug('payments_core')).toBe(true)
+      expect(isValidGitHubTeamSlug('team1')).toBe(true)
+    })
+
+    it('rejects invalid team slugs', () => {
+      expect(isValidGitHubTeamSlug('')).toBe(false)
+      expect(isValidGitHubTeamSlug('Team Pensjon')).toBe(false)
+      expect(isValidGitHubTeamSlug('navikt/team-pensjon')).toBe(false)
+      expect(isValidGitHubTeamSlug('-team')).toBe(false)
+    })
+  })
+
+  describe('isValidWorkflowFile', () => {
+    it('accepts workflow paths and file names', () => {
+      expect(isValidWorkflowFile('.github/workflows/deploy.yml')).toBe(true)
+      expect(isValidWorkflowFile('deploy-prod.yaml')).toBe(true)
+    })
+
+    it('rejects other paths and file types', () => {
+      expect(isValidWorkflowFile('')).toBe(false)
+      expect(isValidWorkflowFile('deploy')).toBe(false)
+      expect(isValidWorkflowFile('workflows/deploy.yml')).toBe(false)
+      expect(isValidWorkflowFile('.github/workflows/../deploy.yml')).toBe(false)
+    })
+  })
+
+  describe('isValidRepositoryPath', () => {
+    it('accepts directories in a repository', () => {
+      expect(isValidRepositoryPath('apps/my-app')).toBe(true)
+      expect(isValidRepositoryPath('/apps/my-app/')).toBe(true)
+      expect(isValidRepositoryPath('libs')).toBe(true)
+    })
+
+    it('rejects empty, relative and malformed paths', () => {
+      expect(isValidRepositoryPath('')).toBe(false)
+      expect(isValidRepositoryPath('apps/../secrets')).toBe(false)
+      expect(isValidRepositoryPath('./apps')).toBe(false)
+      expect(isValidRepositoryPath('apps//my-app')).toBe(false)
+      expect(isValidRepositoryPath('apps/*')).toBe(false)
+    })
+  })
+
+  describe('isValidWorkflowEvent', () => {
+    it('accepts GitHub event names', () => {
+      expect(isValidWorkflowEvent('push')).toBe(true)
+      expect(isValidWorkflowEvent('workflow_dispatch')).toBe(true)
+    })
+
+    it('rejects invalid event names', () => {
+      expect(isValidWorkflowEvent('')).toBe(false)
+      expect(isValidWorkflowEvent('Push')).toBe(false)
+      expect(isValidWorkflowEvent('workflow-dispatch')).toBe(false)
+    })
+  })
+
+  describe('isValidWebhookUrl', () => {
+    it('accepts https URLs', () => {
+      expect(isValidWebhookUrl('https://example.webhook.office.com/webhookb2/abc')).toBe(true)
+      expect(isValidWebhookUrl('https://hooks.example.com/nda?token=1')).toBe(true)
+    })
+
+    it('rejects other protocols and invalid URLs', () => {
+      expect(isValidWebhookUrl('')).toBe(false)
+      expect(isValidWebhookUrl('http://hooks.example.com/nda')).toBe(false)
+      expect(isValidWebhookUrl('ftp://hooks.example.com')).toBe(false)
+      expect(isValidWebhookUrl('hooks.example.com/nda')).toBe(false)
+    })
+
+    it('rejects IP addresses, loopback and cluster-internal hosts', () => {
+      expect(isValidWebhookUrl('https://127.0.0.1/hook')).toBe(false)
+      expect(isValidWebhookUrl('https://2130706433/hook')).toBe(false)
+      expect(isValidWebhookUrl('https://0x7f.1/hook')).toBe(false)
+      expect(isValidWebhookUrl('https://169.254.169.254/computeMetadata/v1/')).toBe(false)
+      expect(isValidWebhookUrl('https://10.0.0.12/hook')).toBe(false)
+      expect(isValidWebhookUrl('https://[::1]/hook')).toBe(false)
+      expect(isValidWebhookUrl('https://[fe80::1]/hook')).toBe(false)
+      expect(isValidWebhookUrl('https://localhost/hook')).toBe(false)
+      expect(isValidWebhookUrl('https://api.localhost./hook')).toBe(false)
+      expect(isValidWebhookUrl('https://metadata.google.internal/hook')).toBe(false)
+      expect(isValidWebhookUrl('https://kiss/hook')).toBe(false)
+      expect(isValidWebhookUrl('https://kiss.team.svc/hook')).toBe(false)
+      expect(isValidWebhookUrl('https://kiss.team.svc.cluster.local/hook')).toBe(false)
+      expect(isValidWebhookUrl('https://user@127.0.0.1/hook')).toBe(false)
+    })
+  })
 })
 
 describe('getFormString', () => {
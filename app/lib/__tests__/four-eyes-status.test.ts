@@ -73,6 +73,7 @@ describe('isNotApprovedStatus', () => {
     'approved_pr_with_unreviewed',
     'unauthorized_repository',
     'unauthorized_branch',
+    'unauthorized_workflow',
     'legacy',
     'legacy_pending',
     'error',
@@ -0,0 +1,234 @@
+/**
+ * Tests for GitHub webhook signature validation and payload mapping.
+ */
+import { createHmac } from 'node:crypto'
+import { describe, expect, it } from 'vitest'
+import {
+  getPushCompareRange,
+  isHandledWebhookEvent,
+  mapPullRequestToMetadata,
+  mapPushCommits,
+  mergeWebhookReview,
+  type PullRequestEventPayload,
+  type PullRequestReviewEventPayload,
+  type PushEventPayload,
+  pullRequestActionChangesCommits,
+  verifyWebhookSignature,
+} from '../github/webhook'
+import type { PrMetadata, PrReview } from '../verification/types'
+
+const SECRET = 'webhook-secret'
+
+function sign(body: string, secret = SECRET): string {
+  return `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`
+}
+
+const pullRequest: PullRequestEventPayload['pull_request'] = {
+  number: 42,
+  title: 'PEN-1: Fix beregning',
+  body: 'Beskrivelse',
+  state: 'closed',
+  merged: true,
+  draft: false,
+  created_at: '2026-03-01T10:00:00Z',
+  updated_at: '2026-03-02T10:00:00Z',
+  merged_at: '2026-03-02T10:00:00Z',
+  closed_at: '2026-03-02T10:00:00Z',
+  base: { ref: 'main', sha: 'base123' },
+  head: { ref: 'feature/pen-1', sha: 'head456' },
+  merge_commit_sha: 'merge789',
+  user: { login: 'developer-a', avatar_url: 'https://avatar/a' },
+  merged_by: { login: 'developer-b', avatar_url: 'https://avatar/b' },
+  labels: [{ name: 'bug' }],
+  commits: 2,
+  changed_files: 3,
+  additions: 10,
+  deletions: 4,
+  requested_teams: [{ name: 'Team Pensjon', slug: 'team-pensjon' }],
+}
+
+function review(overrides: Partial<PullRequestReviewEventPayload['review']>): PullRequestReviewEventPayload['review'] {
+  return {
+    id: 1001,
+    user: { login: 'reviewer' },
+    state: 'approved',
+    submitted_at: '2026-03-02T09:00:00Z',
+    body: null,
+    ...overrides,
+  }
+}
+
+describe('verifyWebhookSignature', () => {
+  const body = JSON.stringify({ action: 'submitted' })
+
+  it('accepts a valid signature', () => {
+    expect(verifyWebhookSignature(SECRET, body, sign(body))).toBe(true)
+  })
+
+  it('rejects a signature made with another secret', () => {
+    expect(verifyWebhookSignature(SECRET, body, sign(body, 'other-secret'))).toBe(false)
+  })
+
+  it('rejects a signature for a tampered body', () => {
+    expect(verifyWebhookSignature(SECRET, `${body} `, sign(body))).toBe(false)
+  })
+
+  it('rejects missing or malformed headers', () => {
+    expect(verifyWebhookSignature(SECRET, body, null)).toBe(false)
+    expect(verifyWebhookSignature(SECRET, body, 'sha1=abc')).toBe(false)
+    expect(verifyWebhookSignature(SECRET, body, 'sha256=short')).toBe(false)
+  })
+})
+
+describe('isHandledWebhookEvent', () => {
+  it('recognizes handled events', () => {
+    expect(isHandledWebhookEvent('pull_request')).toBe(true)
+    expect(isHandledWebhookEvent('pull_request_review')).toBe(true)
+    expect(isHandledWebhookEvent('push')).toBe(true)
+  })
+
+  it('ignores other events', () => {
+    expect(isHandledWebhookEvent('ping')).toBe(false)
+    expect(isHandledWebhookEvent(null)).toBe(false)
+  })
+})
+
+describe('mapPullRequestToMetadata', () => {
+  it('maps webhook fields to PrMetadata', () => {
+    const metadata = mapPullRequestToMetadata(pullRequest)
+
+    expect(metadata.number).toBe(42)
+    expect(metadata.merged).toBe(true)
+    expect(metadata.baseBranch).toBe('main')
+    expect(metadata.headSha).toBe('head456')
+    expect(metadata.mergeCommitSha).toBe('merge789')
+    expect(metadata.author).toEqual({ username: 'developer-a', avatarUrl: 'https://avatar/a' })
+    expect(metadata.mergedBy).toEqual({ username: 'developer-b', avatarUrl: 'https://avatar/b' })
+    expect(metadata.labels).toEqual(['bug'])
+    expect(metadata.requestedTeams).toEqual([{ name: 'Team Pensjon', slug: 'team-pensjon' }])
+  })
+
+  it('keeps fields the webhook does not carry from the previous snapshot', () => {
+    const previous = { ...mapPullRequestToMetadata(pullRequest), checksPassed: true } as PrMetadata
+    const metadata = mapPullRequestToMetadata({ ...pullRequest, commits: undefined }, previous)
+
+    expect(metadata.checksPassed).toBe(true)
+    expect(metadata.commitsCount).toBe(2)
+  })
+
+  it('derives merged from merged_at when merged is absent', () => {
+    const metadata = mapPullRequestToMetadata({ ...pullRequest, merged: undefined })
+    expect(metadata.merged).toBe(true)
+  })
+})
+
+describe('mergeWebhookReview', () => {
+  const existingApproval: PrReview = {
+    id: 1,
+    username: 'reviewer',
+    state: 'APPROVED',
+    submittedAt: '2026-03-02T09:00:00Z',
+    body: null,
+  }
+
+  it('adds a review from a new reviewer', () => {
+    const result = mergeWebhookReview([], review({}))
+    expect(result).toEqual([
+      { id: 1001, username: 'reviewer', state: 'APPROVED', submittedAt: '2026-03-02T09:00:00Z', body: null },
+    ])
+  })
+
+  it('appends later reviews from the same reviewer to the history', () => {
+    const result = mergeWebhookReview(
+      [existingApproval],
+      review({ state: 'changes_requested', submitted_at: '2026-03-02T11:00:00Z' }),
+    )
+    expect(result.map((r) => r.state)).toEqual(['APPROVED', 'CHANGES_REQUESTED'])
+  })
+
+  it('keeps the history in submission order', () => {
+    const result = mergeWebhookReview([existingApproval], review({ id: 1002, submitted_at: '2026-03-01T09:00:00Z' }))
+    expect(result.map((r) => r.id)).toEqual([1002, 1])
+  })
+
+  it('replaces the review that was dismissed', () => {
+    const result = mergeWebhookReview([existingApproval], review({ id: 1, state: 'dismissed' }))
+    expect(result).toHaveLength(1)
+    expect(result[0].state).toBe('DISMISSED')
+  })
+
+  it('ignores reviews without user or submission time', () => {
+    expect(mergeWebhookReview([existingApproval], review({ user: null }))).toEqual([existingApproval])
+    expect(mergeWebhookReview([existingApproval], review({ submitted_at: null }))).toEqual([existingApproval])
+  })
+})
+
+describe('mapPushCommits', () => {
+  const payload: PushEventPayload = {
+    ref: 'refs/heads/main',
+    before: 'aaa',
+    after: 'ccc',
+    repository: { name: 'pensjon-app', owner: { login: 'navikt' } },
+    commits: [
+      {
+        id: 'bbb',
+        message: 'Fix bug',
+        timestamp: '2026-03-02T10:00:00Z',
+        url: 'https://github.com/navikt/pensjon-app/commit/bbb',
+        author: { name: 'Dev A', email: 'a@nav.no', username: 'developer-a' },
+        committer: { name: 'GitHub', email: 'noreply@github.com' },
+      },
+      {
+        id: 'ccc',
+        message: 'Merge pull request #42 from navikt/feature',
+        timestamp: '2026-03-02T10:05:00Z',
+        url: 'https://github.com/navikt/pensjon-app/commit/ccc',
+        author: { name: 'Dev B', email: 'b@nav.no' },
+        committer: { name: 'GitHub', email: 'noreply@github.com' },
+      },
+    ],
+  }
+
+  it('maps commits with parents from the compare and no username without a GitHub login', () => {
+    const commits = mapPushCommits(
+      payload,
+      new Map([
+        ['bbb', ['aaa']],
+        ['ccc', ['bbb', 'ddd']],
+      ]),
+    )
+
+    expect(commits).toHaveLength(2)
+    expect(commits[0]).toMatchObject({ sha: 'bbb', authorUsername: 'developer-a', parentShas: ['aaa'] })
+    expect(commits[0].isMergeCommit).toBe(false)
+    expect(commits[1]).toMatchObject({ sha: 'ccc', authorUsername: '', parentShas: ['bbb', 'ddd'] })
+    expect(commits[1].isMergeCommit).toBe(true)
+  })
+
+  it('leaves out commits without known parents', () => {
+    expect(mapPushCommits(payload, new Map([['bbb', ['aaa']]])).map((c) => c.sha)).toEqual(['bbb'])
+    expect(mapPushCommits(payload, new Map())).toEqual([])
+  })
+})
+
+describe('getPushCompareRange', () => {
+  const push = { ref: 'refs/heads/main', commits: [], repository: { name: 'app', owner: { login: 'navikt' } } }
+
+  it('compares the push range', () => {
+    expect(getPushCompareRange({ ...push, before: 'aaa', after: 'ccc' })).toEqual({ base: 'aaa', head: 'ccc' })
+  })
+
+  it('has no range for created or deleted branches', () => {
+    expect(getPushCompareRange({ ...push, before: '0'.repeat(40), after: 'ccc' })).toBeNull()
+    expect(getPushCompareRange({ ...push, before: 'aaa', after: '0'.repeat(40), deleted: true })).toBeNull()
+  })
+})
+
+describe('pullRequestActionChangesCommits', () => {
+  it('requires a refresh for actions that change commits', () => {
+    expect(pullRequestActionChangesCommits('synchronize')).toBe(true)
+    expect(pullRequestActionChangesCommits('opened')).toBe(true)
+    expect(pullRequestActionChangesCommits('closed')).toBe(false)
+    expect(pullRequestActionChangesCommits('edited')).toBe(false)
+  })
+})
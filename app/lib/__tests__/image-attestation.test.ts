@@ -0,0 +1,156 @@
+import { describe, expect, it } from 'vitest'
+import {
+  buildImageReference,
+  evaluateImageAttestation,
+  getImageAttestationAlertType,
+  isFinalImageAttestationStatus,
+  isWorkflowIdentityInRepository,
+  parseImageReference,
+  parseProvenanceSource,
+} from '../image-attestation'
+
+/**
+ * Tests for the container image attestation helpers.
+ *
+ * WHY: The four-eyes check proves that a commit was reviewed, not that the
+ * running image was built from it. If provenance parsing or the comparison is
+ * wrong, an image built from another commit or repository passes silently, or
+ * every deployment raises a false alert.
+ */
+
+const DIGEST = `sha256:${'a'.repeat(64)}`
+const COMMIT = 'abc123def4567890abc123def4567890abc12345'
+
+function makeBundle(statement: Record<string, unknown>) {
+  return {
+    dsseEnvelope: {
+      payloadType: 'application/vnd.in-toto+json',
+      payload: Buffer.from(JSON.stringify(statement)).toString('base64'),
+    },
+  }
+}
+
+function makeProvenance(uri: string, gitCommit: string) {
+  return makeBundle({
+    _type: 'https://in-toto.io/Statement/v1',
+    subject: [{ name: 'ghcr.io/navikt/app', digest: { sha256: 'a'.repeat(64) } }],
+    predicateType: 'https://slsa.dev/provenance/v1',
+    predicate: {
+      buildDefinition: {
+        externalParameters: { workflow: { ref: 'refs/heads/main', path: '.github/workflows/deploy.yml' } },
+        resolvedDependencies: [{ uri, digest: { gitCommit } }],
+      },
+    },
+  })
+}
+
+describe('buildImageReference', () => {
+  it('joins name and tag, or name and digest', () => {
+    expect(buildImageReference('europe-north1-docker.pkg.dev/nais/team/app', '2026.01.01-abc1234')).toBe(
+      'europe-north1-docker.pkg.dev/nais/team/app:2026.01.01-abc1234',
+    )
+    expect(buildImageReference('ghcr.io/navikt/app', DIGEST)).toBe(`ghcr.io/navikt/app@${DIGEST}`)
+  })
+})
+
+describe('parseImageReference', () => {
+  it('parses registry, repository, tag and digest', () => {
+    expect(parseImageReference(`ghcr.io/navikt/app:1.0@${DIGEST}`)).toEqual({
+      registry: 'ghcr.io',
+      repository: 'navikt/app',
+      tag: '1.0',
+      digest: DIGEST,
+    })
+  })
+
+  it('handles registries with a port', () => {
+    expect(parseImageReference('localhost:5000/app:latest')).toEqual({
+      registry: 'localhost:5000',
+      repository: 'app',
+      tag: 'latest',
+      digest: null,
+    })
+  })
+
+  it('rejects references without a registry host or with an invalid digest', () => {
+    expect(parseImageReference('navikt/app:1.0')).toBeNull()
+    expect(parseImageReference('ghcr.io/navikt/app@sha256:short')).toBeNull()
+  })
+})
+
+describe('parseProvenanceSource', () => {
+  it('reads the source repository and commit from SLSA provenance', () => {
+    const bundle = makeProvenance('git+https://github.com/navikt/app@refs/heads/main', COMMIT)
+
+    expect(parseProvenanceSource(bundle, DIGEST)).toEqual({ repository: 'navikt/app', commitSha: COMMIT })
+  })
+
+  it('ignores statements about another image digest', () => {
+    const bundle = makeProvenance('git+https://github.com/navikt/app@refs/heads/main', COMMIT)
+
+    expect(parseProvenanceSource(bundle, `sha256:${'b'.repeat(64)}`)).toBeNull()
+  })
+
+  it('ignores other attestation types and malformed payloads', () => {
+    expect(parseProvenanceSource(makeBundle({ predicateType: 'https://spdx.dev/Document/v2.3' }), DIGEST)).toBeNull()
+    expect(parseProvenanceSource({ dsseEnvelope: { payload: 'not-base64-json' } }, DIGEST)).toBeNull()
+    expect(parseProvenanceSource(null, DIGEST)).toBeNull()
+  })
+})
+
+describe('isWorkflowIdentityInRepository', () => {
+  it('matches workflows in the repository only', () => {
+    const identity = 'https://github.com/navikt/app/.github/workflows/deploy.yml@refs/heads/main'
+
+    expect(isWorkflowIdentityInRepository(identity, 'navikt/app')).toBe(true)
+    expect(isWorkflowIdentityInRepository(identity, 'NAVIKT/App')).toBe(true)
+    expect(isWorkflowIdentityInRepository(identity, 'navikt/ap')).toBe(false)
+    expect(isWorkflowIdentityInRepository(undefined, 'navikt/app')).toBe(false)
+  })
+})
+
+describe('evaluateImageAttestation', () => {
+  const expected = { repository: 'navikt/app', commitSha: COMMIT }
+
+  it('is verified when an attestation matches repository and commit', () => {
+    const result = evaluateImageAttestation(
+      [
+        { repository: 'navikt/app', commitSha: 'other' },
+        { repository: 'NAVIKT/app', commitSha: COMMIT },
+      ],
+      expected,
+    )
+
+    expect(result.status).toBe('verified')
+  })
+
+  it('reports a commit mismatch when the image was built from another commit', () => {
+    const result = evaluateImageAttestation([{ repository: 'navikt/app', commitSha: 'other' }], expected)
+
+    expect(result).toEqual({ status: 'commit_mismatch', attested: { repository: 'navikt/app', commitSha: 'other' } })
+  })
+
+  it('reports a repository mismatch and a missing attestation', () => {
+    expect(evaluateImageAttestation([{ repository: 'navikt/fork', commitSha: COMMIT }], expected).status).toBe(
+      'repository_mismatch',
+    )
+    expect(evaluateImageAttestation([], expected)).toEqual({ status: 'missing_attestation', attested: null })
+  })
+})
+
+describe('getImageAttestationAlertType', () => {
+  it('raises alerts for mismatches but not for verified images or unknown digests', () => {
+    expect(getImageAttestationAlertType('commit_mismatch')).toBe('image_commit_mismatch')
+    expect(getImageAttestationAlertType('verified')).toBeNull()
+    expect(getImageAttestationAlertType('digest_unavailable')).toBeNull()
+  })
+})
+
+describe('isFinalImageAttestationStatus', () => {
+  it('checks the image again when it has not been checked or the digest was unavailable', () => {
+    expect(isFinalImageAttestationStatus('verified')).toBe(true)
+    expect(isFinalImageAttestationStatus('missing_attestation')).toBe(true)
+    expect(isFinalImageAttestationStatus('digest_unavailable')).toBe(false)
+    expect(isFinalImageAttestationStatus(null)).toBe(false)
+  })
+})
@@ -0,0 +1,215 @@
+import { createHmac } from 'node:crypto'
+import { describe, expect, it } from 'vitest'
+import {
+  getEventDeploymentId,
+  getNotificationSummary,
+  hasNotificationTarget,
+  isNotificationChannelType,
+  type NotificationEvent,
+} from '../notifications/events'
+import { buildTeamsMessage } from '../notifications/teams'
+import { buildWebhookPayload, signWebhookPayload } from '../notifications/webhook'
+
+/**
+ * Tests for the Teams and webhook notification channels.
+ *
+ * WHY: Sections that use Teams or their own systems only see what these
+ * builders produce. The webhook signature is what lets receivers trust a
+ * notification, so it must match what they compute from the documented
+ * `${timestamp}.${body}` scheme.
+ */
+
+const deploymentEvent: NotificationEvent = {
+  type: 'deployment',
+  notification: {
+    deploymentId: 42,
+    appName: 'pensjon-pen',
+    environmentName: 'prod-fss',
+    teamSlug: 'pensjondeployer',
+    commitSha: 'abc1234567890',
+    commitMessage: 'Fiks beregning',
+    deployerName: 'ola',
+    deployerUsername: 'ola',
+    prNumber: 17,
+    prUrl: 'https://github.com/navikt/pensjon-pen/pull/17',
+    status: 'unverified',
+    detailsUrl: 'https://nda.example/deployments/42',
+  },
+}
+
+const reminderDeployments = Array.from({ length: 12 }, (_, i) => ({
+  id: i + 1,
+  commitSha: `sha${i}00000000`,
+  deployerName: 'kari',
+  status: 'pending_approval',
+  createdAt: '1. jan. 2026, 10:00',
+  detailsUrl: `https://nda.example/deployments/${i + 1}`,
+}))
+
+const reminderEvent: NotificationEvent = {
+  type: 'reminder',
+  notification: {
+    appName: 'pensjon-pen',
+    environmentName: 'prod-fss',
+    teamSlug: 'pensjondeployer',
+    deployments: reminderDeployments,
+    deploymentsListUrl: 'https://nda.example/deployments?status=not_approved',
+  },
+}
+
+function cardOf(event: NotificationEvent) {
+  const message = buildTeamsMessage(event)
+  expect(message.type).toBe('message')
+  expect(message.attachments).toHaveLength(1)
+  expect(message.attachments[0].contentType).toBe('application/vnd.microsoft.card.adaptive')
+  return message.attachments[0].content
+}
+
+describe('notification events', () => {
+  it('recognizes channel types', () => {
+    expect(isNotificationChannelType('slack')).toBe(true)
+    expect(isNotificationChannelType('teams')).toBe(true)
+    expect(isNotificationChannelType('webhook')).toBe(true)
+    expect(isNotificationChannelType('email')).toBe(false)
+    expect(isNotificationChannelType(null)).toBe(false)
+  })
+
+  it('requires a target for the selected channel', () => {
+    const endpoints = { teams_webhook_url: 'https://teams.example/hook', webhook_url: null, webhook_secret: null }
+
+    expect(hasNotificationTarget({ notification_channel: 'slack', slack_channel_id: 'C123' }, null)).toBe(true)
+    expect(hasNotificationTarget({ notification_channel: 'slack', slack_channel_id: null }, endpoints)).toBe(false)
+    expect(hasNotificationTarget({ notification_channel: 'teams', slack_channel_id: null }, endpoints)).toBe(true)
+    expect(hasNotificationTarget({ notification_channel: 'teams', slack_channel_id: 'C123' }, null)).toBe(false)
+  })
+
+  it('requires both URL and secret for webhooks', () => {
+    const app = { notification_channel: 'webhook' as const, slack_channel_id: null }
+
+    expect(
+      hasNotificationTarget(app, {
+        teams_webhook_url: null,
+        webhook_url: 'https://hooks.example',
+        webhook_secret: null,
+      }),
+    ).toBe(false)
+    expect(
+      hasNotificationTarget(app, {
+        teams_webhook_url: null,
+        webhook_url: 'https://hooks.example',
+        webhook_secret: 'a-long-enough-secret',
+      }),
+    ).toBe(true)
+  })
+
+  it('links single-deployment events to the deployment', () => {
+    expect(getEventDeploymentId(deploymentEvent)).toBe(42)
+    expect(getEventDeploymentId(reminderEvent)).toBeNull()
+  })
+
+  it('summarizes events in one line', () => {
+    expect(getNotificationSummary(deploymentEvent)).toBe('Deployment: pensjon-pen (prod-fss)')
+    expect(getNotificationSummary(reminderEvent)).toBe('12 deployments mangler godkjenning — pensjon-pen (prod-fss)')
+  })
+})
+
+describe('buildTeamsMessage', () => {
+  it('builds an Adaptive Card for a deployment with facts and links', () => {
+    const card = cardOf(deploymentEvent)
+
+    expect(card.type).toBe('AdaptiveCard')
+    expect(card.body[0]).toMatchObject({ type: 'TextBlock', text: '⚠️ Deployment: pensjon-pen (prod-fss)' })
+    expect(card.body[1]).toMatchObject({
+      type: 'FactSet',
+      facts: expect.arrayContaining([
+        { title: 'Status', value: 'Uverifisert' },
+        { title: 'Commit', value: 'abc1234' },
+        { title: 'Pull request', value: '#17' },
+      ]),
+    })
+    expect(card.actions).toEqual([
+      { type: 'Action.OpenUrl', title: 'Se deployment', url: 'https://nda.example/deployments/42' },
+      { type: 'Action.OpenUrl', title: 'Se pull request', url: 'https://github.com/navikt/pensjon-pen/pull/17' },
+    ])
+  })
+
+  it('leaves out facts without a value', () => {
+    const card = cardOf({
+      type: 'deviation',
+      notification: {
+        deploymentId: 42,
+        appName: 'pensjon-pen',
+        environmentName: 'prod-fss',
+        teamSlug: 'pensjondeployer',
+        commitSha: 'abc1234567890',
+        reason: 'Manglet review',
+        registeredByName: 'Kari Nordmann',
+        detailsUrl: 'https://nda.example/deployments/42',
+      },
+    })
+
+    const titles = (card.body[1] as { facts: Array<{ title: string }> }).facts.map((fact) => fact.title)
+    expect(titles).toEqual(['Team', 'Commit', 'Registrert av'])
+    expect(card.body[2]).toMatchObject({ text: 'Manglet review' })
+  })
+
+  it('caps the deployment list of reminders', () => {
+    const card = cardOf(reminderEvent)
+
+    const listed = card.body.filter((element) => String(element.text).startsWith('[#'))
+    expect(listed).toHaveLength(10)
+    expect(card.body.some((element) => element.text === '… og 2 til')).toBe(true)
+    expect(card.actions[0]).toMatchObject({ url: 'https://nda.example/deployments?status=not_approved' })
+  })
+
+  it('builds a card for a repository alert with severity and description', () => {
+    const card = cardOf({
+      type: 'repository_alert',
+      notification: {
+        alertId: 7,
+        deploymentId: null,
+        appName: 'pensjon-pen',
+        environmentName: 'prod-fss',
+        teamSlug: 'pensjondeployer',
+        alertType: 'repository_archived',
+        severity: 'high',
+        description: 'Repoet navikt/pensjon-pen er arkivert på GitHub',
+        detailsUrl: 'https://nda.example/team/pensjondeployer/env/prod-fss/app/pensjon-pen#varsler',
+      },
+    })
+
+    expect(card.body[0]).toMatchObject({ text: '🚨 Repository-varsel: Repo arkivert — pensjon-pen (prod-fss)' })
+    expect(card.body[1]).toMatchObject({ facts: expect.arrayContaining([{ title: 'Alvorlighetsgrad', value: 'Høy' }]) })
+    expect(card.body[2]).toMatchObject({ text: 'Repoet navikt/pensjon-pen er arkivert på GitHub' })
+  })
+})
+
+describe('webhook payload', () => {
+  it('wraps the event with app identity and summary', () => {
+    const payload = buildWebhookPayload(deploymentEvent, new Date('2026-01-01T10:00:00Z'))
+
+    expect(payload).toMatchObject({
+      event: 'deployment',
+      sentAt: '2026-01-01T10:00:00.000Z',
+      summary: 'Deployment: pensjon-pen (prod-fss)',
+      app: { team: 'pensjondeployer', environment: 'prod-fss', name: 'pensjon-pen' },
+      deploymentId: 42,
+    })
+    expect(payload.data).toEqual(deploymentEvent.notification)
+  })
+
+  it('signs timestamp and body with HMAC-SHA256', () => {
+    const body = JSON.stringify(buildWebhookPayload(deploymentEvent, new Date('2026-01-01T10:00:00Z')))
+    const expected = createHmac('sha256', 'shared-secret').update(`1767261600.${body}`).digest('hex')
+
+    expect(signWebhookPayload(body, 'shared-secret', 1767261600)).toBe(`sha256=${expected}`)
+  })
+
+  it('changes the signature when body, secret or timestamp changes', () => {
+    const signature = signWebhookPayload('{"a":1}', 'secret', 1)
+
+    expect(signWebhookPayload('{"a":2}', 'secret', 1)).not.toBe(signature)
+    expect(signWebhookPayload('{"a":1}', 'other', 1)).not.toBe(signature)
+    expect(signWebhookPayload('{"a":1}', 'secret', 2)).not.toBe(signature)
+  })
+})
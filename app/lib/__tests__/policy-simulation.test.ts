@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest'
+import {
+  classifySimulationOutcome,
+  countSimulationOutcomes,
+  DEFAULT_SIMULATION_DAYS,
+  isSamePolicy,
+  parsePolicySimulationParams,
+} from '../verification/policy-simulation'
+
+/**
+ * Tests for the policy simulation helpers.
+ *
+ * WHY: Admins use the simulation to decide whether to loosen or tighten an
+ * app's approval rules. If the form falls back to the wrong policy, or a
+ * change is classified the wrong way, the page shows a harmless switch where
+ * deployments would actually lose their approval, or the other way around.
+ */
+
+const current = {
+  implicitApprovalSettings: { mode: 'off' as const },
+  approvalPolicySettings: { minApprovals: 1, requiredTeams: ['team-a'] },
+}
+
+const NOW = new Date('2026-03-15T10:00:00Z')
+
+describe('parsePolicySimulationParams', () => {
+  it('defaults to the current policy and the last days up to and including today', () => {
+    const { from, to, alternative } = parsePolicySimulationParams(new URLSearchParams(), current, NOW)
+
+    expect(alternative).toEqual(current)
+    expect(to.toISOString()).toBe('2026-03-16T00:00:00.000Z')
+    expect(to.getTime() - from.getTime()).toBe(DEFAULT_SIMULATION_DAYS * 24 * 60 * 60 * 1000)
+  })
+
+  it('reads the alternative policy and includes the whole to-date', () => {
+    const params = new URLSearchParams({
+      from: '2026-01-01',
+      to: '2026-01-31',
+      mode: 'dependabot_only',
+      min_approvals: '2',
+      required_teams: 'Team-B, team-c team-b',
+    })
+
+    const { from, to, alternative } = parsePolicySimulationParams(params, current, NOW)
+
+    expect(from.toISOString()).toBe('2026-01-01T00:00:00.000Z')
+    expect(to.toISOString()).toBe('2026-02-01T00:00:00.000Z')
+    expect(alternative).toEqual({
+      implicitApprovalSettings: { mode: 'dependabot_only' },
+      approvalPolicySettings: { minApprovals: 2, requiredTeams: ['team-b', 'team-c'] },
+    })
+  })
+
+  it('falls back to the current policy for invalid values', () => {
+    const params = new URLSearchParams({ mode: 'everyone', min_approvals: '9', from: '01.01.2026' })
+
+    const { alternative } = parsePolicySimulationParams(params, current, NOW)
+
+    expect(alternative).toEqual(current)
+  })
+
+  it('allows removing all required teams', () => {
+    const params = new URLSearchParams({ mode: 'off', required_teams: '' })
+
+    const { alternative } = parsePolicySimulationParams(params, current, NOW)
+
+    expect(alternative.approvalPolicySettings.requiredTeams).toEqual([])
+  })
+})
+
+describe('classifySimulationOutcome', () => {
+  it('reports unchanged when both policies give the same status', () => {
+    expect(classifySimulationOutcome('unverified_commits', 'unverified_commits')).toBe('unchanged')
+  })
+
+  it('reports deployments that would become approved', () => {
+    expect(classifySimulationOutcome('unverified_commits', 'implicitly_approved')).toBe('becomes_approved')
+  })
+
+  it('reports deployments that would lose their approval', () => {
+    expect(classifySimulationOutcome('approved', 'unverified_commits')).toBe('becomes_unapproved')
+  })
+
+  it('reports other changes between approved statuses', () => {
+    expect(classifySimulationOutcome('approved', 'implicitly_approved')).toBe('status_changed')
+  })
+})
+
+describe('countSimulationOutcomes', () => {
+  it('counts every outcome, including those with no deployments', () => {
+    expect(countSimulationOutcomes(['unchanged', 'becomes_approved', 'unchanged'])).toEqual({
+      unchanged: 2,
+      becomes_approved: 1,
+      becomes_unapproved: 0,
+      status_changed: 0,
+    })
+  })
+})
+
+describe('isSamePolicy', () => {
+  it('ignores the order of required teams', () => {
+    const reordered = {
+      implicitApprovalSettings: { mode: 'off' as const },
+      approvalPolicySettings: { minApprovals: 1, requiredTeams: ['team-b', 'team-a'] },
+    }
+    const original = { ...reordered, approvalPolicySettings: { minApprovals: 1, requiredTeams: ['team-a', 'team-b'] } }
+
+    expect(isSamePolicy(original, reordered)).toBe(true)
+    expect(isSamePolicy(original, { ...reordered, implicitApprovalSettings: { mode: 'all' } })).toBe(false)
+  })
+})
@@ -1,5 +1,11 @@
 import { describe, expect, it } from 'vitest'
-import { generateReportId, getCompletedPeriods, isPeriodCompleted, type ReportPeriod } from '../report-periods'
+import {
+  generateReportId,
+  getCompletedPeriods,
+  isPeriodCompleted,
+  parseReportPeriod,
+  type ReportPeriod,
+} from '../report-periods'
 
 describe('getCompletedPeriods', () => {
   describe('yearly', () => {
@@ -244,3 +250,32 @@ describe('generateReportId', () => {
     expect(id).toBe('AUDIT-Oktober-2025-pensjon-pen-prod-gcp-abcdef12')
   })
 })
+
+describe('parseReportPeriod', () => {
+  it('parses years', () => {
+    expect(parseReportPeriod('2025')).toEqual(getCompletedPeriods('yearly', new Date(2026, 5, 15))[0])
+  })
+
+  it('parses tertiaries and quarters in both orders, matching getCompletedPeriods', () => {
+    const q1 = getCompletedPeriods('quarterly', new Date(2026, 0, 15)).find((p) => p.label === 'Q1 2025')
+    expect(parseReportPeriod('Q1-2025')).toEqual(q1)
+    expect(parseReportPeriod('2025-q1')).toEqual(q1)
+    expect(parseReportPeriod('Q1 2025')).toEqual(q1)
+
+    const t2 = getCompletedPeriods('tertiary', new Date(2026, 0, 15)).find((p) => p.label === 'T2 2025')
+    expect(parseReportPeriod('T2-2025')).toEqual(t2)
+  })
+
+  it('parses months', () => {
+    const march = parseReportPeriod('2025-03')
+    expect(march?.label).toBe('Mars 2025')
+    expect(march?.startDate).toEqual(new Date(2025, 2, 1))
+    expect(march?.endDate).toEqual(new Date(2025, 2, 31, 23, 59, 59, 999))
+  })
+
+  it('rejects invalid periods', () => {
+    expect(parseReportPeriod('T4-2025')).toBeNull()
+    expect(parseReportPeriod('2025-13')).toBeNull()
+    expect(parseReportPeriod('last year')).toBeNull()
+  })
+})
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest'
+import { getDueReportPeriods } from '../report-scheduler.server'
+
+/**
+ * Tests for which periods the audit report scheduler considers due.
+ *
+ * WHY: The scheduler must only generate a report once a period has ended and
+ * the last deployments have had time to sync (24 hour grace), and it must
+ * never backfill old periods on its own — generating a historic report would
+ * append it to the hash chain out of order.
+ */
+
+describe('getDueReportPeriods', () => {
+  it('returns the latest completed period of each type', () => {
+    const periods = getDueReportPeriods(['monthly', 'quarterly', 'yearly'], new Date(2026, 4, 10))
+
+    expect(periods.map((p) => p.label)).toEqual(['April 2026', 'Q1 2026', '2025'])
+  })
+
+  it('waits 24 hours after the period ends', () => {
+    expect(getDueReportPeriods(['monthly'], new Date(2026, 4, 1, 12))[0].label).toBe('Mars 2026')
+    expect(getDueReportPeriods(['monthly'], new Date(2026, 4, 2, 0, 30))[0].label).toBe('April 2026')
+  })
+
+  it('returns tertiary periods', () => {
+    expect(getDueReportPeriods(['tertiary'], new Date(2026, 8, 15))[0].label).toBe('T2 2026')
+  })
+
+  it('ignores duplicate period types', () => {
+    expect(getDueReportPeriods(['yearly', 'yearly'], new Date(2026, 4, 10))).toHaveLength(1)
+  })
+
+  it('returns nothing before the audit start year has a completed period', () => {
+    expect(getDueReportPeriods(['yearly'], new Date(2026, 4, 10), 2026)).toEqual([])
+  })
+})
@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vitest'
+import {
+  type AlertConditionContext,
+  describeRepositoryAlert,
+  detectRepositoryConditions,
+  getRepositoryAlertTypeLabel,
+  isAlertConditionCleared,
+  REPOSITORY_ALERT_DEFAULT_SEVERITY,
+  REPOSITORY_ALERT_TYPES,
+  type RepositoryAlertFields,
+} from '../repository-alerts'
+
+/**
+ * Tests for the repository alert lifecycle rules.
+ *
+ * WHY: Open alerts are resolved automatically by the periodic sync. If a rule
+ * resolves an alert while its condition still exists, or when GitHub simply
+ * could not be asked, a real problem disappears from the inbox without anyone
+ * having looked at it.
+ */
+
+function makeAlert(overrides: Partial<RepositoryAlertFields> = {}): RepositoryAlertFields {
+  return {
+    alert_type: 'repository_mismatch',
+    expected_github_owner: 'navikt',
+    expected_github_repo_name: 'app',
+    detected_github_owner: 'navikt',
+    detected_github_repo_name: 'fork',
+    details: null,
+    ...overrides,
+  }
+}
+
+const baseContext: AlertConditionContext = {
+  activeRepositories: ['navikt/app'],
+  repositoryConditions: [],
+  latestImageAttestationStatus: null,
+  latestWorkflowPath: null,
+  allowedWorkflows: [],
+}
+
+describe('alert types', () => {
+  it('has a label and a default severity for every type', () => {
+    for (const alertType of REPOSITORY_ALERT_TYPES) {
+      expect(getRepositoryAlertTypeLabel(alertType)).not.toBe(alertType)
+      expect(REPOSITORY_ALERT_DEFAULT_SEVERITY[alertType]).toBeDefined()
+    }
+    expect(getRepositoryAlertTypeLabel('repository_changed')).toBe('repository_changed')
+  })
+
+  it('describes an alert in one sentence', () => {
+    expect(describeRepositoryAlert(makeAlert())).toBe('Deployment fra ukjent repo navikt/fork (forventet navikt/app)')
+    expect(
+      describeRepositoryAlert(makeAlert({ alert_type: 'branch_protection_disabled', details: { branch: 'main' } })),
+    ).toBe('Branch main i navikt/app er ikke beskyttet')
+    expect(
+      describeRepositoryAlert(
+        makeAlert({
+          alert_type: 'branch_protection_weakened',
+          details: { branch: 'main', weakenings: ['Påkrevde godkjenninger: 1 → 0'] },
+        }),
+      ),
+    ).toBe('Branch-beskyttelsen av main i navikt/app er svekket (Påkrevde godkjenninger: 1 → 0)')
+  })
+})
+
+describe('detectRepositoryConditions', () => {
+  it('detects rename, archive and unprotected default branch', () => {
+    expect(
+      detectRepositoryConditions('navikt/app', {
+        fullName: 'navikt/app-v2',
+        archived: true,
+        defaultBranch: 'main',
+        defaultBranchProtected: false,
+      }),
+    ).toEqual(['repository_renamed', 'repository_archived', 'branch_protection_disabled'])
+  })
+
+  it('ignores case differences and an unknown branch state', () => {
+    expect(
+      detectRepositoryConditions('NAVIKT/App', {
+        fullName: 'navikt/app',
+        archived: false,
+        defaultBranch: 'main',
+        defaultBranchProtected: null,
+      }),
+    ).toEqual([])
+  })
+})
+
+describe('isAlertConditionCleared', () => {
+  it('resolves unexpected repository alerts once the repository is active', () => {
+    const alert = makeAlert({ alert_type: 'pending_approval' })
+
+    expect(isAlertConditionCleared(alert, baseContext)).toBe(false)
+    expect(isAlertConditionCleared(alert, { ...baseContext, activeRepositories: ['navikt/app', 'navikt/fork'] })).toBe(
+      true,
+    )
+  })
+
+  it('keeps repository state alerts while the condition exists or GitHub is unavailable', () => {
+    const alert = makeAlert({ alert_type: 'repository_archived', detected_github_repo_name: 'app' })
+
+    expect(isAlertConditionCleared(alert, { ...baseContext, repositoryConditions: ['repository_archived'] })).toBe(
+      false,
+    )
+    expect(isAlertConditionCleared(alert, { ...baseContext, repositoryConditions: null })).toBe(false)
+    expect(isAlertConditionCleared(alert, baseContext)).toBe(true)
+  })
+
+  it('resolves repository state alerts when another repository has become active', () => {
+    const alert = makeAlert({ alert_type: 'repository_renamed', detected_github_repo_name: 'app-v2' })
+
+    expect(
+      isAlertConditionCleared(alert, {
+        ...baseContext,
+        activeRepositories: ['navikt/app-v2'],
+        repositoryConditions: ['repository_renamed'],
+      }),
+    ).toBe(true)
+  })
+
+  it('resolves image alerts only when the running image is verified', () => {
+    const alert = makeAlert({ alert_type: 'image_commit_mismatch' })
+
+    expect(isAlertConditionCleared(alert, { ...baseContext, latestImageAttestationStatus: 'digest_unavailable' })).toBe(
+      false,
+    )
+    expect(isAlertConditionCleared(alert, { ...baseContext, latestImageAttestationStatus: 'verified' })).toBe(true)
+  })
+
+  it('resolves a workflow change when reverted or allowed by the deploy workflow policy', () => {
+    const alert = makeAlert({
+      alert_type: 'workflow_changed',
+      details: { workflowPath: '.github/workflows/hotfix.yml', previousWorkflowPath: '.github/workflows/deploy.yml' },
+    })
+    const context = { ...baseContext, latestWorkflowPath: '.github/workflows/hotfix.yml' }
+
+    expect(isAlertConditionCleared(alert, context)).toBe(false)
+    expect(isAlertConditionCleared(alert, { ...context, latestWorkflowPath: '.github/workflows/deploy.yml' })).toBe(
+      true,
+    )
+    expect(isAlertConditionCleared(alert, { ...context, allowedWorkflows: ['deploy.yml', 'hotfix.yml'] })).toBe(true)
+  })
+
+  it('never resolves alerts of unknown types', () => {
+    expect(isAlertConditionCleared(makeAlert({ alert_type: 'repository_changed' }), baseContext)).toBe(false)
+  })
+})
@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest'
+import {
+  checkSeparationOfDuties,
+  describeSeparationOfDutiesRefusal,
+  getInvolvedPeople,
+  type SeparationOfDutiesDeployment,
+} from '../separation-of-duties'
+
+/**
+ * Tests for the separation-of-duties guard on manual approvals.
+ *
+ * WHY: A manual approval replaces the missing four-eyes review. If anyone who
+ * took part in the change — including a co-author or a second GitHub account
+ * mapped to the same person — can approve it, the approval is worthless as
+ * audit evidence.
+ */
+
+const deployment: SeparationOfDutiesDeployment = {
+  deployer_username: 'Deployer',
+  github_pr_data: {
+    creator: { username: 'Creator' },
+    merged_by: { username: 'merger' },
+    commits: [
+      {
+        message: 'Fix bug\n\nCo-authored-by: Pair <pair@nav.no>',
+        author: { username: 'creator' },
+      },
+    ],
+  },
+  unverified_commits: [{ author: 'pusher', message: 'Direct push' }],
+}
+
+const coAuthors = { 'pair@nav.no': 'pair-user' }
+
+function check(approver: { githubUsername: string; navIdent: string | null } | null, navIdents = new Map()) {
+  return checkSeparationOfDuties({
+    approver,
+    involved: getInvolvedPeople(deployment, coAuthors),
+    navIdentsByUsername: navIdents,
+  })
+}
+
+describe('getInvolvedPeople', () => {
+  it('includes creator, merger, deployer, commit authors and co-authors', () => {
+    const involved = getInvolvedPeople(deployment, coAuthors)
+    expect(involved).toEqual(
+      expect.arrayContaining([
+        { username: 'creator', role: 'pr_creator' },
+        { username: 'merger', role: 'pr_merger' },
+        { username: 'deployer', role: 'deployer' },
+        { username: 'creator', role: 'commit_author' },
+        { username: 'pusher', role: 'commit_author' },
+        { username: 'pair-user', role: 'co_author' },
+      ]),
+    )
+    expect(involved).toHaveLength(6)
+  })
+
+  it('handles deployments without PR data', () => {
+    expect(getInvolvedPeople({ deployer_username: null, github_pr_data: null, unverified_commits: null })).toEqual([])
+  })
+})
+
+describe('checkSeparationOfDuties', () => {
+  it('allows an uninvolved, mapped approver', () => {
+    expect(check({ githubUsername: 'reviewer', navIdent: 'R123456' })).toEqual({ allowed: true })
+  })
+
+  it('refuses an approver without user mapping', () => {
+    expect(check(null)).toEqual({ allowed: false, reason: 'approver_unmapped' })
+    expect(check({ githubUsername: 'reviewer', navIdent: null })).toEqual({
+      allowed: false,
+      reason: 'approver_unmapped',
+    })
+  })
+
+  it('refuses involved people regardless of username casing', () => {
+    expect(check({ githubUsername: 'CREATOR', navIdent: 'C123456' })).toEqual({
+      allowed: false,
+      reason: 'involved',
+      roles: ['pr_creator', 'commit_author'],
+    })
+    expect(check({ githubUsername: 'deployer', navIdent: 'D123456' })).toMatchObject({ roles: ['deployer'] })
+    expect(check({ githubUsername: 'merger', navIdent: 'M123456' })).toMatchObject({ roles: ['pr_merger'] })
+  })
+
+  it('refuses co-authors', () => {
+    expect(check({ githubUsername: 'pair-user', navIdent: 'P123456' })).toMatchObject({ roles: ['co_author'] })
+  })
+
+  it('refuses an approver whose NAV-ident is mapped to an involved GitHub account', () => {
+    const navIdents = new Map([['pusher', 'a123456']])
+    expect(check({ githubUsername: 'other-account', navIdent: 'A123456' }, navIdents)).toEqual({
+      allowed: false,
+      reason: 'involved',
+      roles: ['commit_author'],
+    })
+  })
+})
+
+describe('describeSeparationOfDutiesRefusal', () => {
+  it('lists every role the approver had', () => {
+    expect(
+      describeSeparationOfDutiesRefusal({ allowed: false, reason: 'involved', roles: ['pr_creator', 'deployer'] }),
+    ).toBe(
+      'Du kan ikke godkjenne denne deploymenten fordi du opprettet pull requesten og deployet endringen. Fire-øyne-prinsippet krever at en annen person godkjenner.',
+    )
+  })
+
+  it('explains missing user mapping', () => {
+    expect(describeSeparationOfDutiesRefusal({ allowed: false, reason: 'approver_unmapped' })).toContain(
+      'brukerkobling',
+    )
+  })
+})
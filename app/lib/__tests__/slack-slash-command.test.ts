@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest'
+import { parseNdaCommand } from '../slack/slash-command'
+
+describe('parseNdaCommand', () => {
+  it('shows help for empty input and help', () => {
+    expect(parseNdaCommand('')).toEqual({ type: 'help' })
+    expect(parseNdaCommand('  HELP ')).toEqual({ type: 'help' })
+  })
+
+  it('parses status with team/env/app', () => {
+    expect(parseNdaCommand('status pensjon/prod-gcp/pensjon-pen')).toEqual({
+      type: 'status',
+      teamSlug: 'pensjon',
+      environmentName: 'prod-gcp',
+      appName: 'pensjon-pen',
+    })
+    expect(parseNdaCommand('status pensjon-pen')).toMatchObject({ type: 'invalid' })
+    expect(parseNdaCommand('status pensjon//pensjon-pen')).toMatchObject({ type: 'invalid' })
+  })
+
+  it('parses pending', () => {
+    expect(parseNdaCommand('pending')).toEqual({ type: 'pending' })
+  })
+
+  it('parses approve with a Slack message link, also when Slack wraps it in angle brackets', () => {
+    const link = 'https://nav-it.slack.com/archives/C123/p1700000000000000'
+    expect(parseNdaCommand(`approve 42 ${link}`)).toEqual({ type: 'approve', deploymentId: 42, slackLink: link })
+    expect(parseNdaCommand(`approve 42 <${link}>`)).toEqual({ type: 'approve', deploymentId: 42, slackLink: link })
+  })
+
+  it('rejects approve without a valid id or Slack link', () => {
+    expect(parseNdaCommand('approve 42')).toMatchObject({ type: 'invalid' })
+    expect(parseNdaCommand('approve abc https://nav-it.slack.com/archives/C1/p1')).toMatchObject({ type: 'invalid' })
+    expect(parseNdaCommand('approve 42 https://example.com/x')).toMatchObject({ type: 'invalid' })
+  })
+
+  it('parses report with app and period, allowing a space in the period', () => {
+    expect(parseNdaCommand('report pensjon-pen Q1 2025')).toMatchObject({
+      type: 'report',
+      app: 'pensjon-pen',
+      period: { type: 'quarterly', label: 'Q1 2025' },
+    })
+    expect(parseNdaCommand('report pensjon-pen')).toMatchObject({ type: 'invalid' })
+    expect(parseNdaCommand('report pensjon-pen sometime')).toMatchObject({ type: 'invalid' })
+  })
+
+  it('rejects unknown subcommands', () => {
+    expect(parseNdaCommand('deploy now')).toMatchObject({ type: 'invalid' })
+  })
+})
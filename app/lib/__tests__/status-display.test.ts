@@ -77,6 +77,7 @@ describe('formatChangeSource — translates change source keys to Norwegian labe
     ['sync', 'Synkronisering'],
     ['legacy', 'Legacy'],
     ['baseline_approval', 'Baseline godkjent'],
+    ['group_propagation', 'Applikasjonsgruppe'],
     ['unknown', 'Ukjent'],
   ]
 
@@ -0,0 +1,59 @@
+import { readdirSync, readFileSync } from 'node:fs'
+import { join, resolve } from 'node:path'
+import { describe, expect, it } from 'vitest'
+import { parseVerificationFixture } from '../verification/fixtures'
+import { verifyDeployment } from '../verification/verify'
+
+/**
+ * Replays exported verification fixtures against verifyDeployment.
+ *
+ * WHY: A wrong status in production is hard to reproduce once GitHub data has
+ * changed. Exporting the deployment's VerificationInput from the debug
+ * verification page ("Eksporter fixture") and dropping it in
+ * app/lib/__fixtures__/verification with the correct expectedStatus turns the
+ * bug report into a regression test that runs without GitHub or a database.
+ *
+ * Set VERIFICATION_FIXTURES_DIR to replay another directory, e.g. fixtures
+ * from production that should not be committed.
+ */
+
+const FIXTURES_DIR = resolve(process.env.VERIFICATION_FIXTURES_DIR ?? join(__dirname, '../__fixtures__/verification'))
+
+const fixtureFiles = readdirSync(FIXTURES_DIR)
+  .filter((file) => file.endsWith('.json'))
+  .sort()
+
+describe('verification fixture replay', () => {
+  it('finds fixtures to replay', () => {
+    expect(fixtureFiles.length).toBeGreaterThan(0)
+  })
+
+  it.each(fixtureFiles)('%s', (file) => {
+    const fixture = parseVerificationFixture(JSON.parse(readFileSync(join(FIXTURES_DIR, file), 'utf-8')))
+
+    const result = verifyDeployment(fixture.input)
+
+    expect(result.status, `${fixture.description}: ${result.approvalDetails.reason}`).toBe(fixture.expectedStatus)
+  })
+})
+
+describe('parseVerificationFixture', () => {
+  const fixture = JSON.parse(readFileSync(join(__dirname, '../__fixtures__/verification/direct-push.json'), 'utf-8'))
+
+  it('restores dates that JSON stores as strings', () => {
+    const parsed = parseVerificationFixture(fixture)
+
+    expect(parsed.input.dataFreshness.commitsFetchedAt).toBeInstanceOf(Date)
+  })
+
+  it('rejects unknown versions and statuses', () => {
+    expect(() => parseVerificationFixture({ ...fixture, version: 2 })).toThrow('Unsupported fixture version')
+    expect(() => parseVerificationFixture({ ...fixture, expectedStatus: 'ok' })).toThrow('Invalid expectedStatus')
+  })
+
+  it('rejects a file without a VerificationInput', () => {
+    expect(() => parseVerificationFixture({ ...fixture, input: { deploymentId: 1 } })).toThrow(
+      'not a VerificationInput',
+    )
+  })
+})
@@ -1,6 +1,6 @@
 import { describe, expect, it } from 'vitest'
-import type { PrCommit, PrMetadata, PrReview, VerificationInput } from '../verification/types'
-import { verifyDeployment, verifyFourEyesFromPrData } from '../verification/verify'
+import type { PrCommit, PrMetadata, PrReview, VerificationInput, WorkflowRunInfo } from '../verification/types'
+import { checkDeployWorkflow, verifyDeployment, verifyFourEyesFromPrData } from '../verification/verify'
 
 /**
  * Tests closing coverage gaps in verifyDeployment.
@@ -12,6 +12,7 @@ import { verifyDeployment, verifyFourEyesFromPrData } from '../verification/veri
  * - Case 5: approved via base branch merge (integration)
  * - Case 6: implicitly_approved via mode 'all' (integration)
  * - Deployed PR with approval_before_last_commit reason propagation
+ * - Case 0c: unauthorized_workflow (workflow run not allowed by the app's policy)
  */
 
 // =============================================================================
@@ -953,3 +954,144 @@ describe('verifyDeployment - Branch validation', () => {
     expect(result.status).toBe('pending_baseline')
   })
 })
+
+// =============================================================================
+// Workflow Provenance
+// =============================================================================
+
+describe('verifyDeployment - Workflow provenance', () => {
+  const deployRun: WorkflowRunInfo = {
+    runId: 123,
+    path: '.github/workflows/deploy.yml',
+    event: 'push',
+    headBranch: 'main',
+    actor: 'dev-a',
+    repository: 'navikt/test-app',
+    headSha: 'deploy-sha-1000',
+  }
+  const policy = { allowedWorkflows: ['deploy.yml'], allowedEvents: ['push'], requireBaseBranch: true }
+
+  it('should return unauthorized_workflow for a manual dispatch from a feature branch', () => {
+    const input = makeBaseInput({
+      previousDeployment: null,
+      workflowRun: { ...deployRun, event: 'workflow_dispatch', headBranch: 'feature/x' },
+      deployWorkflowPolicy: policy,
+    })
+
+    const result = verifyDeployment(input)
+
+    expect(result.status).toBe('unauthorized_workflow')
+    expect(result.hasFourEyes).toBe(false)
+    expect(result.approvalDetails.reason).toContain('workflow_dispatch')
+  })
+
+  it('should proceed with normal verification when the run is allowed', () => {
+    const input = makeBaseInput({ previousDeployment: null, workflowRun: deployRun, deployWorkflowPolicy: policy })
+
+    expect(verifyDeployment(input).status).toBe('pending_baseline')
+  })
+
+  it('should return unauthorized_workflow when the deployment has no known workflow run', () => {
+    const input = makeBaseInput({ previousDeployment: null, workflowRun: null, deployWorkflowPolicy: policy })
+
+    expect(verifyDeployment(input).status).toBe('unauthorized_workflow')
+  })
+
+  it('should return error when the workflow run could not be looked up yet', () => {
+    const input = makeBaseInput({
+      previousDeployment: null,
+      workflowRun: null,
+      workflowRunUnavailable: true,
+      deployWorkflowPolicy: policy,
+    })
+
+    expect(verifyDeployment(input).status).toBe('error')
+  })
+
+  it('should ignore an unknown workflow run without a workflow policy', () => {
+    const input = makeBaseInput({ previousDeployment: null, workflowRun: null })
+
+    expect(verifyDeployment(input).status).toBe('pending_baseline')
+  })
+
+  it('should return unauthorized_workflow for an allowed run in another repository or for another commit', () => {
+    const otherRepo = makeBaseInput({
+      previousDeployment: null,
+      workflowRun: { ...deployRun, repository: 'navikt/other-app' },
+      deployWorkflowPolicy: policy,
+    })
+    const otherCommit = makeBaseInput({
+      previousDeployment: null,
+      workflowRun: { ...deployRun, headSha: 'other-sha' },
+      deployWorkflowPolicy: policy,
+    })
+
+    expect(verifyDeployment(otherRepo).approvalDetails.reason).toContain("'navikt/other-app'")
+    expect(verifyDeployment(otherRepo).status).toBe('unauthorized_workflow')
+    expect(verifyDeployment(otherCommit).status).toBe('unauthorized_workflow')
+  })
+
+  it('should check unauthorized_branch before the workflow policy', () => {
+    const input = makeBaseInput({
+      commitOnBaseBranch: false,
+      workflowRun: { ...deployRun, path: '.github/workflows/other.yml' },
+      deployWorkflowPolicy: policy,
+    })
+
+    expect(verifyDeployment(input).status).toBe('unauthorized_branch')
+  })
+})
+
+describe('checkDeployWorkflow', () => {
+  const run: WorkflowRunInfo = {
+    runId: 1,
+    path: '.github/workflows/deploy.yml',
+    event: 'push',
+    headBranch: 'main',
+    actor: 'dev-a',
+    repository: 'navikt/test-app',
+    headSha: 'abc123',
+  }
+
+  it('allows any run when the policy is empty', () => {
+    const result = checkDeployWorkflow(
+      run,
+      { allowedWorkflows: [], allowedEvents: [], requireBaseBranch: false },
+      'main',
+    )
+
+    expect(result.allowed).toBe(true)
+  })
+
+  it('matches workflows by full path or file name, but not by partial file name', () => {
+    const policy = (allowedWorkflows: string[]) => ({ allowedWorkflows, allowedEvents: [], requireBaseBranch: false })
+
+    expect(checkDeployWorkflow(run, policy(['.github/workflows/deploy.yml']), 'main').allowed).toBe(true)
+    expect(checkDeployWorkflow(run, policy(['deploy.yml']), 'main').allowed).toBe(true)
+    expect(checkDeployWorkflow(run, policy(['oy.yml']), 'main').allowed).toBe(false)
+  })
+
+  it('rejects runs with an event that is not allowed', () => {
+    const result = checkDeployWorkflow(
+      { ...run, event: 'workflow_dispatch' },
+      { allowedWorkflows: [], allowedEvents: ['push'], requireBaseBranch: false },
+      'main',
+    )
+
+    expect(result.allowed).toBe(false)
+    expect(result.reason).toContain("'workflow_dispatch'")
+  })
+
+  it('rejects runs on another branch only when the base branch is required', () => {
+    const featureRun = { ...run, headBranch: 'feature/x' }
+
+    expect(
+      checkDeployWorkflow(featureRun, { allowedWorkflows: [], allowedEvents: [], requireBaseBranch: false }, 'main')
+        .allowed,
+    ).toBe(true)
+    expect(
+      checkDeployWorkflow(featureRun, { allowedWorkflows: [], allowedEvents: [], requireBaseBranch: true }, 'main')
+        .allowed,
+    ).toBe(false)
+  })
+})
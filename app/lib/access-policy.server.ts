@@ -0,0 +1,123 @@
+/**
+ * Section-scoped access policy for monitored applications.
+ *
+ * Users get their role per section from Entra ID groups (see getUserSections).
+ * An app is owned by the sections its Nais team, dev teams or application
+ * group belong to (see getOwningSectionIdsForApp). Users can see apps owned by
+ * one of their sections, and can act as admin on apps owned by a section where
+ * they are admin.
+ *
+ * Apps not owned by any section stay visible to all users and can be
+ * administered by any admin, as before sections were introduced. Users that
+ * are authorized without a DB section (fallback groups or dev mode) keep
+ * their global role.
+ */
+
+import { getAppIdsVisibleToSections, getOwningSectionIdsForApp } from '~/db/sections.server'
+import type { UserMapping } from '~/db/user-mappings.server'
+import {
+  getUserIdentityByNavIdent,
+  getUserSections,
+  requireUser,
+  type UserIdentity,
+  type UserSection,
+} from './auth.server'
+
+export interface AccessScope {
+  /** Global role, from the user's highest section role */
+  role: UserIdentity['role']
+  /** Sections the user belongs to; empty means the user is not limited to sections */
+  sections: Pick<UserSection, 'id' | 'role'>[]
+}
+
+export async function getAccessScope(user: UserIdentity): Promise<AccessScope> {
+  const sections = await getUserSections(user.entraGroups)
+  return { role: user.role, sections }
+}
+
+function isUnrestricted(scope: AccessScope): boolean {
+  return scope.sections.length === 0
+}
+
+export function canViewApp(scope: AccessScope, owningSectionIds: number[]): boolean {
+  if (isUnrestricted(scope) || owningSectionIds.length === 0) return true
+  return scope.sections.some((s) => owningSectionIds.includes(s.id))
+}
+
+export function canAdministerApp(scope: AccessScope, owningSectionIds: number[]): boolean {
+  if (isUnrestricted(scope) || owningSectionIds.length === 0) return scope.role === 'admin'
+  return scope.sections.some((s) => s.role === 'admin' && owningSectionIds.includes(s.id))
+}
+
+export interface AppPermissions {
+  canView: boolean
+  canAdminister: boolean
+}
+
+export async function getAppPermissions(user: UserIdentity, monitoredAppId: number): Promise<AppPermissions> {
+  const [scope, owningSectionIds] = await Promise.all([getAccessScope(user), getOwningSectionIdsForApp(monitoredAppId)])
+  return {
+    canView: canViewApp(scope, owningSectionIds),
+    canAdminister: canAdministerApp(scope, owningSectionIds),
+  }
+}
+
+/**
+ * Whether a mapped user is admin in a section that owns the app. For actions
+ * from Slack, where the identity is resolved from the user's latest web login.
+ */
+export async function canMappedUserAdministerApp(
+  mapping: Pick<UserMapping, 'nav_ident' | 'display_name'> | null,
+  monitoredAppId: number,
+): Promise<boolean> {
+  if (!mapping?.nav_ident) return false
+  const user = await getUserIdentityByNavIdent(mapping.nav_ident, mapping.display_name ?? undefined)
+  if (!user) return false
+  return (await getAppPermissions(user, monitoredAppId)).canAdminister
+}
+
+/**
+ * Require the user to have access to an app through one of their sections.
+ * Throws 403 Response if not authorized.
+ */
+export async function requireAppAccess(request: Request, monitoredAppId: number): Promise<UserIdentity> {
+  const user = await requireUser(request)
+  const { canView } = await getAppPermissions(user, monitoredAppId)
+  if (!canView) {
+    throw new Response('Forbidden - app belongs to another section', { status: 403 })
+  }
+  return user
+}
+
+/**
+ * Require the user to be admin in a section that owns the app.
+ * Throws 403 Response if not authorized.
+ */
+export async function requireAppAdmin(request: Request, monitoredAppId: number): Promise<UserIdentity> {
+  const user = await requireUser(request)
+  const { canAdminister } = await getAppPermissions(user, monitoredAppId)
+  if (!canAdminister) {
+    throw new Response('Forbidden - admin access in the owning section required', { status: 403 })
+  }
+  return user
+}
+
+/**
+ * Get the IDs of the apps a user can see, or null if the user is not limited to sections.
+ * Used to filter list loaders and search.
+ */
+export async function getVisibleAppIds(user: UserIdentity): Promise<number[] | null> {
+  const scope = await getAccessScope(user)
+  if (isUnrestricted(scope)) return null
+  return getAppIdsVisibleToSections(scope.sections.map((s) => s.id))
+}
+
+/**
+ * Keep only the apps the user can see.
+ */
+export async function filterVisibleApps<T extends { id: number }>(user: UserIdentity, apps: T[]): Promise<T[]> {
+  const visibleAppIds = await getVisibleAppIds(user)
+  if (visibleAppIds === null) return apps
+  const visible = new Set(visibleAppIds)
+  return apps.filter((app) => visible.has(app.id))
+}
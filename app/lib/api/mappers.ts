@@ -0,0 +1,108 @@
+/**
+ * Mapping from database rows to the API response types in ./types.
+ *
+ * Keeps the external contract independent of the database schema.
+ */
+
+import type { ApiDeploymentRow, ApiDeviationRow, DeploymentWithApp, GitHubPRData } from '~/db/deployments.server'
+import type {
+  ApproverData,
+  DeploymentDetailData,
+  DeploymentSummaryData,
+  DeviationData,
+  MonitoredAppData,
+} from './types'
+
+function toIsoString(date: Date | string): string {
+  return new Date(date).toISOString()
+}
+
+export function toMonitoredAppData(row: {
+  id: number
+  team_slug: string
+  environment_name: string
+  app_name: string
+  is_active: boolean
+  default_branch: string
+  audit_start_year: number | null
+}): MonitoredAppData {
+  return {
+    id: row.id,
+    team: row.team_slug,
+    environment: row.environment_name,
+    name: row.app_name,
+    isActive: row.is_active,
+    defaultBranch: row.default_branch,
+    auditStartYear: row.audit_start_year,
+  }
+}
+
+export function toDeploymentSummaryData(row: ApiDeploymentRow): DeploymentSummaryData {
+  return {
+    id: row.id,
+    createdAt: toIsoString(row.created_at),
+    deployer: row.deployer_username,
+    commitSha: row.commit_sha,
+    title: row.title,
+    fourEyesStatus: row.four_eyes_status,
+    prNumber: row.github_pr_number,
+    prUrl: row.github_pr_url,
+  }
+}
+
+/**
+ * Get the approvers of a pull request: reviewers whose latest review is an approval.
+ */
+export function getApprovers(prData: Pick<GitHubPRData, 'reviewers'> | null): ApproverData[] {
+  return (prData?.reviewers ?? [])
+    .filter((reviewer) => reviewer.state === 'APPROVED')
+    .map((reviewer) => ({ username: reviewer.username, approvedAt: reviewer.submitted_at }))
+}
+
+export function toDeploymentDetailData(deployment: DeploymentWithApp): DeploymentDetailData {
+  return {
+    id: deployment.id,
+    createdAt: toIsoString(deployment.created_at),
+    deployer: deployment.deployer_username,
+    commitSha: deployment.commit_sha,
+    title: deployment.title,
+    fourEyesStatus: deployment.four_eyes_status,
+    prNumber: deployment.github_pr_number,
+    prUrl: deployment.github_pr_url,
+    app: {
+      team: deployment.team_slug,
+      environment: deployment.environment_name,
+      name: deployment.app_name,
+    },
+    repository: `${deployment.detected_github_owner}/${deployment.detected_github_repo_name}`,
+    branch: deployment.branch_name,
+    approvers: getApprovers(deployment.github_pr_data),
+    unverifiedCommits: (deployment.unverified_commits ?? []).map((commit) => ({
+      sha: commit.sha,
+      message: commit.message,
+      author: commit.author,
+      date: commit.date,
+      url: commit.html_url,
+      prNumber: commit.pr_number,
+      reason: commit.reason,
+    })),
+  }
+}
+
+export function toDeviationData(row: ApiDeviationRow): DeviationData {
+  return {
+    id: row.id,
+    deploymentId: row.deployment_id,
+    createdAt: toIsoString(row.created_at),
+    reason: row.reason,
+    breachType: row.breach_type,
+    intent: row.intent,
+    severity: row.severity,
+    status: row.status,
+    followUpRole: row.follow_up_role,
+    assignedTo: row.assigned_to_name || row.assigned_to_nav_ident,
+    dueAt: row.due_at ? toIsoString(row.due_at) : null,
+    resolvedAt: row.resolved_at ? toIsoString(row.resolved_at) : null,
+    resolutionNote: row.resolution_note,
+  }
+}
@@ -0,0 +1,361 @@
+/**
+ * OpenAPI document for the /api/v1/ endpoints.
+ *
+ * Served from /api/v1/openapi.json. Keep in sync with ./types — the schemas
+ * here describe the same contract for consumers generating clients.
+ */
+
+const errorResponse = (description: string) => ({
+  description,
+  content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } },
+})
+
+const appPathParameters = [
+  { name: 'team', in: 'path', required: true, description: 'Nais team', schema: { type: 'string' } },
+  { name: 'env', in: 'path', required: true, description: 'Environment', schema: { type: 'string' } },
+  { name: 'app', in: 'path', required: true, description: 'Application name', schema: { type: 'string' } },
+]
+
+const pageParameters = [
+  {
+    name: 'cursor',
+    in: 'query',
+    description: 'Opaque cursor from `pagination.nextCursor` of the previous page',
+    schema: { type: 'string' },
+  },
+  {
+    name: 'limit',
+    in: 'query',
+    description: 'Page size',
+    schema: { type: 'integer', minimum: 1, maximum: 200, default: 50 },
+  },
+]
+
+const paginated = (itemSchema: string) => ({
+  type: 'object',
+  required: ['data', 'pagination'],
+  properties: {
+    data: { type: 'array', items: { $ref: `#/components/schemas/${itemSchema}` } },
+    pagination: { $ref: '#/components/schemas/Pagination' },
+  },
+})
+
+const nullable = (type: string, extra: Record<string, unknown> = {}) => ({ type: [type, 'null'], ...extra })
+
+const commonErrors = {
+  '400': errorResponse('Invalid query parameters'),
+  '401': errorResponse('Missing or invalid token'),
+  '403': errorResponse('Token lacks the access_as_application role'),
+}
+
+export const OPENAPI_DOCUMENT = {
+  openapi: '3.1.0',
+  info: {
+    title: 'Nav Deployment Audit API',
+    version: '1.0.0',
+    description:
+      'Deployments, four-eyes verification results and deviations for monitored applications. ' +
+      'All endpoints require an Entra ID client credentials token with the `access_as_application` role.',
+  },
+  servers: [{ url: '/api/v1' }],
+  security: [{ bearerAuth: [] }],
+  paths: {
+    '/apps': {
+      get: {
+        operationId: 'listApps',
+        summary: 'List monitored applications',
+        parameters: [
+          { name: 'team', in: 'query', description: 'Filter by Nais team', schema: { type: 'string' } },
+          { name: 'env', in: 'query', description: 'Filter by environment', schema: { type: 'string' } },
+          {
+            name: 'include_inactive',
+            in: 'query',
+            description: 'Include inactive applications',
+            schema: { type: 'boolean', default: false },
+          },
+          ...pageParameters,
+        ],
+        responses: {
+          '200': {
+            description: 'A page of applications, ordered by id',
+            content: { 'application/json': { schema: paginated('MonitoredApp') } },
+          },
+          ...commonErrors,
+        },
+      },
+    },
+    '/apps/{team}/{env}/{app}/verification-summary': {
+      get: {
+        operationId: 'getVerificationSummary',
+        summary: 'Four-eyes and change origin coverage for an application',
+        parameters: [
+          ...appPathParameters,
+          {
+            name: 'from',
+            in: 'query',
+            description: 'Default: start of current year',
+            schema: { type: 'string', format: 'date-time' },
+          },
+          { name: 'to', in: 'query', description: 'Default: now', schema: { type: 'string', format: 'date-time' } },
+        ],
+        responses: {
+          '200': {
+            description: 'Verification summary',
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/VerificationSummary' } } },
+          },
+          ...commonErrors,
+          '404': errorResponse('Application not found'),
+        },
+      },
+    },
+    '/apps/{team}/{env}/{app}/deployments': {
+      get: {
+        operationId: 'listDeployments',
+        summary: 'List deployments for an application, newest first',
+        parameters: [
+          ...appPathParameters,
+          { name: 'status', in: 'query', description: 'Filter by four-eyes status', schema: { type: 'string' } },
+          { name: 'from', in: 'query', schema: { type: 'string', format: 'date-time' } },
+          { name: 'to', in: 'query', schema: { type: 'string', format: 'date-time' } },
+          ...pageParameters,
+        ],
+        responses: {
+          '200': {
+            description: 'A page of deployments',
+            content: { 'application/json': { schema: paginated('DeploymentSummary') } },
+          },
+          ...commonErrors,
+          '404': errorResponse('Application not found'),
+        },
+      },
+    },
+    '/apps/{team}/{env}/{app}/deployments/{id}': {
+      get: {
+        operationId: 'getDeployment',
+        summary: 'Get a deployment with approvers and unverified commits',
+        parameters: [...appPathParameters, { name: 'id', in: 'path', required: true, schema: { type: 'integer' } }],
+        responses: {
+          '200': {
+            description: 'The deployment',
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/DeploymentDetail' } } },
+          },
+          ...commonErrors,
+          '404': errorResponse('Deployment not found'),
+        },
+      },
+    },
+    '/apps/{team}/{env}/{app}/deviations': {
+      get: {
+        operationId: 'listDeviations',
+        summary: 'List deviations for an application, newest first',
+        parameters: [
+          ...appPathParameters,
+          {
+            name: 'status',
+            in: 'query',
+            schema: { type: 'string', enum: ['registered', 'under_investigation', 'action_required', 'closed'] },
+          },
+          ...pageParameters,
+        ],
+        responses: {
+          '200': {
+            description: 'A page of deviations',
+            content: { 'application/json': { schema: paginated('Deviation') } },
+          },
+          ...commonErrors,
+          '404': errorResponse('Application not found'),
+        },
+      },
+    },
+  },
+  components: {
+    securitySchemes: {
+      bearerAuth: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' },
+    },
+    schemas: {
+      Error: {
+        type: 'object',
+        required: ['error'],
+        properties: { error: { type: 'string' } },
+      },
+      Pagination: {
+        type: 'object',
+        required: ['nextCursor', 'limit'],
+        properties: {
+          nextCursor: nullable('string', { description: 'Null when there are no more items' }),
+          limit: { type: 'integer' },
+        },
+      },
+      MonitoredApp: {
+        type: 'object',
+        required: ['id', 'team', 'environment', 'name', 'isActive', 'defaultBranch', 'auditStartYear'],
+        properties: {
+          id: { type: 'integer' },
+          team: { type: 'string' },
+          environment: { type: 'string' },
+          name: { type: 'string' },
+          isActive: { type: 'boolean' },
+          defaultBranch: { type: 'string' },
+          auditStartYear: nullable('integer'),
+        },
+      },
+      DeploymentSummary: {
+        type: 'object',
+        required: ['id', 'createdAt', 'deployer', 'commitSha', 'title', 'fourEyesStatus', 'prNumber', 'prUrl'],
+        properties: {
+          id: { type: 'integer' },
+          createdAt: { type: 'string', format: 'date-time' },
+          deployer: nullable('string'),
+          commitSha: nullable('string'),
+          title: nullable('string'),
+          fourEyesStatus: { type: 'string' },
+          prNumber: nullable('integer'),
+          prUrl: nullable('string'),
+        },
+      },
+      DeploymentDetail: {
+        allOf: [
+          { $ref: '#/components/schemas/DeploymentSummary' },
+          {
+            type: 'object',
+            required: ['app', 'repository', 'branch', 'approvers', 'unverifiedCommits'],
+            properties: {
+              app: {
+                type: 'object',
+                required: ['team', 'environment', 'name'],
+                properties: {
+                  team: { type: 'string' },
+                  environment: { type: 'string' },
+                  name: { type: 'string' },
+                },
+              },
+              repository: { type: 'string', description: 'owner/name' },
+              branch: nullable('string'),
+              approvers: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  required: ['username', 'approvedAt'],
+                  properties: {
+                    username: { type: 'string' },
+                    approvedAt: { type: 'string', format: 'date-time' },
+                  },
+                },
+              },
+              unverifiedCommits: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  required: ['sha', 'message', 'author', 'date', 'url', 'prNumber', 'reason'],
+                  properties: {
+                    sha: { type: 'string' },
+                    message: { type: 'string' },
+                    author: { type: 'string' },
+                    date: { type: 'string', format: 'date-time' },
+                    url: { type: 'string' },
+                    prNumber: nullable('integer'),
+                    reason: { type: 'string', enum: ['no_pr', 'pr_not_approved', 'pr_not_found'] },
+                  },
+                },
+              },
+            },
+          },
+        ],
+      },
+      Deviation: {
+        type: 'object',
+        required: [
+          'id',
+          'deploymentId',
+          'createdAt',
+          'reason',
+          'breachType',
+          'intent',
+          'severity',
+          'status',
+          'followUpRole',
+          'assignedTo',
+          'dueAt',
+          'resolvedAt',
+          'resolutionNote',
+        ],
+        properties: {
+          id: { type: 'integer' },
+          deploymentId: { type: 'integer' },
+          createdAt: { type: 'string', format: 'date-time' },
+          reason: { type: 'string' },
+          breachType: nullable('string'),
+          intent: nullable('string', { enum: ['malicious', 'accidental', 'unknown', null] }),
+          severity: nullable('string', { enum: ['low', 'medium', 'high', 'critical', null] }),
+          status: { type: 'string', enum: ['registered', 'under_investigation', 'action_required', 'closed'] },
+          followUpRole: nullable('string', { enum: ['product_lead', 'delivery_lead', 'section_lead', null] }),
+          assignedTo: nullable('string'),
+          dueAt: nullable('string', { format: 'date-time' }),
+          resolvedAt: nullable('string', { format: 'date-time' }),
+          resolutionNote: nullable('string'),
+        },
+      },
+      VerificationSummary: {
+        type: 'object',
+        required: ['app', 'period', 'fourEyesCoverage', 'changeOriginCoverage', 'lastDeployment'],
+        properties: {
+          app: {
+            type: 'object',
+            required: ['team', 'environment', 'name', 'isActive'],
+            properties: {
+              team: { type: 'string' },
+              environment: { type: 'string' },
+              name: { type: 'string' },
+              isActive: { type: 'boolean' },
+            },
+          },
+          period: {
+            type: 'object',
+            required: ['from', 'to'],
+            properties: {
+              from: { type: 'string', format: 'date-time' },
+              to: { type: 'string', format: 'date-time' },
+            },
+          },
+          fourEyesCoverage: {
+            type: 'object',
+            required: ['total', 'approved', 'unapproved', 'pending', 'coveragePercent'],
+            properties: {
+              total: { type: 'integer' },
+              approved: { type: 'integer' },
+              unapproved: { type: 'integer' },
+              pending: { type: 'integer' },
+              coveragePercent: { type: 'number' },
+            },
+          },
+          changeOriginCoverage: {
+            type: 'object',
+            required: ['total', 'linked', 'dependabot', 'coveragePercent'],
+            properties: {
+              total: { type: 'integer' },
+              linked: { type: 'integer' },
+              dependabot: { type: 'integer' },
+              coveragePercent: { type: 'number' },
+            },
+          },
+          lastDeployment: {
+            oneOf: [
+              { type: 'null' },
+              {
+                type: 'object',
+                required: ['createdAt', 'deployer', 'commitSha', 'fourEyesStatus', 'hasChangeOrigin'],
+                properties: {
+                  createdAt: { type: 'string', format: 'date-time' },
+                  deployer: nullable('string'),
+                  commitSha: nullable('string'),
+                  fourEyesStatus: { type: 'string' },
+                  hasChangeOrigin: { type: 'boolean' },
+                },
+              },
+            ],
+          },
+        },
+      },
+    },
+  },
+}
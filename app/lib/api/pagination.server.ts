@@ -0,0 +1,89 @@
+/**
+ * Cursor pagination for the /api/v1/ endpoints.
+ *
+ * Lists are paged with keyset pagination on (created_at, id) — or id alone —
+ * so pages stay stable while new rows are inserted. The cursor is an opaque
+ * base64url string; consumers pass `nextCursor` back unchanged.
+ */
+
+export const DEFAULT_PAGE_LIMIT = 50
+export const MAX_PAGE_LIMIT = 200
+
+export interface PageCursor {
+  /** ISO timestamp of the last item on the previous page (omitted for id-only ordering) */
+  createdAt?: string
+  /** Id of the last item on the previous page */
+  id: number
+}
+
+export interface PageParams {
+  cursor: PageCursor | null
+  limit: number
+}
+
+export function encodeCursor(cursor: PageCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url')
+}
+
+/**
+ * Decode a cursor from a query parameter. Returns null if it is malformed.
+ */
+export function decodeCursor(value: string): PageCursor | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'))
+    if (typeof parsed !== 'object' || parsed === null || !Number.isInteger(parsed.id)) return null
+    if (parsed.createdAt !== undefined && Number.isNaN(Date.parse(parsed.createdAt))) return null
+    return { id: parsed.id, createdAt: parsed.createdAt }
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Parse `cursor` and `limit` query parameters.
+ *
+ * @param options.orderedByCreatedAt - the endpoint pages on (created_at, id), so the cursor must carry `createdAt`
+ * @throws {Response} 400 if the cursor or limit is invalid
+ */
+export function parsePageParams(url: URL, options: { orderedByCreatedAt?: boolean } = {}): PageParams {
+  const cursorParam = url.searchParams.get('cursor')
+  const limitParam = url.searchParams.get('limit')
+
+  const cursor = cursorParam ? decodeCursor(cursorParam) : null
+  if (cursorParam && (!cursor || (options.orderedByCreatedAt && cursor.createdAt === undefined))) {
+    throw apiError(400, 'Invalid cursor')
+  }
+
+  const limit = limitParam ? Number(limitParam) : DEFAULT_PAGE_LIMIT
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_LIMIT) {
+    throw apiError(400, `Invalid limit. Use an integer between 1 and ${MAX_PAGE_LIMIT}.`)
+  }
+
+  return { cursor, limit }
+}
+
+/**
+ * Split a result fetched with `limit + 1` rows into the page and the cursor for the next one.
+ */
+export function toPage<T>(
+  rows: T[],
+  limit: number,
+  cursorFor: (row: T) => PageCursor,
+): { items: T[]; nextCursor: string | null } {
+  const items = rows.slice(0, limit)
+  const hasMore = rows.length > limit
+  return {
+    items,
+    nextCursor: hasMore && items.length > 0 ? encodeCursor(cursorFor(items[items.length - 1])) : null,
+  }
+}
+
+/**
+ * Build a JSON error response in the format used by all /api/v1/ endpoints.
+ */
+export function apiError(status: number, error: string): Response {
+  return new Response(JSON.stringify({ error }), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  })
+}
@@ -57,3 +57,96 @@ export interface VerificationSummaryResponse {
   changeOriginCoverage: ChangeOriginCoverageData
   lastDeployment: LastDeploymentData | null
 }
+
+// =============================================================================
+// Paginated resources
+// =============================================================================
+
+export interface PaginatedResponse<T> {
+  data: T[]
+  pagination: {
+    /** Opaque cursor for the next page, or null when there are no more items */
+    nextCursor: string | null
+    /** Maximum number of items per page */
+    limit: number
+  }
+}
+
+export interface MonitoredAppData {
+  id: number
+  team: string
+  environment: string
+  name: string
+  isActive: boolean
+  defaultBranch: string
+  /** First year included in audit reports, if limited */
+  auditStartYear: number | null
+}
+
+export interface DeploymentSummaryData {
+  id: number
+  /** When the deployment was created */
+  createdAt: string
+  /** GitHub username of the deployer */
+  deployer: string | null
+  /** Git commit SHA */
+  commitSha: string | null
+  /** Deployment title, from the PR or commit message */
+  title: string | null
+  /** Four-eyes verification status */
+  fourEyesStatus: string
+  /** Pull request number, if the deployment is linked to a PR */
+  prNumber: number | null
+  /** Pull request URL, if the deployment is linked to a PR */
+  prUrl: string | null
+}
+
+export interface UnverifiedCommitData {
+  sha: string
+  message: string
+  author: string
+  date: string
+  url: string
+  prNumber: number | null
+  /** Why the commit is not verified: 'no_pr' | 'pr_not_approved' | 'pr_not_found' */
+  reason: string
+}
+
+export interface ApproverData {
+  /** GitHub username of the approver */
+  username: string
+  /** When the approval was submitted */
+  approvedAt: string
+}
+
+export interface DeploymentDetailData extends DeploymentSummaryData {
+  app: {
+    team: string
+    environment: string
+    name: string
+  }
+  /** GitHub repository (owner/name) the deployment was detected from */
+  repository: string
+  branch: string | null
+  /** Approvers of the deployed pull request */
+  approvers: ApproverData[]
+  /** Commits in the deployment that are not covered by an approved PR */
+  unverifiedCommits: UnverifiedCommitData[]
+}
+
+export interface DeviationData {
+  id: number
+  deploymentId: number
+  createdAt: string
+  reason: string
+  breachType: string | null
+  intent: string | null
+  severity: string | null
+  /** Lifecycle status: 'registered' | 'under_investigation' | 'action_required' | 'closed' */
+  status: string
+  followUpRole: string | null
+  assignedTo: string | null
+  dueAt: string | null
+  resolvedAt: string | null
+  resolutionNote: string | null
+}
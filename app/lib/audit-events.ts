@@ -0,0 +1,260 @@
+/**
+ * Audit trail of user actions.
+ *
+ * Every mutating action records an event with actor, target entity and the
+ * state before and after the change (see recordAuditEvent). Labels are used
+ * by the admin audit log page and the CSV export.
+ */
+
+export type AuditAction =
+  | 'comment.create'
+  | 'comment.delete'
+  | 'deployment.manual_approval'
+  | 'deployment.manual_approval_refused'
+  | 'deployment.baseline_approval'
+  | 'deployment.reverify'
+  | 'deployment.legacy_register'
+  | 'deployment.legacy_approve'
+  | 'deployment.legacy_reject'
+  | 'deployment.slack_notify'
+  | 'deployment.notify'
+  | 'deployment.title_update'
+  | 'deviation.register'
+  | 'deviation.transition'
+  | 'deviation.assign'
+  | 'goal_link.create'
+  | 'goal_link.delete'
+  | 'repository.approve'
+  | 'repository.reject'
+  | 'repository.set_active'
+  | 'repository_alert.resolve'
+  | 'repository_alert.assign'
+  | 'app.settings_update'
+  | 'event_subscriber.create'
+  | 'event_subscriber.update'
+  | 'event_subscriber.delete'
+  | 'event_delivery.retry'
+  | 'app.identity_update'
+  | 'user_mapping.update'
+  | 'user_mapping.delete'
+  | 'user_dev_teams.update'
+  | 'section.create'
+  | 'section.update'
+  | 'section.teams_update'
+  | 'dev_team.create'
+  | 'dev_team.update'
+  | 'dev_team.nais_teams_update'
+  | 'dev_team.applications_update'
+  | 'application_group.create'
+  | 'application_group.delete'
+  | 'application_group.add_app'
+  | 'application_group.remove_app'
+  | 'global_setting.update'
+  | 'sync_job.release_expired'
+  | 'sync_job.cleanup'
+
+export type AuditEntityType =
+  | 'deployment'
+  | 'comment'
+  | 'deviation'
+  | 'goal_link'
+  | 'repository'
+  | 'repository_alert'
+  | 'app'
+  | 'event_subscriber'
+  | 'user_mapping'
+  | 'user_dev_teams'
+  | 'section'
+  | 'dev_team'
+  | 'application_group'
+  | 'global_setting'
+  | 'sync_job'
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  'comment.create': 'Kommentar lagt til',
+  'comment.delete': 'Kommentar slettet',
+  'deployment.manual_approval': 'Manuelt godkjent',
+  'deployment.manual_approval_refused': 'Manuell godkjenning avvist',
+  'deployment.baseline_approval': 'Godkjent som baseline',
+  'deployment.reverify': 'Re-verifisert',
+  'deployment.legacy_register': 'Legacy-info registrert',
+  'deployment.legacy_approve': 'Legacy godkjent',
+  'deployment.legacy_reject': 'Legacy avvist',
+  'deployment.slack_notify': 'Slack-varsel sendt',
+  'deployment.notify': 'Varsel sendt til Teams eller webhook',
+  'deployment.title_update': 'Tittel korrigert fra PR-data',
+  'deviation.register': 'Avvik registrert',
+  'deviation.transition': 'Avviksstatus endret',
+  'deviation.assign': 'Avvik tildelt',
+  'goal_link.create': 'Målkobling lagt til',
+  'goal_link.delete': 'Målkobling fjernet',
+  'repository.approve': 'Repository godkjent',
+  'repository.reject': 'Repository avvist',
+  'repository.set_active': 'Aktivt repository endret',
+  'repository_alert.resolve': 'Repository-varsel løst',
+  'repository_alert.assign': 'Repository-varsel tildelt',
+  'app.settings_update': 'App-innstillinger endret',
+  'event_subscriber.create': 'Abonnent på hendelser lagt til',
+  'event_subscriber.update': 'Abonnent på hendelser endret',
+  'event_subscriber.delete': 'Abonnent på hendelser slettet',
+  'event_delivery.retry': 'Hendelse sendt på nytt',
+  'app.identity_update': 'Appens team, miljø eller navn korrigert',
+  'user_mapping.update': 'Brukermapping lagret',
+  'user_mapping.delete': 'Brukermapping slettet',
+  'user_dev_teams.update': 'Teamtilhørighet endret',
+  'section.create': 'Seksjon opprettet',
+  'section.update': 'Seksjon endret',
+  'section.teams_update': 'Seksjonens Nais-team endret',
+  'dev_team.create': 'Utviklingsteam opprettet',
+  'dev_team.update': 'Utviklingsteam endret',
+  'dev_team.nais_teams_update': 'Utviklingsteamets Nais-team endret',
+  'dev_team.applications_update': 'Utviklingsteamets applikasjoner endret',
+  'application_group.create': 'Applikasjonsgruppe opprettet',
+  'application_group.delete': 'Applikasjonsgruppe slettet',
+  'application_group.add_app': 'Applikasjon lagt til i gruppe',
+  'application_group.remove_app': 'Applikasjon fjernet fra gruppe',
+  'global_setting.update': 'Global innstilling endret',
+  'sync_job.release_expired': 'Utløpt synkroniseringslås frigjort',
+  'sync_job.cleanup': 'Gamle synkroniseringsjobber slettet',
+}
+
+export const AUDIT_ENTITY_TYPE_LABELS: Record<AuditEntityType, string> = {
+  deployment: 'Deployment',
+  comment: 'Kommentar',
+  deviation: 'Avvik',
+  goal_link: 'Målkobling',
+  repository: 'Repository',
+  repository_alert: 'Repository-varsel',
+  app: 'Applikasjon',
+  event_subscriber: 'Hendelsesabonnent',
+  user_mapping: 'Brukermapping',
+  user_dev_teams: 'Brukerens utviklingsteam',
+  section: 'Seksjon',
+  dev_team: 'Utviklingsteam',
+  application_group: 'Applikasjonsgruppe',
+  global_setting: 'Global innstilling',
+  sync_job: 'Synkroniseringsjobb',
+}
+
+export function isAuditAction(value: unknown): value is AuditAction {
+  return typeof value === 'string' && Object.hasOwn(AUDIT_ACTION_LABELS, value)
+}
+
+export function isAuditEntityType(value: unknown): value is AuditEntityType {
+  return typeof value === 'string' && Object.hasOwn(AUDIT_ENTITY_TYPE_LABELS, value)
+}
+
+/**
+ * Keep only the keys whose value changed, so events show what was actually edited.
+ * Returns null for both sides when nothing changed.
+ */
+export function diffAuditState(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+): { before: Record<string, unknown> | null; after: Record<string, unknown> | null } {
+  const changedKeys = [...new Set([...Object.keys(before), ...Object.keys(after)])].filter(
+    (key) => JSON.stringify(before[key] ?? null) !== JSON.stringify(after[key] ?? null),
+  )
+  if (changedKeys.length === 0) return { before: null, after: null }
+  return {
+    before: Object.fromEntries(changedKeys.map((key) => [key, before[key] ?? null])),
+    after: Object.fromEntries(changedKeys.map((key) => [key, after[key] ?? null])),
+  }
+}
+
+export interface AuditEventFilters {
+  /** NAV-ident or name, partial match */
+  actor?: string
+  action?: AuditAction
+  entityType?: AuditEntityType
+  entityId?: string
+  monitoredAppId?: number
+  from?: Date
+  /** Exclusive */
+  to?: Date
+}
+
+/**
+ * Parse audit log filters from query parameters. Unknown values are ignored.
+ * `to` is a date (YYYY-MM-DD) and includes the whole day.
+ */
+export function parseAuditEventFilters(searchParams: URLSearchParams): AuditEventFilters {
+  const filters: AuditEventFilters = {}
+
+  const actor = searchParams.get('actor')?.trim()
+  if (actor) filters.actor = actor
+
+  const action = searchParams.get('action')
+  if (isAuditAction(action)) filters.action = action
+
+  const entityType = searchParams.get('entity_type')
+  if (isAuditEntityType(entityType)) filters.entityType = entityType
+
+  const entityId = searchParams.get('entity_id')?.trim()
+  if (entityId) filters.entityId = entityId
+
+  const appId = Number(searchParams.get('app_id'))
+  if (Number.isInteger(appId) && appId > 0) filters.monitoredAppId = appId
+
+  const from = parseDateParam(searchParams.get('from'))
+  if (from) filters.from = from
+
+  const to = parseDateParam(searchParams.get('to'))
+  if (to) filters.to = new Date(to.getTime() + 24 * 60 * 60 * 1000)
+
+  return filters
+}
+
+function parseDateParam(value: string | null): Date | null {
+  if (!value || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return null
+  const date = new Date(`${value}T00:00:00Z`)
+  return Number.isNaN(date.getTime()) ? null : date
+}
+
+/** Upper bound on rows in a CSV export; narrow the filters for larger periods */
+export const MAX_AUDIT_EVENT_EXPORT_ROWS = 50_000
+
+export const AUDIT_EVENT_CSV_COLUMNS = [
+  'id',
+  'created_at',
+  'actor_nav_ident',
+  'actor_name',
+  'action',
+  'entity_type',
+  'entity_id',
+  'monitored_app_id',
+  'before',
+  'after',
+  'trace_id',
+] as const
+
+/**
+ * Flatten an audit event to a CSV row matching AUDIT_EVENT_CSV_COLUMNS.
+ */
+export function toAuditEventCsvRow(event: {
+  id: number | string
+  created_at: Date | string
+  actor_nav_ident: string
+  actor_name: string | null
+  action: string
+  entity_type: string
+  entity_id: string
+  monitored_app_id: number | null
+  before_state: unknown
+  after_state: unknown
+  trace_id: string | null
+}): (string | number | null)[] {
+  return [
+    Number(event.id),
+    new Date(event.created_at).toISOString(),
+    event.actor_nav_ident,
+    event.actor_name,
+    event.action,
+    event.entity_type,
+    event.entity_id,
+    event.monitored_app_id,
+    event.before_state == null ? null : JSON.stringify(event.before_state),
+    event.after_state == null ? null : JSON.stringify(event.after_state),
+    event.trace_id,
+  ]
+}
@@ -0,0 +1,281 @@
+import type { AuditReportData } from '~/db/audit-reports.server'
+import { createXlsxWorkbook, type XlsxCell } from './xlsx.server'
+import { createZip } from './zip.server'
+
+/**
+ * Machine-readable exports of stored audit reports (JSON, zipped CSV, XLSX).
+ *
+ * All formats carry the report's `content_hash` so an export can be matched
+ * to the PDF: the hash is SHA256 over the canonical JSON (recursively sorted
+ * keys) of the JSON export's `data` object.
+ */
+
+export const AUDIT_REPORT_EXPORT_SCHEMA_VERSION = 1
+export const AUDIT_REPORT_EXPORT_SCHEMA_PATH = '/schemas/audit-report-export.v1.json'
+
+export const AUDIT_REPORT_EXPORT_FORMATS = ['json', 'csv', 'xlsx'] as const
+export type AuditReportExportFormat = (typeof AUDIT_REPORT_EXPORT_FORMATS)[number]
+
+export function isAuditReportExportFormat(value: unknown): value is AuditReportExportFormat {
+  return AUDIT_REPORT_EXPORT_FORMATS.includes(value as AuditReportExportFormat)
+}
+
+export interface AuditReportExportMetadata {
+  report_id: string
+  app_name: string
+  team_slug: string
+  environment_name: string
+  repository: string
+  period_type: string
+  period_label: string
+  period_start: string
+  period_end: string
+  generated_at: string
+  generated_by: string | null
+  content_hash: string
+  chain_hash: string | null
+  signature: string | null
+  signing_key_fingerprint: string | null
+}
+
+type Cell = string | number | null
+
+export interface ExportTable {
+  name: string
+  columns: string[]
+  rows: Cell[][]
+}
+
+/** Format a DATE column value (parsed as local midnight) as YYYY-MM-DD */
+export function formatExportDate(date: Date | string): string {
+  const d = typeof date === 'string' ? new Date(date) : date
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`
+}
+
+/**
+ * Metadata columns of a stored audit report, as selected from audit_reports
+ */
+export interface ExportableAuditReport {
+  report_id: string
+  app_name: string
+  team_slug: string
+  environment_name: string
+  repository: string
+  period_type: string
+  period_label: string
+  period_start: Date
+  period_end: Date
+  generated_at: Date
+  generated_by: string | null
+  content_hash: string
+  chain_hash: string | null
+  signature: string | null
+  signing_key_fingerprint: string | null
+}
+
+export function getAuditReportExportMetadata(report: ExportableAuditReport): AuditReportExportMetadata {
+  return {
+    report_id: report.report_id,
+    app_name: report.app_name,
+    team_slug: report.team_slug,
+    environment_name: report.environment_name,
+    repository: report.repository,
+    period_type: report.period_type,
+    period_label: report.period_label,
+    period_start: formatExportDate(report.period_start),
+    period_end: formatExportDate(report.period_end),
+    generated_at: new Date(report.generated_at).toISOString(),
+    generated_by: report.generated_by,
+    content_hash: report.content_hash,
+    chain_hash: report.chain_hash,
+    signature: report.signature,
+    signing_key_fingerprint: report.signing_key_fingerprint,
+  }
+}
+
+function table<T extends object>(name: string, columns: (keyof T & string)[], entries: T[]): ExportTable {
+  return {
+    name,
+    columns,
+    rows: entries.map((entry) =>
+      columns.map((column) => {
+        const value = (entry as Record<string, unknown>)[column]
+        return value === undefined || value === null ? null : (value as Cell)
+      }),
+    ),
+  }
+}
+
+/**
+ * Build the JSON export document (see public/schemas/audit-report-export.v1.json)
+ */
+export function buildAuditReportJsonExport(metadata: AuditReportExportMetadata, data: AuditReportData) {
+  return {
+    $schema: AUDIT_REPORT_EXPORT_SCHEMA_PATH,
+    schema_version: AUDIT_REPORT_EXPORT_SCHEMA_VERSION,
+    report: metadata,
+    data,
+  }
+}
+
+/**
+ * Flatten the report into one table per section, with a leading `report`
+ * table holding the metadata (including `content_hash`) as key/value rows.
+ */
+export function getAuditReportExportTables(metadata: AuditReportExportMetadata, data: AuditReportData): ExportTable[] {
+  const unverifiedCommits = (data.unverified_commit_deployments ?? []).flatMap((deployment) =>
+    deployment.commits.map((commit) => ({
+      deployment_id: deployment.deployment_id,
+      deployment_date: deployment.date,
+      deployment_commit_sha: deployment.commit_sha,
+      deployment_title: deployment.title,
+      deployer: deployment.deployer,
+      four_eyes_status: deployment.four_eyes_status,
+      approved_by: deployment.approved_by,
+      approved_at: deployment.approved_at,
+      sha: commit.sha,
+      message: commit.message,
+      author: commit.author,
+      date: commit.date,
+      html_url: commit.html_url,
+      pr_number: commit.pr_number,
+      reason: commit.reason,
+    })),
+  )
+
+  return [
+    {
+      name: 'report',
+      columns: ['key', 'value'],
+      rows: [
+        ['schema_version', AUDIT_REPORT_EXPORT_SCHEMA_VERSION],
+        ...Object.entries(metadata).map(([key, value]): Cell[] => [key, value]),
+        ['legacy_count', data.legacy_count],
+      ],
+    },
+    table(
+      'deployments',
+      [
+        'id',
+        'nais_deployment_id',
+        'title',
+        'date',
+        'commit_sha',
+        'method',
+        'pr_number',
+        'pr_url',
+        'pr_author',
+        'pr_author_display_name',
+        'deployer',
+        'deployer_display_name',
+        'approver',
+        'approver_display_name',
+        'slack_link',
+      ],
+      data.deployments,
+    ),
+    table(
+      'manual_approvals',
+      [
+        'deployment_id',
+        'nais_deployment_id',
+        'title',
+        'date',
+        'commit_sha',
+        'deployer',
+        'deployer_display_name',
+        'reason',
+        'registered_by',
+        'registered_by_display_name',
+        'approved_by',
+        'approved_by_display_name',
+        'approved_at',
+        'slack_link',
+        'comment',
+      ],
+      data.manual_approvals,
+    ),
+    table('contributors', ['github_username', 'display_name', 'nav_ident', 'deployment_count'], data.contributors),
+    table('reviewers', ['github_username', 'display_name', 'review_count'], data.reviewers),
+    table(
+      'deviations',
+      [
+        'deployment_id',
+        'date',
+        'commit_sha',
+        'reason',
+        'breach_type',
+        'intent',
+        'severity',
+        'follow_up_role',
+        'registered_by',
+        'registered_by_name',
+        'resolved_at',
+        'resolution_note',
+      ],
+      data.deviations ?? [],
+    ),
+    table(
+      'unverified_commits',
+      [
+        'deployment_id',
+        'deployment_date',
+        'deployment_commit_sha',
+        'deployment_title',
+        'deployer',
+        'four_eyes_status',
+        'approved_by',
+        'approved_at',
+        'sha',
+        'message',
+        'author',
+        'date',
+        'html_url',
+        'pr_number',
+        'reason',
+      ],
+      unverifiedCommits,
+    ),
+  ]
+}
+
+/**
+ * Format a CSV cell. Text starting with a formula character is prefixed with an
+ * apostrophe so spreadsheets show it as text instead of evaluating it
+ * (commit messages, PR titles and comments are user-controlled).
+ */
+function csvValue(value: Cell): string {
+  if (value === null) return ''
+  const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Serialize a table as RFC 4180 CSV (comma-separated, CRLF line endings)
+ */
+export function toCsv(exportTable: ExportTable): string {
+  return [exportTable.columns, ...exportTable.rows].map((row) => `${row.map(csvValue).join(',')}\r\n`).join('')
+}
+
+/**
+ * Build a ZIP archive with one CSV file per report section
+ */
+export function buildAuditReportCsvZip(metadata: AuditReportExportMetadata, data: AuditReportData): Buffer {
+  return createZip(
+    getAuditReportExportTables(metadata, data).map((t) => ({ name: `${t.name}.csv`, data: toCsv(t) })),
+    new Date(metadata.generated_at),
+  )
+}
+
+/**
+ * Build an XLSX workbook with one sheet per report section
+ */
+export function buildAuditReportXlsx(metadata: AuditReportExportMetadata, data: AuditReportData): Buffer {
+  return createXlsxWorkbook(
+    getAuditReportExportTables(metadata, data).map((t) => ({
+      name: t.name,
+      rows: [t.columns, ...t.rows] as XlsxCell[][],
+    })),
+    new Date(metadata.generated_at),
+  )
+}
@@ -0,0 +1,64 @@
+import { buildReportData, getAuditReportData, saveAuditReport, updateAuditReportPdf } from '~/db/audit-reports.server'
+import { generateAuditReportPdf } from './audit-report-pdf'
+import type { ReportPeriodType } from './report-periods'
+
+/**
+ * Build, save (chained and signed) and render an audit report for one app and period.
+ * Used by manual generation from the app admin page and by the report scheduler.
+ */
+export async function generateAndStoreAuditReport(params: {
+  monitoredAppId: number
+  year: number
+  periodType: ReportPeriodType
+  periodLabel: string
+  periodStart: Date
+  periodEnd: Date
+  generatedBy: string
+}) {
+  const { monitoredAppId, year, periodType, periodLabel, periodStart, periodEnd, generatedBy } = params
+
+  const rawData = await getAuditReportData(monitoredAppId, periodStart, periodEnd)
+  const reportData = buildReportData(rawData)
+
+  // Save report metadata
+  const report = await saveAuditReport({
+    monitoredAppId,
+    appName: rawData.app.app_name,
+    teamSlug: rawData.app.team_slug,
+    environmentName: rawData.app.environment_name,
+    repository: rawData.repository,
+    year,
+    periodType,
+    periodLabel,
+    periodStart,
+    periodEnd,
+    reportData,
+    generatedBy,
+  })
+
+  // Generate PDF
+  const pdfBuffer = await generateAuditReportPdf({
+    appName: report.app_name,
+    repository: report.repository,
+    teamSlug: report.team_slug,
+    environmentName: report.environment_name,
+    year: report.year,
+    periodLabel: report.period_label,
+    periodStart: new Date(report.period_start),
+    periodEnd: new Date(report.period_end),
+    reportData: report.report_data,
+    contentHash: report.content_hash,
+    previousHash: report.previous_hash,
+    chainHash: report.chain_hash,
+    signature: report.signature,
+    signingKeyFingerprint: report.signing_key_fingerprint,
+    reportId: report.report_id,
+    generatedAt: new Date(report.generated_at),
+    testRequirement: rawData.app.test_requirement as 'none' | 'unit_tests' | 'integration_tests',
+  })
+
+  // Store PDF in audit_reports table
+  await updateAuditReportPdf(report.id, Buffer.from(pdfBuffer))
+
+  return { report, pdfBuffer }
+}
@@ -2,10 +2,23 @@ import { join } from 'node:path'
 import { Document, Font, Link, Page, renderToBuffer, StyleSheet, Text, View } from '@react-pdf/renderer'
 import type {
   AuditReportData,
+  ControlInEffectEntry,
   DeviationEntry,
   ManualApprovalEntry,
   UnverifiedCommitDeploymentEntry,
 } from '~/db/audit-reports.server'
+import {
+  BRANCH_PROTECTION_SETTING_LABELS,
+  BRANCH_PROTECTION_SOURCE_LABELS,
+  type BranchProtectionSource,
+  formatBranchProtectionValue,
+} from '~/lib/branch-protection'
+import {
+  CONSOLIDATED_SCOPE_TYPE_LABELS,
+  type ConsolidatedDeviationEntry,
+  type ConsolidatedReportData,
+  type ConsolidatedScopeType,
+} from '~/lib/consolidated-report'
 import {
   DEVIATION_FOLLOW_UP_ROLE_LABELS,
   DEVIATION_INTENT_LABELS,
@@ -273,6 +286,11 @@ interface AuditReportPdfProps {
   periodEnd: Date
   reportData: AuditReportData
   contentHash: string
+  /** Hash chain and signature (absent for unsaved/unsigned reports) */
+  previousHash?: string | null
+  chainHash?: string | null
+  signature?: string | null
+  signingKeyFingerprint?: string | null
   reportId: string
   generatedAt: Date
   testRequirement?: 'none' | 'unit_tests' | 'integration_tests'
@@ -301,13 +319,49 @@ const UNVERIFIED_REASON_LABELS: Record<string, string> = {
   no_pr: 'Ingen PR funnet',
   no_approved_reviews: 'Ingen godkjent review',
   approval_before_last_commit: 'Godkjenning før siste commit',
+  insufficient_approvals: 'Oppfyller ikke godkjenningskrav',
+  approval_revoked: 'Godkjenning trukket tilbake',
+  approval_by_co_author: 'Godkjent av medforfatter',
   pr_not_approved: 'PR ikke godkjent',
+  codeowner_approval_missing: 'Mangler godkjenning fra code owner',
 }
 
 function formatUnverifiedReason(reason: string): string {
   return UNVERIFIED_REASON_LABELS[reason] || reason
 }
 
+function IntegrityBox({
+  contentHash,
+  previousHash,
+  chainHash,
+  signature,
+  signingKeyFingerprint,
+}: {
+  contentHash: string
+  previousHash?: string | null
+  chainHash: string
+  signature?: string | null
+  signingKeyFingerprint?: string | null
+}) {
+  return (
+    <View style={styles.methodologyBox}>
+      <Text style={styles.methodologyTitle}>Integritet og signatur</Text>
+      <Text style={styles.methodologyText}>
+        Rapporten inngår i en hashkjede: kjedehashen dekker innholdshashen og kjedehashen til forrige rapport.{' '}
+        {signature ? 'Kjedehashen er signert med Ed25519.' : 'Rapporten er ikke signert.'} Ekthet kan kontrolleres ved å
+        laste opp PDF-en eller oppgi dokument-ID til /api/reports/verify.
+      </Text>
+      <Text style={styles.hashText}>Innhold (SHA256): {contentHash}</Text>
+      <Text style={styles.hashText}>Forrige rapport: {previousHash ?? 'ingen (første rapport)'}</Text>
+      <Text style={styles.hashText}>Kjedehash: {chainHash}</Text>
+      {signature && <Text style={styles.hashText}>Signatur: {signature}</Text>}
+      {signingKeyFingerprint && (
+        <Text style={styles.hashText}>Nøkkel-fingerprint (SHA256): {signingKeyFingerprint}</Text>
+      )}
+    </View>
+  )
+}
+
 function AuditReportPdfDocument(props: AuditReportPdfProps) {
   const {
     appName,
@@ -319,6 +373,10 @@ function AuditReportPdfDocument(props: AuditReportPdfProps) {
     periodEnd,
     reportData,
     contentHash,
+    previousHash,
+    chainHash,
+    signature,
+    signingKeyFingerprint,
     reportId,
     generatedAt,
     testRequirement,
@@ -353,7 +411,7 @@ function AuditReportPdfDocument(props: AuditReportPdfProps) {
   }
 
   return (
-    <Document>
+    <Document title={`Rapport om etterlevelse - ${appName}`} subject={reportId} creator="Deployment Audit System">
       {/* Page 1: Summary */}
       <Page size="A4" style={styles.page}>
         <View style={styles.header}>
@@ -556,6 +614,66 @@ function AuditReportPdfDocument(props: AuditReportPdfProps) {
         />
       </Page>
 
+      {reportData.controls_in_effect && (
+        <Page size="A4" style={styles.page}>
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Kontroller i kraft</Text>
+            <Text style={{ fontSize: 9, color: '#595959', marginBottom: 10 }}>
+              Branch protection- og ruleset-innstillinger på standard-branchen til applikasjonens repositories, slik de
+              ble registrert av periodiske snapshots i løpet av perioden. Perioden for hver innstilling slutter ved
+              siste kontroll som bekreftet den.
+            </Text>
+            {reportData.controls_in_effect.length === 0 ? (
+              <Text style={styles.manualDetail}>Ingen snapshots av branch-beskyttelse for perioden.</Text>
+            ) : (
+              reportData.controls_in_effect.map((control: ControlInEffectEntry) => (
+                <View key={`${control.repository}-${control.from}`} style={styles.manualBox} wrap={false}>
+                  <Text style={styles.manualTitle}>
+                    {control.repository} ({control.branch}) - {formatDate(control.from)} til{' '}
+                    {control.to ? formatDate(control.to) : 'nå'}
+                  </Text>
+                  {control.last_checked_at && (
+                    <Text style={styles.manualDetail}>Sist kontrollert: {formatDateTime(control.last_checked_at)}</Text>
+                  )}
+                  <Text style={styles.manualDetail}>
+                    Kilde:{' '}
+                    {control.sources.length > 0
+                      ? control.sources
+                          .map((source) => BRANCH_PROTECTION_SOURCE_LABELS[source as BranchProtectionSource] || source)
+                          .join(', ')
+                      : 'Ingen beskyttelse'}
+                  </Text>
+                  <Text style={styles.manualDetail}>
+                    {BRANCH_PROTECTION_SETTING_LABELS.requiredApprovingReviewCount}:{' '}
+                    {control.required_approving_review_count}
+                  </Text>
+                  <Text style={styles.manualDetail}>
+                    {BRANCH_PROTECTION_SETTING_LABELS.dismissStaleReviews}:{' '}
+                    {formatBranchProtectionValue('dismissStaleReviews', control.dismiss_stale_reviews)}
+                  </Text>
+                  <Text style={styles.manualDetail}>
+                    {BRANCH_PROTECTION_SETTING_LABELS.requireCodeOwnerReviews}:{' '}
+                    {formatBranchProtectionValue('requireCodeOwnerReviews', control.require_code_owner_reviews)}
+                  </Text>
+                  <Text style={styles.manualDetail}>
+                    {BRANCH_PROTECTION_SETTING_LABELS.enforceAdmins}:{' '}
+                    {formatBranchProtectionValue('enforceAdmins', control.enforce_admins)}
+                  </Text>
+                  <Text style={styles.manualDetail}>
+                    {BRANCH_PROTECTION_SETTING_LABELS.allowForcePushes}:{' '}
+                    {formatBranchProtectionValue('allowForcePushes', control.allow_force_pushes)}
+                  </Text>
+                </View>
+              ))
+            )}
+          </View>
+          <Text
+            style={styles.pageNumber}
+            render={({ pageNumber, totalPages }) => `Side ${pageNumber} av ${totalPages}`}
+          />
+        </Page>
+      )}
+
       {/* Final page: Verification */}
       <Page size="A4" style={styles.page}>
         <View style={styles.section}>
@@ -572,6 +690,15 @@ function AuditReportPdfDocument(props: AuditReportPdfProps) {
               Alle data kan verifiseres mot originalkildene ved behov.
             </Text>
           </View>
+          {chainHash && (
+            <IntegrityBox
+              contentHash={contentHash}
+              previousHash={previousHash}
+              chainHash={chainHash}
+              signature={signature}
+              signingKeyFingerprint={signingKeyFingerprint}
+            />
+          )}
         </View>
 
         <View style={styles.footer}>
@@ -880,3 +1007,252 @@ export async function generateAuditReportPdf(props: AuditReportPdfProps): Promis
   const buffer = await renderToBuffer(<AuditReportPdfDocument {...props} />)
   return Buffer.from(buffer)
 }
+
+interface ConsolidatedAuditReportPdfProps {
+  scopeType: ConsolidatedScopeType
+  scopeName: string
+  periodLabel: string
+  periodStart: Date
+  periodEnd: Date
+  reportData: ConsolidatedReportData
+  contentHash: string
+  previousHash?: string | null
+  chainHash?: string | null
+  signature?: string | null
+  signingKeyFingerprint?: string | null
+  reportId: string
+  generatedAt: Date
+}
+
+function formatPercentage(fraction: number): string {
+  return `${(fraction * 100).toFixed(1).replace('.', ',')}%`
+}
+
+// Per-app summary table columns: Applikasjon, Miljø, Deployments, PR, Manuell, Legacy, Ikke godkjent, Avvik, Dekning
+const consolidatedColumns = ['26%', '12%', '10%', '8%', '9%', '8%', '11%', '7%', '9%']
+
+function ConsolidatedAuditReportPdfDocument(props: ConsolidatedAuditReportPdfProps) {
+  const {
+    scopeType,
+    scopeName,
+    periodLabel,
+    periodStart,
+    periodEnd,
+    reportData,
+    contentHash,
+    previousHash,
+    chainHash,
+    signature,
+    signingKeyFingerprint,
+    reportId,
+    generatedAt,
+  } = props
+  const { totals } = reportData
+
+  return (
+    <Document
+      title={`Samlet rapport om etterlevelse - ${scopeName}`}
+      subject={reportId}
+      creator="Deployment Audit System"
+    >
+      <Page size="A4" style={styles.page}>
+        <View style={styles.header}>
+          <Text style={styles.title}>SAMLET RAPPORT OM ETTERLEVELSE</Text>
+          <Text style={styles.subtitle}>Leveranser</Text>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Dokumentinformasjon</Text>
+          <View style={styles.infoGrid}>
+            <View style={styles.infoItem}>
+              <Text style={styles.infoLabel}>{CONSOLIDATED_SCOPE_TYPE_LABELS[scopeType]}</Text>
+              <Text style={styles.infoValue}>{scopeName}</Text>
+            </View>
+            <View style={styles.infoItem}>
+              <Text style={styles.infoLabel}>Applikasjoner</Text>
+              <Text style={styles.infoValue}>{totals.app_count}</Text>
+            </View>
+            <View style={styles.infoItem}>
+              <Text style={styles.infoLabel}>Periode</Text>
+              <Text style={styles.infoValue}>
+                {periodLabel} — {formatDate(periodStart)} - {formatDate(periodEnd)}
+              </Text>
+            </View>
+            <View style={styles.infoItem}>
+              <Text style={styles.infoLabel}>Dokument-ID</Text>
+              <Text style={styles.infoValue}>{reportId}</Text>
+            </View>
+          </View>
+        </View>
+
+        <View style={styles.summaryBox}>
+          <Text style={styles.summaryTitle}>Sammendrag</Text>
+          <View style={styles.summaryRow}>
+            <Text style={styles.summaryLabel}>Samlet fire-øyne-dekning:</Text>
+            <Text style={totals.pending_count === 0 ? styles.statusApproved : styles.summaryValue}>
+              {formatPercentage(totals.four_eyes_coverage)}
+            </Text>
+          </View>
+          <View style={styles.summaryRow}>
+            <Text style={styles.summaryLabel}>Totalt antall deployments:</Text>
+            <Text style={styles.summaryValue}>{totals.total_deployments}</Text>
+          </View>
+          <View style={styles.summaryRow}>
+            <Text style={styles.summaryLabel}>Via Pull Request:</Text>
+            <Text style={styles.summaryValue}>{totals.pr_approved_count}</Text>
+          </View>
+          <View style={styles.summaryRow}>
+            <Text style={styles.summaryLabel}>Manuelt godkjent:</Text>
+            <Text style={styles.summaryValue}>{totals.manually_approved_count}</Text>
+          </View>
+          {totals.legacy_count > 0 && (
+            <View style={styles.summaryRow}>
+              <Text style={styles.summaryLabel}>Legacy:</Text>
+              <Text style={styles.summaryValue}>{totals.legacy_count}</Text>
+            </View>
+          )}
+          <View style={styles.summaryRow}>
+            <Text style={styles.summaryLabel}>Ikke godkjent:</Text>
+            <Text style={styles.summaryValue}>{totals.pending_count}</Text>
+          </View>
+          <View style={styles.summaryRow}>
+            <Text style={styles.summaryLabel}>Avvik:</Text>
+            <Text style={styles.summaryValue}>{totals.deviation_count}</Text>
+          </View>
+        </View>
+
+        <View style={styles.footer}>
+          <Text style={styles.footerText}>Generert: {formatDateTime(generatedAt)} | Deployment Audit System</Text>
+          <Text style={styles.hashText}>SHA256: {contentHash}</Text>
+        </View>
+        <Text
+          style={styles.pageNumber}
+          render={({ pageNumber, totalPages }) => `Side ${pageNumber} av ${totalPages}`}
+        />
+      </Page>
+
+      <Page size="A4" style={styles.page}>
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Applikasjoner ({reportData.apps.length})</Text>
+          <View style={styles.table}>
+            <View style={styles.tableHeader} fixed>
+              {[
+                'Applikasjon',
+                'Miljø',
+                'Deployments',
+                'PR',
+                'Manuell',
+                'Legacy',
+                'Ikke godkj.',
+                'Avvik',
+                'Dekning',
+              ].map((label, i) => (
+                <Text key={label} style={[styles.tableHeaderCell, { width: consolidatedColumns[i] }]}>
+                  {label}
+                </Text>
+              ))}
+            </View>
+            {reportData.apps.map((app, index) => (
+              <View
+                key={app.monitored_app_id}
+                style={[styles.tableRow, ...(index % 2 === 1 ? [styles.tableRowAlt] : [])]}
+                wrap={false}
+              >
+                <Text style={[styles.tableCell, { width: consolidatedColumns[0] }]}>{app.app_name}</Text>
+                <Text style={[styles.tableCell, { width: consolidatedColumns[1] }]}>{app.environment_name}</Text>
+                <Text style={[styles.tableCell, { width: consolidatedColumns[2] }]}>{app.total_deployments}</Text>
+                <Text style={[styles.tableCell, { width: consolidatedColumns[3] }]}>{app.pr_approved_count}</Text>
+                <Text style={[styles.tableCell, { width: consolidatedColumns[4] }]}>{app.manually_approved_count}</Text>
+                <Text style={[styles.tableCell, { width: consolidatedColumns[5] }]}>{app.legacy_count}</Text>
+                <Text style={[styles.tableCell, { width: consolidatedColumns[6] }]}>{app.pending_count}</Text>
+                <Text style={[styles.tableCell, { width: consolidatedColumns[7] }]}>{app.deviation_count}</Text>
+                <Text style={[styles.tableCell, { width: consolidatedColumns[8] }]}>
+                  {formatPercentage(app.four_eyes_coverage)}
+                </Text>
+              </View>
+            ))}
+          </View>
+        </View>
+        <Text
+          style={styles.pageNumber}
+          render={({ pageNumber, totalPages }) => `Side ${pageNumber} av ${totalPages}`}
+        />
+      </Page>
+
+      {reportData.deviations.length > 0 && (
+        <Page size="A4" style={styles.page}>
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Avvik ({reportData.deviations.length})</Text>
+            {reportData.deviations.map((deviation: ConsolidatedDeviationEntry) => (
+              <View
+                key={`${deviation.app_name}-${deviation.deployment_id}-${deviation.date}`}
+                style={styles.manualBox}
+                wrap={false}
+              >
+                <Text style={styles.manualTitle}>
+                  {deviation.app_name} ({deviation.environment_name}) - Deployment #{deviation.deployment_id} -{' '}
+                  {formatDate(deviation.date)}
+                </Text>
+                <Text style={styles.manualDetail}>Beskrivelse: {deviation.reason}</Text>
+                {deviation.severity && (
+                  <Text style={styles.manualDetail}>
+                    Alvorlighetsgrad:{' '}
+                    {DEVIATION_SEVERITY_LABELS[deviation.severity as DeviationSeverity] || deviation.severity}
+                  </Text>
+                )}
+                <Text style={styles.manualDetail}>
+                  Registrert av: {deviation.registered_by_name || deviation.registered_by}
+                </Text>
+                <Text style={styles.manualDetail}>
+                  Status: {deviation.resolved_at ? `Løst ${formatDateTime(deviation.resolved_at)}` : 'Åpen'}
+                </Text>
+              </View>
+            ))}
+          </View>
+          <Text
+            style={styles.pageNumber}
+            render={({ pageNumber, totalPages }) => `Side ${pageNumber} av ${totalPages}`}
+          />
+        </Page>
+      )}
+
+      <Page size="A4" style={styles.page}>
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Verifisering</Text>
+          <View style={styles.methodologyBox}>
+            <Text style={styles.methodologyText}>
+              Dette dokumentet er generert automatisk av Deployment Audit System og sammenstiller leveranserapport-data
+              for alle produksjonsapplikasjoner i {scopeType === 'section' ? 'seksjonen' : 'utviklingsteamet'}.
+            </Text>
+            <Text style={styles.methodologyText}>
+              Fire-øyne-dekning er andelen deployments i perioden som ikke venter på godkjenning.
+            </Text>
+          </View>
+          {chainHash && (
+            <IntegrityBox
+              contentHash={contentHash}
+              previousHash={previousHash}
+              chainHash={chainHash}
+              signature={signature}
+              signingKeyFingerprint={signingKeyFingerprint}
+            />
+          )}
+        </View>
+
+        <View style={styles.footer}>
+          <Text style={styles.footerText}>Dokument-ID: {reportId}</Text>
+          <Text style={styles.hashText}>SHA256: {contentHash}</Text>
+        </View>
+        <Text
+          style={styles.pageNumber}
+          render={({ pageNumber, totalPages }) => `Side ${pageNumber} av ${totalPages}`}
+        />
+      </Page>
+    </Document>
+  )
+}
+
+export async function generateConsolidatedAuditReportPdf(props: ConsolidatedAuditReportPdfProps): Promise<Buffer> {
+  const buffer = await renderToBuffer(<ConsolidatedAuditReportPdfDocument {...props} />)
+  return Buffer.from(buffer)
+}
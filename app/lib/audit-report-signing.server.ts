@@ -0,0 +1,177 @@
+import { createHash, createPrivateKey, createPublicKey, type KeyObject, sign, verify } from 'node:crypto'
+import { logger } from '~/lib/logger.server'
+
+/**
+ * Audit Report Signing
+ *
+ * Each saved audit report gets a chain hash that covers its own content hash
+ * and the chain hash of the previous report for the same app, so removing or
+ * rewriting an earlier report breaks every later link. The chain hash is
+ * signed with an Ed25519 key from `AUDIT_REPORT_SIGNING_KEY` (PKCS#8 PEM, raw
+ * or base64-encoded).
+ */
+
+/** Chain hash input used for the first report of an app */
+export const GENESIS_HASH = '0'.repeat(64)
+
+let cachedKey: { privateKey: KeyObject; publicKey: KeyObject; fingerprint: string } | null | undefined
+
+/**
+ * Serialize a value as JSON with object keys sorted recursively.
+ *
+ * Report data is stored as JSONB, which does not preserve key order, so the
+ * content hash must be computed from a canonical form to be reproducible.
+ */
+export function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, val) => {
+    if (val && typeof val === 'object' && !Array.isArray(val)) {
+      return Object.fromEntries(
+        Object.keys(val)
+          .sort()
+          .map((k) => [k, val[k]]),
+      )
+    }
+    return val
+  })
+}
+
+/**
+ * Calculate the SHA256 content hash of report data
+ */
+export function calculateContentHash(reportData: unknown): string {
+  return createHash('sha256').update(canonicalJson(reportData)).digest('hex')
+}
+
+/**
+ * Calculate the chain hash linking a report to the previous report for the same app
+ */
+export function calculateChainHash(previousHash: string | null, contentHash: string): string {
+  return createHash('sha256')
+    .update(`${previousHash ?? GENESIS_HASH}:${contentHash}`)
+    .digest('hex')
+}
+
+/**
+ * SHA256 fingerprint of a public key (over its SPKI DER encoding)
+ */
+export function getPublicKeyFingerprint(publicKey: KeyObject): string {
+  const der = publicKey.export({ type: 'spki', format: 'der' })
+  return createHash('sha256').update(der).digest('hex')
+}
+
+function loadSigningKey() {
+  if (cachedKey !== undefined) return cachedKey
+
+  const rawKey = process.env.AUDIT_REPORT_SIGNING_KEY
+  if (!rawKey) {
+    logger.warn('⚠️ AUDIT_REPORT_SIGNING_KEY is not set - audit reports will not be signed')
+    cachedKey = null
+    return cachedKey
+  }
+
+  // Handle key - can be base64 encoded or raw PEM
+  const pem = rawKey.includes('-----BEGIN') ? rawKey : Buffer.from(rawKey, 'base64').toString('utf-8')
+  const privateKey = createPrivateKey(pem)
+  if (privateKey.asymmetricKeyType !== 'ed25519') {
+    throw new Error(`AUDIT_REPORT_SIGNING_KEY must be an Ed25519 key, got ${privateKey.asymmetricKeyType}`)
+  }
+  const publicKey = createPublicKey(privateKey)
+  cachedKey = { privateKey, publicKey, fingerprint: getPublicKeyFingerprint(publicKey) }
+  return cachedKey
+}
+
+/**
+ * Sign a chain hash with the configured key.
+ * Returns null when no signing key is configured.
+ */
+export function signReportHash(chainHash: string): { signature: string; fingerprint: string } | null {
+  const key = loadSigningKey()
+  if (!key) return null
+
+  const signature = sign(null, Buffer.from(chainHash, 'utf-8'), key.privateKey).toString('base64')
+  return { signature, fingerprint: key.fingerprint }
+}
+
+/**
+ * Verify a chain hash signature against a public key
+ */
+export function verifyReportHashSignature(chainHash: string, signature: string, publicKey: KeyObject): boolean {
+  try {
+    return verify(null, Buffer.from(chainHash, 'utf-8'), publicKey, Buffer.from(signature, 'base64'))
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Public key and fingerprint of the configured signing key, or null if none is configured
+ */
+export function getSigningPublicKey(): { publicKey: KeyObject; fingerprint: string } | null {
+  const key = loadSigningKey()
+  return key ? { publicKey: key.publicKey, fingerprint: key.fingerprint } : null
+}
+
+export type ReportIntegrityProblem =
+  | 'content_hash_mismatch'
+  | 'chain_hash_mismatch'
+  | 'previous_report_changed'
+  | 'missing_signature'
+  | 'unknown_signing_key'
+  | 'invalid_signature'
+
+export interface ReportIntegrityInput {
+  reportData: unknown
+  contentHash: string
+  previousHash: string | null
+  chainHash: string | null
+  signature: string | null
+  signingKeyFingerprint: string | null
+  /** Current chain hash of the report this one links to, or null if it links to none */
+  previousReportChainHash: string | null
+}
+
+export interface ReportIntegrityResult {
+  authentic: boolean
+  problems: ReportIntegrityProblem[]
+}
+
+/**
+ * Check that a stored report is untampered and signed with the given key.
+ *
+ * Pure apart from signature verification — the caller loads the report and
+ * the chain hash of the report it links to.
+ */
+export function checkReportIntegrity(
+  input: ReportIntegrityInput,
+  signingKey: { publicKey: KeyObject; fingerprint: string } | null,
+): ReportIntegrityResult {
+  // Reports stored before chaining were hashed over JSON with unsorted keys, which
+  // cannot be reproduced from JSONB; they carry no signature to verify either.
+  if (!input.chainHash) {
+    return { authentic: false, problems: ['missing_signature'] }
+  }
+
+  const problems: ReportIntegrityProblem[] = []
+
+  if (calculateContentHash(input.reportData) !== input.contentHash) {
+    problems.push('content_hash_mismatch')
+  }
+
+  if (calculateChainHash(input.previousHash, input.contentHash) !== input.chainHash) {
+    problems.push('chain_hash_mismatch')
+  }
+
+  if (input.previousHash && input.previousHash !== input.previousReportChainHash) {
+    problems.push('previous_report_changed')
+  }
+
+  if (!input.signature || !input.signingKeyFingerprint) {
+    problems.push('missing_signature')
+  } else if (!signingKey || signingKey.fingerprint !== input.signingKeyFingerprint) {
+    problems.push('unknown_signing_key')
+  } else if (!verifyReportHashSignature(input.chainHash, input.signature, signingKey.publicKey)) {
+    problems.push('invalid_signature')
+  }
+
+  return { authentic: problems.length === 0, problems }
+}
@@ -9,6 +9,7 @@
  */
 
 import { getSectionsForEntraGroups } from '~/db/sections.server'
+import { getUserEntraGroups, saveUserEntraGroups } from '~/db/user-entra-groups.server'
 import { isJwtValidationConfigured, validateToken } from './jwt-validation.server'
 import { logger } from './logger.server'
 
@@ -18,7 +19,7 @@ const FALLBACK_GROUP_USER = '415d3817-c83d-44c9-a52b-5116757f8fa8' // teampensjo
 
 type UserRole = 'admin' | 'user'
 
-interface UserSection {
+export interface UserSection {
   id: number
   slug: string
   name: string
@@ -33,7 +34,7 @@ function isInNaisCluster(): boolean {
   return !!process.env.NAIS_CLUSTER_NAME
 }
 
-interface UserIdentity {
+export interface UserIdentity {
   navIdent: string
   name?: string
   email?: string
@@ -110,6 +111,10 @@ export async function getUserIdentity(request: Request): Promise<UserIdentity |
         const role = await getRoleFromGroups(groups)
 
         if (role) {
+          // Kept for permission checks on actions taken from Slack
+          await saveUserEntraGroups(result.payload.navIdent, groups).catch((error) =>
+            logger.warn(`Could not store Entra groups for ${result.payload.navIdent}: ${error}`),
+          )
           return {
             navIdent: result.payload.navIdent,
             name: result.payload.name,
@@ -133,24 +138,47 @@ export async function getUserIdentity(request: Request): Promise<UserIdentity |
   // 1. No valid token found AND
   // 2. Running in development mode AND
   // 3. NOT running in a Nais cluster
-  if (isDevelopment() && !isInNaisCluster()) {
-    const devIdent = process.env.DEV_NAV_IDENT
-    const devRole = process.env.DEV_USER_ROLE as UserRole | undefined
-
-    if (devIdent && devRole && (devRole === 'admin' || devRole === 'user')) {
-      logger.warn(`⚠️ DEV MODE: Using mock identity - NAV-ident: ${devIdent}, role: ${devRole}`)
-      return {
-        navIdent: devIdent,
-        name: 'Development User',
-        role: devRole,
-        entraGroups: [],
-      }
-    }
+  const devIdentity = getDevIdentity()
+  if (devIdentity) {
+    logger.warn(`⚠️ DEV MODE: Using mock identity - NAV-ident: ${devIdentity.navIdent}, role: ${devIdentity.role}`)
+    return devIdentity
   }
 
   return null
 }
 
+/**
+ * Mock identity from DEV_NAV_IDENT and DEV_USER_ROLE, only in development outside a Nais cluster.
+ */
+function getDevIdentity(): UserIdentity | null {
+  if (!isDevelopment() || isInNaisCluster()) return null
+
+  const devIdent = process.env.DEV_NAV_IDENT
+  const devRole = process.env.DEV_USER_ROLE as UserRole | undefined
+  if (!devIdent || !devRole || (devRole !== 'admin' && devRole !== 'user')) return null
+
+  return { navIdent: devIdent, name: 'Development User', role: devRole, entraGroups: [] }
+}
+
+/**
+ * Resolve a user's identity from the Entra ID groups of their latest web login,
+ * for actions taken outside the web app (e.g. from Slack).
+ *
+ * @returns UserIdentity if the user has logged in and is authorized, null otherwise
+ */
+export async function getUserIdentityByNavIdent(navIdent: string, name?: string): Promise<UserIdentity | null> {
+  const devIdentity = getDevIdentity()
+  if (devIdentity?.navIdent.toUpperCase() === navIdent.toUpperCase()) return devIdentity
+
+  const groups = await getUserEntraGroups(navIdent)
+  if (!groups) return null
+
+  const role = await getRoleFromGroups(groups)
+  if (!role) return null
+
+  return { navIdent, name, role, entraGroups: groups }
+}
+
 /**
  * Get NAV-ident from request (convenience function).
  *
@@ -0,0 +1,151 @@
+/**
+ * Branch Protection
+ *
+ * Pure helpers for the branch protection snapshot job: combining classic
+ * branch protection and repository rulesets into the settings that are in
+ * effect on a branch, and finding settings that were weakened between two
+ * snapshots.
+ */
+
+export const BRANCH_PROTECTION_SOURCES = ['classic', 'ruleset'] as const
+export type BranchProtectionSource = (typeof BRANCH_PROTECTION_SOURCES)[number]
+
+export const BRANCH_PROTECTION_SOURCE_LABELS: Record<BranchProtectionSource, string> = {
+  classic: 'Branch protection',
+  ruleset: 'Ruleset',
+}
+
+export interface BranchProtectionSettings {
+  /** 0 when pull requests or approvals are not required */
+  requiredApprovingReviewCount: number
+  dismissStaleReviews: boolean
+  requireCodeOwnerReviews: boolean
+  /** Whether admins are bound by the rules (classic enforce_admins, or a ruleset without bypass actors) */
+  enforceAdmins: boolean
+  allowForcePushes: boolean
+  /** Where the settings come from. Empty when the branch is not protected. */
+  sources: BranchProtectionSource[]
+}
+
+export type BranchProtectionSetting = Exclude<keyof BranchProtectionSettings, 'sources'>
+
+export const BRANCH_PROTECTION_SETTING_LABELS: Record<BranchProtectionSetting, string> = {
+  requiredApprovingReviewCount: 'Påkrevde godkjenninger',
+  dismissStaleReviews: 'Forkast godkjenninger ved nye commits',
+  requireCodeOwnerReviews: 'Krev godkjenning fra code owners',
+  enforceAdmins: 'Gjelder også administratorer',
+  allowForcePushes: 'Force push tillatt',
+}
+
+/** Classic branch protection as returned by GET /repos/{owner}/{repo}/branches/{branch}/protection */
+export interface ClassicBranchProtection {
+  required_pull_request_reviews?: {
+    required_approving_review_count?: number
+    dismiss_stale_reviews?: boolean
+    require_code_owner_reviews?: boolean
+  }
+  enforce_admins?: { enabled: boolean }
+  allow_force_pushes?: { enabled?: boolean }
+}
+
+/** Active ruleset rule as returned by GET /repos/{owner}/{repo}/rules/branches/{branch} */
+export interface BranchRule {
+  type: string
+  parameters?: {
+    required_approving_review_count?: number
+    dismiss_stale_reviews_on_push?: boolean
+    require_code_owner_review?: boolean
+  }
+  ruleset_id?: number
+}
+
+/**
+ * Combine classic protection and ruleset rules into the settings in effect.
+ * GitHub enforces both layers, so the strictest value of each setting wins.
+ *
+ * @param classic - classic protection, or null when the branch has none
+ * @param rules - active ruleset rules that apply to the branch
+ * @param rulesetsWithoutBypass - ids of rulesets known to have no bypass actors
+ */
+export function resolveBranchProtection(
+  classic: ClassicBranchProtection | null,
+  rules: BranchRule[],
+  rulesetsWithoutBypass: number[] = [],
+): BranchProtectionSettings {
+  const reviews = classic?.required_pull_request_reviews
+  const pullRequestRules = rules.filter((rule) => rule.type === 'pull_request')
+  const protectingRules = rules.filter((rule) => rule.type === 'pull_request' || rule.type === 'non_fast_forward')
+
+  const sources: BranchProtectionSource[] = []
+  if (classic) sources.push('classic')
+  if (protectingRules.length > 0) sources.push('ruleset')
+
+  return {
+    requiredApprovingReviewCount: Math.max(
+      reviews ? (reviews.required_approving_review_count ?? 0) : 0,
+      ...pullRequestRules.map((rule) => rule.parameters?.required_approving_review_count ?? 0),
+    ),
+    dismissStaleReviews:
+      !!reviews?.dismiss_stale_reviews ||
+      pullRequestRules.some((rule) => !!rule.parameters?.dismiss_stale_reviews_on_push),
+    requireCodeOwnerReviews:
+      !!reviews?.require_code_owner_reviews ||
+      pullRequestRules.some((rule) => !!rule.parameters?.require_code_owner_review),
+    enforceAdmins:
+      !!classic?.enforce_admins?.enabled ||
+      protectingRules.some((rule) => rule.ruleset_id !== undefined && rulesetsWithoutBypass.includes(rule.ruleset_id)),
+    allowForcePushes:
+      (!classic || !!classic.allow_force_pushes?.enabled) && !rules.some((rule) => rule.type === 'non_fast_forward'),
+    sources,
+  }
+}
+
+export interface BranchProtectionWeakening {
+  setting: BranchProtectionSetting
+  previous: number | boolean
+  current: number | boolean
+}
+
+/**
+ * Settings that became less strict from one snapshot to the next.
+ * Stricter settings and changes of source (e.g. classic to ruleset) are not weakenings.
+ */
+export function findBranchProtectionWeakenings(
+  previous: BranchProtectionSettings,
+  current: BranchProtectionSettings,
+): BranchProtectionWeakening[] {
+  const weakenings: BranchProtectionWeakening[] = []
+  const weakened = (setting: BranchProtectionSetting, isWeaker: boolean) => {
+    if (isWeaker) weakenings.push({ setting, previous: previous[setting], current: current[setting] })
+  }
+
+  weakened('requiredApprovingReviewCount', current.requiredApprovingReviewCount < previous.requiredApprovingReviewCount)
+  weakened('dismissStaleReviews', previous.dismissStaleReviews && !current.dismissStaleReviews)
+  weakened('requireCodeOwnerReviews', previous.requireCodeOwnerReviews && !current.requireCodeOwnerReviews)
+  weakened('enforceAdmins', previous.enforceAdmins && !current.enforceAdmins)
+  weakened('allowForcePushes', !previous.allowForcePushes && current.allowForcePushes)
+
+  return weakenings
+}
+
+/** Whether two snapshots hold the same settings, ignoring the order of sources */
+export function isSameBranchProtection(a: BranchProtectionSettings, b: BranchProtectionSettings): boolean {
+  return (
+    a.requiredApprovingReviewCount === b.requiredApprovingReviewCount &&
+    a.dismissStaleReviews === b.dismissStaleReviews &&
+    a.requireCodeOwnerReviews === b.requireCodeOwnerReviews &&
+    a.enforceAdmins === b.enforceAdmins &&
+    a.allowForcePushes === b.allowForcePushes &&
+    [...a.sources].sort().join(',') === [...b.sources].sort().join(',')
+  )
+}
+
+export function formatBranchProtectionValue(setting: BranchProtectionSetting, value: number | boolean): string {
+  if (setting === 'requiredApprovingReviewCount') return String(value)
+  return value ? 'Ja' : 'Nei'
+}
+
+/** Norwegian description of a weakening, e.g. "Påkrevde godkjenninger: 2 → 0" */
+export function describeBranchProtectionWeakening(weakening: BranchProtectionWeakening): string {
+  return `${BRANCH_PROTECTION_SETTING_LABELS[weakening.setting]}: ${formatBranchProtectionValue(weakening.setting, weakening.previous)} → ${formatBranchProtectionValue(weakening.setting, weakening.current)}`
+}
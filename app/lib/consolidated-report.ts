@@ -0,0 +1,128 @@
+/**
+ * Consolidated audit reports for a section or dev team.
+ *
+ * Aggregates per-app audit report data into one report with a summary row per
+ * app, a combined deviation list and an overall four-eyes coverage figure.
+ * Shared between server and client code.
+ */
+
+import type { AuditReportData, DeviationEntry } from '~/db/audit-reports.server'
+
+export type ConsolidatedScopeType = 'section' | 'dev_team'
+
+export const CONSOLIDATED_SCOPE_TYPE_LABELS: Record<ConsolidatedScopeType, string> = {
+  section: 'Seksjon',
+  dev_team: 'Utviklingsteam',
+}
+
+export function isConsolidatedScopeType(value: unknown): value is ConsolidatedScopeType {
+  return value === 'section' || value === 'dev_team'
+}
+
+export interface ConsolidatedAppInput {
+  monitoredAppId: number
+  appName: string
+  teamSlug: string
+  environmentName: string
+  repository: string
+  /** Deployments in the period that are not approved (from checkAuditReadiness) */
+  pendingCount: number
+  reportData: AuditReportData
+}
+
+export interface ConsolidatedAppSummary {
+  monitored_app_id: number
+  app_name: string
+  team_slug: string
+  environment_name: string
+  repository: string
+  total_deployments: number
+  pr_approved_count: number
+  manually_approved_count: number
+  legacy_count: number
+  pending_count: number
+  deviation_count: number
+  four_eyes_coverage: number
+}
+
+export interface ConsolidatedDeviationEntry extends DeviationEntry {
+  app_name: string
+  environment_name: string
+}
+
+export interface ConsolidatedReportTotals {
+  app_count: number
+  total_deployments: number
+  pr_approved_count: number
+  manually_approved_count: number
+  legacy_count: number
+  pending_count: number
+  deviation_count: number
+  four_eyes_coverage: number
+}
+
+export interface ConsolidatedReportData {
+  apps: ConsolidatedAppSummary[]
+  deviations: ConsolidatedDeviationEntry[]
+  totals: ConsolidatedReportTotals
+}
+
+/**
+ * Share of deployments that are not pending approval (0–1).
+ * A period without deployments has full coverage.
+ */
+function coverage(total: number, pending: number): number {
+  return total > 0 ? (total - pending) / total : 1
+}
+
+export function buildConsolidatedReportData(apps: ConsolidatedAppInput[]): ConsolidatedReportData {
+  const summaries: ConsolidatedAppSummary[] = apps.map((app) => {
+    const { deployments, deviations, legacy_count } = app.reportData
+    const manualCount = deployments.filter((d) => d.method === 'manual').length
+    // Pending deployments have neither a manual approval nor legacy info, so they are listed as 'pr'
+    const prCount = deployments.filter((d) => d.method === 'pr').length
+    return {
+      monitored_app_id: app.monitoredAppId,
+      app_name: app.appName,
+      team_slug: app.teamSlug,
+      environment_name: app.environmentName,
+      repository: app.repository,
+      total_deployments: deployments.length,
+      pr_approved_count: Math.max(0, prCount - app.pendingCount),
+      manually_approved_count: manualCount,
+      legacy_count,
+      pending_count: app.pendingCount,
+      deviation_count: deviations.length,
+      four_eyes_coverage: coverage(deployments.length, app.pendingCount),
+    }
+  })
+
+  const deviations = apps
+    .flatMap((app) =>
+      app.reportData.deviations.map((deviation) => ({
+        ...deviation,
+        app_name: app.appName,
+        environment_name: app.environmentName,
+      })),
+    )
+    .sort((a, b) => a.date.localeCompare(b.date))
+
+  const sum = (key: keyof ConsolidatedAppSummary) => summaries.reduce((acc, s) => acc + (s[key] as number), 0)
+  const totalDeployments = sum('total_deployments')
+  const pendingCount = sum('pending_count')
+
+  return {
+    apps: summaries,
+    deviations,
+    totals: {
+      app_count: summaries.length,
+      total_deployments: totalDeployments,
+      pr_approved_count: sum('pr_approved_count'),
+      manually_approved_count: sum('manually_approved_count'),
+      legacy_count: sum('legacy_count'),
+      pending_count: pendingCount,
+      deviation_count: deviations.length,
+      four_eyes_coverage: coverage(totalDeployments, pendingCount),
+    },
+  }
+}
@@ -0,0 +1,77 @@
+import { parseImageReference } from '~/lib/image-attestation'
+import { logger } from '~/lib/logger.server'
+
+const REGISTRY_TIMEOUT_MS = 10_000
+
+const MANIFEST_ACCEPT = [
+  'application/vnd.oci.image.index.v1+json',
+  'application/vnd.oci.image.manifest.v1+json',
+  'application/vnd.docker.distribution.manifest.list.v2+json',
+  'application/vnd.docker.distribution.manifest.v2+json',
+].join(', ')
+
+/**
+ * Resolve an image reference to its digest (sha256:...).
+ * References that already contain a digest are returned as is. Tags are looked
+ * up with an anonymous manifest request to the registry, which works for
+ * public images. Returns null when the digest cannot be resolved.
+ */
+export async function resolveImageDigest(imageRef: string): Promise<string | null> {
+  const ref = parseImageReference(imageRef)
+  if (!ref) return null
+  if (ref.digest) return ref.digest
+  if (!ref.tag) return null
+
+  const url = `https://${ref.registry}/v2/${ref.repository}/manifests/${ref.tag}`
+  try {
+    let response = await fetch(url, {
+      method: 'HEAD',
+      headers: { Accept: MANIFEST_ACCEPT },
+      signal: AbortSignal.timeout(REGISTRY_TIMEOUT_MS),
+    })
+
+    if (response.status === 401) {
+      const token = await getAnonymousRegistryToken(response.headers.get('www-authenticate'))
+      if (!token) return null
+      response = await fetch(url, {
+        method: 'HEAD',
+        headers: { Accept: MANIFEST_ACCEPT, Authorization: `Bearer ${token}` },
+        signal: AbortSignal.timeout(REGISTRY_TIMEOUT_MS),
+      })
+    }
+
+    if (!response.ok) {
+      logger.warn(`⚠️ Could not resolve digest for ${imageRef}: registry returned ${response.status}`)
+      return null
+    }
+    return response.headers.get('docker-content-digest')
+  } catch (error) {
+    logger.warn(`⚠️ Could not resolve digest for ${imageRef}:`, error as Record<string, unknown>)
+    return null
+  }
+}
+
+/**
+ * Registries that require a token even for public images answer with a
+ * `WWW-Authenticate: Bearer realm=...,service=...,scope=...` challenge.
+ */
+async function getAnonymousRegistryToken(challenge: string | null): Promise<string | null> {
+  if (!challenge?.startsWith('Bearer ')) return null
+
+  const params = new Map(
+    [...challenge.substring('Bearer '.length).matchAll(/(\w+)="([^"]*)"/g)].map((match) => [match[1], match[2]]),
+  )
+  const realm = params.get('realm')
+  if (!realm) return null
+
+  const tokenUrl = new URL(realm)
+  for (const key of ['service', 'scope']) {
+    const value = params.get(key)
+    if (value) tokenUrl.searchParams.set(key, value)
+  }
+
+  const response = await fetch(tokenUrl, { signal: AbortSignal.timeout(REGISTRY_TIMEOUT_MS) })
+  if (!response.ok) return null
+  const body = (await response.json()) as { token?: string; access_token?: string }
+  return body.token ?? body.access_token ?? null
+}
@@ -20,3 +20,102 @@ export const DEVIATION_FOLLOW_UP_ROLE_LABELS: Record<DeviationFollowUpRole, stri
   delivery_lead: 'Leveranseleder',
   section_lead: 'Seksjonsleder',
 }
+
+// =============================================================================
+// Lifecycle
+// =============================================================================
+
+export type DeviationStatus = 'registered' | 'under_investigation' | 'action_required' | 'closed'
+
+export const DEVIATION_STATUS_LABELS: Record<DeviationStatus, string> = {
+  registered: 'Registrert',
+  under_investigation: 'Under undersøkelse',
+  action_required: 'Tiltak påkrevd',
+  closed: 'Lukket',
+}
+
+/** Allowed next states. Closed deviations can be reopened for investigation. */
+export const DEVIATION_STATUS_TRANSITIONS: Record<DeviationStatus, DeviationStatus[]> = {
+  registered: ['under_investigation', 'action_required', 'closed'],
+  under_investigation: ['action_required', 'closed'],
+  action_required: ['under_investigation', 'closed'],
+  closed: ['under_investigation'],
+}
+
+export function isValidDeviationTransition(from: DeviationStatus, to: DeviationStatus): boolean {
+  return DEVIATION_STATUS_TRANSITIONS[from].includes(to)
+}
+
+/** Days to close a deviation, by severity. Deviations without severity are treated as medium. */
+export const DEVIATION_DUE_DAYS: Record<DeviationSeverity, number> = {
+  critical: 2,
+  high: 7,
+  medium: 30,
+  low: 90,
+}
+
+export const DEVIATION_SEVERITY_ORDER: DeviationSeverity[] = ['critical', 'high', 'medium', 'low']
+
+export function getDeviationDueDate(severity: DeviationSeverity | null, from: Date): Date {
+  const days = DEVIATION_DUE_DAYS[severity ?? 'medium']
+  return new Date(from.getTime() + days * 24 * 60 * 60 * 1000)
+}
+
+export function isDeviationOverdue(
+  deviation: { status: DeviationStatus; due_at: Date | string | null },
+  now: Date = new Date(),
+): boolean {
+  return deviation.status !== 'closed' && deviation.due_at !== null && new Date(deviation.due_at) < now
+}
+
+// =============================================================================
+// Registration input
+// =============================================================================
+
+export interface DeviationInput {
+  reason: string
+  breachType?: string
+  intent?: DeviationIntent
+  severity?: DeviationSeverity
+  followUpRole?: DeviationFollowUpRole
+}
+
+export type DeviationInputErrors = Partial<Record<keyof DeviationInput, string>>
+
+/**
+ * Validate deviation fields from the web form or the Slack modal.
+ * Empty optional fields are left out; unknown select values are errors.
+ */
+export function validateDeviationInput(raw: {
+  reason?: string | null
+  breachType?: string | null
+  intent?: string | null
+  severity?: string | null
+  followUpRole?: string | null
+}): { ok: true; input: DeviationInput } | { ok: false; errors: DeviationInputErrors } {
+  const errors: DeviationInputErrors = {}
+  const input: DeviationInput = { reason: raw.reason?.trim() ?? '' }
+
+  if (!input.reason) errors.reason = 'Beskrivelse av avvik er påkrevd'
+
+  const breachType = raw.breachType?.trim()
+  if (breachType) input.breachType = breachType
+
+  if (raw.intent) {
+    if (Object.hasOwn(DEVIATION_INTENT_LABELS, raw.intent)) input.intent = raw.intent as DeviationIntent
+    else errors.intent = 'Ugyldig intensjon'
+  }
+  if (raw.severity) {
+    if (Object.hasOwn(DEVIATION_SEVERITY_LABELS, raw.severity)) input.severity = raw.severity as DeviationSeverity
+    else errors.severity = 'Ugyldig alvorlighetsgrad'
+  }
+  if (raw.followUpRole) {
+    if (Object.hasOwn(DEVIATION_FOLLOW_UP_ROLE_LABELS, raw.followUpRole)) {
+      input.followUpRole = raw.followUpRole as DeviationFollowUpRole
+    } else {
+      errors.followUpRole = 'Ugyldig oppfølgingsansvarlig'
+    }
+  }
+
+  return Object.keys(errors).length > 0 ? { ok: false, errors } : { ok: true, input }
+}
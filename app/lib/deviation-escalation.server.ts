@@ -0,0 +1,77 @@
+/**
+ * Escalation scheduler for overdue deviations.
+ *
+ * Checks every hour for open deviations that have passed their due date and
+ * posts them to the deviation Slack channel, and to the app's own channel when
+ * it uses Teams or a webhook. Each deviation is claimed in the database before
+ * sending, so it is escalated once per due date across pods.
+ */
+
+import { claimOverdueDeviationsForEscalation } from '~/db/deviations.server'
+import { getDeviationSlackChannel } from '~/db/global-settings.server'
+import { getMonitoredApplicationById } from '~/db/monitored-applications.server'
+import { logger } from '~/lib/logger.server'
+import { DEVIATION_STATUS_LABELS } from './deviation-constants'
+import { forwardToAppChannel } from './notifications/channels.server'
+import type { DeviationNotification } from './slack'
+import { sendDeviationNotification } from './slack/client.server'
+
+const SCHEDULER_INTERVAL_MS = 60 * 60 * 1000 // 1 hour
+
+let schedulerInterval: ReturnType<typeof setInterval> | null = null
+
+/**
+ * Start the deviation escalation scheduler.
+ */
+export function startDeviationEscalationScheduler(): void {
+  if (schedulerInterval) return
+  logger.info('🚨 Starting deviation escalation scheduler (1 hour interval)')
+  schedulerInterval = setInterval(escalateOverdueDeviations, SCHEDULER_INTERVAL_MS)
+}
+
+/**
+ * Escalate all open deviations past their due date that have not been escalated yet.
+ */
+async function escalateOverdueDeviations(): Promise<void> {
+  try {
+    const channel = await getDeviationSlackChannel()
+    // Leave deviations unclaimed until a channel is configured
+    if (!channel.channel_id) return
+
+    const deviations = await claimOverdueDeviationsForEscalation()
+    const baseUrl = process.env.BASE_URL || 'https://nda.ansatt.nav.no'
+
+    for (const deviation of deviations) {
+      const notification: DeviationNotification = {
+        deploymentId: deviation.deployment_id,
+        appName: deviation.app_name || 'Ukjent',
+        environmentName: deviation.environment_name || 'Ukjent',
+        teamSlug: deviation.team_slug || 'Ukjent',
+        commitSha: deviation.commit_sha || 'Ukjent',
+        reason: deviation.reason,
+        breachType: deviation.breach_type || undefined,
+        intent: deviation.intent || undefined,
+        severity: deviation.severity || undefined,
+        followUpRole: deviation.follow_up_role || undefined,
+        registeredByName: deviation.registered_by_name || deviation.registered_by,
+        detailsUrl: `${baseUrl}/admin/deviations/${deviation.id}`,
+        escalation: {
+          dueAt: deviation.due_at
+            ? new Date(deviation.due_at).toLocaleDateString('no-NO', { dateStyle: 'medium' })
+            : 'Ukjent',
+          status: DEVIATION_STATUS_LABELS[deviation.status],
+          assignedToName: deviation.assigned_to_name || deviation.assigned_to_nav_ident || undefined,
+        },
+      }
+      await sendDeviationNotification(notification, channel.channel_id)
+
+      const app = deviation.monitored_app_id ? await getMonitoredApplicationById(deviation.monitored_app_id) : null
+      if (app) {
+        await forwardToAppChannel(app, { type: 'deviation', notification })
+      }
+      logger.info(`🚨 Escalated overdue deviation ${deviation.id} for ${deviation.app_name}`)
+    }
+  } catch (error) {
+    logger.error('Deviation escalation scheduler error:', error)
+  }
+}
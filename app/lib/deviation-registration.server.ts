@@ -0,0 +1,52 @@
+/**
+ * Registration of deviations, shared by the deployment page and the Slack modal.
+ *
+ * The Slack notification to the deviation channel is sent by the caller
+ * through notifyDeviationRegistered in slack/client.server.ts, since the
+ * Slack handlers themselves register deviations.
+ */
+
+import type { AuditActor } from '~/db/audit-events.server'
+import { createDeviation } from '~/db/deviations.server'
+import type { DeviationInput } from './deviation-constants'
+
+/**
+ * Create a deviation for a deployment and record it in the audit trail, in one transaction.
+ */
+export async function registerDeviation(params: {
+  deployment: { id: number; monitored_app_id: number }
+  input: DeviationInput
+  actor: AuditActor
+}) {
+  const { deployment, input, actor } = params
+
+  return createDeviation(
+    {
+      deployment_id: deployment.id,
+      reason: input.reason,
+      breach_type: input.breachType,
+      intent: input.intent,
+      severity: input.severity,
+      follow_up_role: input.followUpRole,
+      registered_by: actor.navIdent,
+      registered_by_name: actor.name ?? undefined,
+    },
+    (deviation) => ({
+      actor,
+      action: 'deviation.register',
+      entityType: 'deviation',
+      entityId: deviation.id,
+      monitoredAppId: deployment.monitored_app_id,
+      after: {
+        deployment_id: deployment.id,
+        reason: deviation.reason,
+        breach_type: deviation.breach_type,
+        intent: deviation.intent,
+        severity: deviation.severity,
+        follow_up_role: deviation.follow_up_role,
+        status: deviation.status,
+        due_at: deviation.due_at,
+      },
+    }),
+  )
+}
@@ -0,0 +1,124 @@
+/**
+ * Event stream dispatcher.
+ *
+ * Every 30 seconds, fans new outbox events out to the matching subscribers and
+ * posts due deliveries as signed JSON. Failed attempts are retried with
+ * exponential backoff until MAX_DELIVERY_ATTEMPTS. Deliveries are claimed in
+ * the database, so pods share the work, and a claim expires if a pod stops
+ * mid-delivery. Subscribers may therefore receive an event more than once.
+ */
+
+import {
+  claimDueEventDeliveries,
+  fanOutOutboxEvents,
+  markEventDeliveryDelivered,
+  markEventDeliveryFailed,
+} from '~/db/event-outbox.server'
+import { isValidWebhookUrl } from '~/lib/form-validators'
+import { logger } from '~/lib/logger.server'
+import { buildStreamEventBody, getRetryDelayMs, MAX_DELIVERY_ATTEMPTS, STREAM_EVENT_ID_HEADER } from './event-stream'
+import {
+  signWebhookPayload,
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+} from './notifications/webhook'
+
+const SCHEDULER_INTERVAL_MS = 30 * 1000 // 30 seconds
+const DELIVERY_BATCH_SIZE = 20
+const DELIVERY_TIMEOUT_MS = 10_000
+// Longer than a full batch of timed-out deliveries
+const CLAIM_LOCK_SECONDS = 5 * 60
+
+let schedulerInterval: ReturnType<typeof setInterval> | null = null
+let running = false
+
+/**
+ * Start the event stream dispatcher.
+ */
+export function startEventDispatcher(): void {
+  if (schedulerInterval) return
+  logger.info('📤 Starting event stream dispatcher (30 second interval)')
+  schedulerInterval = setInterval(dispatchEvents, SCHEDULER_INTERVAL_MS)
+}
+
+async function dispatchEvents(): Promise<void> {
+  // Skip the tick if the previous one is still delivering
+  if (running) return
+  running = true
+  try {
+    await fanOutOutboxEvents()
+
+    const deliveries = await claimDueEventDeliveries(DELIVERY_BATCH_SIZE, CLAIM_LOCK_SECONDS)
+    for (const delivery of deliveries) {
+      await deliver(delivery)
+    }
+  } catch (error) {
+    logger.error('Event dispatcher error:', error)
+  } finally {
+    running = false
+  }
+}
+
+async function deliver(delivery: Awaited<ReturnType<typeof claimDueEventDeliveries>>[number]): Promise<void> {
+  const body = JSON.stringify(
+    buildStreamEventBody({
+      id: delivery.outbox_id,
+      event_type: delivery.event_type,
+      created_at: delivery.event_created_at,
+      payload: delivery.payload,
+    }),
+  )
+  const timestamp = Math.floor(Date.now() / 1000)
+
+  let responseStatus: number | null = null
+  let error: string | null = null
+  // Checked again here for subscribers saved before the validation was tightened
+  const urlAllowed = isValidWebhookUrl(delivery.url)
+  if (!urlAllowed) {
+    error = 'URL-en er ikke en https-adresse med offentlig vertsnavn'
+  } else {
+    try {
+      const response = await fetch(delivery.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          [STREAM_EVENT_ID_HEADER]: String(delivery.outbox_id),
+          [WEBHOOK_EVENT_HEADER]: delivery.event_type,
+          [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+          [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(body, delivery.secret, timestamp),
+        },
+        body,
+        // A redirect could lead to an address the URL validation would reject
+        redirect: 'error',
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+      })
+      responseStatus = response.status
+      if (!response.ok) {
+        error = `HTTP ${response.status}: ${(await response.text()).slice(0, 500)}`
+      }
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err)
+    }
+  }
+
+  if (!error && responseStatus !== null) {
+    await markEventDeliveryDelivered(delivery.id, responseStatus)
+    return
+  }
+
+  const attempts = delivery.attempts + 1
+  // Retrying cannot help when the URL itself is rejected
+  const giveUp = !urlAllowed || attempts >= MAX_DELIVERY_ATTEMPTS
+  await markEventDeliveryFailed(delivery.id, {
+    responseStatus,
+    error: error ?? 'Ukjent feil',
+    nextAttemptAt: giveUp ? null : new Date(Date.now() + getRetryDelayMs(attempts)),
+  })
+
+  if (giveUp) {
+    logger.error(`📤 Gave up delivering event ${delivery.outbox_id} after ${attempts} attempts: ${error}`)
+  } else {
+    logger.warn(`📤 Failed to deliver event ${delivery.outbox_id} (attempt ${attempts}): ${error}`)
+  }
+}
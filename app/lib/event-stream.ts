@@ -0,0 +1,165 @@
+/**
+ * Event stream for downstream consumers
+ *
+ * Status transitions and registered deviations are written to an outbox table
+ * in the same transaction as the change itself, and delivered at least once to
+ * the subscribers configured under /admin/event-stream (see
+ * event-dispatcher.server.ts). Receivers must deduplicate on the event id.
+ */
+
+export const STREAM_EVENT_TYPES = ['deployment.status_changed', 'deviation.registered'] as const
+export type StreamEventType = (typeof STREAM_EVENT_TYPES)[number]
+
+export const STREAM_EVENT_LABELS: Record<StreamEventType, string> = {
+  'deployment.status_changed': 'Statusendring',
+  'deviation.registered': 'Avvik registrert',
+}
+
+export function isStreamEventType(value: unknown): value is StreamEventType {
+  return typeof value === 'string' && (STREAM_EVENT_TYPES as readonly string[]).includes(value)
+}
+
+/**
+ * Header carrying the outbox id, so receivers can deduplicate redeliveries.
+ * Event type, timestamp and signature use the webhook headers in notifications/webhook.ts.
+ */
+export const STREAM_EVENT_ID_HEADER = 'X-NDA-Event-Id'
+
+/** Give up on a delivery after this many attempts (about a day with the backoff below) */
+export const MAX_DELIVERY_ATTEMPTS = 12
+
+const BASE_RETRY_DELAY_MS = 60 * 1000 // 1 minute
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000 // 6 hours
+
+/**
+ * Delay before the next attempt after `attempts` failed attempts:
+ * 1, 2, 4, 8 … minutes, capped at 6 hours.
+ */
+export function getRetryDelayMs(attempts: number): number {
+  const exponent = Math.max(attempts - 1, 0)
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** exponent, MAX_RETRY_DELAY_MS)
+}
+
+/**
+ * Deployment and app identity included in every event
+ */
+export interface StreamEventContext {
+  deploymentId: number
+  commitSha: string | null
+  teamSlug: string
+  environmentName: string
+  appName: string
+}
+
+export interface StatusChangedEventData {
+  deployment: { id: number; commitSha: string | null; url: string }
+  app: { team: string; environment: string; name: string }
+  fromStatus: string | null
+  toStatus: string
+  changeSource: string
+  changedBy: string | null
+}
+
+export interface DeviationRegisteredEventData {
+  deployment: { id: number; commitSha: string | null; url: string }
+  app: { team: string; environment: string; name: string }
+  deviation: {
+    id: number
+    reason: string
+    breachType: string | null
+    intent: string | null
+    severity: string | null
+    followUpRole: string | null
+    dueAt: string | null
+    registeredBy: string
+  }
+}
+
+function describeDeployment(context: StreamEventContext, baseUrl: string) {
+  return {
+    deployment: {
+      id: context.deploymentId,
+      commitSha: context.commitSha,
+      url: `${baseUrl}/team/${context.teamSlug}/env/${context.environmentName}/app/${context.appName}/deployments/${context.deploymentId}`,
+    },
+    app: { team: context.teamSlug, environment: context.environmentName, name: context.appName },
+  }
+}
+
+export function buildStatusChangedEventData(
+  context: StreamEventContext,
+  transition: { fromStatus: string | null; toStatus: string; changeSource: string; changedBy?: string | null },
+  baseUrl: string,
+): StatusChangedEventData {
+  return {
+    ...describeDeployment(context, baseUrl),
+    fromStatus: transition.fromStatus,
+    toStatus: transition.toStatus,
+    changeSource: transition.changeSource,
+    changedBy: transition.changedBy ?? null,
+  }
+}
+
+export function buildDeviationRegisteredEventData(
+  context: StreamEventContext,
+  deviation: {
+    id: number
+    reason: string
+    breach_type: string | null
+    intent: string | null
+    severity: string | null
+    follow_up_role: string | null
+    due_at: Date | null
+    registered_by: string
+  },
+  baseUrl: string,
+): DeviationRegisteredEventData {
+  return {
+    ...describeDeployment(context, baseUrl),
+    deviation: {
+      id: deviation.id,
+      reason: deviation.reason,
+      breachType: deviation.breach_type,
+      intent: deviation.intent,
+      severity: deviation.severity,
+      followUpRole: deviation.follow_up_role,
+      dueAt: deviation.due_at ? new Date(deviation.due_at).toISOString() : null,
+      registeredBy: deviation.registered_by,
+    },
+  }
+}
+
+/**
+ * Subscriber filter. An empty status list means all statuses; the status
+ * filter only applies to status changes.
+ */
+export interface StreamSubscriberFilter {
+  event_types: string[]
+  statuses: string[]
+}
+
+export function subscriberWantsEvent(
+  subscriber: StreamSubscriberFilter,
+  event: { event_type: string; payload: { toStatus?: string } },
+): boolean {
+  if (!subscriber.event_types.includes(event.event_type)) return false
+  if (event.event_type !== 'deployment.status_changed' || subscriber.statuses.length === 0) return true
+  return !!event.payload.toStatus && subscriber.statuses.includes(event.payload.toStatus)
+}
+
+/**
+ * The JSON body posted to subscribers
+ */
+export function buildStreamEventBody(event: {
+  id: number
+  event_type: string
+  created_at: Date | string
+  payload: object
+}) {
+  return {
+    id: event.id,
+    type: event.event_type,
+    occurredAt: new Date(event.created_at).toISOString(),
+    data: event.payload,
+  }
+}
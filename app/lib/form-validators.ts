@@ -2,6 +2,13 @@ const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
 const NAV_IDENT_REGEX = /^[a-zA-Z]\d{6}$/
 const SLACK_CHANNEL_REGEX = /^(C[A-Z0-9]+|#[\w-]+)$/i
 const GITHUB_USERNAME_REGEX = /^[a-zA-Z0-9](?:[a-zA-Z0-9]|-(?=[a-zA-Z0-9]))*$/
+const GITHUB_TEAM_SLUG_REGEX = /^[a-z0-9][a-z0-9_-]*$/
+const WORKFLOW_FILE_REGEX = /^(\.github\/workflows\/)?[\w.-]+\.ya?ml$/
+const WORKFLOW_EVENT_REGEX = /^[a-z][a-z_]*$/
+const REPOSITORY_PATH_REGEX = /^\/?[\w.@+-]+(\/[\w.@+-]+)*\/?$/
+
+/** Domains that resolve to the host itself, the local network or services inside the cluster */
+const INTERNAL_HOST_SUFFIXES = ['.localhost', '.local', '.internal', '.svc', '.cluster.local']
 
 export function isValidEmail(value: string): boolean {
   return EMAIL_REGEX.test(value)
@@ -19,6 +26,59 @@ export function isValidGitHubUsername(value: string): boolean {
   return value.length <= 39 && GITHUB_USERNAME_REGEX.test(value)
 }
 
+export function isValidGitHubTeamSlug(value: string): boolean {
+  return value.length <= 100 && GITHUB_TEAM_SLUG_REGEX.test(value)
+}
+
+/**
+ * A GitHub Actions workflow file, given as full path (.github/workflows/deploy.yml)
+ * or file name (deploy.yml).
+ */
+export function isValidWorkflowFile(value: string): boolean {
+  return value.length <= 255 && WORKFLOW_FILE_REGEX.test(value)
+}
+
+/**
+ * A GitHub Actions event name, e.g. push or workflow_dispatch.
+ */
+export function isValidWorkflowEvent(value: string): boolean {
+  return value.length <= 100 && WORKFLOW_EVENT_REGEX.test(value)
+}
+
+/**
+ * A directory in a repository, e.g. apps/my-app. Relative segments (. and ..) are not allowed.
+ */
+export function isValidRepositoryPath(value: string): boolean {
+  return (
+    value.length <= 255 &&
+    REPOSITORY_PATH_REGEX.test(value) &&
+    !value.split('/').some((segment) => segment === '.' || segment === '..')
+  )
+}
+
+/**
+ * Webhook URLs must use https and a public host name, since notifications are
+ * sent to them unattended from inside the cluster. IP addresses, single-label
+ * names and internal domains are rejected, so a URL cannot reach the pod
+ * itself, the metadata server or other services in the cluster.
+ */
+export function isValidWebhookUrl(value: string): boolean {
+  try {
+    const url = new URL(value)
+    return url.protocol === 'https:' && isPublicHostname(url.hostname)
+  } catch {
+    return false
+  }
+}
+
+function isPublicHostname(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/\.$/, '')
+  // IPv6 literals keep their brackets; URL normalizes IPv4 literals (also hex and integer forms) to dotted decimal
+  if (host.startsWith('[') || /^[\d.]+$/.test(host)) return false
+  if (!host.includes('.')) return false
+  return !INTERNAL_HOST_SUFFIXES.some((suffix) => host === suffix.slice(1) || host.endsWith(suffix))
+}
+
 /**
  * Safely read a string field from FormData.
  *
@@ -31,6 +31,7 @@ export const FOUR_EYES_STATUSES = [
   'repository_mismatch', // Repository doesn't match monitored app
   'unauthorized_repository', // Repository not approved for this app
   'unauthorized_branch', // Deployed commit not on approved branch
+  'unauthorized_workflow', // Deployed by a workflow run the app does not allow
   'error', // Error during verification
   'unknown', // Not yet verified (DB default)
 ] as const
@@ -70,6 +71,7 @@ export const NOT_APPROVED_STATUSES: FourEyesStatus[] = [
   'approved_pr_with_unreviewed',
   'unauthorized_repository',
   'unauthorized_branch',
+  'unauthorized_workflow',
   'legacy',
   'legacy_pending',
   'error',
@@ -135,6 +137,7 @@ export const FOUR_EYES_STATUS_LABELS: Record<FourEyesStatus, string> = {
   repository_mismatch: 'Repository mismatch',
   unauthorized_repository: 'Ikke godkjent repo',
   unauthorized_branch: 'Ikke på godkjent branch',
+  unauthorized_workflow: 'Ikke godkjent workflow',
   error: 'Feil',
   unknown: 'Ukjent',
 }
@@ -0,0 +1,29 @@
+import type { WorkflowRunInfo } from '~/lib/verification/types'
+import { getGitHubClient } from './client.server'
+
+/**
+ * Fetch a GitHub Actions workflow run.
+ * Returns null when the run does not exist (404), e.g. after GitHub has deleted
+ * it. Other errors are thrown so the caller can retry later.
+ */
+export async function getWorkflowRun(owner: string, repo: string, runId: number): Promise<WorkflowRunInfo | null> {
+  try {
+    const client = getGitHubClient()
+    const { data } = await client.actions.getWorkflowRun({ owner, repo, run_id: runId })
+
+    return {
+      runId: data.id,
+      path: data.path,
+      event: data.event,
+      headBranch: data.head_branch,
+      actor: data.triggering_actor?.login ?? data.actor?.login ?? null,
+      repository: data.repository.full_name,
+      headSha: data.head_sha,
+    }
+  } catch (error) {
+    if (error instanceof Error && 'status' in error && (error as { status: number }).status === 404) {
+      return null
+    }
+    throw error
+  }
+}
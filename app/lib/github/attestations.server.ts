@@ -0,0 +1,19 @@
+import { getGitHubClient } from './client.server'
+
+/**
+ * Fetch the attestation bundles GitHub stores for an image digest in a repository.
+ * Returns an empty list when there are none (404). Other errors are thrown so
+ * the caller can retry later.
+ */
+export async function getAttestationBundles(owner: string, repo: string, digest: string): Promise<unknown[]> {
+  try {
+    const client = getGitHubClient()
+    const { data } = await client.repos.listAttestations({ owner, repo, subject_digest: digest, per_page: 100 })
+    return (data.attestations ?? []).map((attestation) => attestation.bundle)
+  } catch (error) {
+    if (error instanceof Error && 'status' in error && (error as { status: number }).status === 404) {
+      return []
+    }
+    throw error
+  }
+}
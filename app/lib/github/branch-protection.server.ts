@@ -0,0 +1,69 @@
+import {
+  type BranchProtectionSettings,
+  type BranchRule,
+  type ClassicBranchProtection,
+  resolveBranchProtection,
+} from '~/lib/branch-protection'
+import { logger } from '~/lib/logger.server'
+import { getGitHubClient } from './client.server'
+
+function isNotFound(error: unknown): boolean {
+  return error instanceof Error && 'status' in error && (error as { status: number }).status === 404
+}
+
+/**
+ * Fetch the branch protection and ruleset settings in effect on the default
+ * branch of a repository.
+ *
+ * Returns null when the settings could not be read (e.g. missing access to
+ * branch protection), so an unknown state is never recorded as unprotected.
+ */
+export async function getBranchProtectionSettings(
+  owner: string,
+  repo: string,
+): Promise<{ branch: string; settings: BranchProtectionSettings } | null> {
+  const client = getGitHubClient()
+
+  try {
+    const { data: repository } = await client.repos.get({ owner, repo })
+    const branch = repository.default_branch
+
+    let classic: ClassicBranchProtection | null = null
+    try {
+      classic = (await client.repos.getBranchProtection({ owner, repo, branch })).data
+    } catch (error) {
+      // 404 means the branch has no classic protection
+      if (!isNotFound(error)) throw error
+    }
+
+    const rules: BranchRule[] = (
+      await client.paginate(client.repos.getBranchRules, { owner, repo, branch, per_page: 100 })
+    ).map((rule) => ({
+      type: rule.type,
+      parameters: rule.type === 'pull_request' ? rule.parameters : undefined,
+      ruleset_id: rule.ruleset_id,
+    }))
+
+    // Bypass actors are only visible with access to the ruleset; unknown counts as bypassable
+    const rulesetsWithoutBypass: number[] = []
+    const rulesetIds = [...new Set(rules.map((rule) => rule.ruleset_id).filter((id): id is number => id !== undefined))]
+    for (const rulesetId of rulesetIds) {
+      try {
+        const { data: ruleset } = await client.repos.getRepoRuleset({
+          owner,
+          repo,
+          ruleset_id: rulesetId,
+          includes_parents: true,
+        })
+        if (ruleset.bypass_actors?.length === 0) rulesetsWithoutBypass.push(rulesetId)
+      } catch (error) {
+        logger.warn(`⚠️ Failed to fetch ruleset ${rulesetId} for ${owner}/${repo}:`, error as Record<string, unknown>)
+      }
+    }
+
+    return { branch, settings: resolveBranchProtection(classic, rules, rulesetsWithoutBypass) }
+  } catch (error) {
+    logger.warn(`⚠️ Failed to fetch branch protection for ${owner}/${repo}:`, error as Record<string, unknown>)
+    return null
+  }
+}
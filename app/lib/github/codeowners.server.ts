@@ -0,0 +1,63 @@
+import { CODEOWNERS_PATHS } from '~/lib/verification/codeowners'
+import type { CodeownersFile } from '~/lib/verification/types'
+import { getGitHubClient } from './client.server'
+
+function isNotFound(error: unknown): boolean {
+  return error instanceof Error && 'status' in error && (error as { status: number }).status === 404
+}
+
+/**
+ * Fetch the paths changed by a pull request. Renamed files are listed with
+ * both their old and new path, since moving a file out of a path changes it
+ * for the owners of that path too.
+ *
+ * Errors are thrown so the caller can leave the files unknown and retry later.
+ */
+export async function getPullRequestFiles(owner: string, repo: string, pullNumber: number): Promise<string[]> {
+  const client = getGitHubClient()
+  const files = await client.paginate(client.pulls.listFiles, { owner, repo, pull_number: pullNumber, per_page: 100 })
+  return [
+    ...new Set(
+      files.flatMap((file) => (file.previous_filename ? [file.previous_filename, file.filename] : [file.filename])),
+    ),
+  ]
+}
+
+/**
+ * Fetch the CODEOWNERS file in effect at the merge base of a pull request,
+ * i.e. the owners the PR had to satisfy rather than those on its branch.
+ * Looks in the same locations as GitHub, in the same order. The codeowners
+ * are null when the repository had no CODEOWNERS at the merge base.
+ *
+ * Errors are thrown so the caller can leave the CODEOWNERS unknown and retry later.
+ */
+export async function getCodeownersAtMergeBase(
+  owner: string,
+  repo: string,
+  baseSha: string,
+  headSha: string,
+): Promise<{ mergeBaseSha: string; codeowners: CodeownersFile | null }> {
+  const client = getGitHubClient()
+
+  let mergeBaseSha = baseSha
+  try {
+    const { data } = await client.repos.compareCommits({ owner, repo, base: baseSha, head: headSha, per_page: 1 })
+    mergeBaseSha = data.merge_base_commit.sha
+  } catch (error) {
+    // The head commit can be gone after a squash merge; the PR's base SHA is the merge base it was opened against
+    if (!isNotFound(error)) throw error
+  }
+
+  for (const path of CODEOWNERS_PATHS) {
+    try {
+      const { data } = await client.repos.getContent({ owner, repo, path, ref: mergeBaseSha })
+      if (!Array.isArray(data) && data.type === 'file') {
+        return { mergeBaseSha, codeowners: { path, content: Buffer.from(data.content, 'base64').toString('utf-8') } }
+      }
+    } catch (error) {
+      if (!isNotFound(error)) throw error
+    }
+  }
+
+  return { mergeBaseSha, codeowners: null }
+}
@@ -1,4 +1,5 @@
 import { logger } from '~/lib/logger.server'
+import type { RepositoryState } from '~/lib/repository-alerts'
 import { getGitHubClient } from './client.server'
 
 /**
@@ -124,3 +125,42 @@ export async function getRepositoryDefaultBranch(owner: string, repo: string): P
     return null
   }
 }
+
+/**
+ * Fetch the repository state that repository alerts are raised for: the
+ * current name (GitHub follows renames), whether it is archived, and whether
+ * the default branch is protected by branch protection or rulesets.
+ * Returns null on API error; a failed branch lookup gives defaultBranchProtected null.
+ */
+export async function getRepositoryState(owner: string, repo: string): Promise<RepositoryState | null> {
+  const client = getGitHubClient()
+  let data: Awaited<ReturnType<typeof client.repos.get>>['data']
+  try {
+    data = (await client.repos.get({ owner, repo })).data
+  } catch (error) {
+    logger.warn(`⚠️ Failed to fetch repository state for ${owner}/${repo}:`, error as Record<string, unknown>)
+    return null
+  }
+
+  let defaultBranchProtected: boolean | null = null
+  try {
+    const branch = await client.repos.getBranch({
+      owner: data.owner.login,
+      repo: data.name,
+      branch: data.default_branch,
+    })
+    defaultBranchProtected = branch.data.protected
+  } catch (error) {
+    logger.warn(
+      `⚠️ Failed to fetch branch ${data.default_branch} for ${owner}/${repo}:`,
+      error as Record<string, unknown>,
+    )
+  }
+
+  return {
+    fullName: data.full_name,
+    archived: data.archived,
+    defaultBranch: data.default_branch,
+    defaultBranchProtected,
+  }
+}
@@ -1,7 +1,12 @@
+export { getWorkflowRun } from './actions.server'
+export { getAttestationBundles } from './attestations.server'
+export { getBranchProtectionSettings } from './branch-protection.server'
 export { getGitHubClient } from './client.server'
-export { getCommitsBetween, isCommitOnBranch } from './git.server'
+export { getCodeownersAtMergeBase, getPullRequestFiles } from './codeowners.server'
+export { getCommitsBetween, getRepositoryState, isCommitOnBranch } from './git.server'
 export { lookupLegacyByCommit, lookupLegacyByPR } from './legacy.server'
 export {
   getDetailedPullRequestInfo,
   getPullRequestForCommit,
 } from './pr.server'
+export { getTeamMembers } from './teams.server'
@@ -720,6 +720,10 @@ export async function getDetailedPullRequestInfo(
       { username: string; avatar_url: string; state: string; submitted_at: string }
     >()
 
+    // Keep the full history as well, so verification can see dismissals and
+    // change requests that came after an approval
+    const reviewHistory: Array<{ id: number; username: string; state: string; submitted_at: string }> = []
+
     // Collect review comments (the body text from reviews)
     const reviewBodyComments: Array<{
       id: number
@@ -731,6 +735,12 @@ export async function getDetailedPullRequestInfo(
 
     for (const review of allReviews) {
       if (review.user && review.submitted_at) {
+        reviewHistory.push({
+          id: review.id,
+          username: review.user.login,
+          state: review.state,
+          submitted_at: review.submitted_at,
+        })
         const existing = reviewsByUser.get(review.user.login)
 
         // Determine if we should update the stored review
@@ -1017,6 +1027,7 @@ export async function getDetailedPullRequestInfo(
           }
         : null,
       reviewers: Array.from(reviewsByUser.values()),
+      review_history: reviewHistory,
       checks_passed,
       checks,
       commits,
@@ -0,0 +1,33 @@
+import { logger } from '~/lib/logger.server'
+import { getGitHubClient } from './client.server'
+
+const TEAM_MEMBERS_CACHE_TTL_MS = 60 * 60 * 1000 // 1 hour
+
+const teamMembersCache = new Map<string, { members: string[]; fetchedAt: number }>()
+
+/**
+ * Fetch the usernames of all members of a GitHub team (including child teams).
+ * Results are cached in memory for an hour, since approval policies are
+ * evaluated for every deployment and team membership rarely changes.
+ *
+ * Returns an empty list on API error (e.g., unknown team, missing
+ * `members:read` permission) so required-team checks fail closed.
+ */
+export async function getTeamMembers(org: string, teamSlug: string): Promise<string[]> {
+  const cacheKey = `${org}/${teamSlug}`.toLowerCase()
+  const cached = teamMembersCache.get(cacheKey)
+  if (cached && Date.now() - cached.fetchedAt < TEAM_MEMBERS_CACHE_TTL_MS) {
+    return cached.members
+  }
+
+  try {
+    const client = getGitHubClient()
+    const members = await client.paginate(client.teams.listMembersInOrg, { org, team_slug: teamSlug, per_page: 100 })
+    const usernames = members.map((m) => m.login)
+    teamMembersCache.set(cacheKey, { members: usernames, fetchedAt: Date.now() })
+    return usernames
+  } catch (error) {
+    logger.warn(`⚠️ Failed to fetch members of team ${org}/${teamSlug}:`, error as Record<string, unknown>)
+    return []
+  }
+}
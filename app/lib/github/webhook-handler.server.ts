@@ -0,0 +1,126 @@
+/**
+ * GitHub Webhook Handler
+ *
+ * Stores incoming pull_request, pull_request_review and push payloads as
+ * PR/commit snapshots, and enqueues re-verification of deployments that
+ * depend on the changed PR. This lets late approvals show up within seconds
+ * instead of waiting for the next periodic sync.
+ */
+
+import { getDeploymentIdsAffectedByPr } from '~/db/deployments.server'
+import { getAllLatestPrSnapshots, saveCommitSnapshot, savePrSnapshotsBatch } from '~/db/github-data.server'
+import { logger } from '~/lib/logger.server'
+import { refreshPrData } from '~/lib/verification/fetch-data.server'
+import { enqueueReverification } from '~/lib/verification/reverify-queue.server'
+import type { PrMetadata, PrReview } from '~/lib/verification/types'
+import { getCommitsBetween } from './git.server'
+import {
+  getPushCompareRange,
+  type HandledWebhookEvent,
+  mapPullRequestToMetadata,
+  mapPushCommits,
+  mergeWebhookReview,
+  type PullRequestEventPayload,
+  type PullRequestReviewEventPayload,
+  type PushEventPayload,
+  pullRequestActionChangesCommits,
+} from './webhook'
+
+interface WebhookHandleResult {
+  deploymentsQueued: number
+}
+
+/**
+ * Handle a verified webhook delivery.
+ */
+export async function handleGitHubWebhook(event: HandledWebhookEvent, payload: unknown): Promise<WebhookHandleResult> {
+  switch (event) {
+    case 'pull_request':
+      return handlePullRequestEvent(payload as PullRequestEventPayload)
+    case 'pull_request_review':
+      return handlePullRequestReviewEvent(payload as PullRequestReviewEventPayload)
+    case 'push':
+      return handlePushEvent(payload as PushEventPayload)
+  }
+}
+
+async function handlePullRequestEvent(payload: PullRequestEventPayload): Promise<WebhookHandleResult> {
+  const owner = payload.repository.owner.login
+  const repo = payload.repository.name
+  const prNumber = payload.pull_request.number
+
+  if (pullRequestActionChangesCommits(payload.action)) {
+    // Commit list is not part of the payload — refresh the full PR from GitHub
+    await refreshPrData(owner, repo, prNumber)
+  } else {
+    const cached = await getAllLatestPrSnapshots(owner, repo, prNumber)
+    const previous = (cached.get('metadata')?.data as PrMetadata | undefined) ?? null
+    const metadata = mapPullRequestToMetadata(payload.pull_request, previous)
+    await savePrSnapshotsBatch(owner, repo, prNumber, [{ dataType: 'metadata', data: metadata }])
+  }
+
+  logger.info(`🪝 Webhook pull_request.${payload.action} for ${owner}/${repo}#${prNumber}`)
+  return { deploymentsQueued: await enqueueAffectedDeployments(owner, repo, prNumber) }
+}
+
+async function handlePullRequestReviewEvent(payload: PullRequestReviewEventPayload): Promise<WebhookHandleResult> {
+  const owner = payload.repository.owner.login
+  const repo = payload.repository.name
+  const prNumber = payload.pull_request.number
+
+  const cached = await getAllLatestPrSnapshots(owner, repo, prNumber)
+  const existingReviews = cached.get('reviews')?.data as PrReview[] | undefined
+
+  if (!existingReviews) {
+    // No current review history stored — fetch the complete history instead of
+    // saving a snapshot that only holds this review
+    await refreshPrData(owner, repo, prNumber)
+    logger.info(`🪝 Webhook pull_request_review.${payload.action} for ${owner}/${repo}#${prNumber} (full refresh)`)
+    return { deploymentsQueued: await enqueueAffectedDeployments(owner, repo, prNumber) }
+  }
+
+  const reviews = mergeWebhookReview(existingReviews, payload.review)
+
+  const previous = (cached.get('metadata')?.data as PrMetadata | undefined) ?? null
+  const metadata = mapPullRequestToMetadata(payload.pull_request, previous)
+
+  await savePrSnapshotsBatch(owner, repo, prNumber, [
+    { dataType: 'metadata', data: metadata },
+    { dataType: 'reviews', data: reviews },
+  ])
+
+  logger.info(
+    `🪝 Webhook pull_request_review.${payload.action} for ${owner}/${repo}#${prNumber} by ${payload.review.user?.login ?? 'unknown'}`,
+  )
+  return { deploymentsQueued: await enqueueAffectedDeployments(owner, repo, prNumber) }
+}
+
+async function handlePushEvent(payload: PushEventPayload): Promise<WebhookHandleResult> {
+  const owner = payload.repository.owner.login
+  const repo = payload.repository.name
+  const range = getPushCompareRange(payload)
+
+  // The payload lacks parent SHAs; one compare of the push range supplies them
+  const compared = range ? await getCommitsBetween(owner, repo, range.base, range.head) : null
+  const parentShas = new Map((compared ?? []).map((commit) => [commit.sha, commit.parent_shas]))
+  const commits = mapPushCommits(payload, parentShas)
+
+  for (const commit of commits) {
+    await saveCommitSnapshot(owner, repo, commit.sha, 'metadata', commit)
+  }
+
+  logger.info(
+    `🪝 Webhook push to ${owner}/${repo} ${payload.ref}: ${commits.length} of ${payload.commits.length} commit(s) stored`,
+  )
+  // New deployments for pushed commits arrive via the Nais sync, which verifies them.
+  return { deploymentsQueued: 0 }
+}
+
+async function enqueueAffectedDeployments(owner: string, repo: string, prNumber: number): Promise<number> {
+  const deploymentIds = await getDeploymentIdsAffectedByPr(owner, repo, prNumber)
+  if (deploymentIds.length > 0) {
+    logger.info(`   🔁 Queuing re-verification of ${deploymentIds.length} deployment(s) for PR #${prNumber}`)
+    enqueueReverification(deploymentIds)
+  }
+  return deploymentIds.length
+}
@@ -0,0 +1,255 @@
+/**
+ * GitHub Webhook Payloads
+ *
+ * Pure helpers for the `api/github/webhook` receiver:
+ * - HMAC signature validation (`X-Hub-Signature-256`)
+ * - Mapping of pull_request, pull_request_review and push payloads
+ *   to the snapshot types used by the verification system
+ *
+ * No database or API calls here — see `webhook-handler.server.ts` for storage.
+ */
+
+import { createHmac, timingSafeEqual } from 'node:crypto'
+import type { CompareData, PrMetadata, PrReview } from '~/lib/verification/types'
+
+// =============================================================================
+// Payload Types (subset of GitHub's webhook payloads that we use)
+// =============================================================================
+
+interface WebhookUser {
+  login: string
+  avatar_url?: string
+}
+
+interface WebhookRepository {
+  name: string
+  owner: { login: string }
+}
+
+interface WebhookPullRequest {
+  number: number
+  title: string
+  body: string | null
+  state: 'open' | 'closed'
+  merged?: boolean
+  draft?: boolean
+  created_at: string
+  updated_at: string
+  merged_at: string | null
+  closed_at: string | null
+  base: { ref: string; sha: string }
+  head: { ref: string; sha: string }
+  merge_commit_sha: string | null
+  user: WebhookUser | null
+  merged_by?: WebhookUser | null
+  labels?: Array<{ name: string }>
+  commits?: number
+  changed_files?: number
+  additions?: number
+  deletions?: number
+  comments?: number
+  review_comments?: number
+  locked?: boolean
+  mergeable?: boolean | null
+  mergeable_state?: string | null
+  rebaseable?: boolean | null
+  maintainer_can_modify?: boolean
+  auto_merge?: { enabled_by: WebhookUser | null; merge_method: string } | null
+  assignees?: WebhookUser[]
+  requested_reviewers?: WebhookUser[]
+  requested_teams?: Array<{ name: string; slug: string }>
+  milestone?: { title: string; number: number; state: string } | null
+}
+
+export interface PullRequestEventPayload {
+  action: string
+  number: number
+  pull_request: WebhookPullRequest
+  repository: WebhookRepository
+}
+
+export interface PullRequestReviewEventPayload {
+  action: 'submitted' | 'edited' | 'dismissed'
+  review: {
+    id: number
+    user: WebhookUser | null
+    state: string
+    submitted_at: string | null
+    body: string | null
+  }
+  pull_request: WebhookPullRequest
+  repository: WebhookRepository
+}
+
+export interface PushEventPayload {
+  ref: string
+  before: string
+  after: string
+  deleted?: boolean
+  commits: Array<{
+    id: string
+    message: string
+    timestamp: string
+    url: string
+    author: { name: string; email: string; username?: string }
+    committer: { name: string; email: string; username?: string }
+  }>
+  repository: WebhookRepository
+}
+
+/** GitHub events the receiver acts on. Other events are acknowledged and ignored. */
+export const HANDLED_WEBHOOK_EVENTS = ['pull_request', 'pull_request_review', 'push'] as const
+export type HandledWebhookEvent = (typeof HANDLED_WEBHOOK_EVENTS)[number]
+
+export function isHandledWebhookEvent(event: string | null): event is HandledWebhookEvent {
+  return HANDLED_WEBHOOK_EVENTS.includes(event as HandledWebhookEvent)
+}
+
+// =============================================================================
+// Signature Validation
+// =============================================================================
+
+/**
+ * Validate the `X-Hub-Signature-256` header against the raw request body.
+ * Uses a constant-time comparison to avoid timing attacks.
+ */
+export function verifyWebhookSignature(secret: string, rawBody: string, signatureHeader: string | null): boolean {
+  if (!signatureHeader?.startsWith('sha256=')) return false
+
+  const expected = Buffer.from(`sha256=${createHmac('sha256', secret).update(rawBody).digest('hex')}`)
+  const received = Buffer.from(signatureHeader)
+
+  if (expected.length !== received.length) return false
+  return timingSafeEqual(expected, received)
+}
+
+// =============================================================================
+// Payload Mapping
+// =============================================================================
+
+const mapUser = (user: WebhookUser | null | undefined) =>
+  user ? { username: user.login, avatarUrl: user.avatar_url } : null
+
+/**
+ * Map a webhook pull_request object to the PrMetadata snapshot shape.
+ * Fields the webhook does not carry (e.g. checksPassed) are taken from
+ * the previous snapshot when available.
+ */
+export function mapPullRequestToMetadata(pr: WebhookPullRequest, previous?: PrMetadata | null): PrMetadata {
+  const merged = pr.merged ?? !!pr.merged_at
+  return {
+    number: pr.number,
+    title: pr.title,
+    body: pr.body ?? null,
+    state: pr.state,
+    merged,
+    draft: pr.draft ?? false,
+    createdAt: pr.created_at,
+    updatedAt: pr.updated_at,
+    mergedAt: pr.merged_at ?? null,
+    closedAt: pr.closed_at ?? null,
+    baseBranch: pr.base.ref,
+    baseSha: pr.base.sha,
+    headBranch: pr.head.ref,
+    headSha: pr.head.sha,
+    mergeCommitSha: pr.merge_commit_sha ?? null,
+    author: mapUser(pr.user) ?? { username: 'unknown' },
+    mergedBy: mapUser(pr.merged_by),
+    labels: (pr.labels ?? []).map((l) => l.name),
+    commitsCount: pr.commits ?? previous?.commitsCount ?? 0,
+    changedFiles: pr.changed_files ?? previous?.changedFiles ?? 0,
+    additions: pr.additions ?? previous?.additions ?? 0,
+    deletions: pr.deletions ?? previous?.deletions ?? 0,
+    commentsCount: pr.comments ?? previous?.commentsCount,
+    reviewCommentsCount: pr.review_comments ?? previous?.reviewCommentsCount,
+    locked: pr.locked ?? previous?.locked,
+    mergeable: pr.mergeable ?? previous?.mergeable ?? null,
+    mergeableState: pr.mergeable_state ?? previous?.mergeableState ?? null,
+    rebaseable: pr.rebaseable ?? previous?.rebaseable ?? null,
+    maintainerCanModify: pr.maintainer_can_modify ?? previous?.maintainerCanModify,
+    autoMerge: pr.auto_merge
+      ? { enabledBy: pr.auto_merge.enabled_by?.login ?? 'unknown', mergeMethod: pr.auto_merge.merge_method }
+      : null,
+    merger: mapUser(pr.merged_by),
+    assignees: (pr.assignees ?? []).map((a) => ({ username: a.login, avatarUrl: a.avatar_url })),
+    requestedReviewers: (pr.requested_reviewers ?? []).map((r) => ({ username: r.login, avatarUrl: r.avatar_url })),
+    requestedTeams: (pr.requested_teams ?? []).map((t) => ({ name: t.name, slug: t.slug })),
+    milestone: pr.milestone
+      ? { title: pr.milestone.title, number: pr.milestone.number, state: pr.milestone.state }
+      : null,
+    checksPassed: previous?.checksPassed ?? null,
+  }
+}
+
+/**
+ * Merge a single webhook review into an existing reviews snapshot.
+ *
+ * The snapshot holds the full review history. A review with a known id
+ * (edited or dismissed) replaces the stored entry, so a dismissed approval
+ * shows up as DISMISSED; new reviews are appended in submission order.
+ */
+export function mergeWebhookReview(existing: PrReview[], review: PullRequestReviewEventPayload['review']): PrReview[] {
+  if (!review.user || !review.submitted_at) return existing
+
+  const incoming: PrReview = {
+    id: review.id,
+    username: review.user.login,
+    state: review.state.toUpperCase() as PrReview['state'],
+    submittedAt: review.submitted_at,
+    body: review.body,
+  }
+
+  const index = existing.findIndex((r) => r.id === incoming.id)
+  const merged = index === -1 ? [...existing, incoming] : existing.map((r, i) => (i === index ? incoming : r))
+  return merged.sort((a, b) => new Date(a.submittedAt).getTime() - new Date(b.submittedAt).getTime())
+}
+
+/** `before` of a push that created the branch */
+const NULL_SHA = /^0+$/
+
+/**
+ * The range to compare for a push's parent SHAs, or null when there is none
+ * (the branch was created or deleted).
+ */
+export function getPushCompareRange(payload: PushEventPayload): { base: string; head: string } | null {
+  if (payload.deleted || NULL_SHA.test(payload.before) || NULL_SHA.test(payload.after)) return null
+  return { base: payload.before, head: payload.after }
+}
+
+/**
+ * Map push payload commits to the commit metadata shape stored in
+ * `github_commit_snapshots` (same shape as `CompareData.commits`).
+ *
+ * Push payloads include neither parent SHAs nor the author's login for every
+ * commit. Parents come from a compare of the push range, and commits without
+ * known parents are left out. The author is left empty when the payload has
+ * no GitHub login, rather than using the git display name.
+ *
+ * @param parentShas - parent SHAs keyed by commit SHA
+ */
+export function mapPushCommits(payload: PushEventPayload, parentShas: Map<string, string[]>): CompareData['commits'] {
+  return payload.commits.flatMap((commit) => {
+    const parents = parentShas.get(commit.id)
+    if (!parents) return []
+    return [
+      {
+        sha: commit.id,
+        message: commit.message,
+        authorUsername: commit.author.username ?? '',
+        authorDate: commit.timestamp,
+        committerDate: commit.timestamp,
+        parentShas: parents,
+        isMergeCommit: parents.length > 1,
+        htmlUrl: commit.url,
+      },
+    ]
+  })
+}
+
+/**
+ * pull_request actions that change the PR's commits. The webhook does not
+ * include the commit list, so these require a refresh from the GitHub API.
+ */
+export function pullRequestActionChangesCommits(action: string): boolean {
+  return action === 'synchronize' || action === 'opened' || action === 'reopened'
+}
@@ -0,0 +1,184 @@
+/**
+ * Container Image Attestation
+ *
+ * Pure helpers for checking that the image an application runs was built from
+ * the deployed commit. Build provenance attestations (actions/attest-build-provenance)
+ * are stored on GitHub per image digest, and the SLSA provenance statement in
+ * each attestation names the source repository and commit. Anyone with write
+ * access can store an attestation, so a statement is only trusted once its
+ * Sigstore bundle is verified (see sigstore.server.ts).
+ */
+
+import type { RepositoryAlertType } from '~/lib/repository-alerts'
+
+export const IMAGE_ATTESTATION_STATUSES = [
+  'verified',
+  'missing_attestation',
+  'commit_mismatch',
+  'repository_mismatch',
+  'digest_unavailable',
+] as const
+export type ImageAttestationStatus = (typeof IMAGE_ATTESTATION_STATUSES)[number]
+
+export const IMAGE_ATTESTATION_STATUS_LABELS: Record<ImageAttestationStatus, string> = {
+  verified: 'Verifisert',
+  missing_attestation: 'Mangler attestering',
+  commit_mismatch: 'Bygget fra annen commit',
+  repository_mismatch: 'Bygget fra annet repo',
+  digest_unavailable: 'Ukjent image-digest',
+}
+
+/**
+ * Whether the image check is done for the deployment. digest_unavailable is
+ * stored so the deployment can show the warning, but the lookup is retried on
+ * the next sync, since the registry may only have been unreachable.
+ */
+export function isFinalImageAttestationStatus(status: ImageAttestationStatus | null): boolean {
+  return status !== null && status !== 'digest_unavailable'
+}
+
+/**
+ * Repository alert type for statuses that mean the running image cannot be
+ * tied to the deployed commit. digest_unavailable is not an alert, since it
+ * only means the registry could not be asked.
+ */
+export function getImageAttestationAlertType(status: ImageAttestationStatus): RepositoryAlertType | null {
+  switch (status) {
+    case 'missing_attestation':
+      return 'image_missing_attestation'
+    case 'commit_mismatch':
+      return 'image_commit_mismatch'
+    case 'repository_mismatch':
+      return 'image_repository_mismatch'
+    default:
+      return null
+  }
+}
+
+export interface ImageReference {
+  registry: string
+  repository: string
+  tag: string | null
+  digest: string | null
+}
+
+const DIGEST_PATTERN = /^sha256:[a-f0-9]{64}$/
+
+/**
+ * Combine the image name and tag reported by Nais. Some tags are digests.
+ */
+export function buildImageReference(name: string, tag: string | null): string {
+  if (!tag) return name
+  return DIGEST_PATTERN.test(tag) ? `${name}@${tag}` : `${name}:${tag}`
+}
+
+/**
+ * Split an image reference (registry/repository[:tag][@sha256:digest]).
+ * Returns null for references without a registry host, since Nais always
+ * reports fully qualified images.
+ */
+export function parseImageReference(imageRef: string): ImageReference | null {
+  const [nameAndTag, digest = null, ...rest] = imageRef.trim().split('@')
+  if (rest.length > 0 || (digest !== null && !DIGEST_PATTERN.test(digest))) return null
+
+  const slash = nameAndTag.indexOf('/')
+  if (slash === -1) return null
+  const registry = nameAndTag.substring(0, slash)
+  if (!registry.includes('.') && !registry.includes(':') && registry !== 'localhost') return null
+
+  let repository = nameAndTag.substring(slash + 1)
+  let tag: string | null = null
+  const colon = repository.lastIndexOf(':')
+  if (colon !== -1) {
+    tag = repository.substring(colon + 1)
+    repository = repository.substring(0, colon)
+  }
+  if (!repository || tag === '') return null
+
+  return { registry, repository, tag, digest }
+}
+
+export interface ProvenanceSource {
+  /** owner/repo */
+  repository: string
+  commitSha: string
+}
+
+/**
+ * Read the source repository and commit from an attestation bundle's SLSA
+ * provenance statement about the image digest. Returns null for other
+ * attestation types, statements about other artifacts and statements without
+ * a GitHub source commit.
+ */
+export function parseProvenanceSource(bundle: unknown, imageDigest: string): ProvenanceSource | null {
+  const payload = (bundle as { dsseEnvelope?: { payload?: unknown } } | null)?.dsseEnvelope?.payload
+  if (typeof payload !== 'string') return null
+
+  let statement: {
+    subject?: Array<{ digest?: { sha256?: string } }>
+    predicateType?: string
+    predicate?: {
+      buildDefinition?: {
+        resolvedDependencies?: Array<{ uri?: string; digest?: { gitCommit?: string } }>
+      }
+    }
+  }
+  try {
+    statement = JSON.parse(decodeBase64(payload))
+  } catch {
+    return null
+  }
+
+  if (!statement.predicateType?.startsWith('https://slsa.dev/provenance/')) return null
+
+  const digest = imageDigest.replace(/^sha256:/, '')
+  if (!statement.subject?.some((subject) => subject.digest?.sha256 === digest)) return null
+
+  for (const dependency of statement.predicate?.buildDefinition?.resolvedDependencies ?? []) {
+    const match = dependency.uri?.match(/^git\+https:\/\/github\.com\/([^/]+\/[^/@]+?)(?:\.git)?(?:@|$)/)
+    const commitSha = dependency.digest?.gitCommit
+    if (match && commitSha) {
+      return { repository: match[1], commitSha }
+    }
+  }
+  return null
+}
+
+/**
+ * Whether a signing certificate's identity (the workflow URI, e.g.
+ * https://github.com/navikt/app/.github/workflows/deploy.yml@refs/heads/main)
+ * belongs to a workflow in the repository.
+ */
+export function isWorkflowIdentityInRepository(identity: string | undefined, repository: string): boolean {
+  return !!identity?.toLowerCase().startsWith(`https://github.com/${repository.toLowerCase()}/`)
+}
+
+/**
+ * Decide whether any attestation ties the image to the expected repository and
+ * commit. When none does, the closest attestation (same repository, other
+ * commit) is reported.
+ */
+export function evaluateImageAttestation(
+  sources: ProvenanceSource[],
+  expected: ProvenanceSource,
+): { status: ImageAttestationStatus; attested: ProvenanceSource | null } {
+  if (sources.length === 0) {
+    return { status: 'missing_attestation', attested: null }
+  }
+
+  const sameRepository = sources.filter(
+    (source) => source.repository.toLowerCase() === expected.repository.toLowerCase(),
+  )
+  const exact = sameRepository.find((source) => source.commitSha === expected.commitSha)
+  if (exact) {
+    return { status: 'verified', attested: exact }
+  }
+  if (sameRepository.length > 0) {
+    return { status: 'commit_mismatch', attested: sameRepository[0] }
+  }
+  return { status: 'repository_mismatch', attested: sources[0] }
+}
+
+function decodeBase64(value: string): string {
+  return new TextDecoder().decode(Uint8Array.from(atob(value), (char) => char.charCodeAt(0)))
+}
@@ -0,0 +1,146 @@
+/**
+ * Manual approval of deployments, shared by the web page and Slack.
+ *
+ * Both paths check that the approver is admin in the section owning the app
+ * and separation of duties (see separation-of-duties.ts) before approving, and
+ * refused attempts are recorded in the audit trail.
+ */
+
+import { propagateVerificationToSiblings } from '~/db/application-groups.server'
+import { type AuditActor, recordAuditEvent } from '~/db/audit-events.server'
+import { createComment } from '~/db/comments.server'
+import { type DeploymentWithApp, updateDeploymentFourEyes } from '~/db/deployments.server'
+import { getGitHubUsernamesByEmails, getUserMappings, type UserMapping } from '~/db/user-mappings.server'
+import { canMappedUserAdministerApp } from './access-policy.server'
+import {
+  checkSeparationOfDuties,
+  describeSeparationOfDutiesRefusal,
+  getChangeCommitMessages,
+  getInvolvedPeople,
+  type SeparationOfDutiesDeployment,
+  type SeparationOfDutiesResult,
+} from './separation-of-duties'
+import { collectCoAuthorEmails } from './verification/co-authors'
+
+/**
+ * Check whether a user may approve a deployment manually.
+ *
+ * @param approver - The approver's user mapping, looked up by NAV-ident (web) or Slack id (Slack)
+ */
+export async function checkManualApprover(
+  deployment: SeparationOfDutiesDeployment,
+  approver: UserMapping | null,
+): Promise<SeparationOfDutiesResult> {
+  const coAuthorEmails = collectCoAuthorEmails(getChangeCommitMessages(deployment))
+  const involved = getInvolvedPeople(deployment, await getGitHubUsernamesByEmails(coAuthorEmails))
+
+  const mappings = await getUserMappings([...new Set(involved.map((person) => person.username))])
+  const navIdentsByUsername = new Map<string, string>()
+  for (const [username, mapping] of mappings) {
+    if (mapping.nav_ident) navIdentsByUsername.set(username.toLowerCase(), mapping.nav_ident)
+  }
+
+  return checkSeparationOfDuties({
+    approver: approver ? { githubUsername: approver.github_username, navIdent: approver.nav_ident } : null,
+    involved,
+    navIdentsByUsername,
+  })
+}
+
+export type ManualApprovalResult = { success: true } | { success: false; error: string }
+
+/**
+ * Approve a deployment manually after checking the approver's permissions and
+ * separation of duties. Refused attempts are recorded in the audit trail.
+ */
+export async function approveDeploymentManually(params: {
+  deployment: DeploymentWithApp
+  actor: AuditActor
+  approver: UserMapping | null
+  source: 'web' | 'slack'
+  reason?: string
+  slackLink?: string
+}): Promise<ManualApprovalResult> {
+  const { deployment, actor, approver, source } = params
+
+  // The approver's identity is resolved from their mapping, so Slack and web share the policy
+  if (!(await canMappedUserAdministerApp(approver, deployment.monitored_app_id))) {
+    await recordAuditEvent({
+      actor,
+      action: 'deployment.manual_approval_refused',
+      entityType: 'deployment',
+      entityId: deployment.id,
+      monitoredAppId: deployment.monitored_app_id,
+      before: { four_eyes_status: deployment.four_eyes_status },
+      after: { refusal: 'not_app_admin', roles: null, source },
+    })
+    return { success: false, error: 'Krever admin-tilgang i seksjonen som eier applikasjonen' }
+  }
+
+  const check = await checkManualApprover(deployment, approver)
+  if (!check.allowed) {
+    await recordAuditEvent({
+      actor,
+      action: 'deployment.manual_approval_refused',
+      entityType: 'deployment',
+      entityId: deployment.id,
+      monitoredAppId: deployment.monitored_app_id,
+      before: { four_eyes_status: deployment.four_eyes_status },
+      after: { refusal: check.reason, roles: check.reason === 'involved' ? check.roles : null, source },
+    })
+    return { success: false, error: describeSeparationOfDutiesRefusal(check) }
+  }
+
+  const approvedBy = actor.navIdent
+
+  await createComment({
+    deployment_id: deployment.id,
+    comment_text: params.reason || 'Manuelt godkjent etter gjennomgang',
+    slack_link: params.slackLink || undefined,
+    comment_type: 'manual_approval',
+    approved_by: approvedBy,
+  })
+
+  // Mark as manually approved, preserving existing GitHub data
+  await updateDeploymentFourEyes(
+    deployment.id,
+    {
+      fourEyesStatus: 'manually_approved',
+      githubPrNumber: deployment.github_pr_number ?? null,
+      githubPrUrl: deployment.github_pr_url ?? null,
+      githubPrData: deployment.github_pr_data ?? undefined,
+      title: deployment.title ?? null,
+      unverifiedCommits: deployment.unverified_commits ?? undefined,
+    },
+    {
+      changeSource: 'manual_approval',
+      changedBy: approvedBy,
+      auditEvent: {
+        actor,
+        action: 'deployment.manual_approval',
+        entityType: 'deployment',
+        entityId: deployment.id,
+        monitoredAppId: deployment.monitored_app_id,
+        before: { four_eyes_status: deployment.four_eyes_status },
+        after: {
+          four_eyes_status: 'manually_approved',
+          reason: params.reason || null,
+          slack_link: params.slackLink || null,
+          source,
+        },
+      },
+    },
+  )
+
+  // Propagate to sibling deployments in the same application group
+  if (deployment.commit_sha) {
+    await propagateVerificationToSiblings(
+      deployment.id,
+      'manually_approved',
+      deployment.commit_sha,
+      deployment.monitored_app_id,
+    )
+  }
+
+  return { success: true }
+}
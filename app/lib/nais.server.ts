@@ -437,6 +437,53 @@ export async function getApplicationInfo(
   }
 }
 
+// Query for the container image an application currently runs
+const APP_IMAGE_QUERY = `
+  query AppImage($team: Slug!, $env: String!, $app: String!) {
+    team(slug: $team) {
+      environment(name: $env) {
+        application(name: $app) {
+          image { name tag }
+        }
+      }
+    }
+  }
+`
+
+interface AppImageResponse {
+  team: {
+    environment: {
+      application: {
+        image: { name: string; tag: string | null } | null
+      } | null
+    } | null
+  } | null
+}
+
+/**
+ * Get the container image an application currently runs.
+ * Returns null when the application or image is not found, or on API error.
+ */
+export async function fetchApplicationImage(
+  teamSlug: string,
+  environmentName: string,
+  appName: string,
+): Promise<{ name: string; tag: string | null } | null> {
+  const client = getNaisClient()
+
+  try {
+    const response: AppImageResponse = await client.request(APP_IMAGE_QUERY, {
+      team: teamSlug,
+      env: environmentName,
+      app: appName,
+    })
+    return response.team?.environment?.application?.image ?? null
+  } catch (error) {
+    logger.error('❌ Error fetching application image:', error)
+    return null
+  }
+}
+
 /**
  * Teams and Applications query for interactive search
  * Includes environment info via teamEnvironment
@@ -0,0 +1,209 @@
+/**
+ * Notification channels
+ *
+ * Sends notification events through the channel selected for each monitored
+ * application. Slack delegates to slack/client.server.ts, which records its
+ * messages in slack_notifications. Teams and webhook notifications are posted
+ * over HTTP and every attempt is recorded in notification_deliveries.
+ */
+
+import { createNotificationDelivery, getNotificationEndpoints } from '~/db/notification-channels.server'
+import { isValidWebhookUrl } from '~/lib/form-validators'
+import { logger } from '~/lib/logger.server'
+import {
+  sendDeploymentNotification,
+  sendDeviationNotification,
+  sendReminder,
+  sendReportBlockedNotification,
+  sendRepositoryAlertNotification,
+} from '~/lib/slack/client.server'
+import {
+  type AppNotificationChannel,
+  getEventDeploymentId,
+  type NotificationChannelType,
+  type NotificationEvent,
+} from './events'
+import { buildTeamsMessage } from './teams'
+import {
+  buildWebhookPayload,
+  signWebhookPayload,
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+} from './webhook'
+
+export type AppNotificationTarget = AppNotificationChannel & { id: number }
+
+interface SendOptions {
+  /** NAV-ident of the user who triggered sending, if any */
+  sentBy?: string
+}
+
+interface NotificationChannel {
+  /** Returns true if the notification was delivered */
+  send(event: NotificationEvent, app: AppNotificationTarget, options: SendOptions): Promise<boolean>
+}
+
+const DELIVERY_TIMEOUT_MS = 10_000
+
+const slackChannel: NotificationChannel = {
+  async send(event, app, { sentBy }) {
+    const channelId = app.slack_channel_id
+    if (!channelId) return false
+
+    switch (event.type) {
+      case 'deployment':
+        return !!(await sendDeploymentNotification(event.notification, channelId, sentBy))
+      case 'deviation':
+        return !!(await sendDeviationNotification(event.notification, channelId))
+      case 'reminder':
+        return !!(await sendReminder(event.notification, channelId))
+      case 'report_blocked':
+        return !!(await sendReportBlockedNotification(event.notification, channelId))
+      case 'repository_alert':
+        return !!(await sendRepositoryAlertNotification(event.notification, channelId))
+    }
+  },
+}
+
+const teamsChannel: NotificationChannel = {
+  async send(event, app, { sentBy }) {
+    const endpoints = await getNotificationEndpoints(app.id)
+    if (!endpoints?.teams_webhook_url) return false
+
+    const message = buildTeamsMessage(event)
+    return postAndRecord({
+      app,
+      event,
+      channel: 'teams',
+      url: endpoints.teams_webhook_url,
+      body: JSON.stringify(message),
+      payload: message,
+      headers: {},
+      sentBy,
+    })
+  },
+}
+
+const webhookChannel: NotificationChannel = {
+  async send(event, app, { sentBy }) {
+    const endpoints = await getNotificationEndpoints(app.id)
+    if (!endpoints?.webhook_url || !endpoints.webhook_secret) return false
+
+    const now = new Date()
+    const timestamp = Math.floor(now.getTime() / 1000)
+    const payload = buildWebhookPayload(event, now)
+    const body = JSON.stringify(payload)
+
+    return postAndRecord({
+      app,
+      event,
+      channel: 'webhook',
+      url: endpoints.webhook_url,
+      body,
+      payload,
+      headers: {
+        [WEBHOOK_EVENT_HEADER]: event.type,
+        [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+        [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(body, endpoints.webhook_secret, timestamp),
+      },
+      sentBy,
+    })
+  },
+}
+
+const CHANNELS: Record<NotificationChannelType, NotificationChannel> = {
+  slack: slackChannel,
+  teams: teamsChannel,
+  webhook: webhookChannel,
+}
+
+/**
+ * Host of a webhook URL. Only the host is stored, since Teams webhook URLs
+ * carry their credentials in the path.
+ */
+function getTargetHost(url: string): string {
+  try {
+    return new URL(url).host
+  } catch {
+    return 'ugyldig URL'
+  }
+}
+
+async function postAndRecord(params: {
+  app: AppNotificationTarget
+  event: NotificationEvent
+  channel: 'teams' | 'webhook'
+  url: string
+  body: string
+  payload: object
+  headers: Record<string, string>
+  sentBy?: string
+}): Promise<boolean> {
+  const { app, event, channel, url } = params
+
+  let responseStatus: number | null = null
+  let error: string | null = null
+  // Checked again here for URLs saved before the validation was tightened
+  if (!isValidWebhookUrl(url)) {
+    error = 'URL-en er ikke en https-adresse med offentlig vertsnavn'
+  } else {
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...params.headers },
+        body: params.body,
+        // A redirect could lead to an address the URL validation would reject
+        redirect: 'error',
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+      })
+      responseStatus = response.status
+      if (!response.ok) {
+        error = `HTTP ${response.status}: ${(await response.text()).slice(0, 500)}`
+      }
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err)
+    }
+  }
+
+  await createNotificationDelivery({
+    monitoredAppId: app.id,
+    deploymentId: getEventDeploymentId(event),
+    channel,
+    eventType: event.type,
+    targetHost: getTargetHost(url),
+    payload: params.payload,
+    status: error ? 'failed' : 'sent',
+    responseStatus,
+    error,
+    sentBy: params.sentBy,
+  })
+
+  if (error) {
+    logger.error(`Failed to deliver ${event.type} notification for app ${app.id} to ${channel}: ${error}`)
+    return false
+  }
+  return true
+}
+
+/**
+ * Send an event through the app's selected notification channel
+ *
+ * @returns true if the notification was delivered
+ */
+export async function sendAppNotification(
+  app: AppNotificationTarget,
+  event: NotificationEvent,
+  options: SendOptions = {},
+): Promise<boolean> {
+  return CHANNELS[app.notification_channel].send(event, app, options)
+}
+
+/**
+ * Send an event that Slack apps receive through a shared channel, such as the
+ * deviation channel, to the app's own channel when it uses Teams or a webhook.
+ */
+export async function forwardToAppChannel(app: AppNotificationTarget, event: NotificationEvent): Promise<boolean> {
+  if (app.notification_channel === 'slack') return false
+  return sendAppNotification(app, event)
+}
@@ -0,0 +1,119 @@
+/**
+ * Notification events and per-app channel settings
+ *
+ * Every notification is described once as an event and rendered by the channel
+ * the app has selected: Slack (Block Kit), Microsoft Teams (Adaptive Cards) or a
+ * generic signed JSON webhook. Channels are implemented in channels.server.ts.
+ */
+
+import { getRepositoryAlertTypeLabel } from '~/lib/repository-alerts'
+import type {
+  DeploymentNotification,
+  DeviationNotification,
+  ReminderNotification,
+  ReportBlockedNotification,
+  RepositoryAlertNotification,
+} from '~/lib/slack/blocks'
+
+export const NOTIFICATION_CHANNEL_TYPES = ['slack', 'teams', 'webhook'] as const
+export type NotificationChannelType = (typeof NOTIFICATION_CHANNEL_TYPES)[number]
+
+export const NOTIFICATION_CHANNEL_LABELS: Record<NotificationChannelType, string> = {
+  slack: 'Slack',
+  teams: 'Microsoft Teams',
+  webhook: 'Webhook (JSON)',
+}
+
+export function isNotificationChannelType(value: unknown): value is NotificationChannelType {
+  return typeof value === 'string' && (NOTIFICATION_CHANNEL_TYPES as readonly string[]).includes(value)
+}
+
+export type NotificationEvent =
+  | { type: 'deployment'; notification: DeploymentNotification }
+  | { type: 'deviation'; notification: DeviationNotification }
+  | { type: 'reminder'; notification: ReminderNotification }
+  | { type: 'report_blocked'; notification: ReportBlockedNotification }
+  | { type: 'repository_alert'; notification: RepositoryAlertNotification }
+
+export type NotificationEventType = NotificationEvent['type']
+
+export const NOTIFICATION_EVENT_LABELS: Record<NotificationEventType, string> = {
+  deployment: 'Deployment',
+  deviation: 'Avvik',
+  reminder: 'Purring',
+  report_blocked: 'Leveranserapport venter',
+  repository_alert: 'Repository-varsel',
+}
+
+/**
+ * Notification channel selected for a monitored application
+ */
+export interface AppNotificationChannel {
+  notification_channel: NotificationChannelType
+  slack_channel_id: string | null
+}
+
+/**
+ * Teams and webhook endpoints of an application. Stored apart from
+ * monitored_applications since the Teams URL and the webhook secret are credentials.
+ */
+export interface NotificationEndpoints {
+  teams_webhook_url: string | null
+  webhook_url: string | null
+  webhook_secret: string | null
+}
+
+/**
+ * Whether the app's selected channel has somewhere to deliver to.
+ * Webhooks also need a secret, since every request is signed.
+ */
+export function hasNotificationTarget(app: AppNotificationChannel, endpoints: NotificationEndpoints | null): boolean {
+  switch (app.notification_channel) {
+    case 'slack':
+      return !!app.slack_channel_id
+    case 'teams':
+      return !!endpoints?.teams_webhook_url
+    case 'webhook':
+      return !!endpoints?.webhook_url && !!endpoints.webhook_secret
+  }
+}
+
+/**
+ * The deployment an event is about, if it concerns a single deployment
+ */
+export function getEventDeploymentId(event: NotificationEvent): number | null {
+  switch (event.type) {
+    case 'deployment':
+    case 'deviation':
+    case 'repository_alert':
+      return event.notification.deploymentId
+    case 'reminder':
+    case 'report_blocked':
+      return null
+  }
+}
+
+/**
+ * One-line summary of an event, used as card title and webhook summary
+ */
+export function getNotificationSummary(event: NotificationEvent): string {
+  const { appName, environmentName } = event.notification
+  switch (event.type) {
+    case 'deployment':
+      return `Deployment: ${appName} (${environmentName})`
+    case 'deviation':
+      return event.notification.escalation
+        ? `Avvik har passert fristen: ${appName} (${environmentName})`
+        : `Avvik registrert: ${appName} (${environmentName})`
+    case 'reminder': {
+      const count = event.notification.deployments.length
+      return `${count} deployment${count === 1 ? '' : 's'} mangler godkjenning — ${appName} (${environmentName})`
+    }
+    case 'report_blocked': {
+      const { periodLabel, pendingCount } = event.notification
+      return `Leveranserapport for ${periodLabel} venter på ${pendingCount} godkjenning${pendingCount === 1 ? '' : 'er'} — ${appName} (${environmentName})`
+    }
+    case 'repository_alert':
+      return `Repository-varsel: ${getRepositoryAlertTypeLabel(event.notification.alertType)} — ${appName} (${environmentName})`
+  }
+}
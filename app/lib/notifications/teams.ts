@@ -0,0 +1,187 @@
+/**
+ * Microsoft Teams messages (Adaptive Cards)
+ *
+ * Pure builders for the payload posted to a Teams incoming webhook. Teams has
+ * no interactive approval like Slack, so cards only link back to NDA.
+ */
+
+import {
+  DEVIATION_FOLLOW_UP_ROLE_LABELS,
+  DEVIATION_INTENT_LABELS,
+  DEVIATION_SEVERITY_LABELS,
+  type DeviationFollowUpRole,
+  type DeviationIntent,
+  type DeviationSeverity,
+} from '~/lib/deviation-constants'
+import { getStatusEmoji, getStatusText, type ReminderDeployment } from '~/lib/slack/blocks'
+import { getNotificationSummary, type NotificationEvent } from './events'
+
+type AdaptiveCardElement = Record<string, unknown>
+
+interface AdaptiveCard {
+  $schema: string
+  type: 'AdaptiveCard'
+  version: string
+  body: AdaptiveCardElement[]
+  actions: AdaptiveCardElement[]
+}
+
+export interface TeamsMessage {
+  type: 'message'
+  attachments: Array<{
+    contentType: 'application/vnd.microsoft.card.adaptive'
+    contentUrl: null
+    content: AdaptiveCard
+  }>
+}
+
+/** Cap listed deployments so cards stay well under Teams' 28 KB limit */
+const TEAMS_DEPLOYMENT_LIST_LIMIT = 10
+
+function title(text: string): AdaptiveCardElement {
+  return { type: 'TextBlock', text, weight: 'Bolder', size: 'Medium', wrap: true }
+}
+
+function text(value: string, options: { subtle?: boolean } = {}): AdaptiveCardElement {
+  return { type: 'TextBlock', text: value, wrap: true, ...(options.subtle ? { isSubtle: true, size: 'Small' } : {}) }
+}
+
+function facts(entries: Array<[string, string | undefined]>): AdaptiveCardElement {
+  return {
+    type: 'FactSet',
+    facts: entries.filter(([, value]) => value).map(([factTitle, value]) => ({ title: factTitle, value })),
+  }
+}
+
+function openUrl(actionTitle: string, url: string): AdaptiveCardElement {
+  return { type: 'Action.OpenUrl', title: actionTitle, url }
+}
+
+function deploymentList(deployments: ReminderDeployment[], total: number): AdaptiveCardElement[] {
+  const elements = deployments.slice(0, TEAMS_DEPLOYMENT_LIST_LIMIT).map((dep) => {
+    const shortSha = dep.commitSha.substring(0, 7)
+    const heading = dep.commitMessage
+      ? `[#${dep.id}](${dep.detailsUrl}) ${dep.commitMessage}`
+      : `[#${dep.id}](${dep.detailsUrl})`
+    return text(`${heading}\n\n\`${shortSha}\` — ${dep.deployerName} — ${dep.createdAt}`)
+  })
+  const remaining = total - elements.length
+  if (remaining > 0) {
+    elements.push(text(`… og ${remaining} til`, { subtle: true }))
+  }
+  return elements
+}
+
+function buildCard(event: NotificationEvent): AdaptiveCard {
+  const card: AdaptiveCard = {
+    $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+    type: 'AdaptiveCard',
+    version: '1.4',
+    body: [],
+    actions: [],
+  }
+
+  switch (event.type) {
+    case 'deployment': {
+      const n = event.notification
+      card.body.push(
+        title(`${getStatusEmoji(n.status)} ${getNotificationSummary(event)}`),
+        facts([
+          ['Status', getStatusText(n.status)],
+          ['Team', n.teamSlug],
+          ['Commit', n.commitSha.substring(0, 7)],
+          ['Deployet av', n.deployerName],
+          ['Pull request', n.prNumber ? `#${n.prNumber}` : undefined],
+        ]),
+      )
+      if (n.commitMessage) card.body.push(text(n.commitMessage))
+      card.actions.push(openUrl('Se deployment', n.detailsUrl))
+      if (n.prUrl) card.actions.push(openUrl('Se pull request', n.prUrl))
+      break
+    }
+
+    case 'deviation': {
+      const n = event.notification
+      card.body.push(
+        title(`${n.escalation ? '🚨' : '⚠️'} ${getNotificationSummary(event)}`),
+        facts([
+          ['Team', n.teamSlug],
+          ['Commit', n.commitSha.substring(0, 7)],
+          ['Registrert av', n.registeredByName],
+          ['Type brudd', n.breachType],
+          [
+            'Alvorlighetsgrad',
+            n.severity && (DEVIATION_SEVERITY_LABELS[n.severity as DeviationSeverity] || n.severity),
+          ],
+          ['Intensjon', n.intent && (DEVIATION_INTENT_LABELS[n.intent as DeviationIntent] || n.intent)],
+          [
+            'Oppfølgingsansvarlig',
+            n.followUpRole &&
+              (DEVIATION_FOLLOW_UP_ROLE_LABELS[n.followUpRole as DeviationFollowUpRole] || n.followUpRole),
+          ],
+          ['Frist', n.escalation?.dueAt],
+          ['Status', n.escalation?.status],
+          ['Tildelt', n.escalation && (n.escalation.assignedToName || 'Ikke tildelt')],
+        ]),
+        text(n.reason),
+      )
+      card.actions.push(openUrl(n.escalation ? 'Se avvik' : 'Se deployment', n.detailsUrl))
+      break
+    }
+
+    case 'reminder': {
+      const n = event.notification
+      card.body.push(
+        title(`🔔 ${getNotificationSummary(event)}`),
+        ...deploymentList(n.deployments, n.deployments.length),
+        text(`Team: ${n.teamSlug} | Automatisk påminnelse`, { subtle: true }),
+      )
+      card.actions.push(openUrl('Se alle deployments', n.deploymentsListUrl))
+      break
+    }
+
+    case 'report_blocked': {
+      const n = event.notification
+      card.body.push(
+        title(`📄 ${getNotificationSummary(event)}`),
+        text('Rapporten genereres automatisk når alle deployments i perioden er godkjent.'),
+        ...deploymentList(n.deployments, n.pendingCount),
+      )
+      card.actions.push(openUrl('Gå til app-administrasjon', n.adminUrl))
+      break
+    }
+
+    case 'repository_alert': {
+      const n = event.notification
+      card.body.push(
+        title(`🚨 ${getNotificationSummary(event)}`),
+        facts([
+          ['App', n.appName],
+          ['Miljø', n.environmentName],
+          ['Alvorlighetsgrad', DEVIATION_SEVERITY_LABELS[n.severity as DeviationSeverity] || n.severity],
+        ]),
+        text(n.description),
+      )
+      card.actions.push(openUrl('Se varsel', n.detailsUrl))
+      break
+    }
+  }
+
+  return card
+}
+
+/**
+ * Build the message posted to a Teams incoming webhook for an event
+ */
+export function buildTeamsMessage(event: NotificationEvent): TeamsMessage {
+  return {
+    type: 'message',
+    attachments: [
+      {
+        contentType: 'application/vnd.microsoft.card.adaptive',
+        contentUrl: null,
+        content: buildCard(event),
+      },
+    ],
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * Generic JSON webhook notifications
+ *
+ * Each request body is signed with HMAC-SHA256 using the app's shared secret.
+ * Receivers verify by computing the HMAC of `${timestamp}.${body}` and comparing
+ * it with the signature header, and should reject old timestamps to stop replays.
+ */
+
+import { createHmac } from 'node:crypto'
+import { getEventDeploymentId, getNotificationSummary, type NotificationEvent } from './events'
+
+export const WEBHOOK_EVENT_HEADER = 'X-NDA-Event'
+export const WEBHOOK_TIMESTAMP_HEADER = 'X-NDA-Timestamp'
+export const WEBHOOK_SIGNATURE_HEADER = 'X-NDA-Signature'
+
+/** Shortest accepted shared secret */
+export const MIN_WEBHOOK_SECRET_LENGTH = 16
+
+export interface WebhookPayload {
+  event: NotificationEvent['type']
+  sentAt: string
+  summary: string
+  app: { team: string; environment: string; name: string }
+  deploymentId: number | null
+  data: NotificationEvent['notification']
+}
+
+export function buildWebhookPayload(event: NotificationEvent, sentAt: Date): WebhookPayload {
+  return {
+    event: event.type,
+    sentAt: sentAt.toISOString(),
+    summary: getNotificationSummary(event),
+    app: {
+      team: event.notification.teamSlug,
+      environment: event.notification.environmentName,
+      name: event.notification.appName,
+    },
+    deploymentId: getEventDeploymentId(event),
+    data: event.notification,
+  }
+}
+
+/**
+ * Sign a webhook body. Returns the value of the signature header.
+ *
+ * @param timestamp - Unix time in seconds, sent in the timestamp header
+ */
+export function signWebhookPayload(body: string, secret: string, timestamp: number): string {
+  const digest = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')
+  return `sha256=${digest}`
+}
@@ -9,8 +9,8 @@ import { claimReminderSend, getAppsWithRemindersEnabled, getUnapprovedDeployment
 import { getUserMapping } from '~/db/user-mappings.server'
 import { logger } from '~/lib/logger.server'
 import { getWeekdayKey, isBusinessDay } from './norwegian-holidays'
+import { type AppNotificationTarget, sendAppNotification } from './notifications/channels.server'
 import type { ReminderDeployment } from './slack'
-import { sendReminder } from './slack/client.server'
 
 const SCHEDULER_INTERVAL_MS = 60 * 1000 // 1 minute
 const MIN_INTERVAL_HOURS = 23 // Minimum hours between reminders per app
@@ -55,7 +55,7 @@ async function checkAndSendReminders(): Promise<void> {
       if (!app.reminder_days?.includes(currentDay)) continue
       if (!isTimeMatch(app.reminder_time, currentTime)) continue
 
-      await sendReminderForApp(app.id, app.team_slug, app.environment_name, app.app_name, app.slack_channel_id)
+      await sendReminderForApp(app)
     }
   } catch (error) {
     logger.error('Reminder scheduler error:', error)
@@ -63,16 +63,15 @@ async function checkAndSendReminders(): Promise<void> {
 }
 
 /**
- * Send a reminder for a specific app (called by scheduler or manual trigger).
+ * Send a reminder for a specific app through its notification channel
+ * (called by scheduler or manual trigger).
  * Returns true if a reminder was sent.
  */
 export async function sendReminderForApp(
-  appId: number,
-  teamSlug: string,
-  environmentName: string,
-  appName: string,
-  channelId: string,
+  app: AppNotificationTarget & { team_slug: string; environment_name: string; app_name: string },
 ): Promise<boolean> {
+  const { id: appId, team_slug: teamSlug, environment_name: environmentName, app_name: appName } = app
+
   // Atomically claim the send (prevents duplicates across pods)
   const claimed = await claimReminderSend(appId, MIN_INTERVAL_HOURS)
   if (!claimed) {
@@ -104,18 +103,18 @@ export async function sendReminderForApp(
 
   const deploymentsListUrl = `${baseUrl}/team/${teamSlug}/env/${environmentName}/app/${appName}/deployments?status=not_approved&period=all`
 
-  const messageTs = await sendReminder(
-    {
+  const sent = await sendAppNotification(app, {
+    type: 'reminder',
+    notification: {
       appName,
       environmentName,
       teamSlug,
       deployments: reminderDeployments,
       deploymentsListUrl,
     },
-    channelId,
-  )
+  })
 
-  if (messageTs) {
+  if (sent) {
     logger.info(`🔔 Reminder sent for ${appName} (${environmentName}): ${deployments.length} deployments`)
     return true
   }
@@ -117,6 +117,66 @@ export function getCompletedPeriods(
   return periods
 }
 
+/**
+ * Parse a period written as `2025`, `T1-2025`, `Q1-2025` or `2025-03`
+ * (also `2025-Q1`, `Q1 2025` etc.). Labels and dates match getCompletedPeriods.
+ * Returns null for unrecognized input.
+ */
+export function parseReportPeriod(value: string): ReportPeriod | null {
+  const text = value.trim().toUpperCase().replace(/\s+/g, '-')
+
+  if (/^\d{4}$/.test(text)) {
+    const year = Number(text)
+    return {
+      type: 'yearly',
+      label: String(year),
+      year,
+      startDate: new Date(year, 0, 1),
+      endDate: new Date(year, 11, 31, 23, 59, 59, 999),
+    }
+  }
+
+  const part = /^([QT])([1-4])-(\d{4})$/.exec(text.replace(/^(\d{4})-([QT]\d)$/, '$2-$1'))
+  if (part) {
+    const kind = part[1]
+    const i = Number(part[2]) - 1
+    const year = Number(part[3])
+    if (kind === 'T') {
+      if (i > 2) return null
+      return {
+        type: 'tertiary',
+        label: `${TERTIARY_LABELS[i]} ${year}`,
+        year,
+        startDate: new Date(year, i * 4, 1),
+        endDate: new Date(year, i * 4 + 4, 0, 23, 59, 59, 999),
+      }
+    }
+    return {
+      type: 'quarterly',
+      label: `${QUARTER_LABELS[i]} ${year}`,
+      year,
+      startDate: new Date(year, i * 3, 1),
+      endDate: new Date(year, i * 3 + 3, 0, 23, 59, 59, 999),
+    }
+  }
+
+  const month = /^(\d{4})-(\d{2})$/.exec(text)
+  if (month) {
+    const year = Number(month[1])
+    const m = Number(month[2]) - 1
+    if (m < 0 || m > 11) return null
+    return {
+      type: 'monthly',
+      label: `${MONTH_LABELS[m]} ${year}`,
+      year,
+      startDate: new Date(year, m, 1),
+      endDate: new Date(year, m + 1, 0, 23, 59, 59, 999),
+    }
+  }
+
+  return null
+}
+
 /**
  * Check if a period is completed (fully in the past).
  */
@@ -0,0 +1,184 @@
+/**
+ * Scheduler for automatic audit report generation.
+ *
+ * Checks every 15 minutes whether the latest period of each configured type
+ * (monthly, tertiary, quarterly, yearly) has ended for apps that opted in via
+ * the `scheduled_reports` app setting. Ready periods get a report generated;
+ * blocked periods get a message listing the pending deployments through the
+ * app's notification channel and are retried until they become ready. Runs are
+ * claimed in the database so only one pod acts on each app and period.
+ */
+
+import { type AppWithScheduledReports, getAppsWithScheduledReports } from '~/db/app-settings.server'
+import { checkAuditReadiness, hasAuditReportForPeriod } from '~/db/audit-reports.server'
+import { getNotificationEndpoints } from '~/db/notification-channels.server'
+import {
+  claimScheduledReportRun,
+  finishScheduledReportRun,
+  markScheduledReportBlockedNotified,
+  type ScheduledReportRun,
+} from '~/db/scheduled-report-runs.server'
+import { getUserMapping } from '~/db/user-mappings.server'
+import { logger } from '~/lib/logger.server'
+import { generateAndStoreAuditReport } from './audit-report-generation.server'
+import { sendAppNotification } from './notifications/channels.server'
+import { hasNotificationTarget } from './notifications/events'
+import { getCompletedPeriods, type ReportPeriod, type ReportPeriodType } from './report-periods'
+
+const SCHEDULER_INTERVAL_MS = 15 * 60 * 1000 // 15 minutes
+// Wait after a period ends so the last deployments are synced and verified
+const PERIOD_GRACE_HOURS = 24
+// How often a blocked, empty or failed period is re-checked
+const RETRY_INTERVAL_MINUTES = 60
+
+let schedulerInterval: ReturnType<typeof setInterval> | null = null
+let isRunning = false
+
+/**
+ * Start the report scheduler.
+ */
+export function startReportScheduler(): void {
+  if (schedulerInterval) return
+  logger.info('📄 Starting audit report scheduler (15 min interval)')
+  schedulerInterval = setInterval(checkScheduledReports, SCHEDULER_INTERVAL_MS)
+}
+
+/**
+ * Get the periods a scheduled report is due for: the most recently completed
+ * period of each type, once the grace period after its end has passed.
+ * Older periods are never backfilled automatically.
+ */
+export function getDueReportPeriods(
+  periodTypes: ReportPeriodType[],
+  now: Date = new Date(),
+  startYear?: number,
+): ReportPeriod[] {
+  const reference = new Date(now.getTime() - PERIOD_GRACE_HOURS * 60 * 60 * 1000)
+  return [...new Set(periodTypes)]
+    .map((type) => getCompletedPeriods(type, reference, startYear)[0])
+    .filter((period): period is ReportPeriod => period !== undefined)
+}
+
+/**
+ * Check all opted-in apps and generate or report on due periods.
+ */
+async function checkScheduledReports(): Promise<void> {
+  // A slow run (many PDFs) must not overlap with the next tick
+  if (isRunning) return
+  isRunning = true
+  try {
+    const apps = await getAppsWithScheduledReports()
+    for (const app of apps) {
+      const periods = getDueReportPeriods(app.settings.periodTypes, new Date(), app.audit_start_year ?? undefined)
+      for (const period of periods) {
+        await runScheduledReport(app, period)
+      }
+    }
+  } catch (error) {
+    logger.error('Report scheduler error:', error)
+  } finally {
+    isRunning = false
+  }
+}
+
+/**
+ * Generate the report for one app and period if it is ready.
+ */
+async function runScheduledReport(app: AppWithScheduledReports, period: ReportPeriod): Promise<void> {
+  // Reports generated manually by an admin are never replaced
+  if (await hasAuditReportForPeriod(app.id, period.type, period.startDate)) return
+
+  const run = await claimScheduledReportRun(app.id, period.type, period.startDate, RETRY_INTERVAL_MINUTES)
+  if (!run) return
+
+  try {
+    const readiness = await checkAuditReadiness(app.id, period.startDate, period.endDate)
+
+    if (readiness.total_deployments === 0) {
+      await finishScheduledReportRun(run.id, { status: 'no_deployments' })
+      return
+    }
+
+    if (!readiness.is_ready) {
+      await finishScheduledReportRun(run.id, { status: 'blocked', pendingCount: readiness.pending_count })
+      if (!run.blocked_notified_at) {
+        await notifyReportBlocked(app, period, run, readiness)
+      }
+      return
+    }
+
+    const { report } = await generateAndStoreAuditReport({
+      monitoredAppId: app.id,
+      year: period.year,
+      periodType: period.type,
+      periodLabel: period.label,
+      periodStart: period.startDate,
+      periodEnd: period.endDate,
+      generatedBy: 'system',
+    })
+    await finishScheduledReportRun(run.id, { status: 'generated', auditReportId: report.id })
+    logger.info(`📄 Scheduled audit report generated for ${app.app_name} (${app.environment_name}): ${period.label}`)
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    await finishScheduledReportRun(run.id, { status: 'failed', errorMessage })
+    logger.error(`Scheduled audit report failed for ${app.app_name} (${app.environment_name}) ${period.label}:`, error)
+  }
+}
+
+/**
+ * Post a Slack message listing the deployments that block the report (once per period).
+ */
+async function notifyReportBlocked(
+  app: AppWithScheduledReports,
+  period: ReportPeriod,
+  run: ScheduledReportRun,
+  readiness: Awaited<ReturnType<typeof checkAuditReadiness>>,
+): Promise<void> {
+  const target = { ...app, slack_channel_id: app.settings.slackChannelId || app.slack_channel_id }
+  if (!hasNotificationTarget(target, await getNotificationEndpoints(app.id))) {
+    logger.info(
+      `No notification channel for ${app.app_name} (${app.environment_name}), report for ${period.label} is blocked`,
+    )
+    return
+  }
+
+  const baseUrl = process.env.BASE_URL || 'https://nda.ansatt.nav.no'
+  const appUrl = `${baseUrl}/team/${app.team_slug}/env/${app.environment_name}/app/${app.app_name}`
+
+  const deployments = await Promise.all(
+    readiness.pending_deployments.map(async (d) => {
+      const mapping = d.deployer_username ? await getUserMapping(d.deployer_username) : null
+      return {
+        id: d.id,
+        commitSha: d.commit_sha || '',
+        deployerName: mapping?.display_name || d.deployer_username || 'Ukjent',
+        status: d.four_eyes_status,
+        createdAt: new Date(d.created_at).toLocaleString('no-NO', {
+          dateStyle: 'medium',
+          timeStyle: 'short',
+        }),
+        detailsUrl: `${appUrl}/deployments/${d.id}`,
+      }
+    }),
+  )
+
+  const sent = await sendAppNotification(target, {
+    type: 'report_blocked',
+    notification: {
+      appName: app.app_name,
+      environmentName: app.environment_name,
+      teamSlug: app.team_slug,
+      periodLabel: period.label,
+      pendingCount: readiness.pending_count,
+      deployments,
+      adminUrl: `${appUrl}/admin`,
+    },
+  })
+
+  if (sent) {
+    await markScheduledReportBlockedNotified(run.id)
+    logger.info(
+      `🔔 Report blocked message sent for ${app.app_name} (${app.environment_name}) ${period.label}: ${readiness.pending_count} pending`,
+    )
+  }
+}
@@ -0,0 +1,46 @@
+import { createRepositoryAlert, markRepositoryAlertNotified } from '~/db/alerts.server'
+import { getMonitoredApplicationById } from '~/db/monitored-applications.server'
+import { logger } from '~/lib/logger.server'
+import { sendAppNotification } from '~/lib/notifications/channels.server'
+import { describeRepositoryAlert } from '~/lib/repository-alerts'
+
+/**
+ * Create a repository alert and notify the app's channel about it.
+ *
+ * Notification is best-effort: a failed delivery is logged and leaves
+ * notified_at empty, but never fails the sync that raised the alert.
+ *
+ * Returns true if a new alert was created.
+ */
+export async function raiseRepositoryAlert(data: Parameters<typeof createRepositoryAlert>[0]): Promise<boolean> {
+  const alert = await createRepositoryAlert(data)
+  if (!alert) return false
+
+  try {
+    const app = await getMonitoredApplicationById(alert.monitored_app_id)
+    if (!app) return true
+
+    const baseUrl = process.env.BASE_URL || 'https://nda.ansatt.nav.no'
+    const sent = await sendAppNotification(app, {
+      type: 'repository_alert',
+      notification: {
+        alertId: alert.id,
+        deploymentId: alert.deployment_id,
+        appName: app.app_name,
+        environmentName: app.environment_name,
+        teamSlug: app.team_slug,
+        alertType: alert.alert_type,
+        severity: alert.severity,
+        description: describeRepositoryAlert(alert),
+        detailsUrl: `${baseUrl}/team/${app.team_slug}/env/${app.environment_name}/app/${app.app_name}#varsler`,
+      },
+    })
+    if (sent) {
+      await markRepositoryAlertNotified(alert.id)
+    }
+  } catch (error) {
+    logger.warn(`⚠️ Failed to notify about repository alert ${alert.id}:`, error as Record<string, unknown>)
+  }
+
+  return true
+}
@@ -0,0 +1,209 @@
+/**
+ * Repository Alerts
+ *
+ * Pure helpers for the repository alert lifecycle: alert types, default
+ * severity, descriptions and the rules for when an alert's underlying
+ * condition has disappeared so the periodic sync can resolve it.
+ */
+
+import type { DeviationSeverity } from '~/lib/deviation-constants'
+import type { ImageAttestationStatus } from '~/lib/image-attestation'
+import { isWorkflowAllowed } from '~/lib/verification/verify'
+
+export const REPOSITORY_ALERT_TYPES = [
+  'repository_mismatch',
+  'pending_approval',
+  'historical_repository',
+  'repository_renamed',
+  'repository_archived',
+  'branch_protection_disabled',
+  'branch_protection_weakened',
+  'workflow_changed',
+  'image_missing_attestation',
+  'image_commit_mismatch',
+  'image_repository_mismatch',
+] as const
+export type RepositoryAlertType = (typeof REPOSITORY_ALERT_TYPES)[number]
+
+export const REPOSITORY_ALERT_TYPE_LABELS: Record<RepositoryAlertType, string> = {
+  repository_mismatch: 'Ukjent repo',
+  pending_approval: 'Venter godkjenning',
+  historical_repository: 'Historisk repo',
+  repository_renamed: 'Repo omdøpt',
+  repository_archived: 'Repo arkivert',
+  branch_protection_disabled: 'Branch-beskyttelse deaktivert',
+  branch_protection_weakened: 'Branch-beskyttelse svekket',
+  workflow_changed: 'Deploy-workflow endret',
+  image_missing_attestation: 'Image uten attestering',
+  image_commit_mismatch: 'Image fra annen commit',
+  image_repository_mismatch: 'Image fra annet repo',
+}
+
+/** Alerts share the severity scale of deviations */
+export type RepositoryAlertSeverity = DeviationSeverity
+
+export const REPOSITORY_ALERT_DEFAULT_SEVERITY: Record<RepositoryAlertType, RepositoryAlertSeverity> = {
+  repository_mismatch: 'high',
+  pending_approval: 'medium',
+  historical_repository: 'medium',
+  repository_renamed: 'medium',
+  repository_archived: 'high',
+  branch_protection_disabled: 'critical',
+  branch_protection_weakened: 'high',
+  workflow_changed: 'medium',
+  image_missing_attestation: 'high',
+  image_commit_mismatch: 'critical',
+  image_repository_mismatch: 'critical',
+}
+
+/** Alert types about the state of the app's active repository, one open alert per app */
+export const REPOSITORY_STATE_ALERT_TYPES: RepositoryAlertType[] = [
+  'repository_renamed',
+  'repository_archived',
+  'branch_protection_disabled',
+]
+
+const UNEXPECTED_REPOSITORY_ALERT_TYPES: RepositoryAlertType[] = [
+  'repository_mismatch',
+  'pending_approval',
+  'historical_repository',
+]
+
+const IMAGE_ALERT_TYPES: RepositoryAlertType[] = [
+  'image_missing_attestation',
+  'image_commit_mismatch',
+  'image_repository_mismatch',
+]
+
+export function isRepositoryAlertType(value: unknown): value is RepositoryAlertType {
+  return typeof value === 'string' && (REPOSITORY_ALERT_TYPES as readonly string[]).includes(value)
+}
+
+/** Label for an alert type, falling back to the raw value for types no longer raised */
+export function getRepositoryAlertTypeLabel(alertType: string): string {
+  return isRepositoryAlertType(alertType) ? REPOSITORY_ALERT_TYPE_LABELS[alertType] : alertType
+}
+
+export interface RepositoryAlertFields {
+  alert_type: string
+  expected_github_owner: string
+  expected_github_repo_name: string
+  detected_github_owner: string
+  detected_github_repo_name: string
+  details: Record<string, unknown> | null
+}
+
+/**
+ * One sentence describing an alert, used in notifications and the alert inbox
+ */
+export function describeRepositoryAlert(alert: RepositoryAlertFields): string {
+  const expected = `${alert.expected_github_owner}/${alert.expected_github_repo_name}`
+  const detected = `${alert.detected_github_owner}/${alert.detected_github_repo_name}`
+  const details = alert.details ?? {}
+
+  switch (alert.alert_type) {
+    case 'repository_mismatch':
+      return `Deployment fra ukjent repo ${detected} (forventet ${expected})`
+    case 'pending_approval':
+      return `Deployment fra ${detected}, som venter på godkjenning`
+    case 'historical_repository':
+      return `Deployment fra historisk repo ${detected} (aktivt repo er ${expected})`
+    case 'repository_renamed':
+      return `Repoet ${expected} heter nå ${detected} på GitHub`
+    case 'repository_archived':
+      return `Repoet ${expected} er arkivert på GitHub`
+    case 'branch_protection_disabled':
+      return `Branch ${String(details.branch ?? 'ukjent')} i ${expected} er ikke beskyttet`
+    case 'branch_protection_weakened': {
+      const weakenings = Array.isArray(details.weakenings)
+        ? details.weakenings.map(String).join(', ')
+        : 'ukjent endring'
+      return `Branch-beskyttelsen av ${String(details.branch ?? 'ukjent')} i ${expected} er svekket (${weakenings})`
+    }
+    case 'workflow_changed':
+      return `Deployet med ${String(details.workflowPath ?? 'ukjent workflow')} i stedet for ${String(details.previousWorkflowPath ?? 'ukjent workflow')}`
+    case 'image_missing_attestation':
+      return `Imaget som kjører mangler byggattestering i ${expected}`
+    case 'image_commit_mismatch':
+      return `Imaget som kjører er bygget fra en annen commit enn siste deployment i ${expected}`
+    case 'image_repository_mismatch':
+      return `Imaget som kjører er bygget fra ${detected}, ikke ${expected}`
+    default:
+      return `${getRepositoryAlertTypeLabel(alert.alert_type)}: ${detected}`
+  }
+}
+
+export interface RepositoryState {
+  /** owner/repo as GitHub reports it. GitHub follows renames, so this differs after a rename. */
+  fullName: string
+  archived: boolean
+  defaultBranch: string
+  /** null when the default branch could not be checked */
+  defaultBranchProtected: boolean | null
+}
+
+/**
+ * Conditions that should be alerted for the app's active repository.
+ *
+ * @param expected - owner/repo as registered in application_repositories
+ */
+export function detectRepositoryConditions(expected: string, state: RepositoryState): RepositoryAlertType[] {
+  const conditions: RepositoryAlertType[] = []
+  if (state.fullName.toLowerCase() !== expected.toLowerCase()) conditions.push('repository_renamed')
+  if (state.archived) conditions.push('repository_archived')
+  if (state.defaultBranchProtected === false) conditions.push('branch_protection_disabled')
+  return conditions
+}
+
+export interface AlertConditionContext {
+  /** owner/repo of the app's active repositories */
+  activeRepositories: string[]
+  /** Conditions found in the active repository on this sync. null when GitHub could not be asked. */
+  repositoryConditions: RepositoryAlertType[] | null
+  /** Attestation status of the image the app runs now */
+  latestImageAttestationStatus: ImageAttestationStatus | null
+  /** Workflow file that made the latest deployment */
+  latestWorkflowPath: string | null
+  /** Workflows accepted by the app's deploy workflow policy */
+  allowedWorkflows: string[]
+}
+
+/**
+ * Whether the condition behind an open alert has disappeared.
+ * Unknown state (e.g. GitHub unavailable) never resolves an alert.
+ *
+ * branch_protection_weakened alerts are resolved by the branch protection
+ * snapshot job, which knows the settings in effect.
+ */
+export function isAlertConditionCleared(alert: RepositoryAlertFields, context: AlertConditionContext): boolean {
+  const alertType = alert.alert_type
+  if (!isRepositoryAlertType(alertType)) return false
+
+  const active = context.activeRepositories.map((repo) => repo.toLowerCase())
+
+  if (UNEXPECTED_REPOSITORY_ALERT_TYPES.includes(alertType)) {
+    return active.includes(`${alert.detected_github_owner}/${alert.detected_github_repo_name}`.toLowerCase())
+  }
+
+  if (REPOSITORY_STATE_ALERT_TYPES.includes(alertType)) {
+    if (context.repositoryConditions === null) return false
+    const expected = `${alert.expected_github_owner}/${alert.expected_github_repo_name}`.toLowerCase()
+    // The alert was about a repository that is no longer the active one
+    if (!active.includes(expected)) return true
+    return !context.repositoryConditions.includes(alertType)
+  }
+
+  if (IMAGE_ALERT_TYPES.includes(alertType)) {
+    return context.latestImageAttestationStatus === 'verified'
+  }
+
+  if (alertType === 'workflow_changed') {
+    const workflowPath = typeof alert.details?.workflowPath === 'string' ? alert.details.workflowPath : null
+    const previousWorkflowPath =
+      typeof alert.details?.previousWorkflowPath === 'string' ? alert.details.previousWorkflowPath : null
+    if (previousWorkflowPath && context.latestWorkflowPath === previousWorkflowPath) return true
+    return !!workflowPath && isWorkflowAllowed(workflowPath, context.allowedWorkflows)
+  }
+
+  return false
+}
@@ -0,0 +1,139 @@
+/**
+ * Separation of duties for manual approvals
+ *
+ * A deployment can only be approved manually by someone who did not take part
+ * in the change: not the PR creator or merger, not the deployer, and not an
+ * author or co-author of any commit in it. People are compared both by GitHub
+ * username and, through user mappings, by NAV-ident, so a second GitHub
+ * account mapped to the same person is caught as well.
+ *
+ * Used by both web and Slack approvals. Pure functions — user mappings are
+ * looked up by the caller (see manual-approval.server.ts).
+ */
+
+import { getCoAuthorUsernames } from './verification/co-authors'
+
+export type InvolvementRole = 'pr_creator' | 'pr_merger' | 'deployer' | 'commit_author' | 'co_author'
+
+export const INVOLVEMENT_ROLE_LABELS: Record<InvolvementRole, string> = {
+  pr_creator: 'opprettet pull requesten',
+  pr_merger: 'merget pull requesten',
+  deployer: 'deployet endringen',
+  commit_author: 'har skrevet en commit i endringen',
+  co_author: 'er medforfatter av en commit i endringen',
+}
+
+export interface Involvement {
+  /** Lowercased GitHub username */
+  username: string
+  role: InvolvementRole
+}
+
+export interface SeparationOfDutiesDeployment {
+  deployer_username: string | null
+  github_pr_data: {
+    creator?: { username: string } | null
+    merged_by?: { username: string } | null
+    commits?: Array<{ message: string; author?: { username: string } | null }>
+  } | null
+  unverified_commits: Array<{ author: string; message: string }> | null
+}
+
+/**
+ * Get the messages of all commits in the change, for co-author lookup.
+ */
+export function getChangeCommitMessages(deployment: SeparationOfDutiesDeployment): string[] {
+  return [
+    ...(deployment.github_pr_data?.commits?.map((c) => c.message) ?? []),
+    ...(deployment.unverified_commits?.map((c) => c.message) ?? []),
+  ]
+}
+
+/**
+ * Get everyone who took part in the change, with the role they had.
+ *
+ * @param coAuthorEmailToUsername - lowercased email → GitHub username (from user_mappings)
+ */
+export function getInvolvedPeople(
+  deployment: SeparationOfDutiesDeployment,
+  coAuthorEmailToUsername: Record<string, string> = {},
+): Involvement[] {
+  const involved = new Map<string, Involvement>()
+  const add = (username: string | null | undefined, role: InvolvementRole) => {
+    if (!username) return
+    const normalized = username.toLowerCase()
+    involved.set(`${normalized}:${role}`, { username: normalized, role })
+  }
+
+  const prData = deployment.github_pr_data
+  add(prData?.creator?.username, 'pr_creator')
+  add(prData?.merged_by?.username, 'pr_merger')
+  add(deployment.deployer_username, 'deployer')
+  for (const commit of prData?.commits ?? []) {
+    add(commit.author?.username, 'commit_author')
+  }
+  for (const commit of deployment.unverified_commits ?? []) {
+    add(commit.author, 'commit_author')
+  }
+
+  const commits = getChangeCommitMessages(deployment).map((message) => ({ message }))
+  for (const username of getCoAuthorUsernames(commits, coAuthorEmailToUsername)) {
+    add(username, 'co_author')
+  }
+
+  return Array.from(involved.values())
+}
+
+export type SeparationOfDutiesResult =
+  | { allowed: true }
+  | { allowed: false; reason: 'approver_unmapped' }
+  | { allowed: false; reason: 'involved'; roles: InvolvementRole[] }
+
+/**
+ * Check whether the approver is independent of the change.
+ *
+ * Refuses when the approver has no user mapping with both GitHub username and
+ * NAV-ident, since involvement cannot be ruled out without it.
+ *
+ * @param navIdentsByUsername - lowercased GitHub username → NAV-ident, for the involved people
+ */
+export function checkSeparationOfDuties(params: {
+  approver: { githubUsername: string; navIdent: string | null } | null
+  involved: Involvement[]
+  navIdentsByUsername: Map<string, string>
+}): SeparationOfDutiesResult {
+  const { approver, involved, navIdentsByUsername } = params
+  if (!approver?.navIdent) {
+    return { allowed: false, reason: 'approver_unmapped' }
+  }
+
+  const approverUsername = approver.githubUsername.toLowerCase()
+  const approverNavIdent = approver.navIdent.toUpperCase()
+
+  const roles = involved
+    .filter(
+      (person) =>
+        person.username === approverUsername ||
+        navIdentsByUsername.get(person.username)?.toUpperCase() === approverNavIdent,
+    )
+    .map((person) => person.role)
+
+  if (roles.length > 0) {
+    return { allowed: false, reason: 'involved', roles: [...new Set(roles)] }
+  }
+  return { allowed: true }
+}
+
+/**
+ * User-facing explanation of why an approval was refused.
+ */
+export function describeSeparationOfDutiesRefusal(
+  result: Exclude<SeparationOfDutiesResult, { allowed: true }>,
+): string {
+  if (result.reason === 'approver_unmapped') {
+    return 'Du mangler brukerkobling med GitHub-bruker og NAV-ident, så vi kan ikke kontrollere at du ikke har deltatt i endringen. Be en administrator legge deg til under Admin → Brukere.'
+  }
+  const roles = result.roles.map((role) => INVOLVEMENT_ROLE_LABELS[role])
+  const joined = roles.length > 1 ? `${roles.slice(0, -1).join(', ')} og ${roles[roles.length - 1]}` : roles[0]
+  return `Du kan ikke godkjenne denne deploymenten fordi du ${joined}. Fire-øyne-prinsippet krever at en annen person godkjenner.`
+}
@@ -0,0 +1,49 @@
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { type Bundle, type BundleVerifier, createVerifier } from 'sigstore'
+import { isWorkflowIdentityInRepository } from '~/lib/image-attestation'
+
+/** OIDC issuer of GitHub Actions, which Fulcio records in the signing certificate */
+const GITHUB_ACTIONS_ISSUER = 'https://token.actions.githubusercontent.com'
+
+/** Refetch the trust root daily so key rotations are picked up without a restart */
+const VERIFIER_MAX_AGE_MS = 24 * 60 * 60 * 1000
+
+let verifier: { promise: Promise<BundleVerifier>; createdAt: number } | null = null
+
+/**
+ * Verifier for the public-good Sigstore instance. The trust root is fetched
+ * with TUF and cached in the temp directory, since the app's file system is
+ * otherwise read-only.
+ */
+function getVerifier(): Promise<BundleVerifier> {
+  if (!verifier || Date.now() - verifier.createdAt > VERIFIER_MAX_AGE_MS) {
+    const promise = createVerifier({
+      certificateIssuer: GITHUB_ACTIONS_ISSUER,
+      tufCachePath: join(tmpdir(), 'sigstore-tuf'),
+    })
+    promise.catch(() => {
+      if (verifier?.promise === promise) verifier = null
+    })
+    verifier = { promise, createdAt: Date.now() }
+  }
+  return verifier.promise
+}
+
+/**
+ * Verify an attestation bundle: the DSSE signature, the Fulcio certificate
+ * chain, the transparency log entry, and that the certificate was issued to
+ * a GitHub Actions workflow in the given repository.
+ *
+ * Returns false for bundles that do not verify. Throws when the trust root
+ * cannot be fetched, so the caller can retry later.
+ */
+export async function verifyAttestationBundle(bundle: unknown, repository: string): Promise<boolean> {
+  const bundleVerifier = await getVerifier()
+  try {
+    const signer = bundleVerifier.verify(bundle as Bundle)
+    return isWorkflowIdentityInRepository(signer.identity?.subjectAlternativeName, repository)
+  } catch {
+    return false
+  }
+}
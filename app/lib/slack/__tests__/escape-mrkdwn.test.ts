@@ -0,0 +1,14 @@
+import { describe, expect, it } from 'vitest'
+import { escapeMrkdwn } from '~/lib/slack/blocks'
+
+describe('escapeMrkdwn', () => {
+  it('escapes links, mentions and entities so user text is shown as written', () => {
+    expect(escapeMrkdwn('<!channel> se <https://evil.example|her> & <@U123>')).toBe(
+      '&lt;!channel&gt; se &lt;https://evil.example|her&gt; &amp; &lt;@U123&gt;',
+    )
+  })
+
+  it('keeps formatting characters', () => {
+    expect(escapeMrkdwn('*fet* _kursiv_ ~gjennomstreket~')).toBe('*fet* _kursiv_ ~gjennomstreket~')
+  })
+})
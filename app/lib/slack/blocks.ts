@@ -6,7 +6,7 @@
  * server context and browser context (Storybook previews).
  */
 
-import type { KnownBlock } from '@slack/types'
+import type { KnownBlock, ModalView } from '@slack/types'
 import {
   DEVIATION_FOLLOW_UP_ROLE_LABELS,
   DEVIATION_INTENT_LABELS,
@@ -15,6 +15,7 @@ import {
   type DeviationIntent,
   type DeviationSeverity,
 } from '~/lib/deviation-constants'
+import { getRepositoryAlertTypeLabel } from '~/lib/repository-alerts'
 
 // =============================================================================
 // Types
@@ -129,7 +130,7 @@ export function getStatusEmoji(status: DeploymentNotification['status']): string
   }
 }
 
-function getStatusText(status: DeploymentNotification['status']): string {
+export function getStatusText(status: DeploymentNotification['status']): string {
   switch (status) {
     case 'unverified':
       return 'Uverifisert'
@@ -157,6 +158,12 @@ export interface DeviationNotification {
   followUpRole?: string
   registeredByName: string
   detailsUrl: string
+  /** Set when the deviation is escalated for passing its due date */
+  escalation?: {
+    dueAt: string
+    status: string
+    assignedToName?: string
+  }
 }
 
 // =============================================================================
@@ -167,6 +174,20 @@ function truncate(text: string, maxLength: number): string {
   return text.length > maxLength ? `${text.substring(0, maxLength)}...` : text
 }
 
+export const REGISTER_DEVIATION_ACTION_ID = 'register_deviation'
+
+/**
+ * Button that opens the deviation modal for a deployment
+ */
+function buildRegisterDeviationButton(deploymentId: number) {
+  return {
+    type: 'button' as const,
+    text: { type: 'plain_text' as const, text: '⚠️ Registrer avvik', emoji: true },
+    action_id: REGISTER_DEVIATION_ACTION_ID,
+    value: JSON.stringify({ deploymentId }),
+  }
+}
+
 /**
  * Build Slack Block Kit blocks for deployment notification
  */
@@ -261,6 +282,7 @@ export function buildDeploymentBlocks(notification: DeploymentNotification): Kno
         action_id: 'view_details',
         url: notification.detailsUrl,
       },
+      buildRegisterDeviationButton(notification.deploymentId),
     ],
   })
 
@@ -309,13 +331,23 @@ export function buildDeviationBlocks(notification: DeviationNotification): Known
       text: `*Oppfølgingsansvarlig:*\n${DEVIATION_FOLLOW_UP_ROLE_LABELS[notification.followUpRole as DeviationFollowUpRole] || notification.followUpRole}`,
     })
   }
+  if (notification.escalation) {
+    fields.push(
+      { type: 'mrkdwn' as const, text: `*Frist:*\n${notification.escalation.dueAt}` },
+      { type: 'mrkdwn' as const, text: `*Status:*\n${notification.escalation.status}` },
+      {
+        type: 'mrkdwn' as const,
+        text: `*Tildelt:*\n${notification.escalation.assignedToName || 'Ikke tildelt'}`,
+      },
+    )
+  }
 
   const blocks: KnownBlock[] = [
     {
       type: 'header',
       text: {
         type: 'plain_text',
-        text: '⚠️ Avvik registrert',
+        text: notification.escalation ? '🚨 Avvik har passert fristen' : '⚠️ Avvik registrert',
         emoji: true,
       },
     },
@@ -669,7 +701,7 @@ function sanitizeForInlineCode(value: string): string {
  * and need them to retain their formatting meaning. If user content needs to
  * be displayed verbatim, use {@link sanitizeForInlineCode} or a code block.
  */
-function escapeMrkdwn(text: string): string {
+export function escapeMrkdwn(text: string): string {
   return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
 }
 
@@ -738,6 +770,7 @@ export function buildReminderBlocks(notification: ReminderNotification): KnownBl
             type: 'mrkdwn',
             text: `${statusEmoji} *<${dep.detailsUrl}|#${dep.id}>* ${title}\n\`${shortSha}\` — ${dep.deployerName} — ${dep.createdAt}`,
           },
+          accessory: buildRegisterDeviationButton(dep.id),
         },
       )
     }
@@ -786,6 +819,163 @@ export function buildReminderBlocks(notification: ReminderNotification): KnownBl
   return blocks
 }
 
+// =============================================================================
+// Report Blocked Blocks
+// =============================================================================
+
+export interface ReportBlockedNotification {
+  appName: string
+  environmentName: string
+  teamSlug: string
+  periodLabel: string
+  /** Total number of deployments blocking readiness (may exceed the listed ones) */
+  pendingCount: number
+  deployments: ReminderDeployment[]
+  /** URL to the app admin page where the report can be generated manually */
+  adminUrl: string
+}
+
+/**
+ * Build Slack Block Kit blocks for a scheduled audit report that could not be
+ * generated because deployments in the period still lack approval.
+ */
+export function buildReportBlockedBlocks(notification: ReportBlockedNotification): KnownBlock[] {
+  const { appName, environmentName, periodLabel, pendingCount, deployments, adminUrl } = notification
+
+  const blocks: KnownBlock[] = [
+    {
+      type: 'header',
+      text: {
+        type: 'plain_text',
+        text: `📄 Leveranserapport for ${periodLabel} venter på godkjenninger`,
+        emoji: true,
+      },
+    },
+    {
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text: `*${appName}* (${environmentName}): ${pendingCount} deployment${pendingCount === 1 ? '' : 's'} i perioden mangler godkjenning. Rapporten genereres automatisk når alle er godkjent.`,
+      },
+    },
+  ]
+
+  for (const dep of deployments) {
+    const shortSha = dep.commitSha.substring(0, 7)
+    const title = dep.commitMessage ? truncate(dep.commitMessage, 60) : `Commit ${shortSha}`
+    const statusEmoji = getStatusEmoji(dep.status as DeploymentNotification['status'])
+
+    blocks.push({
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text: `${statusEmoji} *<${dep.detailsUrl}|#${dep.id}>* ${title}\n\`${shortSha}\` — ${dep.deployerName} — ${dep.createdAt}`,
+      },
+    })
+  }
+
+  if (pendingCount > deployments.length) {
+    blocks.push({
+      type: 'context',
+      elements: [{ type: 'mrkdwn', text: `… og ${pendingCount - deployments.length} til` }],
+    })
+  }
+
+  blocks.push(
+    { type: 'divider' },
+    {
+      type: 'actions',
+      elements: [
+        {
+          type: 'button',
+          text: {
+            type: 'plain_text',
+            text: '⚙️ Åpne app-admin',
+            emoji: true,
+          },
+          action_id: 'view_report_admin',
+          url: adminUrl,
+        },
+      ],
+    },
+    {
+      type: 'context',
+      elements: [
+        {
+          type: 'mrkdwn',
+          text: `Team: ${notification.teamSlug} | Automatisk rapportgenerering`,
+        },
+      ],
+    },
+  )
+
+  return blocks
+}
+
+// =============================================================================
+// Repository Alert Blocks
+// =============================================================================
+
+export interface RepositoryAlertNotification {
+  alertId: number
+  /** Deployment the alert was raised for, if any */
+  deploymentId: number | null
+  appName: string
+  environmentName: string
+  teamSlug: string
+  alertType: string
+  severity: string
+  /** One-line description of what was detected */
+  description: string
+  /** URL to the app page, where the alert can be assigned and resolved */
+  detailsUrl: string
+}
+
+/**
+ * Build Slack Block Kit blocks for a new repository alert
+ */
+export function buildRepositoryAlertBlocks(notification: RepositoryAlertNotification): KnownBlock[] {
+  const severityLabel = DEVIATION_SEVERITY_LABELS[notification.severity as DeviationSeverity] || notification.severity
+
+  return [
+    {
+      type: 'header',
+      text: {
+        type: 'plain_text',
+        text: `🚨 Repository-varsel: ${getRepositoryAlertTypeLabel(notification.alertType)}`,
+        emoji: true,
+      },
+    },
+    {
+      type: 'section',
+      fields: [
+        { type: 'mrkdwn', text: `*App:*\n${notification.appName}` },
+        { type: 'mrkdwn', text: `*Miljø:*\n${notification.environmentName}` },
+        { type: 'mrkdwn', text: `*Alvorlighetsgrad:*\n${severityLabel}` },
+      ],
+    },
+    {
+      type: 'section',
+      text: { type: 'mrkdwn', text: notification.description },
+    },
+    {
+      type: 'actions',
+      elements: [
+        {
+          type: 'button',
+          text: { type: 'plain_text', text: '🔍 Se varsel', emoji: true },
+          action_id: 'view_repository_alert',
+          url: notification.detailsUrl,
+        },
+      ],
+    },
+    {
+      type: 'context',
+      elements: [{ type: 'mrkdwn', text: `Team: ${notification.teamSlug} | Varsel #${notification.alertId}` }],
+    },
+  ]
+}
+
 // =============================================================================
 // New Deployment Notification Blocks
 // =============================================================================
@@ -917,3 +1107,404 @@ export function buildNewDeploymentBlocks(notification: NewDeploymentNotification
 
   return blocks
 }
+
+// =============================================================================
+// Slash Command Blocks (/nda)
+// =============================================================================
+
+function formatDeploymentLine(dep: ReminderDeployment, prefix = ''): string {
+  const shortSha = dep.commitSha.substring(0, 7)
+  const title = dep.commitMessage ? truncate(dep.commitMessage, 60) : `Commit ${shortSha}`
+  const statusEmoji = getStatusEmoji(dep.status as DeploymentNotification['status'])
+  return `${statusEmoji} *<${dep.detailsUrl}|#${dep.id}>* ${prefix}${title}\n\`${shortSha}\` — ${dep.deployerName} — ${dep.createdAt}`
+}
+
+/**
+ * Build the reply to `/nda help` or an invalid command
+ */
+export function buildSlashCommandHelpBlocks(usage: string[], message?: string): KnownBlock[] {
+  const blocks: KnownBlock[] = []
+  if (message) {
+    blocks.push({ type: 'section', text: { type: 'mrkdwn', text: message } })
+  }
+  blocks.push({
+    type: 'section',
+    text: { type: 'mrkdwn', text: `*Kommandoer:*\n${usage.map((line) => `• ${line}`).join('\n')}` },
+  })
+  return blocks
+}
+
+export interface AppStatusSummary {
+  appName: string
+  environmentName: string
+  teamSlug: string
+  total: number
+  withFourEyes: number
+  withoutFourEyes: number
+  pendingVerification: number
+  fourEyesPercentage: number
+  lastDeploymentAt?: string
+  /** Most recent unapproved deployments (may be fewer than withoutFourEyes) */
+  unapproved: ReminderDeployment[]
+  appUrl: string
+}
+
+/**
+ * Build the reply to `/nda status <team>/<env>/<app>`
+ */
+export function buildAppStatusBlocks(summary: AppStatusSummary): KnownBlock[] {
+  const blocks: KnownBlock[] = [
+    {
+      type: 'header',
+      text: { type: 'plain_text', text: `📊 ${summary.appName} (${summary.environmentName})`, emoji: true },
+    },
+    {
+      type: 'section',
+      fields: [
+        { type: 'mrkdwn', text: `*Deployments:*\n${summary.total}` },
+        { type: 'mrkdwn', text: `*Fire øyne:*\n${summary.fourEyesPercentage}%` },
+        { type: 'mrkdwn', text: `*Mangler godkjenning:*\n${summary.withoutFourEyes}` },
+        { type: 'mrkdwn', text: `*Venter på verifisering:*\n${summary.pendingVerification}` },
+      ],
+    },
+  ]
+
+  if (summary.unapproved.length > 0) {
+    blocks.push({ type: 'divider' })
+    for (const dep of summary.unapproved) {
+      blocks.push({ type: 'section', text: { type: 'mrkdwn', text: formatDeploymentLine(dep) } })
+    }
+    if (summary.withoutFourEyes > summary.unapproved.length) {
+      blocks.push({
+        type: 'context',
+        elements: [{ type: 'mrkdwn', text: `… og ${summary.withoutFourEyes - summary.unapproved.length} til` }],
+      })
+    }
+  }
+
+  blocks.push(
+    {
+      type: 'actions',
+      elements: [
+        {
+          type: 'button',
+          text: { type: 'plain_text', text: '🔍 Åpne i NDA', emoji: true },
+          action_id: 'view_app_status',
+          url: summary.appUrl,
+        },
+      ],
+    },
+    {
+      type: 'context',
+      elements: [
+        {
+          type: 'mrkdwn',
+          text: `Team: ${summary.teamSlug}${summary.lastDeploymentAt ? ` | Siste deployment: ${summary.lastDeploymentAt}` : ''}`,
+        },
+      ],
+    },
+  )
+
+  return blocks
+}
+
+export interface PendingDeploymentsSummary {
+  deployments: Array<ReminderDeployment & { appName: string; environmentName: string }>
+  /** Total number of unapproved deployments (may exceed the listed ones) */
+  total: number
+}
+
+/**
+ * Build the reply to `/nda pending`
+ */
+export function buildPendingDeploymentsBlocks(summary: PendingDeploymentsSummary): KnownBlock[] {
+  if (summary.total === 0) {
+    return [{ type: 'section', text: { type: 'mrkdwn', text: '✅ Du har ingen deployments som mangler godkjenning.' } }]
+  }
+
+  const blocks: KnownBlock[] = [
+    {
+      type: 'header',
+      text: {
+        type: 'plain_text',
+        text: `🔔 ${summary.total} av dine deployments mangler godkjenning`,
+        emoji: true,
+      },
+    },
+  ]
+
+  for (const dep of summary.deployments) {
+    blocks.push({
+      type: 'section',
+      text: { type: 'mrkdwn', text: formatDeploymentLine(dep, `${dep.appName} (${dep.environmentName}): `) },
+    })
+  }
+
+  if (summary.total > summary.deployments.length) {
+    blocks.push({
+      type: 'context',
+      elements: [{ type: 'mrkdwn', text: `… og ${summary.total - summary.deployments.length} til` }],
+    })
+  }
+
+  return blocks
+}
+
+export interface ReportStatusSummary {
+  appName: string
+  environmentName: string
+  teamSlug: string
+  periodLabel: string
+  /** Set when a report has been generated for the period */
+  report: { reportId: string; generatedAt: string; url: string } | null
+  totalDeployments: number
+  pendingCount: number
+  pendingDeployments: ReminderDeployment[]
+  /** URL to the app admin page where the report can be generated */
+  adminUrl: string
+}
+
+/**
+ * Build the reply to `/nda report <app> <period>`
+ */
+export function buildReportStatusBlocks(summary: ReportStatusSummary): KnownBlock[] {
+  const { report } = summary
+  let statusText: string
+  if (report) {
+    statusText = `✅ Rapport \`${report.reportId}\` ble generert ${report.generatedAt}.`
+  } else if (summary.totalDeployments === 0) {
+    statusText = 'Ingen produksjonsdeployments i perioden, så det finnes ingen rapport.'
+  } else if (summary.pendingCount > 0) {
+    statusText = `⏳ ${summary.pendingCount} av ${summary.totalDeployments} deployments mangler godkjenning. Rapporten kan genereres når alle er godkjent.`
+  } else {
+    statusText = `Alle ${summary.totalDeployments} deployments er godkjent. Rapporten er ikke generert ennå.`
+  }
+
+  const blocks: KnownBlock[] = [
+    {
+      type: 'header',
+      text: { type: 'plain_text', text: `📄 Leveranserapport ${summary.periodLabel}`, emoji: true },
+    },
+    {
+      type: 'section',
+      text: { type: 'mrkdwn', text: `*${summary.appName}* (${summary.environmentName})\n${statusText}` },
+    },
+  ]
+
+  if (!report) {
+    for (const dep of summary.pendingDeployments) {
+      blocks.push({ type: 'section', text: { type: 'mrkdwn', text: formatDeploymentLine(dep) } })
+    }
+    if (summary.pendingCount > summary.pendingDeployments.length) {
+      blocks.push({
+        type: 'context',
+        elements: [{ type: 'mrkdwn', text: `… og ${summary.pendingCount - summary.pendingDeployments.length} til` }],
+      })
+    }
+  }
+
+  blocks.push(
+    {
+      type: 'actions',
+      elements: [
+        report
+          ? {
+              type: 'button',
+              text: { type: 'plain_text', text: '📄 Se rapport', emoji: true },
+              action_id: 'view_report',
+              url: report.url,
+            }
+          : {
+              type: 'button',
+              text: { type: 'plain_text', text: '⚙️ Åpne app-admin', emoji: true },
+              action_id: 'view_report_admin',
+              url: summary.adminUrl,
+            },
+      ],
+    },
+    {
+      type: 'context',
+      elements: [{ type: 'mrkdwn', text: `Team: ${summary.teamSlug}` }],
+    },
+  )
+
+  return blocks
+}
+
+export const APPROVE_DEPLOYMENT_MODAL_CALLBACK_ID = 'approve_deployment_modal'
+
+export interface ApproveDeploymentModalInput {
+  deploymentId: number
+  appName: string
+  environmentName: string
+  commitSha: string
+  title?: string
+  slackLink: string
+  /** Channel the command was run in, for the confirmation message */
+  channelId: string
+}
+
+/**
+ * Build the modal opened by `/nda approve <deployment-id> <slack-link>`
+ */
+export function buildApproveDeploymentModal(input: ApproveDeploymentModalInput): ModalView {
+  const shortSha = input.commitSha.substring(0, 7)
+  return {
+    type: 'modal',
+    callback_id: APPROVE_DEPLOYMENT_MODAL_CALLBACK_ID,
+    private_metadata: JSON.stringify({ deploymentId: input.deploymentId, channelId: input.channelId }),
+    title: { type: 'plain_text', text: 'Godkjenn deployment' },
+    submit: { type: 'plain_text', text: 'Godkjenn' },
+    close: { type: 'plain_text', text: 'Avbryt' },
+    blocks: [
+      {
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: `*${input.appName}* (${input.environmentName}) — deployment #${input.deploymentId}\n\`${shortSha}\`${input.title ? ` ${truncate(input.title, 100)}` : ''}`,
+        },
+      },
+      {
+        type: 'input',
+        block_id: 'slack_link',
+        label: { type: 'plain_text', text: 'Slack-lenke til godkjenningen' },
+        element: { type: 'url_text_input', action_id: 'value', initial_value: input.slackLink },
+      },
+      {
+        type: 'input',
+        block_id: 'reason',
+        optional: true,
+        label: { type: 'plain_text', text: 'Begrunnelse' },
+        element: {
+          type: 'plain_text_input',
+          action_id: 'value',
+          multiline: true,
+          placeholder: { type: 'plain_text', text: 'Manuelt godkjent etter gjennomgang' },
+        },
+      },
+    ],
+  }
+}
+
+// =============================================================================
+// Deviation Modal
+// =============================================================================
+
+export const REGISTER_DEVIATION_MODAL_CALLBACK_ID = 'register_deviation_modal'
+
+export interface DeviationModalInput {
+  deploymentId: number
+  appName: string
+  environmentName: string
+  commitSha: string
+  /** Message the button was clicked in, updated after registration */
+  channelId?: string
+  messageTs?: string
+}
+
+function toOptions(labels: Record<string, string>) {
+  return Object.entries(labels).map(([value, label]) => ({
+    text: { type: 'plain_text' as const, text: label },
+    value,
+  }))
+}
+
+/**
+ * Build the modal for registering a deviation. Fields match the form on the
+ * deployment page; block ids match the keys of DeviationInput.
+ */
+export function buildDeviationModal(input: DeviationModalInput): ModalView {
+  const shortSha = input.commitSha.substring(0, 7)
+  const intentOptions = toOptions(DEVIATION_INTENT_LABELS)
+  const severityOptions = toOptions(DEVIATION_SEVERITY_LABELS)
+
+  return {
+    type: 'modal',
+    callback_id: REGISTER_DEVIATION_MODAL_CALLBACK_ID,
+    private_metadata: JSON.stringify({
+      deploymentId: input.deploymentId,
+      channelId: input.channelId,
+      messageTs: input.messageTs,
+    }),
+    title: { type: 'plain_text', text: 'Registrer avvik' },
+    submit: { type: 'plain_text', text: 'Registrer' },
+    close: { type: 'plain_text', text: 'Avbryt' },
+    blocks: [
+      {
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: `*${input.appName}* (${input.environmentName}) — deployment #${input.deploymentId}\n\`${shortSha}\``,
+        },
+      },
+      {
+        type: 'input',
+        block_id: 'breachType',
+        optional: true,
+        label: { type: 'plain_text', text: 'Type brudd' },
+        hint: { type: 'plain_text', text: 'Hvilken lov, forskrift, rutine eller regel er brutt?' },
+        element: { type: 'plain_text_input', action_id: 'value' },
+      },
+      {
+        type: 'input',
+        block_id: 'reason',
+        label: { type: 'plain_text', text: 'Beskrivelse' },
+        hint: { type: 'plain_text', text: 'Beskriv avviket, hva som skjedde og konsekvensene' },
+        element: { type: 'plain_text_input', action_id: 'value', multiline: true },
+      },
+      {
+        type: 'input',
+        block_id: 'intent',
+        label: { type: 'plain_text', text: 'Intensjon' },
+        element: {
+          type: 'static_select',
+          action_id: 'value',
+          options: intentOptions,
+          initial_option: intentOptions.find((option) => option.value === 'unknown'),
+        },
+      },
+      {
+        type: 'input',
+        block_id: 'severity',
+        label: { type: 'plain_text', text: 'Alvorlighetsgrad' },
+        element: {
+          type: 'static_select',
+          action_id: 'value',
+          options: severityOptions,
+          initial_option: severityOptions.find((option) => option.value === 'medium'),
+        },
+      },
+      {
+        type: 'input',
+        block_id: 'followUpRole',
+        optional: true,
+        label: { type: 'plain_text', text: 'Oppfølgingsansvarlig' },
+        element: {
+          type: 'static_select',
+          action_id: 'value',
+          placeholder: { type: 'plain_text', text: 'Velg rolle' },
+          options: toOptions(DEVIATION_FOLLOW_UP_ROLE_LABELS),
+        },
+      },
+    ],
+  }
+}
+
+/**
+ * Context line appended to a message when a deviation is registered from it
+ */
+export function buildDeviationRegisteredContext(params: {
+  deploymentId: number
+  registeredByName: string
+  detailsUrl: string
+}): KnownBlock {
+  return {
+    type: 'context',
+    elements: [
+      {
+        type: 'mrkdwn',
+        text: `⚠️ Avvik registrert for <${params.detailsUrl}|#${params.deploymentId}> av ${params.registeredByName}`,
+      },
+    ],
+  }
+}
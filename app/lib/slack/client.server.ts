@@ -15,15 +15,18 @@
 import { App, type BlockAction, LogLevel } from '@slack/bolt'
 import type { KnownBlock } from '@slack/types'
 import { getActiveBoardsWithKeywordsForDevTeam } from '~/db/boards.server'
+import { createCommentFromSlack, setCommentSlackMessageTs } from '~/db/comments.server'
 import { getDevTeamAppsWithIssues, getUnmappedContributors, resolveDevTeamScope } from '~/db/deployments/home.server'
 import {
   claimDeploymentForDeployNotify,
   claimDeploymentForSlackNotification,
   type DeploymentWithApp,
   type GitHubPRData,
+  getDeploymentById,
   getDeploymentsNeedingDeployNotify,
   getPersonalDeploymentsMissingGoalLinks,
 } from '~/db/deployments.server'
+import { getDeviationSlackChannel } from '~/db/global-settings.server'
 import {
   createSlackNotification,
   getSlackNotificationByMessage,
@@ -32,27 +35,43 @@ import {
 } from '~/db/slack-notifications.server'
 import { getUserDevTeams } from '~/db/user-dev-team-preference.server'
 import { getUserMappingBySlackId } from '~/db/user-mappings.server'
+import { canMappedUserAdministerApp } from '~/lib/access-policy.server'
+import { validateDeviationInput } from '~/lib/deviation-constants'
+import { registerDeviation } from '~/lib/deviation-registration.server'
 import { logger } from '~/lib/logger.server'
+import { approveDeploymentManually } from '~/lib/manual-approval.server'
 import {
   buildDeploymentBlocks,
   buildDeviationBlocks,
+  buildDeviationModal,
+  buildDeviationRegisteredContext,
   buildHomeTabBlocks,
   buildNewDeploymentBlocks,
   buildReminderBlocks,
+  buildReportBlockedBlocks,
+  buildRepositoryAlertBlocks,
   type DeploymentNotification,
   type DeviationNotification,
+  escapeMrkdwn,
   getStatusEmoji,
   type NewDeploymentNotification,
   type PersonalHomeTabBoard,
   type PersonalHomeTabTeamIssues,
+  REGISTER_DEVIATION_ACTION_ID,
+  REGISTER_DEVIATION_MODAL_CALLBACK_ID,
   type ReminderNotification,
+  type ReportBlockedNotification,
+  type RepositoryAlertNotification,
 } from './blocks'
+import { registerCommandHandlers } from './commands.server'
 
 // NOTE: Types and block builders are exported from `./blocks` and surfaced
 // through the `~/lib/slack` barrel; do not re-export them here. Re-exporting
 // them from this server-only file forces callers that only need types/builders
 // (e.g. stories, components) to risk pulling in the server graph.
 
+const DEVIATION_ADMIN_REQUIRED = 'Du må være admin i seksjonen som eier applikasjonen for å registrere avvik.'
+
 // Singleton Slack app instance
 let slackApp: App | null = null
 let isConnected = false
@@ -88,6 +107,9 @@ function getSlackApp(): App | null {
 
     // Register event handlers
     registerEventHandlers(slackApp)
+
+    // Register the /nda slash command
+    registerCommandHandlers(slackApp)
   }
 
   return slackApp
@@ -200,7 +222,9 @@ export async function sendDeviationNotification(
   }
 
   const blocks = buildDeviationBlocks(notification)
-  const text = `⚠️ Avvik registrert: ${notification.appName} (${notification.environmentName})`
+  const text = notification.escalation
+    ? `🚨 Avvik har passert fristen: ${notification.appName} (${notification.environmentName})`
+    : `⚠️ Avvik registrert: ${notification.appName} (${notification.environmentName})`
 
   try {
     const result = await app.client.chat.postMessage({
@@ -215,6 +239,97 @@ export async function sendDeviationNotification(
   }
 }
 
+type RegisteredDeviation = {
+  reason: string
+  breach_type: string | null
+  intent: string | null
+  severity: string | null
+  follow_up_role: string | null
+}
+
+type DeviationDeployment = {
+  id: number
+  app_name: string
+  environment_name: string
+  team_slug: string
+  commit_sha: string | null
+}
+
+/**
+ * Build the notification about a newly registered deviation
+ */
+export function buildDeviationRegisteredNotification(
+  deviation: RegisteredDeviation,
+  deployment: DeviationDeployment,
+  registeredByName: string,
+): DeviationNotification {
+  return {
+    deploymentId: deployment.id,
+    appName: deployment.app_name,
+    environmentName: deployment.environment_name,
+    teamSlug: deployment.team_slug,
+    commitSha: deployment.commit_sha || 'Ukjent',
+    reason: deviation.reason,
+    breachType: deviation.breach_type || undefined,
+    intent: deviation.intent || undefined,
+    severity: deviation.severity || undefined,
+    followUpRole: deviation.follow_up_role || undefined,
+    registeredByName,
+    detailsUrl: getDeploymentUrl(deployment),
+  }
+}
+
+/**
+ * Post a newly registered deviation to the deviation channel, if one is configured
+ */
+export async function notifyDeviationRegistered(
+  deviation: RegisteredDeviation,
+  deployment: DeviationDeployment,
+  registeredByName: string,
+): Promise<void> {
+  const deviationChannelConfig = await getDeviationSlackChannel()
+  if (!deviationChannelConfig.channel_id) return
+
+  await sendDeviationNotification(
+    buildDeviationRegisteredNotification(deviation, deployment, registeredByName),
+    deviationChannelConfig.channel_id,
+  )
+}
+
+function getDeploymentUrl(deployment: { id: number; app_name: string; environment_name: string; team_slug: string }) {
+  const baseUrl = process.env.BASE_URL || 'https://nda.ansatt.nav.no'
+  return `${baseUrl}/team/${deployment.team_slug}/env/${deployment.environment_name}/app/${deployment.app_name}/deployments/${deployment.id}`
+}
+
+/**
+ * Post a comment added on the web into the Slack thread of the deployment
+ * notification, if the deployment has one
+ */
+export async function postCommentToDeploymentThread(
+  deployment: { slack_channel_id: string | null; slack_message_ts: string | null },
+  comment: { id: number; comment_text: string; slack_link: string | null },
+  authorName: string,
+): Promise<void> {
+  if (!deployment.slack_channel_id || !deployment.slack_message_ts) return
+
+  const app = getSlackApp()
+  if (!app) return
+
+  const linkText = comment.slack_link ? `\n<${comment.slack_link}|🔗 Slack-lenke>` : ''
+  try {
+    const result = await app.client.chat.postMessage({
+      channel: deployment.slack_channel_id,
+      thread_ts: deployment.slack_message_ts,
+      text: `💬 *${escapeMrkdwn(authorName)}* kommenterte i NDA:\n${escapeMrkdwn(comment.comment_text)}${linkText}`,
+    })
+    if (result.ts) {
+      await setCommentSlackMessageTs(comment.id, result.ts)
+    }
+  } catch (error) {
+    logger.error(`Failed to post comment ${comment.id} to Slack thread:`, error)
+  }
+}
+
 /**
  * Send a reminder notification to a Slack channel
  */
@@ -240,6 +355,18 @@ export async function sendReminder(notification: ReminderNotification, channelId
       blocks: blocks as KnownBlock[],
       text,
     })
+
+    // Store the message so it can be updated when a deviation is registered from it
+    if (result.ts) {
+      await createSlackNotification({
+        deploymentId: null,
+        channelId,
+        messageTs: result.ts,
+        messageBlocks: blocks as unknown as Record<string, unknown>[],
+        messageText: text,
+      })
+    }
+
     return result.ts || null
   } catch (error) {
     logger.error('Failed to send reminder Slack notification:', error)
@@ -247,6 +374,74 @@ export async function sendReminder(notification: ReminderNotification, channelId
   }
 }
 
+/**
+ * Send a message that a scheduled audit report is blocked by unapproved deployments
+ */
+export async function sendReportBlockedNotification(
+  notification: ReportBlockedNotification,
+  channelId: string,
+): Promise<string | null> {
+  const app = getSlackApp()
+  if (!app) {
+    logger.info('Slack not configured, skipping report blocked notification')
+    return null
+  }
+
+  if (!channelId) {
+    logger.info('No Slack channel configured for report blocked notification, skipping')
+    return null
+  }
+
+  const blocks = buildReportBlockedBlocks(notification)
+  const text = `📄 Leveranserapport for ${notification.periodLabel} venter på ${notification.pendingCount} godkjenning${notification.pendingCount === 1 ? '' : 'er'} — ${notification.appName} (${notification.environmentName})`
+
+  try {
+    const result = await app.client.chat.postMessage({
+      channel: channelId,
+      blocks: blocks as KnownBlock[],
+      text,
+    })
+    return result.ts || null
+  } catch (error) {
+    logger.error('Failed to send report blocked Slack notification:', error)
+    return null
+  }
+}
+
+/**
+ * Send a message that a repository alert was raised for an app
+ */
+export async function sendRepositoryAlertNotification(
+  notification: RepositoryAlertNotification,
+  channelId: string,
+): Promise<string | null> {
+  const app = getSlackApp()
+  if (!app) {
+    logger.info('Slack not configured, skipping repository alert notification')
+    return null
+  }
+
+  if (!channelId) {
+    logger.info('No Slack channel configured for repository alert notification, skipping')
+    return null
+  }
+
+  const blocks = buildRepositoryAlertBlocks(notification)
+  const text = `🚨 Repository-varsel for ${notification.appName} (${notification.environmentName}): ${notification.description}`
+
+  try {
+    const result = await app.client.chat.postMessage({
+      channel: channelId,
+      blocks: blocks as KnownBlock[],
+      text,
+    })
+    return result.ts || null
+  } catch (error) {
+    logger.error('Failed to send repository alert Slack notification:', error)
+    return null
+  }
+}
+
 /**
  * Update an existing deployment notification
  */
@@ -307,7 +502,7 @@ function registerActionHandlers(app: App): void {
       // Get user info
       const userId = body.user.id
 
-      logger.info(`Slack: User ${userId} approved deployment ${deploymentId}`)
+      logger.info(`Slack: User ${userId} clicked approve for deployment ${deploymentId}`)
 
       // Log the interaction
       if (body.channel?.id && body.message?.ts) {
@@ -321,9 +516,33 @@ function registerActionHandlers(app: App): void {
             actionValue: value,
           })
         }
+      }
+
+      const deployment = await getDeploymentById(deploymentId)
+      if (!deployment) {
+        logger.warn(`Slack: Deployment ${deploymentId} not found for approval`)
+        return
+      }
+
+      // Same separation-of-duties check as manual approval in the web app
+      const approver = await getUserMappingBySlackId(userId)
+      const result = await approveDeploymentManually({
+        deployment,
+        actor: { navIdent: approver?.nav_ident ?? `slack:${userId}`, name: approver?.display_name ?? undefined },
+        approver,
+        source: 'slack',
+        reason: 'Godkjent via Slack',
+      })
+
+      if (!result.success) {
+        logger.info(`Slack: Refused approval of deployment ${deploymentId} by ${userId}`)
+        if (body.channel?.id) {
+          await client.chat.postEphemeral({ channel: body.channel.id, user: userId, text: result.error })
+        }
+        return
+      }
 
-        // TODO: Call the actual approval logic
-        // For now, just update the message to show it was approved
+      if (body.channel?.id && body.message?.ts) {
         await client.chat.update({
           channel: body.channel.id,
           ts: body.message.ts,
@@ -344,6 +563,152 @@ function registerActionHandlers(app: App): void {
     }
   })
 
+  // Open the deviation modal from deployment and reminder messages
+  app.action<BlockAction>(REGISTER_DEVIATION_ACTION_ID, async ({ ack, body, client, action }) => {
+    await ack()
+
+    try {
+      const { deploymentId } = JSON.parse((action as { value: string }).value) as { deploymentId: number }
+
+      if (body.channel?.id && body.message?.ts) {
+        const notification = await getSlackNotificationByMessage(body.channel.id, body.message.ts)
+        if (notification) {
+          await logSlackInteraction({
+            notificationId: notification.id,
+            actionId: REGISTER_DEVIATION_ACTION_ID,
+            slackUserId: body.user.id,
+            slackUsername: 'username' in body.user ? body.user.username : undefined,
+            actionValue: { deploymentId },
+          })
+        }
+      }
+
+      const deployment = await getDeploymentById(deploymentId)
+      if (!deployment) {
+        logger.warn(`Slack: Deployment ${deploymentId} not found for deviation`)
+        return
+      }
+
+      const mapping = await getUserMappingBySlackId(body.user.id)
+      if (!(await canMappedUserAdministerApp(mapping, deployment.monitored_app_id))) {
+        if (body.channel?.id) {
+          await client.chat.postEphemeral({
+            channel: body.channel.id,
+            user: body.user.id,
+            text: DEVIATION_ADMIN_REQUIRED,
+          })
+        }
+        return
+      }
+
+      await client.views.open({
+        trigger_id: body.trigger_id,
+        view: buildDeviationModal({
+          deploymentId,
+          appName: deployment.app_name,
+          environmentName: deployment.environment_name,
+          commitSha: deployment.commit_sha || '',
+          channelId: body.channel?.id,
+          messageTs: body.message?.ts,
+        }),
+      })
+    } catch (error) {
+      logger.error('Error opening deviation modal:', error)
+    }
+  })
+
+  app.view(REGISTER_DEVIATION_MODAL_CALLBACK_ID, async ({ ack, body, view, client }) => {
+    const { deploymentId, channelId, messageTs } = JSON.parse(view.private_metadata) as {
+      deploymentId: number
+      channelId?: string
+      messageTs?: string
+    }
+    const values = view.state.values
+    const validation = validateDeviationInput({
+      reason: values.reason?.value?.value,
+      breachType: values.breachType?.value?.value,
+      intent: values.intent?.value?.selected_option?.value,
+      severity: values.severity?.value?.selected_option?.value,
+      followUpRole: values.followUpRole?.value?.selected_option?.value,
+    })
+    if (!validation.ok) {
+      await ack({ response_action: 'errors', errors: validation.errors as Record<string, string> })
+      return
+    }
+
+    const userId = body.user.id
+    let registered: { deviation: Awaited<ReturnType<typeof registerDeviation>>; deployment: DeploymentWithApp }
+    let registeredByName: string
+    try {
+      const [deployment, mapping] = await Promise.all([
+        getDeploymentById(deploymentId),
+        getUserMappingBySlackId(userId),
+      ])
+      if (!mapping?.nav_ident) {
+        await ack({
+          response_action: 'errors',
+          errors: {
+            reason:
+              'Slack-brukeren din er ikke koblet til en NAV-ident i NDA. Be en administrator legge deg til under Admin → Brukere.',
+          },
+        })
+        return
+      }
+      if (!deployment) {
+        await ack({ response_action: 'errors', errors: { reason: `Fant ingen deployment med ID ${deploymentId}.` } })
+        return
+      }
+      if (!(await canMappedUserAdministerApp(mapping, deployment.monitored_app_id))) {
+        await ack({ response_action: 'errors', errors: { reason: DEVIATION_ADMIN_REQUIRED } })
+        return
+      }
+
+      registeredByName = mapping.display_name || mapping.nav_ident
+      const deviation = await registerDeviation({
+        deployment,
+        input: validation.input,
+        actor: { navIdent: mapping.nav_ident, name: mapping.display_name },
+      })
+      registered = { deviation, deployment }
+    } catch (error) {
+      logger.error('Error registering deviation from Slack:', error)
+      await ack({ response_action: 'errors', errors: { reason: 'Kunne ikke registrere avvik' } })
+      return
+    }
+    await ack()
+    logger.info(`Slack: Deviation ${registered.deviation.id} registered by ${userId} for deployment ${deploymentId}`)
+
+    try {
+      await notifyDeviationRegistered(registered.deviation, registered.deployment, registeredByName)
+
+      // Mark the message the button was clicked in
+      const notification = channelId && messageTs ? await getSlackNotificationByMessage(channelId, messageTs) : null
+      if (notification) {
+        const blocks = [
+          ...(notification.message_blocks as unknown as KnownBlock[]),
+          buildDeviationRegisteredContext({
+            deploymentId,
+            registeredByName,
+            detailsUrl: getDeploymentUrl(registered.deployment),
+          }),
+        ]
+        await client.chat.update({
+          channel: notification.channel_id,
+          ts: notification.message_ts,
+          blocks,
+          text: notification.message_text ?? undefined,
+        })
+        await updateSlackNotification(notification.id, {
+          messageBlocks: blocks as unknown as Record<string, unknown>[],
+          messageText: notification.message_text ?? undefined,
+          triggeredBy: registered.deviation.registered_by,
+        })
+      }
+    } catch (error) {
+      logger.error('Error updating Slack after deviation registration:', error)
+    }
+  })
+
   // View details is a link button, but we log the interaction
   app.action<BlockAction>('view_details', async ({ ack, body, action }) => {
     await ack()
@@ -370,6 +735,41 @@ function registerActionHandlers(app: App): void {
   })
 }
 
+/**
+ * Build the notification about a deployment that needs attention
+ */
+export function buildDeploymentNotification(
+  deployment: {
+    id: number
+    commit_sha: string | null
+    deployer_username: string | null
+    github_pr_number: number | null
+    github_pr_url: string | null
+    github_pr_data: { title: string } | null
+    four_eyes_status: string
+    title: string | null
+    team_slug: string
+    environment_name: string
+    app_name: string
+  },
+  baseUrl: string,
+): DeploymentNotification {
+  return {
+    deploymentId: deployment.id,
+    appName: deployment.app_name,
+    environmentName: deployment.environment_name,
+    teamSlug: deployment.team_slug,
+    commitSha: deployment.commit_sha || 'unknown',
+    commitMessage: deployment.title || deployment.github_pr_data?.title,
+    deployerName: deployment.deployer_username || 'ukjent',
+    deployerUsername: deployment.deployer_username || 'unknown',
+    prNumber: deployment.github_pr_number || undefined,
+    prUrl: deployment.github_pr_url || undefined,
+    status: mapFourEyesStatus(deployment.four_eyes_status),
+    detailsUrl: `${baseUrl}/team/${deployment.team_slug}/env/${deployment.environment_name}/app/${deployment.app_name}/deployments/${deployment.id}`,
+  }
+}
+
 /**
  * Send notification for a deployment if needed.
  * Uses atomic database claim to prevent duplicate notifications across pods.
@@ -423,24 +823,8 @@ export async function notifyDeploymentIfNeeded(
     return false
   }
 
-  // Build notification
-  const notification: DeploymentNotification = {
-    deploymentId: deployment.id,
-    appName: deployment.app_name,
-    environmentName: deployment.environment_name,
-    teamSlug: deployment.team_slug,
-    commitSha: deployment.commit_sha || 'unknown',
-    commitMessage: deployment.title || deployment.github_pr_data?.title,
-    deployerName: deployment.deployer_username || 'ukjent',
-    deployerUsername: deployment.deployer_username || 'unknown',
-    prNumber: deployment.github_pr_number || undefined,
-    prUrl: deployment.github_pr_url || undefined,
-    status,
-    detailsUrl: `${baseUrl}/team/${deployment.team_slug}/env/${deployment.environment_name}/app/${deployment.app_name}/deployments/${deployment.id}`,
-  }
-
   // Send to Slack
-  const messageTs = await sendDeploymentNotification(notification, channelId)
+  const messageTs = await sendDeploymentNotification(buildDeploymentNotification(deployment, baseUrl), channelId)
   if (!messageTs) {
     return false
   }
@@ -662,7 +1046,56 @@ function registerEventHandlers(app: App): void {
     }
   })
 
-  logger.info('[Slack] Event handlers registered (app_home_opened)')
+  // Import replies in deployment notification threads as deployment comments
+  app.event('message', async ({ event, client }) => {
+    // Only plain user messages; edits, deletions and bot messages (including our own thread posts) have a subtype or bot_id
+    if (event.subtype !== undefined || event.bot_id) return
+    if (!event.thread_ts || event.thread_ts === event.ts) return
+
+    try {
+      const notification = await getSlackNotificationByMessage(event.channel, event.thread_ts)
+      if (!notification?.deployment_id || !event.text?.trim()) return
+
+      const deploymentId = notification.deployment_id
+      const [mapping, permalink, deployment] = await Promise.all([
+        getUserMappingBySlackId(event.user),
+        client.chat.getPermalink({ channel: event.channel, message_ts: event.ts }),
+        getDeploymentById(deploymentId),
+      ])
+
+      const comment = await createCommentFromSlack(
+        {
+          deployment_id: deploymentId,
+          comment_text: event.text.trim(),
+          slack_link: permalink.permalink ?? null,
+          slack_message_ts: event.ts,
+          slack_user_id: event.user,
+          registered_by: mapping?.nav_ident ?? null,
+        },
+        (created) => ({
+          actor: { navIdent: mapping?.nav_ident ?? `slack:${event.user}`, name: mapping?.display_name },
+          action: 'comment.create',
+          entityType: 'comment',
+          entityId: created.id,
+          monitoredAppId: deployment?.monitored_app_id,
+          after: {
+            deployment_id: deploymentId,
+            comment_text: created.comment_text,
+            slack_link: created.slack_link,
+            source: 'slack',
+          },
+        }),
+      )
+      // Already imported (Slack may deliver an event more than once)
+      if (!comment) return
+
+      logger.info(`Slack: Imported thread reply as comment ${comment.id} on deployment ${notification.deployment_id}`)
+    } catch (error) {
+      logger.error('Error importing Slack thread reply as comment:', error)
+    }
+  })
+
+  logger.info('[Slack] Event handlers registered (app_home_opened, message)')
 }
 
 /**
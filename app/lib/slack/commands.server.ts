@@ -0,0 +1,369 @@
+/**
+ * Handlers for the `/nda` Slack slash command
+ *
+ * Replies are ephemeral (only visible to the user who ran the command).
+ * Every subcommand requires the Slack user to be mapped to a NAV-ident in
+ * user_mappings, and access to apps follows the user's sections as in the web
+ * app (resolved from their latest web login). `approve` opens a modal and goes
+ * through the same permission and separation-of-duties checks as approval in
+ * the web app.
+ */
+
+import type { App } from '@slack/bolt'
+import type { KnownBlock } from '@slack/types'
+import { checkAuditReadiness, getAuditReportForPeriod } from '~/db/audit-reports.server'
+import {
+  type DeploymentWithApp,
+  getAppDeploymentStats,
+  getDeploymentById,
+  getPersonalUnapprovedDeployments,
+  getUnapprovedDeployments,
+} from '~/db/deployments.server'
+import { getApplicationsByName, getMonitoredApplicationByIdentity } from '~/db/monitored-applications.server'
+import { getUserMappingBySlackId, getUserMappings, type UserMapping } from '~/db/user-mappings.server'
+import { getAppPermissions } from '~/lib/access-policy.server'
+import { getUserIdentityByNavIdent, type UserIdentity } from '~/lib/auth.server'
+import { isApprovedStatus } from '~/lib/four-eyes-status'
+import { logger } from '~/lib/logger.server'
+import { approveDeploymentManually, checkManualApprover } from '~/lib/manual-approval.server'
+import type { ReportPeriod } from '~/lib/report-periods'
+import { describeSeparationOfDutiesRefusal } from '~/lib/separation-of-duties'
+import {
+  APPROVE_DEPLOYMENT_MODAL_CALLBACK_ID,
+  buildApproveDeploymentModal,
+  buildAppStatusBlocks,
+  buildPendingDeploymentsBlocks,
+  buildReportStatusBlocks,
+  buildSlashCommandHelpBlocks,
+  type ReminderDeployment,
+} from './blocks'
+import { NDA_COMMAND_USAGE, parseNdaCommand } from './slash-command'
+
+/** Number of deployments listed in command replies */
+const LIST_LIMIT = 5
+
+type CommandReply = { blocks: KnownBlock[]; text: string }
+type MonitoredApplication = NonNullable<Awaited<ReturnType<typeof getMonitoredApplicationByIdentity>>>
+
+function getBaseUrl(): string {
+  return process.env.BASE_URL || 'https://nda.ansatt.nav.no'
+}
+
+function getAppUrl(app: { team_slug: string; environment_name: string; app_name: string }): string {
+  return `${getBaseUrl()}/team/${app.team_slug}/env/${app.environment_name}/app/${app.app_name}`
+}
+
+function textReply(text: string): CommandReply {
+  return { blocks: [{ type: 'section', text: { type: 'mrkdwn', text } }], text }
+}
+
+function formatDateTime(date: Date | string): string {
+  return new Date(date).toLocaleString('no-NO', { dateStyle: 'medium', timeStyle: 'short' })
+}
+
+/**
+ * Map deployments to list entries, with deployer display names from user mappings.
+ */
+async function toReminderDeployments(
+  deployments: Array<
+    Pick<DeploymentWithApp, 'id' | 'commit_sha' | 'deployer_username' | 'four_eyes_status' | 'created_at'> & {
+      title?: string | null
+      team_slug: string
+      environment_name: string
+      app_name: string
+    }
+  >,
+): Promise<ReminderDeployment[]> {
+  const usernames = [...new Set(deployments.map((d) => d.deployer_username).filter((u): u is string => !!u))]
+  const mappings = await getUserMappings(usernames)
+  return deployments.map((d) => ({
+    id: d.id,
+    commitSha: d.commit_sha || '',
+    commitMessage: d.title || undefined,
+    deployerName:
+      (d.deployer_username && mappings.get(d.deployer_username)?.display_name) || d.deployer_username || 'Ukjent',
+    status: d.four_eyes_status,
+    createdAt: formatDateTime(d.created_at),
+    detailsUrl: `${getAppUrl(d)}/deployments/${d.id}`,
+  }))
+}
+
+function noAccessReply(app: { team_slug: string; environment_name: string; app_name: string }): CommandReply {
+  return textReply(
+    `Du har ikke tilgang til \`${app.team_slug}/${app.environment_name}/${app.app_name}\`. Den tilhører en annen seksjon.`,
+  )
+}
+
+async function replyStatus(
+  user: UserIdentity,
+  teamSlug: string,
+  environmentName: string,
+  appName: string,
+): Promise<CommandReply> {
+  const app = await getMonitoredApplicationByIdentity(teamSlug, environmentName, appName)
+  if (!app?.is_active) {
+    return textReply(`Fant ingen overvåket applikasjon \`${teamSlug}/${environmentName}/${appName}\`.`)
+  }
+  if (!(await getAppPermissions(user, app.id)).canView) {
+    return noAccessReply(app)
+  }
+
+  const [stats, unapproved] = await Promise.all([
+    getAppDeploymentStats(app.id, undefined, undefined, app.audit_start_year),
+    getUnapprovedDeployments(app.id),
+  ])
+
+  return {
+    blocks: buildAppStatusBlocks({
+      appName: app.app_name,
+      environmentName: app.environment_name,
+      teamSlug: app.team_slug,
+      total: stats.total,
+      withFourEyes: stats.with_four_eyes,
+      withoutFourEyes: stats.without_four_eyes,
+      pendingVerification: stats.pending_verification,
+      fourEyesPercentage: stats.four_eyes_percentage,
+      lastDeploymentAt: stats.last_deployment ? formatDateTime(stats.last_deployment) : undefined,
+      unapproved: await toReminderDeployments(unapproved.slice(0, LIST_LIMIT)),
+      appUrl: getAppUrl(app),
+    }),
+    text: `Status for ${app.app_name} (${app.environment_name})`,
+  }
+}
+
+async function replyPending(mapping: UserMapping): Promise<CommandReply> {
+  const { deployments, total } = await getPersonalUnapprovedDeployments(mapping.github_username, LIST_LIMIT)
+  const entries = await toReminderDeployments(deployments)
+
+  return {
+    blocks: buildPendingDeploymentsBlocks({
+      deployments: entries.map((entry, i) => ({
+        ...entry,
+        appName: deployments[i].app_name,
+        environmentName: deployments[i].environment_name,
+      })),
+      total,
+    }),
+    text: `${total} av dine deployments mangler godkjenning`,
+  }
+}
+
+/**
+ * Resolve the app for `/nda report`: either `<team>/<env>/<app>` or an app
+ * name that is unique among active monitored applications.
+ */
+async function resolveReportApp(identifier: string): Promise<MonitoredApplication | CommandReply> {
+  const parts = identifier.split('/')
+  if (parts.length === 3) {
+    const app = await getMonitoredApplicationByIdentity(parts[0], parts[1], parts[2])
+    return app?.is_active ? app : textReply(`Fant ingen overvåket applikasjon \`${identifier}\`.`)
+  }
+
+  const apps = await getApplicationsByName(identifier)
+  if (apps.length === 1) return apps[0]
+  if (apps.length === 0) return textReply(`Fant ingen overvåket applikasjon med navnet \`${identifier}\`.`)
+  return textReply(
+    `Flere applikasjoner heter \`${identifier}\`. Angi en av dem som \`<team>/<miljø>/<app>\`:\n${apps
+      .map((app) => `• \`${app.team_slug}/${app.environment_name}/${app.app_name}\``)
+      .join('\n')}`,
+  )
+}
+
+async function replyReport(user: UserIdentity, identifier: string, period: ReportPeriod): Promise<CommandReply> {
+  const resolved = await resolveReportApp(identifier)
+  if ('blocks' in resolved) return resolved
+  const app = resolved
+  if (!(await getAppPermissions(user, app.id)).canView) {
+    return noAccessReply(app)
+  }
+
+  const [readiness, report] = await Promise.all([
+    checkAuditReadiness(app.id, period.startDate, period.endDate),
+    getAuditReportForPeriod(app.id, period.type, period.startDate),
+  ])
+
+  const appUrl = getAppUrl(app)
+  const pendingDeployments = await toReminderDeployments(
+    readiness.pending_deployments
+      .slice(0, LIST_LIMIT)
+      .map((d) => ({ ...d, team_slug: app.team_slug, environment_name: app.environment_name, app_name: app.app_name })),
+  )
+
+  return {
+    blocks: buildReportStatusBlocks({
+      appName: app.app_name,
+      environmentName: app.environment_name,
+      teamSlug: app.team_slug,
+      periodLabel: period.label,
+      report: report
+        ? {
+            reportId: report.report_id,
+            generatedAt: formatDateTime(report.generated_at),
+            url: `${getBaseUrl()}/admin/audit-reports/${report.id}/view`,
+          }
+        : null,
+      totalDeployments: readiness.total_deployments,
+      pendingCount: readiness.pending_count,
+      pendingDeployments,
+      adminUrl: `${appUrl}/admin`,
+    }),
+    text: `Leveranserapport ${period.label} for ${app.app_name} (${app.environment_name})`,
+  }
+}
+
+/**
+ * Validate an approval request before opening the modal, so the user learns
+ * right away if they cannot approve. Returns an error reply or the deployment.
+ */
+async function prepareApproval(
+  deploymentId: number,
+  user: UserIdentity,
+  approver: UserMapping,
+): Promise<{ deployment: DeploymentWithApp } | CommandReply> {
+  const deployment = await getDeploymentById(deploymentId)
+  if (!deployment) {
+    return textReply(`Fant ingen deployment med ID ${deploymentId}.`)
+  }
+  if (!(await getAppPermissions(user, deployment.monitored_app_id)).canAdminister) {
+    return textReply('Du må være admin i seksjonen som eier applikasjonen for å godkjenne deployments.')
+  }
+  if (isApprovedStatus(deployment.four_eyes_status)) {
+    return textReply(`Deployment #${deploymentId} er allerede godkjent.`)
+  }
+
+  const check = await checkManualApprover(deployment, approver)
+  if (!check.allowed) {
+    return textReply(describeSeparationOfDutiesRefusal(check))
+  }
+  return { deployment }
+}
+
+/**
+ * Register the `/nda` command and the approval modal
+ */
+export function registerCommandHandlers(app: App): void {
+  app.command('/nda', async ({ ack, command, respond, client }) => {
+    await ack()
+
+    try {
+      const parsed = parseNdaCommand(command.text)
+      if (parsed.type === 'help' || parsed.type === 'invalid') {
+        const message = parsed.type === 'invalid' ? parsed.message : undefined
+        await respond({
+          response_type: 'ephemeral',
+          blocks: buildSlashCommandHelpBlocks(NDA_COMMAND_USAGE, message),
+          text: message ?? 'Kommandoer for /nda',
+        })
+        return
+      }
+
+      const mapping = await getUserMappingBySlackId(command.user_id)
+      if (!mapping?.nav_ident) {
+        await respond({
+          response_type: 'ephemeral',
+          ...textReply(
+            'Slack-brukeren din er ikke koblet til en NAV-ident i NDA. Be en administrator legge deg til under Admin → Brukere.',
+          ),
+        })
+        return
+      }
+
+      const user = await getUserIdentityByNavIdent(mapping.nav_ident, mapping.display_name ?? undefined)
+      if (!user) {
+        await respond({
+          response_type: 'ephemeral',
+          ...textReply('Logg inn i NDA én gang først, så vi kan slå opp tilgangene dine.'),
+        })
+        return
+      }
+
+      logger.info(`Slack: /nda ${parsed.type} from ${command.user_id}`)
+
+      let reply: CommandReply
+      switch (parsed.type) {
+        case 'status':
+          reply = await replyStatus(user, parsed.teamSlug, parsed.environmentName, parsed.appName)
+          break
+        case 'pending':
+          reply = await replyPending(mapping)
+          break
+        case 'report':
+          reply = await replyReport(user, parsed.app, parsed.period)
+          break
+        case 'approve': {
+          const prepared = await prepareApproval(parsed.deploymentId, user, mapping)
+          if (!('deployment' in prepared)) {
+            reply = prepared
+            break
+          }
+          await client.views.open({
+            trigger_id: command.trigger_id,
+            view: buildApproveDeploymentModal({
+              deploymentId: prepared.deployment.id,
+              appName: prepared.deployment.app_name,
+              environmentName: prepared.deployment.environment_name,
+              commitSha: prepared.deployment.commit_sha || '',
+              title: prepared.deployment.title || undefined,
+              slackLink: parsed.slackLink,
+              channelId: command.channel_id,
+            }),
+          })
+          return
+        }
+      }
+
+      await respond({ response_type: 'ephemeral', ...reply })
+    } catch (error) {
+      logger.error('Error handling /nda command:', error)
+      await respond({ response_type: 'ephemeral', ...textReply('Noe gikk galt. Prøv igjen senere.') })
+    }
+  })
+
+  app.view(APPROVE_DEPLOYMENT_MODAL_CALLBACK_ID, async ({ ack, body, view, client }) => {
+    const { deploymentId, channelId } = JSON.parse(view.private_metadata) as { deploymentId: number; channelId: string }
+    const slackLink = view.state.values.slack_link?.value?.value?.trim() || ''
+    const reason = view.state.values.reason?.value?.value?.trim() || undefined
+    const userId = body.user.id
+
+    let result: Awaited<ReturnType<typeof approveDeploymentManually>>
+    try {
+      const [deployment, approver] = await Promise.all([
+        getDeploymentById(deploymentId),
+        getUserMappingBySlackId(userId),
+      ])
+      result = deployment
+        ? await approveDeploymentManually({
+            deployment,
+            actor: { navIdent: approver?.nav_ident ?? `slack:${userId}`, name: approver?.display_name ?? undefined },
+            approver,
+            source: 'slack',
+            reason,
+            slackLink,
+          })
+        : { success: false, error: `Fant ingen deployment med ID ${deploymentId}.` }
+    } catch (error) {
+      logger.error('Error handling approve modal submission:', error)
+      result = { success: false, error: 'Kunne ikke godkjenne deployment' }
+    }
+
+    // Refusals are shown in the modal so the user can see why
+    if (!result.success) {
+      await ack({ response_action: 'errors', errors: { reason: result.error } })
+      return
+    }
+    await ack()
+
+    logger.info(`Slack: Deployment ${deploymentId} approved by ${userId} via /nda approve`)
+    try {
+      await client.chat.postEphemeral({
+        channel: channelId,
+        user: userId,
+        text: `✅ Deployment #${deploymentId} er manuelt godkjent.`,
+      })
+    } catch (error) {
+      logger.error('Failed to send approval confirmation:', error)
+    }
+  })
+
+  logger.info('[Slack] Command handlers registered (/nda)')
+}
@@ -1,5 +1,6 @@
 export * from './block-kit-url'
 export * from './blocks'
+export * from './slash-command'
 // NOTE: Do NOT re-export `./client.server` from this barrel. `client.server.ts`
 // pulls in `@slack/bolt`, `pg`, `node:async_hooks` and other server-only deps;
 // re-exporting it here would drag the entire server graph into any client bundle
@@ -0,0 +1,86 @@
+/**
+ * Parsing of the `/nda` Slack slash command
+ *
+ * Pure functions so the command grammar can be tested without Slack.
+ * The handler lives in client.server.ts.
+ */
+
+import { parseReportPeriod, type ReportPeriod } from '~/lib/report-periods'
+
+export type NdaCommand =
+  | { type: 'help' }
+  | { type: 'status'; teamSlug: string; environmentName: string; appName: string }
+  | { type: 'pending' }
+  | { type: 'approve'; deploymentId: number; slackLink: string }
+  | { type: 'report'; app: string; period: ReportPeriod }
+  | { type: 'invalid'; message: string }
+
+export const NDA_COMMAND_USAGE = [
+  '`/nda status <team>/<miljø>/<app>` – status for en applikasjon',
+  '`/nda pending` – dine deployments som mangler godkjenning',
+  '`/nda approve <deployment-id> <slack-lenke>` – godkjenn en deployment manuelt',
+  '`/nda report <app> <periode>` – status for leveranserapport, f.eks. `/nda report min-app Q1-2025`',
+]
+
+/**
+ * Strip Slack's link formatting (`<https://…>` or `<https://…|label>`).
+ */
+function unwrapSlackLink(value: string): string {
+  const match = /^<([^|>]+)(?:\|[^>]*)?>$/.exec(value)
+  return match ? match[1] : value
+}
+
+/**
+ * Parse the text after `/nda` into a command.
+ */
+export function parseNdaCommand(text: string): NdaCommand {
+  const [subcommand, ...args] = text.trim().split(/\s+/).filter(Boolean)
+
+  switch (subcommand?.toLowerCase()) {
+    case undefined:
+    case 'help':
+      return { type: 'help' }
+
+    case 'status': {
+      const parts = args[0]?.split('/') ?? []
+      if (args.length !== 1 || parts.length !== 3 || parts.some((part) => !part)) {
+        return { type: 'invalid', message: 'Bruk: `/nda status <team>/<miljø>/<app>`' }
+      }
+      const [teamSlug, environmentName, appName] = parts
+      return { type: 'status', teamSlug, environmentName, appName }
+    }
+
+    case 'pending':
+      return { type: 'pending' }
+
+    case 'approve': {
+      const deploymentId = Number(args[0])
+      const slackLink = args[1] ? unwrapSlackLink(args[1]) : ''
+      if (args.length !== 2 || !Number.isInteger(deploymentId) || deploymentId <= 0) {
+        return { type: 'invalid', message: 'Bruk: `/nda approve <deployment-id> <slack-lenke>`' }
+      }
+      if (!/^https:\/\/[^\s]+\.slack\.com\//.test(slackLink)) {
+        return {
+          type: 'invalid',
+          message: 'Slack-lenken må være en lenke til en Slack-melding (https://….slack.com/…)',
+        }
+      }
+      return { type: 'approve', deploymentId, slackLink }
+    }
+
+    case 'report': {
+      const period = args.length >= 2 ? parseReportPeriod(args.slice(1).join(' ')) : null
+      if (!period) {
+        return {
+          type: 'invalid',
+          message:
+            'Bruk: `/nda report <app> <periode>`, der periode er f.eks. `2025`, `T1-2025`, `Q1-2025` eller `2025-03`',
+        }
+      }
+      return { type: 'report', app: args[0], period }
+    }
+
+    default:
+      return { type: 'invalid', message: `Ukjent kommando \`${subcommand}\`. Skriv \`/nda help\` for hjelp.` }
+  }
+}
@@ -108,6 +108,7 @@ export function formatChangeSource(source: string): string {
     sync: 'Synkronisering',
     legacy: 'Legacy',
     baseline_approval: 'Baseline godkjent',
+    group_propagation: 'Applikasjonsgruppe',
     unknown: 'Ukjent',
   }
   return labels[source] || source
@@ -1,5 +1,5 @@
 import { describe, expect, it } from 'vitest'
-import { parseRepository } from '../repo-parser'
+import { parseRepository, parseWorkflowRunUrl } from '../repo-parser'
 
 describe('parseRepository', () => {
   describe('owner/repo format (used by syncDeploymentsFromNais)', () => {
@@ -70,3 +70,25 @@ describe('parseRepository', () => {
     })
   })
 })
+
+describe('parseWorkflowRunUrl', () => {
+  it('parses a workflow run URL', () => {
+    expect(parseWorkflowRunUrl('https://github.com/navikt/pensjon-pen/actions/runs/123456789')).toEqual({
+      owner: 'navikt',
+      repo: 'pensjon-pen',
+      runId: 123456789,
+    })
+  })
+
+  it('ignores attempt suffix and query string', () => {
+    expect(parseWorkflowRunUrl('https://github.com/navikt/pensjon-pen/actions/runs/42/attempts/2')?.runId).toBe(42)
+    expect(parseWorkflowRunUrl('https://github.com/navikt/pensjon-pen/actions/runs/42?pr=1')?.runId).toBe(42)
+  })
+
+  it('returns null for URLs that are not workflow runs', () => {
+    expect(parseWorkflowRunUrl('https://github.com/navikt/pensjon-pen/commit/abc123')).toBeNull()
+    expect(parseWorkflowRunUrl('https://github.com/navikt/pensjon-pen/actions/runs/42abc')).toBeNull()
+    expect(parseWorkflowRunUrl('https://example.com/navikt/pensjon-pen/actions/runs/42')).toBeNull()
+    expect(parseWorkflowRunUrl(null)).toBeNull()
+  })
+})
@@ -0,0 +1,156 @@
+import { autoResolveRepositoryAlert, getUnresolvedAlertsByApp, hasRepositoryAlert } from '~/db/alerts.server'
+import { getRepositoriesByAppId } from '~/db/application-repositories.server'
+import {
+  getLatestProtectedBranchProtectionSnapshot,
+  recordBranchProtectionSnapshot,
+  snapshotToSettings,
+} from '~/db/branch-protection.server'
+import { getLatestSyncJob } from '~/db/sync-jobs.server'
+import {
+  type BranchProtectionSettings,
+  describeBranchProtectionWeakening,
+  findBranchProtectionWeakenings,
+} from '~/lib/branch-protection'
+import { getBranchProtectionSettings } from '~/lib/github'
+import { logger } from '~/lib/logger.server'
+import { raiseRepositoryAlert } from '~/lib/repository-alerts.server'
+import { withSyncLock } from './with-sync-lock.server'
+
+/** Branch protection changes rarely, so it is snapshotted less often than the sync cycle */
+const BRANCH_PROTECTION_SNAPSHOT_INTERVAL_MS = 60 * 60 * 1000 // 1 hour
+
+const RESTORED_NOTE = 'Løst automatisk: branch-beskyttelsen er gjenopprettet'
+
+/**
+ * Snapshot the branch protection of each active repository of an app, raise
+ * an alert when settings were weakened since the previous snapshot and
+ * resolve weakening alerts once the earlier settings are back in effect.
+ *
+ * Removing protection altogether raises branch_protection_disabled (the same
+ * alert the repository alert sync raises) rather than a weakening, and once
+ * protection is restored it is compared with the last protected snapshot.
+ *
+ * Repositories whose settings cannot be read are skipped.
+ */
+export async function snapshotBranchProtectionForApp(
+  monitoredAppId: number,
+): Promise<{ checked: number; changed: number; alertsCreated: number; alertsResolved: number }> {
+  let checked = 0
+  let changed = 0
+  let alertsCreated = 0
+  let alertsResolved = 0
+
+  const activeRepos = (await getRepositoriesByAppId(monitoredAppId)).filter((r) => r.status === 'active')
+  const openAlerts = (await getUnresolvedAlertsByApp(monitoredAppId)).filter(
+    (a) => a.alert_type === 'branch_protection_weakened',
+  )
+
+  for (const repo of activeRepos) {
+    const fullName = `${repo.github_owner}/${repo.github_repo_name}`
+    const protection = await getBranchProtectionSettings(repo.github_owner, repo.github_repo_name)
+    if (!protection) continue
+    checked++
+
+    const { snapshot, previous } = await recordBranchProtectionSnapshot({
+      monitoredAppId,
+      applicationRepositoryId: repo.id,
+      owner: repo.github_owner,
+      repo: repo.github_repo_name,
+      branch: protection.branch,
+      settings: protection.settings,
+    })
+
+    if (previous && protection.settings.sources.length === 0) {
+      changed++
+      logger.warn(`🚨 Branch protection removed for ${fullName} (${protection.branch})`)
+      if (
+        !(await hasRepositoryAlert(monitoredAppId, 'branch_protection_disabled')) &&
+        (await raiseRepositoryAlert({
+          monitoredApplicationId: monitoredAppId,
+          detectedGithubOwner: repo.github_owner,
+          detectedGithubRepoName: repo.github_repo_name,
+          alertType: 'branch_protection_disabled',
+          details: { branch: protection.branch },
+        }))
+      ) {
+        alertsCreated++
+      }
+    } else if (previous) {
+      changed++
+      const baseline =
+        previous.sources.length > 0 ? previous : await getLatestProtectedBranchProtectionSnapshot(repo.id, snapshot.id)
+      const weakenings = baseline
+        ? findBranchProtectionWeakenings(snapshotToSettings(baseline), protection.settings)
+        : []
+      if (baseline && weakenings.length > 0) {
+        logger.warn(`🚨 Branch protection weakened for ${fullName}: ${weakenings.map((w) => w.setting).join(', ')}`)
+        if (
+          await raiseRepositoryAlert({
+            monitoredApplicationId: monitoredAppId,
+            detectedGithubOwner: repo.github_owner,
+            detectedGithubRepoName: repo.github_repo_name,
+            alertType: 'branch_protection_weakened',
+            details: {
+              branch: protection.branch,
+              weakenings: weakenings.map(describeBranchProtectionWeakening),
+              previous: snapshotToSettings(baseline),
+              snapshotId: snapshot.id,
+            },
+          })
+        ) {
+          alertsCreated++
+        }
+      }
+    }
+
+    for (const alert of openAlerts) {
+      if (
+        `${alert.expected_github_owner}/${alert.expected_github_repo_name}`.toLowerCase() !== fullName.toLowerCase()
+      ) {
+        continue
+      }
+      const baseline = alert.details?.previous as BranchProtectionSettings | undefined
+      if (
+        baseline &&
+        findBranchProtectionWeakenings(baseline, protection.settings).length === 0 &&
+        (await autoResolveRepositoryAlert(alert.id, RESTORED_NOTE))
+      ) {
+        logger.info(`✅ Auto-resolved branch_protection_weakened alert #${alert.id} for ${fullName}`)
+        alertsResolved++
+      }
+    }
+  }
+
+  return { checked, changed, alertsCreated, alertsResolved }
+}
+
+/**
+ * Snapshot branch protection with distributed locking, at most once per
+ * BRANCH_PROTECTION_SNAPSHOT_INTERVAL_MS per app.
+ * Returns null when the app was snapshotted recently.
+ */
+export async function snapshotBranchProtectionWithLock(monitoredAppId: number) {
+  const latest = await getLatestSyncJob(monitoredAppId, 'branch_protection_snapshot')
+  if (
+    latest?.started_at &&
+    Date.now() - new Date(latest.started_at).getTime() < BRANCH_PROTECTION_SNAPSHOT_INTERVAL_MS
+  ) {
+    return null
+  }
+
+  return withSyncLock(
+    'branch_protection_snapshot',
+    monitoredAppId,
+    {
+      startMessage: 'Starter snapshot av branch-beskyttelse',
+      resultMessage: 'Snapshot av branch-beskyttelse fullført',
+      buildResultContext: (r) => ({
+        checked: r.checked,
+        changed: r.changed,
+        alertsCreated: r.alertsCreated,
+        alertsResolved: r.alertsResolved,
+      }),
+    },
+    () => snapshotBranchProtectionForApp(monitoredAppId),
+  )
+}
@@ -0,0 +1,126 @@
+import { getRepositoriesByAppId } from '~/db/application-repositories.server'
+import { getLatestDeploymentImageForApp, saveDeploymentImageAttestation } from '~/db/deployments.server'
+import { resolveImageDigest } from '~/lib/container-registry.server'
+import { getAttestationBundles } from '~/lib/github'
+import {
+  buildImageReference,
+  evaluateImageAttestation,
+  getImageAttestationAlertType,
+  isFinalImageAttestationStatus,
+  type ProvenanceSource,
+  parseProvenanceSource,
+} from '~/lib/image-attestation'
+import { logger } from '~/lib/logger.server'
+import { fetchApplicationImage } from '~/lib/nais.server'
+import { raiseRepositoryAlert } from '~/lib/repository-alerts.server'
+import { verifyAttestationBundle } from '~/lib/sigstore.server'
+
+/**
+ * Check that the image an application runs was built from its latest
+ * deployment's commit in the app's active repository.
+ *
+ * Nais only reports the image currently running, so the image is attributed
+ * to the latest deployment. Only attestations whose Sigstore bundle verifies
+ * are trusted. Each image is checked once per deployment; a failed digest,
+ * GitHub or trust root lookup is retried on the next sync.
+ *
+ * Returns the number of alerts created (0 or 1).
+ */
+export async function syncImageAttestationForApp(params: {
+  monitoredAppId: number
+  teamSlug: string
+  environmentName: string
+  appName: string
+}): Promise<number> {
+  const { monitoredAppId, teamSlug, environmentName, appName } = params
+
+  const deployment = await getLatestDeploymentImageForApp(monitoredAppId)
+  if (!deployment?.commit_sha) return 0
+
+  const image = await fetchApplicationImage(teamSlug, environmentName, appName)
+  if (!image) return 0
+
+  const imageRef = buildImageReference(image.name, image.tag)
+  if (deployment.image_ref === imageRef && isFinalImageAttestationStatus(deployment.image_attestation_status)) return 0
+
+  const activeRepo = (await getRepositoriesByAppId(monitoredAppId)).find((r) => r.status === 'active')
+  if (!activeRepo) return 0
+
+  const expected: ProvenanceSource = {
+    repository: `${activeRepo.github_owner}/${activeRepo.github_repo_name}`,
+    commitSha: deployment.commit_sha,
+  }
+
+  const imageDigest = await resolveImageDigest(imageRef)
+  if (!imageDigest) {
+    await saveDeploymentImageAttestation(deployment.id, {
+      imageRef,
+      imageDigest: null,
+      status: 'digest_unavailable',
+      attestedRepository: null,
+      attestedCommitSha: null,
+    })
+    return 0
+  }
+
+  const sources: ProvenanceSource[] = []
+  try {
+    const bundles = await getAttestationBundles(activeRepo.github_owner, activeRepo.github_repo_name, imageDigest)
+    for (const bundle of bundles) {
+      const source = parseProvenanceSource(bundle, imageDigest)
+      // The statement must be signed by a workflow in the repository it names as source
+      if (source && (await verifyAttestationBundle(bundle, source.repository))) {
+        sources.push(source)
+      } else if (source) {
+        logger.warn(`⚠️ Ignoring attestation for ${imageRef} that does not verify (source ${source.repository})`)
+      }
+    }
+  } catch (error) {
+    logger.warn(`⚠️ Failed to fetch attestations for ${imageRef}:`, error as Record<string, unknown>)
+    await saveDeploymentImageAttestation(deployment.id, {
+      imageRef,
+      imageDigest,
+      status: null,
+      attestedRepository: null,
+      attestedCommitSha: null,
+    })
+    return 0
+  }
+
+  const { status, attested } = evaluateImageAttestation(sources, expected)
+
+  await saveDeploymentImageAttestation(deployment.id, {
+    imageRef,
+    imageDigest,
+    status,
+    attestedRepository: attested?.repository ?? null,
+    attestedCommitSha: attested?.commitSha ?? null,
+  })
+
+  const alertType = getImageAttestationAlertType(status)
+  if (!alertType) {
+    logger.info(`🔏 Image for ${appName} is ${status}: ${imageRef}`)
+    return 0
+  }
+
+  logger.warn(
+    `🚨 Image for ${appName} is ${status}: ${imageRef} (expected ${expected.repository}@${expected.commitSha})`,
+  )
+  const [detectedOwner, detectedRepoName] = (attested?.repository ?? expected.repository).split('/')
+  const created = await raiseRepositoryAlert({
+    monitoredApplicationId: monitoredAppId,
+    deploymentNaisId: deployment.nais_deployment_id,
+    detectedGithubOwner: detectedOwner,
+    detectedGithubRepoName: detectedRepoName,
+    expectedGithubOwner: activeRepo.github_owner,
+    expectedGithubRepoName: activeRepo.github_repo_name,
+    alertType,
+    details: {
+      imageRef,
+      imageDigest,
+      expectedCommitSha: expected.commitSha,
+      attestedCommitSha: attested?.commitSha ?? null,
+    },
+  })
+  return created ? 1 : 0
+}
@@ -1,4 +1,3 @@
-import { createRepositoryAlert } from '~/db/alerts.server'
 import {
   findRepositoryForApp,
   getRepositoriesByAppId,
@@ -13,7 +12,9 @@ import {
 import { getMonitoredApplicationById, getMonitoredApplicationByIdentity } from '~/db/monitored-applications.server'
 import { logger } from '~/lib/logger.server'
 import { fetchApplicationDeployments, fetchNewDeployments } from '~/lib/nais.server'
+import { raiseRepositoryAlert } from '~/lib/repository-alerts.server'
 import { syncDefaultBranchForApp } from './default-branch-sync.server'
+import { syncImageAttestationForApp } from './image-attestation-sync.server'
 
 /**
  * Step 1: Sync deployments from Nais API to database
@@ -140,7 +141,7 @@ async function syncDeploymentsFromNais(
         })
 
         // Create alert
-        await createRepositoryAlert({
+        await raiseRepositoryAlert({
           monitoredApplicationId: monitoredApp.id,
           deploymentNaisId: naisDep.id,
           detectedGithubOwner: detectedOwner,
@@ -154,7 +155,7 @@ async function syncDeploymentsFromNais(
       // Repository exists but pending approval
       logger.warn(`⏸️  Deployment from pending approval repository: ${detectedOwner}/${detectedRepoName}`)
 
-      await createRepositoryAlert({
+      await raiseRepositoryAlert({
         monitoredApplicationId: monitoredApp.id,
         deploymentNaisId: naisDep.id,
         detectedGithubOwner: detectedOwner,
@@ -170,7 +171,7 @@ async function syncDeploymentsFromNais(
       // Get active repo for context
       const activeRepo = (await getRepositoriesByAppId(monitoredApp.id)).find((r) => r.status === 'active')
 
-      await createRepositoryAlert({
+      await raiseRepositoryAlert({
         monitoredApplicationId: monitoredApp.id,
         deploymentNaisId: naisDep.id,
         detectedGithubOwner: detectedOwner,
@@ -193,6 +194,7 @@ async function syncDeploymentsFromNais(
   })
 
   await runDefaultBranchSync(monitoredApp.id)
+  alertsCreated += await runImageAttestationSync(monitoredApp.id, teamSlug, environmentName, appName)
 
   return {
     newCount,
@@ -256,7 +258,7 @@ export async function syncNewDeploymentsFromNais(
   logger.info(`📦 Processing ${deployments.length} new deployments`)
 
   let newCount = 0
-  const alertsCreated = 0
+  let alertsCreated = 0
   let detectedRepository: { owner: string; repo: string } | null = null
 
   for (const deployment of deployments) {
@@ -322,9 +324,10 @@ export async function syncNewDeploymentsFromNais(
     }
   }
 
-  logger.info(`✅ Incremental sync complete: ${newCount} new, ${alertsCreated} alerts`)
-
   await runDefaultBranchSync(monitoredAppId)
+  alertsCreated += await runImageAttestationSync(monitoredAppId, teamSlug, environmentName, appName)
+
+  logger.info(`✅ Incremental sync complete: ${newCount} new, ${alertsCreated} alerts`)
 
   return { newCount, alertsCreated, stoppedEarly }
 }
@@ -360,3 +363,22 @@ async function runDefaultBranchSync(monitoredAppId: number): Promise<void> {
     logger.warn('⚠️ default_branch sync failed (non-fatal):', error as Record<string, unknown>)
   }
 }
+
+/**
+ * Check the build provenance of the image the app runs.
+ *
+ * Best-effort: failures are logged but don't break the calling sync.
+ */
+async function runImageAttestationSync(
+  monitoredAppId: number,
+  teamSlug: string,
+  environmentName: string,
+  appName: string,
+): Promise<number> {
+  try {
+    return await syncImageAttestationForApp({ monitoredAppId, teamSlug, environmentName, appName })
+  } catch (error) {
+    logger.warn('⚠️ Image attestation check failed (non-fatal):', error as Record<string, unknown>)
+    return 0
+  }
+}
@@ -21,3 +21,19 @@ export function parseRepository(repository: string | null | undefined): { owner:
 
   return null
 }
+
+/**
+ * Parse a GitHub Actions run URL, as given in Nais' triggerUrl
+ * (e.g., "https://github.com/navikt/pensjon-pen/actions/runs/123456789/attempts/1").
+ * Returns null for URLs that do not point to a workflow run.
+ */
+export function parseWorkflowRunUrl(
+  triggerUrl: string | null | undefined,
+): { owner: string; repo: string; runId: number } | null {
+  if (!triggerUrl) return null
+
+  const match = triggerUrl.match(/^https:\/\/github\.com\/([^/]+)\/([^/]+)\/actions\/runs\/(\d+)(?:[/?#]|$)/)
+  if (!match) return null
+
+  return { owner: match[1], repo: match[2], runId: Number(match[3]) }
+}
@@ -0,0 +1,107 @@
+import { autoResolveRepositoryAlert, getUnresolvedAlertsByApp, hasRepositoryAlert } from '~/db/alerts.server'
+import { getDeployWorkflowPolicySettings } from '~/db/app-settings.server'
+import { getRepositoriesByAppId } from '~/db/application-repositories.server'
+import { getLatestDeploymentImageForApp, getRecentDeploymentWorkflows } from '~/db/deployments.server'
+import { getRepositoryState } from '~/lib/github'
+import type { ImageAttestationStatus } from '~/lib/image-attestation'
+import { logger } from '~/lib/logger.server'
+import { detectRepositoryConditions, isAlertConditionCleared, type RepositoryAlertType } from '~/lib/repository-alerts'
+import { raiseRepositoryAlert } from '~/lib/repository-alerts.server'
+import { isWorkflowAllowed } from '~/lib/verification/verify'
+
+const AUTO_RESOLUTION_NOTE = 'Løst automatisk: forholdet som utløste varselet finnes ikke lenger'
+
+/**
+ * Raise alerts for the state of an app's active repository (renamed, archived,
+ * unprotected default branch) and for a change of deploy workflow, then
+ * resolve open alerts whose underlying condition has disappeared.
+ *
+ * Runs once per app on every periodic sync. GitHub errors leave the state
+ * unknown, which neither raises nor resolves repository state alerts.
+ */
+export async function syncRepositoryAlertsForApp(
+  monitoredAppId: number,
+): Promise<{ created: number; resolved: number }> {
+  let created = 0
+
+  const activeRepos = (await getRepositoriesByAppId(monitoredAppId)).filter((r) => r.status === 'active')
+  const activeRepo = activeRepos[0]
+
+  let repositoryConditions: RepositoryAlertType[] | null = null
+  if (activeRepo) {
+    const expected = `${activeRepo.github_owner}/${activeRepo.github_repo_name}`
+    const state = await getRepositoryState(activeRepo.github_owner, activeRepo.github_repo_name)
+    if (state) {
+      repositoryConditions = detectRepositoryConditions(expected, state)
+
+      for (const alertType of repositoryConditions) {
+        if (await hasRepositoryAlert(monitoredAppId, alertType)) continue
+
+        const [detectedOwner, detectedRepoName] = state.fullName.split('/')
+        logger.warn(`🚨 ${alertType} for ${expected} (GitHub: ${state.fullName})`)
+        if (
+          await raiseRepositoryAlert({
+            monitoredApplicationId: monitoredAppId,
+            detectedGithubOwner: detectedOwner,
+            detectedGithubRepoName: detectedRepoName,
+            expectedGithubOwner: activeRepo.github_owner,
+            expectedGithubRepoName: activeRepo.github_repo_name,
+            alertType,
+            details: alertType === 'branch_protection_disabled' ? { branch: state.defaultBranch } : undefined,
+          })
+        ) {
+          created++
+        }
+      }
+
+      // An unknown branch state keeps open protection alerts open
+      if (state.defaultBranchProtected === null) repositoryConditions.push('branch_protection_disabled')
+    }
+  }
+
+  const { allowedWorkflows } = await getDeployWorkflowPolicySettings(monitoredAppId)
+  const [latestWorkflow, previousWorkflow] = await getRecentDeploymentWorkflows(monitoredAppId)
+  if (
+    activeRepo &&
+    latestWorkflow &&
+    previousWorkflow &&
+    latestWorkflow.workflow_path !== previousWorkflow.workflow_path &&
+    !isWorkflowAllowed(latestWorkflow.workflow_path, allowedWorkflows) &&
+    !(await hasRepositoryAlert(monitoredAppId, 'workflow_changed', { deploymentId: latestWorkflow.id }))
+  ) {
+    logger.warn(
+      `🚨 Deploy workflow changed for app ${monitoredAppId}: ${previousWorkflow.workflow_path} → ${latestWorkflow.workflow_path}`,
+    )
+    if (
+      await raiseRepositoryAlert({
+        monitoredApplicationId: monitoredAppId,
+        deploymentNaisId: latestWorkflow.nais_deployment_id,
+        detectedGithubOwner: activeRepo.github_owner,
+        detectedGithubRepoName: activeRepo.github_repo_name,
+        alertType: 'workflow_changed',
+        details: { workflowPath: latestWorkflow.workflow_path, previousWorkflowPath: previousWorkflow.workflow_path },
+      })
+    ) {
+      created++
+    }
+  }
+
+  const latestImage = await getLatestDeploymentImageForApp(monitoredAppId)
+  const context = {
+    activeRepositories: activeRepos.map((r) => `${r.github_owner}/${r.github_repo_name}`),
+    repositoryConditions,
+    latestImageAttestationStatus: (latestImage?.image_attestation_status ?? null) as ImageAttestationStatus | null,
+    latestWorkflowPath: latestWorkflow?.workflow_path ?? null,
+    allowedWorkflows,
+  }
+
+  let resolved = 0
+  for (const alert of await getUnresolvedAlertsByApp(monitoredAppId)) {
+    if (isAlertConditionCleared(alert, context) && (await autoResolveRepositoryAlert(alert.id, AUTO_RESOLUTION_NOTE))) {
+      logger.info(`✅ Auto-resolved ${alert.alert_type} alert #${alert.id} for app ${monitoredAppId}`)
+      resolved++
+    }
+  }
+
+  return { created, resolved }
+}
@@ -2,9 +2,11 @@ import { withSyncClient } from '~/db/connection.server'
 import { getAllMonitoredApplications } from '~/db/monitored-applications.server'
 import { cleanupOldSyncJobs, SYNC_INTERVAL_MS } from '~/db/sync-jobs.server'
 import { logger } from '~/lib/logger.server'
+import { snapshotBranchProtectionWithLock } from './branch-protection-sync.server'
 import { verifyDeploymentsFourEyes } from './github-verify.server'
 import { cacheCheckLogsWithLock } from './log-cache-job.server'
 import { syncNewDeploymentsFromNais } from './nais-sync.server'
+import { syncRepositoryAlertsForApp } from './repository-alert-sync.server'
 import { withSyncLock } from './with-sync-lock.server'
 
 let periodicSyncInterval: ReturnType<typeof setInterval> | null = null
@@ -96,6 +98,7 @@ async function runPeriodicSync(): Promise<void> {
       let verifiedCount = 0
       let cachedLogsCount = 0
       let lockedCount = 0
+      let alertsResolvedCount = 0
 
       for (const app of apps) {
         // Try incremental Nais sync (only fetches new deployments)
@@ -122,6 +125,12 @@ async function runPeriodicSync(): Promise<void> {
           cachedLogsCount += cacheResult.result.cached
         }
 
+        // Raise repository alerts and resolve those whose condition has disappeared
+        alertsResolvedCount += await runRepositoryAlertSync(app.id)
+
+        // Snapshot branch protection (throttled to once an hour per app)
+        alertsResolvedCount += await runBranchProtectionSnapshot(app.id)
+
         // Small delay between apps to be nice to APIs
         await new Promise((resolve) => setTimeout(resolve, 1000))
       }
@@ -145,7 +154,7 @@ async function runPeriodicSync(): Promise<void> {
       }
 
       logger.info(
-        `✅ Periodic sync complete: synced ${syncedCount} apps (${newDeploymentsCount} new deployments), verified ${verifiedCount} deployments, cached ${cachedLogsCount} logs, ${lockedCount} locked`,
+        `✅ Periodic sync complete: synced ${syncedCount} apps (${newDeploymentsCount} new deployments), verified ${verifiedCount} deployments, cached ${cachedLogsCount} logs, auto-resolved ${alertsResolvedCount} alerts, ${lockedCount} locked`,
       )
     })
 
@@ -159,6 +168,32 @@ async function runPeriodicSync(): Promise<void> {
   }
 }
 
+/**
+ * Repository alert sync is best-effort. Returns the number of alerts auto-resolved.
+ */
+async function runRepositoryAlertSync(monitoredAppId: number): Promise<number> {
+  try {
+    const { resolved } = await syncRepositoryAlertsForApp(monitoredAppId)
+    return resolved
+  } catch (error) {
+    logger.warn('⚠️ Repository alert sync failed (non-fatal):', error as Record<string, unknown>)
+    return 0
+  }
+}
+
+/**
+ * Branch protection snapshots are best-effort. Returns the number of alerts auto-resolved.
+ */
+async function runBranchProtectionSnapshot(monitoredAppId: number): Promise<number> {
+  try {
+    const snapshotResult = await snapshotBranchProtectionWithLock(monitoredAppId)
+    return snapshotResult?.result?.alertsResolved ?? 0
+  } catch (error) {
+    logger.warn('⚠️ Branch protection snapshot failed (non-fatal):', error as Record<string, unknown>)
+    return 0
+  }
+}
+
 /**
  * Start the periodic sync scheduler.
  */
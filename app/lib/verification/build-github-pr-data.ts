@@ -6,6 +6,7 @@
  */
 import type { GitHubPRData } from '~/db/deployments.server'
 import type { PrChecks, PrComment, PrCommit, PrMetadata, PrReview } from './types'
+import { getFinalReviewStates } from './verify'
 
 export function buildGithubPrDataFromSnapshots(
   metadata: PrMetadata,
@@ -54,7 +55,7 @@ export function buildGithubPrDataFromSnapshots(
     requested_teams: (metadata.requestedTeams ?? []).map((t) => ({ name: t.name, slug: t.slug })),
     milestone: metadata.milestone ?? null,
     checks_passed: metadata.checksPassed ?? (checks ? checks.conclusion === 'success' : null),
-    reviewers: (reviews ?? []).map((r) => ({
+    reviewers: getFinalReviewStates(reviews ?? []).map((r) => ({
       username: r.username,
       avatar_url: '',
       state: r.state,
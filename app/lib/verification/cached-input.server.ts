@@ -0,0 +1,120 @@
+/**
+ * Cached Verification Input
+ *
+ * Builds a VerificationInput from stored snapshots only, without fetching
+ * compare or PR data from GitHub. Used by reverification and policy simulation,
+ * which both re-run the verifier over data that was collected earlier.
+ */
+
+import { getDeploymentWorkflowRun } from '~/db/deployments.server'
+import {
+  getCompareSnapshotForCommit,
+  getPreviousDeploymentForDiff,
+  getPrSnapshotsForDiff,
+} from '~/db/verification-diff.server'
+import {
+  buildCommitsBetweenFromCache,
+  resolveApprovalPolicy,
+  resolveCoAuthorMappings,
+  resolveCodeownersPolicy,
+} from './fetch-data.server'
+import type {
+  ApprovalPolicySettings,
+  CodeownersPolicySettings,
+  CompareData,
+  DeployWorkflowPolicySettings,
+  ImplicitApprovalSettings,
+  PrCommit,
+  PrMetadata,
+  PrReview,
+  VerificationInput,
+} from './types'
+
+export interface CachedInputDeployment {
+  id: number
+  commit_sha: string
+  github_pr_number: number | null
+  environment_name: string
+  detected_github_owner: string
+  detected_github_repo_name: string
+  default_branch: string | null
+  audit_start_year: number | null
+}
+
+export interface VerificationPolicySettings {
+  implicitApprovalSettings: ImplicitApprovalSettings | null
+  approvalPolicySettings: ApprovalPolicySettings | null
+  deployWorkflowPolicy?: DeployWorkflowPolicySettings | null
+  codeownersPolicy?: CodeownersPolicySettings | null
+}
+
+/**
+ * Build the verifier input for a deployment from cached snapshots.
+ * Returns null when the compare snapshot for the commit is missing.
+ *
+ * Team membership for required teams is resolved through the in-memory
+ * GitHub team cache. The workflow run is the one stored on the deployment
+ * during sync; it is never looked up here. PRs without stored changed files
+ * or CODEOWNERS are not checked against the CODEOWNERS policy.
+ */
+export async function buildVerificationInputFromCache(
+  dep: CachedInputDeployment,
+  policy: VerificationPolicySettings,
+): Promise<VerificationInput | null> {
+  const compareSnapshot = await getCompareSnapshotForCommit(dep.commit_sha)
+  if (!compareSnapshot) return null
+
+  const compareData = compareSnapshot.data as CompareData
+  const owner = dep.detected_github_owner
+  const repo = dep.detected_github_repo_name
+  const baseBranch = dep.default_branch || 'main'
+
+  const prevRow = await getPreviousDeploymentForDiff(dep.id, dep.environment_name)
+  const previousDeployment = prevRow
+    ? { id: prevRow.id, commitSha: prevRow.commit_sha, createdAt: prevRow.created_at.toISOString() }
+    : null
+
+  const commitsBetween = await buildCommitsBetweenFromCache(owner, repo, baseBranch, compareData, {
+    cacheOnly: true,
+  })
+
+  let deployedPr: VerificationInput['deployedPr'] = null
+  if (dep.github_pr_number) {
+    const snapshotMap = await getPrSnapshotsForDiff(dep.github_pr_number)
+    if (snapshotMap.has('metadata') && snapshotMap.has('reviews') && snapshotMap.has('commits')) {
+      deployedPr = {
+        number: dep.github_pr_number,
+        url: `https://github.com/${owner}/${repo}/pull/${dep.github_pr_number}`,
+        metadata: snapshotMap.get('metadata') as PrMetadata,
+        reviews: snapshotMap.get('reviews') as PrReview[],
+        commits: snapshotMap.get('commits') as PrCommit[],
+      }
+    }
+  }
+
+  const storedWorkflowRun = await getDeploymentWorkflowRun(dep.id)
+
+  return {
+    deploymentId: dep.id,
+    commitSha: dep.commit_sha,
+    repository: `${owner}/${repo}`,
+    environmentName: dep.environment_name,
+    baseBranch,
+    auditStartYear: dep.audit_start_year,
+    implicitApprovalSettings: policy.implicitApprovalSettings ?? { mode: 'off' },
+    approvalPolicy: await resolveApprovalPolicy(policy.approvalPolicySettings, owner),
+    coAuthorMappings: await resolveCoAuthorMappings(deployedPr, commitsBetween),
+    codeownersPolicy: await resolveCodeownersPolicy(policy.codeownersPolicy, owner, repo, deployedPr, commitsBetween, {
+      cacheOnly: true,
+    }),
+    previousDeployment,
+    deployedPr,
+    commitsBetween,
+    dataFreshness: { deployedPrFetchedAt: null, commitsFetchedAt: null, schemaVersion: 1 },
+    repositoryStatus: 'active',
+    commitOnBaseBranch: null,
+    workflowRun: storedWorkflowRun?.run ?? null,
+    workflowRunUnavailable: !storedWorkflowRun?.resolved,
+    deployWorkflowPolicy: policy.deployWorkflowPolicy ?? undefined,
+  }
+}
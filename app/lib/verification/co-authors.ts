@@ -0,0 +1,75 @@
+/**
+ * Co-author Detection
+ *
+ * Parses `Co-authored-by:` trailers from commit messages and resolves the
+ * co-authors to GitHub usernames. A reviewer who co-authored a commit is
+ * effectively reviewing their own code, so the verifier treats co-authors
+ * like commit authors.
+ *
+ * Pure functions — email → username mappings are looked up by the caller.
+ */
+
+export interface CoAuthor {
+  name: string
+  email: string
+}
+
+const CO_AUTHOR_TRAILER_REGEX = /^co-authored-by:\s*(.+?)\s*<([^>]+)>\s*$/gim
+const NOREPLY_EMAIL_REGEX = /^(?:\d+\+)?([^@]+)@users\.noreply\.github\.com$/i
+
+/**
+ * Parse all `Co-authored-by: Name <email>` trailers from a commit message.
+ * Emails are lowercased.
+ */
+export function parseCoAuthors(message: string): CoAuthor[] {
+  return Array.from(message.matchAll(CO_AUTHOR_TRAILER_REGEX), (match) => ({
+    name: match[1],
+    email: match[2].trim().toLowerCase(),
+  }))
+}
+
+/**
+ * Extract the GitHub username from a noreply address
+ * (`12345+username@users.noreply.github.com` or `username@users.noreply.github.com`).
+ */
+export function usernameFromNoreplyEmail(email: string): string | null {
+  return NOREPLY_EMAIL_REGEX.exec(email)?.[1] ?? null
+}
+
+/**
+ * Collect co-author emails that need a user_mappings lookup (noreply
+ * addresses resolve without one).
+ */
+export function collectCoAuthorEmails(messages: string[]): string[] {
+  const emails = new Set<string>()
+  for (const message of messages) {
+    for (const coAuthor of parseCoAuthors(message)) {
+      if (!usernameFromNoreplyEmail(coAuthor.email)) {
+        emails.add(coAuthor.email)
+      }
+    }
+  }
+  return Array.from(emails)
+}
+
+/**
+ * Resolve the co-authors of a set of commits to lowercased GitHub usernames.
+ * Co-authors whose email cannot be resolved are left out.
+ *
+ * @param emailToUsername - lowercased email → GitHub username (from user_mappings)
+ */
+export function getCoAuthorUsernames(
+  commits: Array<{ message: string }>,
+  emailToUsername: Record<string, string> = {},
+): Set<string> {
+  const usernames = new Set<string>()
+  for (const commit of commits) {
+    for (const coAuthor of parseCoAuthors(commit.message)) {
+      const username = usernameFromNoreplyEmail(coAuthor.email) ?? emailToUsername[coAuthor.email]
+      if (username) {
+        usernames.add(username.toLowerCase())
+      }
+    }
+  }
+  return usernames
+}
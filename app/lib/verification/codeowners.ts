@@ -0,0 +1,186 @@
+/**
+ * CODEOWNERS Matching
+ *
+ * Parses a repository's CODEOWNERS file and checks that every changed file
+ * under an app's paths was approved by one of its code owners. Used by the
+ * per-app CODEOWNERS policy in monorepos, where several teams share a
+ * repository and each owns its own paths.
+ *
+ * Pure functions — the CODEOWNERS content, changed files and team membership
+ * are fetched by the caller.
+ */
+
+/** Locations GitHub looks for CODEOWNERS, in the order it checks them */
+export const CODEOWNERS_PATHS = ['.github/CODEOWNERS', 'CODEOWNERS', 'docs/CODEOWNERS'] as const
+
+export interface CodeownersRule {
+  pattern: string
+  /** @user, @org/team or email. Empty when the pattern is explicitly left without owners. */
+  owners: string[]
+}
+
+export interface RequiredCodeowners {
+  file: string
+  owners: string[]
+}
+
+/**
+ * Parse CODEOWNERS content into rules, skipping blank lines and comments.
+ * Rules keep their file order, since the last matching rule wins.
+ */
+export function parseCodeowners(content: string): CodeownersRule[] {
+  const rules: CodeownersRule[] = []
+  for (const rawLine of content.split('\n')) {
+    const line = rawLine.replace(/(^|\s)#.*$/, '').trim()
+    if (!line) continue
+    const [pattern, ...owners] = line.split(/\s+/)
+    rules.push({ pattern: pattern.replace(/\\#/g, '#'), owners })
+  }
+  return rules
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Convert a CODEOWNERS pattern to a regular expression over repository paths.
+ *
+ * Follows the gitignore rules GitHub uses: a pattern with a leading or inner
+ * slash is relative to the repository root, otherwise it matches at any
+ * depth. A trailing slash matches directory contents only, and a match on a
+ * directory covers everything beneath it — except for `dir/*`, which only
+ * matches files directly in the directory.
+ */
+export function codeownersPatternToRegExp(pattern: string): RegExp {
+  let glob = pattern
+  const directoryOnly = glob.endsWith('/')
+  if (directoryOnly) glob = glob.slice(0, -1)
+  const anchored = glob.includes('/')
+  if (glob.startsWith('/')) glob = glob.slice(1)
+
+  let source = ''
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i]
+    if (char === '*' && glob[i + 1] === '*') {
+      if (glob[i + 2] === '/') {
+        source += '(?:.*/)?'
+        i += 2
+      } else {
+        source += '.*'
+        i += 1
+      }
+    } else if (char === '*') {
+      source += '[^/]*'
+    } else if (char === '?') {
+      source += '[^/]'
+    } else {
+      source += escapeRegExp(char)
+    }
+  }
+
+  const prefix = anchored ? '^' : '^(?:.*/)?'
+  const lastSegment = glob.split('/').pop()
+  let suffix = '(?:/.*)?$'
+  if (directoryOnly) suffix = '/.*$'
+  else if (anchored && lastSegment === '*') suffix = '$'
+  return new RegExp(`${prefix}${source}${suffix}`)
+}
+
+/**
+ * Owners of a file: those of the last matching rule, or null when no rule matches.
+ */
+export function findCodeowners(rules: CodeownersRule[], file: string): string[] | null {
+  for (let i = rules.length - 1; i >= 0; i--) {
+    if (codeownersPatternToRegExp(rules[i].pattern).test(file)) {
+      return rules[i].owners
+    }
+  }
+  return null
+}
+
+function normalizePath(path: string): string {
+  return path.replace(/^\/+|\/+$/g, '')
+}
+
+/**
+ * Whether a file lies under one of the app's paths (empty = the whole repository).
+ */
+export function isAppPath(file: string, appPaths: string[]): boolean {
+  if (appPaths.length === 0) return true
+  return appPaths.map(normalizePath).some((path) => path === '' || file === path || file.startsWith(`${path}/`))
+}
+
+/**
+ * Changed files under the app's paths together with their owners.
+ * Files without owners need no code owner approval and are left out.
+ */
+export function getRequiredCodeowners(
+  rules: CodeownersRule[],
+  files: string[],
+  appPaths: string[],
+): RequiredCodeowners[] {
+  const required: RequiredCodeowners[] = []
+  for (const file of files) {
+    if (!isAppPath(file, appPaths)) continue
+    const owners = findCodeowners(rules, file)
+    if (owners && owners.length > 0) required.push({ file, owners })
+  }
+  return required
+}
+
+/** Team owners ("org/team-slug", lowercase) among the required owners */
+export function getCodeownerTeams(required: RequiredCodeowners[]): string[] {
+  const teams = new Set<string>()
+  for (const { owners } of required) {
+    for (const owner of owners) {
+      if (owner.startsWith('@') && owner.includes('/')) teams.add(owner.slice(1).toLowerCase())
+    }
+  }
+  return [...teams]
+}
+
+/**
+ * Whether an approver is one of the owners. Users match by username and
+ * teams through their members; email owners cannot be matched to a GitHub
+ * user and never match.
+ */
+function isOwnedBy(approver: string, owners: string[], teamMembers: Record<string, string[]>): boolean {
+  const approverLower = approver.toLowerCase()
+  return owners.some((owner) => {
+    if (!owner.startsWith('@')) return false
+    const name = owner.slice(1).toLowerCase()
+    if (!name.includes('/')) return name === approverLower
+    return (teamMembers[name] ?? []).some((member) => member.toLowerCase() === approverLower)
+  })
+}
+
+/**
+ * Check that each changed file under the app's paths was approved by at
+ * least one of its code owners.
+ *
+ * @param approvers - approvers who count for four-eyes (not commit authors or co-authors)
+ * @param teamMembers - members of the owning teams, keyed by "org/team-slug" in lowercase
+ */
+export function checkCodeownerApproval(params: {
+  codeowners: string
+  files: string[]
+  approvers: string[]
+  appPaths: string[]
+  teamMembers: Record<string, string[]>
+}): { approved: boolean; reason: string } {
+  const required = getRequiredCodeowners(parseCodeowners(params.codeowners), params.files, params.appPaths)
+
+  const missing = required.filter(
+    ({ owners }) => !params.approvers.some((a) => isOwnedBy(a, owners, params.teamMembers)),
+  )
+  if (missing.length > 0) {
+    const owners = [...new Set(missing.flatMap((m) => m.owners))]
+    return {
+      approved: false,
+      reason: `${missing.length} changed file(s) lack approval from a code owner (${owners.join(', ')}), e.g. ${missing[0].file}`,
+    }
+  }
+
+  return { approved: true, reason: `${required.length} owned file(s) approved by a code owner` }
+}
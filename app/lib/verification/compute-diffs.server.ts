@@ -8,8 +8,14 @@
  * Run as a background sync job (reverify_app job type).
  */
 
-import { getImplicitApprovalSettings } from '~/db/app-settings.server'
+import {
+  getApprovalPolicySettings,
+  getCodeownersPolicySettings,
+  getDeployWorkflowPolicySettings,
+  getImplicitApprovalSettings,
+} from '~/db/app-settings.server'
 import { pool } from '~/db/connection.server'
+import { getDeploymentWorkflowRun } from '~/db/deployments.server'
 import {
   getCompareSnapshotForCommit,
   getDeploymentsForDiffComputation,
@@ -18,7 +24,13 @@ import {
 } from '~/db/verification-diff.server'
 import { isProtectedStatus } from '~/lib/four-eyes-status'
 import { logger } from '~/lib/logger.server'
-import { buildCommitsBetweenFromCache, fetchVerificationData } from './fetch-data.server'
+import {
+  buildCommitsBetweenFromCache,
+  fetchVerificationData,
+  resolveApprovalPolicy,
+  resolveCoAuthorMappings,
+  resolveCodeownersPolicy,
+} from './fetch-data.server'
 import type { CompareData, PrCommit, PrMetadata, PrReview, VerificationInput } from './types'
 import { verifyDeployment } from './verify'
 
@@ -54,6 +66,9 @@ export async function computeVerificationDiffs(
 ): Promise<ComputeDiffsResult> {
   const deployments = await getDeploymentsForDiffComputation(monitoredAppId)
   const implicitApprovalSettings = await getImplicitApprovalSettings(monitoredAppId)
+  const approvalPolicySettings = await getApprovalPolicySettings(monitoredAppId)
+  const deployWorkflowPolicy = await getDeployWorkflowPolicySettings(monitoredAppId)
+  const codeownersPolicySettings = await getCodeownersPolicySettings(monitoredAppId)
 
   const result: ComputeDiffsResult = {
     deploymentsChecked: 0,
@@ -128,6 +143,7 @@ export async function computeVerificationDiffs(
             }
           }
 
+          const storedWorkflowRun = await getDeploymentWorkflowRun(row.id)
           input = {
             deploymentId: row.id,
             commitSha: row.commit_sha,
@@ -136,8 +152,21 @@ export async function computeVerificationDiffs(
             baseBranch,
             repositoryStatus: 'active',
             commitOnBaseBranch: true,
+            workflowRun: storedWorkflowRun?.run ?? null,
+            workflowRunUnavailable: !storedWorkflowRun?.resolved,
+            deployWorkflowPolicy,
             auditStartYear: row.audit_start_year,
             implicitApprovalSettings: implicitApprovalSettings ?? { mode: 'off' },
+            approvalPolicy: await resolveApprovalPolicy(approvalPolicySettings, owner),
+            coAuthorMappings: await resolveCoAuthorMappings(deployedPr, commitsBetween),
+            codeownersPolicy: await resolveCodeownersPolicy(
+              codeownersPolicySettings,
+              owner,
+              repo,
+              deployedPr,
+              commitsBetween,
+              { cacheOnly: true },
+            ),
             previousDeployment,
             deployedPr,
             commitsBetween,
@@ -13,6 +13,7 @@
 
 import { findRepositoryForApp } from '~/db/application-repositories.server'
 import { pool } from '~/db/connection.server'
+import { getDeploymentWorkflowRun, saveDeploymentWorkflowRun } from '~/db/deployments.server'
 import {
   getAllLatestPrSnapshots,
   getLatestCommitSnapshot,
@@ -23,19 +24,39 @@ import {
   savePrSnapshotsBatch,
 } from '~/db/github-data.server'
 import { heartbeatSyncJob, isSyncJobCancelled, logSyncJobMessage, updateSyncJobProgress } from '~/db/sync-jobs.server'
-import { getCommitsBetween, getDetailedPullRequestInfo, getPullRequestForCommit, isCommitOnBranch } from '~/lib/github'
+import { getGitHubUsernamesByEmails } from '~/db/user-mappings.server'
+import {
+  getCodeownersAtMergeBase,
+  getCommitsBetween,
+  getDetailedPullRequestInfo,
+  getPullRequestFiles,
+  getPullRequestForCommit,
+  getTeamMembers,
+  getWorkflowRun,
+  isCommitOnBranch,
+} from '~/lib/github'
 import { logger } from '~/lib/logger.server'
+import { parseWorkflowRunUrl } from '~/lib/sync/repo-parser'
+import { collectCoAuthorEmails } from './co-authors'
+import { getCodeownerTeams, getRequiredCodeowners, parseCodeowners } from './codeowners'
 import type { RepositoryStatus } from './types'
 import {
+  type ApprovalPolicySettings,
+  type CodeownersFile,
+  type CodeownersPolicySettings,
   type CompareData,
   CURRENT_SCHEMA_VERSION,
+  type DeployWorkflowPolicySettings,
   type ImplicitApprovalSettings,
   type PrChecks,
   type PrComment,
   type PrCommit,
   type PrMetadata,
   type PrReview,
+  type ResolvedApprovalPolicy,
+  type ResolvedCodeownersPolicy,
   type VerificationInput,
+  type WorkflowRunInfo,
 } from './types'
 
 // =============================================================================
@@ -44,6 +65,10 @@ import {
 
 interface FetchOptions {
   forceRefresh?: boolean
+  // Only read stored snapshots. Data that is not cached is treated as missing,
+  // and the base branch check is skipped (commitOnBaseBranch = null).
+  // An unresolved workflow run is left unknown.
+  cacheOnly?: boolean
   dataTypes?: ('metadata' | 'reviews' | 'commits' | 'comments' | 'checks')[]
 }
 
@@ -67,6 +92,7 @@ export async function fetchVerificationData(
 
   // Get app settings
   const appSettings = await getAppSettings(monitoredAppId)
+  const approvalPolicy = await resolveApprovalPolicy(appSettings.approvalPolicySettings, owner)
 
   // Check repository status
   const repoCheck = await findRepositoryForApp(monitoredAppId, owner, repo)
@@ -75,7 +101,10 @@ export async function fetchVerificationData(
     : 'unknown'
 
   // Check if deployed commit is on the base branch
-  const commitOnBaseBranch = await isCommitOnBranch(owner, repo, commitSha, baseBranch)
+  const commitOnBaseBranch = options?.cacheOnly ? null : await isCommitOnBranch(owner, repo, commitSha, baseBranch)
+
+  // Resolve the GitHub Actions run that triggered the deployment
+  const { run: workflowRun, unavailable: workflowRunUnavailable } = await resolveWorkflowRun(deploymentId, options)
 
   // Get previous deployment (with group fallback)
   const previousDeployment = await getPreviousDeployment(
@@ -222,6 +251,18 @@ export async function fetchVerificationData(
     }
   }
 
+  // Resolve Co-authored-by trailers so co-author approvals can be detected
+  const coAuthorMappings = await resolveCoAuthorMappings(deployedPr, commitsBetween)
+
+  const codeownersPolicy = await resolveCodeownersPolicy(
+    appSettings.codeownersPolicy,
+    owner,
+    repo,
+    deployedPr,
+    commitsBetween,
+    options,
+  )
+
   return {
     deploymentId,
     commitSha,
@@ -230,8 +271,14 @@ export async function fetchVerificationData(
     baseBranch,
     repositoryStatus,
     commitOnBaseBranch,
+    workflowRun,
+    workflowRunUnavailable,
+    deployWorkflowPolicy: appSettings.deployWorkflowPolicy,
     auditStartYear: appSettings.auditStartYear,
     implicitApprovalSettings: appSettings.implicitApprovalSettings,
+    approvalPolicy,
+    coAuthorMappings,
+    codeownersPolicy,
     previousDeployment,
     deployedPr,
     commitsBetween,
@@ -254,6 +301,9 @@ export async function fetchVerificationData(
 async function getAppSettings(monitoredAppId: number): Promise<{
   auditStartYear: number | null
   implicitApprovalSettings: ImplicitApprovalSettings
+  approvalPolicySettings: ApprovalPolicySettings | null
+  deployWorkflowPolicy: DeployWorkflowPolicySettings | undefined
+  codeownersPolicy: CodeownersPolicySettings | undefined
 }> {
   // Get audit_start_year from monitored_applications
   const appResult = await pool.query(`SELECT audit_start_year FROM monitored_applications WHERE id = $1`, [
@@ -264,30 +314,233 @@ async function getAppSettings(monitoredAppId: number): Promise<{
     return {
       auditStartYear: null,
       implicitApprovalSettings: { mode: 'off' },
+      approvalPolicySettings: null,
+      deployWorkflowPolicy: undefined,
+      codeownersPolicy: undefined,
     }
   }
 
-  // Get implicit approval settings from app_settings
+  // Get implicit approval, approval, deploy workflow and CODEOWNERS policies from app_settings
   const settingsResult = await pool.query(
-    `SELECT setting_value FROM app_settings 
-     WHERE monitored_app_id = $1 AND setting_key = 'implicit_approval'`,
+    `SELECT setting_key, setting_value FROM app_settings 
+     WHERE monitored_app_id = $1
+       AND setting_key IN ('implicit_approval', 'approval_policy', 'deploy_workflow_policy', 'codeowners_policy')`,
     [monitoredAppId],
   )
+  const settings = new Map(settingsResult.rows.map((row) => [row.setting_key, row.setting_value]))
 
   let implicitApprovalSettings: ImplicitApprovalSettings = { mode: 'off' }
-  if (settingsResult.rows.length > 0 && settingsResult.rows[0].setting_value) {
-    const settingValue = settingsResult.rows[0].setting_value
-    if (settingValue.mode === 'dependabot_only' || settingValue.mode === 'all') {
-      implicitApprovalSettings = { mode: settingValue.mode }
+  const implicitValue = settings.get('implicit_approval')
+  if (implicitValue?.mode === 'dependabot_only' || implicitValue?.mode === 'all') {
+    implicitApprovalSettings = { mode: implicitValue.mode }
+  }
+
+  let approvalPolicySettings: ApprovalPolicySettings | null = null
+  const policyValue = settings.get('approval_policy')
+  if (policyValue) {
+    approvalPolicySettings = {
+      minApprovals: typeof policyValue.minApprovals === 'number' ? policyValue.minApprovals : 1,
+      requiredTeams: Array.isArray(policyValue.requiredTeams) ? policyValue.requiredTeams : [],
+    }
+  }
+
+  let deployWorkflowPolicy: DeployWorkflowPolicySettings | undefined
+  const workflowPolicyValue = settings.get('deploy_workflow_policy')
+  if (workflowPolicyValue) {
+    deployWorkflowPolicy = {
+      allowedWorkflows: Array.isArray(workflowPolicyValue.allowedWorkflows) ? workflowPolicyValue.allowedWorkflows : [],
+      allowedEvents: Array.isArray(workflowPolicyValue.allowedEvents) ? workflowPolicyValue.allowedEvents : [],
+      requireBaseBranch: workflowPolicyValue.requireBaseBranch === true,
+    }
+  }
+
+  let codeownersPolicy: CodeownersPolicySettings | undefined
+  const codeownersPolicyValue = settings.get('codeowners_policy')
+  if (codeownersPolicyValue) {
+    codeownersPolicy = {
+      enabled: codeownersPolicyValue.enabled === true,
+      appPaths: Array.isArray(codeownersPolicyValue.appPaths) ? codeownersPolicyValue.appPaths : [],
     }
   }
 
   return {
     auditStartYear: appResult.rows[0].audit_start_year,
     implicitApprovalSettings,
+    approvalPolicySettings,
+    deployWorkflowPolicy,
+    codeownersPolicy,
   }
 }
 
+// =============================================================================
+// Workflow Run
+// =============================================================================
+
+/**
+ * Get the GitHub Actions run that triggered a deployment. The run is looked up
+ * from the deployment's trigger URL once and stored on the deployment, also
+ * when the URL is not a workflow run or the run is gone from GitHub.
+ * The run is null when the deployment has no GitHub Actions run, and
+ * unavailable when it could not be looked up (API errors are retried next time).
+ */
+async function resolveWorkflowRun(
+  deploymentId: number,
+  options?: FetchOptions,
+): Promise<{ run: WorkflowRunInfo | null; unavailable: boolean }> {
+  const stored = await getDeploymentWorkflowRun(deploymentId)
+  if (!stored) return { run: null, unavailable: true }
+  if (stored.resolved) return { run: stored.run, unavailable: false }
+  if (options?.cacheOnly) return { run: null, unavailable: true }
+
+  const parsed = parseWorkflowRunUrl(stored.triggerUrl)
+  if (!parsed) {
+    await saveDeploymentWorkflowRun(deploymentId, null)
+    return { run: null, unavailable: false }
+  }
+
+  try {
+    const run = await getWorkflowRun(parsed.owner, parsed.repo, parsed.runId)
+    await saveDeploymentWorkflowRun(deploymentId, run)
+    return { run, unavailable: false }
+  } catch (error) {
+    logger.warn(
+      `⚠️ Failed to fetch workflow run ${parsed.runId} in ${parsed.owner}/${parsed.repo}:`,
+      error as Record<string, unknown>,
+    )
+    return { run: null, unavailable: true }
+  }
+}
+
+/**
+ * Resolve an app's approval policy for the verifier by looking up the members
+ * of each required team in the repository owner's GitHub organization.
+ * Returns undefined when no policy is configured.
+ */
+export async function resolveApprovalPolicy(
+  settings: ApprovalPolicySettings | null | undefined,
+  org: string,
+): Promise<ResolvedApprovalPolicy | undefined> {
+  if (!settings) return undefined
+
+  const teamMembers: Record<string, string[]> = {}
+  for (const team of settings.requiredTeams) {
+    teamMembers[team] = await getTeamMembers(org, team)
+  }
+
+  return {
+    minApprovals: settings.minApprovals,
+    requiredTeams: settings.requiredTeams,
+    teamMembers,
+  }
+}
+
+/**
+ * Look up GitHub usernames for the `Co-authored-by:` emails found in the
+ * deployed PR and all commits between deployments.
+ */
+export async function resolveCoAuthorMappings(
+  deployedPr: VerificationInput['deployedPr'],
+  commitsBetween: VerificationInput['commitsBetween'],
+): Promise<Record<string, string>> {
+  const messages = [
+    ...(deployedPr?.commits.map((c) => c.message) ?? []),
+    ...commitsBetween.flatMap((c) => [c.message, ...(c.pr?.commits.map((pc) => pc.message) ?? [])]),
+  ]
+  return getGitHubUsernamesByEmails(collectCoAuthorEmails(messages))
+}
+
+// =============================================================================
+// CODEOWNERS
+// =============================================================================
+
+/**
+ * Resolve an app's CODEOWNERS policy for the verifier. Returns undefined
+ * when the policy is not enabled, without fetching anything.
+ *
+ * Attaches the changed files and the CODEOWNERS at the merge base to the
+ * deployed PR and the PRs of the commits between deployments, then looks up
+ * the members of the teams that own the app's changed files.
+ */
+export async function resolveCodeownersPolicy(
+  settings: CodeownersPolicySettings | null | undefined,
+  owner: string,
+  repo: string,
+  deployedPr: VerificationInput['deployedPr'],
+  commitsBetween: VerificationInput['commitsBetween'],
+  options?: FetchOptions,
+): Promise<ResolvedCodeownersPolicy | undefined> {
+  if (!settings?.enabled) return undefined
+
+  const prs = [deployedPr, ...commitsBetween.map((c) => c.pr)].filter((pr) => pr !== null)
+  const loaded = new Map<number, { files?: string[]; codeowners?: CodeownersFile | null }>()
+  for (const pr of prs) {
+    if (!loaded.has(pr.number)) {
+      loaded.set(pr.number, await getCodeownersData(owner, repo, pr.number, options))
+    }
+    Object.assign(pr, loaded.get(pr.number))
+  }
+
+  const teams = new Set<string>()
+  for (const { files, codeowners } of loaded.values()) {
+    if (!files || !codeowners) continue
+    const required = getRequiredCodeowners(parseCodeowners(codeowners.content), files, settings.appPaths)
+    for (const team of getCodeownerTeams(required)) teams.add(team)
+  }
+
+  const teamMembers: Record<string, string[]> = {}
+  for (const team of teams) {
+    const [org, teamSlug] = team.split('/')
+    teamMembers[team] = await getTeamMembers(org, teamSlug)
+  }
+
+  return { enabled: settings.enabled, appPaths: settings.appPaths, teamMembers }
+}
+
+/**
+ * Get a PR's changed files and CODEOWNERS at the merge base from the 'files'
+ * and 'codeowners' snapshots, fetching and storing them when missing (unless
+ * cacheOnly). Data that cannot be read is left undefined (unknown).
+ */
+async function getCodeownersData(
+  owner: string,
+  repo: string,
+  prNumber: number,
+  options?: FetchOptions,
+): Promise<{ files?: string[]; codeowners?: CodeownersFile | null }> {
+  const cachedData = options?.forceRefresh ? null : await getAllLatestPrSnapshots(owner, repo, prNumber)
+  let files = cachedData?.get('files')?.data as string[] | undefined
+  let codeowners = (cachedData?.get('codeowners')?.data as { codeowners: CodeownersFile | null } | undefined)
+    ?.codeowners
+
+  if ((files && codeowners !== undefined) || options?.cacheOnly) {
+    return { files, codeowners }
+  }
+
+  try {
+    if (!files) {
+      files = await getPullRequestFiles(owner, repo, prNumber)
+      await savePrSnapshotsBatch(owner, repo, prNumber, [{ dataType: 'files', data: files }])
+    }
+    if (codeowners === undefined) {
+      const metadata = (cachedData ?? (await getAllLatestPrSnapshots(owner, repo, prNumber))).get('metadata')?.data as
+        | PrMetadata
+        | undefined
+      if (metadata) {
+        const atMergeBase = await getCodeownersAtMergeBase(owner, repo, metadata.baseSha, metadata.headSha)
+        codeowners = atMergeBase.codeowners
+        await savePrSnapshotsBatch(owner, repo, prNumber, [{ dataType: 'codeowners', data: atMergeBase }])
+      }
+    }
+  } catch (error) {
+    logger.warn(
+      `⚠️ Failed to fetch CODEOWNERS data for PR #${prNumber} in ${owner}/${repo}:`,
+      error as Record<string, unknown>,
+    )
+  }
+
+  return { files, codeowners }
+}
+
 // =============================================================================
 // Previous Deployment
 // =============================================================================
@@ -415,7 +668,7 @@ async function fetchDeployedPrData(
     repo,
     commitSha,
     baseBranch,
-    { forceRefresh: options?.forceRefresh },
+    { cacheOnly: options?.cacheOnly, forceRefresh: options?.forceRefresh },
   )
   if (!prNumber) {
     return { deployedPr: null, mismatchedBaseBranches, mismatchedPrNumbers }
@@ -431,7 +684,7 @@ async function fetchDeployedPrData(
       const commits = cachedData.get('commits')?.data as PrCommit[]
 
       // If checks/comments are missing (schema v1 data), fetch fresh data
-      if (!cachedData.has('checks') || !cachedData.has('comments')) {
+      if (!options?.cacheOnly && (!cachedData.has('checks') || !cachedData.has('comments'))) {
         // Fall through to GitHub fetch to get complete data
       } else {
         return {
@@ -449,6 +702,10 @@ async function fetchDeployedPrData(
     }
   }
 
+  if (options?.cacheOnly) {
+    return { deployedPr: null, mismatchedBaseBranches, mismatchedPrNumbers }
+  }
+
   // Fetch from GitHub
   const { metadata, reviews, commits, checks, comments } = await fetchPrFromGitHub(owner, repo, prNumber)
 
@@ -642,13 +899,22 @@ async function fetchPrFromGitHub(
     checksPassed: prData.checks_passed,
   }
 
-  const reviews: PrReview[] = prData.reviewers.map((r, index) => ({
-    id: index + 1, // GitHub doesn't provide review ID in this response
-    username: r.username,
-    state: r.state as 'APPROVED' | 'CHANGES_REQUESTED' | 'COMMENTED' | 'PENDING' | 'DISMISSED',
-    submittedAt: r.submitted_at,
-    body: null,
-  }))
+  // Store the full review history so the verifier can see each reviewer's final verdict
+  const reviews: PrReview[] = prData.review_history
+    ? prData.review_history.map((r) => ({
+        id: r.id,
+        username: r.username,
+        state: r.state as PrReview['state'],
+        submittedAt: r.submitted_at,
+        body: null,
+      }))
+    : prData.reviewers.map((r, index) => ({
+        id: index + 1, // Grouped reviewers carry no review ID
+        username: r.username,
+        state: r.state as PrReview['state'],
+        submittedAt: r.submitted_at,
+        body: null,
+      }))
 
   const commits: PrCommit[] = prData.commits.map((c) => ({
     sha: c.sha,
@@ -720,6 +986,11 @@ async function fetchCommitsBetween(
     }
   }
 
+  if (options?.cacheOnly) {
+    logger.info(`   📦 No cached compare data for ${fromSha.substring(0, 7)}...${toSha.substring(0, 7)}`)
+    return null
+  }
+
   // Fetch from GitHub API
   logger.info(`   🌐 Fetching compare from GitHub: ${fromSha.substring(0, 7)}...${toSha.substring(0, 7)}`)
   const commitsRaw = await getCommitsBetween(owner, repo, fromSha, toSha)
@@ -764,7 +1035,7 @@ export async function buildCommitsBetweenFromCache(
   repo: string,
   baseBranch: string,
   compareData: CompareData,
-  options?: FetchOptions & { cacheOnly?: boolean },
+  options?: FetchOptions,
 ): Promise<VerificationInput['commitsBetween']> {
   const result: VerificationInput['commitsBetween'] = []
   const cacheOnly = options?.cacheOnly ?? false
@@ -851,15 +1122,15 @@ export async function buildCommitsBetweenFromCache(
 }
 
 // =============================================================================
-// GitHub API Integration (to be connected)
+// PR Data Refresh
 // =============================================================================
 
 /**
- * These functions will be connected to the existing github.server.ts module.
- * They handle the actual GitHub API calls and error handling.
+ * Re-fetch PR data from GitHub and store new snapshots.
+ * Used by the webhook receiver when a PR gets new commits, since webhook
+ * payloads do not include the commit list.
  */
-
-async function _refreshPrData(
+export async function refreshPrData(
   owner: string,
   repo: string,
   prNumber: number,
@@ -0,0 +1,95 @@
+/**
+ * Verification Fixtures
+ *
+ * A fixture is the exact VerificationInput for a deployment together with the
+ * status the verifier is expected to return. Fixtures are exported from the
+ * debug verification page and replayed against verifyDeployment by
+ * app/lib/__tests__/verification-replay.test.ts, so a reported bug can become
+ * a regression test without access to GitHub or the database.
+ */
+
+import { VERIFICATION_STATUSES, type VerificationInput, type VerificationStatus } from './types'
+
+export const VERIFICATION_FIXTURE_VERSION = 1
+
+export interface VerificationFixture {
+  version: typeof VERIFICATION_FIXTURE_VERSION
+  /** What the fixture covers, e.g. the bug report it comes from */
+  description: string
+  exportedAt: string
+  /** Status stored on the deployment when the fixture was exported */
+  storedStatus: string | null
+  /** Status verifyDeployment must return; edit this when the exported result is wrong */
+  expectedStatus: VerificationStatus
+  input: VerificationInput
+}
+
+export function buildVerificationFixture(params: {
+  input: VerificationInput
+  storedStatus: string | null
+  expectedStatus: VerificationStatus
+  exportedAt?: Date
+}): VerificationFixture {
+  return {
+    version: VERIFICATION_FIXTURE_VERSION,
+    description: `Deployment ${params.input.deploymentId} (${params.input.repository}, ${params.input.environmentName})`,
+    exportedAt: (params.exportedAt ?? new Date()).toISOString(),
+    storedStatus: params.storedStatus,
+    expectedStatus: params.expectedStatus,
+    input: params.input,
+  }
+}
+
+export function getVerificationFixtureFilename(deploymentId: number): string {
+  return `verification-fixture-${deploymentId}.json`
+}
+
+/**
+ * Validate a parsed fixture file and restore the Date fields that JSON turns
+ * into strings. Throws with a message naming the problem.
+ */
+export function parseVerificationFixture(value: unknown): VerificationFixture {
+  if (!value || typeof value !== 'object') {
+    throw new Error('Fixture must be a JSON object')
+  }
+  const fixture = value as Partial<VerificationFixture>
+
+  if (fixture.version !== VERIFICATION_FIXTURE_VERSION) {
+    throw new Error(`Unsupported fixture version: ${String(fixture.version)}`)
+  }
+  if (!VERIFICATION_STATUSES.includes(fixture.expectedStatus as VerificationStatus)) {
+    throw new Error(`Invalid expectedStatus: ${String(fixture.expectedStatus)}`)
+  }
+
+  const input = fixture.input
+  if (
+    !input ||
+    typeof input.deploymentId !== 'number' ||
+    typeof input.commitSha !== 'string' ||
+    !Array.isArray(input.commitsBetween) ||
+    !input.implicitApprovalSettings ||
+    !input.dataFreshness
+  ) {
+    throw new Error('Fixture input is not a VerificationInput')
+  }
+
+  return {
+    version: fixture.version,
+    description: fixture.description ?? '',
+    exportedAt: fixture.exportedAt ?? '',
+    storedStatus: fixture.storedStatus ?? null,
+    expectedStatus: fixture.expectedStatus as VerificationStatus,
+    input: {
+      ...input,
+      dataFreshness: {
+        ...input.dataFreshness,
+        deployedPrFetchedAt: toDateOrNull(input.dataFreshness.deployedPrFetchedAt),
+        commitsFetchedAt: toDateOrNull(input.dataFreshness.commitsFetchedAt),
+      },
+    },
+  }
+}
+
+function toDateOrNull(value: Date | string | null): Date | null {
+  return value === null ? null : new Date(value)
+}
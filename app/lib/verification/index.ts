@@ -18,19 +18,21 @@
  * ```
  */
 
-import { getImplicitApprovalSettings } from '~/db/app-settings.server'
+import {
+  getApprovalPolicySettings,
+  getCodeownersPolicySettings,
+  getDeployWorkflowPolicySettings,
+  getImplicitApprovalSettings,
+} from '~/db/app-settings.server'
 import { propagateVerificationToSiblings } from '~/db/application-groups.server'
 import { pool } from '~/db/connection.server'
-import {
-  getCompareSnapshotForCommit,
-  getPreviousDeploymentForDiff,
-  getPrSnapshotsForDiff,
-} from '~/db/verification-diff.server'
 import { isProtectedStatus } from '~/lib/four-eyes-status'
 import { logger } from '~/lib/logger.server'
-import { buildCommitsBetweenFromCache, fetchVerificationData } from './fetch-data.server'
-import { storeVerificationResult, updateDeploymentVerification } from './store-data.server'
-import type { CompareData, PrCommit, PrMetadata, PrReview, VerificationInput, VerificationResult } from './types'
+import { buildVerificationInputFromCache } from './cached-input.server'
+import { fetchVerificationData } from './fetch-data.server'
+import { buildVerificationFixture, type VerificationFixture } from './fixtures'
+import { storeVerificationResult, updateDeploymentVerification, type VerificationAuditEvent } from './store-data.server'
+import type { VerificationInput, VerificationResult } from './types'
 import { verifyDeployment } from './verify'
 
 // Re-export individual modules
@@ -63,6 +65,7 @@ interface RunVerificationOptions {
   baseBranch: string
   monitoredAppId: number
   forceRefresh?: boolean
+  auditEvent?: VerificationAuditEvent
 }
 
 /**
@@ -126,10 +129,14 @@ export async function runVerification(
     commitSnapshotIds: [], // Would be populated by fetch-data
   }
 
-  const { verificationRunId } = await storeVerificationResult(deploymentId, result, snapshotIds, undefined, {
-    repository: options.repository,
-    commitsBetween: input.commitsBetween,
-  })
+  const { verificationRunId } = await storeVerificationResult(
+    deploymentId,
+    result,
+    snapshotIds,
+    undefined,
+    { repository: options.repository, commitsBetween: input.commitsBetween },
+    options.auditEvent,
+  )
 
   // Step 4: Propagate to sibling deployments in the same application group
   const propagated = await propagateVerificationToSiblings(
@@ -258,6 +265,31 @@ export async function runDebugVerification(
   }
 }
 
+/**
+ * Build a replayable fixture for a deployment from cached snapshots only.
+ *
+ * The expected status is the verifier's current result; when exporting a
+ * fixture for a bug report, edit it to the correct status before committing.
+ */
+export async function exportVerificationFixture(
+  deploymentId: number,
+  options: Omit<RunVerificationOptions, 'forceRefresh'>,
+): Promise<VerificationFixture> {
+  const existingStatus = await getExistingVerificationStatus(deploymentId)
+  const input = await fetchVerificationData(
+    deploymentId,
+    options.commitSha,
+    options.repository,
+    options.environmentName,
+    options.baseBranch,
+    options.monitoredAppId,
+    { cacheOnly: true },
+  )
+  const result = verifyDeployment(input)
+
+  return buildVerificationFixture({ input, storedStatus: existingStatus.status, expectedStatus: result.status })
+}
+
 /**
  * Get the existing verification status from the deployment table
  */
@@ -337,54 +369,13 @@ export async function reverifyDeployment(deploymentId: number): Promise<{
     return null
   }
 
-  const implicitApprovalSettings = await getImplicitApprovalSettings(dep.monitored_app_id)
-
-  const compareSnapshot = await getCompareSnapshotForCommit(dep.commit_sha)
-  if (!compareSnapshot) return null
-
-  const compareData = compareSnapshot.data as CompareData
-  const owner = dep.detected_github_owner
-  const repo = dep.detected_github_repo_name
-  const baseBranch = dep.default_branch || 'main'
-
-  const prevRow = await getPreviousDeploymentForDiff(dep.id, dep.environment_name)
-  const previousDeployment = prevRow
-    ? { id: prevRow.id, commitSha: prevRow.commit_sha, createdAt: prevRow.created_at.toISOString() }
-    : null
-
-  const commitsBetween = await buildCommitsBetweenFromCache(owner, repo, baseBranch, compareData, {
-    cacheOnly: true,
+  const input = await buildVerificationInputFromCache(dep, {
+    implicitApprovalSettings: await getImplicitApprovalSettings(dep.monitored_app_id),
+    approvalPolicySettings: await getApprovalPolicySettings(dep.monitored_app_id),
+    deployWorkflowPolicy: await getDeployWorkflowPolicySettings(dep.monitored_app_id),
+    codeownersPolicy: await getCodeownersPolicySettings(dep.monitored_app_id),
   })
-
-  let deployedPr: VerificationInput['deployedPr'] = null
-  if (dep.github_pr_number) {
-    const snapshotMap = await getPrSnapshotsForDiff(dep.github_pr_number)
-    if (snapshotMap.has('metadata') && snapshotMap.has('reviews') && snapshotMap.has('commits')) {
-      deployedPr = {
-        number: dep.github_pr_number,
-        url: `https://github.com/${owner}/${repo}/pull/${dep.github_pr_number}`,
-        metadata: snapshotMap.get('metadata') as PrMetadata,
-        reviews: snapshotMap.get('reviews') as PrReview[],
-        commits: snapshotMap.get('commits') as PrCommit[],
-      }
-    }
-  }
-
-  const input: VerificationInput = {
-    deploymentId: dep.id,
-    commitSha: dep.commit_sha,
-    repository: `${owner}/${repo}`,
-    environmentName: dep.environment_name,
-    baseBranch,
-    auditStartYear: dep.audit_start_year,
-    implicitApprovalSettings: implicitApprovalSettings ?? { mode: 'off' },
-    previousDeployment,
-    deployedPr,
-    commitsBetween,
-    dataFreshness: { deployedPrFetchedAt: null, commitsFetchedAt: null, schemaVersion: 1 },
-    repositoryStatus: 'active',
-    commitOnBaseBranch: null,
-  }
+  if (!input) return null
 
   const newResult = verifyDeployment(input)
 
@@ -0,0 +1,129 @@
+/**
+ * Policy Simulation
+ *
+ * Pure helpers for the policy simulation page, which re-runs the verifier over
+ * cached snapshots with an alternative implicit approval mode and approval
+ * policy, and compares the result with the app's current policy.
+ */
+
+import { isValidGitHubTeamSlug } from '~/lib/form-validators'
+import { isApprovedStatus } from '~/lib/four-eyes-status'
+import { type ApprovalPolicySettings, IMPLICIT_APPROVAL_MODES, type ImplicitApprovalSettings } from './types'
+
+export const DEFAULT_SIMULATION_DAYS = 90
+export const MAX_SIMULATED_DEPLOYMENTS = 500
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface PolicySimulationSettings {
+  implicitApprovalSettings: ImplicitApprovalSettings
+  approvalPolicySettings: ApprovalPolicySettings
+}
+
+export interface PolicySimulationParams {
+  /** Inclusive */
+  from: Date
+  /** Exclusive */
+  to: Date
+  alternative: PolicySimulationSettings
+}
+
+export const SIMULATION_OUTCOMES = ['unchanged', 'becomes_approved', 'becomes_unapproved', 'status_changed'] as const
+export type SimulationOutcome = (typeof SIMULATION_OUTCOMES)[number]
+
+export const SIMULATION_OUTCOME_LABELS: Record<SimulationOutcome, string> = {
+  unchanged: 'Uendret',
+  becomes_approved: 'Blir godkjent',
+  becomes_unapproved: 'Blir ikke godkjent',
+  status_changed: 'Annen status',
+}
+
+/**
+ * Parse the simulation form from query parameters.
+ *
+ * Missing or invalid policy values fall back to the app's current policy, and
+ * invalid team slugs are dropped. The date range defaults to the last
+ * DEFAULT_SIMULATION_DAYS days; `to` is a date (YYYY-MM-DD) and includes the whole day.
+ */
+export function parsePolicySimulationParams(
+  searchParams: URLSearchParams,
+  current: PolicySimulationSettings,
+  now = new Date(),
+): PolicySimulationParams {
+  const today = new Date(`${now.toISOString().split('T')[0]}T00:00:00Z`)
+  const to = new Date((parseDateParam(searchParams.get('to')) ?? today).getTime() + DAY_MS)
+  const from = parseDateParam(searchParams.get('from')) ?? new Date(to.getTime() - DEFAULT_SIMULATION_DAYS * DAY_MS)
+
+  const mode = searchParams.get('mode')
+  const implicitApprovalSettings = IMPLICIT_APPROVAL_MODES.find((m) => m === mode)
+    ? { mode: mode as ImplicitApprovalSettings['mode'] }
+    : { mode: current.implicitApprovalSettings.mode }
+
+  const minApprovals = Number(searchParams.get('min_approvals'))
+  const requiredTeamsParam = searchParams.get('required_teams')
+
+  return {
+    from,
+    to,
+    alternative: {
+      implicitApprovalSettings,
+      approvalPolicySettings: {
+        minApprovals:
+          Number.isInteger(minApprovals) && minApprovals >= 1 && minApprovals <= 5
+            ? minApprovals
+            : current.approvalPolicySettings.minApprovals,
+        requiredTeams:
+          requiredTeamsParam === null
+            ? current.approvalPolicySettings.requiredTeams
+            : [
+                ...new Set(
+                  requiredTeamsParam
+                    .split(/[\s,]+/)
+                    .map((team) => team.trim().toLowerCase())
+                    .filter((team) => team && isValidGitHubTeamSlug(team)),
+                ),
+              ],
+      },
+    },
+  }
+}
+
+function parseDateParam(value: string | null): Date | null {
+  if (!value || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return null
+  const date = new Date(`${value}T00:00:00Z`)
+  return Number.isNaN(date.getTime()) ? null : date
+}
+
+/**
+ * Classify how a deployment's status changes when going from the current
+ * policy to the alternative one. Both statuses come from the verifier, so a
+ * difference is caused by the policy alone and not by newer data or logic.
+ */
+export function classifySimulationOutcome(currentStatus: string, alternativeStatus: string): SimulationOutcome {
+  if (currentStatus === alternativeStatus) return 'unchanged'
+  const wasApproved = isApprovedStatus(currentStatus)
+  const isApproved = isApprovedStatus(alternativeStatus)
+  if (!wasApproved && isApproved) return 'becomes_approved'
+  if (wasApproved && !isApproved) return 'becomes_unapproved'
+  return 'status_changed'
+}
+
+export function countSimulationOutcomes(outcomes: SimulationOutcome[]): Record<SimulationOutcome, number> {
+  const counts: Record<SimulationOutcome, number> = {
+    unchanged: 0,
+    becomes_approved: 0,
+    becomes_unapproved: 0,
+    status_changed: 0,
+  }
+  for (const outcome of outcomes) counts[outcome]++
+  return counts
+}
+
+export function isSamePolicy(a: PolicySimulationSettings, b: PolicySimulationSettings): boolean {
+  return (
+    a.implicitApprovalSettings.mode === b.implicitApprovalSettings.mode &&
+    a.approvalPolicySettings.minApprovals === b.approvalPolicySettings.minApprovals &&
+    [...a.approvalPolicySettings.requiredTeams].sort().join(',') ===
+      [...b.approvalPolicySettings.requiredTeams].sort().join(',')
+  )
+}
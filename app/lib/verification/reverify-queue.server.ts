@@ -0,0 +1,49 @@
+/**
+ * Re-verification Queue
+ *
+ * In-process queue for re-verifying deployments from cached snapshots after
+ * new GitHub data arrives (e.g. via webhook). Deployment IDs are de-duplicated
+ * while queued and processed one at a time, so a burst of review events for
+ * the same PR only triggers one re-verification per deployment.
+ */
+
+import { logger } from '~/lib/logger.server'
+import { reverifyDeployment } from './index'
+
+const queued = new Set<number>()
+let isProcessing = false
+
+/**
+ * Add deployments to the re-verification queue and start processing
+ * in the background if not already running.
+ */
+export function enqueueReverification(deploymentIds: number[]): void {
+  for (const id of deploymentIds) {
+    queued.add(id)
+  }
+
+  if (!isProcessing && queued.size > 0) {
+    processQueue().catch((err) => logger.error('❌ Re-verification queue failed:', err))
+  }
+}
+
+async function processQueue(): Promise<void> {
+  isProcessing = true
+  try {
+    while (queued.size > 0) {
+      const [deploymentId] = queued
+      queued.delete(deploymentId)
+
+      try {
+        const result = await reverifyDeployment(deploymentId)
+        if (result?.changed) {
+          logger.info(`🔁 Deployment ${deploymentId} re-verified: ${result.oldStatus} → ${result.newStatus}`)
+        }
+      } catch (error) {
+        logger.error(`❌ Re-verification failed for deployment ${deploymentId}:`, error)
+      }
+    }
+  } finally {
+    isProcessing = false
+  }
+}
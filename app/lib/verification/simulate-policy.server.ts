@@ -0,0 +1,152 @@
+/**
+ * Policy Simulation
+ *
+ * Re-runs the verifier for an app's deployments in a date range, once with the
+ * app's current policy and once with an alternative one, using cached snapshots
+ * only. Nothing is persisted.
+ */
+
+import {
+  getApprovalPolicySettings,
+  getCodeownersPolicySettings,
+  getDeployWorkflowPolicySettings,
+  getImplicitApprovalSettings,
+} from '~/db/app-settings.server'
+import { getDeploymentsForPolicySimulation } from '~/db/verification-diff.server'
+import { isProtectedStatus } from '~/lib/four-eyes-status'
+import { logger } from '~/lib/logger.server'
+import { buildVerificationInputFromCache } from './cached-input.server'
+import { resolveApprovalPolicy } from './fetch-data.server'
+import {
+  classifySimulationOutcome,
+  countSimulationOutcomes,
+  MAX_SIMULATED_DEPLOYMENTS,
+  type PolicySimulationSettings,
+  type SimulationOutcome,
+} from './policy-simulation'
+import { verifyDeployment } from './verify'
+
+export interface SimulatedDeployment {
+  id: number
+  commitSha: string
+  title: string | null
+  environmentName: string
+  createdAt: string
+  storedStatus: string
+  currentPolicyStatus: string
+  alternativeStatus: string
+  alternativeReason: string
+  outcome: SimulationOutcome
+}
+
+export interface PolicySimulationResult {
+  current: PolicySimulationSettings
+  /** Deployments whose status differs between the current and the alternative policy */
+  changed: SimulatedDeployment[]
+  counts: Record<SimulationOutcome, number>
+  checked: number
+  skippedProtected: number
+  skippedMissingSnapshot: number
+  errors: number
+  /** True when the range had more deployments than MAX_SIMULATED_DEPLOYMENTS */
+  truncated: boolean
+}
+
+export async function getCurrentPolicySettings(monitoredAppId: number): Promise<PolicySimulationSettings> {
+  const [implicitApprovalSettings, approvalPolicySettings] = await Promise.all([
+    getImplicitApprovalSettings(monitoredAppId),
+    getApprovalPolicySettings(monitoredAppId),
+  ])
+  return {
+    implicitApprovalSettings: { mode: implicitApprovalSettings.mode },
+    approvalPolicySettings: {
+      minApprovals: approvalPolicySettings.minApprovals,
+      requiredTeams: approvalPolicySettings.requiredTeams,
+    },
+  }
+}
+
+/**
+ * Simulate an alternative policy for deployments created within [from, to).
+ * Protected statuses (manual approvals, baseline, legacy) and deployments
+ * without a cached compare snapshot are skipped and counted.
+ */
+export async function simulatePolicy(
+  monitoredAppId: number,
+  range: { from: Date; to: Date },
+  alternative: PolicySimulationSettings,
+): Promise<PolicySimulationResult> {
+  const current = await getCurrentPolicySettings(monitoredAppId)
+  const deployments = await getDeploymentsForPolicySimulation(
+    monitoredAppId,
+    range.from,
+    range.to,
+    MAX_SIMULATED_DEPLOYMENTS + 1,
+  )
+  const truncated = deployments.length > MAX_SIMULATED_DEPLOYMENTS
+  // Not simulated, but applied to both runs so the comparison matches the stored statuses
+  const deployWorkflowPolicy = await getDeployWorkflowPolicySettings(monitoredAppId)
+  const codeownersPolicy = await getCodeownersPolicySettings(monitoredAppId)
+
+  const result: PolicySimulationResult = {
+    current,
+    changed: [],
+    counts: countSimulationOutcomes([]),
+    checked: 0,
+    skippedProtected: 0,
+    skippedMissingSnapshot: 0,
+    errors: 0,
+    truncated,
+  }
+  const outcomes: SimulationOutcome[] = []
+
+  for (const dep of deployments.slice(0, MAX_SIMULATED_DEPLOYMENTS)) {
+    if (isProtectedStatus(dep.four_eyes_status ?? '')) {
+      result.skippedProtected++
+      continue
+    }
+
+    try {
+      const input = await buildVerificationInputFromCache(dep, { ...current, deployWorkflowPolicy, codeownersPolicy })
+      if (!input) {
+        result.skippedMissingSnapshot++
+        continue
+      }
+
+      const currentPolicyResult = verifyDeployment(input)
+      const alternativeResult = verifyDeployment({
+        ...input,
+        implicitApprovalSettings: alternative.implicitApprovalSettings,
+        approvalPolicy: await resolveApprovalPolicy(alternative.approvalPolicySettings, dep.detected_github_owner),
+      })
+
+      const outcome = classifySimulationOutcome(currentPolicyResult.status, alternativeResult.status)
+      outcomes.push(outcome)
+      result.checked++
+
+      if (outcome !== 'unchanged') {
+        result.changed.push({
+          id: dep.id,
+          commitSha: dep.commit_sha,
+          title: dep.title,
+          environmentName: dep.environment_name,
+          createdAt: dep.created_at.toISOString(),
+          storedStatus: dep.four_eyes_status,
+          currentPolicyStatus: currentPolicyResult.status,
+          alternativeStatus: alternativeResult.status,
+          alternativeReason: alternativeResult.approvalDetails.reason,
+          outcome,
+        })
+      }
+    } catch (err) {
+      logger.error(
+        `Policy simulation failed for deployment ${dep.id}`,
+        err instanceof Error ? err : new Error(String(err)),
+      )
+      result.errors++
+    }
+  }
+
+  result.counts = countSimulationOutcomes(outcomes)
+  return result
+}
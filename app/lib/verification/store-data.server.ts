@@ -6,6 +6,7 @@
  * stores the verification run history.
  */
 
+import { type RecordAuditEventInput, recordAuditEvent } from '~/db/audit-events.server'
 import { updateCommitPrVerification } from '~/db/commits.server'
 import { pool } from '~/db/connection.server'
 import { logStatusTransition } from '~/db/deployments.server'
@@ -26,6 +27,12 @@ import type {
 // Store Verification Result
 // =============================================================================
 
+/** Builds the audit event for a user-triggered verification from the status before and after, so it is committed with the change */
+export type VerificationAuditEvent = (fourEyesStatus: {
+  before: string | null
+  after: string | null
+}) => RecordAuditEventInput
+
 /**
  * Store a verification result and update the deployment record.
  * Also updates the commit cache with PR approval status.
@@ -42,6 +49,7 @@ export async function storeVerificationResult(
     repository: string
     commitsBetween: VerificationInput['commitsBetween']
   },
+  auditEvent?: VerificationAuditEvent,
 ): Promise<{ verificationRunId: number }> {
   // Save the verification run for history/audit
   const verificationRunId = await saveVerificationRun(
@@ -55,7 +63,7 @@ export async function storeVerificationResult(
 
   // Update the deployment record with the verification result
   // Also build and store github_pr_data from snapshots if a PR was found
-  await updateDeploymentVerification(deploymentId, result, changeSource)
+  await updateDeploymentVerification(deploymentId, result, changeSource, auditEvent)
 
   // Update commit cache with PR approval status
   if (commitCacheContext) {
@@ -73,6 +81,7 @@ export async function updateDeploymentVerification(
   deploymentId: number,
   result: VerificationResult,
   changeSource?: string,
+  auditEvent?: VerificationAuditEvent,
 ): Promise<void> {
   if (result.status === 'manually_approved') return // Don't overwrite manual approval
   if (result.status === 'legacy') return // Don't update legacy deployments
@@ -86,55 +95,80 @@ export async function updateDeploymentVerification(
     }
   }
 
-  // Get current status before update for history logging
-  const current = await pool.query(`SELECT four_eyes_status FROM deployments WHERE id = $1`, [deploymentId])
-
-  // Update deployment record
-  const updateResult = await pool.query(
-    `UPDATE deployments
-     SET 
-       four_eyes_status = $1,
-       github_pr_number = COALESCE($2, github_pr_number),
-       github_pr_url = COALESCE($7, github_pr_url),
-       unverified_commits = $4::jsonb,
-       github_pr_data = COALESCE($5::jsonb, github_pr_data),
-       title = COALESCE($6, title)
-     WHERE id = $3
-       AND four_eyes_status NOT IN (${PROTECTED_STATUSES_SQL})`,
-    [
-      result.status,
-      result.deployedPr?.number || null,
+  // The status change, its history row and its outbox event are committed together
+  const client = await pool.connect()
+  try {
+    await client.query('BEGIN')
+
+    // Get current status before update for history logging
+    const current = await client.query(`SELECT four_eyes_status FROM deployments WHERE id = $1 FOR UPDATE`, [
       deploymentId,
-      result.unverifiedCommits.length > 0
-        ? JSON.stringify(
-            result.unverifiedCommits.map((c) => ({
-              sha: c.sha,
-              message: c.message,
-              author: c.author,
-              date: c.date,
-              html_url: c.htmlUrl,
-              pr_number: c.prNumber,
-              reason: c.reason,
-            })),
-          )
-        : null,
-      githubPrDataJson,
-      result.deployedPr?.title || null,
-      result.deployedPr?.url || null,
-    ],
-  )
+    ])
+
+    // Update deployment record
+    const updateResult = await client.query(
+      `UPDATE deployments
+       SET 
+         four_eyes_status = $1,
+         github_pr_number = COALESCE($2, github_pr_number),
+         github_pr_url = COALESCE($7, github_pr_url),
+         unverified_commits = $4::jsonb,
+         github_pr_data = COALESCE($5::jsonb, github_pr_data),
+         title = COALESCE($6, title)
+       WHERE id = $3
+         AND four_eyes_status NOT IN (${PROTECTED_STATUSES_SQL})`,
+      [
+        result.status,
+        result.deployedPr?.number || null,
+        deploymentId,
+        result.unverifiedCommits.length > 0
+          ? JSON.stringify(
+              result.unverifiedCommits.map((c) => ({
+                sha: c.sha,
+                message: c.message,
+                author: c.author,
+                date: c.date,
+                html_url: c.htmlUrl,
+                pr_number: c.prNumber,
+                reason: c.reason,
+              })),
+            )
+          : null,
+        githubPrDataJson,
+        result.deployedPr?.title || null,
+        result.deployedPr?.url || null,
+      ],
+    )
 
-  // Log status transition only if the UPDATE actually changed a row
-  if (updateResult.rowCount && updateResult.rowCount > 0 && current.rows.length > 0) {
-    const prev = current.rows[0]
-    const newStatus = result.status
-    if (prev.four_eyes_status !== newStatus) {
-      await logStatusTransition(deploymentId, {
-        fromStatus: prev.four_eyes_status,
-        toStatus: newStatus,
-        changeSource: changeSource || 'verification',
-      })
+    // Log status transition only if the UPDATE actually changed a row
+    if (updateResult.rowCount && updateResult.rowCount > 0 && current.rows.length > 0) {
+      const prev = current.rows[0]
+      const newStatus = result.status
+      if (prev.four_eyes_status !== newStatus) {
+        await logStatusTransition(
+          deploymentId,
+          {
+            fromStatus: prev.four_eyes_status,
+            toStatus: newStatus,
+            changeSource: changeSource || 'verification',
+          },
+          client,
+        )
+      }
     }
+
+    if (auditEvent) {
+      const before = current.rows[0]?.four_eyes_status ?? null
+      const after = updateResult.rowCount ? result.status : before
+      await recordAuditEvent(auditEvent({ before, after }), client)
+    }
+
+    await client.query('COMMIT')
+  } catch (error) {
+    await client.query('ROLLBACK')
+    throw error
+  } finally {
+    client.release()
   }
 }
 
@@ -16,7 +16,7 @@
  * Current schema version for GitHub data snapshots.
  * Increment this when the data structure changes and re-fetching is needed.
  */
-export const CURRENT_SCHEMA_VERSION = 3
+export const CURRENT_SCHEMA_VERSION = 4
 
 // =============================================================================
 // Exhaustive Check Helper
@@ -85,6 +85,7 @@ export const VERIFICATION_STATUSES = [
   'manually_approved',
   'unauthorized_repository',
   'unauthorized_branch',
+  'unauthorized_workflow',
   'legacy',
   'error',
 ] as const
@@ -102,6 +103,7 @@ const _VERIFICATION_STATUS_LABELS: Record<VerificationStatus, string> = {
   manually_approved: 'Manuelt godkjent',
   unauthorized_repository: 'Ikke godkjent repo',
   unauthorized_branch: 'Ikke på godkjent branch',
+  unauthorized_workflow: 'Ikke godkjent workflow',
   legacy: 'Legacy',
   error: 'Feil',
 }
@@ -131,7 +133,11 @@ export const UNVERIFIED_REASONS = [
   'no_pr',
   'no_approved_reviews',
   'approval_before_last_commit',
+  'insufficient_approvals',
+  'approval_revoked',
+  'approval_by_co_author',
   'pr_not_approved',
+  'codeowner_approval_missing',
 ] as const
 export type UnverifiedReason = (typeof UNVERIFIED_REASONS)[number]
 
@@ -142,7 +148,11 @@ const _UNVERIFIED_REASON_LABELS: Record<UnverifiedReason, string> = {
   no_pr: 'Ingen PR funnet',
   no_approved_reviews: 'Ingen godkjent review',
   approval_before_last_commit: 'Godkjenning før siste commit',
+  insufficient_approvals: 'Oppfyller ikke godkjenningskrav',
+  approval_revoked: 'Godkjenning trukket tilbake',
+  approval_by_co_author: 'Godkjent av medforfatter',
   pr_not_approved: 'PR ikke godkjent',
+  codeowner_approval_missing: 'Mangler godkjenning fra code owner',
 }
 
 // =============================================================================
@@ -162,7 +172,7 @@ export type ApprovalMethod = (typeof APPROVAL_METHODS)[number] | null
 /**
  * Types of PR data that can be fetched/stored separately
  */
-export type PrDataType = 'metadata' | 'reviews' | 'commits' | 'comments' | 'checks' | 'files'
+export type PrDataType = 'metadata' | 'reviews' | 'commits' | 'comments' | 'checks' | 'files' | 'codeowners'
 
 /**
  * Types of commit data that can be fetched/stored separately
@@ -307,6 +317,9 @@ export interface PrMetadata {
 
 /**
  * PR review (stored in 'reviews' snapshot as array)
+ *
+ * Schema version 4+ stores the full review history (one entry per review).
+ * Older snapshots hold one entry per reviewer, with APPROVED prioritized.
  */
 export interface PrReview {
   id: number
@@ -401,9 +414,22 @@ export interface VerificationInput {
   // Whether the deployed commit is on the base branch (null = unknown/API error)
   commitOnBaseBranch: boolean | null
 
+  // GitHub Actions run that triggered the deployment (null/undefined = no known run)
+  workflowRun?: WorkflowRunInfo | null
+  // The run could not be looked up yet (API error, or not resolved in cache-only mode)
+  workflowRunUnavailable?: boolean
+  // Per-app restriction on which workflows may deploy (undefined = no restriction)
+  deployWorkflowPolicy?: DeployWorkflowPolicySettings
+
   // App settings
   auditStartYear: number | null
   implicitApprovalSettings: ImplicitApprovalSettings
+  // Per-app approval policy (undefined = one approval, no required teams)
+  approvalPolicy?: ResolvedApprovalPolicy
+  // Co-author email → GitHub username (from user_mappings) for Co-authored-by trailers
+  coAuthorMappings?: Record<string, string>
+  // Per-app CODEOWNERS requirement (undefined = CODEOWNERS not enforced)
+  codeownersPolicy?: ResolvedCodeownersPolicy
 
   // Previous deployment (for determining commit range)
   previousDeployment: {
@@ -419,6 +445,9 @@ export interface VerificationInput {
     metadata: PrMetadata
     reviews: PrReview[]
     commits: PrCommit[]
+    // Changed files and CODEOWNERS at the merge base (undefined = not fetched)
+    files?: string[]
+    codeowners?: CodeownersFile | null
   } | null
 
   // All commits between previous and current deployment
@@ -439,6 +468,8 @@ export interface VerificationInput {
       commits: PrCommit[]
       baseBranch: string
       rebaseMatched?: boolean
+      files?: string[]
+      codeowners?: CodeownersFile | null
     } | null
     // Base branches of PRs associated with this commit but NOT matching the
     // configured base branch. Populated when the commit has PRs that were
@@ -492,6 +523,81 @@ export interface ImplicitApprovalSettings {
   mode: ImplicitApprovalMode
 }
 
+/**
+ * Approval policy for a PR (stored per app in app_settings as 'approval_policy')
+ * - minApprovals: distinct approvers (not commit authors) required
+ * - requiredTeams: GitHub team slugs that must each have at least one approver
+ */
+export interface ApprovalPolicySettings {
+  minApprovals: number
+  requiredTeams: string[]
+}
+
+/**
+ * The GitHub Actions workflow run that triggered a deployment, resolved from
+ * the deployment's trigger URL.
+ */
+export interface WorkflowRunInfo {
+  runId: number
+  /** Workflow file, e.g. .github/workflows/deploy.yml */
+  path: string
+  /** Event that started the run, e.g. push or workflow_dispatch */
+  event: string
+  headBranch: string | null
+  actor: string | null
+  /** Repository the run belongs to, as owner/repo */
+  repository: string
+  /** Commit the run was started for */
+  headSha: string
+}
+
+/**
+ * Which workflows may deploy an app (stored per app in app_settings as 'deploy_workflow_policy')
+ * - allowedWorkflows: workflow files, as full path or file name (empty = any workflow)
+ * - allowedEvents: triggering events (empty = any event)
+ * - requireBaseBranch: the run must be on the app's base branch
+ */
+export interface DeployWorkflowPolicySettings {
+  allowedWorkflows: string[]
+  allowedEvents: string[]
+  requireBaseBranch: boolean
+}
+
+/**
+ * CODEOWNERS requirement (stored per app in app_settings as 'codeowners_policy')
+ * - enabled: every changed file under the app's paths needs approval from one of its code owners
+ * - appPaths: repository paths that belong to the app (empty = the whole repository)
+ */
+export interface CodeownersPolicySettings {
+  enabled: boolean
+  appPaths: string[]
+}
+
+/**
+ * CODEOWNERS file as it was at a PR's merge base.
+ * Stored as PR snapshot data type 'codeowners'; null when the repository had no CODEOWNERS.
+ */
+export interface CodeownersFile {
+  path: string
+  content: string
+}
+
+/**
+ * CODEOWNERS policy with team membership resolved from GitHub.
+ * teamMembers maps each owning team ("org/team-slug", lowercase) to its members' usernames.
+ */
+export interface ResolvedCodeownersPolicy extends CodeownersPolicySettings {
+  teamMembers: Record<string, string[]>
+}
+
+/**
+ * Approval policy with team membership resolved from GitHub.
+ * teamMembers maps each required team slug to its members' usernames.
+ */
+export interface ResolvedApprovalPolicy extends ApprovalPolicySettings {
+  teamMembers: Record<string, string[]>
+}
+
 // =============================================================================
 // Verification Result (what the stateless verifier returns)
 // =============================================================================
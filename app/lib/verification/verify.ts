@@ -8,15 +8,21 @@
  * Output: VerificationResult (verification decision)
  */
 
+import { getCoAuthorUsernames } from './co-authors'
+import { checkCodeownerApproval } from './codeowners'
 import {
   assertNever,
+  type CodeownersFile,
+  type DeployWorkflowPolicySettings,
   type ImplicitApprovalSettings,
   type PrCommit,
   type PrReview,
+  type ResolvedApprovalPolicy,
   type UnverifiedCommit,
   type UnverifiedReason,
   type VerificationInput,
   type VerificationResult,
+  type WorkflowRunInfo,
 } from './types'
 
 // =============================================================================
@@ -30,16 +36,21 @@ import {
  * Decision steps:
  * 0a. Repository not active → unauthorized_repository
  * 0b. Commit not on base branch → unauthorized_branch
+ * 0c. With a workflow policy: no known triggering run, a run from another repository
+ *     or commit, or a run the policy does not allow → unauthorized_workflow
+ *     (run not looked up yet → error, retried on the next verification)
  * 1. No previous deployment → pending_baseline
  * 2. No commits between deployments:
  *    a. Same commit SHA → no_changes
  *    b. Different SHA (rollback/error) → error
- * 3. Check each commit against PR data
+ * 3. Check each commit against PR data (including the app's approval and CODEOWNERS policies)
  * 4. All verified → approved
  * 5. Base branch merge explains unverified → approved (base_merge)
  * 6. Implicit approval qualifies → implicitly_approved
  * 7. Otherwise → unverified_commits
  *
+ * Missing code owner approvals are never overridden by steps 5 and 6.
+ *
  * @see {@link file://docs/verification.md} for full documentation
  */
 export function verifyDeployment(input: VerificationInput): VerificationResult {
@@ -51,6 +62,23 @@ export function verifyDeployment(input: VerificationInput): VerificationResult {
     return handleUnauthorizedBranch(input)
   }
 
+  // The workflow policy fails closed: a deployment must come from a known run of an allowed workflow
+  if (input.deployWorkflowPolicy) {
+    if (!input.workflowRun) {
+      return input.workflowRunUnavailable
+        ? handleCompareError(input, 'Could not look up the workflow run that triggered the deployment')
+        : handleUnauthorizedWorkflow(input, 'Deployment was not triggered by a known GitHub Actions workflow run')
+    }
+    const sourceCheck = checkWorkflowRunSource(input.workflowRun, input.repository, input.commitSha)
+    if (!sourceCheck.allowed) {
+      return handleUnauthorizedWorkflow(input, sourceCheck.reason)
+    }
+    const workflowCheck = checkDeployWorkflow(input.workflowRun, input.deployWorkflowPolicy, input.baseBranch)
+    if (!workflowCheck.allowed) {
+      return handleUnauthorizedWorkflow(input, workflowCheck.reason)
+    }
+  }
+
   if (!input.previousDeployment) {
     return handlePendingBaseline(input)
   }
@@ -102,18 +130,26 @@ export function verifyDeployment(input: VerificationInput): VerificationResult {
     )
   }
 
-  const unverifiedCommits = findUnverifiedCommits(input)
+  const { unverifiedCommits, codeownersUnknown } = findUnverifiedCommits(input)
+
+  // The CODEOWNERS policy fails closed: a PR it applies to cannot pass until its files and CODEOWNERS are known
+  if (codeownersUnknown) {
+    return handleCompareError(input, 'Could not look up the changed files or CODEOWNERS of an approved pull request')
+  }
 
   if (unverifiedCommits.length === 0) {
     return handleAllCommitsVerified(input)
   }
 
-  if (input.deployedPr) {
+  // Base merges and implicit approval explain missing reviews, not missing code owners
+  const missingCodeowner = unverifiedCommits.some((c) => c.reason === 'codeowner_approval_missing')
+
+  if (input.deployedPr && !missingCodeowner) {
     const baseMergeResult = handleBaseBranchMerge(input, unverifiedCommits)
     if (baseMergeResult) return baseMergeResult
   }
 
-  if (input.deployedPr && input.implicitApprovalSettings.mode !== 'off') {
+  if (input.deployedPr && !missingCodeowner && input.implicitApprovalSettings.mode !== 'off') {
     const implicitResult = handleImplicitApproval(input)
     if (implicitResult) return implicitResult
   }
@@ -149,6 +185,18 @@ function handleUnauthorizedBranch(input: VerificationInput): VerificationResult
   })
 }
 
+function handleUnauthorizedWorkflow(input: VerificationInput, reason: string): VerificationResult {
+  return buildResult(input, {
+    hasFourEyes: false,
+    status: 'unauthorized_workflow',
+    approvalDetails: {
+      method: null,
+      approvers: [],
+      reason,
+    },
+  })
+}
+
 function handlePendingBaseline(input: VerificationInput): VerificationResult {
   return buildResult(input, {
     hasFourEyes: false,
@@ -185,8 +233,16 @@ function handleCompareError(input: VerificationInput, reason: string): Verificat
   })
 }
 
-function findUnverifiedCommits(input: VerificationInput): UnverifiedCommit[] {
+/**
+ * Commits not covered by an approved PR. codeownersUnknown is set when an
+ * approved PR could not be checked against the CODEOWNERS policy.
+ */
+function findUnverifiedCommits(input: VerificationInput): {
+  unverifiedCommits: UnverifiedCommit[]
+  codeownersUnknown: boolean
+} {
   const unverifiedCommits: UnverifiedCommit[] = []
+  let codeownersUnknown = false
   const deployedPrCommitShas = new Set(input.deployedPr?.commits.map((c) => c.sha) ?? [])
   const deployedPrMergeCommitSha = input.deployedPr?.metadata.mergeCommitSha ?? null
 
@@ -197,8 +253,12 @@ function findUnverifiedCommits(input: VerificationInput): UnverifiedCommit[] {
       commits: input.deployedPr.commits,
       baseBranch: input.deployedPr.metadata.baseBranch,
       mergedBy: input.deployedPr.metadata.mergedBy?.username,
+      approvalPolicy: input.approvalPolicy,
+      coAuthorMappings: input.coAuthorMappings,
     })
   }
+  const deployedPrCodeowners =
+    input.deployedPr && deployedPrApproval?.hasFourEyes ? checkPrCodeowners(input, input.deployedPr) : null
 
   for (const commit of input.commitsBetween) {
     if (commit.isMergeCommit) {
@@ -213,7 +273,7 @@ function findUnverifiedCommits(input: VerificationInput): UnverifiedCommit[] {
 
     // Check if commit is in deployed PR (by SHA match or merge commit SHA)
     if (input.deployedPr && (deployedPrCommitShas.has(commit.sha) || commit.sha === deployedPrMergeCommitSha)) {
-      if (deployedPrApproval?.hasFourEyes) {
+      if (deployedPrApproval?.hasFourEyes && deployedPrCodeowners?.approved !== false) {
         continue
       }
       unverifiedCommits.push({
@@ -223,8 +283,11 @@ function findUnverifiedCommits(input: VerificationInput): UnverifiedCommit[] {
         date: commit.authorDate,
         htmlUrl: commit.htmlUrl,
         prNumber: input.deployedPr.number,
-        reason: mapToUnverifiedReason(deployedPrApproval?.reason || 'pr_not_approved'),
+        reason: deployedPrApproval?.hasFourEyes
+          ? 'codeowner_approval_missing'
+          : mapToUnverifiedReason(deployedPrApproval?.reason || 'pr_not_approved'),
       })
+      if (deployedPrCodeowners?.unknown) codeownersUnknown = true
       continue
     }
 
@@ -234,9 +297,12 @@ function findUnverifiedCommits(input: VerificationInput): UnverifiedCommit[] {
         reviewers: commit.pr.reviews,
         commits: commit.pr.commits,
         baseBranch: commit.pr.baseBranch,
+        approvalPolicy: input.approvalPolicy,
+        coAuthorMappings: input.coAuthorMappings,
       })
 
-      if (prApproval.hasFourEyes) {
+      const codeownersCheck = prApproval.hasFourEyes ? checkPrCodeowners(input, commit.pr) : null
+      if (prApproval.hasFourEyes && codeownersCheck?.approved !== false) {
         continue
       }
 
@@ -247,8 +313,9 @@ function findUnverifiedCommits(input: VerificationInput): UnverifiedCommit[] {
         date: commit.authorDate,
         htmlUrl: commit.htmlUrl,
         prNumber: commit.pr.number,
-        reason: mapToUnverifiedReason(prApproval.reason),
+        reason: prApproval.hasFourEyes ? 'codeowner_approval_missing' : mapToUnverifiedReason(prApproval.reason),
       })
+      if (codeownersCheck?.unknown) codeownersUnknown = true
       continue
     }
 
@@ -264,7 +331,7 @@ function findUnverifiedCommits(input: VerificationInput): UnverifiedCommit[] {
     })
   }
 
-  return unverifiedCommits
+  return { unverifiedCommits, codeownersUnknown }
 }
 
 function handleAllCommitsVerified(input: VerificationInput): VerificationResult {
@@ -294,12 +361,19 @@ function handleBaseBranchMerge(
 
   if (!baseMergeResult.approved) return null
 
+  // Approvals from co-authors do not count as a second pair of eyes
+  const coAuthors = getCoAuthorUsernames(input.deployedPr.commits, input.coAuthorMappings)
+  const approvers = extractApprovers(input.deployedPr.reviews).filter((a) => !coAuthors.has(a.toLowerCase()))
+  if (approvers.length === 0) return null
+  const commitAuthors = [...input.deployedPr.commits.map((c) => c.authorUsername), ...coAuthors]
+  if (!satisfiesApprovalPolicy(approvers, commitAuthors, input.approvalPolicy)) return null
+
   return buildResult(input, {
     hasFourEyes: true,
     status: 'approved',
     approvalDetails: {
       method: 'base_merge',
-      approvers: extractApprovers(input.deployedPr.reviews),
+      approvers,
       reason: baseMergeResult.reason,
     },
   })
@@ -314,10 +388,21 @@ function handleImplicitApproval(input: VerificationInput): VerificationResult |
     lastCommitAuthor: getLastCommitAuthor(input.deployedPr.commits),
     mergedBy: input.deployedPr.metadata.mergedBy?.username ?? '',
     allCommitAuthors: input.deployedPr.commits.map((c) => c.authorUsername),
+    coAuthors: [...getCoAuthorUsernames(input.deployedPr.commits, input.coAuthorMappings)],
   })
 
   if (!implicitResult.qualifies) return null
 
+  // The merger stands in for an approver, so a stricter approval policy still
+  // needs the remaining approvals and required teams from reviews
+  const mergedBy = input.deployedPr.metadata.mergedBy?.username
+  const coAuthors = getCoAuthorUsernames(input.deployedPr.commits, input.coAuthorMappings)
+  const commitAuthors = [...input.deployedPr.commits.map((c) => c.authorUsername), ...coAuthors]
+  const approvers = [...(mergedBy ? [mergedBy] : []), ...extractApprovers(input.deployedPr.reviews)].filter(
+    (a) => !coAuthors.has(a.toLowerCase()),
+  )
+  if (!satisfiesApprovalPolicy(approvers, commitAuthors, input.approvalPolicy)) return null
+
   return buildResult(input, {
     hasFourEyes: true,
     status: 'implicitly_approved',
@@ -380,21 +465,37 @@ interface PrDataForVerification {
   baseBranch: string
   /** Username of the person who merged the PR (if merged) */
   mergedBy?: string | null
+  /** Per-app approval policy (undefined = a single approval is enough) */
+  approvalPolicy?: ResolvedApprovalPolicy
+  /** Co-author email → GitHub username, for emails that are not GitHub noreply addresses */
+  coAuthorMappings?: Record<string, string>
 }
 
 /**
  * Verify four-eyes principle from PR data.
  * Checks if there's an approval AFTER the last meaningful commit.
  *
+ * Only each reviewer's final verdict counts (see `getFinalReviewStates`): an
+ * approval that was later dismissed or followed by a change request is not an
+ * approval. If every approver withdrew, the reason is 'approval_revoked'.
+ *
  * Also handles the case where a bot (e.g. dependabot) rebases after approval:
  * if the PR has approved reviews and was merged by someone other than the
  * commit authors, the merge itself validates the four-eyes principle.
+ *
+ * When an approval policy is set, the approvals must also satisfy it
+ * (minimum approvers, required teams) — otherwise 'insufficient_approvals'.
+ *
+ * Reviewers listed as `Co-authored-by:` in a commit count as commit authors:
+ * their approvals are ignored, and if only co-authors approved the reason is
+ * 'approval_by_co_author'.
  */
 export function verifyFourEyesFromPrData(prData: PrDataForVerification): {
   hasFourEyes: boolean
   reason: string
 } {
-  const { reviewers, commits, baseBranch, mergedBy } = prData
+  const { commits, baseBranch, mergedBy, approvalPolicy } = prData
+  const reviewers = getFinalReviewStates(prData.reviewers)
 
   if (commits.length === 0) {
     return { hasFourEyes: false, reason: 'No commits found in PR' }
@@ -423,27 +524,55 @@ export function verifyFourEyesFromPrData(prData: PrDataForVerification): {
     return new Date(review.submittedAt) > lastRealCommitDate
   })
 
+  const coAuthors = getCoAuthorUsernames(commits, prData.coAuthorMappings)
+  const isCoAuthor = (username: string) => coAuthors.has(username.toLowerCase())
+  const commitAuthors = [...commits.map((c) => c.authorUsername), ...coAuthors]
+
   if (approvedReviewsAfterLastCommit.length > 0) {
+    const independentApprovals = approvedReviewsAfterLastCommit.filter((r) => !isCoAuthor(r.username))
+    if (independentApprovals.length === 0) {
+      return { hasFourEyes: false, reason: 'approval_by_co_author' }
+    }
+    const approvers = independentApprovals.map((r) => r.username)
+    if (!satisfiesApprovalPolicy(approvers, commitAuthors, approvalPolicy)) {
+      return { hasFourEyes: false, reason: 'insufficient_approvals' }
+    }
     const reason =
       lastRealCommitIndex < commits.length - 1
-        ? `Approved by ${approvedReviewsAfterLastCommit[0].username} (after ignoring ${commits.length - 1 - lastRealCommitIndex} base-merge commit(s))`
-        : `Approved by ${approvedReviewsAfterLastCommit[0].username} after last commit`
+        ? `Approved by ${independentApprovals[0].username} (after ignoring ${commits.length - 1 - lastRealCommitIndex} base-merge commit(s))`
+        : `Approved by ${independentApprovals[0].username} after last commit`
     return { hasFourEyes: true, reason }
   }
 
   // No approved reviews after last real commit
-  const approvedReviews = reviewers.filter((r) => r.state === 'APPROVED')
-  if (approvedReviews.length === 0) {
+  const allApprovedReviews = reviewers.filter((r) => r.state === 'APPROVED')
+  if (allApprovedReviews.length === 0) {
+    if (hasRevokedApproval(prData.reviewers)) {
+      return { hasFourEyes: false, reason: 'approval_revoked' }
+    }
     return { hasFourEyes: false, reason: 'no_approved_reviews' }
   }
 
+  const approvedReviews = allApprovedReviews.filter((r) => !isCoAuthor(r.username))
+  if (approvedReviews.length === 0) {
+    return { hasFourEyes: false, reason: 'approval_by_co_author' }
+  }
+
   // There are approvals, but they are before the last commit.
   // Check if the merger (who saw the final state) is someone other than the
-  // commit authors — if so, the merge action validates four-eyes.
+  // commit authors and co-authors — if so, the merge action validates four-eyes.
   if (mergedBy) {
     const mergedByLower = mergedBy.toLowerCase()
-    const commitAuthors = new Set(commits.map((c) => c.authorUsername.toLowerCase()))
-    if (!commitAuthors.has(mergedByLower)) {
+    if (!commitAuthors.some((author) => author.toLowerCase() === mergedByLower)) {
+      if (
+        !satisfiesApprovalPolicy(
+          approvedReviews.map((r) => r.username),
+          commitAuthors,
+          approvalPolicy,
+        )
+      ) {
+        return { hasFourEyes: false, reason: 'insufficient_approvals' }
+      }
       return {
         hasFourEyes: true,
         reason: `Approved by ${approvedReviews[0].username} (before last commit), merged by ${mergedBy} who is not a commit author`,
@@ -454,6 +583,119 @@ export function verifyFourEyesFromPrData(prData: PrDataForVerification): {
   return { hasFourEyes: false, reason: 'approval_before_last_commit' }
 }
 
+// =============================================================================
+// Final Review States
+// =============================================================================
+
+/** Review states that set a reviewer's verdict on the PR */
+const VERDICT_REVIEW_STATES: ReadonlySet<PrReview['state']> = new Set(['APPROVED', 'CHANGES_REQUESTED', 'DISMISSED'])
+
+/**
+ * Reduce a PR's review history to each reviewer's final verdict.
+ *
+ * Reviews are processed chronologically. APPROVED, CHANGES_REQUESTED and
+ * DISMISSED set the reviewer's verdict; COMMENTED and PENDING only count when
+ * the reviewer has no verdict yet, so a comment after an approval does not
+ * withdraw it. GitHub marks a dismissed review itself as DISMISSED.
+ *
+ * Snapshots stored before schema version 4 already hold one review per
+ * reviewer, in which case this returns them unchanged. Reviewers keep the
+ * order in which they first appear in the input.
+ */
+export function getFinalReviewStates(reviews: PrReview[]): PrReview[] {
+  const sorted = [...reviews].sort((a, b) => new Date(a.submittedAt).getTime() - new Date(b.submittedAt).getTime())
+  const finalByUser = new Map<string, PrReview>()
+
+  for (const review of sorted) {
+    const key = review.username.toLowerCase()
+    const current = finalByUser.get(key)
+    if (!current || VERDICT_REVIEW_STATES.has(review.state) || !VERDICT_REVIEW_STATES.has(current.state)) {
+      finalByUser.set(key, review)
+    }
+  }
+
+  // Keep reviewers in the order they first appear in the input
+  const usernames = new Set(reviews.map((r) => r.username.toLowerCase()))
+  return Array.from(usernames, (key) => finalByUser.get(key) as PrReview)
+}
+
+/**
+ * True when the history shows an approval (or a dismissed review), but no
+ * reviewer's final verdict is APPROVED.
+ */
+function hasRevokedApproval(reviews: PrReview[]): boolean {
+  const hadApproval = reviews.some((r) => r.state === 'APPROVED' || r.state === 'DISMISSED')
+  return hadApproval && !getFinalReviewStates(reviews).some((r) => r.state === 'APPROVED')
+}
+
+// =============================================================================
+// Approval Policy
+// =============================================================================
+
+/**
+ * Check approvers against the app's approval policy.
+ *
+ * Approvers who are also commit authors do not count. With no policy (or the
+ * default of one approval and no required teams) any approval is sufficient,
+ * matching the behaviour before approval policies were introduced.
+ */
+export function satisfiesApprovalPolicy(
+  approvers: string[],
+  commitAuthors: string[],
+  policy: ResolvedApprovalPolicy | undefined,
+): boolean {
+  if (!policy || (policy.minApprovals <= 1 && policy.requiredTeams.length === 0)) {
+    return approvers.length > 0
+  }
+
+  const authors = new Set(commitAuthors.map((a) => a.toLowerCase()))
+  const independentApprovers = new Set(approvers.map((a) => a.toLowerCase()).filter((a) => !authors.has(a)))
+
+  if (independentApprovers.size < policy.minApprovals) {
+    return false
+  }
+
+  return policy.requiredTeams.every((team) =>
+    (policy.teamMembers[team] ?? []).some((member) => independentApprovers.has(member.toLowerCase())),
+  )
+}
+
+// =============================================================================
+// CODEOWNERS Policy
+// =============================================================================
+
+/**
+ * Check a four-eyes approved PR against the app's CODEOWNERS policy.
+ *
+ * Returns null when the policy is off. A PR whose changed files or CODEOWNERS
+ * are unknown (not fetched) is not approved and is marked unknown, so the
+ * deployment is verified again once they can be fetched. A repository without
+ * CODEOWNERS has no owners to require. Approvals from commit authors and
+ * co-authors do not count.
+ */
+function checkPrCodeowners(
+  input: VerificationInput,
+  pr: { reviews: PrReview[]; commits: PrCommit[]; files?: string[]; codeowners?: CodeownersFile | null },
+): { approved: boolean; reason: string; unknown?: boolean } | null {
+  const policy = input.codeownersPolicy
+  if (!policy?.enabled) return null
+  if (pr.files === undefined || pr.codeowners === undefined) {
+    return { approved: false, reason: 'Changed files or CODEOWNERS are unknown', unknown: true }
+  }
+  if (pr.codeowners === null) return { approved: true, reason: 'Repository has no CODEOWNERS' }
+
+  const coAuthors = getCoAuthorUsernames(pr.commits, input.coAuthorMappings)
+  const authors = new Set([...pr.commits.map((c) => c.authorUsername.toLowerCase()), ...coAuthors])
+
+  return checkCodeownerApproval({
+    codeowners: pr.codeowners.content,
+    files: pr.files,
+    approvers: extractApprovers(pr.reviews).filter((a) => !authors.has(a.toLowerCase())),
+    appPaths: policy.appPaths,
+    teamMembers: policy.teamMembers,
+  })
+}
+
 // =============================================================================
 // Base Branch Merge Detection
 // =============================================================================
@@ -485,7 +727,7 @@ function shouldApproveWithBaseMerge(
   baseBranch = 'main',
 ): BaseMergeCheckResult {
   // Check if PR has any approvals
-  const approvals = reviews.filter((r) => r.state === 'APPROVED')
+  const approvals = getFinalReviewStates(reviews).filter((r) => r.state === 'APPROVED')
   if (approvals.length === 0) {
     return { approved: false, reason: 'no_approval' }
   }
@@ -528,6 +770,8 @@ function shouldApproveWithBaseMerge(
  * - mode 'off': Never qualifies
  * - mode 'dependabot_only': Only Dependabot PRs with only Dependabot commits qualify
  * - mode 'all': Any PR where merger is not creator AND not last commit author qualifies
+ *
+ * In all modes, a merger who is listed as co-author of a commit never qualifies.
  */
 export function checkImplicitApproval(params: {
   settings: ImplicitApprovalSettings
@@ -535,11 +779,16 @@ export function checkImplicitApproval(params: {
   lastCommitAuthor: string
   mergedBy: string
   allCommitAuthors: string[]
+  /** GitHub usernames from `Co-authored-by:` trailers */
+  coAuthors?: string[]
 }): { qualifies: boolean; reason?: string } {
-  const { settings, prCreator, lastCommitAuthor, mergedBy, allCommitAuthors } = params
+  const { settings, prCreator, lastCommitAuthor, mergedBy, allCommitAuthors, coAuthors = [] } = params
   const { mode } = settings
 
   const mergedByLower = mergedBy.toLowerCase()
+  if (mode !== 'off' && coAuthors.some((coAuthor) => coAuthor.toLowerCase() === mergedByLower)) {
+    return { qualifies: false }
+  }
   const prCreatorLower = prCreator.toLowerCase()
   const lastCommitAuthorLower = lastCommitAuthor.toLowerCase()
 
@@ -582,8 +831,79 @@ export function checkImplicitApproval(params: {
 // Helper Functions
 // =============================================================================
 
+/**
+ * Whether a workflow path matches one of the allowed workflows, given as a
+ * full path (.github/workflows/deploy.yml) or a file name (deploy.yml).
+ */
+export function isWorkflowAllowed(path: string, allowedWorkflows: string[]): boolean {
+  return allowedWorkflows.some((workflow) => path === workflow || path.endsWith(`/${workflow}`))
+}
+
+/**
+ * Check that the workflow run behind a deployment's trigger URL ran in the
+ * deployed repository for the deployed commit, so a run of an allowed
+ * workflow elsewhere cannot vouch for the deployment.
+ */
+export function checkWorkflowRunSource(
+  run: WorkflowRunInfo,
+  repository: string,
+  commitSha: string,
+): { allowed: boolean; reason: string } {
+  if (run.repository.toLowerCase() !== repository.toLowerCase()) {
+    return {
+      allowed: false,
+      reason: `Workflow run ${run.runId} belongs to '${run.repository}', not the deployed repository '${repository}'`,
+    }
+  }
+
+  if (run.headSha !== commitSha) {
+    return {
+      allowed: false,
+      reason: `Workflow run ${run.runId} was for commit ${run.headSha.substring(0, 7)}, not the deployed commit ${commitSha.substring(0, 7)}`,
+    }
+  }
+
+  return { allowed: true, reason: `Workflow run ${run.runId} built the deployed commit` }
+}
+
+/**
+ * Check the workflow run that triggered a deployment against the app's
+ * deploy workflow policy. A workflow entry matches the run's full path
+ * (.github/workflows/deploy.yml) or just its file name (deploy.yml).
+ */
+export function checkDeployWorkflow(
+  run: WorkflowRunInfo,
+  policy: DeployWorkflowPolicySettings,
+  baseBranch: string,
+): { allowed: boolean; reason: string } {
+  if (policy.allowedWorkflows.length > 0 && !isWorkflowAllowed(run.path, policy.allowedWorkflows)) {
+    return {
+      allowed: false,
+      reason: `Deployed by workflow '${run.path}', which is not among the allowed workflows (${policy.allowedWorkflows.join(', ')})`,
+    }
+  }
+
+  if (policy.allowedEvents.length > 0 && !policy.allowedEvents.includes(run.event)) {
+    return {
+      allowed: false,
+      reason: `Workflow run was triggered by '${run.event}', which is not among the allowed events (${policy.allowedEvents.join(', ')})`,
+    }
+  }
+
+  if (policy.requireBaseBranch && run.headBranch !== baseBranch) {
+    return {
+      allowed: false,
+      reason: `Workflow run was on branch '${run.headBranch ?? 'unknown'}', not base branch '${baseBranch}'`,
+    }
+  }
+
+  return { allowed: true, reason: `Workflow '${run.path}' (${run.event}) is allowed` }
+}
+
 function extractApprovers(reviews: PrReview[]): string[] {
-  return reviews.filter((r) => r.state === 'APPROVED').map((r) => r.username)
+  return getFinalReviewStates(reviews)
+    .filter((r) => r.state === 'APPROVED')
+    .map((r) => r.username)
 }
 
 function getLastCommitAuthor(commits: PrCommit[]): string {
@@ -595,6 +915,10 @@ function mapToUnverifiedReason(reason: string): UnverifiedReason {
   if (reason === 'no_pr') return 'no_pr'
   if (reason === 'no_approved_reviews') return 'no_approved_reviews'
   if (reason === 'approval_before_last_commit') return 'approval_before_last_commit'
+  if (reason === 'insufficient_approvals') return 'insufficient_approvals'
+  if (reason === 'approval_revoked') return 'approval_revoked'
+  if (reason === 'approval_by_co_author') return 'approval_by_co_author'
+  if (reason === 'codeowner_approval_missing') return 'codeowner_approval_missing'
   return 'pr_not_approved'
 }
 
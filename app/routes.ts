@@ -7,13 +7,20 @@ export default [
   route('api/reports/generate', 'routes/api/reports.generate.ts'),
   route('api/reports/download', 'routes/api/reports.download.ts'),
   route('api/reports/status', 'routes/api/reports.status.ts'),
+  route('api/reports/verify', 'routes/api/reports.verify.ts'),
   route('api/search', 'routes/api/search.ts'),
   route('api/checks/logs', 'routes/api/checks.logs.ts'),
   route('api/checks/annotations', 'routes/api/checks.annotations.ts'),
+  route('api/github/webhook', 'routes/api/github.webhook.ts'),
   route(
     'api/v1/apps/:team/:env/:app/verification-summary',
     'routes/api/v1.apps.$team.$env.$app.verification-summary.ts',
   ),
+  route('api/v1/apps', 'routes/api/v1.apps.ts'),
+  route('api/v1/apps/:team/:env/:app/deployments', 'routes/api/v1.apps.$team.$env.$app.deployments.ts'),
+  route('api/v1/apps/:team/:env/:app/deployments/:id', 'routes/api/v1.apps.$team.$env.$app.deployments.$id.ts'),
+  route('api/v1/apps/:team/:env/:app/deviations', 'routes/api/v1.apps.$team.$env.$app.deviations.ts'),
+  route('api/v1/openapi.json', 'routes/api/v1.openapi.ts'),
 
   layout('routes/layout.tsx', [
     index('routes/home.tsx'),
@@ -39,6 +46,10 @@ export default [
       'team/:team/env/:env/app/:app/admin/status-history',
       'routes/team/$team.env.$env.app.$app.admin.status-history.tsx',
     ),
+    route(
+      'team/:team/env/:env/app/:app/admin/policy-simulation',
+      'routes/team/$team.env.$env.app.$app.admin.policy-simulation.tsx',
+    ),
     route(
       'team/:team/env/:env/app/:app/admin/sync-job/:jobId',
       'routes/team/$team.env.$env.app.$app.admin.sync-job.$jobId.tsx',
@@ -52,6 +63,10 @@ export default [
       'team/:team/env/:env/app/:app/deployments/:deploymentId/debug-verify',
       'routes/team/$team.env.$env.app.$app.deployments.$deploymentId.debug-verify.tsx',
     ),
+    route(
+      'team/:team/env/:env/app/:app/deployments/:deploymentId/debug-verify/fixture',
+      'routes/team/$team.env.$env.app.$app.deployments.$deploymentId.debug-verify.fixture.ts',
+    ),
     route(
       'team/:team/env/:env/app/:app/deployments/:deploymentId/debug-keywords',
       'routes/team/$team.env.$env.app.$app.deployments.$deploymentId.debug-keywords.tsx',
@@ -68,7 +83,16 @@ export default [
     route('admin/audit-reports', 'routes/admin/audit-reports.tsx'),
     route('admin/audit-reports/:id/pdf', 'routes/admin/audit-reports.$id.pdf.ts'),
     route('admin/audit-reports/:id/view', 'routes/admin/audit-reports.$id.view.ts'),
+    route('admin/audit-reports/:id/export/:format', 'routes/admin/audit-reports.$id.export.$format.ts'),
+    route('admin/audit-reports/consolidated/:id/pdf', 'routes/admin/audit-reports.consolidated.$id.pdf.ts'),
+    route('admin/audit-reports/consolidated/:id/view', 'routes/admin/audit-reports.consolidated.$id.view.ts'),
+    route('admin/audit-log', 'routes/admin/audit-log.tsx'),
+    route('admin/audit-log/export', 'routes/admin/audit-log.export.ts'),
+    route('admin/deviations', 'routes/admin/deviations.tsx'),
+    route('admin/deviations/:id', 'routes/admin/deviations.$id.tsx'),
+    route('admin/alerts', 'routes/admin/alerts.tsx'),
     route('admin/global-settings', 'routes/admin/global-settings.tsx'),
+    route('admin/event-stream', 'routes/admin/event-stream.tsx'),
     route('admin/application-groups', 'routes/admin/application-groups.tsx'),
     route('admin/soft-deleted', 'routes/admin/soft-deleted.tsx'),
     route('admin/verification-diffs', 'routes/admin/verification-diffs.tsx'),
@@ -0,0 +1,214 @@
+/**
+ * Repository alert inbox across all applications
+ *
+ * Lists open alerts sorted by severity and age, or the most recently resolved
+ * alerts, filtered by type, severity, team and assignee.
+ */
+
+import {
+  Link as AkselLink,
+  BodyShort,
+  Box,
+  Button,
+  Detail,
+  Heading,
+  HStack,
+  Select,
+  Table,
+  Tag,
+  TextField,
+  VStack,
+} from '@navikt/ds-react'
+import { Form, Link, useLoaderData, useSearchParams } from 'react-router'
+import { getRepositoryAlerts } from '~/db/alerts.server'
+import { requireAdmin } from '~/lib/auth.server'
+import { DEVIATION_SEVERITY_LABELS, DEVIATION_SEVERITY_ORDER, type DeviationSeverity } from '~/lib/deviation-constants'
+import {
+  describeRepositoryAlert,
+  getRepositoryAlertTypeLabel,
+  isRepositoryAlertType,
+  REPOSITORY_ALERT_TYPE_LABELS,
+  REPOSITORY_ALERT_TYPES,
+} from '~/lib/repository-alerts'
+import type { Route } from './+types/alerts'
+
+export function meta(_args: Route.MetaArgs) {
+  return [{ title: 'Repository-varsler - Admin - NDA' }]
+}
+
+export async function loader({ request }: Route.LoaderArgs) {
+  const user = await requireAdmin(request)
+
+  const url = new URL(request.url)
+  const typeParam = url.searchParams.get('type')
+  const severityParam = url.searchParams.get('severity')
+  const team = url.searchParams.get('team')?.trim()
+
+  const alerts = await getRepositoryAlerts({
+    resolved: url.searchParams.get('status') === 'resolved',
+    alertType: isRepositoryAlertType(typeParam) ? typeParam : undefined,
+    severity: DEVIATION_SEVERITY_ORDER.find((s) => s === severityParam),
+    teamSlug: team || undefined,
+    assignedTo: url.searchParams.get('assigned') === 'me' ? user.navIdent : undefined,
+  })
+
+  return { alerts }
+}
+
+function severityColor(severity: DeviationSeverity): 'danger' | 'warning' | 'neutral' {
+  if (severity === 'critical' || severity === 'high') return 'danger'
+  if (severity === 'medium') return 'warning'
+  return 'neutral'
+}
+
+function daysSince(date: Date | string): number {
+  return Math.floor((Date.now() - new Date(date).getTime()) / (24 * 60 * 60 * 1000))
+}
+
+export default function AdminAlertsPage() {
+  const { alerts } = useLoaderData<typeof loader>()
+  const [searchParams] = useSearchParams()
+  const resolved = searchParams.get('status') === 'resolved'
+
+  const severityCounts = DEVIATION_SEVERITY_ORDER.map((severity) => ({
+    severity,
+    count: alerts.filter((a) => a.severity === severity).length,
+  }))
+
+  return (
+    <VStack gap="space-24">
+      <VStack gap="space-8">
+        <Heading level="1" size="large">
+          Repository-varsler
+        </Heading>
+        <BodyShort textColor="subtle">
+          Varsler om ukjente repoer, repo-endringer, deploy-workflows og images på tvers av applikasjoner. Varsler løses
+          automatisk ved neste synkronisering når forholdet ikke lenger finnes.
+        </BodyShort>
+      </VStack>
+
+      <Form method="get">
+        <HStack gap="space-16" align="end" wrap>
+          <Select label="Status" name="status" size="small" defaultValue={resolved ? 'resolved' : 'open'}>
+            <option value="open">Åpne</option>
+            <option value="resolved">Løste</option>
+          </Select>
+          <Select label="Type" name="type" size="small" defaultValue={searchParams.get('type') || ''}>
+            <option value="">Alle</option>
+            {REPOSITORY_ALERT_TYPES.map((alertType) => (
+              <option key={alertType} value={alertType}>
+                {REPOSITORY_ALERT_TYPE_LABELS[alertType]}
+              </option>
+            ))}
+          </Select>
+          <Select
+            label="Alvorlighetsgrad"
+            name="severity"
+            size="small"
+            defaultValue={searchParams.get('severity') || ''}
+          >
+            <option value="">Alle</option>
+            {DEVIATION_SEVERITY_ORDER.map((severity) => (
+              <option key={severity} value={severity}>
+                {DEVIATION_SEVERITY_LABELS[severity]}
+              </option>
+            ))}
+          </Select>
+          <TextField label="Team" name="team" size="small" defaultValue={searchParams.get('team') || ''} />
+          <Select label="Tildelt" name="assigned" size="small" defaultValue={searchParams.get('assigned') || ''}>
+            <option value="">Alle</option>
+            <option value="me">Meg</option>
+          </Select>
+          <Button type="submit" size="small">
+            Filtrer
+          </Button>
+          <Button as={Link} to="/admin/alerts" variant="tertiary" size="small">
+            Nullstill
+          </Button>
+        </HStack>
+      </Form>
+
+      {!resolved && (
+        <HStack gap="space-8" wrap>
+          {severityCounts.map(({ severity, count }) => (
+            <Tag key={severity} size="small" variant="moderate" data-color={severityColor(severity)}>
+              {DEVIATION_SEVERITY_LABELS[severity]}: {count}
+            </Tag>
+          ))}
+        </HStack>
+      )}
+
+      {alerts.length === 0 ? (
+        <BodyShort textColor="subtle" style={{ fontStyle: 'italic' }}>
+          {resolved ? 'Ingen løste varsler.' : 'Ingen åpne varsler.'}
+        </BodyShort>
+      ) : (
+        <Box borderRadius="8" background="raised" borderColor="neutral-subtle" borderWidth="1">
+          <Table size="small">
+            <Table.Header>
+              <Table.Row>
+                <Table.HeaderCell>Varsel</Table.HeaderCell>
+                <Table.HeaderCell>Applikasjon</Table.HeaderCell>
+                <Table.HeaderCell>Alvorlighetsgrad</Table.HeaderCell>
+                <Table.HeaderCell>Tildelt</Table.HeaderCell>
+                <Table.HeaderCell>{resolved ? 'Løst' : 'Alder'}</Table.HeaderCell>
+              </Table.Row>
+            </Table.Header>
+            <Table.Body>
+              {alerts.map((alert) => {
+                const appUrl = `/team/${alert.team_slug}/env/${alert.environment_name}/app/${alert.app_name}`
+                return (
+                  <Table.Row key={alert.id}>
+                    <Table.DataCell>
+                      <BodyShort size="small" weight="semibold">
+                        {getRepositoryAlertTypeLabel(alert.alert_type)}
+                      </BodyShort>
+                      <Detail textColor="subtle">{describeRepositoryAlert(alert)}</Detail>
+                      {alert.deployment_id && (
+                        <Link to={`${appUrl}/deployments/${alert.deployment_id}`}>
+                          <AkselLink as="span">
+                            <Detail>Deployment #{alert.deployment_id}</Detail>
+                          </AkselLink>
+                        </Link>
+                      )}
+                    </Table.DataCell>
+                    <Table.DataCell>
+                      <Link to={`${appUrl}#varsler`}>
+                        <AkselLink as="span">{alert.app_name}</AkselLink>
+                      </Link>
+                      <Detail textColor="subtle">
+                        {alert.team_slug} / {alert.environment_name}
+                      </Detail>
+                    </Table.DataCell>
+                    <Table.DataCell>
+                      <Tag size="xsmall" variant="moderate" data-color={severityColor(alert.severity)}>
+                        {DEVIATION_SEVERITY_LABELS[alert.severity] ?? alert.severity}
+                      </Tag>
+                    </Table.DataCell>
+                    <Table.DataCell>
+                      {alert.assigned_to_name || alert.assigned_to_nav_ident || (
+                        <Detail textColor="subtle">Ikke tildelt</Detail>
+                      )}
+                    </Table.DataCell>
+                    <Table.DataCell>
+                      {resolved && alert.resolved_at ? (
+                        <>
+                          {new Date(alert.resolved_at).toLocaleDateString('no-NO', { dateStyle: 'medium' })}
+                          <Detail textColor="subtle">
+                            {alert.resolution_type === 'auto' ? 'Automatisk' : alert.resolved_by}
+                          </Detail>
+                        </>
+                      ) : (
+                        `${daysSince(alert.created_at)} dager`
+                      )}
+                    </Table.DataCell>
+                  </Table.Row>
+                )
+              })}
+            </Table.Body>
+          </Table>
+        </Box>
+      )}
+    </VStack>
+  )
+}
@@ -51,7 +51,7 @@ export async function action({ request }: Route.ActionArgs) {
     const name = (formData.get('name') as string)?.trim()
     if (!name) return { error: 'Gruppenavn er påkrevd' }
 
-    await createApplicationGroup(name)
+    await createApplicationGroup(name, user)
     return { success: `Opprettet gruppe "${name}"` }
   }
 
@@ -59,7 +59,7 @@ export async function action({ request }: Route.ActionArgs) {
     const groupId = parseInt(formData.get('group_id') as string, 10)
     if (!groupId) return { error: 'Ugyldig gruppe-ID' }
 
-    await deleteGroup(groupId, user.navIdent)
+    await deleteGroup(groupId, user.navIdent, user)
     return { success: 'Gruppe slettet' }
   }
 
@@ -68,7 +68,7 @@ export async function action({ request }: Route.ActionArgs) {
     const appId = parseInt(formData.get('app_id') as string, 10)
     if (!groupId || !appId) return { error: 'Ugyldig gruppe- eller applikasjons-ID' }
 
-    await addAppToGroup(groupId, appId)
+    await addAppToGroup(groupId, appId, user)
     return { success: 'Applikasjon lagt til i gruppen' }
   }
 
@@ -76,7 +76,7 @@ export async function action({ request }: Route.ActionArgs) {
     const appId = parseInt(formData.get('app_id') as string, 10)
     if (!appId) return { error: 'Ugyldig applikasjons-ID' }
 
-    await removeAppFromGroup(appId)
+    await removeAppFromGroup(appId, user)
     return { success: 'Applikasjon fjernet fra gruppen' }
   }
 
@@ -89,8 +89,8 @@ export async function action({ request }: Route.ActionArgs) {
 
     if (appsToGroup.length < 2) return { error: 'Fant ikke nok applikasjoner å gruppere' }
 
-    const group = await createApplicationGroup(appName)
-    await Promise.all(appsToGroup.map((app) => addAppToGroup(group.id, app.id)))
+    const group = await createApplicationGroup(appName, user)
+    await Promise.all(appsToGroup.map((app) => addAppToGroup(group.id, app.id, user)))
     return { success: `Opprettet gruppe "${appName}" med ${appsToGroup.length} applikasjoner` }
   }
 
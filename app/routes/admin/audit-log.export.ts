@@ -0,0 +1,36 @@
+import { getAuditEvents } from '~/db/audit-events.server'
+import {
+  AUDIT_EVENT_CSV_COLUMNS,
+  MAX_AUDIT_EVENT_EXPORT_ROWS,
+  parseAuditEventFilters,
+  toAuditEventCsvRow,
+} from '~/lib/audit-events'
+import { toCsv } from '~/lib/audit-report-export.server'
+import { requireAdmin } from '~/lib/auth.server'
+import type { Route } from './+types/audit-log.export'
+
+export async function loader({ request }: Route.LoaderArgs) {
+  await requireAdmin(request)
+
+  const filters = parseAuditEventFilters(new URL(request.url).searchParams)
+  const { events, total } = await getAuditEvents(filters, { limit: MAX_AUDIT_EVENT_EXPORT_ROWS })
+  // The newest events are exported; the file name says so when older ones are left out
+  const truncated = total > events.length
+  const date = new Date().toISOString().split('T')[0]
+  const filename = truncated ? `audit-log-${date}-newest-${events.length}-of-${total}.csv` : `audit-log-${date}.csv`
+
+  const csv = toCsv({
+    name: 'audit-log',
+    columns: [...AUDIT_EVENT_CSV_COLUMNS],
+    rows: events.map(toAuditEventCsvRow),
+  })
+
+  return new Response(csv, {
+    status: 200,
+    headers: {
+      'Content-Type': 'text/csv; charset=utf-8',
+      'Content-Disposition': `attachment; filename="${filename}"`,
+      'X-Total-Count': String(total),
+    },
+  })
+}
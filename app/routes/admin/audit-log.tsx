@@ -0,0 +1,262 @@
+/**
+ * Audit log across the system
+ *
+ * Lists recorded user actions with filters on actor, action, entity and period,
+ * and exports the filtered events as CSV for auditors.
+ */
+
+import { ChevronLeftIcon, ChevronRightIcon, DownloadIcon } from '@navikt/aksel-icons'
+import {
+  Alert,
+  BodyShort,
+  Box,
+  Button,
+  DatePicker,
+  Detail,
+  Heading,
+  HStack,
+  Select,
+  Table,
+  TextField,
+  useDatepicker,
+  VStack,
+} from '@navikt/ds-react'
+import { useState } from 'react'
+import { Form, Link, useLoaderData, useSearchParams } from 'react-router'
+import { getAuditEvents } from '~/db/audit-events.server'
+import {
+  AUDIT_ACTION_LABELS,
+  AUDIT_ENTITY_TYPE_LABELS,
+  type AuditAction,
+  type AuditEntityType,
+  MAX_AUDIT_EVENT_EXPORT_ROWS,
+  parseAuditEventFilters,
+} from '~/lib/audit-events'
+import { requireAdmin } from '~/lib/auth.server'
+import { toDateInputValue } from '~/lib/board-periods'
+import type { Route } from './+types/audit-log'
+
+const PAGE_SIZE = 50
+
+export function meta(_args: Route.MetaArgs) {
+  return [{ title: 'Revisjonslogg - Admin - NDA' }]
+}
+
+export async function loader({ request }: Route.LoaderArgs) {
+  await requireAdmin(request)
+
+  const url = new URL(request.url)
+  const filters = parseAuditEventFilters(url.searchParams)
+  const page = Math.max(1, parseInt(url.searchParams.get('page') || '1', 10) || 1)
+
+  const { events, total } = await getAuditEvents(filters, { limit: PAGE_SIZE, offset: (page - 1) * PAGE_SIZE })
+
+  return { events, total, page, totalPages: Math.max(1, Math.ceil(total / PAGE_SIZE)) }
+}
+
+function formatDateTime(date: Date | string): string {
+  return new Date(date).toLocaleString('no-NO', { dateStyle: 'short', timeStyle: 'medium' })
+}
+
+function formatState(state: Record<string, unknown> | null): string {
+  if (!state) return '–'
+  return Object.entries(state)
+    .map(([key, value]) => `${key}: ${typeof value === 'string' ? value : JSON.stringify(value)}`)
+    .join(', ')
+}
+
+function entityUrl(event: {
+  entity_type: AuditEntityType
+  entity_id: string
+  team_slug: string | null
+  environment_name: string | null
+  app_name: string | null
+}): string | null {
+  if (event.entity_type === 'deviation') return `/admin/deviations/${event.entity_id}`
+  if (!event.team_slug) return null
+  const appUrl = `/team/${event.team_slug}/env/${event.environment_name}/app/${event.app_name}`
+  if (event.entity_type === 'deployment') return `${appUrl}/deployments/${event.entity_id}`
+  return appUrl
+}
+
+export default function AdminAuditLogPage() {
+  const { events, total, page, totalPages } = useLoaderData<typeof loader>()
+  const [searchParams, setSearchParams] = useSearchParams()
+  const [from, setFrom] = useState(searchParams.get('from') || '')
+  const [to, setTo] = useState(searchParams.get('to') || '')
+
+  const fromDatepicker = useDatepicker({
+    defaultSelected: from ? new Date(`${from}T12:00:00`) : undefined,
+    onDateChange: (date) => setFrom(date ? toDateInputValue(date) : ''),
+  })
+  const toDatepicker = useDatepicker({
+    defaultSelected: to ? new Date(`${to}T12:00:00`) : undefined,
+    onDateChange: (date) => setTo(date ? toDateInputValue(date) : ''),
+  })
+
+  const exportParams = new URLSearchParams(searchParams)
+  exportParams.delete('page')
+
+  const goToPage = (newPage: number) => {
+    const params = new URLSearchParams(searchParams)
+    params.set('page', String(newPage))
+    setSearchParams(params)
+  }
+
+  return (
+    <VStack gap="space-24">
+      <HStack justify="space-between" align="end" wrap>
+        <VStack gap="space-8">
+          <Heading level="1" size="large">
+            Revisjonslogg
+          </Heading>
+          <BodyShort textColor="subtle">
+            Alle endringer gjort av brukere: hvem, når, hva som ble endret og verdien før og etter.
+          </BodyShort>
+        </VStack>
+        <Button
+          as="a"
+          href={`/admin/audit-log/export?${exportParams.toString()}`}
+          variant="secondary"
+          size="small"
+          icon={<DownloadIcon aria-hidden />}
+        >
+          Eksporter CSV
+        </Button>
+      </HStack>
+
+      <Form method="get">
+        <input type="hidden" name="from" value={from} />
+        <input type="hidden" name="to" value={to} />
+        <HStack gap="space-16" align="end" wrap>
+          <TextField
+            label="Utført av"
+            name="actor"
+            size="small"
+            defaultValue={searchParams.get('actor') || ''}
+            description="NAV-ident eller navn"
+          />
+          <Select label="Handling" name="action" size="small" defaultValue={searchParams.get('action') || ''}>
+            <option value="">Alle</option>
+            {(Object.keys(AUDIT_ACTION_LABELS) as AuditAction[]).map((action) => (
+              <option key={action} value={action}>
+                {AUDIT_ACTION_LABELS[action]}
+              </option>
+            ))}
+          </Select>
+          <Select label="Type" name="entity_type" size="small" defaultValue={searchParams.get('entity_type') || ''}>
+            <option value="">Alle</option>
+            {(Object.keys(AUDIT_ENTITY_TYPE_LABELS) as AuditEntityType[]).map((entityType) => (
+              <option key={entityType} value={entityType}>
+                {AUDIT_ENTITY_TYPE_LABELS[entityType]}
+              </option>
+            ))}
+          </Select>
+          <TextField label="ID" name="entity_id" size="small" defaultValue={searchParams.get('entity_id') || ''} />
+          <DatePicker {...fromDatepicker.datepickerProps}>
+            <DatePicker.Input {...fromDatepicker.inputProps} label="Fra" size="small" />
+          </DatePicker>
+          <DatePicker {...toDatepicker.datepickerProps}>
+            <DatePicker.Input {...toDatepicker.inputProps} label="Til" size="small" />
+          </DatePicker>
+          <Button type="submit" size="small">
+            Filtrer
+          </Button>
+          <Button as={Link} to="/admin/audit-log" variant="tertiary" size="small">
+            Nullstill
+          </Button>
+        </HStack>
+      </Form>
+
+      <Detail textColor="subtle">{total} hendelser</Detail>
+
+      {total > MAX_AUDIT_EVENT_EXPORT_ROWS && (
+        <Alert variant="warning" size="small">
+          Eksporten inneholder kun de {MAX_AUDIT_EVENT_EXPORT_ROWS} nyeste av {total} hendelser. Snevre inn filteret,
+          for eksempel på periode, for å eksportere alle.
+        </Alert>
+      )}
+
+      {events.length === 0 ? (
+        <BodyShort textColor="subtle" style={{ fontStyle: 'italic' }}>
+          Ingen hendelser funnet.
+        </BodyShort>
+      ) : (
+        <Box borderRadius="8" background="raised" borderColor="neutral-subtle" borderWidth="1">
+          <Table size="small">
+            <Table.Header>
+              <Table.Row>
+                <Table.HeaderCell>Tidspunkt</Table.HeaderCell>
+                <Table.HeaderCell>Utført av</Table.HeaderCell>
+                <Table.HeaderCell>Handling</Table.HeaderCell>
+                <Table.HeaderCell>Gjelder</Table.HeaderCell>
+                <Table.HeaderCell>Før</Table.HeaderCell>
+                <Table.HeaderCell>Etter</Table.HeaderCell>
+              </Table.Row>
+            </Table.Header>
+            <Table.Body>
+              {events.map((event) => {
+                const url = entityUrl(event)
+                const entityLabel = `${AUDIT_ENTITY_TYPE_LABELS[event.entity_type] ?? event.entity_type} #${event.entity_id}`
+                return (
+                  <Table.Row key={event.id}>
+                    <Table.DataCell>
+                      {formatDateTime(event.created_at)}
+                      {event.trace_id && <Detail textColor="subtle">Trace {event.trace_id.substring(0, 8)}</Detail>}
+                    </Table.DataCell>
+                    <Table.DataCell>
+                      {event.actor_name || event.actor_nav_ident}
+                      {event.actor_name && <Detail textColor="subtle">{event.actor_nav_ident}</Detail>}
+                    </Table.DataCell>
+                    <Table.DataCell>{AUDIT_ACTION_LABELS[event.action] ?? event.action}</Table.DataCell>
+                    <Table.DataCell>
+                      {url ? <Link to={url}>{entityLabel}</Link> : entityLabel}
+                      {event.app_name && (
+                        <Detail textColor="subtle">
+                          {event.app_name} ({event.environment_name})
+                        </Detail>
+                      )}
+                    </Table.DataCell>
+                    <Table.DataCell>
+                      <Detail>{formatState(event.before_state)}</Detail>
+                    </Table.DataCell>
+                    <Table.DataCell>
+                      <Detail>{formatState(event.after_state)}</Detail>
+                    </Table.DataCell>
+                  </Table.Row>
+                )
+              })}
+            </Table.Body>
+          </Table>
+        </Box>
+      )}
+
+      {totalPages > 1 && (
+        <HStack gap="space-16" justify="center" align="center">
+          <Button
+            variant="tertiary"
+            size="small"
+            icon={<ChevronLeftIcon aria-hidden />}
+            disabled={page <= 1}
+            onClick={() => goToPage(page - 1)}
+          >
+            Forrige
+          </Button>
+          <BodyShort>
+            Side {page} av {totalPages}
+          </BodyShort>
+          <Button
+            variant="tertiary"
+            size="small"
+            icon={<ChevronRightIcon aria-hidden />}
+            iconPosition="right"
+            disabled={page >= totalPages}
+            onClick={() => goToPage(page + 1)}
+          >
+            Neste
+          </Button>
+        </HStack>
+      )}
+    </VStack>
+  )
+}
@@ -0,0 +1,62 @@
+import { getAuditReportById } from '~/db/audit-reports.server'
+import {
+  buildAuditReportCsvZip,
+  buildAuditReportJsonExport,
+  buildAuditReportXlsx,
+  getAuditReportExportMetadata,
+  isAuditReportExportFormat,
+} from '~/lib/audit-report-export.server'
+import { requireAdmin } from '~/lib/auth.server'
+import type { Route } from './+types/audit-reports.$id.export.$format'
+
+export async function loader({ request, params }: Route.LoaderArgs) {
+  await requireAdmin(request)
+
+  const reportId = Number(params.id)
+  const format = params.format
+
+  if (!reportId) {
+    throw new Response('Ugyldig rapport-ID', { status: 400 })
+  }
+
+  if (!isAuditReportExportFormat(format)) {
+    throw new Response('Ugyldig eksportformat. Bruk json, csv eller xlsx.', { status: 400 })
+  }
+
+  const report = await getAuditReportById(reportId)
+
+  if (!report) {
+    throw new Response('Rapport ikke funnet', { status: 404 })
+  }
+
+  const metadata = getAuditReportExportMetadata(report)
+  // Exports expose the content hash in a header too, so they can be matched to the PDF without parsing
+  const hashHeader = { 'X-Content-Hash': report.content_hash }
+
+  switch (format) {
+    case 'json':
+      return new Response(JSON.stringify(buildAuditReportJsonExport(metadata, report.report_data), null, 2), {
+        headers: {
+          'Content-Type': 'application/json; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${report.report_id}.json"`,
+          ...hashHeader,
+        },
+      })
+    case 'csv':
+      return new Response(new Uint8Array(buildAuditReportCsvZip(metadata, report.report_data)), {
+        headers: {
+          'Content-Type': 'application/zip',
+          'Content-Disposition': `attachment; filename="${report.report_id}-csv.zip"`,
+          ...hashHeader,
+        },
+      })
+    case 'xlsx':
+      return new Response(new Uint8Array(buildAuditReportXlsx(metadata, report.report_data)), {
+        headers: {
+          'Content-Type': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+          'Content-Disposition': `attachment; filename="${report.report_id}.xlsx"`,
+          ...hashHeader,
+        },
+      })
+  }
+}
@@ -0,0 +1,152 @@
+import { buildReportData, checkAuditReadiness, getAuditReportData } from '~/db/audit-reports.server'
+import {
+  type ConsolidatedScope,
+  getConsolidatedScope,
+  saveConsolidatedAuditReport,
+  updateConsolidatedAuditReportPdf,
+} from '~/db/consolidated-audit-reports.server'
+import { createConsolidatedReportJob, updateReportJobStatus } from '~/db/report-jobs.server'
+import { generateConsolidatedAuditReportPdf } from '~/lib/audit-report-pdf'
+import { requireAdmin } from '~/lib/auth.server'
+import {
+  buildConsolidatedReportData,
+  type ConsolidatedAppInput,
+  isConsolidatedScopeType,
+} from '~/lib/consolidated-report'
+import { logger } from '~/lib/logger.server'
+import type { ReportPeriodType } from '~/lib/report-periods'
+
+interface ConsolidatedReportJobParams {
+  jobId: string
+  scope: ConsolidatedScope
+  year: number
+  periodType: ReportPeriodType
+  periodLabel: string
+  periodStart: Date
+  periodEnd: Date
+  generatedBy: string
+}
+
+// Async function to process consolidated report generation in background
+async function processConsolidatedReportJobAsync(params: ConsolidatedReportJobParams) {
+  const { jobId, scope, year, periodType, periodLabel, periodStart, periodEnd, generatedBy } = params
+  try {
+    await updateReportJobStatus(jobId, 'processing')
+
+    // One app at a time - each app loads all deployments in the period
+    const apps: ConsolidatedAppInput[] = []
+    for (const app of scope.apps) {
+      const rawData = await getAuditReportData(app.monitored_app_id, periodStart, periodEnd)
+      const readiness = await checkAuditReadiness(app.monitored_app_id, periodStart, periodEnd)
+      apps.push({
+        monitoredAppId: app.monitored_app_id,
+        appName: app.app_name,
+        teamSlug: app.team_slug,
+        environmentName: app.environment_name,
+        repository: rawData.repository,
+        pendingCount: readiness.pending_count,
+        reportData: buildReportData(rawData),
+      })
+    }
+
+    const report = await saveConsolidatedAuditReport({
+      scope,
+      year,
+      periodType,
+      periodLabel,
+      periodStart,
+      periodEnd,
+      reportData: buildConsolidatedReportData(apps),
+      generatedBy,
+    })
+
+    const pdfBuffer = await generateConsolidatedAuditReportPdf({
+      scopeType: report.scope_type,
+      scopeName: report.scope_name,
+      periodLabel: report.period_label,
+      periodStart: new Date(report.period_start),
+      periodEnd: new Date(report.period_end),
+      reportData: report.report_data,
+      contentHash: report.content_hash,
+      previousHash: report.previous_hash,
+      chainHash: report.chain_hash,
+      signature: report.signature,
+      signingKeyFingerprint: report.signing_key_fingerprint,
+      reportId: report.report_id,
+      generatedAt: new Date(report.generated_at),
+    })
+
+    await updateConsolidatedAuditReportPdf(report.id, Buffer.from(pdfBuffer))
+    await updateReportJobStatus(jobId, 'completed', pdfBuffer)
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error'
+    await updateReportJobStatus(jobId, 'failed', undefined, errorMessage)
+    throw err
+  }
+}
+
+export async function action({ request }: { request: Request }) {
+  const user = await requireAdmin(request)
+
+  const formData = await request.formData()
+  const action = formData.get('action') as string
+
+  if (action === 'generate_consolidated_report') {
+    const scopeType = formData.get('scope_type')
+    const scopeSlug = formData.get('scope_slug') as string
+    const periodType = (formData.get('period_type') as ReportPeriodType) || 'yearly'
+    const periodLabel = formData.get('period_label') as string
+    const periodStartStr = formData.get('period_start') as string
+    const periodEndStr = formData.get('period_end') as string
+    const year = Number(formData.get('year'))
+
+    if (!isConsolidatedScopeType(scopeType) || !scopeSlug) {
+      return { error: 'Velg seksjon eller utviklingsteam' }
+    }
+    if (!periodStartStr || !periodEndStr || !periodLabel || !year) {
+      return { error: 'Mangler påkrevde felter for rapportgenerering' }
+    }
+
+    const periodStart = new Date(periodStartStr)
+    const periodEnd = new Date(periodEndStr)
+
+    // Block incomplete periods
+    if (periodEnd > new Date()) {
+      return { error: 'Kan ikke generere rapport for ufullstendige perioder' }
+    }
+
+    const scope = await getConsolidatedScope(scopeType, scopeSlug)
+    if (!scope) {
+      return { error: 'Fant ikke seksjonen eller utviklingsteamet' }
+    }
+    if (scope.apps.length === 0) {
+      return { error: `${scope.name} har ingen produksjonsapplikasjoner` }
+    }
+
+    let jobId: string
+    try {
+      jobId = await createConsolidatedReportJob(scope.slug, year, periodType, periodLabel, periodStart, periodEnd)
+    } catch (err) {
+      logger.error('Failed to create consolidated report job', err)
+      return { error: 'Kunne ikke opprette rapportjobb. Sjekk serverloggen for detaljer.' }
+    }
+
+    // Start async processing (fire and forget)
+    processConsolidatedReportJobAsync({
+      jobId,
+      scope,
+      year,
+      periodType,
+      periodLabel,
+      periodStart,
+      periodEnd,
+      generatedBy: user.navIdent,
+    }).catch((err) => {
+      logger.error(`Consolidated report job ${jobId} failed:`, err)
+    })
+
+    return { jobStarted: jobId }
+  }
+
+  return { error: 'Ukjent handling' }
+}
@@ -0,0 +1,30 @@
+import { getConsolidatedAuditReportById } from '~/db/consolidated-audit-reports.server'
+import { requireAdmin } from '~/lib/auth.server'
+import type { Route } from './+types/audit-reports.consolidated.$id.view'
+
+export async function loader({ request, params }: Route.LoaderArgs) {
+  await requireAdmin(request)
+
+  const reportId = Number(params.id)
+
+  if (!reportId) {
+    throw new Response('Ugyldig rapport-ID', { status: 400 })
+  }
+
+  const report = await getConsolidatedAuditReportById(reportId)
+
+  if (!report) {
+    throw new Response('Rapport ikke funnet', { status: 404 })
+  }
+
+  if (!report.pdf_data) {
+    throw new Response('PDF ikke generert ennå. Generer rapporten på nytt.', { status: 404 })
+  }
+
+  return new Response(new Uint8Array(report.pdf_data), {
+    headers: {
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `inline; filename="${report.report_id}.pdf"`,
+    },
+  })
+}
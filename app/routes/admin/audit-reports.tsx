@@ -1,6 +1,7 @@
 import { DownloadIcon, EyeIcon } from '@navikt/aksel-icons'
 import {
   Link as AkselLink,
+  Alert,
   BodyShort,
   Box,
   Button,
@@ -8,22 +9,43 @@ import {
   Heading,
   Hide,
   HStack,
+  Loader,
+  Select,
   Show,
   Table,
   Tag,
   VStack,
 } from '@navikt/ds-react'
-import { Link, useLoaderData } from 'react-router'
+import { useEffect, useRef, useState } from 'react'
+import { Form, Link, useActionData, useFetcher, useLoaderData, useNavigation, useRevalidator } from 'react-router'
 import { getAllAuditReports } from '~/db/audit-reports.server'
+import { getAllConsolidatedAuditReports } from '~/db/consolidated-audit-reports.server'
+import { getAllDevTeams } from '~/db/dev-teams.server'
+import { getAllSectionsWithTeams } from '~/db/sections.server'
 import { requireAdmin } from '~/lib/auth.server'
+import { CONSOLIDATED_SCOPE_TYPE_LABELS } from '~/lib/consolidated-report'
+import { getCompletedPeriods, REPORT_PERIOD_TYPE_LABELS, type ReportPeriodType } from '~/lib/report-periods'
 import styles from '~/styles/common.module.css'
 import type { Route } from './+types/audit-reports'
+import type { action } from './audit-reports.actions.server'
+
+export { action } from './audit-reports.actions.server'
 
 export async function loader({ request }: Route.LoaderArgs) {
   await requireAdmin(request)
 
-  const reports = await getAllAuditReports()
-  return { reports }
+  const [reports, consolidatedReports, sections, devTeams] = await Promise.all([
+    getAllAuditReports(),
+    getAllConsolidatedAuditReports(),
+    getAllSectionsWithTeams(),
+    getAllDevTeams(),
+  ])
+  return {
+    reports,
+    consolidatedReports,
+    sections: sections.map((s) => ({ slug: s.slug, name: s.name })),
+    devTeams: devTeams.map((t) => ({ slug: t.slug, name: t.name })),
+  }
 }
 
 export function meta() {
@@ -41,6 +63,244 @@ function formatDateTime(date: Date | string): string {
   })
 }
 
+function formatCoverage(coverage: string | number): string {
+  return `${(Number(coverage) * 100).toFixed(1).replace('.', ',')} %`
+}
+
+function ConsolidatedReportSection() {
+  const { consolidatedReports, sections, devTeams } = useLoaderData<typeof loader>()
+  const actionData = useActionData<typeof action>()
+  const navigation = useNavigation()
+  const revalidator = useRevalidator()
+
+  const [scope, setScope] = useState('')
+  const [periodType, setPeriodType] = useState<ReportPeriodType>('yearly')
+  const availablePeriods = getCompletedPeriods(periodType, new Date())
+  const [selectedPeriodIndex, setSelectedPeriodIndex] = useState(0)
+  const selectedPeriod = availablePeriods[selectedPeriodIndex] || availablePeriods[0]
+  const [scopeType, scopeSlug] = scope.split(':')
+
+  // Polling state for report background job (using useFetcher)
+  const jobFetcher = useFetcher<{ status: string; error?: string }>()
+  const [pendingJobId, setPendingJobId] = useState<string | null>(null)
+  const [jobError, setJobError] = useState<string | null>(null)
+  const [jobCompleted, setJobCompleted] = useState(false)
+
+  useEffect(() => {
+    if (actionData && 'jobStarted' in actionData && actionData.jobStarted) {
+      setPendingJobId(actionData.jobStarted)
+      setJobError(null)
+      setJobCompleted(false)
+    }
+  }, [actionData])
+
+  // Stable ref for fetcher.load to avoid infinite re-renders in polling effect
+  const jobFetcherLoadRef = useRef(jobFetcher.load)
+  jobFetcherLoadRef.current = jobFetcher.load
+
+  useEffect(() => {
+    if (!pendingJobId) return
+    const load = () => jobFetcherLoadRef.current(`/api/reports/status?jobId=${pendingJobId}`)
+    load()
+    const interval = setInterval(load, 2000)
+    return () => clearInterval(interval)
+  }, [pendingJobId])
+
+  useEffect(() => {
+    if (!jobFetcher.data || !pendingJobId) return
+
+    if (jobFetcher.data.status === 'completed') {
+      setPendingJobId(null)
+      setJobCompleted(true)
+      revalidator.revalidate()
+    } else if (jobFetcher.data.status === 'failed') {
+      setPendingJobId(null)
+      setJobError(jobFetcher.data.error || 'Ukjent feil')
+    }
+  }, [jobFetcher.data, pendingJobId, revalidator])
+
+  return (
+    <Box padding="space-24" borderRadius="8" background="raised" borderColor="neutral-subtle" borderWidth="1">
+      <VStack gap="space-16">
+        <div>
+          <Heading level="2" size="medium" spacing>
+            Samlet rapport for seksjon eller utviklingsteam
+          </Heading>
+          <BodyShort textColor="subtle">
+            Sammenstiller leveranserapport-data for alle produksjonsapplikasjoner i en seksjon eller et utviklingsteam,
+            med oppsummering per applikasjon, samlet avviksliste og samlet fire-øyne-dekning.
+          </BodyShort>
+        </div>
+
+        {actionData && 'error' in actionData && actionData.error && <Alert variant="error">{actionData.error}</Alert>}
+        {jobError && <Alert variant="error">Rapportgenerering feilet: {jobError}</Alert>}
+        {jobCompleted && <Alert variant="success">Samlet rapport er generert!</Alert>}
+        {pendingJobId && (
+          <Alert variant="info">
+            <HStack gap="space-12" align="center">
+              <Loader size="small" />
+              <span>Genererer samlet rapport... Dette kan ta noen minutter.</span>
+            </HStack>
+          </Alert>
+        )}
+
+        <Form method="post">
+          <input type="hidden" name="scope_type" value={scopeType ?? ''} />
+          <input type="hidden" name="scope_slug" value={scopeSlug ?? ''} />
+          {selectedPeriod && (
+            <>
+              <input type="hidden" name="year" value={selectedPeriod.year} />
+              <input type="hidden" name="period_type" value={selectedPeriod.type} />
+              <input type="hidden" name="period_label" value={selectedPeriod.label} />
+              <input type="hidden" name="period_start" value={selectedPeriod.startDate.toISOString()} />
+              <input type="hidden" name="period_end" value={selectedPeriod.endDate.toISOString()} />
+            </>
+          )}
+          <HStack gap="space-16" align="end" wrap>
+            <Select
+              label="Omfang"
+              value={scope}
+              onChange={(e) => setScope(e.target.value)}
+              size="small"
+              style={{ minWidth: '220px' }}
+            >
+              <option value="">Velg...</option>
+              <optgroup label="Seksjoner">
+                {sections.map((section) => (
+                  <option key={section.slug} value={`section:${section.slug}`}>
+                    {section.name}
+                  </option>
+                ))}
+              </optgroup>
+              <optgroup label="Utviklingsteam">
+                {devTeams.map((team) => (
+                  <option key={team.slug} value={`dev_team:${team.slug}`}>
+                    {team.name}
+                  </option>
+                ))}
+              </optgroup>
+            </Select>
+
+            <Select
+              label="Rapporttype"
+              value={periodType}
+              onChange={(e) => {
+                setPeriodType(e.target.value as ReportPeriodType)
+                setSelectedPeriodIndex(0)
+              }}
+              size="small"
+              style={{ minWidth: '140px' }}
+            >
+              {Object.entries(REPORT_PERIOD_TYPE_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </Select>
+
+            <Select
+              label="Periode"
+              value={String(selectedPeriodIndex)}
+              onChange={(e) => setSelectedPeriodIndex(Number(e.target.value))}
+              size="small"
+              style={{ minWidth: '180px' }}
+            >
+              {availablePeriods.map((period, index) => (
+                <option key={period.label} value={index}>
+                  {period.label}
+                </option>
+              ))}
+            </Select>
+
+            <Button
+              type="submit"
+              name="action"
+              value="generate_consolidated_report"
+              variant="primary"
+              size="small"
+              loading={navigation.state === 'submitting' || !!pendingJobId}
+              disabled={!scope || !selectedPeriod || !!pendingJobId}
+            >
+              {pendingJobId ? 'Genererer...' : 'Generer samlet rapport'}
+            </Button>
+          </HStack>
+        </Form>
+
+        {consolidatedReports.length === 0 ? (
+          <BodyShort textColor="subtle">Ingen samlede rapporter er generert enda.</BodyShort>
+        ) : (
+          <Table size="small">
+            <Table.Header>
+              <Table.Row>
+                <Table.HeaderCell>Dokument-ID</Table.HeaderCell>
+                <Table.HeaderCell>Omfang</Table.HeaderCell>
+                <Table.HeaderCell>Periode</Table.HeaderCell>
+                <Table.HeaderCell>Deployments</Table.HeaderCell>
+                <Table.HeaderCell>Dekning</Table.HeaderCell>
+                <Table.HeaderCell>Generert</Table.HeaderCell>
+                <Table.HeaderCell>Handlinger</Table.HeaderCell>
+              </Table.Row>
+            </Table.Header>
+            <Table.Body>
+              {consolidatedReports.map((report) => (
+                <Table.Row key={report.id}>
+                  <Table.DataCell>
+                    <code style={{ fontSize: '0.75rem' }}>{report.report_id}</code>
+                  </Table.DataCell>
+                  <Table.DataCell>
+                    <VStack gap="space-2">
+                      <BodyShort size="small">{report.scope_name}</BodyShort>
+                      <Detail>
+                        {CONSOLIDATED_SCOPE_TYPE_LABELS[report.scope_type]} • {report.app_count} applikasjoner
+                      </Detail>
+                    </VStack>
+                  </Table.DataCell>
+                  <Table.DataCell>{report.period_label}</Table.DataCell>
+                  <Table.DataCell>
+                    <VStack gap="space-2">
+                      <BodyShort size="small">{report.total_deployments} totalt</BodyShort>
+                      {report.pending_count > 0 && <Detail>{report.pending_count} ikke godkjent</Detail>}
+                    </VStack>
+                  </Table.DataCell>
+                  <Table.DataCell>
+                    <Tag variant={report.pending_count === 0 ? 'success' : 'warning'} size="small">
+                      {formatCoverage(report.four_eyes_coverage)}
+                    </Tag>
+                  </Table.DataCell>
+                  <Table.DataCell>{formatDateTime(report.generated_at)}</Table.DataCell>
+                  <Table.DataCell>
+                    <HStack gap="space-8">
+                      <Button
+                        as="a"
+                        href={`/admin/audit-reports/consolidated/${report.id}/view`}
+                        target="_blank"
+                        size="small"
+                        variant="tertiary"
+                        icon={<EyeIcon aria-hidden />}
+                      >
+                        Vis
+                      </Button>
+                      <Button
+                        as="a"
+                        href={`/admin/audit-reports/consolidated/${report.id}/pdf`}
+                        size="small"
+                        variant="tertiary"
+                        icon={<DownloadIcon aria-hidden />}
+                      >
+                        Last ned
+                      </Button>
+                    </HStack>
+                  </Table.DataCell>
+                </Table.Row>
+              ))}
+            </Table.Body>
+          </Table>
+        )}
+      </VStack>
+    </Box>
+  )
+}
+
 export default function AdminAuditReports() {
   const { reports } = useLoaderData<typeof loader>()
 
@@ -56,6 +316,8 @@ export default function AdminAuditReports() {
         </BodyShort>
       </div>
 
+      <ConsolidatedReportSection />
+
       <Box padding="space-24" borderRadius="8" background="raised" borderColor="neutral-subtle" borderWidth="1">
         <VStack gap="space-16">
           <div>
@@ -130,6 +392,7 @@ export default function AdminAuditReports() {
                             >
                               Last ned
                             </Button>
+                            <ExportButtons reportId={report.id} variant="tertiary" />
                           </HStack>
                         </Table.DataCell>
                       </Table.Row>
@@ -182,6 +445,7 @@ export default function AdminAuditReports() {
                           >
                             Last ned
                           </Button>
+                          <ExportButtons reportId={report.id} variant="secondary" />
                         </HStack>
                       </VStack>
                     </Box>
@@ -195,3 +459,22 @@ export default function AdminAuditReports() {
     </VStack>
   )
 }
+
+function ExportButtons({ reportId, variant }: { reportId: number; variant: 'tertiary' | 'secondary' }) {
+  return (
+    <>
+      {(['json', 'csv', 'xlsx'] as const).map((format) => (
+        <Button
+          key={format}
+          as="a"
+          href={`/admin/audit-reports/${reportId}/export/${format}`}
+          size="small"
+          variant={variant}
+          title={format === 'csv' ? 'CSV-filer per seksjon (zip)' : `Eksporter som ${format.toUpperCase()}`}
+        >
+          {format.toUpperCase()}
+        </Button>
+      ))}
+    </>
+  )
+}
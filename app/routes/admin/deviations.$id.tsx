@@ -0,0 +1,364 @@
+/**
+ * Deviation detail page
+ *
+ * Shows a deviation with its transition history, and lets admins in the
+ * section that owns the app move it through the lifecycle and assign it to the person holding the follow-up role.
+ */
+
+import {
+  Link as AkselLink,
+  BodyShort,
+  Box,
+  Button,
+  Detail,
+  Heading,
+  HStack,
+  Select,
+  Tag,
+  Textarea,
+  TextField,
+  VStack,
+} from '@navikt/ds-react'
+import { Form, Link, useActionData, useLoaderData } from 'react-router'
+import { ActionAlert } from '~/components/ActionAlert'
+import { assignDeviation, getDeviationById, getDeviationTransitions, transitionDeviation } from '~/db/deviations.server'
+import { getUserMappingByNavIdent } from '~/db/user-mappings.server'
+import { requireAppAdmin } from '~/lib/access-policy.server'
+import { fail, ok } from '~/lib/action-result'
+import {
+  DEVIATION_FOLLOW_UP_ROLE_LABELS,
+  DEVIATION_INTENT_LABELS,
+  DEVIATION_SEVERITY_LABELS,
+  DEVIATION_STATUS_LABELS,
+  DEVIATION_STATUS_TRANSITIONS,
+  type DeviationFollowUpRole,
+  type DeviationStatus,
+  isDeviationOverdue,
+} from '~/lib/deviation-constants'
+import type { Route } from './+types/deviations.$id'
+
+export function meta({ params }: Route.MetaArgs) {
+  return [{ title: `Avvik #${params.id} - Admin - NDA` }]
+}
+
+function parseId(id: string): number {
+  const deviationId = Number.parseInt(id, 10)
+  if (Number.isNaN(deviationId)) {
+    throw new Response('Invalid deviation id', { status: 400 })
+  }
+  return deviationId
+}
+
+/** Load the deviation and require admin access in the section that owns its app */
+async function requireDeviationAdmin(request: Request, deviationId: number) {
+  const deviation = await getDeviationById(deviationId)
+  if (!deviation?.monitored_app_id) {
+    throw new Response('Deviation not found', { status: 404 })
+  }
+  const identity = await requireAppAdmin(request, deviation.monitored_app_id)
+  return { deviation, identity }
+}
+
+export async function loader({ params, request }: Route.LoaderArgs) {
+  const deviationId = parseId(params.id)
+  const { deviation } = await requireDeviationAdmin(request, deviationId)
+  const transitions = await getDeviationTransitions(deviationId)
+
+  return { deviation, transitions }
+}
+
+export async function action({ params, request }: Route.ActionArgs) {
+  const deviationId = parseId(params.id)
+  const { identity } = await requireDeviationAdmin(request, deviationId)
+  const formData = await request.formData()
+  const intent = formData.get('intent')
+
+  if (intent === 'transition') {
+    const toStatus = formData.get('to_status') as DeviationStatus
+    const note = (formData.get('note') as string)?.trim() || ''
+
+    if (!toStatus || !(toStatus in DEVIATION_STATUS_LABELS)) {
+      return fail('Velg ny status')
+    }
+    if (toStatus === 'closed' && !note) {
+      return fail('Beskriv hvordan avviket er fulgt opp før det lukkes')
+    }
+
+    try {
+      const before = await getDeviationById(deviationId)
+      const updated = await transitionDeviation({
+        id: deviationId,
+        to_status: toStatus,
+        changed_by: identity.navIdent,
+        changed_by_name: identity.name || undefined,
+        note: note || undefined,
+        auditEvent: (updated) => ({
+          actor: identity,
+          action: 'deviation.transition',
+          entityType: 'deviation',
+          entityId: deviationId,
+          monitoredAppId: before?.monitored_app_id,
+          before: { status: before?.status ?? null, due_at: before?.due_at ?? null },
+          after: { status: updated.status, due_at: updated.due_at, note: note || null },
+        }),
+      })
+      if (!updated) {
+        return fail('Statusendringen er ikke tillatt fra nåværende status')
+      }
+      return ok(`Status endret til ${DEVIATION_STATUS_LABELS[toStatus].toLowerCase()}`)
+    } catch (_error) {
+      return fail('Kunne ikke endre status')
+    }
+  }
+
+  if (intent === 'assign') {
+    const followUpRole = formData.get('follow_up_role') as DeviationFollowUpRole
+    const navIdent = (formData.get('assigned_to_nav_ident') as string)?.trim().toUpperCase() || ''
+
+    if (!followUpRole || !(followUpRole in DEVIATION_FOLLOW_UP_ROLE_LABELS)) {
+      return fail('Velg oppfølgingsansvarlig rolle')
+    }
+    if (!/^[A-Z]\d{6}$/.test(navIdent)) {
+      return fail('Ugyldig NAV-ident (forventet format: A123456)')
+    }
+
+    try {
+      const before = await getDeviationById(deviationId)
+      const mapping = await getUserMappingByNavIdent(navIdent)
+      const updated = await assignDeviation({
+        id: deviationId,
+        follow_up_role: followUpRole,
+        assigned_to_nav_ident: navIdent,
+        assigned_to_name: mapping?.display_name || undefined,
+        changed_by: identity.navIdent,
+        changed_by_name: identity.name || undefined,
+        auditEvent: (updated) => ({
+          actor: identity,
+          action: 'deviation.assign',
+          entityType: 'deviation',
+          entityId: deviationId,
+          monitoredAppId: before?.monitored_app_id,
+          before: {
+            follow_up_role: before?.follow_up_role ?? null,
+            assigned_to_nav_ident: before?.assigned_to_nav_ident ?? null,
+          },
+          after: { follow_up_role: updated.follow_up_role, assigned_to_nav_ident: updated.assigned_to_nav_ident },
+        }),
+      })
+      if (!updated) {
+        return fail('Fant ikke avviket')
+      }
+      return ok(`Avviket er tildelt ${mapping?.display_name || navIdent}`)
+    } catch (_error) {
+      return fail('Kunne ikke tildele avviket')
+    }
+  }
+
+  return fail('Ukjent handling')
+}
+
+function formatDateTime(date: Date | string): string {
+  return new Date(date).toLocaleString('no-NO', { dateStyle: 'medium', timeStyle: 'short' })
+}
+
+export default function AdminDeviationDetailPage() {
+  const { deviation, transitions } = useLoaderData<typeof loader>()
+  const actionData = useActionData<typeof action>()
+  const appUrl = `/team/${deviation.team_slug}/env/${deviation.environment_name}/app/${deviation.app_name}`
+  const nextStatuses = DEVIATION_STATUS_TRANSITIONS[deviation.status]
+  const overdue = isDeviationOverdue(deviation)
+
+  return (
+    <VStack gap="space-24">
+      <VStack gap="space-8">
+        <Link to="/admin/deviations">
+          <AkselLink as="span">← Alle avvik</AkselLink>
+        </Link>
+        <HStack gap="space-8" align="center">
+          <Heading level="1" size="large">
+            Avvik #{deviation.id}
+          </Heading>
+          <Tag size="small" variant="moderate" data-color={deviation.status === 'closed' ? 'success' : 'warning'}>
+            {DEVIATION_STATUS_LABELS[deviation.status]}
+          </Tag>
+          {overdue && (
+            <Tag size="small" variant="strong" data-color="danger">
+              Over fristen
+            </Tag>
+          )}
+        </HStack>
+        <BodyShort textColor="subtle">
+          {deviation.app_name} ({deviation.environment_name}) —{' '}
+          <Link to={`${appUrl}/deployments/${deviation.deployment_id}`}>
+            <AkselLink as="span">Deployment #{deviation.deployment_id}</AkselLink>
+          </Link>
+        </BodyShort>
+      </VStack>
+
+      <ActionAlert data={actionData} />
+
+      <Box padding="space-16" borderRadius="8" background="raised" borderColor="neutral-subtle" borderWidth="1">
+        <VStack gap="space-12">
+          <BodyShort>{deviation.reason}</BodyShort>
+          <HStack gap="space-24" wrap>
+            <VStack gap="space-2">
+              <Detail textColor="subtle">Alvorlighetsgrad</Detail>
+              <BodyShort size="small">
+                {deviation.severity ? DEVIATION_SEVERITY_LABELS[deviation.severity] : 'Ikke satt'}
+              </BodyShort>
+            </VStack>
+            {deviation.breach_type && (
+              <VStack gap="space-2">
+                <Detail textColor="subtle">Type brudd</Detail>
+                <BodyShort size="small">{deviation.breach_type}</BodyShort>
+              </VStack>
+            )}
+            {deviation.intent && (
+              <VStack gap="space-2">
+                <Detail textColor="subtle">Intensjon</Detail>
+                <BodyShort size="small">{DEVIATION_INTENT_LABELS[deviation.intent]}</BodyShort>
+              </VStack>
+            )}
+            <VStack gap="space-2">
+              <Detail textColor="subtle">Tildelt</Detail>
+              <BodyShort size="small">
+                {deviation.assigned_to_name || deviation.assigned_to_nav_ident || 'Ikke tildelt'}
+                {deviation.follow_up_role && ` (${DEVIATION_FOLLOW_UP_ROLE_LABELS[deviation.follow_up_role]})`}
+              </BodyShort>
+            </VStack>
+            <VStack gap="space-2">
+              <Detail textColor="subtle">Frist</Detail>
+              <BodyShort size="small">
+                {deviation.due_at
+                  ? new Date(deviation.due_at).toLocaleDateString('no-NO', { dateStyle: 'medium' })
+                  : '–'}
+              </BodyShort>
+            </VStack>
+            <VStack gap="space-2">
+              <Detail textColor="subtle">Registrert</Detail>
+              <BodyShort size="small">
+                {formatDateTime(deviation.created_at)} av {deviation.registered_by_name || deviation.registered_by}
+              </BodyShort>
+            </VStack>
+          </HStack>
+          {deviation.resolution_note && (
+            <Detail textColor="subtle">
+              Lukket{deviation.resolved_by_name && ` av ${deviation.resolved_by_name}`}: {deviation.resolution_note}
+            </Detail>
+          )}
+        </VStack>
+      </Box>
+
+      <HStack gap="space-16" wrap align="start">
+        <Box
+          padding="space-16"
+          borderRadius="8"
+          background="raised"
+          borderColor="neutral-subtle"
+          borderWidth="1"
+          style={{ flex: 1, minWidth: '18rem' }}
+        >
+          <Form method="post">
+            <input type="hidden" name="intent" value="transition" />
+            <VStack gap="space-12">
+              <Heading level="2" size="small">
+                Endre status
+              </Heading>
+              <Select label="Ny status" name="to_status" size="small">
+                {nextStatuses.map((status) => (
+                  <option key={status} value={status}>
+                    {DEVIATION_STATUS_LABELS[status]}
+                  </option>
+                ))}
+              </Select>
+              <Textarea
+                label="Kommentar"
+                description="Påkrevd ved lukking: beskriv hvordan avviket er fulgt opp."
+                name="note"
+                size="small"
+                minRows={2}
+              />
+              <div>
+                <Button type="submit" size="small">
+                  Lagre status
+                </Button>
+              </div>
+            </VStack>
+          </Form>
+        </Box>
+
+        <Box
+          padding="space-16"
+          borderRadius="8"
+          background="raised"
+          borderColor="neutral-subtle"
+          borderWidth="1"
+          style={{ flex: 1, minWidth: '18rem' }}
+        >
+          <Form method="post">
+            <input type="hidden" name="intent" value="assign" />
+            <VStack gap="space-12">
+              <Heading level="2" size="small">
+                Tildel oppfølging
+              </Heading>
+              <Select
+                label="Rolle"
+                name="follow_up_role"
+                size="small"
+                defaultValue={deviation.follow_up_role ?? 'product_lead'}
+              >
+                {Object.entries(DEVIATION_FOLLOW_UP_ROLE_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </Select>
+              <TextField
+                label="NAV-ident"
+                name="assigned_to_nav_ident"
+                size="small"
+                defaultValue={deviation.assigned_to_nav_ident ?? ''}
+              />
+              <div>
+                <Button type="submit" size="small" variant="secondary">
+                  Tildel
+                </Button>
+              </div>
+            </VStack>
+          </Form>
+        </Box>
+      </HStack>
+
+      <VStack gap="space-12">
+        <Heading level="2" size="medium">
+          Historikk
+        </Heading>
+        {transitions.map((transition) => (
+          <Box
+            key={transition.id}
+            padding="space-12"
+            borderRadius="8"
+            background="raised"
+            borderColor="neutral-subtle"
+            borderWidth="1"
+          >
+            <VStack gap="space-4">
+              <HStack gap="space-8" align="center">
+                <Detail textColor="subtle">{formatDateTime(transition.created_at)}</Detail>
+                <Detail weight="semibold">{transition.changed_by_name || transition.changed_by}</Detail>
+              </HStack>
+              <BodyShort size="small">
+                {transition.from_status === null
+                  ? `Registrert som ${DEVIATION_STATUS_LABELS[transition.to_status].toLowerCase()}`
+                  : transition.from_status === transition.to_status
+                    ? `Tildelt ${transition.assigned_to_name || transition.assigned_to_nav_ident}`
+                    : `${DEVIATION_STATUS_LABELS[transition.from_status]} → ${DEVIATION_STATUS_LABELS[transition.to_status]}`}
+              </BodyShort>
+              {transition.note && <Detail textColor="subtle">{transition.note}</Detail>}
+            </VStack>
+          </Box>
+        ))}
+      </VStack>
+    </VStack>
+  )
+}
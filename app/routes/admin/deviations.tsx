@@ -0,0 +1,181 @@
+/**
+ * Deviation overview across all applications
+ *
+ * Lists open deviations sorted by severity and age, with status, assignee and due date.
+ */
+
+import {
+  Link as AkselLink,
+  BodyShort,
+  Box,
+  Detail,
+  Heading,
+  HStack,
+  Table,
+  Tag,
+  ToggleGroup,
+  VStack,
+} from '@navikt/ds-react'
+import { Link, useLoaderData, useSearchParams } from 'react-router'
+import { getOpenDeviations } from '~/db/deviations.server'
+import { requireAdmin } from '~/lib/auth.server'
+import {
+  DEVIATION_FOLLOW_UP_ROLE_LABELS,
+  DEVIATION_SEVERITY_LABELS,
+  DEVIATION_SEVERITY_ORDER,
+  DEVIATION_STATUS_LABELS,
+  type DeviationSeverity,
+  type DeviationStatus,
+  isDeviationOverdue,
+} from '~/lib/deviation-constants'
+import type { Route } from './+types/deviations'
+
+const OPEN_STATUSES: DeviationStatus[] = ['registered', 'under_investigation', 'action_required']
+
+export function meta(_args: Route.MetaArgs) {
+  return [{ title: 'Avvik - Admin - NDA' }]
+}
+
+export async function loader({ request }: Route.LoaderArgs) {
+  await requireAdmin(request)
+
+  const url = new URL(request.url)
+  const statusParam = url.searchParams.get('status')
+  const status = OPEN_STATUSES.find((s) => s === statusParam)
+
+  const deviations = await getOpenDeviations({ status })
+
+  return { deviations }
+}
+
+function severityColor(severity: DeviationSeverity | null): 'danger' | 'warning' | 'neutral' {
+  if (severity === 'critical' || severity === 'high') return 'danger'
+  if (severity === 'medium') return 'warning'
+  return 'neutral'
+}
+
+function daysSince(date: Date | string): number {
+  return Math.floor((Date.now() - new Date(date).getTime()) / (24 * 60 * 60 * 1000))
+}
+
+export default function AdminDeviationsPage() {
+  const { deviations } = useLoaderData<typeof loader>()
+  const [searchParams, setSearchParams] = useSearchParams()
+  const currentStatus = searchParams.get('status') || 'open'
+
+  const overdueCount = deviations.filter((d) => isDeviationOverdue(d)).length
+  const severityCounts = DEVIATION_SEVERITY_ORDER.map((severity) => ({
+    severity,
+    count: deviations.filter((d) => (d.severity ?? 'medium') === severity).length,
+  }))
+
+  return (
+    <VStack gap="space-24">
+      <VStack gap="space-8">
+        <Heading level="1" size="large">
+          Avvik
+        </Heading>
+        <BodyShort textColor="subtle">
+          Åpne avvik på tvers av applikasjoner, sortert etter alvorlighetsgrad og alder.
+        </BodyShort>
+      </VStack>
+
+      <HStack gap="space-8" wrap>
+        {severityCounts.map(({ severity, count }) => (
+          <Tag key={severity} size="small" variant="moderate" data-color={severityColor(severity)}>
+            {DEVIATION_SEVERITY_LABELS[severity]}: {count}
+          </Tag>
+        ))}
+        {overdueCount > 0 && (
+          <Tag size="small" variant="strong" data-color="danger">
+            Over fristen: {overdueCount}
+          </Tag>
+        )}
+      </HStack>
+
+      <ToggleGroup
+        defaultValue={currentStatus}
+        onChange={(value) => setSearchParams(value === 'open' ? {} : { status: value })}
+        size="small"
+      >
+        <ToggleGroup.Item value="open">Alle åpne</ToggleGroup.Item>
+        {OPEN_STATUSES.map((status) => (
+          <ToggleGroup.Item key={status} value={status}>
+            {DEVIATION_STATUS_LABELS[status]}
+          </ToggleGroup.Item>
+        ))}
+      </ToggleGroup>
+
+      {deviations.length === 0 ? (
+        <BodyShort textColor="subtle" style={{ fontStyle: 'italic' }}>
+          Ingen åpne avvik.
+        </BodyShort>
+      ) : (
+        <Box borderRadius="8" background="raised" borderColor="neutral-subtle" borderWidth="1">
+          <Table size="small">
+            <Table.Header>
+              <Table.Row>
+                <Table.HeaderCell>Avvik</Table.HeaderCell>
+                <Table.HeaderCell>Applikasjon</Table.HeaderCell>
+                <Table.HeaderCell>Alvorlighetsgrad</Table.HeaderCell>
+                <Table.HeaderCell>Status</Table.HeaderCell>
+                <Table.HeaderCell>Tildelt</Table.HeaderCell>
+                <Table.HeaderCell>Alder</Table.HeaderCell>
+                <Table.HeaderCell>Frist</Table.HeaderCell>
+              </Table.Row>
+            </Table.Header>
+            <Table.Body>
+              {deviations.map((deviation) => (
+                <Table.Row key={deviation.id}>
+                  <Table.DataCell>
+                    <Link to={`/admin/deviations/${deviation.id}`}>
+                      <AkselLink as="span">#{deviation.id}</AkselLink>
+                    </Link>
+                    <Detail textColor="subtle">
+                      {deviation.reason.length > 60 ? `${deviation.reason.substring(0, 60)}...` : deviation.reason}
+                    </Detail>
+                  </Table.DataCell>
+                  <Table.DataCell>
+                    <Link
+                      to={`/team/${deviation.team_slug}/env/${deviation.environment_name}/app/${deviation.app_name}/admin/deviations`}
+                    >
+                      <AkselLink as="span">{deviation.app_name}</AkselLink>
+                    </Link>
+                    <Detail textColor="subtle">{deviation.environment_name}</Detail>
+                  </Table.DataCell>
+                  <Table.DataCell>
+                    <Tag size="xsmall" variant="moderate" data-color={severityColor(deviation.severity)}>
+                      {deviation.severity ? DEVIATION_SEVERITY_LABELS[deviation.severity] : 'Ikke satt'}
+                    </Tag>
+                  </Table.DataCell>
+                  <Table.DataCell>{DEVIATION_STATUS_LABELS[deviation.status]}</Table.DataCell>
+                  <Table.DataCell>
+                    {deviation.assigned_to_name || deviation.assigned_to_nav_ident || (
+                      <Detail textColor="subtle">Ikke tildelt</Detail>
+                    )}
+                    {deviation.follow_up_role && (
+                      <Detail textColor="subtle">{DEVIATION_FOLLOW_UP_ROLE_LABELS[deviation.follow_up_role]}</Detail>
+                    )}
+                  </Table.DataCell>
+                  <Table.DataCell>{daysSince(deviation.created_at)} dager</Table.DataCell>
+                  <Table.DataCell>
+                    <HStack gap="space-4" align="center" wrap={false}>
+                      {deviation.due_at
+                        ? new Date(deviation.due_at).toLocaleDateString('no-NO', { dateStyle: 'medium' })
+                        : '–'}
+                      {isDeviationOverdue(deviation) && (
+                        <Tag size="xsmall" variant="moderate" data-color="danger">
+                          Over fristen
+                        </Tag>
+                      )}
+                    </HStack>
+                  </Table.DataCell>
+                </Table.Row>
+              ))}
+            </Table.Body>
+          </Table>
+        </Box>
+      )}
+    </VStack>
+  )
+}
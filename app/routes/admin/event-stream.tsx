@@ -0,0 +1,372 @@
+/**
+ * Event Stream Admin Page
+ *
+ * Manage HTTP subscribers to verification status changes and deviations, and
+ * follow up deliveries that fail.
+ */
+
+import { PlusIcon, TrashIcon } from '@navikt/aksel-icons'
+import {
+  Alert,
+  BodyShort,
+  Box,
+  Button,
+  Checkbox,
+  CheckboxGroup,
+  Detail,
+  Heading,
+  HStack,
+  Table,
+  Tag,
+  TextField,
+  VStack,
+} from '@navikt/ds-react'
+import { Form, Link, useActionData, useLoaderData } from 'react-router'
+import { ActionAlert } from '~/components/ActionAlert'
+import {
+  createEventSubscriber,
+  deleteEventSubscriber,
+  getEventDeliveryCounts,
+  getEventDeliveryProblems,
+  getEventSubscribers,
+  retryEventDelivery,
+  setEventSubscriberActive,
+} from '~/db/event-outbox.server'
+import { fail, ok } from '~/lib/action-result'
+import { requireAdmin } from '~/lib/auth.server'
+import { isStreamEventType, MAX_DELIVERY_ATTEMPTS, STREAM_EVENT_LABELS, STREAM_EVENT_TYPES } from '~/lib/event-stream'
+import { getFormString, isValidWebhookUrl } from '~/lib/form-validators'
+import { FOUR_EYES_STATUSES } from '~/lib/four-eyes-status'
+import { MIN_WEBHOOK_SECRET_LENGTH } from '~/lib/notifications/webhook'
+import type { Route } from './+types/event-stream'
+
+export function meta(_args: Route.MetaArgs) {
+  return [{ title: 'Hendelsesstrøm - Admin' }]
+}
+
+export async function loader({ request }: Route.LoaderArgs) {
+  await requireAdmin(request)
+
+  const [subscribers, problems, counts] = await Promise.all([
+    getEventSubscribers(),
+    getEventDeliveryProblems(),
+    getEventDeliveryCounts(),
+  ])
+
+  return { subscribers, problems, counts }
+}
+
+export async function action({ request }: Route.ActionArgs) {
+  const identity = await requireAdmin(request)
+  const formData = await request.formData()
+  const intent = formData.get('intent')
+
+  if (intent === 'create_subscriber') {
+    const name = getFormString(formData, 'name')
+    const url = getFormString(formData, 'url')
+    const secret = getFormString(formData, 'secret')
+    const eventTypes = formData.getAll('event_types').filter(isStreamEventType)
+    const statuses = (getFormString(formData, 'statuses') ?? '')
+      .split(',')
+      .map((status) => status.trim())
+      .filter(Boolean)
+
+    if (!name) return fail('Navn er påkrevd')
+    if (!url || !isValidWebhookUrl(url)) return fail('URL må være en https-adresse med offentlig vertsnavn')
+    if (!secret || secret.length < MIN_WEBHOOK_SECRET_LENGTH) {
+      return fail(`Hemmeligheten må være minst ${MIN_WEBHOOK_SECRET_LENGTH} tegn`)
+    }
+    if (eventTypes.length === 0) return fail('Velg minst én hendelsestype')
+    const unknownStatuses = statuses.filter((status) => !(FOUR_EYES_STATUSES as readonly string[]).includes(status))
+    if (unknownStatuses.length > 0) return fail(`Ukjent status: ${unknownStatuses.join(', ')}`)
+
+    try {
+      await createEventSubscriber({ name, url, secret, eventTypes, statuses }, identity)
+      return ok(`Abonnent "${name}" lagt til`)
+    } catch (_error) {
+      return fail('Kunne ikke legge til abonnent')
+    }
+  }
+
+  if (intent === 'set_active') {
+    const id = Number.parseInt(getFormString(formData, 'subscriber_id') ?? '', 10)
+    if (!id) return fail('Ugyldig abonnent')
+    const isActive = formData.get('is_active') === 'true'
+
+    await setEventSubscriberActive(id, isActive, identity)
+    return ok(isActive ? 'Abonnent aktivert' : 'Abonnent deaktivert')
+  }
+
+  if (intent === 'delete_subscriber') {
+    const id = Number.parseInt(getFormString(formData, 'subscriber_id') ?? '', 10)
+    if (!id) return fail('Ugyldig abonnent')
+
+    await deleteEventSubscriber(id, identity)
+    return ok('Abonnent slettet')
+  }
+
+  if (intent === 'retry_delivery') {
+    const id = Number.parseInt(getFormString(formData, 'delivery_id') ?? '', 10)
+    if (!id) return fail('Ugyldig leveranse')
+
+    const retried = await retryEventDelivery(id, identity)
+    return retried ? ok('Hendelsen sendes på nytt innen ett minutt') : fail('Leveransen venter allerede på nytt forsøk')
+  }
+
+  return fail('Ukjent handling')
+}
+
+function formatDate(date: Date | string | null): string {
+  if (!date) return '-'
+  const d = typeof date === 'string' ? new Date(date) : date
+  return d.toLocaleString('nb-NO', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+}
+
+export default function EventStreamAdmin() {
+  const { subscribers, problems, counts } = useLoaderData<typeof loader>()
+  const actionData = useActionData<typeof action>()
+
+  return (
+    <VStack gap="space-24">
+      <HStack align="center" justify="space-between">
+        <div>
+          <Heading size="large" level="1">
+            Hendelsesstrøm
+          </Heading>
+          <BodyShort textColor="subtle">
+            Statusendringer og registrerte avvik sendes som signert JSON til abonnentene under. Hendelser kan komme mer
+            enn én gang, og mottakere må bruke hendelses-ID-en for å unngå dobbeltbehandling.
+          </BodyShort>
+        </div>
+        <Link to="/admin" style={{ textDecoration: 'none' }}>
+          <Button variant="tertiary" size="small">
+            ← Tilbake
+          </Button>
+        </Link>
+      </HStack>
+
+      <ActionAlert data={actionData} />
+
+      <HStack gap="space-8">
+        <Tag data-color="neutral" variant="moderate" size="small">
+          {counts.unpublished} ikke fordelt
+        </Tag>
+        <Tag data-color="info" variant="moderate" size="small">
+          {counts.pending} venter
+        </Tag>
+        <Tag data-color="success" variant="moderate" size="small">
+          {counts.delivered} levert
+        </Tag>
+        <Tag data-color={counts.failed > 0 ? 'danger' : 'neutral'} variant="moderate" size="small">
+          {counts.failed} gitt opp
+        </Tag>
+      </HStack>
+
+      {/* Subscribers */}
+      <Box padding="space-24" borderRadius="8" background="raised" borderColor="neutral-subtle" borderWidth="1">
+        <VStack gap="space-16">
+          <Heading size="small" level="2">
+            Abonnenter ({subscribers.length})
+          </Heading>
+          {subscribers.length === 0 ? (
+            <BodyShort textColor="subtle">Ingen abonnenter er registrert.</BodyShort>
+          ) : (
+            <Table size="small">
+              <Table.Header>
+                <Table.Row>
+                  <Table.HeaderCell>Navn</Table.HeaderCell>
+                  <Table.HeaderCell>URL</Table.HeaderCell>
+                  <Table.HeaderCell>Hendelser</Table.HeaderCell>
+                  <Table.HeaderCell>Statuser</Table.HeaderCell>
+                  <Table.HeaderCell>Status</Table.HeaderCell>
+                  <Table.HeaderCell />
+                </Table.Row>
+              </Table.Header>
+              <Table.Body>
+                {subscribers.map((subscriber) => (
+                  <Table.Row key={subscriber.id}>
+                    <Table.DataCell>{subscriber.name}</Table.DataCell>
+                    <Table.DataCell>
+                      <Detail style={{ wordBreak: 'break-all' }}>{subscriber.url}</Detail>
+                    </Table.DataCell>
+                    <Table.DataCell>
+                      {subscriber.event_types.map((type) => STREAM_EVENT_LABELS[type] ?? type).join(', ')}
+                    </Table.DataCell>
+                    <Table.DataCell>
+                      {subscriber.statuses.length > 0 ? subscriber.statuses.join(', ') : 'Alle'}
+                    </Table.DataCell>
+                    <Table.DataCell>
+                      {subscriber.is_active ? (
+                        <Tag data-color="success" variant="moderate" size="xsmall">
+                          Aktiv
+                        </Tag>
+                      ) : (
+                        <Tag data-color="neutral" variant="moderate" size="xsmall">
+                          Deaktivert
+                        </Tag>
+                      )}
+                    </Table.DataCell>
+                    <Table.DataCell>
+                      <HStack gap="space-4" wrap={false}>
+                        <Form method="post">
+                          <input type="hidden" name="intent" value="set_active" />
+                          <input type="hidden" name="subscriber_id" value={subscriber.id} />
+                          <input type="hidden" name="is_active" value={String(!subscriber.is_active)} />
+                          <Button variant="tertiary" size="xsmall" type="submit">
+                            {subscriber.is_active ? 'Deaktiver' : 'Aktiver'}
+                          </Button>
+                        </Form>
+                        <Form method="post">
+                          <input type="hidden" name="intent" value="delete_subscriber" />
+                          <input type="hidden" name="subscriber_id" value={subscriber.id} />
+                          <Button
+                            variant="tertiary-neutral"
+                            size="xsmall"
+                            type="submit"
+                            icon={<TrashIcon aria-hidden />}
+                          >
+                            Slett
+                          </Button>
+                        </Form>
+                      </HStack>
+                    </Table.DataCell>
+                  </Table.Row>
+                ))}
+              </Table.Body>
+            </Table>
+          )}
+        </VStack>
+      </Box>
+
+      {/* New subscriber */}
+      <Box padding="space-24" borderRadius="8" background="raised" borderColor="neutral-subtle" borderWidth="1">
+        <VStack gap="space-16">
+          <Heading size="small" level="2">
+            Legg til abonnent
+          </Heading>
+          <Form method="post">
+            <input type="hidden" name="intent" value="create_subscriber" />
+            <VStack gap="space-16" style={{ maxWidth: '600px' }}>
+              <TextField label="Navn" name="name" size="small" />
+              <TextField
+                label="URL"
+                name="url"
+                size="small"
+                description="Må være en https-adresse med offentlig vertsnavn. Verten må være åpnet for utgående trafikk i Nais."
+              />
+              <TextField
+                label="Hemmelighet"
+                name="secret"
+                size="small"
+                type="password"
+                autoComplete="off"
+                description={`Brukes til HMAC-SHA256-signaturen i X-NDA-Signature. Minst ${MIN_WEBHOOK_SECRET_LENGTH} tegn.`}
+              />
+              <CheckboxGroup legend="Hendelser" size="small" defaultValue={[...STREAM_EVENT_TYPES]}>
+                {STREAM_EVENT_TYPES.map((type) => (
+                  <Checkbox key={type} name="event_types" value={type}>
+                    {STREAM_EVENT_LABELS[type]}
+                  </Checkbox>
+                ))}
+              </CheckboxGroup>
+              <TextField
+                label="Statuser (valgfritt)"
+                name="statuses"
+                size="small"
+                description="Kommaseparert, f.eks. unverified_commits, manually_approved. Tom betyr alle statusendringer."
+              />
+              <div>
+                <Button variant="secondary" size="small" type="submit" icon={<PlusIcon aria-hidden />}>
+                  Legg til
+                </Button>
+              </div>
+            </VStack>
+          </Form>
+        </VStack>
+      </Box>
+
+      {/* Delivery failures */}
+      <VStack gap="space-16">
+        <Heading size="small" level="2">
+          Leveringsfeil ({problems.length})
+        </Heading>
+        {problems.length === 0 ? (
+          <Alert variant="success" size="small">
+            Ingen feilede leveranser.
+          </Alert>
+        ) : (
+          <Table size="small">
+            <Table.Header>
+              <Table.Row>
+                <Table.HeaderCell>Siste forsøk</Table.HeaderCell>
+                <Table.HeaderCell>Abonnent</Table.HeaderCell>
+                <Table.HeaderCell>Hendelse</Table.HeaderCell>
+                <Table.HeaderCell>Forsøk</Table.HeaderCell>
+                <Table.HeaderCell>Status</Table.HeaderCell>
+                <Table.HeaderCell />
+              </Table.Row>
+            </Table.Header>
+            <Table.Body>
+              {problems.map((problem) => (
+                <Table.ExpandableRow
+                  key={problem.id}
+                  content={
+                    <VStack gap="space-8" padding="space-16">
+                      {problem.last_error && (
+                        <Alert variant="error" size="small">
+                          {problem.last_error}
+                        </Alert>
+                      )}
+                      <Box background="sunken" padding="space-12" borderRadius="4">
+                        <BodyShort size="small" style={{ whiteSpace: 'pre-wrap', fontFamily: 'monospace' }}>
+                          {JSON.stringify(problem.payload, null, 2)}
+                        </BodyShort>
+                      </Box>
+                    </VStack>
+                  }
+                >
+                  <Table.DataCell>{formatDate(problem.last_attempt_at)}</Table.DataCell>
+                  <Table.DataCell>{problem.subscriber_name}</Table.DataCell>
+                  <Table.DataCell>
+                    {STREAM_EVENT_LABELS[problem.event_type] ?? problem.event_type} #{problem.outbox_id}
+                  </Table.DataCell>
+                  <Table.DataCell>
+                    {problem.attempts} / {MAX_DELIVERY_ATTEMPTS}
+                  </Table.DataCell>
+                  <Table.DataCell>
+                    {problem.status === 'failed' ? (
+                      <Tag data-color="danger" variant="moderate" size="xsmall">
+                        Gitt opp{problem.response_status ? ` (${problem.response_status})` : ''}
+                      </Tag>
+                    ) : (
+                      <Tag data-color="warning" variant="moderate" size="xsmall">
+                        Nytt forsøk {formatDate(problem.next_attempt_at)}
+                      </Tag>
+                    )}
+                  </Table.DataCell>
+                  <Table.DataCell>
+                    {problem.status === 'failed' && (
+                      <Form method="post">
+                        <input type="hidden" name="intent" value="retry_delivery" />
+                        <input type="hidden" name="delivery_id" value={problem.id} />
+                        <Button variant="tertiary" size="xsmall" type="submit">
+                          Send på nytt
+                        </Button>
+                      </Form>
+                    )}
+                  </Table.DataCell>
+                </Table.ExpandableRow>
+              ))}
+            </Table.Body>
+          </Table>
+        )}
+      </VStack>
+    </VStack>
+  )
+}
@@ -23,14 +23,14 @@ export async function loader({ request }: Route.LoaderArgs) {
 }
 
 export async function action({ request }: Route.ActionArgs) {
-  await requireAdmin(request)
+  const user = await requireAdmin(request)
   const formData = await request.formData()
   const intent = formData.get('intent')
 
   if (intent === 'update_deviation_channel') {
     const channelId = (formData.get('channel_id') as string)?.trim() || ''
     try {
-      await updateDeviationSlackChannel(channelId)
+      await updateDeviationSlackChannel(channelId, user)
       return ok('Avvikskanal oppdatert')
     } catch (_error) {
       return fail('Kunne ikke oppdatere avvikskanal')
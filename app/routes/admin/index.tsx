@@ -1,9 +1,12 @@
 import {
   ArrowsCirclepathIcon,
   ArrowUndoIcon,
+  BellIcon,
+  BroadcastIcon,
   Buildings3Icon,
   ChatIcon,
   CheckmarkCircleIcon,
+  ClockDashedIcon,
   CogIcon,
   ExclamationmarkTriangleIcon,
   FileTextIcon,
@@ -61,11 +64,51 @@ export async function loader({ request }: Route.LoaderArgs) {
   `)
   const titleMismatchCount = parseInt(titleMismatchResult.rows[0].count, 10)
 
-  return { pendingCount, diffCount, softDeletedCount, titleMismatchCount }
+  // Count open and overdue deviations
+  const deviationResult = await pool.query<{ open: string; overdue: string }>(`
+    SELECT COUNT(*)::text AS open,
+           (COUNT(*) FILTER (WHERE due_at < NOW()))::text AS overdue
+    FROM deployment_deviations
+    WHERE status <> 'closed'
+  `)
+  const openDeviationCount = parseInt(deviationResult.rows[0].open, 10)
+  const overdueDeviationCount = parseInt(deviationResult.rows[0].overdue, 10)
+
+  // Count open repository alerts
+  const alertResult = await pool.query<{ count: string }>(
+    `SELECT COUNT(*)::text AS count FROM repository_alerts WHERE resolved_at IS NULL`,
+  )
+  const openAlertCount = parseInt(alertResult.rows[0].count, 10)
+
+  // Count event stream deliveries that have given up
+  const failedEventResult = await pool.query<{ count: string }>(
+    `SELECT COUNT(*)::text AS count FROM event_deliveries WHERE status = 'failed'`,
+  )
+  const failedEventDeliveryCount = parseInt(failedEventResult.rows[0].count, 10)
+
+  return {
+    pendingCount,
+    diffCount,
+    softDeletedCount,
+    titleMismatchCount,
+    openDeviationCount,
+    overdueDeviationCount,
+    openAlertCount,
+    failedEventDeliveryCount,
+  }
 }
 
 export default function AdminIndex() {
-  const { pendingCount, diffCount, softDeletedCount, titleMismatchCount } = useLoaderData<typeof loader>()
+  const {
+    pendingCount,
+    diffCount,
+    softDeletedCount,
+    titleMismatchCount,
+    openDeviationCount,
+    overdueDeviationCount,
+    openAlertCount,
+    failedEventDeliveryCount,
+  } = useLoaderData<typeof loader>()
   return (
     <VStack gap="space-24">
       <div>
@@ -127,6 +170,82 @@ export default function AdminIndex() {
           </Box>
         </Link>
 
+        <Link to="/admin/deviations" style={{ textDecoration: 'none', height: '100%' }}>
+          <Box
+            padding="space-24"
+            borderRadius="8"
+            background="raised"
+            borderColor={overdueDeviationCount > 0 ? 'danger-subtle' : 'neutral-subtle'}
+            borderWidth="1"
+            data-color={overdueDeviationCount > 0 ? 'danger' : undefined}
+            className="admin-card"
+            style={{ height: '100%' }}
+          >
+            <VStack gap="space-12">
+              <ExclamationmarkTriangleIcon fontSize="2rem" aria-hidden />
+              <div>
+                <Heading level="2" size="small" spacing>
+                  Avvik
+                </Heading>
+                <BodyShort textColor="subtle">
+                  {openDeviationCount > 0
+                    ? `${openDeviationCount} åpne avvik${overdueDeviationCount > 0 ? `, ${overdueDeviationCount} over fristen` : ''}.`
+                    : 'Følg opp registrerte avvik på tvers av applikasjoner.'}
+                </BodyShort>
+              </div>
+            </VStack>
+          </Box>
+        </Link>
+
+        <Link to="/admin/alerts" style={{ textDecoration: 'none', height: '100%' }}>
+          <Box
+            padding="space-24"
+            borderRadius="8"
+            background="raised"
+            borderColor={openAlertCount > 0 ? 'warning-subtle' : 'neutral-subtle'}
+            borderWidth="1"
+            data-color={openAlertCount > 0 ? 'warning' : undefined}
+            className="admin-card"
+            style={{ height: '100%' }}
+          >
+            <VStack gap="space-12">
+              <BellIcon fontSize="2rem" aria-hidden />
+              <div>
+                <Heading level="2" size="small" spacing>
+                  Repository-varsler
+                </Heading>
+                <BodyShort textColor="subtle">
+                  {openAlertCount > 0
+                    ? `${openAlertCount} åpne varsler.`
+                    : 'Varsler om ukjente repoer, repo-endringer og images på tvers av applikasjoner.'}
+                </BodyShort>
+              </div>
+            </VStack>
+          </Box>
+        </Link>
+
+        <Link to="/admin/audit-log" style={{ textDecoration: 'none', height: '100%' }}>
+          <Box
+            padding="space-24"
+            borderRadius="8"
+            background="raised"
+            borderColor="neutral-subtle"
+            borderWidth="1"
+            className="admin-card"
+            style={{ height: '100%' }}
+          >
+            <VStack gap="space-12">
+              <ClockDashedIcon fontSize="2rem" aria-hidden />
+              <div>
+                <Heading level="2" size="small" spacing>
+                  Revisjonslogg
+                </Heading>
+                <BodyShort textColor="subtle">Se hvem som endret hva og når, og eksporter som CSV.</BodyShort>
+              </div>
+            </VStack>
+          </Box>
+        </Link>
+
         <Link to="/admin/users" style={{ textDecoration: 'none', height: '100%' }}>
           <Box
             padding="space-24"
@@ -219,6 +338,33 @@ export default function AdminIndex() {
           </Box>
         </Link>
 
+        <Link to="/admin/event-stream" style={{ textDecoration: 'none', height: '100%' }}>
+          <Box
+            padding="space-24"
+            borderRadius="8"
+            background="raised"
+            borderColor={failedEventDeliveryCount > 0 ? 'danger-subtle' : 'neutral-subtle'}
+            borderWidth="1"
+            data-color={failedEventDeliveryCount > 0 ? 'danger' : undefined}
+            className="admin-card"
+            style={{ height: '100%' }}
+          >
+            <VStack gap="space-12">
+              <BroadcastIcon fontSize="2rem" aria-hidden />
+              <div>
+                <Heading level="2" size="small" spacing>
+                  Hendelsesstrøm
+                </Heading>
+                <BodyShort textColor="subtle">
+                  {failedEventDeliveryCount > 0
+                    ? `${failedEventDeliveryCount} hendelser kunne ikke leveres til abonnenter.`
+                    : 'Send statusendringer og avvik til andre systemer.'}
+                </BodyShort>
+              </div>
+            </VStack>
+          </Box>
+        </Link>
+
         <Link to="/admin/env" style={{ textDecoration: 'none', height: '100%' }}>
           <Box
             padding="space-24"
@@ -79,13 +79,17 @@ export async function action({ request, params }: Route.ActionArgs) {
     }
 
     try {
-      await updateSection(section.id, {
-        name,
-        entra_group_admin: entraGroupAdmin || null,
-        entra_group_user: entraGroupUser || null,
-      })
+      await updateSection(
+        section.id,
+        {
+          name,
+          entra_group_admin: entraGroupAdmin || null,
+          entra_group_user: entraGroupUser || null,
+        },
+        user,
+      )
       if (teamSlugs) {
-        await setSectionTeams(section.id, teamSlugs, user.navIdent)
+        await setSectionTeams(section.id, teamSlugs, user.navIdent, user)
       }
       return { success: true }
     } catch (error) {
@@ -102,7 +106,7 @@ export async function action({ request, params }: Route.ActionArgs) {
     }
 
     try {
-      await createDevTeam(section.id, slug, name)
+      await createDevTeam(section.id, slug, name, user)
       return { success: true }
     } catch (error) {
       return { error: `Kunne ikke opprette utviklingsteam: ${error}` }
@@ -122,8 +126,8 @@ export async function action({ request, params }: Route.ActionArgs) {
     }
 
     try {
-      await updateDevTeam(id, { name })
-      await setDevTeamNaisTeams(id, naisTeamSlugs ?? [], user.navIdent)
+      await updateDevTeam(id, { name }, user)
+      await setDevTeamNaisTeams(id, naisTeamSlugs ?? [], user.navIdent, user)
       return { success: true }
     } catch (error) {
       return { error: `Kunne ikke oppdatere utviklingsteam: ${error}` }
@@ -133,7 +137,7 @@ export async function action({ request, params }: Route.ActionArgs) {
   if (intent === 'deactivate') {
     const id = Number(formData.get('id'))
     try {
-      await updateDevTeam(id, { is_active: false })
+      await updateDevTeam(id, { is_active: false }, user)
       return { success: true }
     } catch (error) {
       return { error: `Kunne ikke deaktivere utviklingsteam: ${error}` }
@@ -144,7 +148,7 @@ export async function action({ request, params }: Route.ActionArgs) {
     const id = Number(formData.get('id'))
     const appIds = formData.getAll('app_ids').map(Number).filter(Boolean)
     try {
-      await setDevTeamApplications(id, appIds, user.navIdent)
+      await setDevTeamApplications(id, appIds, user.navIdent, user)
       return { success: true }
     } catch (error) {
       return { error: `Kunne ikke oppdatere applikasjoner: ${error}` }
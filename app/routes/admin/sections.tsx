@@ -79,7 +79,7 @@ export async function loader({ request }: Route.LoaderArgs) {
 }
 
 export async function action({ request }: Route.ActionArgs) {
-  await requireAdmin(request)
+  const user = await requireAdmin(request)
   const formData = await request.formData()
   const intent = formData.get('intent') as string
 
@@ -94,7 +94,7 @@ export async function action({ request }: Route.ActionArgs) {
     }
 
     try {
-      await createSection(slug, name, entraGroupAdmin, entraGroupUser)
+      await createSection(slug, name, entraGroupAdmin, entraGroupUser, user)
       return { success: true }
     } catch (error) {
       return { error: `Kunne ikke opprette seksjon: ${error}` }
@@ -62,18 +62,18 @@ export async function loader({ request }: Route.LoaderArgs) {
 }
 
 export async function action({ request }: Route.ActionArgs) {
-  await requireAdmin(request)
+  const user = await requireAdmin(request)
 
   const formData = await request.formData()
   const intent = formData.get('intent')
 
   if (intent === 'release-expired') {
-    const released = await releaseExpiredLocks()
+    const released = await releaseExpiredLocks(user)
     return { success: `Frigjorde ${released} utløpte låser`, error: null }
   }
 
   if (intent === 'cleanup') {
-    const cleaned = await cleanupOldSyncJobs(50)
+    const cleaned = await cleanupOldSyncJobs(50, user)
     return { success: `Slettet ${cleaned} gamle jobber`, error: null }
   }
 
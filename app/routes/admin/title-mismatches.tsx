@@ -3,7 +3,8 @@ import { Alert, BodyShort, Box, Button, Heading, Hide, HStack, Show, Table, Tag,
 import { Form, Link, useActionData, useLoaderData } from 'react-router'
 import { ActionAlert } from '~/components/ActionAlert'
 import { ExternalLink } from '~/components/ExternalLink'
-import { pool } from '~/db/connection.server'
+import { type AuditActor, recordAuditEvent } from '~/db/audit-events.server'
+import { pool, withTransaction } from '~/db/connection.server'
 import { requireAdmin } from '~/lib/auth.server'
 import type { Route } from './+types/title-mismatches'
 
@@ -72,36 +73,70 @@ export async function loader({ request }: Route.LoaderArgs) {
   }
 }
 
+/**
+ * Copy the PR title to the deployments matching `where`, with one audit event per deployment
+ */
+async function setTitlesFromPrData(where: string, actor: AuditActor): Promise<number> {
+  return withTransaction(async (client) => {
+    const result = await client.query<{
+      id: number
+      monitored_app_id: number
+      old_title: string | null
+      title: string
+    }>(
+      `WITH fixed AS (
+         SELECT id, title FROM deployments WHERE ${where} FOR UPDATE
+       )
+       UPDATE deployments d
+       SET title = d.github_pr_data->>'title'
+       FROM fixed
+       WHERE d.id = fixed.id
+       RETURNING d.id, d.monitored_app_id, fixed.title AS old_title, d.title`,
+    )
+    for (const row of result.rows) {
+      await recordAuditEvent(
+        {
+          actor,
+          action: 'deployment.title_update',
+          entityType: 'deployment',
+          entityId: row.id,
+          monitoredAppId: row.monitored_app_id,
+          before: { title: row.old_title },
+          after: { title: row.title },
+        },
+        client,
+      )
+    }
+    return result.rowCount ?? 0
+  })
+}
+
 export async function action({ request }: Route.ActionArgs) {
-  await requireAdmin(request)
+  const user = await requireAdmin(request)
 
   const formData = await request.formData()
   const intent = formData.get('intent')
 
   if (intent === 'fix_mismatches') {
-    const result = await pool.query(
-      `UPDATE deployments
-       SET title = github_pr_data->>'title'
-       WHERE github_pr_data IS NOT NULL
-         AND github_pr_data->>'title' IS NOT NULL
-         AND github_pr_data->>'title' != ''
-         AND title IS NOT NULL
-         AND title != github_pr_data->>'title'`,
+    const count = await setTitlesFromPrData(
+      `github_pr_data IS NOT NULL
+       AND github_pr_data->>'title' IS NOT NULL
+       AND github_pr_data->>'title' != ''
+       AND title IS NOT NULL
+       AND title != github_pr_data->>'title'`,
+      user,
     )
-    const count = result.rowCount ?? 0
     return { success: `Korrigerte ${count} feil titler.` }
   }
 
   if (intent === 'fix_missing') {
-    const result = await pool.query(
-      `UPDATE deployments
-       SET title = github_pr_data->>'title'
-       WHERE title IS NULL
-         AND github_pr_data IS NOT NULL
-         AND github_pr_data->>'title' IS NOT NULL
-         AND github_pr_data->>'title' != ''`,
+    const count = await setTitlesFromPrData(
+      `title IS NULL
+       AND github_pr_data IS NOT NULL
+       AND github_pr_data->>'title' IS NOT NULL
+       AND github_pr_data->>'title' != ''`,
+      user,
     )
-    const count = result.rowCount ?? 0
     return { success: `Fylte inn ${count} manglende titler fra PR-data.` }
   }
 
@@ -58,7 +58,7 @@ export async function action({ request }: Route.ActionArgs) {
     if (!normalized) {
       return { fieldErrors: { github_username: 'GitHub brukernavn er påkrevd' } }
     }
-    await deleteUserMapping(normalized, admin.navIdent)
+    await deleteUserMapping(normalized, admin.navIdent, admin)
     return { success: true }
   }
 
@@ -89,13 +89,16 @@ export async function action({ request }: Route.ActionArgs) {
       return { fieldErrors }
     }
 
-    await upsertUserMapping({
-      githubUsername,
-      displayName: (formData.get('display_name') as string) || null,
-      navEmail,
-      navIdent,
-      slackMemberId: (formData.get('slack_member_id') as string) || null,
-    })
+    await upsertUserMapping(
+      {
+        githubUsername,
+        displayName: (formData.get('display_name') as string) || null,
+        navEmail,
+        navIdent,
+        slackMemberId: (formData.get('slack_member_id') as string) || null,
+      },
+      admin,
+    )
     return { success: true }
   }
 
@@ -104,7 +107,7 @@ export async function action({ request }: Route.ActionArgs) {
     if (!navIdent) return { error: 'Nav-ident er påkrevd' }
     const devTeamIds = formData.getAll('dev_team_ids').map(Number).filter(Boolean)
     try {
-      await setUserDevTeams(navIdent, devTeamIds)
+      await setUserDevTeams(navIdent, devTeamIds, admin)
     } catch {
       return { error: 'Kunne ikke oppdatere teamtilhørighet.' }
     }
@@ -128,13 +131,16 @@ export async function action({ request }: Route.ActionArgs) {
       let imported = 0
       for (const mapping of data.mappings) {
         if (!mapping.github_username) continue
-        await upsertUserMapping({
-          githubUsername: mapping.github_username,
-          displayName: mapping.display_name || null,
-          navEmail: mapping.nav_email || null,
-          navIdent: mapping.nav_ident || null,
-          slackMemberId: mapping.slack_member_id || null,
-        })
+        await upsertUserMapping(
+          {
+            githubUsername: mapping.github_username,
+            displayName: mapping.display_name || null,
+            navEmail: mapping.nav_email || null,
+            navIdent: mapping.nav_ident || null,
+            slackMemberId: mapping.slack_member_id || null,
+          },
+          admin,
+        )
         imported++
       }
 
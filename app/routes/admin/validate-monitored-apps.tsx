@@ -63,7 +63,7 @@ export async function loader({ request }: Route.LoaderArgs) {
 }
 
 export async function action({ request }: Route.ActionArgs): Promise<ActionResult> {
-  await requireAdmin(request)
+  const user = await requireAdmin(request)
   const formData = await request.formData()
   const intent = formData.get('intent')
   const idStr = getFormString(formData, 'id')
@@ -80,7 +80,7 @@ export async function action({ request }: Route.ActionArgs): Promise<ActionResul
       return fail('Mangler felter for fiks.')
     }
     try {
-      await updateMonitoredApplicationIdentity(id, { team_slug: team, environment_name: env, app_name: app })
+      await updateMonitoredApplicationIdentity(id, { team_slug: team, environment_name: env, app_name: app }, user)
       return ok(`Oppdatert til ${team}/${env}/${app}.`)
     } catch (error) {
       return fail(`Kunne ikke oppdatere: ${error instanceof Error ? error.message : String(error)}`)
@@ -89,7 +89,7 @@ export async function action({ request }: Route.ActionArgs): Promise<ActionResul
 
   if (intent === 'deactivate') {
     try {
-      await updateMonitoredApplication(id, { is_active: false })
+      await updateMonitoredApplication(id, { is_active: false }, { auditActor: user })
       return ok('Applikasjonen er deaktivert.')
     } catch (error) {
       return fail(`Kunne ikke deaktivere: ${error instanceof Error ? error.message : String(error)}`)
@@ -0,0 +1,52 @@
+/**
+ * API: GitHub Webhook Receiver
+ *
+ * Receives pull_request, pull_request_review and push events from the
+ * GitHub App and stores them as snapshots. Authenticated by HMAC signature
+ * (`X-Hub-Signature-256`) using GITHUB_WEBHOOK_SECRET — not by JWT.
+ *
+ * POST /api/github/webhook
+ */
+
+import { isHandledWebhookEvent, verifyWebhookSignature } from '~/lib/github/webhook'
+import { handleGitHubWebhook } from '~/lib/github/webhook-handler.server'
+import { logger } from '~/lib/logger.server'
+import type { Route } from './+types/github.webhook'
+
+export async function action({ request }: Route.ActionArgs) {
+  if (request.method !== 'POST') {
+    return Response.json({ error: 'Method not allowed' }, { status: 405 })
+  }
+
+  const secret = process.env.GITHUB_WEBHOOK_SECRET
+  if (!secret) {
+    logger.error('GITHUB_WEBHOOK_SECRET not configured — rejecting webhook delivery')
+    return Response.json({ error: 'Webhook not configured' }, { status: 503 })
+  }
+
+  const rawBody = await request.text()
+  if (!verifyWebhookSignature(secret, rawBody, request.headers.get('X-Hub-Signature-256'))) {
+    logger.warn(`Rejected GitHub webhook with invalid signature (delivery ${request.headers.get('X-GitHub-Delivery')})`)
+    return Response.json({ error: 'Invalid signature' }, { status: 401 })
+  }
+
+  const event = request.headers.get('X-GitHub-Event')
+  if (!isHandledWebhookEvent(event)) {
+    return Response.json({ ignored: event })
+  }
+
+  let payload: unknown
+  try {
+    payload = JSON.parse(rawBody)
+  } catch {
+    return Response.json({ error: 'Invalid JSON payload' }, { status: 400 })
+  }
+
+  try {
+    const result = await handleGitHubWebhook(event, payload)
+    return Response.json(result, { status: 202 })
+  } catch (error) {
+    logger.error(`❌ Failed to handle GitHub webhook ${event}:`, error)
+    return Response.json({ error: 'Failed to process webhook' }, { status: 500 })
+  }
+}
@@ -1,8 +1,8 @@
-import { createHash } from 'node:crypto'
 import { data } from 'react-router'
 import { buildReportData, getAuditReportData } from '~/db/audit-reports.server'
 import { createReportJob, updateReportJobStatus } from '~/db/report-jobs.server'
 import { generateAuditReportPdf } from '~/lib/audit-report-pdf'
+import { calculateContentHash } from '~/lib/audit-report-signing.server'
 import { requireAdmin } from '~/lib/auth.server'
 import { logger } from '~/lib/logger.server'
 import type { ReportPeriodType } from '~/lib/report-periods'
@@ -46,7 +46,7 @@ async function processReportJob(jobId: string, monitoredAppId: number, periodSta
     const reportData = buildReportData(rawData)
 
     const reportId = `${rawData.app.app_name}-${periodStart.getFullYear()}-${Date.now()}`
-    const contentHash = createHash('sha256').update(JSON.stringify(reportData)).digest('hex')
+    const contentHash = calculateContentHash(reportData)
     const generatedAt = new Date()
 
     const pdfBuffer = await generateAuditReportPdf({
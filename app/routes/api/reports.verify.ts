@@ -0,0 +1,115 @@
+import { createHash } from 'node:crypto'
+import { data } from 'react-router'
+import {
+  getAuditReportById,
+  getAuditReportByPdfHash,
+  getAuditReportByReportId,
+  getAuditReportChainHash,
+} from '~/db/audit-reports.server'
+import {
+  type ConsolidatedAuditReport,
+  getConsolidatedAuditReportByPdfHash,
+  getConsolidatedAuditReportByReportId,
+  getConsolidatedAuditReportChainHash,
+} from '~/db/consolidated-audit-reports.server'
+import { checkReportIntegrity, getSigningPublicKey } from '~/lib/audit-report-signing.server'
+import { requireUser } from '~/lib/auth.server'
+import type { Route } from './+types/reports.verify'
+
+type StoredReport = NonNullable<Awaited<ReturnType<typeof getAuditReportById>>>
+
+async function findReport(reportId: string): Promise<StoredReport | ConsolidatedAuditReport | null> {
+  if (/^\d+$/.test(reportId)) {
+    return getAuditReportById(Number(reportId))
+  }
+  return (await getAuditReportByReportId(reportId)) ?? (await getConsolidatedAuditReportByReportId(reportId))
+}
+
+async function findReportByPdfHash(pdfHash: string): Promise<StoredReport | ConsolidatedAuditReport | null> {
+  return (await getAuditReportByPdfHash(pdfHash)) ?? (await getConsolidatedAuditReportByPdfHash(pdfHash))
+}
+
+async function verifyReport(report: StoredReport | ConsolidatedAuditReport) {
+  const isConsolidated = 'scope_type' in report
+  const getChainHash = isConsolidated ? getConsolidatedAuditReportChainHash : getAuditReportChainHash
+  const previousReportChainHash = report.previous_report_id ? await getChainHash(report.previous_report_id) : null
+
+  const { authentic, problems } = checkReportIntegrity(
+    {
+      reportData: report.report_data,
+      contentHash: report.content_hash,
+      previousHash: report.previous_hash,
+      chainHash: report.chain_hash,
+      signature: report.signature,
+      signingKeyFingerprint: report.signing_key_fingerprint,
+      previousReportChainHash,
+    },
+    getSigningPublicKey(),
+  )
+
+  return {
+    authentic,
+    problems,
+    report: {
+      id: report.id,
+      reportId: report.report_id,
+      ...(isConsolidated
+        ? { scopeType: report.scope_type, scopeName: report.scope_name }
+        : { appName: report.app_name, teamSlug: report.team_slug, environmentName: report.environment_name }),
+      periodLabel: report.period_label,
+      generatedAt: report.generated_at,
+      contentHash: report.content_hash,
+      previousHash: report.previous_hash,
+      chainHash: report.chain_hash,
+      signingKeyFingerprint: report.signing_key_fingerprint,
+    },
+  }
+}
+
+// GET: Verify a stored report by database id (app reports) or document ID (?reportId=)
+export async function loader({ request }: Route.LoaderArgs) {
+  await requireUser(request)
+
+  const reportId = new URL(request.url).searchParams.get('reportId')
+  if (!reportId) {
+    return data({ error: 'Missing reportId' }, { status: 400 })
+  }
+
+  const report = await findReport(reportId)
+  if (!report) {
+    return data({ error: 'Report not found' }, { status: 404 })
+  }
+
+  return data(await verifyReport(report))
+}
+
+// POST: Verify an uploaded report PDF (multipart field `pdf`) or a report id (field `reportId`)
+export async function action({ request }: Route.ActionArgs) {
+  await requireUser(request)
+
+  const formData = await request.formData()
+  const pdf = formData.get('pdf')
+  const reportId = formData.get('reportId')
+
+  if (pdf instanceof File) {
+    // A PDF is only authentic if it is byte-identical to a PDF this system generated
+    const pdfHash = createHash('sha256')
+      .update(Buffer.from(await pdf.arrayBuffer()))
+      .digest('hex')
+    const report = await findReportByPdfHash(pdfHash)
+    if (!report) {
+      return data({ authentic: false, problems: ['unknown_pdf'], pdfHash, report: null })
+    }
+    return data({ ...(await verifyReport(report)), pdfHash })
+  }
+
+  if (typeof reportId === 'string' && reportId) {
+    const report = await findReport(reportId)
+    if (!report) {
+      return data({ error: 'Report not found' }, { status: 404 })
+    }
+    return data(await verifyReport(report))
+  }
+
+  return data({ error: 'Missing pdf or reportId' }, { status: 400 })
+}
@@ -1,7 +1,10 @@
 import { searchDeployments } from '~/db/deployments.server'
+import { getVisibleAppIds } from '~/lib/access-policy.server'
+import { requireUser } from '~/lib/auth.server'
 import type { Route } from './+types/search'
 
 export async function loader({ request }: Route.LoaderArgs) {
+  const user = await requireUser(request)
   const url = new URL(request.url)
   const query = url.searchParams.get('q') || ''
 
@@ -9,6 +12,6 @@ export async function loader({ request }: Route.LoaderArgs) {
     return Response.json({ results: [] })
   }
 
-  const results = await searchDeployments(query, 10)
+  const results = await searchDeployments(query, 10, await getVisibleAppIds(user))
   return Response.json({ results })
 }
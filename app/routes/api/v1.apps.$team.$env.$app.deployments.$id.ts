@@ -0,0 +1,40 @@
+/**
+ * API: Single Deployment
+ *
+ * Returns a deployment with its approvers and the commits that are not
+ * covered by an approved pull request. Secured with M2M token validation.
+ *
+ * GET /api/v1/apps/:team/:env/:app/deployments/:id
+ */
+
+import { getDeploymentById } from '~/db/deployments.server'
+import { toDeploymentDetailData } from '~/lib/api/mappers'
+import { apiError } from '~/lib/api/pagination.server'
+import type { DeploymentDetailData } from '~/lib/api/types'
+import { requireM2MToken } from '~/lib/m2m-auth.server'
+import type { Route } from './+types/v1.apps.$team.$env.$app.deployments.$id'
+
+export async function loader({ request, params }: Route.LoaderArgs) {
+  await requireM2MToken(request)
+
+  const { team, env, app: appName } = params
+  const deploymentId = Number(params.id)
+  if (!Number.isInteger(deploymentId)) {
+    throw apiError(400, 'Invalid deployment id')
+  }
+
+  const deployment = await getDeploymentById(deploymentId)
+  // Deployments belonging to another app are reported as not found
+  if (
+    !deployment ||
+    deployment.team_slug !== team ||
+    deployment.environment_name !== env ||
+    deployment.app_name !== appName
+  ) {
+    throw apiError(404, 'Deployment not found')
+  }
+
+  const response: DeploymentDetailData = toDeploymentDetailData(deployment)
+
+  return Response.json(response)
+}
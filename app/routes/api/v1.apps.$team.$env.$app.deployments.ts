@@ -0,0 +1,67 @@
+/**
+ * API: Deployments for an Application
+ *
+ * Lists deployments with their four-eyes status, newest first.
+ * Secured with M2M token validation.
+ *
+ * GET /api/v1/apps/:team/:env/:app/deployments
+ *
+ * Query parameters:
+ *   status - Filter by four-eyes status (e.g. approved, pending, unverified_commits)
+ *   from   - ISO 8601 date
+ *   to     - ISO 8601 date
+ *   cursor - Cursor from the previous page
+ *   limit  - Page size (default: 50, max: 200)
+ */
+
+import { getDeploymentsPage } from '~/db/deployments.server'
+import { getMonitoredApplicationByIdentity } from '~/db/monitored-applications.server'
+import { toDeploymentSummaryData } from '~/lib/api/mappers'
+import { apiError, parsePageParams, toPage } from '~/lib/api/pagination.server'
+import type { DeploymentSummaryData, PaginatedResponse } from '~/lib/api/types'
+import { requireM2MToken } from '~/lib/m2m-auth.server'
+import type { Route } from './+types/v1.apps.$team.$env.$app.deployments'
+
+function parseDateParam(url: URL, name: string): Date | undefined {
+  const value = url.searchParams.get(name)
+  if (!value) return undefined
+  const date = new Date(value)
+  if (Number.isNaN(date.getTime())) {
+    throw apiError(400, 'Invalid date format. Use ISO 8601.')
+  }
+  return date
+}
+
+export async function loader({ request, params }: Route.LoaderArgs) {
+  await requireM2MToken(request)
+
+  const { team, env, app: appName } = params
+
+  const monitoredApp = await getMonitoredApplicationByIdentity(team, env, appName)
+  if (!monitoredApp) {
+    throw apiError(404, 'Application not found')
+  }
+
+  const url = new URL(request.url)
+  const page = parsePageParams(url, { orderedByCreatedAt: true })
+  const from = parseDateParam(url, 'from')
+  const to = parseDateParam(url, 'to')
+
+  if (from && to && from > to) {
+    throw apiError(400, 'Invalid date range: "from" must be before "to".')
+  }
+
+  const rows = await getDeploymentsPage(monitoredApp.id, page, {
+    fourEyesStatus: url.searchParams.get('status') || undefined,
+    from,
+    to,
+  })
+  const { items, nextCursor } = toPage(rows, page.limit, (row) => ({ createdAt: row.cursor_created_at, id: row.id }))
+
+  const response: PaginatedResponse<DeploymentSummaryData> = {
+    data: items.map(toDeploymentSummaryData),
+    pagination: { nextCursor, limit: page.limit },
+  }
+
+  return Response.json(response)
+}
@@ -0,0 +1,50 @@
+/**
+ * API: Deviations for an Application
+ *
+ * Lists registered deviations, newest first. Secured with M2M token validation.
+ *
+ * GET /api/v1/apps/:team/:env/:app/deviations
+ *
+ * Query parameters:
+ *   status - Filter by lifecycle status (registered, under_investigation, action_required, closed)
+ *   cursor - Cursor from the previous page
+ *   limit  - Page size (default: 50, max: 200)
+ */
+
+import { getDeviationsPage } from '~/db/deployments.server'
+import { getMonitoredApplicationByIdentity } from '~/db/monitored-applications.server'
+import { toDeviationData } from '~/lib/api/mappers'
+import { apiError, parsePageParams, toPage } from '~/lib/api/pagination.server'
+import type { DeviationData, PaginatedResponse } from '~/lib/api/types'
+import { DEVIATION_STATUS_LABELS } from '~/lib/deviation-constants'
+import { requireM2MToken } from '~/lib/m2m-auth.server'
+import type { Route } from './+types/v1.apps.$team.$env.$app.deviations'
+
+export async function loader({ request, params }: Route.LoaderArgs) {
+  await requireM2MToken(request)
+
+  const { team, env, app: appName } = params
+
+  const monitoredApp = await getMonitoredApplicationByIdentity(team, env, appName)
+  if (!monitoredApp) {
+    throw apiError(404, 'Application not found')
+  }
+
+  const url = new URL(request.url)
+  const page = parsePageParams(url, { orderedByCreatedAt: true })
+
+  const status = url.searchParams.get('status') || undefined
+  if (status && !(status in DEVIATION_STATUS_LABELS)) {
+    throw apiError(400, `Invalid status. Use one of: ${Object.keys(DEVIATION_STATUS_LABELS).join(', ')}.`)
+  }
+
+  const rows = await getDeviationsPage(monitoredApp.id, page, { status })
+  const { items, nextCursor } = toPage(rows, page.limit, (row) => ({ createdAt: row.cursor_created_at, id: row.id }))
+
+  const response: PaginatedResponse<DeviationData> = {
+    data: items.map(toDeviationData),
+    pagination: { nextCursor, limit: page.limit },
+  }
+
+  return Response.json(response)
+}
@@ -0,0 +1,42 @@
+/**
+ * API: Monitored applications
+ *
+ * Lists monitored applications. Secured with M2M token validation.
+ *
+ * GET /api/v1/apps
+ *
+ * Query parameters:
+ *   team             - Filter by Nais team
+ *   env              - Filter by environment
+ *   include_inactive - Include inactive applications (true/false, default: false)
+ *   cursor           - Cursor from the previous page
+ *   limit            - Page size (default: 50, max: 200)
+ */
+
+import { getMonitoredAppsPage } from '~/db/deployments.server'
+import { toMonitoredAppData } from '~/lib/api/mappers'
+import { parsePageParams, toPage } from '~/lib/api/pagination.server'
+import type { MonitoredAppData, PaginatedResponse } from '~/lib/api/types'
+import { requireM2MToken } from '~/lib/m2m-auth.server'
+import type { Route } from './+types/v1.apps'
+
+export async function loader({ request }: Route.LoaderArgs) {
+  await requireM2MToken(request)
+
+  const url = new URL(request.url)
+  const page = parsePageParams(url)
+
+  const rows = await getMonitoredAppsPage(page, {
+    team: url.searchParams.get('team') || undefined,
+    environment: url.searchParams.get('env') || undefined,
+    includeInactive: url.searchParams.get('include_inactive') === 'true',
+  })
+  const { items, nextCursor } = toPage(rows, page.limit, (row) => ({ id: row.id }))
+
+  const response: PaginatedResponse<MonitoredAppData> = {
+    data: items.map(toMonitoredAppData),
+    pagination: { nextCursor, limit: page.limit },
+  }
+
+  return Response.json(response)
+}
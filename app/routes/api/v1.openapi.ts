@@ -0,0 +1,14 @@
+/**
+ * API: OpenAPI document
+ *
+ * Describes the /api/v1/ endpoints. Served without authentication so
+ * consumers can generate clients; the endpoints themselves require M2M tokens.
+ *
+ * GET /api/v1/openapi.json
+ */
+
+import { OPENAPI_DOCUMENT } from '~/lib/api/openapi'
+
+export function loader() {
+  return Response.json(OPENAPI_DOCUMENT)
+}
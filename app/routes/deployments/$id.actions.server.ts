@@ -1,22 +1,71 @@
 import { propagateVerificationToSiblings } from '~/db/application-groups.server'
-import { createComment, deleteComment, deleteLegacyInfo, getLegacyInfo } from '~/db/comments.server'
-import { addDeploymentGoalLink, removeDeploymentGoalLink } from '~/db/deployment-goal-links.server'
+import { getAuditActor, recordAuditEvent } from '~/db/audit-events.server'
+import { createComment, deleteComment, deleteLegacyInfo, getCommentById, getLegacyInfo } from '~/db/comments.server'
+import {
+  addDeploymentGoalLink,
+  getLinksForDeployment,
+  removeDeploymentGoalLink,
+} from '~/db/deployment-goal-links.server'
 import { getDeploymentById, updateDeploymentFourEyes, updateDeploymentLegacyData } from '~/db/deployments.server'
-import { createDeviation } from '~/db/deviations.server'
-import { getDeviationSlackChannel } from '~/db/global-settings.server'
 import { getMonitoredApplicationById } from '~/db/monitored-applications.server'
-import { getUserMappings } from '~/db/user-mappings.server'
+import { getNotificationEndpoints, hasDeliveredNotification } from '~/db/notification-channels.server'
+import { getUserMappingByNavIdent } from '~/db/user-mappings.server'
+import { getAppPermissions } from '~/lib/access-policy.server'
 import { getNavIdent, getUserIdentity } from '~/lib/auth.server'
+import { validateDeviationInput } from '~/lib/deviation-constants'
+import { registerDeviation } from '~/lib/deviation-registration.server'
 import { lookupLegacyByCommit, lookupLegacyByPR } from '~/lib/github'
 import { logger } from '~/lib/logger.server'
-import { notifyDeploymentIfNeeded, sendDeviationNotification } from '~/lib/slack/client.server'
+import { approveDeploymentManually } from '~/lib/manual-approval.server'
+import { forwardToAppChannel, sendAppNotification } from '~/lib/notifications/channels.server'
+import { hasNotificationTarget, NOTIFICATION_CHANNEL_LABELS } from '~/lib/notifications/events'
+import {
+  buildDeploymentNotification,
+  buildDeviationRegisteredNotification,
+  notifyDeploymentIfNeeded,
+  notifyDeviationRegistered,
+  postCommentToDeploymentThread,
+} from '~/lib/slack/client.server'
 import { runVerification } from '~/lib/verification'
 
+const APP_ADMIN_REQUIRED = 'Krever admin-tilgang i seksjonen som eier applikasjonen'
+const APP_ACCESS_REQUIRED = 'Applikasjonen tilhører en annen seksjon'
+
+/** Intents that change a deployment's verification status, delete data or notify the app's channel */
+const APP_ADMIN_INTENTS = new Set([
+  'manual_approval',
+  'register_deviation',
+  'approve_legacy',
+  'reject_legacy',
+  'delete_comment',
+  'verify_four_eyes',
+  'approve_baseline',
+  'send_notification',
+])
+
 export async function action({ request, params }: { request: Request; params: Record<string, string | undefined> }) {
   const deploymentId = parseInt(params.id ?? '', 10)
   const formData = await request.formData()
   const intent = formData.get('intent')
 
+  // Every intent acts on the deployment's app: viewers may comment, link goals and
+  // register legacy info, while admins in the owning section change status or delete
+  const currentUser = await getUserIdentity(request)
+  if (!currentUser?.navIdent) {
+    return { error: 'Kunne ikke identifisere bruker. Vennligst logg inn på nytt.' }
+  }
+  const owningDeployment = await getDeploymentById(deploymentId)
+  if (!owningDeployment) {
+    return { error: 'Deployment ikke funnet' }
+  }
+  const permissions = await getAppPermissions(currentUser, owningDeployment.monitored_app_id)
+  if (!permissions.canView) {
+    return { error: APP_ACCESS_REQUIRED }
+  }
+  if (typeof intent === 'string' && APP_ADMIN_INTENTS.has(intent) && !permissions.canAdminister) {
+    return { error: APP_ADMIN_REQUIRED }
+  }
+
   if (intent === 'add_comment') {
     const commentText = formData.get('comment_text') as string
     const slackLink = formData.get('slack_link') as string
@@ -26,11 +75,26 @@ export async function action({ request, params }: { request: Request; params: Re
     }
 
     try {
-      await createComment({
-        deployment_id: deploymentId,
-        comment_text: commentText.trim(),
-        slack_link: slackLink || undefined,
-      })
+      const actor = await getAuditActor(request)
+      const comment = await createComment(
+        {
+          deployment_id: deploymentId,
+          comment_text: commentText.trim(),
+          slack_link: slackLink || undefined,
+          registered_by: actor.navIdent,
+        },
+        (created) => ({
+          actor,
+          action: 'comment.create',
+          entityType: 'comment',
+          entityId: created.id,
+          monitoredAppId: owningDeployment.monitored_app_id,
+          after: { deployment_id: deploymentId, comment_text: created.comment_text, slack_link: created.slack_link },
+        }),
+      )
+
+      // Keep the discussion in the Slack thread of the deployment notification
+      await postCommentToDeploymentThread(owningDeployment, comment, actor.name || actor.navIdent)
       return { success: 'Kommentar lagt til' }
     } catch (_error) {
       return { error: 'Kunne ikke legge til kommentar' }
@@ -46,86 +110,24 @@ export async function action({ request, params }: { request: Request; params: Re
       return { error: 'Kunne ikke identifisere bruker. Vennligst logg inn på nytt.' }
     }
 
-    // Validate four-eyes principle: user cannot approve their own work
     const deployment = await getDeploymentById(deploymentId)
     if (!deployment) {
       return { error: 'Deployment ikke funnet' }
     }
 
-    // Collect GitHub usernames to check
-    const usernamesToCheck: string[] = []
-    if (deployment.github_pr_data?.creator?.username) {
-      usernamesToCheck.push(deployment.github_pr_data.creator.username)
-    }
-    if (deployment.unverified_commits) {
-      for (const commit of deployment.unverified_commits) {
-        if (commit.author && !usernamesToCheck.includes(commit.author)) {
-          usernamesToCheck.push(commit.author)
-        }
-      }
-    }
-
-    const userMappings = await getUserMappings(usernamesToCheck)
-    const currentNavIdent = identity.navIdent.toUpperCase()
-
-    // Check if user is PR creator
-    const prCreatorUsername = deployment.github_pr_data?.creator?.username
-    if (prCreatorUsername) {
-      const prCreatorMapping = userMappings.get(prCreatorUsername)
-      if (prCreatorMapping?.nav_ident?.toUpperCase() === currentNavIdent) {
-        return {
-          error:
-            'Du kan ikke godkjenne din egen pull request. Fire-øyne-prinsippet krever at en annen person godkjenner.',
-        }
-      }
-    }
-
-    // Check if user is author of the last unverified commit (relaxed four-eyes check)
-    if (deployment.unverified_commits && deployment.unverified_commits.length > 0) {
-      const lastCommit = deployment.unverified_commits[deployment.unverified_commits.length - 1]
-      const lastCommitAuthorMapping = userMappings.get(lastCommit.author)
-      if (lastCommitAuthorMapping?.nav_ident?.toUpperCase() === currentNavIdent) {
-        return {
-          error:
-            'Du kan ikke godkjenne en deployment der du har siste commit. Fire-øyne-prinsippet krever at en annen person godkjenner.',
-        }
-      }
-    }
-
     try {
-      // Create manual approval comment with slack link
-      await createComment({
-        deployment_id: deploymentId,
-        comment_text: reason || 'Manuelt godkjent etter gjennomgang',
-        slack_link: slackLink?.trim() || undefined,
-        comment_type: 'manual_approval',
-        approved_by: identity.navIdent,
+      // Validates separation of duties: the approver cannot have taken part in the change
+      const result = await approveDeploymentManually({
+        deployment,
+        actor: identity,
+        approver: await getUserMappingByNavIdent(identity.navIdent),
+        source: 'web',
+        reason,
+        slackLink: slackLink?.trim(),
       })
-
-      // Update deployment to mark as manually approved, preserving existing GitHub data
-      await updateDeploymentFourEyes(
-        deploymentId,
-        {
-          fourEyesStatus: 'manually_approved',
-          githubPrNumber: deployment.github_pr_number ?? null,
-          githubPrUrl: deployment.github_pr_url ?? null,
-          githubPrData: deployment.github_pr_data ?? undefined,
-          title: deployment.title ?? null,
-          unverifiedCommits: deployment.unverified_commits ?? undefined,
-        },
-        { changeSource: 'manual_approval', changedBy: identity.navIdent },
-      )
-
-      // Propagate to sibling deployments in the same application group
-      if (deployment.commit_sha) {
-        await propagateVerificationToSiblings(
-          deploymentId,
-          'manually_approved',
-          deployment.commit_sha,
-          deployment.monitored_app_id,
-        )
+      if (!result.success) {
+        return { error: result.error }
       }
-
       return { success: 'Deployment manuelt godkjent' }
     } catch (_error) {
       return { error: 'Kunne ikke godkjenne deployment' }
@@ -134,17 +136,19 @@ export async function action({ request, params }: { request: Request; params: Re
 
   if (intent === 'register_deviation') {
     const identity = await getUserIdentity(request)
-    const reason = formData.get('deviation_reason') as string
-    const breachType = formData.get('deviation_breach_type') as string
-    const deviationIntent = formData.get('deviation_intent') as string
-    const severity = formData.get('deviation_severity') as string
-    const followUpRole = formData.get('deviation_follow_up_role') as string
-
     if (!identity?.navIdent) {
       return { error: 'Kunne ikke identifisere bruker. Vennligst logg inn på nytt.' }
     }
-    if (!reason || reason.trim() === '') {
-      return { error: 'Beskrivelse av avvik er påkrevd' }
+
+    const validation = validateDeviationInput({
+      reason: formData.get('deviation_reason') as string,
+      breachType: formData.get('deviation_breach_type') as string,
+      intent: formData.get('deviation_intent') as string,
+      severity: formData.get('deviation_severity') as string,
+      followUpRole: formData.get('deviation_follow_up_role') as string,
+    })
+    if (!validation.ok) {
+      return { error: Object.values(validation.errors)[0] }
     }
 
     try {
@@ -152,42 +156,17 @@ export async function action({ request, params }: { request: Request; params: Re
       if (!deployment) {
         return { error: 'Deployment ikke funnet' }
       }
+      const deviation = await registerDeviation({ deployment, input: validation.input, actor: identity })
 
+      // Send Slack notification to deviation channel, and to the app's channel if it uses Teams or a webhook
+      const registeredByName = identity.name || identity.navIdent
+      await notifyDeviationRegistered(deviation, deployment, registeredByName)
       const app = await getMonitoredApplicationById(deployment.monitored_app_id)
-
-      await createDeviation({
-        deployment_id: deploymentId,
-        reason: reason.trim(),
-        breach_type: breachType?.trim() || undefined,
-        intent: (deviationIntent as 'malicious' | 'accidental' | 'unknown') || undefined,
-        severity: (severity as 'low' | 'medium' | 'high' | 'critical') || undefined,
-        follow_up_role: (followUpRole as 'product_lead' | 'delivery_lead' | 'section_lead') || undefined,
-        registered_by: identity.navIdent,
-        registered_by_name: identity.name,
-      })
-
-      // Send Slack notification to deviation channel
-      const deviationChannelConfig = await getDeviationSlackChannel()
-      if (deviationChannelConfig.channel_id) {
-        const appUrl = app ? `/team/${app.team_slug}/env/${app.environment_name}/app/${app.app_name}` : ''
-        const baseUrl = process.env.BASE_URL || 'https://nda.ansatt.nav.no'
-        await sendDeviationNotification(
-          {
-            deploymentId,
-            appName: app?.app_name || 'Ukjent',
-            environmentName: app?.environment_name || 'Ukjent',
-            teamSlug: app?.team_slug || 'Ukjent',
-            commitSha: deployment.commit_sha || 'Ukjent',
-            reason: reason.trim(),
-            breachType: breachType?.trim() || undefined,
-            intent: deviationIntent || undefined,
-            severity: severity || undefined,
-            followUpRole: followUpRole || undefined,
-            registeredByName: identity.name || identity.navIdent,
-            detailsUrl: `${baseUrl}${appUrl}/deployments/${deploymentId}`,
-          },
-          deviationChannelConfig.channel_id,
-        )
+      if (app) {
+        await forwardToAppChannel(app, {
+          type: 'deviation',
+          notification: buildDeviationRegisteredNotification(deviation, deployment, registeredByName),
+        })
       }
 
       return { success: 'Avvik registrert' }
@@ -334,7 +313,24 @@ export async function action({ request, params }: { request: Request; params: Re
           githubPrData: updatedDeployment?.github_pr_data || undefined,
           title: updatedDeployment?.title || prTitle || commitMessage || null,
         },
-        { changeSource: 'legacy', changedBy: navIdent },
+        {
+          changeSource: 'legacy',
+          changedBy: navIdent,
+          auditEvent: {
+            actor: await getAuditActor(request),
+            action: 'deployment.legacy_register',
+            entityType: 'deployment',
+            entityId: deploymentId,
+            monitoredAppId: updatedDeployment?.monitored_app_id,
+            after: {
+              four_eyes_status: 'legacy_pending',
+              commit_sha: commitSha || null,
+              pr_number: prNumber ? parseInt(prNumber, 10) : null,
+              merged_by: mergedBy || null,
+              slack_link: slackLink,
+            },
+          },
+        },
       )
 
       return { success: 'GitHub-data lagret - venter på godkjenning fra annen person' }
@@ -384,7 +380,18 @@ export async function action({ request, params }: { request: Request; params: Re
           githubPrNumber: prNumber ? parseInt(prNumber, 10) : null,
           githubPrUrl: null,
         },
-        { changeSource: 'legacy', changedBy: navIdent },
+        {
+          changeSource: 'legacy',
+          changedBy: navIdent,
+          auditEvent: {
+            actor: await getAuditActor(request),
+            action: 'deployment.legacy_register',
+            entityType: 'deployment',
+            entityId: deploymentId,
+            monitoredAppId: (await getDeploymentById(deploymentId))?.monitored_app_id,
+            after: { four_eyes_status: 'pending_approval', registered_info: infoText, slack_link: slackLink.trim() },
+          },
+        },
       )
 
       return { success: 'Legacy info registrert - venter på godkjenning fra annen person' }
@@ -432,7 +439,19 @@ export async function action({ request, params }: { request: Request; params: Re
           githubPrData: currentDeployment?.github_pr_data || undefined,
           title: currentDeployment?.title || null,
         },
-        { changeSource: 'legacy', changedBy: navIdent },
+        {
+          changeSource: 'legacy',
+          changedBy: navIdent,
+          auditEvent: {
+            actor: await getAuditActor(request),
+            action: 'deployment.legacy_approve',
+            entityType: 'deployment',
+            entityId: deploymentId,
+            monitoredAppId: currentDeployment?.monitored_app_id,
+            before: { four_eyes_status: currentDeployment?.four_eyes_status ?? null },
+            after: { four_eyes_status: 'manually_approved', registered_by: legacyInfo.registered_by },
+          },
+        },
       )
 
       // Propagate to sibling deployments in the same application group
@@ -460,6 +479,8 @@ export async function action({ request, params }: { request: Request; params: Re
     }
 
     try {
+      const deployment = await getDeploymentById(deploymentId)
+
       // Delete the legacy_info comment
       await deleteLegacyInfo(deploymentId, navIdent)
 
@@ -478,7 +499,19 @@ export async function action({ request, params }: { request: Request; params: Re
           githubPrNumber: null,
           githubPrUrl: null,
         },
-        { changeSource: 'legacy', changedBy: navIdent },
+        {
+          changeSource: 'legacy',
+          changedBy: navIdent,
+          auditEvent: {
+            actor: await getAuditActor(request),
+            action: 'deployment.legacy_reject',
+            entityType: 'deployment',
+            entityId: deploymentId,
+            monitoredAppId: deployment?.monitored_app_id,
+            before: { four_eyes_status: deployment?.four_eyes_status ?? null },
+            after: { four_eyes_status: 'legacy', reason: reason || null },
+          },
+        },
       )
 
       return { success: 'Legacy-verifisering avvist - kan registreres på nytt' }
@@ -494,7 +527,24 @@ export async function action({ request, params }: { request: Request; params: Re
     }
     const commentId = parseInt(formData.get('comment_id') as string, 10)
     try {
-      await deleteComment(commentId, navIdent)
+      const comment = await getCommentById(commentId)
+      if (comment?.deployment_id !== deploymentId) {
+        return { error: 'Kommentaren tilhører ikke denne deploymenten' }
+      }
+      const actor = await getAuditActor(request)
+      await deleteComment(commentId, navIdent, (deleted) => ({
+        actor,
+        action: 'comment.delete',
+        entityType: 'comment',
+        entityId: commentId,
+        monitoredAppId: owningDeployment.monitored_app_id,
+        before: {
+          deployment_id: deleted.deployment_id,
+          comment_text: deleted.comment_text,
+          comment_type: deleted.comment_type,
+        },
+        after: { deleted_by: deleted.deleted_by },
+      }))
       return { success: 'Kommentar slettet' }
     } catch (_error) {
       return { error: 'Kunne ikke slette kommentar' }
@@ -520,6 +570,7 @@ export async function action({ request, params }: { request: Request; params: Re
     try {
       logger.info(`🔍 Manually verifying deployment ${deployment.nais_deployment_id}...`)
 
+      const actor = await getAuditActor(request)
       const result = await runVerification(deployment.id, {
         commitSha: deployment.commit_sha,
         repository: `${deployment.detected_github_owner}/${deployment.detected_github_repo_name}`,
@@ -527,6 +578,15 @@ export async function action({ request, params }: { request: Request; params: Re
         baseBranch: deployment.default_branch || 'main',
         monitoredAppId: deployment.monitored_app_id,
         forceRefresh: true, // Fetch fresh data from GitHub for manual re-verification
+        auditEvent: (fourEyesStatus) => ({
+          actor,
+          action: 'deployment.reverify',
+          entityType: 'deployment',
+          entityId: deployment.id,
+          monitoredAppId: deployment.monitored_app_id,
+          before: { four_eyes_status: fourEyesStatus.before },
+          after: { four_eyes_status: fourEyesStatus.after },
+        }),
       })
 
       if (result.status !== 'error') {
@@ -547,6 +607,8 @@ export async function action({ request, params }: { request: Request; params: Re
 
   if (intent === 'approve_baseline') {
     try {
+      const actor = await getAuditActor(request)
+      const deployment = await getDeploymentById(deploymentId)
       await updateDeploymentFourEyes(
         deploymentId,
         {
@@ -554,7 +616,19 @@ export async function action({ request, params }: { request: Request; params: Re
           githubPrNumber: null,
           githubPrUrl: null,
         },
-        { changeSource: 'baseline_approval' },
+        {
+          changeSource: 'baseline_approval',
+          changedBy: actor.navIdent,
+          auditEvent: {
+            actor,
+            action: 'deployment.baseline_approval',
+            entityType: 'deployment',
+            entityId: deploymentId,
+            monitoredAppId: deployment?.monitored_app_id,
+            before: { four_eyes_status: deployment?.four_eyes_status ?? null },
+            after: { four_eyes_status: 'baseline' },
+          },
+        },
       )
       return { success: 'Deployment godkjent som baseline' }
     } catch (_error) {
@@ -562,11 +636,8 @@ export async function action({ request, params }: { request: Request; params: Re
     }
   }
 
-  if (intent === 'send_slack_notification') {
-    const identity = await getUserIdentity(request)
-    if (!identity || identity.role !== 'admin') {
-      return { error: 'Kun administratorer kan sende Slack-varsler' }
-    }
+  if (intent === 'send_notification') {
+    const identity = currentUser
 
     const deployment = await getDeploymentById(deploymentId)
     if (!deployment) {
@@ -578,6 +649,36 @@ export async function action({ request, params }: { request: Request; params: Re
       return { error: 'App ikke funnet' }
     }
 
+    const baseUrl = new URL(request.url).origin
+
+    if (app.notification_channel !== 'slack') {
+      const channelLabel = NOTIFICATION_CHANNEL_LABELS[app.notification_channel]
+      if (!hasNotificationTarget(app, await getNotificationEndpoints(app.id))) {
+        return { error: `${channelLabel} er ikke konfigurert for denne appen` }
+      }
+      if (await hasDeliveredNotification(deploymentId, 'deployment')) {
+        return { error: `Varsel er allerede sendt til ${channelLabel} for denne deploymenten` }
+      }
+
+      const sent = await sendAppNotification(
+        app,
+        { type: 'deployment', notification: buildDeploymentNotification(deployment, baseUrl) },
+        { sentBy: identity.navIdent },
+      )
+      if (sent) {
+        await recordAuditEvent({
+          actor: identity,
+          action: 'deployment.notify',
+          entityType: 'deployment',
+          entityId: deploymentId,
+          monitoredAppId: deployment.monitored_app_id,
+          after: { notification_channel: app.notification_channel },
+        })
+        return { success: `Varsel sendt til ${channelLabel}!` }
+      }
+      return { error: `Kunne ikke sende varsel til ${channelLabel}. Se leveransehistorikken for detaljer.` }
+    }
+
     if (!app.slack_notifications_enabled || !app.slack_channel_id) {
       return { error: 'Slack-varsler er ikke konfigurert for denne appen' }
     }
@@ -587,8 +688,6 @@ export async function action({ request, params }: { request: Request; params: Re
     }
 
     try {
-      const baseUrl = new URL(request.url).origin
-
       const sent = await notifyDeploymentIfNeeded(
         {
           ...deployment,
@@ -599,6 +698,14 @@ export async function action({ request, params }: { request: Request; params: Re
       )
 
       if (sent) {
+        await recordAuditEvent({
+          actor: identity,
+          action: 'deployment.slack_notify',
+          entityType: 'deployment',
+          entityId: deploymentId,
+          monitoredAppId: deployment.monitored_app_id,
+          after: { slack_channel_id: app.slack_channel_id },
+        })
         return { success: 'Slack-varsel sendt!' }
       }
       return { error: 'Kunne ikke sende Slack-varsel. Sjekk at Slack er konfigurert.' }
@@ -621,16 +728,33 @@ export async function action({ request, params }: { request: Request; params: Re
     }
 
     try {
-      await addDeploymentGoalLink({
-        deployment_id: deploymentId,
-        objective_id: objectiveId,
-        key_result_id: keyResultId,
-        external_url: externalUrl,
-        external_url_title: externalUrlTitle,
-        comment,
-        link_method: 'manual',
-        linked_by: identity?.navIdent,
-      })
+      const actor = await getAuditActor(request)
+      await addDeploymentGoalLink(
+        {
+          deployment_id: deploymentId,
+          objective_id: objectiveId,
+          key_result_id: keyResultId,
+          external_url: externalUrl,
+          external_url_title: externalUrlTitle,
+          comment,
+          link_method: 'manual',
+          linked_by: identity?.navIdent,
+        },
+        (link) => ({
+          actor,
+          action: 'goal_link.create',
+          entityType: 'goal_link',
+          entityId: link.id,
+          monitoredAppId: owningDeployment.monitored_app_id,
+          after: {
+            deployment_id: deploymentId,
+            objective_id: link.objective_id,
+            key_result_id: link.key_result_id,
+            external_url: link.external_url,
+            comment: link.comment,
+          },
+        }),
+      )
       return { success: 'Kobling lagt til' }
     } catch (error) {
       logger.error('Error linking goal:', error)
@@ -641,7 +765,25 @@ export async function action({ request, params }: { request: Request; params: Re
   if (intent === 'unlink_goal') {
     const linkId = Number(formData.get('link_id'))
     try {
-      await removeDeploymentGoalLink(linkId)
+      if (!(await getLinksForDeployment(deploymentId)).some((link) => link.id === linkId)) {
+        return { error: 'Koblingen tilhører ikke denne deploymenten' }
+      }
+      const actor = await getAuditActor(request)
+      await removeDeploymentGoalLink(linkId, (link) => ({
+        actor,
+        action: 'goal_link.delete',
+        entityType: 'goal_link',
+        entityId: linkId,
+        monitoredAppId: owningDeployment.monitored_app_id,
+        before: {
+          deployment_id: deploymentId,
+          objective_id: link.objective_id,
+          key_result_id: link.key_result_id,
+          external_url: link.external_url,
+          is_active: true,
+        },
+        after: { is_active: false },
+      }))
       return { success: 'Kobling fjernet' }
     } catch (error) {
       logger.error('Error removing goal link:', error)
@@ -60,16 +60,22 @@ import { getDevTeamsBySection, getDevTeamsForApp } from '~/db/dev-teams.server'
 import { getDeviationsByDeploymentId } from '~/db/deviations.server'
 import { getLatestVerificationRun } from '~/db/github-data.server'
 import { getMonitoredApplicationById } from '~/db/monitored-applications.server'
+import { getNotificationEndpoints, hasDeliveredNotification } from '~/db/notification-channels.server'
 import { getUserDevTeams } from '~/db/user-dev-team-preference.server'
-import { getUserMappings } from '~/db/user-mappings.server'
-import { getUserIdentity } from '~/lib/auth.server'
+import { getUserMappingByNavIdent, getUserMappings } from '~/db/user-mappings.server'
+import { getAppPermissions } from '~/lib/access-policy.server'
+import { requireUser } from '~/lib/auth.server'
 import {
   DEVIATION_FOLLOW_UP_ROLE_LABELS,
   DEVIATION_INTENT_LABELS,
   DEVIATION_SEVERITY_LABELS,
 } from '~/lib/deviation-constants'
 import { type FourEyesStatus, getFourEyesStatusLabel, isApprovedStatus } from '~/lib/four-eyes-status'
+import { IMAGE_ATTESTATION_STATUS_LABELS } from '~/lib/image-attestation'
+import { checkManualApprover } from '~/lib/manual-approval.server'
 import { mergeWithCurrentDeploy } from '~/lib/nearby-deploys'
+import { hasNotificationTarget, NOTIFICATION_CHANNEL_LABELS } from '~/lib/notifications/events'
+import { describeSeparationOfDutiesRefusal } from '~/lib/separation-of-duties'
 import { formatChangeSource, getFourEyesStatus } from '~/lib/status-display'
 import { getDateRangeForPeriod, type TimePeriod } from '~/lib/time-periods'
 import { getUserDisplayName, serializeUserMappings } from '~/lib/user-display'
@@ -91,6 +97,11 @@ export async function loader({ params, request }: Route.LoaderArgs) {
   if (!app) {
     throw new Response('Application not found', { status: 404 })
   }
+  const currentUser = await requireUser(request)
+  const permissions = await getAppPermissions(currentUser, app.id)
+  if (!permissions.canView) {
+    throw new Response('Forbidden - app belongs to another section', { status: 403 })
+  }
   const appUrl = `/team/${app.team_slug}/env/${app.environment_name}/app/${app.app_name}`
 
   // Redirect to app-scoped URL if accessed via /deployments/:id directly
@@ -168,7 +179,6 @@ export async function loader({ params, request }: Route.LoaderArgs) {
     statusHistory,
     deviations,
     goalLinks,
-    currentUser,
     allDevTeams,
     previousDeployment,
     nextDeployment,
@@ -182,7 +192,6 @@ export async function loader({ params, request }: Route.LoaderArgs) {
     getStatusHistory(deploymentId),
     getDeviationsByDeploymentId(deploymentId),
     getLinksForDeployment(deploymentId),
-    getUserIdentity(request),
     getDevTeamsForApp(deployment.monitored_app_id, app.team_slug),
     getPreviousDeploymentForNav(deploymentId, deployment.monitored_app_id, navFilters),
     getNextDeployment(deploymentId, deployment.monitored_app_id, navFilters),
@@ -195,7 +204,7 @@ export async function loader({ params, request }: Route.LoaderArgs) {
 
   // Filter to teams the current user belongs to (if they have team preferences)
   let devTeams = allDevTeams
-  if (currentUser?.navIdent) {
+  if (currentUser.navIdent) {
     const userTeams = await getUserDevTeams(currentUser.navIdent)
     const userTeamIds = new Set(userTeams.map((t) => t.id))
     const filtered = allDevTeams.filter((dt) => userTeamIds.has(dt.id))
@@ -282,36 +291,28 @@ export async function loader({ params, request }: Route.LoaderArgs) {
   // Get all user mappings in one query
   const userMappings = await getUserMappings(usernames)
 
-  // Check if current user is involved in this deployment (for four-eyes validation)
-  let isCurrentUserInvolved = false
-  let involvementReason: string | null = null
-
-  if (currentUser?.navIdent) {
-    const currentNavIdent = currentUser.navIdent.toUpperCase()
-
-    // Check if user is PR creator
-    const prCreatorUsername = deployment.github_pr_data?.creator?.username
-    if (prCreatorUsername) {
-      const prCreatorMapping = userMappings.get(prCreatorUsername)
-      if (prCreatorMapping?.nav_ident?.toUpperCase() === currentNavIdent) {
-        isCurrentUserInvolved = true
-        involvementReason = 'Du opprettet pull requesten for denne deploymenten'
-      }
-    }
-
-    // Check if user is author of the last unverified commit (relaxed four-eyes check)
-    if (!isCurrentUserInvolved && deployment.unverified_commits && deployment.unverified_commits.length > 0) {
-      const lastCommit = deployment.unverified_commits[deployment.unverified_commits.length - 1]
-      const lastCommitAuthorMapping = userMappings.get(lastCommit.author)
-      if (lastCommitAuthorMapping?.nav_ident?.toUpperCase() === currentNavIdent) {
-        isCurrentUserInvolved = true
-        involvementReason = 'Du er forfatter av siste commit i denne deploymenten'
-      }
-    }
+  // Check if current user may approve manually (separation of duties, same check as the action)
+  const approverCheck = await checkManualApprover(
+    deployment,
+    currentUser.navIdent ? await getUserMappingByNavIdent(currentUser.navIdent) : null,
+  )
+  const isCurrentUserInvolved = !approverCheck.allowed
+  const involvementReason = approverCheck.allowed ? null : describeSeparationOfDutiesRefusal(approverCheck)
+
+  const isAdmin = currentUser.role === 'admin'
+
+  // Manual notification: Slack apps are gated by their Slack settings, Teams and webhook apps by their endpoints
+  const usesSlack = app.notification_channel === 'slack'
+  const notificationConfig = {
+    channelLabel: NOTIFICATION_CHANNEL_LABELS[app.notification_channel],
+    enabled: usesSlack
+      ? app.slack_notifications_enabled && !!app.slack_channel_id
+      : hasNotificationTarget(app, await getNotificationEndpoints(app.id)),
+    alreadySent: usesSlack
+      ? !!deployment.slack_message_ts
+      : await hasDeliveredNotification(deployment.id, 'deployment'),
   }
 
-  const isAdmin = currentUser?.role === 'admin'
-
   // Strip verification run data for non-admins
   const verificationRun = isAdmin
     ? fullVerificationRun
@@ -345,18 +346,15 @@ export async function loader({ params, request }: Route.LoaderArgs) {
     nextDeployment,
     userMappings: serializeUserMappings(userMappings),
     appUrl,
-    currentUserNavIdent: currentUser?.navIdent || null,
+    currentUserNavIdent: currentUser.navIdent || null,
     isCurrentUserInvolved,
     involvementReason,
     isDebugMode: isVerificationDebugMode || isAdmin,
     isAdmin,
+    canAdministerApp: permissions.canAdminister,
     verificationRun,
     nearbyDeployments,
-    slackConfig: {
-      enabled: app.slack_notifications_enabled,
-      channelId: app.slack_channel_id,
-      alreadySent: !!deployment.slack_message_ts,
-    },
+    notificationConfig,
   }
 }
 
@@ -385,9 +383,10 @@ export default function DeploymentDetail({ loaderData, actionData }: Route.Compo
     involvementReason,
     isDebugMode,
     isAdmin,
+    canAdministerApp,
     verificationRun,
     nearbyDeployments,
-    slackConfig,
+    notificationConfig,
   } = loaderData
   const [searchParams] = useSearchParams()
   const [commentText, setCommentText] = useState('')
@@ -911,6 +910,39 @@ export default function DeploymentDetail({ loaderData, actionData }: Route.Compo
             <BodyShort>
               <ExternalLink href={deployment.trigger_url}>Se workflow run</ExternalLink>
             </BodyShort>
+            {deployment.workflow_path && (
+              <Detail textColor="subtle">
+                <code style={{ fontFamily: 'monospace' }}>{deployment.workflow_path}</code> ·{' '}
+                {deployment.workflow_event}
+                {deployment.workflow_head_branch && ` på ${deployment.workflow_head_branch}`}
+                {deployment.workflow_actor && ` · startet av ${deployment.workflow_actor}`}
+              </Detail>
+            )}
+          </VStack>
+        )}
+
+        {deployment.image_ref && (
+          <VStack gap="space-4">
+            <Detail>Container image</Detail>
+            <BodyShort>
+              <code style={{ fontFamily: 'monospace', fontSize: '0.75rem', wordBreak: 'break-all' }}>
+                {deployment.image_ref}
+              </code>
+            </BodyShort>
+            {deployment.image_attestation_status && (
+              <Detail textColor="subtle">
+                Byggeattestering: {IMAGE_ATTESTATION_STATUS_LABELS[deployment.image_attestation_status]}
+                {deployment.image_attested_commit_sha &&
+                  deployment.image_attestation_status !== 'verified' &&
+                  ` (${deployment.image_attested_repository}@${deployment.image_attested_commit_sha.substring(0, 7)})`}
+              </Detail>
+            )}
+            {deployment.image_attestation_status === 'digest_unavailable' && (
+              <Alert variant="warning" size="small">
+                Image-digesten kunne ikke hentes fra registryet, så det er ikke sjekket at imaget er bygget fra denne
+                commiten.
+              </Alert>
+            )}
           </VStack>
         )}
 
@@ -1508,22 +1540,23 @@ export default function DeploymentDetail({ loaderData, actionData }: Route.Compo
           </VStack>
         </div>
       )}
-      {/* Admin: Send Slack notification */}
-      {isAdmin &&
-        slackConfig?.enabled &&
-        slackConfig?.channelId &&
-        !slackConfig?.alreadySent &&
+      {/* App admin: Send notification through the app's channel */}
+      {canAdministerApp &&
+        notificationConfig.enabled &&
+        !notificationConfig.alreadySent &&
         !isApprovedStatus((deployment.four_eyes_status ?? '') as FourEyesStatus) && (
           <Box background="info-moderate" padding="space-24" borderRadius="8">
             <VStack gap="space-16">
               <Heading size="small" level="3">
-                <ChatIcon aria-hidden /> Send Slack-varsel
+                <ChatIcon aria-hidden /> Send varsel
               </Heading>
-              <BodyShort>Send varsel til Slack-kanal om at dette deploymentet krever oppfølging.</BodyShort>
+              <BodyShort>
+                Send varsel til {notificationConfig.channelLabel} om at dette deploymentet krever oppfølging.
+              </BodyShort>
               <Form method="post">
-                <input type="hidden" name="intent" value="send_slack_notification" />
+                <input type="hidden" name="intent" value="send_notification" />
                 <Button type="submit" variant="secondary" size="small" icon={<ChatIcon aria-hidden />}>
-                  Send til Slack
+                  Send til {notificationConfig.channelLabel}
                 </Button>
               </Form>
             </VStack>
@@ -1557,10 +1590,11 @@ export default function DeploymentDetail({ loaderData, actionData }: Route.Compo
                   Du kan ikke godkjenne dette deploymentet
                 </Heading>
                 <BodyShort>{involvementReason}</BodyShort>
-                <BodyShort style={{ marginTop: 'var(--ax-space-8)' }}>
-                  Fire-øyne-prinsippet krever at en annen person godkjenner.
-                </BodyShort>
               </Alert>
+            ) : !canAdministerApp ? (
+              <BodyShort textColor="subtle">
+                Kun administratorer i seksjonen som eier applikasjonen kan godkjenne manuelt.
+              </BodyShort>
             ) : !showApprovalForm ? (
               <Button variant="primary" onClick={() => setShowApprovalForm(true)}>
                 Godkjenn manuelt
@@ -1949,14 +1983,16 @@ export default function DeploymentDetail({ loaderData, actionData }: Route.Compo
           <Heading size="medium" level="2">
             Avvik
           </Heading>
-          <Button
-            variant="tertiary"
-            size="small"
-            icon={<ExclamationmarkTriangleIcon aria-hidden />}
-            onClick={() => deviationDialogRef.current?.showModal()}
-          >
-            Registrer avvik
-          </Button>
+          {canAdministerApp && (
+            <Button
+              variant="tertiary"
+              size="small"
+              icon={<ExclamationmarkTriangleIcon aria-hidden />}
+              onClick={() => deviationDialogRef.current?.showModal()}
+            >
+              Registrer avvik
+            </Button>
+          )}
         </HStack>
 
         {deviations.length === 0 ? (
@@ -2122,6 +2158,8 @@ export default function DeploymentDetail({ loaderData, actionData }: Route.Compo
                         dateStyle: 'medium',
                         timeStyle: 'short',
                       })}
+                      {comment.registered_by && ` · ${comment.registered_by}`}
+                      {comment.slack_user_id && ' · fra Slack-tråden'}
                     </Detail>
                     <BodyShort>{comment.comment_text}</BodyShort>
                     {comment.slack_link && (
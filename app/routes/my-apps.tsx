@@ -7,6 +7,7 @@ import { getAppDeploymentStatsBatch } from '~/db/deployments.server'
 import { getDevTeamApplications, getGroupAppIdsForDevTeams } from '~/db/dev-teams.server'
 import { getAllAlertCounts, getAllMonitoredApplications } from '~/db/monitored-applications.server'
 import { getUserDevTeams } from '~/db/user-dev-team-preference.server'
+import { filterVisibleApps } from '~/lib/access-policy.server'
 import { requireUser } from '~/lib/auth.server'
 import { groupAppCards } from '~/lib/group-app-cards'
 import type { Route } from './+types/my-apps'
@@ -44,7 +45,10 @@ export async function loader({ request }: Route.LoaderArgs) {
   const directAppIdSet = new Set(allDirectAppIds)
   const naisTeamSlugSet = new Set(allNaisTeamSlugs)
 
-  const userApps = allApps.filter((app) => directAppIdSet.has(app.id) || naisTeamSlugSet.has(app.team_slug))
+  const userApps = await filterVisibleApps(
+    identity,
+    allApps.filter((app) => directAppIdSet.has(app.id) || naisTeamSlugSet.has(app.team_slug)),
+  )
 
   const statsByApp =
     userApps.length > 0
@@ -20,6 +20,7 @@ import { endOfDay } from '~/lib/date-utils'
 import { groupAppCards } from '~/lib/group-app-cards'
 import { getAppDeploymentStatsBatch } from '../db/deployments.server'
 import { getAllAlertCounts, getAllMonitoredApplications } from '../db/monitored-applications.server'
+import { filterVisibleApps } from '../lib/access-policy.server'
 import { requireUser } from '../lib/auth.server'
 import type { Route } from './+types/my-teams'
 
@@ -79,7 +80,7 @@ export async function loader({ request }: Route.LoaderArgs) {
       ...selectedDevTeams.map((t) => getBoardsByDevTeam(t.id)),
     ])
 
-  const allApps = await getAllMonitoredApplications()
+  const allApps = await filterVisibleApps(identity, await getAllMonitoredApplications())
 
   // Build AppCardData for issue apps
   const issueAppKeys = new Set(issueApps.map((a) => `${a.team_slug}/${a.environment_name}/${a.app_name}`))
@@ -2,6 +2,8 @@ import { LayersIcon, MagnifyingGlassIcon, PersonGroupIcon } from '@navikt/aksel-
 import { BodyShort, Box, Heading, Hide, HStack, Search, Show, Tag, VStack } from '@navikt/ds-react'
 import { Form, Link, useLoaderData } from 'react-router'
 import { type SearchResult, searchDeployments } from '~/db/deployments.server'
+import { getVisibleAppIds } from '~/lib/access-policy.server'
+import { requireUser } from '~/lib/auth.server'
 import type { Route } from './+types/search'
 
 export function meta({ data }: { data: { query: string } }) {
@@ -9,12 +11,13 @@ export function meta({ data }: { data: { query: string } }) {
 }
 
 export async function loader({ request }: Route.LoaderArgs) {
+  const user = await requireUser(request)
   const url = new URL(request.url)
   const query = url.searchParams.get('q') || ''
 
   let results: SearchResult[] = []
   if (query.trim()) {
-    results = await searchDeployments(query, 50)
+    results = await searchDeployments(query, 50, await getVisibleAppIds(user))
   }
 
   return { query, results }
@@ -1,12 +1,13 @@
-import { updateImplicitApprovalSettings } from '~/db/app-settings.server'
 import {
-  buildReportData,
-  checkAuditReadiness,
-  getAuditReportData,
-  saveAuditReport,
-  updateAuditReportPdf,
-} from '~/db/audit-reports.server'
+  updateApprovalPolicySettings,
+  updateCodeownersPolicySettings,
+  updateDeployWorkflowPolicySettings,
+  updateImplicitApprovalSettings,
+  updateScheduledReportSettings,
+} from '~/db/app-settings.server'
+import { checkAuditReadiness } from '~/db/audit-reports.server'
 import { getMonitoredApplicationByIdentity, updateMonitoredApplication } from '~/db/monitored-applications.server'
+import { getNotificationEndpoints, updateNotificationEndpoints } from '~/db/notification-channels.server'
 import { createReportJob, updateReportJobStatus } from '~/db/report-jobs.server'
 import {
   acquireSyncLock,
@@ -21,11 +22,24 @@ import {
   updateSyncJobProgress,
 } from '~/db/sync-jobs.server'
 import { getUserMappings } from '~/db/user-mappings.server'
-import { generateAuditReportPdf } from '~/lib/audit-report-pdf'
-import { requireAdmin } from '~/lib/auth.server'
-import { isValidSlackChannel } from '~/lib/form-validators'
+import { requireAppAdmin } from '~/lib/access-policy.server'
+import { generateAndStoreAuditReport } from '~/lib/audit-report-generation.server'
+import {
+  isValidGitHubTeamSlug,
+  isValidRepositoryPath,
+  isValidSlackChannel,
+  isValidWebhookUrl,
+  isValidWorkflowEvent,
+  isValidWorkflowFile,
+} from '~/lib/form-validators'
 import { logger, runWithJobContext } from '~/lib/logger.server'
-import type { ReportPeriodType } from '~/lib/report-periods'
+import {
+  hasNotificationTarget,
+  isNotificationChannelType,
+  NOTIFICATION_CHANNEL_LABELS,
+} from '~/lib/notifications/events'
+import { MIN_WEBHOOK_SECRET_LENGTH } from '~/lib/notifications/webhook'
+import { REPORT_PERIOD_TYPE_LABELS, type ReportPeriodType } from '~/lib/report-periods'
 import { serializeUserMappings } from '~/lib/user-display'
 import { fetchVerificationDataForAllDeployments } from '~/lib/verification'
 import { computeVerificationDiffs } from '~/lib/verification/compute-diffs.server'
@@ -100,45 +114,16 @@ async function processReportJobAsync(params: ReportJobParams) {
   try {
     await updateReportJobStatus(jobId, 'processing')
 
-    const rawData = await getAuditReportData(appId, periodStart, periodEnd)
-    const reportData = buildReportData(rawData)
-
-    // Save report metadata
-    const report = await saveAuditReport({
+    const { pdfBuffer } = await generateAndStoreAuditReport({
       monitoredAppId: appId,
-      appName: rawData.app.app_name,
-      teamSlug: rawData.app.team_slug,
-      environmentName: rawData.app.environment_name,
-      repository: rawData.repository,
       year,
       periodType,
       periodLabel,
       periodStart,
       periodEnd,
-      reportData,
       generatedBy,
     })
 
-    // Generate PDF
-    const pdfBuffer = await generateAuditReportPdf({
-      appName: report.app_name,
-      repository: report.repository,
-      teamSlug: report.team_slug,
-      environmentName: report.environment_name,
-      year: report.year,
-      periodLabel: report.period_label,
-      periodStart: new Date(report.period_start),
-      periodEnd: new Date(report.period_end),
-      reportData: report.report_data,
-      contentHash: report.content_hash,
-      reportId: report.report_id,
-      generatedAt: new Date(report.generated_at),
-      testRequirement: rawData.app.test_requirement as 'none' | 'unit_tests' | 'integration_tests',
-    })
-
-    // Store PDF in audit_reports table
-    await updateAuditReportPdf(report.id, Buffer.from(pdfBuffer))
-
     // Update job with PDF data and mark completed
     await updateReportJobStatus(jobId, 'completed', pdfBuffer)
   } catch (err) {
@@ -148,19 +133,43 @@ async function processReportJobAsync(params: ReportJobParams) {
   }
 }
 
-export async function action({ request }: { request: Request; params: Record<string, string | undefined> }) {
-  const user = await requireAdmin(request)
+/**
+ * Sync job named by the form's job_id, if it belongs to the app.
+ * Section admins may only act on their own apps' jobs.
+ */
+async function getAppSyncJob(formData: FormData, appId: number) {
+  const jobId = parseInt(formData.get('job_id') as string, 10)
+  if (!jobId) {
+    return { error: 'Mangler job_id' }
+  }
+  const job = await getSyncJobById(jobId)
+  if (!job || job.monitored_app_id !== appId) {
+    return { error: 'Jobben tilhører ikke denne applikasjonen' }
+  }
+  return { job }
+}
+
+export async function action({ request, params }: { request: Request; params: Record<string, string | undefined> }) {
+  const routeApp = await getMonitoredApplicationByIdentity(params.team ?? '', params.env ?? '', params.app ?? '')
+  if (!routeApp) {
+    throw new Response('Application not found', { status: 404 })
+  }
+  const user = await requireAppAdmin(request, routeApp.id)
 
   const formData = await request.formData()
   const action = formData.get('action') as string
   const appId = parseInt(formData.get('app_id') as string, 10)
+  // Section admin rights are checked for the route's app, so actions may not target another app
+  if (!Number.isNaN(appId) && appId !== routeApp.id) {
+    return { error: 'app_id tilhører ikke denne applikasjonen' }
+  }
 
   if (action === 'update_default_branch') {
     const defaultBranch = formData.get('default_branch') as string
     if (!defaultBranch || defaultBranch.trim() === '') {
       return { error: 'Default branch kan ikke være tom' }
     }
-    await updateMonitoredApplication(appId, { default_branch: defaultBranch.trim() })
+    await updateMonitoredApplication(appId, { default_branch: defaultBranch.trim() }, { auditActor: user })
     return { success: 'Default branch oppdatert!' }
   }
 
@@ -179,13 +188,125 @@ export async function action({ request }: { request: Request; params: Record<str
     return { success: 'Implisitt godkjenning-innstillinger oppdatert!' }
   }
 
+  if (action === 'update_approval_policy') {
+    const minApprovals = parseInt(formData.get('min_approvals') as string, 10)
+    if (Number.isNaN(minApprovals) || minApprovals < 1 || minApprovals > 5) {
+      return { error: 'Antall godkjenninger må være mellom 1 og 5' }
+    }
+
+    const requiredTeams = [
+      ...new Set(
+        ((formData.get('required_teams') as string) || '')
+          .split(/[\s,]+/)
+          .map((team) => team.trim().toLowerCase())
+          .filter(Boolean),
+      ),
+    ]
+    const invalidTeam = requiredTeams.find((team) => !isValidGitHubTeamSlug(team))
+    if (invalidTeam) {
+      return { error: `Ugyldig team-slug: ${invalidTeam}` }
+    }
+
+    await updateApprovalPolicySettings({
+      monitoredAppId: appId,
+      settings: { minApprovals, requiredTeams },
+      changedByNavIdent: user.navIdent,
+      changedByName: user.name || undefined,
+    })
+    return { success: 'Godkjenningskrav oppdatert!' }
+  }
+
+  if (action === 'update_deploy_workflow_policy') {
+    const parseList = (field: string) => [
+      ...new Set(
+        ((formData.get(field) as string) || '')
+          .split(/[\s,]+/)
+          .map((value) => value.trim())
+          .filter(Boolean),
+      ),
+    ]
+    const allowedWorkflows = parseList('allowed_workflows')
+    const allowedEvents = parseList('allowed_events').map((event) => event.toLowerCase())
+
+    const invalidWorkflow = allowedWorkflows.find((workflow) => !isValidWorkflowFile(workflow))
+    if (invalidWorkflow) {
+      return { error: `Ugyldig workflow-fil: ${invalidWorkflow}` }
+    }
+    const invalidEvent = allowedEvents.find((event) => !isValidWorkflowEvent(event))
+    if (invalidEvent) {
+      return { error: `Ugyldig hendelse: ${invalidEvent}` }
+    }
+
+    await updateDeployWorkflowPolicySettings({
+      monitoredAppId: appId,
+      settings: {
+        allowedWorkflows,
+        allowedEvents,
+        requireBaseBranch: formData.get('require_base_branch') === 'true',
+      },
+      changedByNavIdent: user.navIdent,
+      changedByName: user.name || undefined,
+    })
+    return { success: 'Workflow-krav oppdatert!' }
+  }
+
+  if (action === 'update_codeowners_policy') {
+    const appPaths = [
+      ...new Set(
+        ((formData.get('app_paths') as string) || '')
+          .split(/[\s,]+/)
+          .map((path) => path.trim().replace(/^\/+|\/+$/g, ''))
+          .filter(Boolean),
+      ),
+    ]
+
+    const invalidPath = appPaths.find((path) => !isValidRepositoryPath(path))
+    if (invalidPath) {
+      return { error: `Ugyldig sti: ${invalidPath}` }
+    }
+
+    await updateCodeownersPolicySettings({
+      monitoredAppId: appId,
+      settings: {
+        enabled: formData.get('codeowners_enabled') === 'true',
+        appPaths,
+      },
+      changedByNavIdent: user.navIdent,
+      changedByName: user.name || undefined,
+    })
+    return { success: 'Code owner-krav oppdatert!' }
+  }
+
+  if (action === 'update_scheduled_reports') {
+    const enabled = formData.get('scheduled_reports_enabled') === 'true'
+    const periodTypes = (formData.getAll('period_types') as string[]).filter(
+      (type): type is ReportPeriodType => type in REPORT_PERIOD_TYPE_LABELS,
+    )
+    const slackChannelId = (formData.get('slack_channel_id') as string)?.trim() || null
+
+    if (enabled && periodTypes.length === 0) {
+      return { error: 'Velg minst én periodetype for automatisk rapportgenerering' }
+    }
+    if (slackChannelId && !isValidSlackChannel(slackChannelId)) {
+      return { error: 'Ugyldig kanal-format. Bruk kanal-ID (C01234567) eller kanalnavn (#kanal-navn)' }
+    }
+
+    await updateScheduledReportSettings({
+      monitoredAppId: appId,
+      settings: { enabled, periodTypes, slackChannelId },
+      changedByNavIdent: user.navIdent,
+      changedByName: user.name || undefined,
+    })
+    return { success: 'Automatisk rapportgenerering oppdatert!' }
+  }
+
   if (action === 'update_test_requirement') {
     const testRequirement = formData.get('test_requirement') as 'none' | 'unit_tests' | 'integration_tests'
     if (!['none', 'unit_tests', 'integration_tests'].includes(testRequirement)) {
       return { error: 'Ugyldig testkrav' }
     }
 
-    await updateMonitoredApplication(appId, { test_requirement: testRequirement })
+    await updateMonitoredApplication(appId, { test_requirement: testRequirement }, { auditActor: user })
     return { success: 'Testkrav oppdatert!' }
   }
 
@@ -201,7 +322,7 @@ export async function action({ request }: { request: Request; params: Record<str
       }
     }
 
-    await updateMonitoredApplication(appIdForYear, { audit_start_year: auditStartYear })
+    await updateMonitoredApplication(appIdForYear, { audit_start_year: auditStartYear }, { auditActor: user })
     return { success: 'Startår for revisjon oppdatert!' }
   }
 
@@ -291,20 +412,19 @@ export async function action({ request }: { request: Request; params: Record<str
   }
 
   if (action === 'check_fetch_job_status') {
-    const jobId = parseInt(formData.get('job_id') as string, 10)
-    if (!jobId) {
-      return { error: 'Mangler job_id' }
+    const { job, error } = await getAppSyncJob(formData, routeApp.id)
+    if (!job) {
+      return { error }
     }
-    const job = await getSyncJobById(jobId)
     return { fetchJobStatus: job }
   }
 
   if (action === 'cancel_fetch_job') {
-    const jobId = parseInt(formData.get('job_id') as string, 10)
-    if (!jobId) {
-      return { error: 'Mangler job_id' }
+    const { job, error } = await getAppSyncJob(formData, routeApp.id)
+    if (!job) {
+      return { error }
     }
-    const cancelled = await cancelSyncJob(jobId)
+    const cancelled = await cancelSyncJob(job.id)
     if (!cancelled) {
       return { error: 'Kunne ikke avbryte jobben (kanskje den allerede er ferdig?)' }
     }
@@ -312,11 +432,11 @@ export async function action({ request }: { request: Request; params: Record<str
   }
 
   if (action === 'force_release_job') {
-    const jobId = parseInt(formData.get('job_id') as string, 10)
-    if (!jobId) {
-      return { error: 'Mangler job_id' }
+    const { job, error } = await getAppSyncJob(formData, routeApp.id)
+    if (!job) {
+      return { error }
     }
-    const released = await forceReleaseSyncJob(jobId)
+    const released = await forceReleaseSyncJob(job.id)
     if (!released) {
       return { error: 'Kunne ikke frigjøre jobben' }
     }
@@ -350,11 +470,10 @@ export async function action({ request }: { request: Request; params: Record<str
   }
 
   if (action === 'check_compute_diffs_status') {
-    const jobId = parseInt(formData.get('job_id') as string, 10)
-    if (!jobId) {
-      return { error: 'Mangler job_id' }
+    const { job, error } = await getAppSyncJob(formData, routeApp.id)
+    if (!job) {
+      return { error }
     }
-    const job = await getSyncJobById(jobId)
     return { computeDiffsJobStatus: job }
   }
 
@@ -367,10 +486,14 @@ export async function action({ request }: { request: Request; params: Record<str
       return { error: 'Ugyldig kanal-format. Bruk kanal-ID (C01234567) eller kanalnavn (#kanal-navn)' }
     }
 
-    await updateMonitoredApplication(appId, {
-      slack_channel_id: slackChannelId,
-      slack_notifications_enabled: slackNotificationsEnabled,
-    })
+    await updateMonitoredApplication(
+      appId,
+      {
+        slack_channel_id: slackChannelId,
+        slack_notifications_enabled: slackNotificationsEnabled,
+      },
+      { auditActor: user },
+    )
     return { success: 'Slack-innstillinger oppdatert!' }
   }
 
@@ -382,13 +505,56 @@ export async function action({ request }: { request: Request; params: Record<str
       return { error: 'Ugyldig kanal-format. Bruk kanal-ID (C01234567) eller kanalnavn (#kanal-navn)' }
     }
 
-    await updateMonitoredApplication(appId, {
-      slack_deploy_channel_id: slackDeployChannelId,
-      slack_deploy_notify_enabled: slackDeployNotifyEnabled,
-    })
+    await updateMonitoredApplication(
+      appId,
+      {
+        slack_deploy_channel_id: slackDeployChannelId,
+        slack_deploy_notify_enabled: slackDeployNotifyEnabled,
+      },
+      { auditActor: user },
+    )
     return { success: 'Deployment-varsler oppdatert!' }
   }
 
+  if (action === 'update_notification_channel') {
+    const channel = formData.get('notification_channel')
+    if (!isNotificationChannelType(channel)) {
+      return { error: 'Ugyldig varslingskanal' }
+    }
+
+    // Stored URLs and the secret are never sent to the browser, so empty fields keep the current value
+    const removeEndpoints = formData.get('remove_endpoints') === 'true'
+    const teamsWebhookUrl = (formData.get('teams_webhook_url') as string)?.trim() || undefined
+    const webhookUrl = (formData.get('webhook_url') as string)?.trim() || undefined
+    const webhookSecret = (formData.get('webhook_secret') as string)?.trim() || undefined
+
+    if (teamsWebhookUrl && !isValidWebhookUrl(teamsWebhookUrl)) {
+      return { error: 'Teams-webhook må være en https-adresse med offentlig vertsnavn' }
+    }
+    if (webhookUrl && !isValidWebhookUrl(webhookUrl)) {
+      return { error: 'Webhook-adressen må være en https-adresse med offentlig vertsnavn' }
+    }
+    if (webhookSecret && webhookSecret.length < MIN_WEBHOOK_SECRET_LENGTH) {
+      return { error: `Webhook-hemmeligheten må være minst ${MIN_WEBHOOK_SECRET_LENGTH} tegn` }
+    }
+
+    const endpoints = await updateNotificationEndpoints(
+      appId,
+      removeEndpoints
+        ? { teams_webhook_url: null, webhook_url: null, webhook_secret: null }
+        : { teams_webhook_url: teamsWebhookUrl, webhook_url: webhookUrl, webhook_secret: webhookSecret },
+      user,
+    )
+    const app = await updateMonitoredApplication(appId, { notification_channel: channel }, { auditActor: user })
+
+    if (!hasNotificationTarget(app, endpoints)) {
+      return {
+        success: `Varslingskanal satt til ${NOTIFICATION_CHANNEL_LABELS[channel]}, men mangler mottaker. Varsler sendes ikke før den er fylt ut.`,
+      }
+    }
+    return { success: `Varslingskanal satt til ${NOTIFICATION_CHANNEL_LABELS[channel]}` }
+  }
+
   if (action === 'update_reminder_config') {
     const reminderEnabled = formData.get('reminder_enabled') === 'true'
     const reminderTime = (formData.get('reminder_time') as string)?.trim() || '09:00'
@@ -398,32 +564,26 @@ export async function action({ request }: { request: Request; params: Record<str
       return { error: 'Ugyldig tidsformat. Bruk HH:mm (f.eks. 09:00)' }
     }
 
-    await updateMonitoredApplication(appId, {
-      reminder_enabled: reminderEnabled,
-      reminder_time: reminderTime,
-      reminder_days: reminderDays.length > 0 ? reminderDays : ['mon', 'tue', 'wed', 'thu', 'fri'],
-    })
+    await updateMonitoredApplication(
+      appId,
+      {
+        reminder_enabled: reminderEnabled,
+        reminder_time: reminderTime,
+        reminder_days: reminderDays.length > 0 ? reminderDays : ['mon', 'tue', 'wed', 'thu', 'fri'],
+      },
+      { auditActor: user },
+    )
     return { success: 'Purre-innstillinger oppdatert!' }
   }
 
   if (action === 'send_reminder') {
-    const app = await getMonitoredApplicationByIdentity(
-      formData.get('team_slug') as string,
-      formData.get('environment_name') as string,
-      formData.get('app_name') as string,
-    )
-    if (!app?.slack_channel_id) {
-      return { error: 'Slack-kanal er ikke konfigurert for denne appen' }
+    const app = routeApp
+    if (!hasNotificationTarget(app, await getNotificationEndpoints(app.id))) {
+      return { error: `${NOTIFICATION_CHANNEL_LABELS[app.notification_channel]} er ikke konfigurert for denne appen` }
     }
 
     const { sendReminderForApp } = await import('~/lib/reminder-scheduler.server')
-    const sent = await sendReminderForApp(
-      app.id,
-      app.team_slug,
-      app.environment_name,
-      app.app_name,
-      app.slack_channel_id,
-    )
+    const sent = await sendReminderForApp(app)
     if (sent) {
       return { success: 'Purring sendt!' }
     }
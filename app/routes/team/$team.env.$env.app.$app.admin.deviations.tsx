@@ -9,11 +9,13 @@ import { Link as AkselLink, BodyShort, Box, Detail, Heading, HStack, Tag, Toggle
 import { Link, useLoaderData, useSearchParams } from 'react-router'
 import { getDeviationsByAppId } from '~/db/deviations.server'
 import { getMonitoredApplicationByIdentity } from '~/db/monitored-applications.server'
-import { requireAdmin } from '~/lib/auth.server'
+import { requireAppAdmin } from '~/lib/access-policy.server'
 import {
   DEVIATION_FOLLOW_UP_ROLE_LABELS,
   DEVIATION_INTENT_LABELS,
   DEVIATION_SEVERITY_LABELS,
+  DEVIATION_STATUS_LABELS,
+  isDeviationOverdue,
 } from '~/lib/deviation-constants'
 import type { Route } from './+types/$team.env.$env.app.$app.admin.deviations'
 
@@ -22,12 +24,12 @@ export function meta(_args: Route.MetaArgs) {
 }
 
 export async function loader({ params, request }: Route.LoaderArgs) {
-  await requireAdmin(request)
   const { team, env, app: appName } = params
   const app = await getMonitoredApplicationByIdentity(team, env, appName)
   if (!app) {
     throw new Response('Application not found', { status: 404 })
   }
+  await requireAppAdmin(request, app.id)
 
   const url = new URL(request.url)
   const filter = url.searchParams.get('filter') || 'all'
@@ -90,19 +92,27 @@ export default function AppDeviationsPage() {
                           timeStyle: 'short',
                         })}
                       </Detail>
-                      {deviation.resolved_at ? (
-                        <Tag size="xsmall" variant="moderate" data-color="success">
-                          Løst
-                        </Tag>
-                      ) : (
-                        <Tag size="xsmall" variant="moderate" data-color="warning">
-                          Åpen
+                      <Tag
+                        size="xsmall"
+                        variant="moderate"
+                        data-color={deviation.status === 'closed' ? 'success' : 'warning'}
+                      >
+                        {DEVIATION_STATUS_LABELS[deviation.status]}
+                      </Tag>
+                      {isDeviationOverdue(deviation) && (
+                        <Tag size="xsmall" variant="moderate" data-color="danger">
+                          Over fristen
                         </Tag>
                       )}
                     </HStack>
-                    <Link to={`${appUrl}/deployments/${deviation.deployment_id}`}>
-                      <AkselLink as="span">Deployment #{deviation.deployment_id}</AkselLink>
-                    </Link>
+                    <HStack gap="space-12">
+                      <Link to={`/admin/deviations/${deviation.id}`}>
+                        <AkselLink as="span">Følg opp</AkselLink>
+                      </Link>
+                      <Link to={`${appUrl}/deployments/${deviation.deployment_id}`}>
+                        <AkselLink as="span">Deployment #{deviation.deployment_id}</AkselLink>
+                      </Link>
+                    </HStack>
                   </HStack>
 
                   <BodyShort>{deviation.reason}</BodyShort>
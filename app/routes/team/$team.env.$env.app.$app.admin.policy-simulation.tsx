@@ -0,0 +1,252 @@
+/**
+ * Policy Simulation Page (App Admin)
+ *
+ * Shows which deployments would change status if the app used a different
+ * implicit approval mode or approval policy. The verifier is re-run over
+ * cached snapshots for the chosen date range; nothing is saved.
+ */
+
+import {
+  Alert,
+  BodyShort,
+  Box,
+  Button,
+  DatePicker,
+  Detail,
+  Heading,
+  HStack,
+  Select,
+  Table,
+  Tag,
+  TextField,
+  useDatepicker,
+  VStack,
+} from '@navikt/ds-react'
+import { useState } from 'react'
+import { Form, Link, useNavigation } from 'react-router'
+import { getMonitoredApplicationByIdentity } from '~/db/monitored-applications.server'
+import { requireAppAdmin } from '~/lib/access-policy.server'
+import { toDateInputValue } from '~/lib/board-periods'
+import { getFourEyesStatusLabel } from '~/lib/four-eyes-status'
+import {
+  isSamePolicy,
+  MAX_SIMULATED_DEPLOYMENTS,
+  parsePolicySimulationParams,
+  SIMULATION_OUTCOME_LABELS,
+  type SimulationOutcome,
+} from '~/lib/verification/policy-simulation'
+import { getCurrentPolicySettings, simulatePolicy } from '~/lib/verification/simulate-policy.server'
+import type { Route } from './+types/$team.env.$env.app.$app.admin.policy-simulation'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export async function loader({ request, params }: Route.LoaderArgs) {
+  const app = await getMonitoredApplicationByIdentity(params.team, params.env, params.app)
+  if (!app) {
+    throw new Response('Application not found', { status: 404 })
+  }
+  await requireAppAdmin(request, app.id)
+
+  const url = new URL(request.url)
+  const current = await getCurrentPolicySettings(app.id)
+  const { from, to, alternative } = parsePolicySimulationParams(url.searchParams, current)
+
+  // Only run once the form has been submitted
+  const simulation = url.searchParams.has('mode') ? await simulatePolicy(app.id, { from, to }, alternative) : null
+
+  return {
+    app,
+    current,
+    alternative,
+    from: toDateInputValue(from.toISOString()),
+    to: toDateInputValue(new Date(to.getTime() - DAY_MS).toISOString()),
+    simulation,
+  }
+}
+
+export function meta(_args: Route.MetaArgs) {
+  return [{ title: 'Simuler godkjenningsregler' }]
+}
+
+const IMPLICIT_APPROVAL_MODE_OPTIONS = [
+  { value: 'off', label: 'Av' },
+  { value: 'dependabot_only', label: 'Kun Dependabot' },
+  { value: 'all', label: 'Alle' },
+]
+
+function getImplicitApprovalModeLabel(mode: string): string {
+  return IMPLICIT_APPROVAL_MODE_OPTIONS.find((option) => option.value === mode)?.label ?? mode
+}
+
+function getOutcomeColor(outcome: SimulationOutcome): 'success' | 'danger' | 'neutral' {
+  if (outcome === 'becomes_approved') return 'success'
+  if (outcome === 'becomes_unapproved') return 'danger'
+  return 'neutral'
+}
+
+export default function PolicySimulationPage({ loaderData }: Route.ComponentProps) {
+  const { app, current, alternative, simulation } = loaderData
+  const appUrl = `/team/${app.team_slug}/env/${app.environment_name}/app/${app.app_name}`
+  const navigation = useNavigation()
+  const isSimulating = navigation.state === 'loading' && navigation.location?.pathname.endsWith('/policy-simulation')
+
+  const [from, setFrom] = useState(loaderData.from)
+  const [to, setTo] = useState(loaderData.to)
+  const fromDatepicker = useDatepicker({
+    defaultSelected: new Date(`${loaderData.from}T12:00:00`),
+    onDateChange: (date) => setFrom(date ? toDateInputValue(date) : ''),
+  })
+  const toDatepicker = useDatepicker({
+    defaultSelected: new Date(`${loaderData.to}T12:00:00`),
+    onDateChange: (date) => setTo(date ? toDateInputValue(date) : ''),
+  })
+
+  return (
+    <VStack gap="space-24">
+      <div>
+        <Heading level="1" size="medium" spacing>
+          Simuler godkjenningsregler
+        </Heading>
+        <BodyShort textColor="subtle">
+          Se hvilke deployments som ville fått en annen status med andre innstillinger for implisitt godkjenning og
+          godkjenningskrav. Simuleringen bruker kun lagrede data fra GitHub og endrer ingenting.
+        </BodyShort>
+      </div>
+
+      <Box padding="space-24" borderRadius="8" background="raised" borderColor="neutral-subtle" borderWidth="1">
+        <VStack gap="space-16">
+          <BodyShort size="small">
+            <strong>Gjeldende regler:</strong> Implisitt godkjenning:{' '}
+            {getImplicitApprovalModeLabel(current.implicitApprovalSettings.mode)} · Minimum antall godkjenninger:{' '}
+            {current.approvalPolicySettings.minApprovals}
+            {current.approvalPolicySettings.requiredTeams.length > 0 &&
+              ` · Påkrevde team: ${current.approvalPolicySettings.requiredTeams.join(', ')}`}
+          </BodyShort>
+
+          <Form method="get">
+            <input type="hidden" name="from" value={from} />
+            <input type="hidden" name="to" value={to} />
+            <VStack gap="space-16">
+              <HStack gap="space-16" align="end" wrap>
+                <DatePicker {...fromDatepicker.datepickerProps}>
+                  <DatePicker.Input {...fromDatepicker.inputProps} label="Fra" size="small" />
+                </DatePicker>
+                <DatePicker {...toDatepicker.datepickerProps}>
+                  <DatePicker.Input {...toDatepicker.inputProps} label="Til" size="small" />
+                </DatePicker>
+              </HStack>
+              <HStack gap="space-16" align="end" wrap>
+                <Select
+                  label="Implisitt godkjenning"
+                  name="mode"
+                  size="small"
+                  defaultValue={alternative.implicitApprovalSettings.mode}
+                >
+                  {IMPLICIT_APPROVAL_MODE_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </Select>
+                <TextField
+                  label="Minimum antall godkjenninger"
+                  name="min_approvals"
+                  type="number"
+                  min={1}
+                  max={5}
+                  size="small"
+                  defaultValue={alternative.approvalPolicySettings.minApprovals}
+                  style={{ maxWidth: '120px' }}
+                />
+                <TextField
+                  label="Påkrevde team"
+                  name="required_teams"
+                  size="small"
+                  defaultValue={alternative.approvalPolicySettings.requiredTeams.join(', ')}
+                  style={{ minWidth: '300px' }}
+                />
+              </HStack>
+              <HStack gap="space-8">
+                <Button type="submit" size="small" loading={isSimulating}>
+                  Simuler
+                </Button>
+              </HStack>
+            </VStack>
+          </Form>
+        </VStack>
+      </Box>
+
+      {simulation && (
+        <VStack gap="space-16">
+          {isSamePolicy(current, alternative) && (
+            <Alert variant="info" size="small">
+              De valgte reglene er like de gjeldende. Velg andre innstillinger for å se effekten.
+            </Alert>
+          )}
+          {simulation.truncated && (
+            <Alert variant="warning" size="small">
+              Perioden har flere enn {MAX_SIMULATED_DEPLOYMENTS} deployments. Kun de {MAX_SIMULATED_DEPLOYMENTS} nyeste
+              er simulert.
+            </Alert>
+          )}
+
+          <HStack gap="space-8" wrap>
+            {(Object.keys(SIMULATION_OUTCOME_LABELS) as SimulationOutcome[]).map((outcome) => (
+              <Tag key={outcome} data-color={getOutcomeColor(outcome)} variant="moderate" size="small">
+                {SIMULATION_OUTCOME_LABELS[outcome]}: {simulation.counts[outcome]}
+              </Tag>
+            ))}
+          </HStack>
+          <Detail textColor="subtle">
+            {simulation.checked} deployments simulert. Hoppet over {simulation.skippedProtected} med manuell, baseline-
+            eller legacy-status og {simulation.skippedMissingSnapshot} uten lagrede data
+            {simulation.errors > 0 && `. ${simulation.errors} feilet`}.
+          </Detail>
+
+          {simulation.changed.length === 0 ? (
+            <Box padding="space-24" borderRadius="8" background="raised" borderColor="neutral-subtle" borderWidth="1">
+              <BodyShort textColor="subtle" style={{ fontStyle: 'italic' }}>
+                Ingen deployments ville fått en annen status.
+              </BodyShort>
+            </Box>
+          ) : (
+            <Table size="small">
+              <Table.Header>
+                <Table.Row>
+                  <Table.HeaderCell>Deployment</Table.HeaderCell>
+                  <Table.HeaderCell>Lagret status</Table.HeaderCell>
+                  <Table.HeaderCell>Gjeldende regler</Table.HeaderCell>
+                  <Table.HeaderCell>Simulerte regler</Table.HeaderCell>
+                  <Table.HeaderCell>Endring</Table.HeaderCell>
+                </Table.Row>
+              </Table.Header>
+              <Table.Body>
+                {simulation.changed.map((dep) => (
+                  <Table.Row key={dep.id}>
+                    <Table.DataCell>
+                      <Link to={`${appUrl}/deployments/${dep.id}`}>{dep.title || dep.commitSha.substring(0, 7)}</Link>
+                      <BodyShort size="small" textColor="subtle">
+                        {new Date(dep.createdAt).toLocaleDateString('no-NO')} · {dep.environmentName}
+                      </BodyShort>
+                    </Table.DataCell>
+                    <Table.DataCell>{getFourEyesStatusLabel(dep.storedStatus)}</Table.DataCell>
+                    <Table.DataCell>{getFourEyesStatusLabel(dep.currentPolicyStatus)}</Table.DataCell>
+                    <Table.DataCell>
+                      {getFourEyesStatusLabel(dep.alternativeStatus)}
+                      <Detail textColor="subtle">{dep.alternativeReason}</Detail>
+                    </Table.DataCell>
+                    <Table.DataCell>
+                      <Tag data-color={getOutcomeColor(dep.outcome)} variant="moderate" size="xsmall">
+                        {SIMULATION_OUTCOME_LABELS[dep.outcome]}
+                      </Tag>
+                    </Table.DataCell>
+                  </Table.Row>
+                ))}
+              </Table.Body>
+            </Table>
+          )}
+        </VStack>
+      )}
+    </VStack>
+  )
+}
@@ -9,17 +9,16 @@ import { BodyShort, Box, Heading, Table, Tag, VStack } from '@navikt/ds-react'
 import { Link } from 'react-router'
 import { getDeploymentsWithStatusChanges } from '~/db/deployments.server'
 import { getMonitoredApplicationByIdentity } from '~/db/monitored-applications.server'
-import { requireAdmin } from '~/lib/auth.server'
+import { requireAppAdmin } from '~/lib/access-policy.server'
 import { getFourEyesStatusLabel } from '~/lib/four-eyes-status'
 import type { Route } from './+types/$team.env.$env.app.$app.admin.status-history'
 
 export async function loader({ request, params }: Route.LoaderArgs) {
-  await requireAdmin(request)
-
   const app = await getMonitoredApplicationByIdentity(params.team, params.env, params.app)
   if (!app) {
     throw new Response('Application not found', { status: 404 })
   }
+  await requireAppAdmin(request, app.id)
 
   const deployments = await getDeploymentsWithStatusChanges(app.id)
 
@@ -38,6 +37,7 @@ function formatChangeSource(source: string): string {
     sync: 'Synkronisering',
     legacy: 'Legacy',
     baseline_approval: 'Baseline godkjent',
+    group_propagation: 'Applikasjonsgruppe',
     unknown: 'Ukjent',
   }
   return labels[source] || source
@@ -1,7 +1,7 @@
 import { SyncJobDetailView } from '~/components/SyncJobDetailView'
 import { getMonitoredApplicationByIdentity } from '~/db/monitored-applications.server'
 import { getSyncJobById, getSyncJobLogs, SYNC_JOB_STATUS_LABELS, SYNC_JOB_TYPE_LABELS } from '~/db/sync-jobs.server'
-import { requireAdmin } from '~/lib/auth.server'
+import { requireAppAdmin } from '~/lib/access-policy.server'
 import type { Route } from './+types/$team.env.$env.app.$app.admin.sync-job.$jobId'
 
 export function meta({ data }: Route.MetaArgs) {
@@ -9,8 +9,6 @@ export function meta({ data }: Route.MetaArgs) {
 }
 
 export async function loader({ params, request }: Route.LoaderArgs) {
-  await requireAdmin(request)
-
   const { team, env, app: appName, jobId: jobIdParam } = params
   const jobId = parseInt(jobIdParam, 10)
 
@@ -19,6 +17,7 @@ export async function loader({ params, request }: Route.LoaderArgs) {
   if (!app || !job) {
     throw new Response('Not found', { status: 404 })
   }
+  await requireAppAdmin(request, app.id)
 
   const url = new URL(request.url)
   const afterId = parseInt(url.searchParams.get('afterId') || '0', 10)
@@ -20,53 +20,93 @@ import {
 import { useEffect, useRef, useState } from 'react'
 import { Form, Link, useFetcher, useNavigation, useRevalidator } from 'react-router'
 import { UserName } from '~/components/UserName'
-import { getAppConfigAuditLog, getImplicitApprovalSettings } from '~/db/app-settings.server'
+import {
+  getAppConfigAuditLog,
+  getApprovalPolicySettings,
+  getCodeownersPolicySettings,
+  getDeployWorkflowPolicySettings,
+  getImplicitApprovalSettings,
+  getScheduledReportSettings,
+} from '~/db/app-settings.server'
 import { getAuditReportsForApp } from '~/db/audit-reports.server'
 import { getGitHubDataStatsForApp } from '~/db/github-data.server'
 import { getMonitoredApplicationByIdentity } from '~/db/monitored-applications.server'
+import { getNotificationEndpointsSummary } from '~/db/notification-channels.server'
+import { getScheduledReportRunsForApp, type ScheduledReportRunStatus } from '~/db/scheduled-report-runs.server'
 import { getLatestSyncJob, type SyncJob } from '~/db/sync-jobs.server'
-import { requireAdmin } from '~/lib/auth.server'
+import { requireAppAdmin } from '~/lib/access-policy.server'
 import { getFourEyesStatusLabel } from '~/lib/four-eyes-status'
+import { NOTIFICATION_CHANNEL_LABELS, NOTIFICATION_CHANNEL_TYPES } from '~/lib/notifications/events'
 import { getCompletedPeriods, REPORT_PERIOD_TYPE_LABELS, type ReportPeriodType } from '~/lib/report-periods'
 import type { UserMappings } from '~/lib/user-display'
 import type { Route } from './+types/$team.env.$env.app.$app.admin'
 
 export { action } from './$team.env.$env.app.$app.admin.actions.server'
 
+const SCHEDULED_RUN_STATUS_LABELS: Record<ScheduledReportRunStatus, string> = {
+  running: 'Kjører',
+  generated: 'Generert',
+  blocked: 'Venter på godkjenninger',
+  no_deployments: 'Ingen deployments',
+  failed: 'Feilet',
+}
+
 export function meta({ data }: Route.MetaArgs) {
   return [{ title: data?.app ? `Admin - ${data.app.app_name}` : 'Admin' }]
 }
 
 export async function loader({ params, request }: Route.LoaderArgs) {
-  await requireAdmin(request)
-
   const { team, env, app: appName } = params
 
   const app = await getMonitoredApplicationByIdentity(team, env, appName)
   if (!app) {
     throw new Response('Application not found', { status: 404 })
   }
+  await requireAppAdmin(request, app.id)
 
   // Check if this is a production app (audit reports only make sense for prod)
   const isProdApp = app.environment_name.startsWith('prod-')
 
-  const [implicitApprovalSettings, recentConfigChanges, auditReports, latestFetchJob, githubDataStats] =
-    await Promise.all([
-      getImplicitApprovalSettings(app.id),
-      getAppConfigAuditLog(app.id, { limit: 10 }),
-      getAuditReportsForApp(app.id),
-      getLatestSyncJob(app.id, 'fetch_verification_data'),
-      getGitHubDataStatsForApp(app.id, app.audit_start_year),
-    ])
+  const [
+    implicitApprovalSettings,
+    approvalPolicySettings,
+    deployWorkflowPolicySettings,
+    codeownersPolicySettings,
+    recentConfigChanges,
+    auditReports,
+    latestFetchJob,
+    githubDataStats,
+    scheduledReportSettings,
+    scheduledReportRuns,
+    notificationEndpoints,
+  ] = await Promise.all([
+    getImplicitApprovalSettings(app.id),
+    getApprovalPolicySettings(app.id),
+    getDeployWorkflowPolicySettings(app.id),
+    getCodeownersPolicySettings(app.id),
+    getAppConfigAuditLog(app.id, { limit: 10 }),
+    getAuditReportsForApp(app.id),
+    getLatestSyncJob(app.id, 'fetch_verification_data'),
+    getGitHubDataStatsForApp(app.id, app.audit_start_year),
+    getScheduledReportSettings(app.id),
+    getScheduledReportRunsForApp(app.id, 5),
+    getNotificationEndpointsSummary(app.id),
+  ])
 
   return {
     app,
     implicitApprovalSettings,
+    approvalPolicySettings,
+    deployWorkflowPolicySettings,
+    codeownersPolicySettings,
     recentConfigChanges,
     auditReports,
     isProdApp,
     latestFetchJob,
     githubDataStats,
+    scheduledReportSettings,
+    scheduledReportRuns,
+    notificationEndpoints,
   }
 }
 
@@ -74,11 +114,17 @@ export default function AppAdmin({ loaderData, actionData }: Route.ComponentProp
   const {
     app,
     implicitApprovalSettings,
+    approvalPolicySettings,
+    deployWorkflowPolicySettings,
+    codeownersPolicySettings,
     recentConfigChanges,
     auditReports,
     isProdApp,
     latestFetchJob,
     githubDataStats,
+    scheduledReportSettings,
+    scheduledReportRuns,
+    notificationEndpoints,
   } = loaderData
   const navigation = useNavigation()
   const revalidator = useRevalidator()
@@ -410,6 +456,9 @@ export default function AppAdmin({ loaderData, actionData }: Route.ComponentProp
                         <AkselLink href={`/admin/audit-reports/${report.id}/pdf`} target="_blank">
                           Last ned
                         </AkselLink>
+                        <AkselLink href={`/admin/audit-reports/${report.id}/export/json`}>JSON</AkselLink>
+                        <AkselLink href={`/admin/audit-reports/${report.id}/export/csv`}>CSV</AkselLink>
+                        <AkselLink href={`/admin/audit-reports/${report.id}/export/xlsx`}>XLSX</AkselLink>
                       </HStack>
                     </HStack>
                   ))}
@@ -420,6 +469,72 @@ export default function AppAdmin({ loaderData, actionData }: Route.ComponentProp
         </Box>
       )}
 
+      {/* Scheduled Audit Reports - only for prod apps */}
+      {isProdApp && (
+        <Box padding="space-24" borderRadius="8" background="raised" borderColor="neutral-subtle" borderWidth="1">
+          <VStack gap="space-16">
+            <div>
+              <Heading size="small" level="2">
+                Automatisk rapportgenerering
+              </Heading>
+              <BodyShort textColor="subtle" size="small">
+                Genererer leveranserapport automatisk dagen etter at en periode er avsluttet. Mangler deployments i
+                perioden godkjenning, sendes en Slack-melding med listen, og rapporten genereres når alle er godkjent.
+              </BodyShort>
+            </div>
+
+            <Form method="post">
+              <input type="hidden" name="action" value="update_scheduled_reports" />
+              <input type="hidden" name="app_id" value={app.id} />
+              <VStack gap="space-16">
+                <Switch name="scheduled_reports_enabled" value="true" defaultChecked={scheduledReportSettings.enabled}>
+                  Aktiver automatisk rapportgenerering
+                </Switch>
+
+                <CheckboxGroup legend="Perioder" size="small" defaultValue={scheduledReportSettings.periodTypes}>
+                  {Object.entries(REPORT_PERIOD_TYPE_LABELS).map(([value, label]) => (
+                    <Checkbox key={value} name="period_types" value={value}>
+                      {label}
+                    </Checkbox>
+                  ))}
+                </CheckboxGroup>
+
+                <TextField
+                  label="Slack-kanal for varsler"
+                  description="Kanal-ID eller #kanalnavn. Tom bruker appens Slack-kanal."
+                  name="slack_channel_id"
+                  defaultValue={scheduledReportSettings.slackChannelId ?? ''}
+                  size="small"
+                  style={{ maxWidth: '300px' }}
+                />
+
+                <Button type="submit" size="small" variant="secondary">
+                  Lagre rapportplan
+                </Button>
+              </VStack>
+            </Form>
+
+            {scheduledReportRuns.length > 0 && (
+              <VStack gap="space-8">
+                <Label>Siste automatiske kjøringer</Label>
+                <VStack gap="space-4">
+                  {scheduledReportRuns.map((run) => (
+                    <Detail key={run.id} textColor="subtle">
+                      {REPORT_PERIOD_TYPE_LABELS[run.period_type]} fra{' '}
+                      {new Date(run.period_start).toLocaleDateString('no-NO')}:{' '}
+                      {SCHEDULED_RUN_STATUS_LABELS[run.status]}
+                      {run.status === 'blocked' && ` (${run.pending_count} mangler godkjenning)`}
+                      {run.status === 'failed' && run.error_message && ` (${run.error_message})`} –{' '}
+                      {new Date(run.last_attempt_at).toLocaleString('no-NO')}
+                    </Detail>
+                  ))}
+                </VStack>
+              </VStack>
+            )}
+          </VStack>
+        </Box>
+      )}
+
       {/* Default Branch */}
       <Box padding="space-24" borderRadius="8" background="raised" borderColor="neutral-subtle" borderWidth="1">
         <VStack gap="space-16">
@@ -514,6 +629,166 @@ export default function AppAdmin({ loaderData, actionData }: Route.ComponentProp
               </Button>
             </VStack>
           </Form>
+          <AkselLink
+            as={Link}
+            to={`/team/${app.team_slug}/env/${app.environment_name}/app/${app.app_name}/admin/policy-simulation`}
+          >
+            Simuler effekten av andre regler →
+          </AkselLink>
+        </VStack>
+      </Box>
+
+      {/* Approval Policy */}
+      <Box padding="space-24" borderRadius="8" background="raised" borderColor="neutral-subtle" borderWidth="1">
+        <VStack gap="space-16">
+          <div>
+            <Heading size="small" level="2">
+              Godkjenningskrav
+            </Heading>
+            <BodyShort textColor="subtle" size="small">
+              Krev flere godkjenninger, eller godkjenning fra bestemte GitHub-team, før en PR regnes som verifisert.
+            </BodyShort>
+          </div>
+
+          <Form method="post">
+            <input type="hidden" name="action" value="update_approval_policy" />
+            <input type="hidden" name="app_id" value={app.id} />
+            <VStack gap="space-12">
+              <TextField
+                label="Minimum antall godkjenninger"
+                description="Godkjenninger fra commit-forfattere telles ikke"
+                name="min_approvals"
+                type="number"
+                min={1}
+                max={5}
+                defaultValue={approvalPolicySettings.minApprovals}
+                size="small"
+                style={{ maxWidth: '120px' }}
+              />
+
+              <TextField
+                label="Påkrevde team"
+                description="GitHub team-slugs, kommaseparert (f.eks. team-betaling). Minst én godkjenning må komme fra et medlem av hvert team."
+                name="required_teams"
+                defaultValue={approvalPolicySettings.requiredTeams.join(', ')}
+                size="small"
+                style={{ maxWidth: '400px' }}
+              />
+
+              <BodyShort size="small" textColor="subtle">
+                PRer som ikke oppfyller kravene får årsaken «Oppfyller ikke godkjenningskrav». Implisitt godkjenning
+                gjelder fortsatt når den er slått på.
+              </BodyShort>
+
+              <Button type="submit" size="small" variant="secondary">
+                Lagre godkjenningskrav
+              </Button>
+            </VStack>
+          </Form>
+        </VStack>
+      </Box>
+
+      {/* Deploy Workflow Policy */}
+      <Box padding="space-24" borderRadius="8" background="raised" borderColor="neutral-subtle" borderWidth="1">
+        <VStack gap="space-16">
+          <div>
+            <Heading size="small" level="2">
+              Godkjente deploy-workflows
+            </Heading>
+            <BodyShort textColor="subtle" size="small">
+              Begrens hvilke GitHub Actions-workflows som kan deploye appen. Deployments fra andre workflows får
+              statusen «Ikke godkjent workflow».
+            </BodyShort>
+          </div>
+
+          <Form method="post">
+            <input type="hidden" name="action" value="update_deploy_workflow_policy" />
+            <input type="hidden" name="app_id" value={app.id} />
+            <VStack gap="space-12">
+              <TextField
+                label="Workflow-filer"
+                description="Kommaseparert, som full sti eller filnavn (f.eks. .github/workflows/deploy.yml eller deploy.yml). Tomt betyr alle."
+                name="allowed_workflows"
+                defaultValue={deployWorkflowPolicySettings.allowedWorkflows.join(', ')}
+                size="small"
+                style={{ maxWidth: '400px' }}
+              />
+
+              <TextField
+                label="Hendelser"
+                description="Kommaseparert (f.eks. push, release). Tomt betyr alle. Utelat workflow_dispatch for å stoppe manuelle deploys."
+                name="allowed_events"
+                defaultValue={deployWorkflowPolicySettings.allowedEvents.join(', ')}
+                size="small"
+                style={{ maxWidth: '400px' }}
+              />
+
+              <Checkbox
+                name="require_base_branch"
+                value="true"
+                defaultChecked={deployWorkflowPolicySettings.requireBaseBranch}
+                size="small"
+              >
+                Workflow-kjøringen må være på {app.default_branch || 'main'}
+              </Checkbox>
+
+              <BodyShort size="small" textColor="subtle">
+                Deployments uten kjent workflow-kjøring (f.eks. uten trigger-URL fra Nais) sjekkes ikke.
+              </BodyShort>
+
+              <Button type="submit" size="small" variant="secondary">
+                Lagre workflow-krav
+              </Button>
+            </VStack>
+          </Form>
+        </VStack>
+      </Box>
+
+      {/* CODEOWNERS Policy */}
+      <Box padding="space-24" borderRadius="8" background="raised" borderColor="neutral-subtle" borderWidth="1">
+        <VStack gap="space-16">
+          <div>
+            <Heading size="small" level="2">
+              Godkjenning fra code owners
+            </Heading>
+            <BodyShort textColor="subtle" size="small">
+              For monorepoer: krev at hver endret fil under appens stier er godkjent av en eier i CODEOWNERS. Eierne
+              leses fra CODEOWNERS slik den var ved merge-basen til PR-en.
+            </BodyShort>
+          </div>
+
+          <Form method="post">
+            <input type="hidden" name="action" value="update_codeowners_policy" />
+            <input type="hidden" name="app_id" value={app.id} />
+            <VStack gap="space-12">
+              <Checkbox
+                name="codeowners_enabled"
+                value="true"
+                defaultChecked={codeownersPolicySettings.enabled}
+                size="small"
+              >
+                Krev godkjenning fra code owner
+              </Checkbox>
+
+              <TextField
+                label="Appens stier"
+                description="Kommaseparerte mapper i repoet (f.eks. apps/min-app, libs/felles). Tomt betyr hele repoet."
+                name="app_paths"
+                defaultValue={codeownersPolicySettings.appPaths.join(', ')}
+                size="small"
+                style={{ maxWidth: '400px' }}
+              />
+
+              <BodyShort size="small" textColor="subtle">
+                Filer uten eier i CODEOWNERS, og repoer uten CODEOWNERS, krever ingen ekstra godkjenning. Eiere oppgitt
+                med e-post kan ikke kobles til en GitHub-bruker og godtas aldri.
+              </BodyShort>
+
+              <Button type="submit" size="small" variant="secondary">
+                Lagre code owner-krav
+              </Button>
+            </VStack>
+          </Form>
         </VStack>
       </Box>
 
@@ -607,6 +882,89 @@ export default function AppAdmin({ loaderData, actionData }: Route.ComponentProp
         </VStack>
       </Box>
 
+      {/* Notification channel */}
+      <Box padding="space-24" borderRadius="8" background="raised" borderColor="neutral-subtle" borderWidth="1">
+        <VStack gap="space-16">
+          <div>
+            <Heading size="small" level="2">
+              Varslingskanal
+            </Heading>
+            <BodyShort textColor="subtle" size="small">
+              Velg hvor varsler, purringer og meldinger om leveranserapporter sendes. Microsoft Teams bruker en
+              innkommende webhook, og webhook sender signert JSON til et eget system.
+            </BodyShort>
+          </div>
+
+          <Form method="post">
+            <input type="hidden" name="action" value="update_notification_channel" />
+            <input type="hidden" name="app_id" value={app.id} />
+            <VStack gap="space-16">
+              <Select
+                label="Kanal"
+                name="notification_channel"
+                defaultValue={app.notification_channel}
+                size="small"
+                style={{ maxWidth: '300px' }}
+              >
+                {NOTIFICATION_CHANNEL_TYPES.map((channel) => (
+                  <option key={channel} value={channel}>
+                    {NOTIFICATION_CHANNEL_LABELS[channel]}
+                  </option>
+                ))}
+              </Select>
+
+              <TextField
+                label="Teams-webhook"
+                name="teams_webhook_url"
+                description={
+                  notificationEndpoints.teams_webhook_url
+                    ? `Lagret: ${notificationEndpoints.teams_webhook_url}. La feltet stå tomt for å beholde den.`
+                    : 'Adressen til en innkommende webhook i Teams-kanalen (https://…). Verten må være åpnet for utgående trafikk i Nais.'
+                }
+                size="small"
+                autoComplete="off"
+              />
+
+              <TextField
+                label="Webhook-adresse"
+                name="webhook_url"
+                description={
+                  notificationEndpoints.webhook_url
+                    ? `Lagret: ${notificationEndpoints.webhook_url}. La feltet stå tomt for å beholde den.`
+                    : 'Adressen som mottar varsler som JSON (https://…). Verten må være åpnet for utgående trafikk i Nais.'
+                }
+                size="small"
+                autoComplete="off"
+              />
+
+              <TextField
+                label="Webhook-hemmelighet"
+                name="webhook_secret"
+                type="password"
+                description={
+                  notificationEndpoints.webhook_secret_set
+                    ? 'En hemmelighet er lagret. Fyll ut for å bytte den.'
+                    : 'Brukes til å signere hver forespørsel (HMAC-SHA256), minst 16 tegn'
+                }
+                size="small"
+                autoComplete="new-password"
+                style={{ maxWidth: '300px' }}
+              />
+
+              {(notificationEndpoints.teams_webhook_url || notificationEndpoints.webhook_url) && (
+                <Checkbox name="remove_endpoints" value="true" size="small">
+                  Fjern lagrede Teams- og webhook-adresser
+                </Checkbox>
+              )}
+
+              <Button type="submit" size="small" variant="secondary">
+                Lagre varslingskanal
+              </Button>
+            </VStack>
+          </Form>
+        </VStack>
+      </Box>
+
       {/* Deploy Notification Configuration */}
       <Box padding="space-24" borderRadius="8" background="raised" borderColor="neutral-subtle" borderWidth="1">
         <VStack gap="space-16">
@@ -653,7 +1011,7 @@ export default function AppAdmin({ loaderData, actionData }: Route.ComponentProp
               Purring for ikke-godkjente deployments
             </Heading>
             <BodyShort textColor="subtle" size="small">
-              Send automatiske påminnelser i Slack for deployments som mangler godkjenning.
+              Send automatiske påminnelser gjennom appens varslingskanal for deployments som mangler godkjenning.
             </BodyShort>
           </div>
 
@@ -706,9 +1064,6 @@ export default function AppAdmin({ loaderData, actionData }: Route.ComponentProp
           <HStack gap="space-8">
             <Form method="post">
               <input type="hidden" name="action" value="send_reminder" />
-              <input type="hidden" name="team_slug" value={app.team_slug} />
-              <input type="hidden" name="environment_name" value={app.environment_name} />
-              <input type="hidden" name="app_name" value={app.app_name} />
               <Button type="submit" size="small" variant="tertiary">
                 Send purring nå
               </Button>
@@ -27,6 +27,7 @@ import { ErrorReasonWithLink } from '~/components/ErrorReasonWithLink'
 import { pool } from '~/db/connection.server'
 import { getMonitoredApplicationByIdentity } from '~/db/monitored-applications.server'
 import { getLatestSyncJob, getSyncJobById } from '~/db/sync-jobs.server'
+import { requireAppAdmin } from '~/lib/access-policy.server'
 import { requireAdmin } from '~/lib/auth.server'
 import { type FourEyesStatus, getFourEyesStatusLabel, isApprovedStatus } from '~/lib/four-eyes-status'
 import { logger } from '~/lib/logger.server'
@@ -46,14 +47,14 @@ interface DeploymentDiff {
 }
 
 export async function loader({ request, params }: Route.LoaderArgs) {
-  await requireAdmin(request)
-
   const { team, env, app } = params
 
   const monitoredApp = await getMonitoredApplicationByIdentity(team, env, app)
   if (!monitoredApp) {
+    await requireAdmin(request)
     return { diffs: [], appContext: null, lastComputed: null, latestJob: null }
   }
+  await requireAppAdmin(request, monitoredApp.id)
 
   const appContext = {
     teamSlug: monitoredApp.team_slug,
@@ -95,8 +96,12 @@ export async function loader({ request, params }: Route.LoaderArgs) {
   return { diffs, appContext, lastComputed, latestJob }
 }
 
-export async function action({ request }: Route.ActionArgs) {
-  await requireAdmin(request)
+export async function action({ request, params }: Route.ActionArgs) {
+  const monitoredApp = await getMonitoredApplicationByIdentity(params.team, params.env, params.app)
+  if (!monitoredApp) {
+    throw new Response('Application not found', { status: 404 })
+  }
+  await requireAppAdmin(request, monitoredApp.id)
 
   const formData = await request.formData()
   const actionType = formData.get('action') as string
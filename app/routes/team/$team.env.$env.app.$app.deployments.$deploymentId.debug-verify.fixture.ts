@@ -0,0 +1,49 @@
+import { getDeploymentById } from '~/db/deployments.server'
+import { requireAppAccess } from '~/lib/access-policy.server'
+import { getUserIdentity } from '~/lib/auth.server'
+import { exportVerificationFixture, isVerificationDebugMode } from '~/lib/verification'
+import { getVerificationFixtureFilename } from '~/lib/verification/fixtures'
+import type { Route } from './+types/$team.env.$env.app.$app.deployments.$deploymentId.debug-verify.fixture'
+
+/**
+ * Download the deployment's VerificationInput as a replayable fixture.
+ * Built from cached snapshots only, so it never calls GitHub for PR or compare data.
+ */
+export async function loader({ params, request }: Route.LoaderArgs) {
+  // Same global gate as the debug verification page, and the fixture is only for apps the user can see
+  const user = await getUserIdentity(request)
+  if (!isVerificationDebugMode && user?.role !== 'admin') {
+    throw new Response('Debug mode not enabled', { status: 403 })
+  }
+
+  const deploymentId = parseInt(params.deploymentId, 10)
+  if (Number.isNaN(deploymentId)) {
+    throw new Response('Invalid deployment ID', { status: 400 })
+  }
+
+  const deployment = await getDeploymentById(deploymentId)
+  if (!deployment?.monitored_app_id) {
+    throw new Response('Deployment not found', { status: 404 })
+  }
+  await requireAppAccess(request, deployment.monitored_app_id)
+
+  if (!deployment.commit_sha || !deployment.detected_github_owner || !deployment.detected_github_repo_name) {
+    throw new Response('Deployment mangler nødvendig data for verifisering', { status: 400 })
+  }
+
+  const fixture = await exportVerificationFixture(deploymentId, {
+    commitSha: deployment.commit_sha,
+    repository: `${deployment.detected_github_owner}/${deployment.detected_github_repo_name}`,
+    environmentName: deployment.environment_name,
+    baseBranch: deployment.default_branch || 'main',
+    monitoredAppId: deployment.monitored_app_id,
+  })
+
+  return new Response(JSON.stringify(fixture, null, 2), {
+    status: 200,
+    headers: {
+      'Content-Type': 'application/json; charset=utf-8',
+      'Content-Disposition': `attachment; filename="${getVerificationFixtureFilename(deploymentId)}"`,
+    },
+  })
+}
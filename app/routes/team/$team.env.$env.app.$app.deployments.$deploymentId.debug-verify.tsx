@@ -161,6 +161,15 @@ export default function DebugVerifyPage({ loaderData }: Route.ComponentProps) {
                 📥 Eksporter JSON
               </Button>
             )}
+            <Button
+              as="a"
+              href={`/team/${deployment.team_slug}/env/${deployment.environment_name}/app/${deployment.app_name}/deployments/${deployment.id}/debug-verify/fixture`}
+              variant="secondary"
+              size="small"
+              title="VerificationInput fra cache, for regresjonstester"
+            >
+              🧪 Eksporter fixture
+            </Button>
             <Link
               to={`/team/${deployment.team_slug}/env/${deployment.environment_name}/app/${deployment.app_name}/deployments/${deployment.id}`}
             >
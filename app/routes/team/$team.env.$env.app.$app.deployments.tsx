@@ -13,6 +13,7 @@ import {
   getUserDevTeams,
 } from '~/db/user-dev-team-preference.server'
 import { getUserMappingByNavIdent, getUserMappings } from '~/db/user-mappings.server'
+import { requireAppAccess } from '~/lib/access-policy.server'
 import { getUserIdentity } from '~/lib/auth.server'
 import { logger } from '~/lib/logger.server'
 import { requireTeamEnvAppParams } from '~/lib/route-params.server'
@@ -31,6 +32,7 @@ export async function loader({ params, request }: Route.LoaderArgs) {
   if (!app) {
     throw new Response('Application not found', { status: 404 })
   }
+  await requireAppAccess(request, app.id)
 
   const url = new URL(request.url)
   const page = parseInt(url.searchParams.get('page') || '1', 10)
@@ -2,30 +2,36 @@ import { ChatIcon, ClockIcon } from '@navikt/aksel-icons'
 import { Link as AkselLink, Alert, BodyShort, Box, Detail, Heading, HStack, Table, Tag, VStack } from '@navikt/ds-react'
 import { redirect, useLoaderData } from 'react-router'
 import { getMonitoredApplicationByIdentity } from '~/db/monitored-applications.server'
+import { getNotificationDeliveriesByApp } from '~/db/notification-channels.server'
 import {
   getSlackInteractions,
   getSlackNotificationsByApp,
   getSlackNotificationUpdates,
 } from '~/db/slack-notifications.server'
+import { getAppPermissions } from '~/lib/access-policy.server'
 import { getUserIdentity } from '~/lib/auth.server'
+import { NOTIFICATION_CHANNEL_LABELS, NOTIFICATION_EVENT_LABELS } from '~/lib/notifications/events'
 import { requireTeamEnvAppParams } from '~/lib/route-params.server'
 import type { Route } from './+types/$team.env.$env.app.$app.slack'
 
 export async function loader({ params, request }: Route.LoaderArgs) {
   const { team, env, app: appName } = requireTeamEnvAppParams(params)
 
-  // Check admin access
-  const identity = await getUserIdentity(request)
-  if (!identity || identity.role !== 'admin') {
-    return redirect(`/team/${team}/env/${env}/app/${appName}`)
-  }
-
   const app = await getMonitoredApplicationByIdentity(team, env, appName)
   if (!app) {
     throw new Response('Application not found', { status: 404 })
   }
 
-  const notifications = await getSlackNotificationsByApp(app.id, 100)
+  // Admins in the section that owns the app
+  const identity = await getUserIdentity(request)
+  if (!identity || !(await getAppPermissions(identity, app.id)).canAdminister) {
+    return redirect(`/team/${team}/env/${env}/app/${appName}`)
+  }
+
+  const [notifications, deliveries] = await Promise.all([
+    getSlackNotificationsByApp(app.id, 100),
+    getNotificationDeliveriesByApp(app.id, 100),
+  ])
 
   // Get details for each notification
   const notificationsWithDetails = await Promise.all(
@@ -45,6 +51,7 @@ export async function loader({ params, request }: Route.LoaderArgs) {
   return {
     app,
     notifications: notificationsWithDetails,
+    deliveries,
   }
 }
 
@@ -65,7 +72,7 @@ function formatDate(date: Date | string | null): string {
 }
 
 export default function AppSlackPage() {
-  const { app, notifications } = useLoaderData<typeof loader>()
+  const { app, notifications, deliveries } = useLoaderData<typeof loader>()
 
   return (
     <Box paddingInline={{ xs: 'space-16', md: 'space-24' }} paddingBlock="space-24">
@@ -93,6 +100,7 @@ export default function AppSlackPage() {
               </Tag>
             )}
             {app.slack_channel_id && <Detail textColor="subtle">Kanal: {app.slack_channel_id}</Detail>}
+            <Detail textColor="subtle">Varslingskanal: {NOTIFICATION_CHANNEL_LABELS[app.notification_channel]}</Detail>
           </HStack>
         </Box>
 
@@ -220,6 +228,78 @@ export default function AppSlackPage() {
             </Table>
           </VStack>
         )}
+
+        {/* Teams and webhook deliveries */}
+        {deliveries.length > 0 && (
+          <VStack gap="space-16">
+            <Heading level="2" size="small">
+              Leveranser til Teams og webhook ({deliveries.length})
+            </Heading>
+
+            <Table size="small">
+              <Table.Header>
+                <Table.Row>
+                  <Table.HeaderCell>Tidspunkt</Table.HeaderCell>
+                  <Table.HeaderCell>Kanal</Table.HeaderCell>
+                  <Table.HeaderCell>Hendelse</Table.HeaderCell>
+                  <Table.HeaderCell>Deployment</Table.HeaderCell>
+                  <Table.HeaderCell>Mottaker</Table.HeaderCell>
+                  <Table.HeaderCell>Status</Table.HeaderCell>
+                </Table.Row>
+              </Table.Header>
+              <Table.Body>
+                {deliveries.map((delivery) => (
+                  <Table.ExpandableRow
+                    key={delivery.id}
+                    content={
+                      <VStack gap="space-8" padding="space-16">
+                        {delivery.error && (
+                          <Alert variant="error" size="small">
+                            {delivery.error}
+                          </Alert>
+                        )}
+                        <Box background="sunken" padding="space-12" borderRadius="4">
+                          <BodyShort size="small" style={{ whiteSpace: 'pre-wrap', fontFamily: 'monospace' }}>
+                            {JSON.stringify(delivery.payload, null, 2)}
+                          </BodyShort>
+                        </Box>
+                      </VStack>
+                    }
+                  >
+                    <Table.DataCell>{formatDate(delivery.sent_at)}</Table.DataCell>
+                    <Table.DataCell>{NOTIFICATION_CHANNEL_LABELS[delivery.channel]}</Table.DataCell>
+                    <Table.DataCell>
+                      {NOTIFICATION_EVENT_LABELS[delivery.event_type] ?? delivery.event_type}
+                    </Table.DataCell>
+                    <Table.DataCell>
+                      {delivery.deployment_id ? (
+                        <AkselLink
+                          href={`/team/${app.team_slug}/env/${app.environment_name}/app/${app.app_name}/deployments/${delivery.deployment_id}`}
+                        >
+                          {delivery.deployment_commit_sha?.substring(0, 7) || `#${delivery.deployment_id}`}
+                        </AkselLink>
+                      ) : (
+                        '-'
+                      )}
+                    </Table.DataCell>
+                    <Table.DataCell>{delivery.target_host}</Table.DataCell>
+                    <Table.DataCell>
+                      {delivery.status === 'sent' ? (
+                        <Tag data-color="success" variant="moderate" size="xsmall">
+                          Levert{delivery.response_status ? ` (${delivery.response_status})` : ''}
+                        </Tag>
+                      ) : (
+                        <Tag data-color="danger" variant="moderate" size="xsmall">
+                          Feilet{delivery.response_status ? ` (${delivery.response_status})` : ''}
+                        </Tag>
+                      )}
+                    </Table.DataCell>
+                  </Table.ExpandableRow>
+                ))}
+              </Table.Body>
+            </Table>
+          </VStack>
+        )}
       </VStack>
     </Box>
   )
@@ -34,7 +34,12 @@ import { Form, Link, useActionData, useLoaderData, useRouteLoaderData, useSearch
 import { ActionAlert } from '~/components/ActionAlert'
 import { ExternalLink } from '~/components/ExternalLink'
 import { StatCard } from '~/components/StatCard'
-import { getUnresolvedAlertsByApp, resolveRepositoryAlert } from '~/db/alerts.server'
+import {
+  assignRepositoryAlert,
+  getRepositoryAlertById,
+  getUnresolvedAlertsByApp,
+  resolveRepositoryAlert,
+} from '~/db/alerts.server'
 import { updateImplicitApprovalSettings } from '~/db/app-settings.server'
 import { getGroupContext } from '~/db/application-groups.server'
 import {
@@ -43,12 +48,16 @@ import {
   rejectRepository,
   setRepositoryAsActive,
 } from '~/db/application-repositories.server'
+import { getAuditActor, recordAuditEvent } from '~/db/audit-events.server'
 import { getAuditReportsForApp } from '~/db/audit-reports.server'
 import { getAppDeploymentStats } from '~/db/deployments.server'
 import { getDevTeamsForApp } from '~/db/dev-teams.server'
 import { getMonitoredApplicationByIdentity, updateMonitoredApplication } from '~/db/monitored-applications.server'
+import { getAppPermissions, requireAppAccess } from '~/lib/access-policy.server'
 import { getUserIdentity } from '~/lib/auth.server'
+import { DEVIATION_SEVERITY_LABELS, type DeviationSeverity } from '~/lib/deviation-constants'
 import { logger } from '~/lib/logger.server'
+import { describeRepositoryAlert, getRepositoryAlertTypeLabel } from '~/lib/repository-alerts'
 import { requireTeamEnvAppParams } from '~/lib/route-params.server'
 import { getDateRangeForPeriod, TIME_PERIOD_OPTIONS, type TimePeriod } from '~/lib/time-periods'
 import type { loader as layoutLoader } from '../layout'
@@ -68,6 +77,7 @@ export async function loader({ params, request }: Route.LoaderArgs) {
   if (!app) {
     throw new Response('Application not found', { status: 404 })
   }
+  await requireAppAccess(request, app.id)
 
   const [repositories, deploymentStats, alerts, auditReports, groupContext, devTeams] = await Promise.all([
     getRepositoriesByAppId(app.id),
@@ -103,28 +113,84 @@ export function meta({ data }: { data?: { app: { app_name: string } } }) {
   return [{ title: `${data?.app?.app_name ?? 'App'} - NDA` }]
 }
 
-export async function action({ request }: Route.ActionArgs) {
+export async function action({ request, params }: Route.ActionArgs) {
   const formData = await request.formData()
   const action = formData.get('action')
   const identity = await getUserIdentity(request)
+  const actor = await getAuditActor(request)
+  const { team, env, app: appName } = requireTeamEnvAppParams(params)
+  const app = await getMonitoredApplicationByIdentity(team, env, appName)
+  if (!app) {
+    return { error: 'Applikasjonen finnes ikke' }
+  }
+  if (!identity) {
+    return { error: 'Du må være innlogget for å endre innstillinger' }
+  }
+
+  // Taking an alert is open to everyone who can see the app; the rest changes the app
+  const permissions = await getAppPermissions(identity, app.id)
+  if (!permissions.canView) {
+    return { error: 'Applikasjonen tilhører en annen seksjon' }
+  }
+  if (action !== 'assign_alert' && !permissions.canAdminister) {
+    return { error: 'Krever admin-tilgang i seksjonen som eier applikasjonen' }
+  }
 
   try {
     if (action === 'approve_repo') {
       const repoId = parseInt(formData.get('repo_id') as string, 10)
       const setActive = formData.get('set_active') === 'true'
-      await approveRepository(repoId, 'web-user', setActive)
+      const before = (await getRepositoriesByAppId(app.id)).find((r) => r.id === repoId)
+      if (!before) {
+        return { error: 'Fant ikke repositoryet' }
+      }
+      const repo = await approveRepository(repoId, actor.navIdent, setActive)
+      await recordAuditEvent({
+        actor,
+        action: 'repository.approve',
+        entityType: 'repository',
+        entityId: repoId,
+        monitoredAppId: repo.monitored_app_id,
+        before: { status: before.status },
+        after: { status: repo.status, repository: `${repo.github_owner}/${repo.github_repo_name}` },
+      })
       return { success: 'Repository godkjent!' }
     }
 
     if (action === 'reject_repo') {
       const repoId = parseInt(formData.get('repo_id') as string, 10)
+      const before = (await getRepositoriesByAppId(app.id)).find((r) => r.id === repoId)
+      if (!before) {
+        return { error: 'Fant ikke repositoryet' }
+      }
       await rejectRepository(repoId)
+      await recordAuditEvent({
+        actor,
+        action: 'repository.reject',
+        entityType: 'repository',
+        entityId: repoId,
+        monitoredAppId: app.id,
+        before: { status: before.status, repository: `${before.github_owner}/${before.github_repo_name}` },
+      })
       return { success: 'Repository avvist!' }
     }
 
     if (action === 'set_active') {
       const repoId = parseInt(formData.get('repo_id') as string, 10)
-      await setRepositoryAsActive(repoId)
+      const before = (await getRepositoriesByAppId(app.id)).find((r) => r.id === repoId)
+      if (!before) {
+        return { error: 'Fant ikke repositoryet' }
+      }
+      const repo = await setRepositoryAsActive(repoId)
+      await recordAuditEvent({
+        actor,
+        action: 'repository.set_active',
+        entityType: 'repository',
+        entityId: repoId,
+        monitoredAppId: repo.monitored_app_id,
+        before: { status: before.status },
+        after: { status: repo.status, repository: `${repo.github_owner}/${repo.github_repo_name}` },
+      })
       return { success: 'Aktivt repository oppdatert!' }
     }
 
@@ -136,36 +202,66 @@ export async function action({ request }: Route.ActionArgs) {
         return { error: 'Vennligst skriv en merknad om hvordan varselet ble løst' }
       }
 
-      await resolveRepositoryAlert(alertId, resolutionNote)
+      const before = await getRepositoryAlertById(alertId)
+      if (!before || before.monitored_app_id !== app.id) {
+        return { error: 'Fant ikke varselet' }
+      }
+
+      const alert = await resolveRepositoryAlert(alertId, resolutionNote, actor.navIdent)
+      await recordAuditEvent({
+        actor,
+        action: 'repository_alert.resolve',
+        entityType: 'repository_alert',
+        entityId: alertId,
+        monitoredAppId: alert.monitored_app_id,
+        before: { resolved: false },
+        after: { resolved: true, resolution_note: resolutionNote },
+      })
       return { success: 'Varsel markert som løst!' }
     }
 
+    if (action === 'assign_alert') {
+      const alertId = parseInt(formData.get('alert_id') as string, 10)
+      const unassign = formData.get('unassign') === 'true'
+
+      const before = await getRepositoryAlertById(alertId)
+      if (!before || before.monitored_app_id !== app.id) {
+        return { error: 'Fant ikke varselet' }
+      }
+
+      const alert = await assignRepositoryAlert(alertId, unassign ? null : actor)
+      await recordAuditEvent({
+        actor,
+        action: 'repository_alert.assign',
+        entityType: 'repository_alert',
+        entityId: alertId,
+        monitoredAppId: before.monitored_app_id,
+        before: { assigned_to_nav_ident: before.assigned_to_nav_ident },
+        after: { assigned_to_nav_ident: alert?.assigned_to_nav_ident ?? null },
+      })
+      return { success: unassign ? 'Varselet er ikke lenger tildelt noen' : 'Varselet er tildelt deg' }
+    }
+
     if (action === 'update_default_branch') {
-      const appId = parseInt(formData.get('app_id') as string, 10)
       const defaultBranch = formData.get('default_branch') as string
 
       if (!defaultBranch?.trim()) {
         return { error: 'Default branch kan ikke være tom' }
       }
 
-      await updateMonitoredApplication(appId, { default_branch: defaultBranch.trim() })
+      await updateMonitoredApplication(app.id, { default_branch: defaultBranch.trim() }, { auditActor: actor })
       return { success: `Default branch oppdatert til "${defaultBranch.trim()}"` }
     }
 
     if (action === 'update_implicit_approval') {
-      const appId = parseInt(formData.get('app_id') as string, 10)
       const mode = formData.get('mode') as 'off' | 'dependabot_only' | 'all'
 
-      if (!identity) {
-        return { error: 'Du må være innlogget for å endre innstillinger' }
-      }
-
       if (!['off', 'dependabot_only', 'all'].includes(mode)) {
         return { error: 'Ugyldig modus valgt' }
       }
 
       await updateImplicitApprovalSettings({
-        monitoredAppId: appId,
+        monitoredAppId: app.id,
         settings: { mode },
         changedByNavIdent: identity.navIdent,
         changedByName: identity.name || undefined,
@@ -175,7 +271,6 @@ export async function action({ request }: Route.ActionArgs) {
     }
 
     if (action === 'update_audit_start_year') {
-      const appId = parseInt(formData.get('app_id') as string, 10)
       const startYearValue = formData.get('audit_start_year') as string
 
       // Allow empty value to clear the start year
@@ -185,7 +280,7 @@ export async function action({ request }: Route.ActionArgs) {
         return { error: 'Ugyldig årstall (må være mellom 2000 og 2100)' }
       }
 
-      await updateMonitoredApplication(appId, { audit_start_year: auditStartYear })
+      await updateMonitoredApplication(app.id, { audit_start_year: auditStartYear }, { auditActor: actor })
       return {
         success: auditStartYear ? `Startår oppdatert til ${auditStartYear}` : 'Startår fjernet',
       }
@@ -198,6 +293,12 @@ export async function action({ request }: Route.ActionArgs) {
   }
 }
 
+function alertSeverityColor(severity: DeviationSeverity): 'danger' | 'warning' | 'neutral' {
+  if (severity === 'critical' || severity === 'high') return 'danger'
+  if (severity === 'medium') return 'warning'
+  return 'neutral'
+}
+
 export default function AppDetail() {
   const {
     app,
@@ -447,21 +548,42 @@ export default function AppDetail() {
                     <HStack gap="space-8" align="center" justify="space-between" wrap>
                       <HStack gap="space-12" align="center">
                         <Tag data-color="warning" size="xsmall" variant="outline">
-                          {alert.alert_type === 'repository_mismatch' && 'Ukjent repo'}
-                          {alert.alert_type === 'pending_approval' && 'Venter godkjenning'}
-                          {alert.alert_type === 'historical_repository' && 'Historisk repo'}
+                          {getRepositoryAlertTypeLabel(alert.alert_type)}
+                        </Tag>
+                        <Tag data-color={alertSeverityColor(alert.severity)} size="xsmall" variant="moderate">
+                          {DEVIATION_SEVERITY_LABELS[alert.severity] ?? alert.severity}
                         </Tag>
                         <Detail textColor="subtle">{new Date(alert.created_at).toLocaleDateString('no-NO')}</Detail>
+                        <Detail textColor="subtle">
+                          {alert.assigned_to_nav_ident
+                            ? `Tildelt ${alert.assigned_to_name || alert.assigned_to_nav_ident}`
+                            : 'Ikke tildelt'}
+                        </Detail>
                       </HStack>
                       <HStack gap="space-8">
-                        <Button
-                          as={Link}
-                          to={`${appUrl}/deployments/${alert.deployment_id}`}
-                          size="xsmall"
-                          variant="tertiary"
-                        >
-                          Se deployment
-                        </Button>
+                        {alert.deployment_id && (
+                          <Button
+                            as={Link}
+                            to={`${appUrl}/deployments/${alert.deployment_id}`}
+                            size="xsmall"
+                            variant="tertiary"
+                          >
+                            Se deployment
+                          </Button>
+                        )}
+                        <Form method="post">
+                          <input type="hidden" name="action" value="assign_alert" />
+                          <input type="hidden" name="alert_id" value={alert.id} />
+                          {alert.assigned_to_nav_ident === layoutData?.user?.navIdent ? (
+                            <Button size="xsmall" variant="tertiary" name="unassign" value="true" type="submit">
+                              Fjern tildeling
+                            </Button>
+                          ) : (
+                            <Button size="xsmall" variant="tertiary" type="submit">
+                              Tildel meg
+                            </Button>
+                          )}
+                        </Form>
                         <Button
                           size="xsmall"
                           variant="secondary"
@@ -472,6 +594,7 @@ export default function AppDetail() {
                         </Button>
                       </HStack>
                     </HStack>
+                    <BodyShort size="small">{describeRepositoryAlert(alert)}</BodyShort>
                     {/* Repository comparison */}
                     <VStack gap="space-4">
                       <HStack gap="space-8" wrap>
@@ -486,6 +609,23 @@ export default function AppDetail() {
                           {alert.detected_github_owner}/{alert.detected_github_repo_name}
                         </code>
                       </HStack>
+                      {typeof alert.details?.imageRef === 'string' && (
+                        <>
+                          <HStack gap="space-8" wrap>
+                            <Detail textColor="subtle">Image:</Detail>
+                            <code style={{ fontSize: '0.75rem', wordBreak: 'break-all' }}>
+                              {alert.details.imageRef}
+                            </code>
+                          </HStack>
+                          <HStack gap="space-8" wrap>
+                            <Detail textColor="subtle">Commit:</Detail>
+                            <code style={{ fontSize: '0.75rem' }}>
+                              forventet {String(alert.details.expectedCommitSha).substring(0, 7)}, attestert{' '}
+                              {String(alert.details.attestedCommitSha ?? '').substring(0, 7) || 'ingen'}
+                            </code>
+                          </HStack>
+                        </>
+                      )}
                     </VStack>
                   </VStack>
                 </Box>
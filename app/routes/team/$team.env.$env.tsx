@@ -6,13 +6,16 @@ import { getAlertCountsByApp } from '~/db/alerts.server'
 import { getAllActiveRepositories } from '~/db/application-repositories.server'
 import { getAppDeploymentStatsBatch } from '~/db/deployments.server'
 import { getApplicationsByTeamAndEnv } from '~/db/monitored-applications.server'
+import { filterVisibleApps } from '~/lib/access-policy.server'
+import { requireUser } from '~/lib/auth.server'
 import { requireTeamEnvParams } from '~/lib/route-params.server'
 import type { Route } from './+types/$team.env.$env'
 
-export async function loader({ params }: Route.LoaderArgs) {
+export async function loader({ params, request }: Route.LoaderArgs) {
   const { team, env } = requireTeamEnvParams(params)
+  const user = await requireUser(request)
 
-  const applications = await getApplicationsByTeamAndEnv(team, env)
+  const applications = await filterVisibleApps(user, await getApplicationsByTeamAndEnv(team, env))
 
   if (applications.length === 0) {
     throw new Response('Team/environment not found or has no monitored applications', { status: 404 })
@@ -6,10 +6,13 @@ import { getAlertCountsByApp } from '~/db/alerts.server'
 import { getAllActiveRepositories } from '~/db/application-repositories.server'
 import { getAppDeploymentStatsBatch } from '~/db/deployments.server'
 import { getApplicationsByTeam } from '~/db/monitored-applications.server'
+import { filterVisibleApps } from '~/lib/access-policy.server'
+import { requireUser } from '~/lib/auth.server'
 import type { Route } from './+types/$team'
 
-export async function loader({ params: { team } }: Route.LoaderArgs) {
-  const applications = await getApplicationsByTeam(team)
+export async function loader({ params: { team }, request }: Route.LoaderArgs) {
+  const user = await requireUser(request)
+  const applications = await filterVisibleApps(user, await getApplicationsByTeam(team))
 
   if (applications.length === 0) {
     throw new Response('Team not found or has no monitored applications', { status: 404 })
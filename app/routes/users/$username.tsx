@@ -323,13 +323,16 @@ export async function action({ request, params }: Route.ActionArgs) {
       return { fieldErrors }
     }
 
-    await upsertUserMapping({
-      githubUsername,
-      displayName: (formData.get('display_name') as string) || null,
-      navEmail,
-      navIdent,
-      slackMemberId: (formData.get('slack_member_id') as string) || null,
-    })
+    await upsertUserMapping(
+      {
+        githubUsername,
+        displayName: (formData.get('display_name') as string) || null,
+        navEmail,
+        navIdent,
+        slackMemberId: (formData.get('slack_member_id') as string) || null,
+      },
+      identity,
+    )
     return redirect(`/users/${githubUsername}`)
   }
 
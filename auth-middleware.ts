@@ -6,6 +6,7 @@
  *
  * - Health checks (/api/isalive, /api/isready): pass through (Kubernetes probes)
  * - M2M routes (/api/v1/*): pass through (validated by route handler via introspection)
+ * - GitHub webhook (/api/github/webhook): pass through (validated by route handler via HMAC signature)
  * - Browser requests without valid token: redirect to Wonderwall login proxy
  * - API requests without valid token: 401 Unauthorized
  * - Development without NAIS cluster: pass through (uses dev identity fallback)
@@ -15,7 +16,7 @@ import type { NextFunction, Request, Response } from 'express'
 import * as jose from 'jose'
 
 const PUBLIC_PATHS = ['/api/isalive', '/api/isready']
-const SELF_AUTHENTICATED_PREFIXES = ['/api/v1/']
+const SELF_AUTHENTICATED_PREFIXES = ['/api/v1/', '/api/github/webhook']
 
 let jwksCache: jose.JWTVerifyGetKey | null = null
 let jwksCacheCreatedAt = 0
@@ -90,7 +91,7 @@ export function createAuthMiddleware() {
 
       // Reject machine-to-machine tokens on non-M2M routes (defense-in-depth).
       // App tokens from client_credentials flow have idtyp="app".
-      // M2M routes (/api/v1/*) are already skipped above and handle their own auth.
+      // Self-authenticated routes are already skipped above and handle their own auth.
       if (payload.idtyp === 'app') {
         denyAccess(req, res)
         return